@@ -47,6 +47,19 @@ describe("storage:update-app-state", () => {
     expect(broadcast).toHaveBeenCalledWith({ fontScale: 1, compactMode: true });
   });
 
+  it("notifies main-process AppState listeners with the canonical snapshot", async () => {
+    const { onAppStateSaved } = await import("../storage-ipc.js");
+    const { handler } = await createHandler({ existing: { fontScale: 1 } });
+    const listener = vi.fn();
+    const unsubscribe = onAppStateSaved(listener);
+
+    await handler({ sender: {} }, { aiProvider: "ollama" });
+    unsubscribe();
+    await handler({ sender: {} }, { aiProvider: "anthropic" });
+
+    expect(listener.mock.calls).toEqual([[{ fontScale: 1, aiProvider: "ollama" }]]);
+  });
+
   it("serializes competing patches so neither update is lost", async () => {
     const { handler, manager } = await createHandler({ existing: {} });
     let persisted: Record<string, unknown> = { fontScale: 1 };
@@ -504,6 +504,7 @@ function registerFileHandlers() {
     try {
       const { BrowserWindow } = require("electron");
       const { mdiToHtml } = require("../../src/lib/export/mdi-to-html");
+      const { manuscriptPaperToHtml } = require("../../src/lib/export/manuscript-paper");
       const { calculateTypesetting } = require("../../src/lib/export/pdf-export-settings");
       const { fullwidthIndentCount } = require("../../src/lib/export/fullwidth-indent");
 
@@ -545,24 +546,44 @@ function registerFileHandlers() {
         typesetting = { pageSize, landscape, margins };
       }
 
-      const html = mdiToHtml(content, {
-        metadata: opts.metadata,
-        verticalWriting,
-        typesetting,
-        googleFontFamily: opts.googleFontFamily,
-        fileType: opts.fileType,
-        fullwidthSpaceIndentCount: fullwidthSpaceCount,
-        // Embed page numbers via CSS @page margin boxes so they appear in the
-        // actual print output (webContents.print does not support
-        // headerTemplate/footerTemplate unlike printToPDF).
-        pageNumbers: opts.showPageNumbers
-          ? {
-              show: true,
-              format: opts.pageNumberFormat,
-              position: opts.pageNumberPosition,
-            }
-          : undefined,
-      });
+      // 原稿用紙 preset: the grid replaces the typesetting (same as pdf-exporter.ts)
+      const html = opts.manuscriptGrid
+        ? manuscriptPaperToHtml(content, {
+            metadata: opts.metadata,
+            grid: opts.manuscriptGrid,
+            verticalWriting,
+            pageSize,
+            landscape,
+            margins,
+            fontFamily: opts.fontFamily,
+            googleFontFamily: opts.googleFontFamily,
+            fileType: opts.fileType,
+            pageNumbers: opts.showPageNumbers
+              ? {
+                  show: true,
+                  format: opts.pageNumberFormat,
+                  position: opts.pageNumberPosition,
+                }
+              : undefined,
+          })
+        : mdiToHtml(content, {
+            metadata: opts.metadata,
+            verticalWriting,
+            typesetting,
+            googleFontFamily: opts.googleFontFamily,
+            fileType: opts.fileType,
+            fullwidthSpaceIndentCount: fullwidthSpaceCount,
+            // Embed page numbers via CSS @page margin boxes so they appear in the
+            // actual print output (webContents.print does not support
+            // headerTemplate/footerTemplate unlike printToPDF).
+            pageNumbers: opts.showPageNumbers
+              ? {
+                  show: true,
+                  format: opts.pageNumberFormat,
+                  position: opts.pageNumberPosition,
+                }
+              : undefined,
+          });
 
       const partition = `print-${Date.now()}`;
       printWin = new BrowserWindow({
@@ -0,0 +1,102 @@
+// Git versioning IPC handlers — stage / commit / log / show for the project folder.
+//
+// Every handler runs git in the sender window's approved VFS root; the renderer
+// never supplies an absolute path or working directory. Results are plain
+// objects: { ok: true, ... } or { ok: false, reason, message }, so a missing git
+// install or a non-repository folder is a normal answer rather than an error.
+
+"use strict";
+
+const { ipcMain } = require("electron");
+
+const { GIT_CHANNELS } = require("../lib/ipc-channels");
+const { getVfsRoot } = require("../lib/vfs-root-registry");
+const { isMasBuild } = require("../app-constants");
+const git = require("../lib/git-cli");
+
+/** git-cli error code → renderer-facing failure reason */
+const FAILURE_REASONS = {
+  GIT_MISSING: "git-missing",
+  NOT_REPO: "not-repo",
+  NOT_IN_REVISION: "not-in-revision",
+  INVALID_ARGUMENT: "invalid-argument",
+  GIT_FAILED: "failed",
+  NON_UTF8: "failed",
+};
+
+/**
+ * Wrap a git-cli operation as an ipcMain.handle listener.
+ * @param {(cwd: string, ...args: unknown[]) => Promise<object | void>} operation
+ * @param {{ getVfsRoot?: typeof getVfsRoot, isMasBuild?: boolean }} [deps]
+ */
+function createGitHandler(operation, deps = {}) {
+  const getRoot = deps.getVfsRoot ?? getVfsRoot;
+  const masBuild = deps.isMasBuild ?? isMasBuild;
+  return async (event, ...args) => {
+    // App Sandbox builds cannot spawn the system git.
+    if (masBuild) {
+      return {
+        ok: false,
+        reason: "git-missing",
+        message: "Mac App Store 版では git 連携を利用できません",
+      };
+    }
+    const root = getRoot(event?.sender?.id);
+    if (!root) {
+      return { ok: false, reason: "no-root", message: "プロジェクトが開かれていません" };
+    }
+    try {
+      const result = await operation(root.path, ...args);
+      return { ok: true, ...(result ?? {}) };
+    } catch (error) {
+      const reason = FAILURE_REASONS[error?.code];
+      if (!reason) console.error("[Git] Unexpected failure:", error);
+      return {
+        ok: false,
+        reason: reason ?? "failed",
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+}
+
+function registerGitHandlers() {
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.status,
+    createGitHandler((cwd) => git.getStatus(cwd)),
+  );
+
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.stage,
+    createGitHandler((cwd, paths) => git.stagePaths(cwd, paths)),
+  );
+
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.unstage,
+    createGitHandler((cwd, paths) => git.unstagePaths(cwd, paths)),
+  );
+
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.commit,
+    createGitHandler(async (cwd, message) => ({ commit: await git.commit(cwd, message) })),
+  );
+
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.log,
+    createGitHandler(async (cwd, limit) => ({ commits: await git.getLog(cwd, limit) })),
+  );
+
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.fileLog,
+    createGitHandler(async (cwd, payload) => ({
+      commits: await git.getFileLog(cwd, payload?.path, payload?.limit),
+    })),
+  );
+
+  ipcMain.handle(
+    GIT_CHANNELS.invoke.show,
+    createGitHandler((cwd, payload) => git.showFile(cwd, payload?.revision, payload?.path)),
+  );
+}
+
+module.exports = { registerGitHandlers, createGitHandler };
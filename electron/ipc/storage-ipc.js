@@ -12,6 +12,8 @@ let storageManager = null;
 // arrive concurrently from multiple windows, so a renderer-local mutex is not
 // sufficient once Settings becomes its own window.
 let appStateWriteQueue = Promise.resolve();
+// Main-process consumers of AppState writes (e.g. the CSP in main.js).
+const appStateSavedListeners = new Set();
 
 function getStorageManager() {
   if (!storageManager) {
@@ -35,6 +37,25 @@ function isTrustedAppRenderer(webContents) {
   return isDev && /^http:\/\/localhost:3020(?:\/|$)/.test(url);
 }
 
+/**
+ * Subscribe to AppState writes made through the storage IPC handlers.
+ * Returns an unsubscribe function.
+ */
+function onAppStateSaved(listener) {
+  appStateSavedListeners.add(listener);
+  return () => appStateSavedListeners.delete(listener);
+}
+
+function notifyAppStateSaved(appState) {
+  for (const listener of appStateSavedListeners) {
+    try {
+      listener(appState);
+    } catch (error) {
+      console.error("[Storage IPC] AppState listener failed:", error);
+    }
+  }
+}
+
 function broadcastAppState(appState) {
   for (const win of BrowserWindow.getAllWindows()) {
     if (isTrustedAppRenderer(win.webContents)) {
@@ -67,6 +88,7 @@ function createUpdateAppStateHandler({
       const canonical = { ...existing, ...updates };
       await manager.saveAppState(canonical);
       broadcast(canonical);
+      notifyAppStateSaved(canonical);
       return canonical;
     };
 
@@ -114,6 +136,7 @@ function registerStorageHandlers() {
       console.error("[Storage IPC] saveAppState failed:", error);
       throw error;
     }
+    notifyAppStateSaved(appState);
   });
 
   // AppState 読み込み
@@ -316,6 +339,7 @@ function registerStorageHandlers() {
 module.exports = {
   registerStorageHandlers,
   getStorageManager,
+  onAppStateSaved,
   createUpdateAppStateHandler,
   isTrustedAppRenderer,
   broadcastAppState,
@@ -0,0 +1,52 @@
+/**
+ * Tests for the AI connect-src policy: user-configured endpoints are allowed,
+ * and the local Ollama origin only while a feature is routed to Ollama.
+ */
+import { describe, expect, it, vi } from "vitest";
+import { createRequire } from "module";
+
+const require = createRequire(import.meta.url);
+const { resolveAiConnectOrigins } = require("../ai-csp-policy") as {
+  resolveAiConnectOrigins: (appState: Record<string, unknown> | null | undefined) => string[];
+};
+
+describe("resolveAiConnectOrigins", () => {
+  it("adds nothing for the hosted providers", () => {
+    expect(resolveAiConnectOrigins(null)).toEqual([]);
+    expect(resolveAiConnectOrigins({ aiBaseUrl: "https://api.openai.com/v1" })).toEqual([]);
+  });
+
+  it("adds a custom gateway origin", () => {
+    expect(resolveAiConnectOrigins({ aiBaseUrl: "https://gateway.example.com/v1" })).toEqual([
+      "https://gateway.example.com",
+    ]);
+  });
+
+  it("leaves Ollama out until a feature is routed to it", () => {
+    expect(resolveAiConnectOrigins({ aiOllamaBaseUrl: "http://localhost:11434" })).toEqual([]);
+    expect(resolveAiConnectOrigins({ aiFeatureProviders: { rewrite: "anthropic" } })).toEqual([]);
+  });
+
+  it("adds the Ollama origin for the default provider or a feature override", () => {
+    expect(resolveAiConnectOrigins({ aiProvider: "ollama" })).toEqual(["http://localhost:11434"]);
+    expect(
+      resolveAiConnectOrigins({
+        aiFeatureProviders: { rewrite: "ollama" },
+        aiOllamaBaseUrl: "http://192.168.1.20:11434/",
+      }),
+    ).toEqual(["http://192.168.1.20:11434"]);
+  });
+
+  it("skips invalid URLs and duplicates", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      resolveAiConnectOrigins({
+        aiBaseUrl: "http://localhost:11434/v1",
+        aiProvider: "ollama",
+      }),
+    ).toEqual(["http://localhost:11434"]);
+    expect(resolveAiConnectOrigins({ aiBaseUrl: "not a url" })).toEqual([]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
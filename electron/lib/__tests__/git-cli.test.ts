@@ -0,0 +1,243 @@
+import { execFileSync } from "node:child_process";
+import fsp from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { createRequire } from "node:module";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const require = createRequire(import.meta.url);
+
+interface GitStatusEntry {
+  path: string;
+  origPath?: string;
+  index: string;
+  worktree: string;
+}
+
+interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+const git = require("../git-cli.js") as {
+  runGit: (
+    cwd: string,
+    args: string[],
+    options?: { execFile?: (...args: unknown[]) => void },
+  ) => Promise<string>;
+  validateRelativePath: (relPath: unknown) => string;
+  validateRevision: (revision: unknown) => string;
+  validateCommitMessage: (message: unknown) => string;
+  parseStatusOutput: (output: string) => GitStatusEntry[];
+  parseLogOutput: (output: string) => GitCommitInfo[];
+  getStatus: (
+    cwd: string,
+  ) => Promise<{ branch: string | null; hasHead: boolean; entries: GitStatusEntry[] }>;
+  stagePaths: (cwd: string, paths: unknown) => Promise<void>;
+  unstagePaths: (cwd: string, paths: unknown) => Promise<void>;
+  commit: (cwd: string, message: unknown) => Promise<{ hash: string; shortHash: string }>;
+  getLog: (cwd: string, limit?: number) => Promise<GitCommitInfo[]>;
+  getFileLog: (cwd: string, relPath: unknown, limit?: number) => Promise<GitCommitInfo[]>;
+  showFile: (
+    cwd: string,
+    revision: unknown,
+    relPath: unknown,
+  ) => Promise<{ content: string; commit: GitCommitInfo | null }>;
+};
+
+function hasGit(): boolean {
+  try {
+    execFileSync("git", ["--version"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("git-cli: argument validation", () => {
+  it("accepts root-relative paths and normalizes backslashes", () => {
+    expect(git.validateRelativePath("章/第一話.mdi")).toBe("章/第一話.mdi");
+    expect(git.validateRelativePath("章\\第一話.mdi")).toBe("章/第一話.mdi");
+  });
+
+  it.each(["", "/etc/passwd", "../outside.mdi", "a/../../b", "C:/Windows", "a//b", "a\0b", 42])(
+    "rejects %j",
+    (value) => {
+      expect(() => git.validateRelativePath(value)).toThrow(
+        expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+      );
+    },
+  );
+
+  it("accepts only HEAD, HEAD~N and commit hashes as revisions", () => {
+    expect(git.validateRevision("HEAD")).toBe("HEAD");
+    expect(git.validateRevision("HEAD~3")).toBe("HEAD~3");
+    expect(git.validateRevision("1a2b3c4")).toBe("1a2b3c4");
+    for (const bad of ["--output=/tmp/x", "main", "HEAD^{tree}", "HEAD:secret", "abc"]) {
+      expect(() => git.validateRevision(bad)).toThrow(
+        expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+      );
+    }
+  });
+
+  it("trims commit messages and rejects empty ones", () => {
+    expect(git.validateCommitMessage("  第一稿  \n")).toBe("第一稿");
+    expect(() => git.validateCommitMessage("   ")).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT" }),
+    );
+  });
+});
+
+describe("git-cli: output parsing", () => {
+  it("parses porcelain v1 -z status including renames", () => {
+    const output = [
+      " M 本文.mdi",
+      "?? メモ.txt",
+      "R  新しい名前.mdi",
+      "古い名前.mdi",
+      "A  追加.md",
+      "",
+    ].join("\0");
+    expect(git.parseStatusOutput(output)).toEqual([
+      { path: "本文.mdi", index: " ", worktree: "M" },
+      { path: "メモ.txt", index: "?", worktree: "?" },
+      { path: "新しい名前.mdi", origPath: "古い名前.mdi", index: "R", worktree: " " },
+      { path: "追加.md", index: "A", worktree: " " },
+    ]);
+  });
+
+  it("parses log records whose subject contains separators of other formats", () => {
+    const output =
+      "abc123\x1fabc\x1f作者\x1f2026-01-02T03:04:05+09:00\x1f第一稿 | 修正\x1e\n" +
+      "def456\x1fdef\x1f作者\x1f2026-01-01T00:00:00+09:00\x1f初回\x1e\n";
+    expect(git.parseLogOutput(output)).toEqual([
+      {
+        hash: "abc123",
+        shortHash: "abc",
+        author: "作者",
+        date: "2026-01-02T03:04:05+09:00",
+        subject: "第一稿 | 修正",
+      },
+      {
+        hash: "def456",
+        shortHash: "def",
+        author: "作者",
+        date: "2026-01-01T00:00:00+09:00",
+        subject: "初回",
+      },
+    ]);
+  });
+
+  it("reports GIT_MISSING when the git executable cannot be spawned", async () => {
+    const execFile = (...args: unknown[]) => {
+      const callback = args[args.length - 1] as (error: NodeJS.ErrnoException) => void;
+      callback(Object.assign(new Error("spawn git ENOENT"), { code: "ENOENT" }));
+    };
+    await expect(git.runGit(os.tmpdir(), ["status"], { execFile })).rejects.toMatchObject({
+      code: "GIT_MISSING",
+    });
+  });
+
+  it("never runs the repository's fsmonitor hook", async () => {
+    let gitArgs: string[] = [];
+    const execFile = (...args: unknown[]) => {
+      gitArgs = args[1] as string[];
+      const callback = args[args.length - 1] as (error: null, stdout: string) => void;
+      callback(null, "");
+    };
+    await git.runGit(os.tmpdir(), ["status"], { execFile });
+    const index = gitArgs.indexOf("core.fsmonitor=false");
+    expect(index).toBeGreaterThan(0);
+    expect(gitArgs[index - 1]).toBe("-c");
+    expect(index).toBeLessThan(gitArgs.indexOf("status"));
+  });
+});
+
+describe.skipIf(!hasGit())("git-cli: local repository without a remote", () => {
+  let repo: string;
+  let project: string;
+
+  const gitIn = (cwd: string, ...args: string[]) =>
+    execFileSync("git", args, { cwd, encoding: "utf8" });
+
+  beforeEach(async () => {
+    repo = await fsp.mkdtemp(path.join(os.tmpdir(), "git-cli-"));
+    gitIn(repo, "init", "-q");
+    gitIn(repo, "config", "user.name", "作者");
+    gitIn(repo, "config", "user.email", "author@example.com");
+    gitIn(repo, "config", "commit.gpgsign", "false");
+    // The project folder is a subdirectory of the work tree.
+    project = path.join(repo, "小説");
+    await fsp.mkdir(project);
+    await fsp.writeFile(path.join(repo, "outside.txt"), "外", "utf8");
+  });
+
+  afterEach(async () => {
+    await fsp.rm(repo, { recursive: true, force: true });
+  });
+
+  it("stages, commits and reads files back, with paths relative to the project folder", async () => {
+    await fsp.writeFile(path.join(project, "第一話.mdi"), "一行目\n", "utf8");
+
+    let status = await git.getStatus(project);
+    expect(status.hasHead).toBe(false);
+    expect(status.entries).toEqual([{ path: "第一話.mdi", index: "?", worktree: "?" }]);
+
+    await git.stagePaths(project, ["第一話.mdi"]);
+    status = await git.getStatus(project);
+    expect(status.entries).toEqual([{ path: "第一話.mdi", index: "A", worktree: " " }]);
+
+    const head = await git.commit(project, "第一稿");
+    expect(head.shortHash).toMatch(/^[0-9a-f]+$/);
+
+    await fsp.writeFile(path.join(project, "第一話.mdi"), "一行目\n二行目\n", "utf8");
+    status = await git.getStatus(project);
+    expect(status.hasHead).toBe(true);
+    expect(status.entries).toEqual([{ path: "第一話.mdi", index: " ", worktree: "M" }]);
+
+    const shown = await git.showFile(project, "HEAD", "第一話.mdi");
+    expect(shown.content).toBe("一行目\n");
+    expect(shown.commit?.subject).toBe("第一稿");
+
+    const log = await git.getLog(project);
+    expect(log.map((entry) => entry.subject)).toEqual(["第一稿"]);
+    expect(await git.getFileLog(project, "第一話.mdi")).toHaveLength(1);
+  });
+
+  it("unstages before and after the first commit", async () => {
+    await fsp.writeFile(path.join(project, "a.txt"), "a", "utf8");
+    await git.stagePaths(project, ["a.txt"]);
+    await git.unstagePaths(project, ["a.txt"]);
+    expect((await git.getStatus(project)).entries).toEqual([
+      { path: "a.txt", index: "?", worktree: "?" },
+    ]);
+
+    await git.stagePaths(project, ["a.txt"]);
+    await git.commit(project, "a");
+    await fsp.writeFile(path.join(project, "a.txt"), "b", "utf8");
+    await git.stagePaths(project, ["a.txt"]);
+    await git.unstagePaths(project, ["a.txt"]);
+    expect((await git.getStatus(project)).entries).toEqual([
+      { path: "a.txt", index: " ", worktree: "M" },
+    ]);
+  });
+
+  it("reports files missing from the revision and folders outside a work tree", async () => {
+    await fsp.writeFile(path.join(project, "a.txt"), "a", "utf8");
+    await git.stagePaths(project, ["a.txt"]);
+    await git.commit(project, "a");
+    await expect(git.showFile(project, "HEAD", "b.txt")).rejects.toMatchObject({
+      code: "NOT_IN_REVISION",
+    });
+
+    const plain = await fsp.mkdtemp(path.join(os.tmpdir(), "git-cli-plain-"));
+    try {
+      await expect(git.getStatus(plain)).rejects.toMatchObject({ code: "NOT_REPO" });
+    } finally {
+      await fsp.rm(plain, { recursive: true, force: true });
+    }
+  });
+});
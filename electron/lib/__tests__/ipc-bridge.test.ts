@@ -45,6 +45,7 @@ const {
   NLP_CHANNELS,
   PTY_CHANNELS,
   RULESETS_CHANNELS,
+  GIT_CHANNELS,
 } = channels;
 
 const { createIpcBridge } = require("../../../electron/lib/ipc-bridge") as {
@@ -181,6 +182,7 @@ describe("ipc-channels: pinned channel names (public IPC contract)", () => {
     expect(MENU_CHANNELS.event).toEqual({
       newTriggered: "menu-new-triggered",
       openTriggered: "menu-open-triggered",
+      importAozora: "menu-import-aozora",
       saveTriggered: "menu-save-triggered",
       saveAsTriggered: "menu-save-as-triggered",
       closeTab: "menu-close-tab",
@@ -196,6 +198,8 @@ describe("ipc-channels: pinned channel names (public IPC contract)", () => {
       print: "menu-print",
       exportTxt: "menu-export-txt",
       exportTxtRuby: "menu-export-txt-ruby",
+      exportAozora: "menu-export-aozora",
+      exportWebNovel: "menu-export-web-novel",
       exportPdf: "menu-export-pdf",
       exportEpub: "menu-export-epub",
       exportDocx: "menu-export-docx",
@@ -313,6 +317,19 @@ describe("ipc-channels: pinned channel names (public IPC contract)", () => {
       changed: "rulesets:changed",
     });
   });
+
+  it("git invoke channels keep their historical string values", () => {
+    expect(GIT_CHANNELS.invoke).toEqual({
+      status: "git:status",
+      stage: "git:stage",
+      unstage: "git:unstage",
+      commit: "git:commit",
+      log: "git:log",
+      fileLog: "git:file-log",
+      show: "git:show",
+    });
+    expect(GIT_CHANNELS.event).toEqual({});
+  });
 });
 
 describe("ipc bridge: preload ↔ main handler registration cannot drift", () => {
@@ -349,6 +366,7 @@ describe("ipc bridge: preload ↔ main handler registration cannot drift", () =>
     { constName: "NLP_CHANNELS", group: NLP_CHANNELS, mainFile: "ipc/nlp-ipc.js" },
     { constName: "PTY_CHANNELS", group: PTY_CHANNELS, mainFile: "ipc/pty-ipc.js" },
     { constName: "RULESETS_CHANNELS", group: RULESETS_CHANNELS, mainFile: "ipc/rulesets-ipc.js" },
+    { constName: "GIT_CHANNELS", group: GIT_CHANNELS, mainFile: "ipc/git-ipc.js" },
   ];
 
   it.each(invokeRegistrations)(
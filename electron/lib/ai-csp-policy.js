@@ -0,0 +1,66 @@
+"use strict";
+/**
+ * Pure policy for the AI endpoints allowed in the renderer CSP `connect-src`.
+ *
+ * The static list in main.js covers the hosted providers. User-configured
+ * endpoints (a custom OpenAI-compatible gateway, a local Ollama server) are
+ * added from AppState — Ollama only while some feature is routed to it, so
+ * users who never enable it do not get a localhost origin in the policy.
+ */
+
+/** Origins already present in the static connect-src list. */
+const STATIC_AI_ORIGINS = Object.freeze([
+  "https://my.illusions.app",
+  "https://api.openai.com",
+  "https://api.anthropic.com",
+  "https://generativelanguage.googleapis.com",
+]);
+
+/** Ollama's own default, used when aiOllamaBaseUrl is empty. */
+const DEFAULT_OLLAMA_BASE_URL = "http://localhost:11434";
+
+/**
+ * Whether the default provider or any per-feature override is Ollama.
+ * @param {Record<string, unknown> | null | undefined} appState
+ * @returns {boolean}
+ */
+function usesOllama(appState) {
+  if (appState?.aiProvider === "ollama") return true;
+  const overrides = appState?.aiFeatureProviders;
+  return (
+    typeof overrides === "object" &&
+    overrides !== null &&
+    Object.values(overrides).includes("ollama")
+  );
+}
+
+/**
+ * Extra connect-src origins for the configured AI endpoints, deduplicated and
+ * without the static ones. Invalid URLs are skipped with a warning.
+ * @param {Record<string, unknown> | null | undefined} appState
+ * @returns {string[]}
+ */
+function resolveAiConnectOrigins(appState) {
+  const endpoints = [appState?.aiBaseUrl];
+  if (usesOllama(appState)) {
+    endpoints.push(appState?.aiOllamaBaseUrl || DEFAULT_OLLAMA_BASE_URL);
+  }
+
+  const origins = [];
+  for (const endpoint of endpoints) {
+    if (typeof endpoint !== "string" || !endpoint) continue;
+    let origin;
+    try {
+      origin = new URL(endpoint).origin;
+    } catch {
+      console.warn("[CSP] Ignoring invalid AI endpoint URL:", endpoint);
+      continue;
+    }
+    if (!STATIC_AI_ORIGINS.includes(origin) && !origins.includes(origin)) {
+      origins.push(origin);
+    }
+  }
+  return origins;
+}
+
+module.exports = { resolveAiConnectOrigins, usesOllama };
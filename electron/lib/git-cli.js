@@ -0,0 +1,371 @@
+"use strict";
+
+// Thin wrapper around the system `git` executable for project versioning.
+//
+// Everything runs through execFile (no shell) with the window's approved VFS
+// root as cwd; renderer input is limited to root-relative paths, validated
+// revisions and a commit message. Only local operations are offered — nothing
+// here talks to a remote, so a plain `git init` repository is enough.
+//
+// Failures throw an Error with a `code` the IPC layer forwards as a reason:
+//   GIT_MISSING      — git is not installed / not on PATH
+//   NOT_REPO         — the project folder is not inside a git work tree
+//   NOT_IN_REVISION  — the file does not exist at the requested revision
+//   INVALID_ARGUMENT — a renderer-supplied path / revision / message was rejected
+//   GIT_FAILED       — git ran and exited non-zero (message is git's stderr)
+
+const { execFile } = require("child_process");
+const path = require("path");
+const { decodeUtf8Strict } = require("./text-decode");
+
+const GIT_TIMEOUT_MS = 15_000;
+const GIT_MAX_BUFFER = 32 * 1024 * 1024;
+const DEFAULT_LOG_LIMIT = 50;
+const MAX_LOG_LIMIT = 500;
+const MAX_COMMIT_MESSAGE_LENGTH = 10_000;
+const MAX_PATHS_PER_CALL = 1_000;
+
+// %x1f separates fields and %x1e ends a record, so subjects may contain anything.
+const LOG_FORMAT = "--format=%H%x1f%h%x1f%an%x1f%aI%x1f%s%x1e";
+
+const REVISION_PATTERN = /^(?:HEAD(?:~\d{1,4})?|[0-9a-f]{7,64})$/;
+
+function gitError(code, message) {
+  const error = new Error(message);
+  error.code = code;
+  return error;
+}
+
+/**
+ * Run git in `cwd` and resolve with its stdout.
+ * Pathspecs are always literal (`*` in a file name is not a glob), git never
+ * prompts for credentials, and a repository's core.fsmonitor hook is not run.
+ *
+ * @param {string} cwd - Working directory (the approved VFS root)
+ * @param {string[]} args - git arguments
+ * @param {{ encoding?: "utf8" | "buffer", execFile?: typeof execFile }} [options]
+ * @returns {Promise<string | Buffer>}
+ */
+function runGit(cwd, args, options = {}) {
+  const exec = options.execFile ?? execFile;
+  return new Promise((resolve, reject) => {
+    exec(
+      "git",
+      [
+        "--literal-pathspecs",
+        "-c",
+        "core.quotepath=false",
+        "-c",
+        "color.ui=false",
+        "-c",
+        "core.fsmonitor=false",
+        ...args,
+      ],
+      {
+        cwd,
+        encoding: options.encoding ?? "utf8",
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: GIT_MAX_BUFFER,
+        windowsHide: true,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", GIT_OPTIONAL_LOCKS: "0" },
+      },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve(stdout);
+          return;
+        }
+        if (error.code === "ENOENT") {
+          reject(gitError("GIT_MISSING", "git が見つかりません。git をインストールしてください。"));
+          return;
+        }
+        const detail = String(stderr ?? "").trim();
+        const failure = gitError("GIT_FAILED", detail || error.message);
+        failure.exitCode = typeof error.code === "number" ? error.code : null;
+        reject(failure);
+      },
+    );
+  });
+}
+
+/**
+ * Validate a renderer-supplied, root-relative file path.
+ * @param {unknown} relPath
+ * @returns {string} The path with forward slashes
+ */
+function validateRelativePath(relPath) {
+  if (typeof relPath !== "string" || relPath.length === 0 || relPath.length > 4096) {
+    throw gitError("INVALID_ARGUMENT", "ファイルのパスが不正です");
+  }
+  const normalized = relPath.replace(/\\/g, "/");
+  if (
+    normalized.includes("\0") ||
+    normalized.startsWith("/") ||
+    path.isAbsolute(relPath) ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized.split("/").some((segment) => segment === ".." || segment === "")
+  ) {
+    throw gitError("INVALID_ARGUMENT", "ファイルのパスが不正です");
+  }
+  return normalized;
+}
+
+/**
+ * @param {unknown} paths
+ * @returns {string[]}
+ */
+function validateRelativePaths(paths) {
+  if (!Array.isArray(paths) || paths.length === 0 || paths.length > MAX_PATHS_PER_CALL) {
+    throw gitError("INVALID_ARGUMENT", "ファイルの指定が不正です");
+  }
+  return paths.map(validateRelativePath);
+}
+
+/**
+ * Only HEAD, HEAD~N and (abbreviated) commit hashes are accepted, so a
+ * renderer can never smuggle an option or a revision expression into git.
+ * @param {unknown} revision
+ * @returns {string}
+ */
+function validateRevision(revision) {
+  if (typeof revision !== "string" || !REVISION_PATTERN.test(revision)) {
+    throw gitError("INVALID_ARGUMENT", "リビジョンの指定が不正です");
+  }
+  return revision;
+}
+
+/**
+ * @param {unknown} message
+ * @returns {string}
+ */
+function validateCommitMessage(message) {
+  if (typeof message !== "string" || message.includes("\0")) {
+    throw gitError("INVALID_ARGUMENT", "コミットメッセージが不正です");
+  }
+  const trimmed = message.trim();
+  if (trimmed.length === 0) {
+    throw gitError("INVALID_ARGUMENT", "コミットメッセージを入力してください");
+  }
+  if (trimmed.length > MAX_COMMIT_MESSAGE_LENGTH) {
+    throw gitError("INVALID_ARGUMENT", "コミットメッセージが長すぎます");
+  }
+  return trimmed;
+}
+
+/**
+ * Parse `git status --porcelain=v1 -z` output.
+ * Renames and copies carry their source path in the following NUL field.
+ *
+ * @param {string} output
+ * @returns {Array<{ path: string, origPath?: string, index: string, worktree: string }>}
+ */
+function parseStatusOutput(output) {
+  const fields = output.split("\0");
+  const entries = [];
+  for (let i = 0; i < fields.length; i++) {
+    const field = fields[i];
+    if (!field || field.length < 4) continue;
+    const index = field[0];
+    const worktree = field[1];
+    const entry = { path: field.slice(3), index, worktree };
+    if (index === "R" || index === "C") {
+      entry.origPath = fields[++i];
+    }
+    entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Parse `git log` output produced with LOG_FORMAT.
+ * @param {string} output
+ * @returns {Array<{ hash: string, shortHash: string, author: string, date: string, subject: string }>}
+ */
+function parseLogOutput(output) {
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\n/, ""))
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [hash = "", shortHash = "", author = "", date = "", subject = ""] =
+        record.split("\x1f");
+      return { hash, shortHash, author, date, subject };
+    });
+}
+
+/**
+ * Make repo-root-relative porcelain paths relative to the project folder.
+ * Returns null for paths outside the folder (possible for a rename source).
+ * @param {string} repoPath
+ * @param {string} prefix - `git rev-parse --show-prefix` output ("" or "dir/")
+ */
+function stripPrefix(repoPath, prefix) {
+  if (!prefix) return repoPath;
+  return repoPath.startsWith(prefix) ? repoPath.slice(prefix.length) : null;
+}
+
+/**
+ * Locate the work tree containing `cwd`.
+ * @returns {Promise<{ prefix: string, branch: string | null, hasHead: boolean }>}
+ */
+async function getRepoInfo(cwd, options = {}) {
+  let prefix;
+  try {
+    const out = await runGit(cwd, ["rev-parse", "--is-inside-work-tree", "--show-prefix"], options);
+    const [inside, rawPrefix = ""] = String(out).split("\n");
+    if (inside.trim() !== "true") throw gitError("NOT_REPO", "");
+    prefix = rawPrefix.trim();
+  } catch (error) {
+    if (error.code === "GIT_MISSING") throw error;
+    throw gitError("NOT_REPO", "このプロジェクトは git リポジトリではありません");
+  }
+
+  let hasHead = true;
+  try {
+    await runGit(cwd, ["rev-parse", "--verify", "-q", "HEAD"], options);
+  } catch (error) {
+    if (error.code !== "GIT_FAILED") throw error;
+    hasHead = false;
+  }
+
+  let branch = null;
+  try {
+    branch = String(await runGit(cwd, ["symbolic-ref", "--short", "-q", "HEAD"], options)).trim();
+  } catch (error) {
+    // Detached HEAD: symbolic-ref exits 1.
+    if (error.code !== "GIT_FAILED") throw error;
+  }
+
+  return { prefix, branch: branch || null, hasHead };
+}
+
+/**
+ * Working tree status of the project folder.
+ * Paths are relative to `cwd`; entries outside it are omitted.
+ */
+async function getStatus(cwd, options = {}) {
+  const info = await getRepoInfo(cwd, options);
+  const out = await runGit(
+    cwd,
+    ["status", "--porcelain=v1", "-z", "--untracked-files=all", "--", "."],
+    options,
+  );
+  const entries = [];
+  for (const entry of parseStatusOutput(String(out))) {
+    const relPath = stripPrefix(entry.path, info.prefix);
+    if (relPath === null) continue;
+    const result = { path: relPath, index: entry.index, worktree: entry.worktree };
+    if (entry.origPath !== undefined) {
+      const origPath = stripPrefix(entry.origPath, info.prefix);
+      if (origPath !== null) result.origPath = origPath;
+    }
+    entries.push(result);
+  }
+  return { branch: info.branch, hasHead: info.hasHead, entries };
+}
+
+/** Stage files (new, modified or deleted). */
+async function stagePaths(cwd, paths, options = {}) {
+  const valid = validateRelativePaths(paths);
+  await getRepoInfo(cwd, options);
+  await runGit(cwd, ["add", "-A", "--", ...valid], options);
+}
+
+/** Remove files from the index, keeping working tree changes. */
+async function unstagePaths(cwd, paths, options = {}) {
+  const valid = validateRelativePaths(paths);
+  const info = await getRepoInfo(cwd, options);
+  // Before the first commit there is no HEAD to reset the index to.
+  const args = info.hasHead
+    ? ["reset", "-q", "HEAD", "--", ...valid]
+    : ["rm", "--cached", "-q", "-r", "--", ...valid];
+  await runGit(cwd, args, options);
+}
+
+/**
+ * Commit the staged changes.
+ * @returns {Promise<{ hash: string, shortHash: string }>}
+ */
+async function commit(cwd, message, options = {}) {
+  const validMessage = validateCommitMessage(message);
+  await getRepoInfo(cwd, options);
+  await runGit(cwd, ["commit", "-q", "-m", validMessage], options);
+  const out = await runGit(cwd, ["log", "-1", LOG_FORMAT], options);
+  const [head] = parseLogOutput(String(out));
+  return { hash: head?.hash ?? "", shortHash: head?.shortHash ?? "" };
+}
+
+function clampLogLimit(limit) {
+  if (typeof limit !== "number" || !Number.isInteger(limit) || limit <= 0) {
+    return DEFAULT_LOG_LIMIT;
+  }
+  return Math.min(limit, MAX_LOG_LIMIT);
+}
+
+/** Recent commits touching the project folder, newest first. */
+async function getLog(cwd, limit, options = {}) {
+  const info = await getRepoInfo(cwd, options);
+  if (!info.hasHead) return [];
+  const out = await runGit(
+    cwd,
+    ["log", LOG_FORMAT, "-n", String(clampLogLimit(limit)), "--", "."],
+    options,
+  );
+  return parseLogOutput(String(out));
+}
+
+/** Commits that changed one file, following renames, newest first. */
+async function getFileLog(cwd, relPath, limit, options = {}) {
+  const validPath = validateRelativePath(relPath);
+  const info = await getRepoInfo(cwd, options);
+  if (!info.hasHead) return [];
+  const out = await runGit(
+    cwd,
+    ["log", "--follow", LOG_FORMAT, "-n", String(clampLogLimit(limit)), "--", validPath],
+    options,
+  );
+  return parseLogOutput(String(out));
+}
+
+/**
+ * Content of a file at a revision, decoded as strict UTF-8.
+ * @returns {Promise<{ content: string, commit: { hash: string, shortHash: string, author: string, date: string, subject: string } | null }>}
+ */
+async function showFile(cwd, revision, relPath, options = {}) {
+  const validRevision = validateRevision(revision);
+  const validPath = validateRelativePath(relPath);
+  const info = await getRepoInfo(cwd, options);
+  const object = `${validRevision}:./${validPath}`;
+  if (!info.hasHead) {
+    throw gitError("NOT_IN_REVISION", "まだコミットがありません");
+  }
+  try {
+    await runGit(cwd, ["cat-file", "-e", object], options);
+  } catch (error) {
+    if (error.code !== "GIT_FAILED") throw error;
+    throw gitError("NOT_IN_REVISION", `${validRevision} にこのファイルはありません`);
+  }
+  const raw = await runGit(cwd, ["show", object], { ...options, encoding: "buffer" });
+  const content = decodeUtf8Strict(raw);
+  const out = await runGit(cwd, ["log", "-1", LOG_FORMAT, validRevision, "--"], options);
+  const [commitInfo] = parseLogOutput(String(out));
+  return { content, commit: commitInfo ?? null };
+}
+
+module.exports = {
+  runGit,
+  validateRelativePath,
+  validateRevision,
+  validateCommitMessage,
+  parseStatusOutput,
+  parseLogOutput,
+  getRepoInfo,
+  getStatus,
+  stagePaths,
+  unstagePaths,
+  commit,
+  getLog,
+  getFileLog,
+  showFile,
+  DEFAULT_LOG_LIMIT,
+  MAX_COMMIT_MESSAGE_LENGTH,
+};
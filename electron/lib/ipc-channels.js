@@ -144,6 +144,7 @@ const MENU_CHANNELS = Object.freeze({
   event: Object.freeze({
     newTriggered: "menu-new-triggered",
     openTriggered: "menu-open-triggered",
+    importAozora: "menu-import-aozora",
     saveTriggered: "menu-save-triggered",
     saveAsTriggered: "menu-save-as-triggered",
     closeTab: "menu-close-tab",
@@ -159,6 +160,8 @@ const MENU_CHANNELS = Object.freeze({
     print: "menu-print",
     exportTxt: "menu-export-txt",
     exportTxtRuby: "menu-export-txt-ruby",
+    exportAozora: "menu-export-aozora",
+    exportWebNovel: "menu-export-web-novel",
     exportPdf: "menu-export-pdf",
     exportEpub: "menu-export-epub",
     exportDocx: "menu-export-docx",
@@ -311,6 +314,20 @@ const PTY_CHANNELS = Object.freeze({
   }),
 });
 
+// Local git versioning of the project folder (electron/ipc/git-ipc.js)
+const GIT_CHANNELS = Object.freeze({
+  invoke: Object.freeze({
+    status: "git:status",
+    stage: "git:stage",
+    unstage: "git:unstage",
+    commit: "git:commit",
+    log: "git:log",
+    fileLog: "git:file-log",
+    show: "git:show",
+  }),
+  event: Object.freeze({}),
+});
+
 module.exports = {
   STORAGE_CHANNELS,
   DICT_CHANNELS,
@@ -330,4 +347,5 @@ module.exports = {
   PTY_CHANNELS,
   UPDATE_CHANNELS,
   RULESETS_CHANNELS,
+  GIT_CHANNELS,
 };
@@ -24,7 +24,11 @@ if (app.isPackaged) {
 }
 
 const { registerNlpHandlers } = require("./ipc/nlp-ipc");
-const { registerStorageHandlers, getStorageManager } = require("./ipc/storage-ipc");
+const {
+  registerStorageHandlers,
+  getStorageManager,
+  onAppStateSaved,
+} = require("./ipc/storage-ipc");
 const { registerVFSHandlers } = require("./ipc/vfs-ipc");
 const { setupAutoUpdater, checkForUpdates } = require("./auto-updater");
 const { createMainWindow, broadcastPowerState, broadcastPowerEvent } = require("./window-manager");
@@ -37,6 +41,7 @@ const {
 const { registerShellHandlers } = require("./ipc/shell-ipc");
 const { registerSystemHandlers } = require("./ipc/system-ipc");
 const { registerPtyHandlers } = require("./ipc/pty-ipc");
+const { registerGitHandlers } = require("./ipc/git-ipc");
 const { killAllSessions, killSessionsForWindow } = require("./ipc/terminal-session-registry");
 const { registerAuthHandlers, handleAuthCallback } = require("./ipc/auth-ipc");
 const { registerEditorHandlers } = require("./ipc/editor-ipc");
@@ -164,29 +169,23 @@ app.whenReady().then(async () => {
   // Content Security Policy
   const { session } = require("electron");
   const { isDev } = require("./app-constants");
-  // Read persisted aiBaseUrl so the custom AI Gateway origin can be added to CSP.
-  // We read directly via storage manager (synchronous SQLite) before setting up the header filter.
+  // Add the configured AI endpoints (custom AI Gateway, local Ollama server when
+  // routed to) to CSP. We read directly via storage manager (synchronous SQLite)
+  // before setting up the header filter, and recompute on every AppState write
+  // so later page loads follow the settings.
+  const { resolveAiConnectOrigins } = require("./lib/ai-csp-policy");
   let extraAiConnectSrc = "";
+  const updateAiConnectSrc = (appState) => {
+    extraAiConnectSrc = resolveAiConnectOrigins(appState)
+      .map((origin) => ` ${origin}`)
+      .join("");
+  };
   try {
-    const { getStorageManager } = require("./ipc/storage-ipc");
-    const appState = getStorageManager().loadAppState();
-    const aiBaseUrl = appState?.aiBaseUrl;
-    if (aiBaseUrl) {
-      const origin = new URL(aiBaseUrl).origin;
-      // Only add if it is not already covered by the static list
-      const staticHosts = [
-        "https://my.illusions.app",
-        "https://api.openai.com",
-        "https://api.anthropic.com",
-        "https://generativelanguage.googleapis.com",
-      ];
-      if (!staticHosts.includes(origin)) {
-        extraAiConnectSrc = ` ${origin}`;
-      }
-    }
+    updateAiConnectSrc(getStorageManager().loadAppState());
   } catch (e) {
-    console.warn("[CSP] Failed to read aiBaseUrl for dynamic CSP:", e);
+    console.warn("[CSP] Failed to read AI endpoints for dynamic CSP:", e);
   }
+  onAppStateSaved(updateAiConnectSrc);
 
   session.defaultSession.webRequest.onHeadersReceived((details, callback) => {
     // Skip CSP rewriting for Chromium internal URLs (PDF viewer extension, etc.)
@@ -247,6 +246,7 @@ app.whenReady().then(async () => {
   registerShellHandlers();
   registerSystemHandlers();
   registerPtyHandlers();
+  registerGitHandlers();
   registerAuthHandlers();
   registerEditorHandlers();
   registerDictHandlers();
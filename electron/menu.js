@@ -111,6 +111,9 @@ function resolveAccelerator(commandId) {
   const overrides = getKeymapOverrides();
   const override = overrides[commandId];
   if (override === null) return undefined; // intentionally unbound
+  // Chords ("Ctrl+K Ctrl+R") cannot be menu accelerators; the renderer's
+  // keymap dispatcher runs them, so the item is left without one.
+  if (override && Array.isArray(override.chord) && override.chord.length > 0) return undefined;
   if (override) {
     // Convert KeyBinding { modifiers: [...], key: "s" } to "CmdOrCtrl+Shift+S"
     const keyMap = {
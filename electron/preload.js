@@ -28,6 +28,7 @@ const {
   PTY_CHANNELS,
   UPDATE_CHANNELS,
   RULESETS_CHANNELS,
+  GIT_CHANNELS,
 } = require("./lib/ipc-channels");
 
 function detectDistributionProvider() {
@@ -85,6 +86,7 @@ contextBridge.exposeInMainWorld("electronAPI", {
   openWithDefaultApp: invokeChannel(SHELL_CHANNELS.invoke.openWithDefaultApp, { arity: 1 }),
   openExternal: invokeChannel(SHELL_CHANNELS.invoke.openExternal, { arity: 1 }),
   onMenuOpenProject: eventChannel(MENU_CHANNELS.event.openProject, { arity: 0 }),
+  onMenuImportAozora: eventChannel(MENU_CHANNELS.event.importAozora, { arity: 0 }),
   onMenuOpenRecentProject: eventChannel(MENU_CHANNELS.event.openRecentProject),
   rebuildMenu: invokeChannel(MENU_CHANNELS.invoke.rebuild, { arity: 0 }),
   openSettingsWindow: invokeChannel(MENU_CHANNELS.invoke.openSettingsWindow, { arity: 0 }),
@@ -104,6 +106,8 @@ contextBridge.exposeInMainWorld("electronAPI", {
   onMenuPrint: eventChannel(MENU_CHANNELS.event.print, { arity: 0 }),
   onMenuExportTxt: eventChannel(MENU_CHANNELS.event.exportTxt, { arity: 0 }),
   onMenuExportTxtRuby: eventChannel(MENU_CHANNELS.event.exportTxtRuby, { arity: 0 }),
+  onMenuExportAozora: eventChannel(MENU_CHANNELS.event.exportAozora, { arity: 0 }),
+  onMenuExportWebNovel: eventChannel(MENU_CHANNELS.event.exportWebNovel, { arity: 0 }),
   onMenuExportPDF: eventChannel(MENU_CHANNELS.event.exportPdf, { arity: 0 }),
   onMenuExportEPUB: eventChannel(MENU_CHANNELS.event.exportEpub, { arity: 0 }),
   onMenuExportDOCX: eventChannel(MENU_CHANNELS.event.exportDocx, { arity: 0 }),
@@ -300,4 +304,20 @@ contextBridge.exposeInMainWorld("electronAPI", {
      */
     onExit: eventChannel(PTY_CHANNELS.event.exit),
   },
+  git: {
+    /** Branch, HEAD presence and changed files of the project folder. */
+    status: invokeChannel(GIT_CHANNELS.invoke.status, { arity: 0 }),
+    /** Stage project-relative paths. */
+    stage: invokeChannel(GIT_CHANNELS.invoke.stage, { arity: 1 }),
+    /** Unstage project-relative paths (working tree changes are kept). */
+    unstage: invokeChannel(GIT_CHANNELS.invoke.unstage, { arity: 1 }),
+    /** Commit the staged changes with a message. */
+    commit: invokeChannel(GIT_CHANNELS.invoke.commit, { arity: 1 }),
+    /** Recent commits touching the project folder. */
+    log: invokeChannel(GIT_CHANNELS.invoke.log, { arity: 1 }),
+    /** Commits that changed one file, following renames. */
+    fileLog: invokeChannel(GIT_CHANNELS.invoke.fileLog, (path, limit) => ({ path, limit })),
+    /** A file's content at a revision (HEAD, HEAD~N or a commit hash). */
+    show: invokeChannel(GIT_CHANNELS.invoke.show, (revision, path) => ({ revision, path })),
+  },
 });
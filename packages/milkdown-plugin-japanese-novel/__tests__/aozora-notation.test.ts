@@ -0,0 +1,142 @@
+import { describe, it, expect } from "vitest";
+import { MdiDocument, aozoraToMdi, mdiToAozora } from "../mdi-document";
+
+describe("aozoraToMdi — 青空文庫 notation import", () => {
+  it("converts explicit and implicit ruby", () => {
+    expect(aozoraToMdi("｜猫である《ねこである》と吾輩《わがはい》")).toBe(
+      "{猫である|ねこである}と{吾輩|わがはい}",
+    );
+  });
+
+  it("implicit ruby only takes the kanji run before 《》", () => {
+    expect(aozoraToMdi("これは東京《とうきょう》")).toBe("これは{東京|とうきょう}");
+  });
+
+  it("converts reference-form and range-form tate-chu-yoko", () => {
+    expect(aozoraToMdi("12［＃「12」は縦中横］月")).toBe("^12^月");
+    expect(aozoraToMdi("［＃縦中横］!?［＃縦中横終わり］")).toBe("^!?^");
+  });
+
+  it("keeps a tcy note whose target does not precede it", () => {
+    expect(aozoraToMdi("12月［＃「34」は縦中横］")).toBe("12月［＃「34」は縦中横］");
+  });
+
+  it("turns each line into a paragraph and empty lines into [[blank]]", () => {
+    expect(aozoraToMdi("一行目\n\n二行目\n三行目\n")).toBe(
+      "一行目\n\n[[blank]]\n\n二行目\n\n三行目",
+    );
+  });
+
+  it("maps headings and page breaks", () => {
+    const src =
+      "［＃大見出し］第一章［＃大見出し終わり］\n本文\n［＃改ページ］\n幕間［＃「幕間」は小見出し］";
+    expect(aozoraToMdi(src)).toBe("# 第一章\n\n本文\n\n---\n\n### 幕間");
+  });
+
+  it("removes the notation legend block", () => {
+    const src = [
+      "吾輩は猫である",
+      "夏目漱石",
+      "-------------------------------------------------------",
+      "【テキスト中に現れる記号について】",
+      "《》：ルビ",
+      "-------------------------------------------------------",
+      "本文",
+    ].join("\n");
+    expect(aozoraToMdi(src)).toBe("吾輩は猫である\n\n夏目漱石\n\n本文");
+  });
+
+  it("keeps unmapped annotations verbatim", () => {
+    const src = "［＃ここから２字下げ］\n猫［＃「猫」に傍線］";
+    expect(aozoraToMdi(src)).toBe("［＃ここから２字下げ］\n\n猫［＃「猫」に傍線］");
+  });
+
+  it("converts reference-form and range-form 傍点 with their mark styles", () => {
+    expect(aozoraToMdi("吾輩は猫［＃「猫」に傍点］である")).toBe("吾輩は[[bouten:猫]]である");
+    expect(aozoraToMdi("必ず［＃「必ず」に白丸傍点］")).toBe("[[bouten:open-circle:必ず]]");
+    expect(aozoraToMdi("［＃二重丸傍点］大事［＃二重丸傍点終わり］")).toBe(
+      "[[bouten:double-circle:大事]]",
+    );
+  });
+
+  it("restores note-escaped notation characters as literals", () => {
+    expect(aozoraToMdi("※［＃始め二重山括弧、1-1-52］引用※［＃終わり二重山括弧、1-1-53］")).toBe(
+      "《引用》",
+    );
+  });
+
+  it("escapes characters MDI / Markdown would interpret", () => {
+    expect(aozoraToMdi("{a|b}と2^3")).toBe("\\{a|b}と2\\^3");
+    expect(aozoraToMdi("# 見出しではない")).toBe("\\# 見出しではない");
+  });
+
+  it("accepts CRLF input", () => {
+    expect(aozoraToMdi("一\r\n二")).toBe("一\n\n二");
+  });
+});
+
+describe("mdiToAozora — 青空文庫 notation export", () => {
+  it("writes ruby with an explicit ｜ delimiter and strips split dots", () => {
+    expect(mdiToAozora("{東京|とう.きょう}へ")).toBe("｜東京《とうきょう》へ");
+  });
+
+  it("writes tcy in reference form", () => {
+    expect(mdiToAozora("^12^月")).toBe("12［＃「12」は縦中横］月");
+  });
+
+  it("writes headings as range annotations and thematic breaks as 改ページ", () => {
+    expect(mdiToAozora("# 第一章\n\n本文\n\n---\n\n## 節")).toBe(
+      "［＃大見出し］第一章［＃大見出し終わり］\n本文\n［＃改ページ］\n［＃中見出し］節［＃中見出し終わり］",
+    );
+  });
+
+  it("turns [[blank]] into a forced blank line", () => {
+    expect(mdiToAozora("A\n\n[[blank]]\n\nB")).toBe("A\n\nB");
+  });
+
+  it("escapes literal notation characters with Aozora notes", () => {
+    expect(mdiToAozora("《引用》｜")).toBe(
+      "※［＃始め二重山括弧、1-1-52］引用※［＃終わり二重山括弧、1-1-53］※［＃縦線、1-1-35］",
+    );
+  });
+
+  it("writes 傍点 in reference form; dot falls back to plain 傍点", () => {
+    expect(mdiToAozora("[[bouten:猫]]と[[bouten:triangle:犬]]と[[bouten:dot:鳥]]")).toBe(
+      "猫［＃「猫」に傍点］と犬［＃「犬」に黒三角傍点］と鳥［＃「鳥」に傍点］",
+    );
+  });
+
+  it("keeps MDI-only macros verbatim", () => {
+    expect(mdiToAozora("[[kern:0.5em:ああ]]と[[no-break:一二三]]")).toBe(
+      "[[kern:0.5em:ああ]]と[[no-break:一二三]]",
+    );
+  });
+});
+
+describe("MdiDocument Aozora round trip", () => {
+  const MDI = [
+    "# 第一章",
+    "",
+    "　{吾輩|わがはい}は猫である。^12^月。《引用》",
+    "",
+    "[[blank]]",
+    "",
+    "［＃「猫」に傍点］と[[kern:0.5em:ああ]]",
+    "",
+    "---",
+    "",
+    "### 幕間",
+  ].join("\n");
+
+  it("MDI → Aozora → MDI is lossless", () => {
+    const aozora = MdiDocument.fromRawText(MDI).toAozoraText();
+    expect(MdiDocument.fromAozoraText(aozora).toRawText()).toBe(MDI);
+  });
+
+  it("Aozora → MDI → Aozora is lossless", () => {
+    const aozora =
+      "｜吾輩《わがはい》は猫である。\n\n［＃ここから２字下げ］\n12［＃「12」は縦中横］月";
+    const mdi = MdiDocument.fromAozoraText(aozora).toRawText();
+    expect(MdiDocument.fromRawText(mdi).toAozoraText()).toBe(aozora);
+  });
+});
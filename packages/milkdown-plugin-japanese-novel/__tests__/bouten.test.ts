@@ -0,0 +1,131 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
+import { commonmark } from "@milkdown/preset-commonmark";
+import { getMarkdown } from "@milkdown/utils";
+import { japaneseNovel } from "../index";
+import { remarkBoutenPlugin } from "../syntax";
+import {
+  MdiDocument,
+  formatMdiBouten,
+  replaceMdiWithRubyTextGated,
+  stripMdiInlineSyntax,
+} from "../mdi-document";
+
+type TextNode = { type: "text"; value: string };
+type BoutenNode = { type: "bouten"; style: string; text: string };
+type Paragraph = { type: "paragraph"; children: Array<TextNode | BoutenNode> };
+type Root = { type: "root"; children: Paragraph[] };
+
+function runPlugin(text: string, options?: { enable?: boolean }): Array<TextNode | BoutenNode> {
+  const tree: Root = {
+    type: "root",
+    children: [{ type: "paragraph", children: [{ type: "text", value: text }] }],
+  };
+  const factory = remarkBoutenPlugin as unknown as (opts?: {
+    enable?: boolean;
+  }) => (t: Root) => void;
+  factory(options)(tree);
+  return tree.children[0]!.children;
+}
+
+describe("remarkBoutenPlugin", () => {
+  it("converts [[bouten:text]] with the default sesame style", () => {
+    expect(runPlugin("これは[[bouten:大事]]だ")).toEqual([
+      { type: "text", value: "これは" },
+      { type: "bouten", style: "sesame", text: "大事" },
+      { type: "text", value: "だ" },
+    ]);
+  });
+
+  it("reads a known style segment", () => {
+    expect(runPlugin("[[bouten:circle:必ず]]")).toEqual([
+      { type: "bouten", style: "circle", text: "必ず" },
+    ]);
+  });
+
+  it("treats an unknown style segment as part of the text", () => {
+    expect(runPlugin("[[bouten:注意:ここ]]")).toEqual([
+      { type: "bouten", style: "sesame", text: "注意:ここ" },
+    ]);
+  });
+
+  it("does not convert when disabled", () => {
+    expect(runPlugin("[[bouten:大事]]", { enable: false })).toEqual([
+      { type: "text", value: "[[bouten:大事]]" },
+    ]);
+  });
+});
+
+describe("傍点 string primitives", () => {
+  it("formatMdiBouten omits the default style", () => {
+    expect(formatMdiBouten("大事")).toBe("[[bouten:大事]]");
+    expect(formatMdiBouten("大事", "open-circle")).toBe("[[bouten:open-circle:大事]]");
+  });
+
+  it("plain-text derivations keep only the emphasized text", () => {
+    expect(stripMdiInlineSyntax("[[bouten:triangle:大事]]な話")).toBe("大事な話");
+    expect(MdiDocument.fromRawText("[[bouten:大事]]な話").toExportText("txt-ruby")).toBe(
+      "大事な話",
+    );
+  });
+
+  it("gated replacement leaves the macro verbatim when disabled", () => {
+    const flags = {
+      enableRuby: true,
+      enableTcy: true,
+      enableNoBreak: true,
+      enableKern: true,
+      enableBouten: false,
+      enableNotes: true,
+      enableMdiBreak: true,
+    };
+    expect(replaceMdiWithRubyTextGated("[[bouten:大事]]", flags)).toBe("[[bouten:大事]]");
+  });
+
+  it("fromEditorOutput un-escapes the serializer-escaped macro", () => {
+    const doc = MdiDocument.fromEditorOutput("\\[\\[bouten:dot:大事]]", { fileType: ".mdi" });
+    expect(doc.toRawText()).toBe("[[bouten:dot:大事]]");
+  });
+});
+
+const mountedRoots: HTMLElement[] = [];
+afterEach(() => {
+  mountedRoots.forEach((r) => r.remove());
+  mountedRoots.length = 0;
+});
+
+async function makeEditor(markdown: string): Promise<Editor> {
+  const root = document.createElement("div");
+  document.body.appendChild(root);
+  mountedRoots.push(root);
+  return Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, root);
+      ctx.set(defaultValueCtx, markdown);
+    })
+    .use(commonmark)
+    .use(japaneseNovel())
+    .create();
+}
+
+describe("bouten node", () => {
+  it("renders a span with the style class", async () => {
+    const editor = await makeEditor("これは[[bouten:double-circle:大事]]だ");
+    let html = "";
+    editor.action((ctx) => {
+      html = ctx.get(editorViewCtx).dom.innerHTML;
+    });
+    await editor.destroy();
+    expect(html).toContain('class="mdi-bouten mdi-bouten-double-circle"');
+    expect(html).toContain(">大事</span>");
+  });
+
+  it("round-trips through the markdown serializer", async () => {
+    const editor = await makeEditor("これは[[bouten:大事]]と[[bouten:circle:必ず]]");
+    const serialized = editor.action(getMarkdown());
+    await editor.destroy();
+    expect(MdiDocument.fromEditorOutput(serialized, { fileType: ".mdi" }).toRawText().trim()).toBe(
+      "これは[[bouten:大事]]と[[bouten:circle:必ず]]",
+    );
+  });
+});
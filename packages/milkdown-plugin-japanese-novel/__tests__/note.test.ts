@@ -0,0 +1,146 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
+import { commonmark } from "@milkdown/preset-commonmark";
+import { getMarkdown } from "@milkdown/utils";
+import { japaneseNovel } from "../index";
+import { remarkNotePlugin } from "../syntax";
+import {
+  MdiDocument,
+  aozoraToMdi,
+  mdiToAozora,
+  replaceMdiWithRubyTextGated,
+  splitMdiWarichuLines,
+  stripMdiInlineSyntax,
+} from "../mdi-document";
+
+type TextNode = { type: "text"; value: string };
+type NoteNode = { type: "note" | "warichu"; text: string };
+type Paragraph = { type: "paragraph"; children: Array<TextNode | NoteNode> };
+type Root = { type: "root"; children: Paragraph[] };
+
+function runPlugin(text: string, options?: { enable?: boolean }): Array<TextNode | NoteNode> {
+  const tree: Root = {
+    type: "root",
+    children: [{ type: "paragraph", children: [{ type: "text", value: text }] }],
+  };
+  const factory = remarkNotePlugin as unknown as (opts?: { enable?: boolean }) => (t: Root) => void;
+  factory(options)(tree);
+  return tree.children[0]!.children;
+}
+
+describe("remarkNotePlugin", () => {
+  it("converts [[note:…]] and [[warichu:…]], keeping MDI syntax inside the body", () => {
+    expect(runPlugin("本文[[note:{注|ちゅう}記]]と[[warichu:割注]]")).toEqual([
+      { type: "text", value: "本文" },
+      { type: "note", text: "{注|ちゅう}記" },
+      { type: "text", value: "と" },
+      { type: "warichu", text: "割注" },
+    ]);
+  });
+
+  it("does not convert when disabled", () => {
+    expect(runPlugin("[[note:注記]]", { enable: false })).toEqual([
+      { type: "text", value: "[[note:注記]]" },
+    ]);
+  });
+});
+
+describe("note string primitives", () => {
+  it("splitMdiWarichuLines gives the first line the extra character", () => {
+    expect(splitMdiWarichuLines("一二三四五")).toEqual(["一二三", "四五"]);
+    expect(splitMdiWarichuLines("𠮷野家")).toEqual(["𠮷野", "家"]);
+  });
+
+  it("plain text drops notes; ruby text keeps them in parentheses", () => {
+    expect(stripMdiInlineSyntax("本文[[note:注記]]と[[warichu:割注]]")).toBe("本文と");
+    expect(MdiDocument.fromRawText("本文[[note:{注|ちゅう}記]]").toExportText("txt-ruby")).toBe(
+      "本文（注（ちゅう）記）",
+    );
+  });
+
+  it("gated replacement leaves the macros verbatim when disabled", () => {
+    const flags = {
+      enableRuby: true,
+      enableTcy: true,
+      enableNoBreak: true,
+      enableKern: true,
+      enableBouten: true,
+      enableNotes: false,
+      enableMdiBreak: true,
+    };
+    expect(replaceMdiWithRubyTextGated("[[note:注記]][[warichu:割注]]", flags)).toBe(
+      "[[note:注記]][[warichu:割注]]",
+    );
+  });
+
+  it("fromEditorOutput un-escapes the serializer-escaped macros", () => {
+    const doc = MdiDocument.fromEditorOutput("\\[\\[note:注記]]\\[\\[warichu:割注]]", {
+      fileType: ".mdi",
+    });
+    expect(doc.toRawText()).toBe("[[note:注記]][[warichu:割注]]");
+  });
+
+  it("maps 割注 to and from Aozora notation and keeps notes verbatim", () => {
+    expect(aozoraToMdi("本文［＃割り注］注記［＃割り注終わり］")).toBe("本文[[warichu:注記]]");
+    expect(mdiToAozora("本文[[warichu:注記]][[note:後注]]")).toBe(
+      "本文［＃割り注］注記［＃割り注終わり］[[note:後注]]",
+    );
+  });
+});
+
+const mountedRoots: HTMLElement[] = [];
+afterEach(() => {
+  mountedRoots.forEach((r) => r.remove());
+  mountedRoots.length = 0;
+});
+
+async function makeEditor(markdown: string): Promise<Editor> {
+  const root = document.createElement("div");
+  document.body.appendChild(root);
+  mountedRoots.push(root);
+  return Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, root);
+      ctx.set(defaultValueCtx, markdown);
+    })
+    .use(commonmark)
+    .use(japaneseNovel())
+    .create();
+}
+
+describe("note / warichu nodes", () => {
+  it("renders a note marker carrying the flattened body for the hover preview", async () => {
+    const editor = await makeEditor("本文[[note:{注|ちゅう}記]]");
+    let dom: HTMLElement | null = null;
+    editor.action((ctx) => {
+      dom = ctx.get(editorViewCtx).dom.querySelector<HTMLElement>("span.mdi-note");
+    });
+    await editor.destroy();
+    expect(dom).not.toBeNull();
+    expect(dom!.dataset.note).toBe("{注|ちゅう}記");
+    expect(dom!.dataset.preview).toBe("注記");
+    expect(dom!.textContent).toBe("");
+  });
+
+  it("renders 割注 as two lines", async () => {
+    const editor = await makeEditor("[[warichu:一二三四]]");
+    let html = "";
+    editor.action((ctx) => {
+      html = ctx.get(editorViewCtx).dom.innerHTML;
+    });
+    await editor.destroy();
+    expect(html).toContain(
+      '<span class="mdi-warichu-line">一二</span><span class="mdi-warichu-line">三四</span>',
+    );
+  });
+
+  it("round-trips through the markdown serializer", async () => {
+    const src = "本文[[note:{注|ちゅう}記]]と[[warichu:割注]]";
+    const editor = await makeEditor(src);
+    const serialized = editor.action(getMarkdown());
+    await editor.destroy();
+    expect(MdiDocument.fromEditorOutput(serialized, { fileType: ".mdi" }).toRawText().trim()).toBe(
+      src,
+    );
+  });
+});
@@ -15,6 +15,10 @@ export interface JapaneseNovelOptions {
   enableNoBreak?: boolean;
   /** カーニング指定を有効化する（[[kern:amount:text]] 記法） */
   enableKern?: boolean;
+  /** 傍点を有効化する（[[bouten:style:text]] 記法） */
+  enableBouten?: boolean;
+  /** 後注・割注を有効化する（[[note:text]] / [[warichu:text]] 記法） */
+  enableNotes?: boolean;
   /** 明示改行を有効化する（[[br]] 記法） */
   enableMdiBreak?: boolean;
   /**
@@ -33,6 +37,8 @@ export const defaultJapaneseNovelOptions: Required<JapaneseNovelOptions> = {
   enableRuby: true,
   enableNoBreak: true,
   enableKern: true,
+  enableBouten: true,
+  enableNotes: true,
   enableMdiBreak: true,
   plainText: false,
 };
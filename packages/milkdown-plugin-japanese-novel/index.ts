@@ -10,6 +10,9 @@ import { rubySchema } from "./nodes/ruby";
 import { tcySchema } from "./nodes/tcy";
 import { nobreakSchema } from "./nodes/nobreak";
 import { kernSchema } from "./nodes/kern";
+import { boutenSchema } from "./nodes/bouten";
+import { noteSchema } from "./nodes/note";
+import { warichuSchema } from "./nodes/warichu";
 import { mdibreakSchema } from "./nodes/mdibreak";
 import { blankParagraphSchema } from "./nodes/blank-paragraph";
 import { headingAnchorSchema } from "./nodes/heading-anchor";
@@ -20,6 +23,8 @@ import {
   remarkTcyPlugin,
   remarkNoBreakPlugin,
   remarkKernPlugin,
+  remarkBoutenPlugin,
+  remarkNotePlugin,
   remarkMdiBreakPlugin,
   remarkMdiBlankPlugin,
 } from "./syntax";
@@ -44,6 +49,8 @@ export function japaneseNovel(options: JapaneseNovelOptions = {}): MilkdownPlugi
     enableTcy,
     enableNoBreak,
     enableKern,
+    enableBouten,
+    enableNotes,
     enableMdiBreak,
     plainText,
   } = opts;
@@ -76,6 +83,16 @@ export function japaneseNovel(options: JapaneseNovelOptions = {}): MilkdownPlugi
     () => remarkKernPlugin as (o?: { enable?: boolean }) => (tree: unknown) => void,
     { enable: enableKern },
   );
+  const remarkBouten = $remark(
+    "japaneseNovelBouten",
+    () => remarkBoutenPlugin as (o?: { enable?: boolean }) => (tree: unknown) => void,
+    { enable: enableBouten },
+  );
+  const remarkNote = $remark(
+    "japaneseNovelNote",
+    () => remarkNotePlugin as (o?: { enable?: boolean }) => (tree: unknown) => void,
+    { enable: enableNotes },
+  );
   const remarkMdiBreak = $remark(
     "japaneseNovelMdiBreak",
     () => remarkMdiBreakPlugin as (o?: { enable?: boolean }) => (tree: unknown) => void,
@@ -133,18 +150,29 @@ export function japaneseNovel(options: JapaneseNovelOptions = {}): MilkdownPlugi
   // documents (no feature enabled) keep `{花|か}` / `^2024^` as literal text.
   const clipboardSerializerPlugin = $prose((ctx) => {
     return createClipboardSerializerPlugin(ctx, {
-      features: { enableRuby, enableTcy, enableNoBreak, enableKern, enableMdiBreak },
+      features: {
+        enableRuby,
+        enableTcy,
+        enableNoBreak,
+        enableKern,
+        enableBouten,
+        enableNotes,
+        enableMdiBreak,
+      },
       plainText,
     });
   });
 
   const plugins: MilkdownPlugin[] = [
     remarkFullWidthMarkdown,
+    // Notes first: their bodies may contain ruby / tcy that must not be split out.
+    ...(enableNotes ? [remarkNote, noteSchema, warichuSchema] : []),
     ...(enableRuby ? [remarkRuby, rubySchema] : []),
     ...(enableTcy ? [remarkTcy, tcySchema] : []),
     ...(enableMdiBreak ? [remarkMdiBreak, mdibreakSchema] : []),
     ...(enableNoBreak ? [remarkNoBreak, nobreakSchema] : []),
     ...(enableKern ? [remarkKern, kernSchema] : []),
+    ...(enableBouten ? [remarkBouten, boutenSchema] : []),
     ...(enableMdiBreak ? [remarkMdiBlank, blankParagraphSchema] : []),
     remarkHeadingAnchor,
     headingAnchorSchema,
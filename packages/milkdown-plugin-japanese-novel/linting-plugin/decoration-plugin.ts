@@ -9,7 +9,7 @@
 import { Plugin, PluginKey } from "@milkdown/prose/state";
 import { Decoration, DecorationSet } from "@milkdown/prose/view";
 import type { EditorView } from "@milkdown/prose/view";
-import type { LintIssue, Severity } from "@/lib/linting";
+import type { LintIssue, LintIssueValidator, Severity } from "@/lib/linting";
 import type { INlpClient } from "@/lib/nlp-client/types";
 import type { Token } from "@/lib/nlp-client/types";
 import type { IgnoredCorrection } from "@/lib/project/project-types";
@@ -143,6 +143,11 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
   // (user dictionary + registered dictionary-ruleset sources). Updated via setMeta.
   let currentKnownTerms: ReadonlySet<string> = options.knownTerms ?? new Set();
 
+  // L3 validator (updated via setMeta). Its in-flight pass is aborted on every
+  // new lint pass, so a document edit always cancels pending model requests.
+  let currentValidator: LintIssueValidator | null = options.issueValidator ?? null;
+  let validationAbort: AbortController | null = null;
+
   // NLP error state: tracks whether tokenization has failed.
   // When true, L2 (morphological) rules are explicitly disabled
   // and the user has been notified via onNlpError callback.
@@ -256,6 +261,15 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
           if ("knownTerms" in meta) {
             currentKnownTerms = meta.knownTerms ?? new Set();
           }
+          // Swap the L3 validator. Cached rule results stay valid; only the
+          // verdicts applied on top change, so a rebuild is enough.
+          if ("issueValidator" in meta) {
+            currentValidator = meta.issueValidator ?? null;
+            validationAbort?.abort();
+            validationAbort = null;
+            pendingFullScan = true;
+            immediateRebuild = true;
+          }
           // enabled/disabled change
           if (meta.enabled !== undefined) {
             issueCache.clear();
@@ -308,6 +322,8 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
        */
       function scheduleViewportUpdate(view: EditorView): void {
         if (debounceTimer) clearTimeout(debounceTimer);
+        validationAbort?.abort();
+        validationAbort = null;
 
         const version = ++processingVersion;
         const delay = immediateRebuild ? 0 : debounceMs;
@@ -530,6 +546,9 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
           // Build decorations from all paragraphs that have cached results
           const allDecorations: Decoration[] = [];
           const allIssues: LintIssue[] = [];
+          // Paragraphs with issues the validator has no verdict for yet
+          const pendingValidation: Array<{ text: string; issues: LintIssue[] }> = [];
+          const validator = currentValidator;
 
           for (const paragraph of allParagraphs) {
             // Per-paragraph issues from cache
@@ -548,15 +567,30 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
 
             if (combinedIssues.length === 0) continue;
 
-            for (const issue of combinedIssues) {
-              // Filter out ignored corrections
-              const issueText = paragraph.text.slice(issue.from, issue.to);
-              if (
-                currentIgnoredCorrections.length > 0 &&
-                isIssueIgnored(issue, issueText, paragraph.text, currentIgnoredCorrections)
-              ) {
-                continue;
+            // Filter out ignored corrections
+            let visibleIssues =
+              currentIgnoredCorrections.length > 0
+                ? combinedIssues.filter(
+                    (issue) =>
+                      !isIssueIgnored(
+                        issue,
+                        paragraph.text.slice(issue.from, issue.to),
+                        paragraph.text,
+                        currentIgnoredCorrections,
+                      ),
+                  )
+                : combinedIssues;
+
+            // Apply L3 verdicts (false positives are demoted or dropped)
+            if (validator) {
+              if (validator.hasPending(paragraph.text, visibleIssues)) {
+                pendingValidation.push({ text: paragraph.text, issues: visibleIssues });
               }
+              visibleIssues = validator.applyVerdicts(paragraph.text, visibleIssues);
+            }
+
+            for (const issue of visibleIssues) {
+              const issueText = paragraph.text.slice(issue.from, issue.to);
 
               const extraFrom = getAtomOffset(paragraph.atomAdjustments, issue.from);
               const extraTo = getAtomOffset(paragraph.atomAdjustments, issue.to, true);
@@ -609,9 +643,43 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
 
           // Notify parent of all issues
           onIssuesUpdated?.(allIssues);
+
+          if (validator && pendingValidation.length > 0) {
+            runValidation(view, validator, pendingValidation, version);
+          }
         }, delay);
       }
 
+      /**
+       * Fetch L3 verdicts for paragraphs with pending issues, then rebuild so
+       * they show. Issue results are cached, so the rebuild only re-applies
+       * verdicts; the validator batches, and each rebuild sends the next batch
+       * until nothing is pending. Aborted by the next lint pass.
+       */
+      function runValidation(
+        view: EditorView,
+        validator: LintIssueValidator,
+        paragraphs: Array<{ text: string; issues: LintIssue[] }>,
+        version: number,
+      ): void {
+        const controller = new AbortController();
+        validationAbort = controller;
+        validator
+          .validate(paragraphs, controller.signal)
+          .then((stored) => {
+            if (!stored || controller.signal.aborted || version !== processingVersion) return;
+            if (validator !== currentValidator || !isEditorViewAlive(view)) return;
+            validationAbort = null;
+            immediateRebuild = true;
+            scheduleViewportUpdate(view);
+          })
+          .catch((err) => {
+            if (controller.signal.aborted) return;
+            validationAbort = null;
+            console.warn("[Linting] AI validation failed:", err);
+          });
+      }
+
       return {
         update(view, prevState) {
           const state = lintingKey.getState(view.state);
@@ -643,6 +711,7 @@ export function createLintingPlugin(options: LintingPluginOptions): Plugin<Linti
         },
         destroy() {
           if (debounceTimer) clearTimeout(debounceTimer);
+          validationAbort?.abort();
           issueCache.clear();
           tokenCache.clear();
           documentIssueCache = null;
@@ -4,7 +4,7 @@
  */
 
 import type { DecorationSet } from "@milkdown/prose/view";
-import type { LintIssue } from "@/lib/linting";
+import type { LintIssue, LintIssueValidator } from "@/lib/linting";
 import type { INlpClient } from "@/lib/nlp-client/types";
 import type { IgnoredCorrection } from "@/lib/project/project-types";
 import type { ConfigChangeReason } from "@/lib/linting/correction-config";
@@ -26,6 +26,11 @@ export interface LintingPluginOptions {
    * 辞書外語). Unioned into the prewarm snapshot as dictionary hits.
    */
   knownTerms?: ReadonlySet<string>;
+  /**
+   * Optional L3 pass: verdicts are applied to every paragraph's issues and
+   * pending ones are validated after each rebuild (see LintIssueValidator).
+   */
+  issueValidator?: LintIssueValidator | null;
   onIssuesUpdated?: (issues: LintIssue[]) => void;
   /** Callback fired when NLP tokenization fails (e.g., kuromoji init error).
    *  Called once per failure episode (not per-paragraph). */
@@ -54,6 +59,8 @@ export interface LintingSettingsUpdate {
   ignoredCorrections?: IgnoredCorrection[];
   /** Terms to treat as known by dictionary-matching rules (see LintingPluginOptions). */
   knownTerms?: ReadonlySet<string>;
+  /** L3 validator to run after each rebuild, or null to turn validation off. */
+  issueValidator?: LintIssueValidator | null;
   /** Identifies the trigger for this change, enabling precise cache invalidation */
   changeReason?: ConfigChangeReason;
 }
@@ -29,6 +29,13 @@ vi.mock("../build-ruleset-runner", async (importOriginal) => {
 });
 import { importRulesetModule } from "../build-ruleset-runner";
 
+// The built-in L2 pack registers main-thread morphological rules; leave it out
+// so only worker / ruleset state drives the morph flags under test.
+vi.mock("@/lib/linting/rule-registry", async (importOriginal) => {
+  const actual = await importOriginal<Record<string, unknown>>();
+  return { ...actual, getAllRules: () => [] };
+});
+
 // ----------------------------------------------------------------
 // Fake Worker
 // ----------------------------------------------------------------
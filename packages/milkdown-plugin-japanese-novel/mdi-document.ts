@@ -11,6 +11,8 @@
  * - `toRawText()`      — save / file-watcher comparison (markers preserved)
  * - `toAnalysisText()` — NLP / readability / statistics (markers removed)
  * - `toExportText(f)`  — plain-text export (txt / txt-ruby)
+ * - `toAozoraText()`   — 青空文庫 notation export (`fromAozoraText()` imports)
+ * - `toDialectText(d)` — plain-text export in a third-party dialect
  * - `toEditorContent()`— Milkdown / ProseMirror input (markers preserved;
  *                        AST conversion is done by `remarkMdiBlankPlugin` +
  *                        `blankParagraphSchema` registered in this package)
@@ -54,6 +56,79 @@ export const MDI_NOBR_RE = /\[\[no-break:([^\]]+)\]\]/g;
 /** Kerning: [[kern:amount:text]] */
 export const MDI_KERN_RE = /\[\[kern:([^:\]]+):([^\]]+)\]\]/g;
 
+/**
+ * 傍点 (emphasis dot) mark styles. Each maps to a CSS `text-emphasis-style`
+ * (see {@link MDI_BOUTEN_TEXT_EMPHASIS}).
+ */
+export const MDI_BOUTEN_STYLES = [
+  "sesame",
+  "open-sesame",
+  "dot",
+  "circle",
+  "open-circle",
+  "double-circle",
+  "triangle",
+] as const;
+
+export type MdiBoutenStyle = (typeof MDI_BOUTEN_STYLES)[number];
+
+/** Style used when the macro omits one: ﹅ (the usual 傍点 in Japanese novels). */
+export const MDI_BOUTEN_DEFAULT_STYLE: MdiBoutenStyle = "sesame";
+
+/** CSS `text-emphasis-style` value for each 傍点 style. */
+export const MDI_BOUTEN_TEXT_EMPHASIS: Readonly<Record<MdiBoutenStyle, string>> = {
+  sesame: "filled sesame",
+  "open-sesame": "open sesame",
+  dot: "filled dot",
+  circle: "filled circle",
+  "open-circle": "open circle",
+  "double-circle": "filled double-circle",
+  triangle: "filled triangle",
+};
+
+/**
+ * 傍点: [[bouten:text]] or [[bouten:style:text]]. The style segment is only
+ * recognized for names in {@link MDI_BOUTEN_STYLES}, so a text containing a
+ * colon (`[[bouten:注意:ここ]]`) is read as plain text. Group 1 is the style
+ * (undefined → default), group 2 the emphasized text.
+ */
+export const MDI_BOUTEN_RE = new RegExp(
+  `\\[\\[bouten:(?:(${MDI_BOUTEN_STYLES.join("|")}):)?([^\\]]+)\\]\\]`,
+  "g",
+);
+
+export function isMdiBoutenStyle(value: unknown): value is MdiBoutenStyle {
+  return typeof value === "string" && (MDI_BOUTEN_STYLES as readonly string[]).includes(value);
+}
+
+/** Write a 傍点 macro, omitting the style segment for the default style. */
+export function formatMdiBouten(
+  text: string,
+  style: MdiBoutenStyle = MDI_BOUTEN_DEFAULT_STYLE,
+): string {
+  return style === MDI_BOUTEN_DEFAULT_STYLE ? `[[bouten:${text}]]` : `[[bouten:${style}:${text}]]`;
+}
+
+/**
+ * 後注 / 脚注: [[note:text]]. The body is taken out of the running text and
+ * collected as a numbered note (per chapter in HTML / EPUB, Word footnotes in
+ * DOCX); the editor shows only the note marker.
+ */
+export const MDI_NOTE_RE = /\[\[note:([^\]]+)\]\]/g;
+
+/** 割注: [[warichu:text]] — a small two-line note set inside the line. */
+export const MDI_WARICHU_RE = /\[\[warichu:([^\]]+)\]\]/g;
+
+/**
+ * Split a 割注 body into its two lines. The first line takes the extra
+ * character when the length is odd (surrogate-pair safe).
+ */
+export function splitMdiWarichuLines(text: string): [string, string] {
+  const chars = [...text];
+  const half = Math.ceil(chars.length / 2);
+  return [chars.slice(0, half).join(""), chars.slice(half).join("")];
+}
+
 /** MDI explicit line break: [[br]] */
 export const MDI_BREAK_RE = /\[\[br\]\]/g;
 
@@ -138,6 +213,7 @@ export function stripMdiBlankMarkers(content: string): string {
 /**
  * Strip all MDI inline syntax from text, keeping only base text.
  * Ruby readings are discarded: {漢字|かんじ} → 漢字
+ * Notes and 割注 are annotations too and are dropped with their bodies.
  *
  * NOTE: this is intentionally NOT part of `toAnalysisText()`. Flattening
  * inline syntax changes character offsets and token counts, which would alter
@@ -160,6 +236,12 @@ export function stripMdiInlineSyntax(text: string): string {
   // Kerning: keep text
   result = result.replace(MDI_KERN_RE, "$2");
 
+  // 傍点: keep text
+  result = result.replace(MDI_BOUTEN_RE, "$2");
+
+  // Notes / 割注: drop
+  result = result.replace(MDI_NOTE_RE, "").replace(MDI_WARICHU_RE, "");
+
   // Explicit line break: newline
   result = result.replace(MDI_BREAK_RE, "\n");
 
@@ -174,6 +256,7 @@ export function stripMdiInlineSyntax(text: string): string {
  * Replace MDI inline syntax, rendering ruby as fullwidth parentheses.
  * Used by txt export (ruby mode) and the docx exporter.
  * Example: {漢字|かんじ} → 漢字（かんじ）
+ * Notes and 割注 are kept inline the same way: [[note:注記]] → （注記）
  */
 export function replaceMdiWithRubyText(text: string): string {
   return replaceMdiWithRubyTextGated(text, ALL_MDI_FEATURES_ENABLED);
@@ -194,6 +277,10 @@ export interface MdiFeatureFlags {
   enableNoBreak: boolean;
   /** `[[kern:amount:text]]` → `text` */
   enableKern: boolean;
+  /** `[[bouten:style:text]]` → `text` */
+  enableBouten: boolean;
+  /** `[[note:text]]` / `[[warichu:text]]` → `（text）` */
+  enableNotes: boolean;
   /** `[[br]]` → newline */
   enableMdiBreak: boolean;
 }
@@ -204,6 +291,8 @@ const ALL_MDI_FEATURES_ENABLED: MdiFeatureFlags = {
   enableTcy: true,
   enableNoBreak: true,
   enableKern: true,
+  enableBouten: true,
+  enableNotes: true,
   enableMdiBreak: true,
 };
 
@@ -238,6 +327,16 @@ export function replaceMdiWithRubyTextGated(text: string, flags: MdiFeatureFlags
     result = result.replace(MDI_KERN_RE, "$2");
   }
 
+  // 傍点: keep text
+  if (flags.enableBouten) {
+    result = result.replace(MDI_BOUTEN_RE, "$2");
+  }
+
+  // Notes / 割注: （text）
+  if (flags.enableNotes) {
+    result = result.replace(MDI_NOTE_RE, "（$1）").replace(MDI_WARICHU_RE, "（$1）");
+  }
+
   // Explicit line break: newline
   if (flags.enableMdiBreak) {
     result = result.replace(MDI_BREAK_RE, "\n");
@@ -538,8 +637,8 @@ function normalizeEditorOutput(content: string, options?: MdiEditorOutputOptions
   let result = content;
   // Step 0 (.mdi / .md / .txt): the Milkdown markdown serializer escapes the
   // leading `[` of MDI bracket macros (`[[blank]]`, `[[br]]`, `[[no-break:…]]`,
-  // `[[kern:…]]`) to `\[`, because CommonMark treats `[` as a link/reference
-  // opener. The result is `\[\[blank]]` on disk instead of `[[blank]]`. Strip
+  // `[[kern:…]]`, `[[bouten:…]]`, `[[note:…]]`, `[[warichu:…]]`) to `\[`,
+  // because CommonMark treats `[` as a link/reference opener. The result is `\[\[blank]]` on disk instead of `[[blank]]`. Strip
   // those backslashes so the literals round-trip as authored (byte-preservation,
   // issue #1916). Backslashes before `]` are optional too, in case a serializer
   // config also escapes the closing brackets. Idempotent: already-clean markers
@@ -548,8 +647,8 @@ function normalizeEditorOutput(content: string, options?: MdiEditorOutputOptions
   // For .md and .txt: MDI macros are NOT semantically interpreted in these file
   // types (post-#1886), so `[[blank]]` is purely authored literal text.
   // Un-escaping restores the user's original bytes without promoting the text to
-  // MDI-marker semantics. The macro-specific regex (blank|br|no-break:…|kern:…)
-  // deliberately leaves arbitrary `\[link]` CommonMark escapes untouched; only
+  // MDI-marker semantics. The macro-specific regex (blank|br|no-break:…|kern:…|
+  // bouten:…|note:…|warichu:…) deliberately leaves arbitrary `\[link]` CommonMark escapes untouched; only
   // these known MDI macro names are affected.
   //
   // Step 1a (blank paragraph conversion) and the mdi-to-html/docx export MDI
@@ -562,7 +661,7 @@ function normalizeEditorOutput(content: string, options?: MdiEditorOutputOptions
   const STEP0_FILE_TYPES = new Set([".mdi", ".md", ".txt"]);
   if (options?.fileType !== undefined && STEP0_FILE_TYPES.has(options.fileType)) {
     result = result.replace(
-      /\\?\[\\?\[(blank|br|no-break:[^\]\n]*|kern:[^\]\n]*)\\?\]\\?\]/g,
+      /\\?\[\\?\[(blank|br|no-break:[^\]\n]*|kern:[^\]\n]*|bouten:[^\]\n]*|note:[^\]\n]*|warichu:[^\]\n]*)\\?\]\\?\]/g,
       "[[$1]]",
     );
   }
@@ -597,6 +696,353 @@ function normalizeEditorOutput(content: string, options?: MdiEditorOutputOptions
   return result;
 }
 
+// ---------------------------------------------------------------------------
+// Aozora Bunko (青空文庫) notation <-> MDI
+// ---------------------------------------------------------------------------
+//
+// | MDI                | Aozora Bunko                                        |
+// | ------------------ | --------------------------------------------------- |
+// | `{漢字|かんじ}`     | `｜漢字《かんじ》` (implicit `漢字《かんじ》` on import) |
+// | `^12^`             | `12［＃「12」は縦中横］` (range form on import too)   |
+// | `[[bouten:猫]]`    | `猫［＃「猫」に傍点］` (白ゴマ / 丸 / 白丸 / 二重丸 / 黒三角) |
+// | `[[warichu:注]]`   | `［＃割り注］注［＃割り注終わり］`                       |
+// | `[[blank]]`        | empty line                                          |
+// | `---`              | `［＃改ページ］`                                      |
+// | `#` / `##` / `###` | `［＃大見出し］…［＃大見出し終わり］` (中 / 小)          |
+//
+// Notation without a counterpart is carried verbatim so the round trip is
+// lossless: Aozora annotations (`［＃「〜」に傍線］`, `［＃ここから２字下げ］`,
+// gaiji notes, ...) stay as literal fullwidth text in MDI, and MDI-only macros
+// (`[[no-break:…]]`, `[[kern:…]]`, `[[note:…]]`, `[[br]]`) stay as literal
+// ASCII text in the Aozora output.
+
+/**
+ * Literal characters that belong to the Aozora notation itself, with the
+ * standard `※［＃…］` note used to write them as plain text.
+ */
+const AOZORA_LITERAL_NOTES: ReadonlyArray<readonly [literal: string, note: string]> = [
+  ["《", "※［＃始め二重山括弧、1-1-52］"],
+  ["》", "※［＃終わり二重山括弧、1-1-53］"],
+  ["｜", "※［＃縦線、1-1-35］"],
+];
+
+/**
+ * Private-use placeholders (one per {@link AOZORA_LITERAL_NOTES} entry) that
+ * keep note-escaped literals away from the ruby regexes during import.
+ */
+const AOZORA_LITERAL_PLACEHOLDERS = ["\uE000", "\uE001", "\uE002"] as const;
+
+/** Ruby with explicit base delimiter: ｜漢字《かんじ》 */
+const AOZORA_EXPLICIT_RUBY_RE = /｜([^｜《》\n]+)《([^《》\n]+)》/g;
+
+/** Ruby with implicit base: the kanji run immediately before 《…》 */
+const AOZORA_IMPLICIT_RUBY_RE =
+  /([々〆〇ヶ\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]+)《([^《》\n]+)》/g;
+
+/** Range-form tate-chu-yoko: ［＃縦中横］12［＃縦中横終わり］ */
+const AOZORA_TCY_RANGE_RE = /［＃縦中横］([^［\n]+?)［＃縦中横終わり］/g;
+
+/** Reference-form tate-chu-yoko: 12［＃「12」は縦中横］ (non-global; scanned in a loop) */
+const AOZORA_TCY_REF_RE = /［＃「([^」\n]+)」は縦中横］/;
+
+/** 傍点 annotation prefix for each MDI style (`dot` has none and exports as plain 傍点). */
+const AOZORA_BOUTEN_PREFIXES: Readonly<Record<MdiBoutenStyle, string>> = {
+  sesame: "",
+  "open-sesame": "白ゴマ",
+  dot: "",
+  circle: "丸",
+  "open-circle": "白丸",
+  "double-circle": "二重丸",
+  triangle: "黒三角",
+};
+
+const AOZORA_BOUTEN_STYLE_BY_PREFIX: Readonly<Record<string, MdiBoutenStyle>> = {
+  "": "sesame",
+  白ゴマ: "open-sesame",
+  丸: "circle",
+  白丸: "open-circle",
+  二重丸: "double-circle",
+  黒三角: "triangle",
+};
+
+/** Reference-form 傍点: 猫［＃「猫」に傍点］ (non-global; scanned in a loop) */
+const AOZORA_BOUTEN_REF_RE = /［＃「([^」\n]+)」に(白ゴマ|丸|白丸|二重丸|黒三角)?傍点］/;
+
+/** Range-form 傍点: ［＃傍点］猫［＃傍点終わり］ */
+const AOZORA_BOUTEN_RANGE_RE =
+  /［＃(白ゴマ|丸|白丸|二重丸|黒三角)?傍点］([^［\n]+?)［＃\1傍点終わり］/g;
+
+/** 割注: ［＃割り注］…［＃割り注終わり］ */
+const AOZORA_WARICHU_RE = /［＃割り注］([^［\n]+?)［＃割り注終わり］/g;
+
+/** Whole-line range-form heading: ［＃大見出し］…［＃大見出し終わり］ */
+const AOZORA_HEADING_RANGE_RE = /^［＃([大中小])見出し］(.*)［＃\1見出し終わり］$/;
+
+/** Line-final reference-form heading: …［＃「…」は大見出し］ */
+const AOZORA_HEADING_REF_RE = /［＃「[^」\n]+」は([大中小])見出し］$/;
+
+/** Page break annotation. Mapped to a Markdown thematic break in MDI. */
+export const AOZORA_PAGE_BREAK = "［＃改ページ］";
+
+/** Title line of the notation legend shipped with Aozora Bunko text files. */
+const AOZORA_LEGEND_TITLE = "【テキスト中に現れる記号について】";
+
+/** Dashed rule delimiting the notation legend block. */
+const AOZORA_LEGEND_RULE_RE = /^-{10,}$/;
+
+const AOZORA_HEADING_LEVELS: Readonly<Record<string, number>> = { 大: 1, 中: 2, 小: 3 };
+const AOZORA_HEADING_SIZES = ["大", "中", "小"] as const;
+
+/**
+ * Remove the 【テキスト中に現れる記号について】 legend block (between two dashed
+ * rules). It only documents the notation and is not part of the manuscript.
+ */
+function stripAozoraLegend(lines: string[]): string[] {
+  const start = lines.findIndex(
+    (line, i) => AOZORA_LEGEND_RULE_RE.test(line) && !!lines[i + 1]?.includes(AOZORA_LEGEND_TITLE),
+  );
+  if (start === -1) return lines;
+  const end = lines.findIndex((line, i) => i > start && AOZORA_LEGEND_RULE_RE.test(line));
+  if (end === -1) return lines;
+  return [...lines.slice(0, start), ...lines.slice(end + 1)];
+}
+
+/**
+ * Escape characters that MDI / CommonMark would otherwise interpret, so plain
+ * Aozora text is never promoted to markup on import.
+ */
+function escapeAozoraTextForMdi(line: string): string {
+  return line
+    .replace(/([{^])/g, "\\$1")
+    .replace(/^([#>*+-])/, "\\$1")
+    .replace(/^(\d+)\./, "$1\\.");
+}
+
+/**
+ * Resolve reference-form notes (`［＃「target」…］`, non-global `re` with the
+ * target in group 1) by replacing the text they point at with `wrap(match)`.
+ * A note whose target does not immediately precede it is kept verbatim.
+ */
+function resolveAozoraReferences(
+  line: string,
+  re: RegExp,
+  wrap: (match: RegExpExecArray) => string,
+): string {
+  let result = "";
+  let rest = line;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(rest)) !== null) {
+    const before = rest.slice(0, match.index);
+    const target = match[1];
+    result += before.endsWith(target)
+      ? before.slice(0, before.length - target.length) + wrap(match)
+      : before + match[0];
+    rest = rest.slice(match.index + match[0].length);
+  }
+  return result + rest;
+}
+
+/** Convert one line of Aozora text (legend already removed) to an MDI line. */
+function convertAozoraLine(line: string): string {
+  if (line.trim() === AOZORA_PAGE_BREAK) return "---";
+
+  let headingLevel = 0;
+  let body = line;
+  const rangeHeading = AOZORA_HEADING_RANGE_RE.exec(body);
+  if (rangeHeading) {
+    headingLevel = AOZORA_HEADING_LEVELS[rangeHeading[1]];
+    body = rangeHeading[2];
+  } else {
+    const refHeading = AOZORA_HEADING_REF_RE.exec(body);
+    if (refHeading) {
+      headingLevel = AOZORA_HEADING_LEVELS[refHeading[1]];
+      body = body.slice(0, refHeading.index);
+    }
+  }
+
+  // Escape first: the conversions below emit MDI syntax that must stay live.
+  let result = escapeAozoraTextForMdi(body);
+  // Tcy / 傍点 before ruby so reference targets still appear verbatim in the line.
+  result = resolveAozoraReferences(result, AOZORA_TCY_REF_RE, (m) => `^${m[1]}^`);
+  result = result.replace(AOZORA_TCY_RANGE_RE, "^$1^");
+  result = resolveAozoraReferences(result, AOZORA_BOUTEN_REF_RE, (m) =>
+    formatMdiBouten(m[1], AOZORA_BOUTEN_STYLE_BY_PREFIX[m[2] ?? ""]),
+  );
+  result = result.replace(
+    AOZORA_BOUTEN_RANGE_RE,
+    (_match, prefix: string | undefined, text: string) =>
+      formatMdiBouten(text, AOZORA_BOUTEN_STYLE_BY_PREFIX[prefix ?? ""]),
+  );
+  result = result.replace(AOZORA_WARICHU_RE, "[[warichu:$1]]");
+  result = result.replace(AOZORA_EXPLICIT_RUBY_RE, "{$1|$2}");
+  result = result.replace(AOZORA_IMPLICIT_RUBY_RE, "{$1|$2}");
+
+  return headingLevel > 0 ? `${"#".repeat(headingLevel)} ${result.trim()}` : result;
+}
+
+/**
+ * Convert Aozora Bunko notation to MDI raw text.
+ *
+ * Every non-empty line becomes one paragraph; an empty line becomes a
+ * `[[blank]]` paragraph, mirroring how {@link MdiDocument.toAozoraText}
+ * writes forced blank lines. Leading/trailing empty lines are dropped.
+ *
+ * Prefer `MdiDocument.fromAozoraText(text)` in new code.
+ */
+export function aozoraToMdi(text: string): string {
+  let source = text.replace(/\r\n?/g, "\n");
+  AOZORA_LITERAL_NOTES.forEach(([, note], i) => {
+    source = source.split(note).join(AOZORA_LITERAL_PLACEHOLDERS[i]);
+  });
+
+  const lines = stripAozoraLegend(source.split("\n"));
+  while (lines.length > 0 && lines[0].trim() === "") lines.shift();
+  while (lines.length > 0 && lines[lines.length - 1].trim() === "") lines.pop();
+
+  let result = lines
+    .map((line) => (line.trim() === "" ? MDI_BLANK_MARKER : convertAozoraLine(line)))
+    .join("\n\n");
+
+  AOZORA_LITERAL_NOTES.forEach(([literal], i) => {
+    result = result.split(AOZORA_LITERAL_PLACEHOLDERS[i]).join(literal);
+  });
+  return result;
+}
+
+/**
+ * Convert MDI raw text to Aozora Bunko notation.
+ *
+ * Follows the plain-text export pipeline (markdown stripped, blank lines
+ * collapsed for 組版) with ruby, tcy, 傍点, 割注, headings and page breaks
+ * rewritten into Aozora annotations instead of being flattened.
+ *
+ * Prefer `MdiDocument.fromRawText(raw).toAozoraText()` in new code.
+ */
+export function mdiToAozora(raw: string): string {
+  let result = raw;
+  // Literal notation characters first, so the converted ruby below is not escaped.
+  for (const [literal, note] of AOZORA_LITERAL_NOTES) {
+    result = result.split(literal).join(note);
+  }
+
+  result = result
+    .split("\n")
+    .map((line) => {
+      if (/^(-{3,}|\*{3,}|_{3,})$/.test(line.trim())) return AOZORA_PAGE_BREAK;
+      const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+      if (!heading) return line;
+      const size = AOZORA_HEADING_SIZES[Math.min(heading[1].length, 3) - 1];
+      return `［＃${size}見出し］${heading[2]}［＃${size}見出し終わり］`;
+    })
+    .join("\n");
+
+  result = result.replace(MDI_RUBY_RE, (_match, base: string, ruby: string) => {
+    return `｜${base}《${ruby.replace(/\./g, "")}》`;
+  });
+  result = result.replace(MDI_TCY_RE, "$1［＃「$1」は縦中横］");
+  result = result.replace(MDI_BOUTEN_RE, (_match, style: string | undefined, text: string) => {
+    const prefix =
+      AOZORA_BOUTEN_PREFIXES[isMdiBoutenStyle(style) ? style : MDI_BOUTEN_DEFAULT_STYLE];
+    return `${text}［＃「${text}」に${prefix}傍点］`;
+  });
+  result = result.replace(MDI_WARICHU_RE, "［＃割り注］$1［＃割り注終わり］");
+
+  return collapseBlankLines(stripMarkdown(result));
+}
+
+// ---------------------------------------------------------------------------
+// Third-party plain-text dialects (web-novel platforms etc.)
+// ---------------------------------------------------------------------------
+
+/**
+ * Target notation for {@link mdiToDialect}. Each hook receives the literal
+ * text of one MDI construct and returns the markup to emit; hooks that are
+ * omitted fall back to the flattened plain-text export.
+ */
+export interface MdiTextDialect {
+  /** `{base|ruby}` — split dots are already removed from `ruby`. */
+  ruby: (base: string, ruby: string) => string;
+  /** `^text^`. Default: `text`. */
+  tcy?: (text: string) => string;
+  /** `[[no-break:text]]`. Default: `text`. */
+  noBreak?: (text: string) => string;
+  /** `[[bouten:style:text]]`. Default: `text`. */
+  bouten?: (text: string, style: MdiBoutenStyle) => string;
+  /** Heading line; `title` is flattened and escaped. Default: the title alone. */
+  heading?: (title: string, level: number) => string;
+  /** Line emitted for a thematic break (`---`). Default: a blank line. */
+  sceneBreak?: string;
+  /**
+   * Escape literal text the target would misread as markup. Runs on the
+   * plain text only — markup produced by the hooks above is never escaped.
+   */
+  escape?: (text: string) => string;
+}
+
+/** Delimiters wrapping the index of a rendered-markup placeholder. */
+const DIALECT_PLACEHOLDER_OPEN = "\uE010";
+const DIALECT_PLACEHOLDER_CLOSE = "\uE011";
+const DIALECT_PLACEHOLDER_RE = /\uE010(\d+)\uE011/g;
+
+/**
+ * Convert MDI raw text to a third-party plain-text dialect.
+ *
+ * Follows the plain-text export pipeline (markdown stripped, blank lines
+ * collapsed for 組版). Markup produced by the dialect hooks is parked behind
+ * private-use placeholders while markdown is stripped and `escape` runs, so
+ * only author text is ever escaped. Kerning and `[[br]]` are flattened as in
+ * the "txt" export; notes and 割注 stay inline in fullwidth parentheses (as in
+ * "txt-ruby"), since a posted plain text has nowhere else to put them.
+ *
+ * Prefer `MdiDocument.fromRawText(raw).toDialectText(dialect)` in new code.
+ */
+export function mdiToDialect(raw: string, dialect: MdiTextDialect): string {
+  const rendered: string[] = [];
+  const park = (markup: string): string => {
+    rendered.push(markup);
+    return `${DIALECT_PLACEHOLDER_OPEN}${rendered.length - 1}${DIALECT_PLACEHOLDER_CLOSE}`;
+  };
+
+  let result = raw
+    .split("\n")
+    .map((line) => {
+      if (dialect.sceneBreak !== undefined && /^(-{3,}|\*{3,}|_{3,})$/.test(line.trim())) {
+        return park(dialect.sceneBreak);
+      }
+      const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+      if (!heading || !dialect.heading) return line;
+      // The hook sees the title as displayed, already escaped for the target.
+      const title = unescapeCommonMark(stripMdiInlineSyntax(heading[2]))
+        .replace(/[\r\n]+/g, " ")
+        .trim();
+      return park(dialect.heading(dialect.escape?.(title) ?? title, heading[1].length));
+    })
+    .join("\n");
+
+  result = result.replace(MDI_RUBY_RE, (_match, base: string, ruby: string) =>
+    park(dialect.ruby(base, ruby.replace(/\./g, ""))),
+  );
+  if (dialect.tcy) {
+    const tcy = dialect.tcy;
+    result = result.replace(MDI_TCY_RE, (_match, text: string) => park(tcy(text)));
+  }
+  if (dialect.noBreak) {
+    const noBreak = dialect.noBreak;
+    result = result.replace(MDI_NOBR_RE, (_match, text: string) => park(noBreak(text)));
+  }
+  if (dialect.bouten) {
+    const bouten = dialect.bouten;
+    result = result.replace(MDI_BOUTEN_RE, (_match, style: string | undefined, text: string) =>
+      park(bouten(text, isMdiBoutenStyle(style) ? style : MDI_BOUTEN_DEFAULT_STYLE)),
+    );
+  }
+  result = result.replace(MDI_NOTE_RE, "（$1）").replace(MDI_WARICHU_RE, "（$1）");
+
+  result = collapseBlankLines(stripMarkdown(stripMdiInlineSyntax(result)));
+  if (dialect.escape) result = dialect.escape(result);
+  return result.replace(DIALECT_PLACEHOLDER_RE, (_match, index: string) => rendered[Number(index)]);
+}
+
 // ---------------------------------------------------------------------------
 // MdiDocument — typed derivations over a single raw-text source of truth
 // ---------------------------------------------------------------------------
@@ -625,6 +1071,14 @@ export class MdiDocument {
     return new MdiDocument(normalizeEditorOutput(serialized, options));
   }
 
+  /**
+   * Wrap text written in Aozora Bunko notation, converting ruby, tcy, 傍点,
+   * 割注, headings, page breaks and blank lines to MDI (see {@link aozoraToMdi}).
+   */
+  static fromAozoraText(text: string): MdiDocument {
+    return new MdiDocument(aozoraToMdi(text));
+  }
+
   /**
    * Raw MDI text with all markers preserved.
    * Use for persistence and file-watcher content comparison.
@@ -659,6 +1113,23 @@ export class MdiDocument {
     return collapseBlankLines(stripMarkdown(flattened));
   }
 
+  /**
+   * Aozora Bunko notation export. Ruby, tcy, 傍点, 割注, headings and page
+   * breaks become Aozora annotations; MDI-only macros are kept verbatim so re-importing
+   * restores them (see {@link mdiToAozora}).
+   */
+  toAozoraText(): string {
+    return mdiToAozora(this.raw);
+  }
+
+  /**
+   * Plain-text export in a caller-supplied dialect (web-novel platforms and
+   * similar targets). See {@link mdiToDialect}.
+   */
+  toDialectText(dialect: MdiTextDialect): string {
+    return mdiToDialect(this.raw, dialect);
+  }
+
   /**
    * Content to feed Milkdown / ProseMirror. Markers are kept verbatim:
    * the string→AST conversion is owned by `remarkMdiBlankPlugin` (parse) and
@@ -0,0 +1,60 @@
+/**
+ * 傍点 (emphasis dots) node: marks each character with a sesame / dot / circle.
+ */
+
+import { $nodeSchema } from "@milkdown/utils";
+import {
+  MDI_BOUTEN_DEFAULT_STYLE,
+  formatMdiBouten,
+  isMdiBoutenStyle,
+  type MdiBoutenStyle,
+} from "../mdi-document";
+
+export const boutenSchema = $nodeSchema("bouten", () => ({
+  group: "inline",
+  inline: true,
+  atom: true,
+  attrs: {
+    text: { default: "", validate: (v: unknown) => typeof v === "string" },
+    style: { default: MDI_BOUTEN_DEFAULT_STYLE, validate: isMdiBoutenStyle },
+  },
+  parseDOM: [
+    {
+      tag: "span.mdi-bouten",
+      getAttrs: (dom) => {
+        if (!(dom instanceof HTMLElement)) return {};
+        const style = dom.dataset.style;
+        return {
+          text: dom.textContent ?? "",
+          style: isMdiBoutenStyle(style) ? style : MDI_BOUTEN_DEFAULT_STYLE,
+        };
+      },
+    },
+  ],
+  toDOM: (node) => [
+    "span",
+    {
+      class: `mdi-bouten mdi-bouten-${node.attrs.style as string}`,
+      "data-style": node.attrs.style as string,
+    },
+    node.attrs.text,
+  ],
+  parseMarkdown: {
+    match: (node) => (node as { type?: string }).type === "bouten",
+    runner: (state, node, type) => {
+      const n = node as { text?: string; style?: string };
+      state.addNode(type, {
+        text: n.text ?? "",
+        style: isMdiBoutenStyle(n.style) ? n.style : MDI_BOUTEN_DEFAULT_STYLE,
+      });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === "bouten",
+    runner: (state, node) => {
+      const text = node.attrs.text as string;
+      const style = node.attrs.style as MdiBoutenStyle;
+      state.addNode("text", undefined, formatMdiBouten(text, style));
+    },
+  },
+}));
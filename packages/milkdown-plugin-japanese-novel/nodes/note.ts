@@ -0,0 +1,54 @@
+/**
+ * 後注 / 脚注 node: shows a numbered marker in the text and the note body on hover.
+ * Numbering is a CSS counter that restarts at every h1, matching the
+ * per-chapter numbering of the exporters.
+ */
+
+import { $nodeSchema } from "@milkdown/utils";
+import { stripMdiInlineSyntax } from "../mdi-document";
+
+export const noteSchema = $nodeSchema("note", () => ({
+  group: "inline",
+  inline: true,
+  atom: true,
+  attrs: {
+    text: { default: "", validate: (v: unknown) => typeof v === "string" },
+  },
+  parseDOM: [
+    {
+      tag: "span.mdi-note",
+      getAttrs: (dom) => {
+        if (!(dom instanceof HTMLElement)) return {};
+        return { text: dom.dataset.note ?? "" };
+      },
+    },
+  ],
+  // The preview is only ever exposed through a data attribute (rendered by CSS
+  // `attr()`), so no note text reaches the DOM as markup.
+  toDOM: (node) => {
+    const text = node.attrs.text as string;
+    const preview = stripMdiInlineSyntax(text);
+    return [
+      "span",
+      {
+        class: "mdi-note",
+        "data-note": text,
+        "data-preview": preview,
+        "aria-label": `注: ${preview}`,
+      },
+    ];
+  },
+  parseMarkdown: {
+    match: (node) => (node as { type?: string }).type === "note",
+    runner: (state, node, type) => {
+      const n = node as { text?: string };
+      state.addNode(type, { text: n.text ?? "" });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === "note",
+    runner: (state, node) => {
+      state.addNode("text", undefined, `[[note:${node.attrs.text as string}]]`);
+    },
+  },
+}));
@@ -0,0 +1,47 @@
+/**
+ * 割注 node: sets a short note in two half-size lines inside the running line.
+ */
+
+import { $nodeSchema } from "@milkdown/utils";
+import { splitMdiWarichuLines, stripMdiInlineSyntax } from "../mdi-document";
+
+export const warichuSchema = $nodeSchema("warichu", () => ({
+  group: "inline",
+  inline: true,
+  atom: true,
+  attrs: {
+    text: { default: "", validate: (v: unknown) => typeof v === "string" },
+  },
+  parseDOM: [
+    {
+      tag: "span.mdi-warichu",
+      getAttrs: (dom) => {
+        if (!(dom instanceof HTMLElement)) return {};
+        return { text: dom.dataset.text ?? dom.textContent ?? "" };
+      },
+    },
+  ],
+  toDOM: (node) => {
+    const text = node.attrs.text as string;
+    const [first, second] = splitMdiWarichuLines(stripMdiInlineSyntax(text));
+    return [
+      "span",
+      { class: "mdi-warichu", "data-text": text },
+      ["span", { class: "mdi-warichu-line" }, first],
+      ["span", { class: "mdi-warichu-line" }, second],
+    ];
+  },
+  parseMarkdown: {
+    match: (node) => (node as { type?: string }).type === "warichu",
+    runner: (state, node, type) => {
+      const n = node as { text?: string };
+      state.addNode(type, { text: n.text ?? "" });
+    },
+  },
+  toMarkdown: {
+    match: (node) => node.type.name === "warichu",
+    runner: (state, node) => {
+      state.addNode("text", undefined, `[[warichu:${node.attrs.text as string}]]`);
+    },
+  },
+}));
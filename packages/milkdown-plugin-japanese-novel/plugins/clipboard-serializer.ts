@@ -1,8 +1,8 @@
 import { Plugin, PluginKey } from "@milkdown/prose/state";
 import type { Ctx } from "@milkdown/ctx";
 import type { Fragment, Node as ProseNode } from "@milkdown/prose/model";
-import { replaceMdiWithRubyTextGated } from "../mdi-document";
-import type { MdiFeatureFlags } from "../mdi-document";
+import { formatMdiBouten, replaceMdiWithRubyTextGated } from "../mdi-document";
+import type { MdiBoutenStyle, MdiFeatureFlags } from "../mdi-document";
 
 /**
  * Options controlling which MDI features are active in the current editor
@@ -52,6 +52,12 @@ const TCY_NODE = "tcy";
 const NOBREAK_NODE = "nobreak";
 /** Kerning span node: attrs `amount` / `text`. */
 const KERN_NODE = "kern";
+/** 傍点 node: attrs `style` / `text`. */
+const BOUTEN_NODE = "bouten";
+/** 後注 node: attr `text`. */
+const NOTE_NODE = "note";
+/** 割注 node: attr `text`. */
+const WARICHU_NODE = "warichu";
 
 /** Block container nodes whose children are themselves block-level. */
 const LIST_CONTAINER_NODES = new Set(["bullet_list", "ordered_list"]);
@@ -73,6 +79,12 @@ function mdiNodeLiteral(node: ProseNode): string {
       return `[[no-break:${node.attrs.text as string}]]`;
     case KERN_NODE:
       return `[[kern:${node.attrs.amount as string}:${node.attrs.text as string}]]`;
+    case BOUTEN_NODE:
+      return formatMdiBouten(node.attrs.text as string, node.attrs.style as MdiBoutenStyle);
+    case NOTE_NODE:
+      return `[[note:${node.attrs.text as string}]]`;
+    case WARICHU_NODE:
+      return `[[warichu:${node.attrs.text as string}]]`;
     case MDI_BREAK_NODE:
       return "[[br]]";
     default:
@@ -87,7 +99,8 @@ function mdiNodeLiteral(node: ProseNode): string {
  *   text is already literal in the ProseMirror model — there is no markdown
  *   escaping to undo and no emphasis/link markup to strip (marks carry no text).
  * - MDI macro nodes render per their feature flag: enabled → converted
- *   (ruby `base（text）`, tcy/no-break/kern → inner text, `[[br]]` → newline);
+ *   (ruby `base（text）`, tcy/no-break/kern/bouten → inner text, note/warichu →
+ *   `（text）`, `[[br]]` → newline);
  *   disabled → the literal `.mdi` source verbatim.
  * - `hardbreak` → newline.
  */
@@ -106,6 +119,15 @@ function inlineNodeToText(node: ProseNode, features: MdiFeatureFlags): string {
       return features.enableNoBreak ? (node.attrs.text as string) : mdiNodeLiteral(node);
     case KERN_NODE:
       return features.enableKern ? (node.attrs.text as string) : mdiNodeLiteral(node);
+    case BOUTEN_NODE:
+      return features.enableBouten ? (node.attrs.text as string) : mdiNodeLiteral(node);
+    case NOTE_NODE:
+    case WARICHU_NODE:
+      // The body may itself carry ruby etc., so run the whole macro through
+      // the shared renderer: （body） with the body's own macros converted.
+      return features.enableNotes
+        ? replaceMdiWithRubyTextGated(mdiNodeLiteral(node), features)
+        : mdiNodeLiteral(node);
     case MDI_BREAK_NODE:
       return features.enableMdiBreak ? "\n" : mdiNodeLiteral(node);
     case HARDBREAK_NODE:
@@ -5,6 +5,13 @@
 import type { Paragraph, Root, Text } from "mdast";
 import type { Plugin } from "unified";
 import { visit } from "unist-util-visit";
+import {
+  MDI_BOUTEN_DEFAULT_STYLE,
+  MDI_BOUTEN_RE,
+  MDI_NOTE_RE,
+  MDI_WARICHU_RE,
+  type MdiBoutenStyle,
+} from "./mdi-document";
 
 /** ルビ: {base|ruby} */
 const RUBY_RE = /\{([^|]+)\|([^}]+)\}/g;
@@ -19,6 +26,12 @@ const NO_BREAK_RE = /\[\[no-break:([^\]]+)\]\]/g;
 const KERN_RE = /\[\[kern:([+-]?\d+(?:\.\d+)?em):([^\]]+)\]\]/g;
 const KERN_AMOUNT_VALID_RE = /^[+-]?\d+(\.\d+)?em$/;
 
+/** 傍点: [[bouten:text]] / [[bouten:style:text]]（style は既知の名前のみ） */
+const BOUTEN_RE = new RegExp(MDI_BOUTEN_RE.source, "g");
+
+/** 後注: [[note:text]] / 割注: [[warichu:text]] */
+const NOTE_RE = new RegExp(`${MDI_NOTE_RE.source}|${MDI_WARICHU_RE.source}`, "g");
+
 /** MDI 明示改行: [[br]] */
 const MDI_BREAK_RE = /\[\[br\]\]/g;
 
@@ -27,8 +40,11 @@ type RubyNode = { type: "ruby"; base: string; text: string };
 type TcyNode = { type: "tcy"; value: string };
 type NoBreakNode = { type: "nobreak"; text: string };
 type KernNode = { type: "kern"; amount: string; text: string };
+type BoutenNode = { type: "bouten"; style: MdiBoutenStyle; text: string };
+type NoteNode = { type: "note" | "warichu"; text: string };
 type MdiBreakNode = { type: "mdibreak" };
-type InlineNode = TextNode | RubyNode | TcyNode | NoBreakNode | KernNode | MdiBreakNode;
+type InlineNode =
+  TextNode | RubyNode | TcyNode | NoBreakNode | KernNode | BoutenNode | NoteNode | MdiBreakNode;
 
 type HeadingNode = {
   type: "heading";
@@ -194,6 +210,88 @@ export const remarkKernPlugin: Plugin<[RemarkKernOptions | undefined], Root> = (
   };
 };
 
+function splitBouten(text: string): InlineNode[] {
+  const segments: InlineNode[] = [];
+  let lastIndex = 0;
+  let m: RegExpExecArray | null;
+  BOUTEN_RE.lastIndex = 0;
+  while ((m = BOUTEN_RE.exec(text)) !== null) {
+    if (m.index > lastIndex) {
+      segments.push({ type: "text", value: text.slice(lastIndex, m.index) });
+    }
+    const style = (m[1] as MdiBoutenStyle | undefined) ?? MDI_BOUTEN_DEFAULT_STYLE;
+    segments.push({ type: "bouten", style, text: m[2]! });
+    lastIndex = m.index + m[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+export interface RemarkBoutenOptions {
+  enable?: boolean;
+}
+
+export const remarkBoutenPlugin: Plugin<[RemarkBoutenOptions | undefined], Root> = (opts) => {
+  const enable = opts?.enable !== false;
+  return (tree) => {
+    visit(tree, "text", (node, index, parent) => {
+      if (!parent || typeof index !== "number" || !enable) return;
+      const value = (node as TextNode).value;
+      if (!value.includes("[[bouten:")) return;
+      const segments = splitBouten(value);
+      if (segments.length === 0 || (segments.length === 1 && segments[0]!.type === "text")) return;
+      const children = (parent as { children: unknown[] }).children;
+      children.splice(index, 1, ...segments);
+    });
+  };
+};
+
+function splitNotes(text: string): InlineNode[] {
+  const segments: InlineNode[] = [];
+  let lastIndex = 0;
+  let m: RegExpExecArray | null;
+  NOTE_RE.lastIndex = 0;
+  while ((m = NOTE_RE.exec(text)) !== null) {
+    if (m.index > lastIndex) {
+      segments.push({ type: "text", value: text.slice(lastIndex, m.index) });
+    }
+    segments.push(
+      m[1] !== undefined ? { type: "note", text: m[1] } : { type: "warichu", text: m[2]! },
+    );
+    lastIndex = m.index + m[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ type: "text", value: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+export interface RemarkNoteOptions {
+  enable?: boolean;
+}
+
+/**
+ * 後注 / 割注. Must run before the other inline plugins so that MDI syntax
+ * inside a note body (e.g. ruby) stays part of the body instead of splitting
+ * the macro apart.
+ */
+export const remarkNotePlugin: Plugin<[RemarkNoteOptions | undefined], Root> = (opts) => {
+  const enable = opts?.enable !== false;
+  return (tree) => {
+    visit(tree, "text", (node, index, parent) => {
+      if (!parent || typeof index !== "number" || !enable) return;
+      const value = (node as TextNode).value;
+      if (!value.includes("[[note:") && !value.includes("[[warichu:")) return;
+      const segments = splitNotes(value);
+      if (segments.length === 0 || (segments.length === 1 && segments[0]!.type === "text")) return;
+      const children = (parent as { children: unknown[] }).children;
+      children.splice(index, 1, ...segments);
+    });
+  };
+};
+
 function splitMdiBreak(text: string): InlineNode[] {
   const segments: InlineNode[] = [];
   let lastIndex = 0;
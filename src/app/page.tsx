@@ -30,8 +30,8 @@ import { openWebPrintPreview } from "@/lib/export/web-print-preview";
 import TxtExportDialog from "@/components/TxtExportDialog";
 import BugReportDialog from "@/components/BugReportDialog";
 import type { BugReportCategory } from "@/lib/bug-report/bug-report-types";
-import type { TxtIndentOptions } from "@/lib/export/txt-exporter";
-import type { ExportMetadata } from "@/lib/export/types";
+import type { TxtExportOptions } from "@/lib/export/txt-exporter";
+import type { ExportMetadata, ExportSource, TxtExportFormat } from "@/lib/export/types";
 import type { PdfExportSettings } from "@/lib/export/pdf-export-settings";
 import type { DocxExportSettings } from "@/lib/export/docx-export-settings";
 import type { EpubExportOptions } from "@/lib/export/epub-shared";
@@ -45,6 +45,7 @@ import ConfirmDialog from "@/shared/ui/ConfirmDialog";
 import { useEditorMode } from "@/contexts/EditorModeContext";
 import { EditorSettingsProvider } from "@/contexts/EditorSettingsContext";
 import { IgnoredCorrectionsProvider } from "@/contexts/IgnoredCorrectionsContext";
+import type { ManuscriptPaperContextValue } from "@/contexts/ManuscriptPaperContext";
 import { getAvailableFeatures } from "@/lib/utils/feature-detection";
 import { isProjectMode } from "@/lib/project/project-types";
 import { isEditorTab } from "@/lib/tab-manager/tab-types";
@@ -57,21 +58,33 @@ import { useProjectLifecycle } from "@/lib/editor-page/use-project-lifecycle";
 import { useLinting } from "@/lib/editor-page/use-linting";
 import { CORRECTION_MODES } from "@/lib/linting/correction-modes";
 import { buildModeRuleConfigsFromRules } from "@/lib/linting/mode-rule-configs";
+import { NOVEL_RULES_META } from "@/lib/linting/rules";
 import { useInstalledRuleMetas } from "@/lib/editor-page/use-installed-rule-metas";
 import { useModeConfigMigration } from "@/lib/editor-page/use-mode-config-migration";
 import type { CorrectionModeId } from "@/lib/linting/correction-config";
 import { usePowerSaving } from "@/lib/editor-page/use-power-saving";
 import { useIgnoredCorrections } from "@/lib/editor-page/use-ignored-corrections";
 import { useKnownTerms } from "@/lib/editor-page/use-known-terms";
+import { usePreferredSpellings } from "@/lib/editor-page/use-preferred-spellings";
+import { usePreferredSpellingActions } from "@/lib/editor-page/use-preferred-spelling-actions";
+import { useGlossary } from "@/lib/editor-page/use-glossary";
+import { useAiLintValidation } from "@/lib/editor-page/use-ai-lint-validation";
+import { useRestorePoint } from "@/lib/editor-page/use-restore-point";
+import { setPreferredSpellings } from "@/lib/linting/preferred-spellings";
+import { setGlossaryEntries } from "@/lib/linting/glossary-terms";
 import { useKeyboardShortcuts } from "@/lib/editor-page/use-keyboard-shortcuts";
+import { useCommandFallbacks } from "@/lib/editor-page/use-command-fallbacks";
+import { useCommandPaletteItems } from "@/lib/editor-page/use-command-palette-items";
 import { usePanelState } from "@/lib/editor-page/use-panel-state";
 import { findSearchMatches, type SearchRange } from "@/lib/editor-page/find-search-matches";
 import { useSearchHighlight, isEditorViewAlive } from "@/lib/editor-page/use-search-highlight";
 import { useSaveToast } from "@/lib/editor-page/use-save-toast";
 import { useTerminalTabs } from "@/lib/editor-page/use-terminal-tabs";
 import { useDiffTabs } from "@/lib/editor-page/use-diff-tabs";
+import { useSceneBoard } from "@/lib/editor-page/use-scene-board";
 import { useContextMenu } from "@/lib/hooks/use-context-menu";
 import { usePreviousDayStats } from "@/lib/editor-page/use-previous-day-stats";
+import { useWritingProgress } from "@/lib/editor-page/use-writing-progress";
 import { useErrorReportingConsentToast } from "@/lib/error-reporting/use-error-reporting-consent-toast";
 
 import type { EditorView } from "@milkdown/prose/view";
@@ -186,6 +199,15 @@ function EditorPageContent() {
     powerSaveMode,
     autoPowerSaveOnBattery,
     correctionConfig,
+    aiBaseUrl,
+    aiModelId,
+    aiProvider,
+    aiFeatureProviders,
+    aiAnthropicModelId,
+    aiOllamaBaseUrl,
+    aiOllamaModelId,
+    aiLintValidation,
+    aiLintValidationAction,
   } = settings;
   const {
     handleFontScaleChange,
@@ -242,6 +264,30 @@ function EditorPageContent() {
     setConfigVersion: handleLintingModeConfigVersionChange,
   });
 
+  // Switch correction mode from the inspector dropdown or the command palette.
+  const handleCorrectionModeChange = useCallback(
+    (modeId: CorrectionModeId) => {
+      const mode = CORRECTION_MODES[modeId];
+      handleCorrectionConfigChange({ mode: modeId, guidelines: [...mode.defaultGuidelines] });
+      // Pass the current configs so user rule-option overrides (#2048)
+      // survive the whole-map replace a mode switch performs. The built-in
+      // novel pack is included so the replace does not drop its rules.
+      handleLintingRuleConfigsBatchChange(
+        buildModeRuleConfigsFromRules(
+          modeId,
+          [...NOVEL_RULES_META, ...loadedRules],
+          lintingRuleConfigs,
+        ),
+      );
+    },
+    [
+      handleCorrectionConfigChange,
+      handleLintingRuleConfigsBatchChange,
+      loadedRules,
+      lintingRuleConfigs,
+    ],
+  );
+
   // Derive a stable per-window key from the project root path (Electron project mode).
   // This key scopes tabs and dockview layout so multiple windows with different projects
   // do not overwrite each other's state (fixes #1042).
@@ -292,6 +338,7 @@ function EditorPageContent() {
     switchToCorrectionsTrigger,
     showRubyDialog,
     rubySelectedText,
+    showCommandPalette,
     editorDiff,
   } = panelState;
   const {
@@ -301,6 +348,7 @@ function EditorPageContent() {
     setSettingsInitialCategory,
     setShowRubyDialog,
     setRubySelectedText,
+    setShowCommandPalette,
     setEditorDiff,
     handleOpenDictionary,
     setSearchTerm,
@@ -385,6 +433,7 @@ function EditorPageContent() {
     tabs,
     activeTabId,
     newTab,
+    openDraftTab,
     closeTab,
     switchTab,
     nextTab,
@@ -395,6 +444,11 @@ function EditorPageContent() {
     newTerminalTab,
     updateTerminalTab,
     openDiffTab,
+    openCompareTab,
+    openRelationshipGraphTab,
+    openSceneBoardTab,
+    openStatsDashboardTab,
+    openManuscriptPaperTab,
     forceCloseTab,
     updateTab,
     pendingCloseTabId,
@@ -428,11 +482,19 @@ function EditorPageContent() {
     [updateTab],
   );
 
-  const { diffTabContextValue, handleCloseTabWithPtyCleanup } = useDiffTabs({
+  const {
+    diffTabContextValue,
+    handleCloseTabWithPtyCleanup,
+    handleCompareSnapshots,
+    handleCompareWithRevision,
+  } = useDiffTabs({
     tabs,
     updateTab,
     forceCloseTab,
     closeTab,
+    openCompareTab,
+    openDiffTab,
+    openProjectFile,
   });
 
   const {
@@ -495,6 +557,17 @@ function EditorPageContent() {
       ),
     [tabs],
   );
+  const unsavedProjectContents = useMemo(
+    () =>
+      new Map(
+        tabs.flatMap((tab) =>
+          isEditorTab(tab) && tab.isDirty && tab.file?.path
+            ? [[tab.file.path, tab.content] as const]
+            : [],
+        ),
+      ),
+    [tabs],
+  );
   const activeFileType = activeEditorTab?.fileType ?? ".mdi";
   const mdiExtensionsEnabled = activeFileType === ".mdi";
   const gfmEnabled = activeFileType !== ".txt";
@@ -645,6 +718,7 @@ function EditorPageContent() {
     setStandaloneMode,
     isElectron,
     tabLoadSystemFile,
+    tabOpenDraft: openDraftTab,
     incrementEditorKey,
     content,
     skipAutoRestore,
@@ -666,6 +740,7 @@ function EditorPageContent() {
       handleCreateProject,
       handleOpenProject,
       handleOpenStandaloneFile,
+      handleImportAozoraFile,
       handleOpenRecentProject,
       handleDeleteRecentProject,
       handleOpenAsProject,
@@ -829,12 +904,12 @@ function EditorPageContent() {
 
   // TXT export 字下げ dialog. The export hook awaits the user's choice via a
   // promise resolved when the dialog is confirmed (options) or cancelled (null).
-  const [txtDialogFormat, setTxtDialogFormat] = useState<"txt" | "txt-ruby" | null>(null);
-  const txtOptionsResolverRef = useRef<((options: TxtIndentOptions | null) => void) | null>(null);
+  const [txtDialogFormat, setTxtDialogFormat] = useState<TxtExportFormat | null>(null);
+  const txtOptionsResolverRef = useRef<((options: TxtExportOptions | null) => void) | null>(null);
 
   const handleRequestTxtExportOptions = useCallback(
-    (format: "txt" | "txt-ruby"): Promise<TxtIndentOptions | null> =>
-      new Promise<TxtIndentOptions | null>((resolve) => {
+    (format: TxtExportFormat): Promise<TxtExportOptions | null> =>
+      new Promise<TxtExportOptions | null>((resolve) => {
         // If a previous request is still pending (e.g. the dialog was re-opened
         // before being answered), cancel it so its awaiting export does not hang.
         txtOptionsResolverRef.current?.(null);
@@ -844,7 +919,7 @@ function EditorPageContent() {
     [],
   );
 
-  const resolveTxtExportOptions = useCallback((options: TxtIndentOptions | null) => {
+  const resolveTxtExportOptions = useCallback((options: TxtExportOptions | null) => {
     setTxtDialogFormat(null);
     const resolve = txtOptionsResolverRef.current;
     txtOptionsResolverRef.current = null;
@@ -865,81 +940,86 @@ function EditorPageContent() {
     [],
   );
 
-  const handlePdfExportConfirm = useCallback(async (settings: PdfExportSettings) => {
-    const dialogState = exportDialogStateRef.current;
-    if (!dialogState) return;
-
-    // Electron path: use IPC
-    if (window.electronAPI?.exportPDF) {
-      setExportDialogState(null);
+  const handlePdfExportConfirm = useCallback(
+    async (settings: PdfExportSettings, source: ExportSource) => {
+      if (!exportDialogStateRef.current) return;
 
-      const progressId = notificationManager.showProgress("PDFをエクスポート中...", {
-        type: "info",
-      });
+      // Electron path: use IPC
+      if (window.electronAPI?.exportPDF) {
+        setExportDialogState(null);
 
-      try {
-        const result = await window.electronAPI.exportPDF(dialogState.content, {
-          metadata: dialogState.metadata,
-          verticalWriting: settings.verticalWriting,
-          pageSize: settings.pageSize,
-          landscape: settings.landscape,
-          margins: settings.margins,
-          charsPerLine: settings.charsPerLine,
-          linesPerPage: settings.linesPerPage,
-          fontFamily: settings.fontFamily,
-          showPageNumbers: settings.showPageNumbers,
-          pageNumberFormat: settings.pageNumberFormat,
-          pageNumberPosition: settings.pageNumberPosition,
-          textIndent: settings.textIndent,
-          fullwidthSpaceIndent: settings.fullwidthSpaceIndent,
-          googleFontFamily: settings.googleFontFamily,
-          // Thread the active tab's snapshotted file type so the HTML pipeline
-          // un-escapes MDI macros only for ".mdi" and preserves \[\[blank]]
-          // literals authored in ".md"/".txt".
-          fileType: dialogState.fileType,
+        const progressId = notificationManager.showProgress("PDFをエクスポート中...", {
+          type: "info",
         });
 
-        notificationManager.dismiss(progressId);
+        try {
+          const result = await window.electronAPI.exportPDF(source.content, {
+            metadata: source.metadata,
+            verticalWriting: settings.verticalWriting,
+            pageSize: settings.pageSize,
+            landscape: settings.landscape,
+            margins: settings.margins,
+            charsPerLine: settings.charsPerLine,
+            linesPerPage: settings.linesPerPage,
+            fontFamily: settings.fontFamily,
+            showPageNumbers: settings.showPageNumbers,
+            pageNumberFormat: settings.pageNumberFormat,
+            pageNumberPosition: settings.pageNumberPosition,
+            textIndent: settings.textIndent,
+            fullwidthSpaceIndent: settings.fullwidthSpaceIndent,
+            googleFontFamily: settings.googleFontFamily,
+            // Thread the source's file type (the active tab's, snapshotted when
+            // the dialog opened) so the HTML pipeline un-escapes MDI macros only
+            // for ".mdi" and preserves \[\[blank]] literals authored in ".md"/".txt".
+            fileType: source.fileType,
+            chapterBreakLevel: source.chapterBreakLevel,
+            manuscriptGrid: settings.manuscriptGrid,
+          });
 
-        if (result === null || result === undefined) return;
+          notificationManager.dismiss(progressId);
 
-        if (typeof result === "object" && "success" in result && !result.success) {
-          notificationManager.error(
-            `PDFのエクスポートに失敗しました: ${(result as { error: string }).error}`,
+          if (result === null || result === undefined) return;
+
+          if (typeof result === "object" && "success" in result && !result.success) {
+            notificationManager.error(
+              `PDFのエクスポートに失敗しました: ${(result as { error: string }).error}`,
+            );
+            return;
+          }
+
+          notificationManager.success("PDFをエクスポートしました");
+        } catch (error) {
+          notificationManager.dismiss(progressId);
+          const message = error instanceof Error ? error.message : "不明なエラー";
+          notificationManager.error(`PDFのエクスポートに失敗しました: ${message}`);
+        }
+        return;
+      }
+
+      // Web path: browser print preview (static import — no await before window.open)
+      try {
+        const opened = await openWebPrintPreview(
+          source.content,
+          source.metadata,
+          settings,
+          source.fileType,
+          source.chapterBreakLevel,
+        );
+        if (!opened) {
+          notificationManager.warning(
+            "ポップアップがブロックされました。ブラウザの設定を確認してください。",
           );
           return;
         }
-
-        notificationManager.success("PDFをエクスポートしました");
+        // Close dialog — print preview is open. No success toast (browser print gives no result).
+        setExportDialogState(null);
       } catch (error) {
-        notificationManager.dismiss(progressId);
         const message = error instanceof Error ? error.message : "不明なエラー";
         notificationManager.error(`PDFのエクスポートに失敗しました: ${message}`);
       }
-      return;
-    }
-
-    // Web path: browser print preview (static import — no await before window.open)
-    try {
-      const opened = await openWebPrintPreview(
-        dialogState.content,
-        dialogState.metadata,
-        settings,
-        dialogState.fileType,
-      );
-      if (!opened) {
-        notificationManager.warning(
-          "ポップアップがブロックされました。ブラウザの設定を確認してください。",
-        );
-        return;
-      }
-      // Close dialog — print preview is open. No success toast (browser print gives no result).
-      setExportDialogState(null);
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "不明なエラー";
-      notificationManager.error(`PDFのエクスポートに失敗しました: ${message}`);
-    }
-  }, []);
+    },
+    [],
+  );
 
   const handlePrintConfirm = useCallback(
     async (settings: PdfExportSettings) => {
@@ -966,6 +1046,7 @@ function EditorPageContent() {
             // Pass the snapshotted file type so the HTML pipeline correctly
             // handles .md/.txt literals vs .mdi MDI macros (#1882).
             fileType: printDialogState.fileType,
+            manuscriptGrid: settings.manuscriptGrid,
           });
           if (
             result !== null &&
@@ -1007,149 +1088,160 @@ function EditorPageContent() {
     [printDialogState],
   );
 
-  const handleDocxExportConfirm = useCallback(async (settings: DocxExportSettings) => {
-    const dialogState = exportDialogStateRef.current;
-    if (!dialogState) return;
+  const handleDocxExportConfirm = useCallback(
+    async (settings: DocxExportSettings, source: ExportSource) => {
+      if (!exportDialogStateRef.current) return;
+
+      // Electron path: use IPC
+      if (window.electronAPI?.exportDOCX) {
+        setExportDialogState(null);
+
+        const progressId = notificationManager.showProgress("DOCXをエクスポート中...", {
+          type: "info",
+        });
+
+        try {
+          const result = await window.electronAPI.exportDOCX(source.content, {
+            metadata: source.metadata,
+            settings,
+            // Thread the source's snapshotted file type so the main-process
+            // generateDocx un-escapes macros only for ".mdi". Without this, the
+            // handler defaults to ".mdi" and silently drops author-written
+            // \[\[blank]] literals in ".md"/".txt" on the installed desktop app.
+            fileType: source.fileType,
+            chapterBreakLevel: source.chapterBreakLevel,
+          });
+
+          notificationManager.dismiss(progressId);
+
+          if (result === null || result === undefined) return;
+
+          if (typeof result === "object" && "success" in result && !result.success) {
+            notificationManager.error(
+              `DOCXのエクスポートに失敗しました: ${(result as { error: string }).error}`,
+            );
+            return;
+          }
 
-    // Electron path: use IPC
-    if (window.electronAPI?.exportDOCX) {
-      setExportDialogState(null);
+          notificationManager.success("DOCXをエクスポートしました");
+        } catch (error) {
+          notificationManager.dismiss(progressId);
+          const message = error instanceof Error ? error.message : "不明なエラー";
+          notificationManager.error(`DOCXのエクスポートに失敗しました: ${message}`);
+        }
+        return;
+      }
 
+      // Web path: generate DOCX blob and download
       const progressId = notificationManager.showProgress("DOCXをエクスポート中...", {
         type: "info",
       });
 
       try {
-        const result = await window.electronAPI.exportDOCX(dialogState.content, {
-          metadata: dialogState.metadata,
+        const { generateDocxBlob } = await import("@/lib/export/docx-exporter");
+        // Use the active tab's actual file type (snapshotted when the dialog
+        // opened) so macro un-escaping only applies to ".mdi" documents. Inferring
+        // from the title is wrong — the display title is extension-stripped, which
+        // would silently drop author-written \[\[blank]] literals in ".md"/".txt".
+        const blob = await generateDocxBlob(source.content, {
+          metadata: source.metadata,
           settings,
-          // Thread the active tab's snapshotted file type so the main-process
-          // generateDocx un-escapes macros only for ".mdi". Without this, the
-          // handler defaults to ".mdi" and silently drops author-written
-          // \[\[blank]] literals in ".md"/".txt" on the installed desktop app.
-          fileType: dialogState.fileType,
+          fileType: source.fileType,
+          chapterBreakLevel: source.chapterBreakLevel,
         });
+        const baseName = (source.metadata.title || "untitled").replace(/\.[^.]+$/, "");
+        const { saveBlobFile } = await import("@/lib/export/save-blob-file");
+        const saved = await saveBlobFile(blob, `${baseName}.docx`, false);
 
         notificationManager.dismiss(progressId);
 
-        if (result === null || result === undefined) return;
-
-        if (typeof result === "object" && "success" in result && !result.success) {
-          notificationManager.error(
-            `DOCXのエクスポートに失敗しました: ${(result as { error: string }).error}`,
-          );
-          return;
+        if (saved) {
+          setExportDialogState(null);
+          notificationManager.success("DOCXをエクスポートしました");
         }
-
-        notificationManager.success("DOCXをエクスポートしました");
       } catch (error) {
         notificationManager.dismiss(progressId);
         const message = error instanceof Error ? error.message : "不明なエラー";
         notificationManager.error(`DOCXのエクスポートに失敗しました: ${message}`);
       }
-      return;
-    }
+    },
+    [],
+  );
 
-    // Web path: generate DOCX blob and download
-    const progressId = notificationManager.showProgress("DOCXをエクスポート中...", {
-      type: "info",
-    });
+  const handleEpubExportConfirm = useCallback(
+    async (options: EpubExportOptions, source: ExportSource) => {
+      if (!exportDialogStateRef.current) return;
+
+      // Thread the source's snapshotted file type so the HTML pipeline
+      // un-escapes MDI macros only for ".mdi" and preserves \[\[blank]] literals
+      // authored in ".md"/".txt". A compiled project's chapter breaks split the
+      // book into one chapter file per part / chapter.
+      const epubOptions: EpubExportOptions = {
+        ...options,
+        fileType: source.fileType,
+        chapterBreakLevel: source.chapterBreakLevel,
+      };
 
-    try {
-      const { generateDocxBlob } = await import("@/lib/export/docx-exporter");
-      // Use the active tab's actual file type (snapshotted when the dialog
-      // opened) so macro un-escaping only applies to ".mdi" documents. Inferring
-      // from the title is wrong — the display title is extension-stripped, which
-      // would silently drop author-written \[\[blank]] literals in ".md"/".txt".
-      const blob = await generateDocxBlob(dialogState.content, {
-        metadata: dialogState.metadata,
-        settings,
-        fileType: dialogState.fileType,
-      });
-      const baseName = (dialogState.metadata.title || "untitled").replace(/\.[^.]+$/, "");
-      const { saveBlobFile } = await import("@/lib/export/save-blob-file");
-      const saved = await saveBlobFile(blob, `${baseName}.docx`, false);
+      // Electron path: use IPC
+      if (window.electronAPI?.exportEPUB) {
+        setExportDialogState(null);
 
-      notificationManager.dismiss(progressId);
+        const progressId = notificationManager.showProgress("EPUBをエクスポート中...", {
+          type: "info",
+        });
 
-      if (saved) {
-        setExportDialogState(null);
-        notificationManager.success("DOCXをエクスポートしました");
-      }
-    } catch (error) {
-      notificationManager.dismiss(progressId);
-      const message = error instanceof Error ? error.message : "不明なエラー";
-      notificationManager.error(`DOCXのエクスポートに失敗しました: ${message}`);
-    }
-  }, []);
+        try {
+          // Electron IPC serializes Uint8Array automatically
+          const result = await window.electronAPI.exportEPUB(source.content, epubOptions);
 
-  const handleEpubExportConfirm = useCallback(async (options: EpubExportOptions) => {
-    const dialogState = exportDialogStateRef.current;
-    if (!dialogState) return;
+          notificationManager.dismiss(progressId);
 
-    // Thread the active tab's snapshotted file type so the HTML pipeline
-    // un-escapes MDI macros only for ".mdi" and preserves \[\[blank]] literals
-    // authored in ".md"/".txt".
-    const epubOptions: EpubExportOptions = { ...options, fileType: dialogState.fileType };
+          if (result === null || result === undefined) return;
+
+          if (typeof result === "object" && "success" in result && !result.success) {
+            notificationManager.error(
+              `EPUBのエクスポートに失敗しました: ${(result as { error: string }).error}`,
+            );
+            return;
+          }
 
-    // Electron path: use IPC
-    if (window.electronAPI?.exportEPUB) {
-      setExportDialogState(null);
+          notificationManager.success("EPUBをエクスポートしました");
+        } catch (error) {
+          notificationManager.dismiss(progressId);
+          const message = error instanceof Error ? error.message : "不明なエラー";
+          notificationManager.error(`EPUBのエクスポートに失敗しました: ${message}`);
+        }
+        return;
+      }
 
+      // Web path: generate EPUB blob and download
       const progressId = notificationManager.showProgress("EPUBをエクスポート中...", {
         type: "info",
       });
 
       try {
-        // Electron IPC serializes Uint8Array automatically
-        const result = await window.electronAPI.exportEPUB(dialogState.content, epubOptions);
+        const { generateEpubBlob } = await import("@/lib/export/epub-web");
+        const blob = await generateEpubBlob(source.content, epubOptions);
+        const baseName = (options.metadata.title || "untitled")
+          .replace(/[<>:"/\\|?*]/g, "_")
+          .replace(/\.[^.]+$/, "");
+        const { saveBlobFile } = await import("@/lib/export/save-blob-file");
+        const saved = await saveBlobFile(blob, `${baseName}.epub`, false);
 
         notificationManager.dismiss(progressId);
 
-        if (result === null || result === undefined) return;
-
-        if (typeof result === "object" && "success" in result && !result.success) {
-          notificationManager.error(
-            `EPUBのエクスポートに失敗しました: ${(result as { error: string }).error}`,
-          );
-          return;
+        if (saved) {
+          setExportDialogState(null);
+          notificationManager.success("EPUBをエクスポートしました");
         }
-
-        notificationManager.success("EPUBをエクスポートしました");
       } catch (error) {
         notificationManager.dismiss(progressId);
         const message = error instanceof Error ? error.message : "不明なエラー";
         notificationManager.error(`EPUBのエクスポートに失敗しました: ${message}`);
       }
-      return;
-    }
-
-    // Web path: generate EPUB blob and download
-    const progressId = notificationManager.showProgress("EPUBをエクスポート中...", {
-      type: "info",
-    });
-
-    try {
-      const { generateEpubBlob } = await import("@/lib/export/epub-web");
-      const blob = await generateEpubBlob(dialogState.content, epubOptions);
-      const baseName = (options.metadata.title || "untitled")
-        .replace(/[<>:"/\\|?*]/g, "_")
-        .replace(/\.[^.]+$/, "");
-      const { saveBlobFile } = await import("@/lib/export/save-blob-file");
-      const saved = await saveBlobFile(blob, `${baseName}.epub`, false);
-
-      notificationManager.dismiss(progressId);
-
-      if (saved) {
-        setExportDialogState(null);
-        notificationManager.success("EPUBをエクスポートしました");
-      }
-    } catch (error) {
-      notificationManager.dismiss(progressId);
-      const message = error instanceof Error ? error.message : "不明なエラー";
-      notificationManager.error(`EPUBのエクスポートに失敗しました: ${message}`);
-    }
-  }, []);
+    },
+    [],
+  );
 
   const { exportAs, printDocument } = useExport({
     getContent: getExportContent,
@@ -1191,6 +1283,7 @@ function EditorPageContent() {
     onToggleCompactMode: () => toggleCompactModeRef.current(),
     onToggleWritingMode: () => toggleWritingModeRef.current(),
     onExport: (format) => void exportAs(format),
+    onImportAozora: () => void handleImportAozoraFile(),
     onPrint: () => printDocument(),
     editorView: editorViewInstance,
     fontScale,
@@ -1225,6 +1318,28 @@ function EditorPageContent() {
     setContent,
   });
 
+  const sceneBoardContextValue = useSceneBoard({
+    activeFilePath: isProjectMode(editorMode) ? (currentFile?.path ?? null) : null,
+    activeContent: content,
+    openProjectFile,
+    onChapterClick: handleChapterClick,
+  });
+
+  const manuscriptPaperContextValue = useMemo<ManuscriptPaperContextValue>(
+    () => ({
+      getSourceDocument: (sourceTabId) => {
+        const tab = tabs.find((t) => t.id === sourceTabId);
+        if (!tab || !isEditorTab(tab)) return null;
+        return {
+          fileName: tab.file?.name ?? `新規ファイル${tab.fileType}`,
+          content: tab.content,
+          fileType: tab.fileType,
+        };
+      },
+    }),
+    [tabs],
+  );
+
   // --- Electron IPC events hook ---
   useElectronEvents({
     isElectron,
@@ -1245,6 +1360,7 @@ function EditorPageContent() {
     autoCharsPerLine,
     hasActiveEditor: Boolean(activeEditorTab),
     handleOpenProject,
+    handleImportAozoraFile,
     handleOpenRecentProject,
     handleOpenAsProject,
     confirmBeforeAction: unsavedWarning.confirmBeforeAction,
@@ -1279,6 +1395,13 @@ function EditorPageContent() {
     isProjectMode(editorMode),
   );
 
+  // --- Writing goals, streaks and sessions ---
+  const writingProgress = useWritingProgress(
+    isProjectMode(editorMode) ? editorMode.projectId : null,
+    currentFile?.path ?? undefined,
+    { chars: visibleTextCharCount, pages: manuscriptPages },
+  );
+
   // --- Linting hook ---
   const {
     ruleRunner,
@@ -1304,6 +1427,15 @@ function EditorPageContent() {
   // dictionary-matching lint rules must not flag as 辞書外語.
   const knownTerms = useKnownTerms(editorMode);
 
+  // Project preferred-spelling table (.illusions/preferred-spellings.json)
+  // honoured by the 表記ゆれ rule.
+  const preferredSpellings = usePreferredSpellings(editorMode);
+  const preferredSpellingActions = usePreferredSpellingActions(editorMode);
+
+  // Project glossary (.illusions/glossary.json) for the 用語集 rule and the
+  // editor's term hover cards.
+  const glossaryEntries = useGlossary(editorMode);
+
   // Quick "add to user dictionary" action for 辞書外語 detections.
   const { addWordToUserDictionary } = useUserDictionaryActions(editorMode);
 
@@ -1344,6 +1476,37 @@ function EditorPageContent() {
       });
   }, [editorViewInstance, knownTerms]);
 
+  // Publish the preferred-spelling table to the 表記ゆれ rule and re-lint so
+  // the editor marks follow edits to the table.
+  useEffect(() => {
+    setPreferredSpellings(preferredSpellings);
+    refreshLinting();
+  }, [preferredSpellings, refreshLinting]);
+
+  // Publish the glossary to the 用語集 rule and the editor highlighting, then
+  // re-lint so variant marks follow edits to the glossary.
+  useEffect(() => {
+    setGlossaryEntries(glossaryEntries);
+    refreshLinting();
+  }, [glossaryEntries, refreshLinting]);
+
+  // Opt-in L3 pass: the AI client reviews L1/L2 issues and flags false positives.
+  useAiLintValidation(editorViewInstance, {
+    enabled: lintingEnabled && aiLintValidation,
+    falsePositiveAction: aiLintValidationAction,
+    modelKey: [
+      aiFeatureProviders["lint-validation"] ?? aiProvider,
+      aiBaseUrl,
+      aiModelId,
+      aiAnthropicModelId,
+      aiOllamaBaseUrl,
+      aiOllamaModelId,
+    ].join("|"),
+  });
+
+  // In-editor AI rewrite: snapshot the document before accepted changes are applied.
+  const handleCreateRestorePoint = useRestorePoint(editorMode, currentFile, "AI 書き換え前");
+
   // --- Lint handlers hook ---
   const {
     enrichedLintIssues,
@@ -1415,6 +1578,22 @@ function EditorPageContent() {
       () => setTopView(topView === "outline" ? "none" : "outline"),
       [setTopView, topView],
     ),
+    openCommandPalette: useCallback(() => setShowCommandPalette(true), [setShowCommandPalette]),
+  });
+
+  // Let the command palette run commands whose shortcut the native menu owns
+  useCommandFallbacks({ isElectron, handleMenuAction, newTab, closeTab, activeTabId });
+
+  const commandPaletteItems = useCommandPaletteItems({
+    isOpen: showCommandPalette,
+    isProject: isProjectMode(editorMode),
+    content,
+    openProjectFile,
+    onChapterClick: handleChapterClick,
+    lintingRuleConfigs,
+    onLintingRuleConfigsBatchChange: handleLintingRuleConfigsBatchChange,
+    correctionMode: correctionConfig.mode,
+    onCorrectionModeChange: handleCorrectionModeChange,
   });
 
   // Detect feature availability after mount to avoid SSR hydration mismatch
@@ -1600,7 +1779,10 @@ function EditorPageContent() {
     onFileRenamed: notifyFileRenamed,
     onFileDeleted: notifyFileDeleted,
     findTabsAffectedByDelete,
+    onCompareWithRevision: handleCompareWithRevision,
     incrementEditorKey,
+    onOpenRelationshipGraph: openRelationshipGraphTab,
+    onOpenSceneBoard: openSceneBoardTab,
     onWordSearch: (word: string) => {
       // 共有検索語へ反映し、フローティング検索窓を開く。
       setSearchTerm(word);
@@ -1641,28 +1823,27 @@ function EditorPageContent() {
       incrementEditorKey();
     },
     onCompareInEditor: setEditorDiff,
+    onCompareSnapshots: handleCompareSnapshots,
     lintIssues: enrichedLintIssues,
     onNavigateToIssue: handleNavigateToIssue,
     onApplyFix: handleApplyFix,
     onIgnoreCorrection: handleIgnoreCorrection,
     onAddToUserDictionary: handleAddToUserDictionary,
     dictEntryRuleIds,
+    onSetPreferredSpelling: preferredSpellingActions?.setPreferredSpelling,
+    onClearPreferredSpelling: preferredSpellingActions?.clearPreferredSpelling,
     onRefreshLinting: refreshLinting,
     isLinting,
     activeLintIssueIndex,
     onOpenLintingSettings: handleOpenLintingSettings,
     correctionMode: correctionConfig.mode,
-    onCorrectionModeChange: (modeId: CorrectionModeId) => {
-      const mode = CORRECTION_MODES[modeId];
-      handleCorrectionConfigChange({ mode: modeId, guidelines: [...mode.defaultGuidelines] });
-      // Pass the current configs so user rule-option overrides (#2048)
-      // survive the whole-map replace a mode switch performs.
-      handleLintingRuleConfigsBatchChange(
-        buildModeRuleConfigsFromRules(modeId, loadedRules, lintingRuleConfigs),
-      );
-    },
+    onCorrectionModeChange: handleCorrectionModeChange,
     switchToCorrectionsTrigger,
     previousDayStats,
+    writingProgress,
+    onOpenStatsDashboard: openStatsDashboardTab,
+    onOpenManuscriptPaper: openManuscriptPaperTab,
+    editorView: editorViewInstance,
   } as const;
 
   return (
@@ -1673,6 +1854,8 @@ function EditorPageContent() {
         providers={{
           diffTabContextValue,
           terminalTabContextValue,
+          sceneBoardContextValue,
+          manuscriptPaperContextValue,
           settings,
           settingsHandlers,
           ignoredCorrectionsContextValue,
@@ -1705,6 +1888,11 @@ function EditorPageContent() {
           setShowRubyDialog,
           rubySelectedText,
           handleApplyRuby,
+          commandPalette: {
+            isOpen: showCommandPalette,
+            onClose: () => setShowCommandPalette(false),
+            items: commandPaletteItems,
+          },
           exportDialog: {
             state: exportDialogState,
             onClose: () => setExportDialogState(null),
@@ -1714,6 +1902,10 @@ function EditorPageContent() {
             content: exportDialogState?.content ?? "",
             metadata: exportDialogState?.metadata ?? { title: "" },
             fileType: exportDialogState?.fileType,
+            projectMetadata: isProjectMode(editorMode)
+              ? { title: editorMode.name, author: editorMode.metadata.author }
+              : null,
+            unsavedContents: unsavedProjectContents,
           },
           printDialog: {
             state: printDialogState,
@@ -1805,6 +1997,7 @@ function EditorPageContent() {
           switchTab,
           updateTab,
           registerFlush,
+          handleCreateRestorePoint,
           registerWritingModeToggle: (toggle) => {
             toggleWritingModeRef.current = toggle ?? (() => {});
           },
@@ -8,8 +8,10 @@ import {
   // Book, // TODO: Outline feature — planned for v1.3.0
   Layers,
   BarChart3,
-  // Users, // TODO: Characters feature — planned for v1.3.0
+  Users,
+  LayoutGrid,
   BookOpen,
+  BookA,
   Folder,
   Terminal,
   UserCircle,
@@ -41,7 +43,9 @@ export type ActivityBarView =
   | "outline"
   | "wordfreq"
   | "characters"
+  | "charactermap"
   | "dictionary"
+  | "glossary"
   | "none";
 
 interface ActivityBarItem {
@@ -93,25 +97,36 @@ const DEFAULT_TOP_ITEMS: ActivityBarItem[] = [
 
 /** Bottom group: utilities and reference tools */
 const DEFAULT_BOTTOM_ITEMS: ActivityBarItem[] = [
-  // TODO: Characters feature — planned for v1.3.0
-  // {
-  //   id: "characters",
-  //   icon: Users,
-  //   label: "登場人物",
-  //   tooltip: "登場人物",
-  // },
+  {
+    id: "characters",
+    icon: Users,
+    label: "登場人物",
+    tooltip: "登場人物",
+  },
   {
     id: "dictionary",
     icon: BookOpen,
     label: "辞書",
     tooltip: "辞書",
   },
+  {
+    id: "glossary",
+    icon: BookA,
+    label: "用語集",
+    tooltip: "用語集",
+  },
   {
     id: "wordfreq",
     icon: BarChart3,
     label: "語彙統計",
     tooltip: "語彙統計",
   },
+  {
+    id: "charactermap",
+    icon: LayoutGrid,
+    label: "登場マップ",
+    tooltip: "登場マップ",
+  },
 ];
 
 /** Settings item — rendered separately (non-sortable, always last) */
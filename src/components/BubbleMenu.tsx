@@ -15,9 +15,13 @@ import {
   Heading3,
   Code,
   RemoveFormatting,
+  Sparkles,
+  Loader2,
 } from "lucide-react";
 import clsx from "clsx";
 
+import { REWRITE_INTENTS } from "@/lib/ai/rewrite-intents";
+import type { RewriteIntent } from "@/lib/ai/rewrite-intents";
 import type { EditorSelectionState } from "@/lib/editor-page/use-selection-tracking";
 
 interface BubbleMenuProps {
@@ -25,6 +29,10 @@ interface BubbleMenuProps {
   scrollContainerRef: RefObject<HTMLDivElement | null>;
   onFormat: (format: FormatType, level?: number) => void;
   isVertical?: boolean;
+  /** Request an AI rewrite of the selection; omit to hide the AI button */
+  onRewrite?: (intent: RewriteIntent) => void;
+  /** A rewrite request is in flight */
+  isRewriting?: boolean;
 }
 
 export type FormatType =
@@ -43,10 +51,13 @@ export default function BubbleMenu({
   scrollContainerRef,
   onFormat,
   isVertical = false,
+  onRewrite,
+  isRewriting = false,
 }: BubbleMenuProps) {
   const menuRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState({ top: -9999, left: -9999 });
   const [showHeadingDropdown, setShowHeadingDropdown] = useState(false);
+  const [showRewriteDropdown, setShowRewriteDropdown] = useState(false);
   const [mounted, setMounted] = useState(false);
 
   // Portal needs to wait for client-side mount
@@ -112,17 +123,18 @@ export default function BubbleMenu({
     const handleClickOutside = (e: MouseEvent) => {
       if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
         setShowHeadingDropdown(false);
+        setShowRewriteDropdown(false);
       }
     };
 
-    if (showHeadingDropdown) {
+    if (showHeadingDropdown || showRewriteDropdown) {
       document.addEventListener("mousedown", handleClickOutside);
     }
 
     return () => {
       document.removeEventListener("mousedown", handleClickOutside);
     };
-  }, [showHeadingDropdown]);
+  }, [showHeadingDropdown, showRewriteDropdown]);
 
   const buttons: Array<{
     icon: typeof Bold;
@@ -215,6 +227,52 @@ export default function BubbleMenu({
           )}
         </button>
       ))}
+
+      {/* AI 書き換え */}
+      {onRewrite && (
+        <>
+          <div className={clsx(isVertical ? "h-px w-6" : "w-px h-6", "bg-border")} />
+          <div className="relative">
+            <button
+              onClick={() => setShowRewriteDropdown(!showRewriteDropdown)}
+              disabled={isRewriting}
+              className={clsx(
+                "p-2 rounded hover:bg-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                showRewriteDropdown && "bg-hover",
+              )}
+              title={isRewriting ? "AI が書き換え案を作成中…" : "AI で書き換え"}
+            >
+              {isRewriting ? (
+                <Loader2 className="w-4 h-4 text-foreground-secondary animate-spin" />
+              ) : (
+                <Sparkles className="w-4 h-4 text-foreground-secondary" />
+              )}
+            </button>
+
+            {showRewriteDropdown && (
+              <div
+                className={clsx(
+                  "absolute bg-background-elevated rounded-lg shadow-lg border border-border py-1 min-w-[160px]",
+                  isVertical ? "left-full top-0 ml-1" : "top-full right-0 mt-1",
+                )}
+              >
+                {REWRITE_INTENTS.map((intent) => (
+                  <button
+                    key={intent.id}
+                    onClick={() => {
+                      onRewrite(intent);
+                      setShowRewriteDropdown(false);
+                    }}
+                    className="w-full px-3 py-2 hover:bg-hover transition-colors text-left text-sm text-foreground-secondary whitespace-nowrap"
+                  >
+                    {intent.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
     </div>
   );
 
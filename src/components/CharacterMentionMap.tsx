@@ -0,0 +1,191 @@
+"use client";
+
+import { memo, useEffect, useState } from "react";
+import { LoaderCircle } from "lucide-react";
+import clsx from "clsx";
+
+import { highlightCharacterMentions } from "@/lib/editor-page/character-mention-editor";
+import { useCharacterMentions } from "@/lib/editor-page/use-character-mentions";
+import { loadCharactersForMode, subscribeCharacterChange } from "@/lib/project/character-service";
+import type { Character, EditorMode } from "@/lib/project/project-types";
+import type { EditorView } from "@milkdown/prose/view";
+
+interface CharacterMentionMapProps {
+  /** エディタのテキストコンテンツ */
+  content: string;
+  editorMode: EditorMode;
+  /** Editor to jump into when a cell is clicked */
+  editorView: EditorView | null;
+}
+
+/** Heat colour of a cell: mentions relative to the busiest cell. */
+function cellColor(count: number, max: number): string | undefined {
+  if (count === 0 || max === 0) return undefined;
+  const alpha = 0.15 + 0.85 * (count / max);
+  return `rgba(74, 144, 226, ${alpha.toFixed(2)})`;
+}
+
+/**
+ * 登場マップ: characters × chapters heatmap of name mentions, with first / last
+ * appearance and dialogue counts. Clicking a cell highlights that character's
+ * mentions in the chapter.
+ */
+function CharacterMentionMap({ content, editorMode, editorView }: CharacterMentionMapProps) {
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Load the sheets and reload whenever the 登場人物 panel saves.
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      loadCharactersForMode(editorMode)
+        .then((loaded) => {
+          if (cancelled) return;
+          setCharacters(loaded);
+          setLoadError(null);
+        })
+        .catch((err: unknown) => {
+          console.error("[CharacterMentionMap] Failed to load characters:", err);
+          if (!cancelled) setLoadError("登場人物を読み込めませんでした");
+        });
+    };
+    load();
+    const unsubscribe = subscribeCharacterChange(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [editorMode]);
+
+  const { index, isAnalyzing } = useCharacterMentions(content, characters);
+  const [jumpMiss, setJumpMiss] = useState<string | null>(null);
+
+  const maxCount = index ? Math.max(0, ...index.rows.flatMap((row) => row.counts)) : 0;
+  const chapterLabel = (i: number) => index?.chapters[i]?.title ?? "";
+
+  const handleCellClick = (character: Character, chapterIndex: number) => {
+    const chapter = index?.chapters[chapterIndex];
+    if (!chapter) return;
+    const found = highlightCharacterMentions(editorView, character, chapterIndex, chapter.level);
+    setJumpMiss(found === 0 ? `${character.name} が「${chapter.title}」に見つかりません` : null);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      {/* ヘッダー */}
+      <div className="flex-shrink-0 px-3 py-2 border-b border-border">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-medium text-foreground">登場マップ</h2>
+          {isAnalyzing && (
+            <LoaderCircle className="w-4 h-4 text-foreground-tertiary animate-spin" />
+          )}
+        </div>
+        <p className="mt-1 text-xs text-foreground-tertiary">
+          章ごとの言及数。セルをクリックすると本文の該当箇所を表示します。
+        </p>
+      </div>
+
+      {(loadError ?? jumpMiss) && (
+        <div className="px-3 py-2 text-xs text-red-500 bg-red-500/10">{loadError ?? jumpMiss}</div>
+      )}
+
+      <div className="flex-1 overflow-auto">
+        {characters.length === 0 ? (
+          <div className="px-3 py-4 text-center text-xs text-foreground-tertiary">
+            登場人物パネルで人物を追加すると、ここに出現箇所が表示されます
+          </div>
+        ) : !index || index.chapters.length === 0 ? (
+          <div className="px-3 py-4 text-center text-xs text-foreground-tertiary">
+            {content.trim() ? "解析中…" : "テキストを入力してください"}
+          </div>
+        ) : (
+          <table className="text-xs border-separate border-spacing-0.5 p-2">
+            <thead>
+              <tr>
+                <th className="sticky left-0 bg-background" />
+                {index.chapters.map((chapter, i) => (
+                  <th
+                    key={i}
+                    title={chapter.title}
+                    className="min-w-[1.75rem] font-normal text-foreground-tertiary"
+                  >
+                    {i + 1}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {index.rows.map((row) => {
+                const character = characters.find((c) => c.id === row.characterId);
+                if (!character) return null;
+                return (
+                  <tr key={row.characterId}>
+                    <th
+                      scope="row"
+                      className="sticky left-0 bg-background pr-2 text-left font-normal text-foreground whitespace-nowrap"
+                      title={
+                        row.firstChapter === null
+                          ? "本文に登場しません"
+                          : `初出: ${chapterLabel(row.firstChapter)} / 最終: ${chapterLabel(row.lastChapter ?? row.firstChapter)}`
+                      }
+                    >
+                      {row.name}
+                      <span className="ml-1 text-foreground-tertiary">{row.total}</span>
+                    </th>
+                    {row.counts.map((count, i) => (
+                      <td
+                        key={i}
+                        onClick={count > 0 ? () => handleCellClick(character, i) : undefined}
+                        title={`${chapterLabel(i)}: ${count}回${row.dialogue[i] > 0 ? `（台詞 ${row.dialogue[i]}）` : ""}`}
+                        className={clsx(
+                          "h-6 rounded text-center border border-border",
+                          count > 0 ? "cursor-pointer hover:ring-1 hover:ring-accent" : "",
+                          count / (maxCount || 1) > 0.6 ? "text-white" : "text-foreground",
+                        )}
+                        style={{ backgroundColor: cellColor(count, maxCount) }}
+                      >
+                        {count > 0 ? count : ""}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {/* 登場・台詞の要約 */}
+        {index && index.rows.length > 0 && index.chapters.length > 0 && (
+          <div className="px-3 pb-3 divide-y divide-border">
+            {index.rows.map((row) => (
+              <div key={row.characterId} className="py-1.5 text-xs">
+                <span className="text-foreground">{row.name}</span>
+                {row.firstChapter === null ? (
+                  <span className="ml-2 text-foreground-tertiary">本文に登場しません</span>
+                ) : (
+                  <span className="ml-2 text-foreground-tertiary">
+                    初出: {chapterLabel(row.firstChapter)}／最終:{" "}
+                    {chapterLabel(row.lastChapter ?? row.firstChapter)}／台詞:{" "}
+                    {row.dialogue.reduce((sum, n) => sum + n, 0)}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* 未登録の人名 */}
+        {index && index.candidates.length > 0 && (
+          <div className="px-3 pb-3">
+            <h3 className="text-xs font-medium text-foreground-secondary mb-1">未登録の人名</h3>
+            <p className="text-xs text-foreground-tertiary">
+              {index.candidates.map((c) => `${c.name}（${c.count}）`).join("、")}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default memo(CharacterMentionMap);
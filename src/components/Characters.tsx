@@ -1,90 +1,166 @@
 "use client";
 
 import { useState, useRef, useCallback, useEffect, memo } from "react";
-import { Plus, X, Sparkles, Loader2 } from "lucide-react";
+import type { RefObject } from "react";
+import { Plus, X, Sparkles, Loader2, Network } from "lucide-react";
 
 import { useCharacterExtractionSettings } from "@/contexts/EditorSettingsContext";
 import { getNlpClient } from "@/lib/nlp-client/nlp-client";
 import { MdiDocument } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
-import { fetchAppState, persistAppState } from "@/lib/storage/app-state-manager";
+import { getCharacterService, subscribeCharacterChange } from "@/lib/project/character-service";
+import { isProjectMode, isStandaloneMode } from "@/lib/project/project-types";
+import type { EditorMode } from "@/lib/project/project-types";
 import CharacterCard from "./Characters/CharacterCard";
 import NewCharacterForm from "./Characters/NewCharacterForm";
 import type { Character } from "./Characters/types";
 
+const EMPTY_NEW_CHARACTER: Partial<Character> = {
+  name: "",
+  description: "",
+  appearance: "",
+  personality: "",
+  relationshipNotes: "",
+  firstAppearance: "",
+  tags: [],
+};
+
+/** Change-notification origin of saves made from this panel. */
+const PANEL_ORIGIN = "characters-panel";
+
 interface CharactersProps {
   content?: string;
+  editorMode?: EditorMode;
+  /** Open the 人物関係図 tab */
+  onOpenRelationshipGraph?: () => void;
+}
+
+interface CharacterListProps {
+  content?: string;
+  onOpenRelationshipGraph?: () => void;
+  /** Project whose .illusions/characters.json backs the list */
+  projectId: string | null;
+  /** Standalone file key (full path on Electron, file name on Web) */
+  standaloneKey: string | null;
+  /** The debounced save not yet written; flushed when the panel closes */
+  pendingSaveRef: RefObject<(() => void) | null>;
 }
 
-function Characters({ content }: CharactersProps) {
+/**
+ * Remounts the list per project / file so a pending save never lands in the
+ * store of the document opened next. Closing the panel writes the pending
+ * save instead of dropping it.
+ */
+function Characters({ content, editorMode = null, onOpenRelationshipGraph }: CharactersProps) {
+  const projectId = isProjectMode(editorMode) ? editorMode.projectId : null;
+  // Use full path (Electron) to avoid basename collisions between same-named files in
+  // different directories. Fall back to fileName on Web where filePath is not available.
+  const standaloneKey = isStandaloneMode(editorMode)
+    ? (editorMode.filePath ?? editorMode.fileName)
+    : null;
+  const listKey = projectId
+    ? `project:${projectId}`
+    : standaloneKey
+      ? `file:${standaloneKey}`
+      : "unsaved";
+
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- flush whatever is pending at unmount
+    return () => pendingSaveRef.current?.();
+  }, []);
+
+  return (
+    <CharacterList
+      key={listKey}
+      content={content}
+      onOpenRelationshipGraph={onOpenRelationshipGraph}
+      projectId={projectId}
+      standaloneKey={standaloneKey}
+      pendingSaveRef={pendingSaveRef}
+    />
+  );
+}
+
+function CharacterList({
+  content,
+  onOpenRelationshipGraph,
+  projectId,
+  standaloneKey,
+  pendingSaveRef,
+}: CharacterListProps) {
   const { characterExtractionBatchSize, characterExtractionConcurrency } =
     useCharacterExtractionSettings();
 
   const [characters, setCharacters] = useState<Character[]>([]);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [newCharacter, setNewCharacter] = useState<Partial<Character>>({
-    name: "",
-    description: "",
-    appearance: "",
-    personality: "",
-    relationships: "",
-  });
-
-  // Cache the project ID resolved during restore so the persist effect uses the same key.
-  const projectIdRef = useRef<string>("__standalone__");
-
-  // Restore characters from persistent storage on mount.
-  // Reads from charactersByProject[projectId] and falls back to the legacy
-  // characters field for one-time migration.
+  const [newCharacter, setNewCharacter] = useState<Partial<Character>>(EMPTY_NEW_CHARACTER);
+
+  const hasStore = projectId !== null || standaloneKey !== null;
+  /** The list as loaded, so restoring it does not immediately write it back. */
+  const loadedCharactersRef = useRef<Character[] | null>(null);
+
+  // Restore characters on mount, and again whenever another view (the
+  // relationship graph) saves them. The service migrates the old AppState
+  // buckets into the project / file store the first time.
   useEffect(() => {
-    const restore = async () => {
-      try {
-        const appState = await fetchAppState();
-        const projectId = appState?.currentProjectId ?? "__standalone__";
-        projectIdRef.current = projectId;
-
-        const perProject = appState?.charactersByProject?.[projectId];
-        if (perProject && perProject.length > 0) {
-          // Use the per-project data if it already exists.
-          setCharacters(perProject);
-        } else if (appState?.characters && appState.characters.length > 0) {
-          // One-time migration: move legacy flat array into per-project bucket.
-          setCharacters(appState.characters);
-        }
-      } catch (err) {
-        console.error("Failed to restore characters:", err);
-      } finally {
-        setIsLoaded(true);
-      }
+    if (!hasStore) return;
+    let cancelled = false;
+    const load = () => {
+      const service = getCharacterService();
+      const loading = projectId
+        ? service.loadCharacters(projectId)
+        : service.loadCharactersStandalone(standaloneKey ?? "");
+      loading
+        .then((loaded) => {
+          if (cancelled) return;
+          loadedCharactersRef.current = loaded;
+          setCharacters(loaded);
+          setIsLoaded(true);
+        })
+        .catch((err: unknown) => {
+          // Stay unloaded so edits never overwrite a file we could not read.
+          console.error("Failed to restore characters:", err);
+          if (!cancelled) setLoadError("登場人物を読み込めませんでした");
+        });
     };
-    void restore();
-  }, []);
+    load();
+    const unsubscribe = subscribeCharacterChange((origin) => {
+      if (origin !== PANEL_ORIGIN) load();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [hasStore, projectId, standaloneKey]);
 
-  // Persist characters to per-project storage on change (debounced).
+  // A save left pending by the list of the previous project / file is dropped.
   useEffect(() => {
-    if (!isLoaded) return; // skip initial empty state
-
-    const timer = setTimeout(() => {
-      const projectId = projectIdRef.current;
-      void (async () => {
-        try {
-          const appState = await fetchAppState();
-          await persistAppState({
-            charactersByProject: {
-              ...appState?.charactersByProject,
-              [projectId]: characters,
-            },
-          });
-        } catch (err) {
-          console.error("Failed to persist characters:", err);
-        }
-      })();
-    }, 500);
+    pendingSaveRef.current = null;
+  }, [pendingSaveRef]);
+
+  // Persist characters on change (debounced).
+  useEffect(() => {
+    if (!isLoaded || characters === loadedCharactersRef.current) return;
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      const service = getCharacterService();
+      const saving = projectId
+        ? service.saveCharacters(characters, PANEL_ORIGIN)
+        : service.saveCharactersStandalone(standaloneKey ?? "", characters, PANEL_ORIGIN);
+      saving.catch((err: unknown) => {
+        console.error("Failed to persist characters:", err);
+      });
+    };
+    pendingSaveRef.current = save;
+    const timer = setTimeout(save, 500);
 
     return () => clearTimeout(timer);
-  }, [characters, isLoaded]);
+  }, [characters, isLoaded, projectId, standaloneKey, pendingSaveRef]);
 
   // Extraction state
   const [isExtracting, setIsExtracting] = useState(false);
@@ -95,28 +171,34 @@ function Characters({ content }: CharactersProps) {
     if (!newCharacter.name?.trim()) return;
 
     const character: Character = {
-      id: Date.now().toString(),
+      id: crypto.randomUUID(),
       name: newCharacter.name.trim(),
       aliases: [],
       description: newCharacter.description?.trim() || "",
       appearance: newCharacter.appearance?.trim() || "",
       personality: newCharacter.personality?.trim() || "",
-      relationships: newCharacter.relationships?.trim() || "",
+      relationships: [],
+      relationshipNotes: newCharacter.relationshipNotes?.trim() || undefined,
+      firstAppearance: newCharacter.firstAppearance?.trim() || undefined,
+      tags: newCharacter.tags && newCharacter.tags.length > 0 ? newCharacter.tags : undefined,
     };
 
     setCharacters((prev) => [...prev, character]);
-    setNewCharacter({
-      name: "",
-      description: "",
-      appearance: "",
-      personality: "",
-      relationships: "",
-    });
+    setNewCharacter(EMPTY_NEW_CHARACTER);
     setIsAddingNew(false);
   }, [newCharacter]);
 
   const handleDeleteCharacter = useCallback((id: string) => {
-    setCharacters((prev) => prev.filter((c) => c.id !== id));
+    // Drop the relationships pointing at the deleted character as well.
+    setCharacters((prev) =>
+      prev
+        .filter((c) => c.id !== id)
+        .map((c) =>
+          c.relationships.some((r) => r.targetId === id)
+            ? { ...c, relationships: c.relationships.filter((r) => r.targetId !== id) }
+            : c,
+        ),
+    );
     setExpandedId((prev) => (prev === id ? null : prev));
     setEditingId((prev) => (prev === id ? null : prev));
   }, []);
@@ -127,13 +209,7 @@ function Characters({ content }: CharactersProps) {
 
   const handleCancelAdd = useCallback(() => {
     setIsAddingNew(false);
-    setNewCharacter({
-      name: "",
-      description: "",
-      appearance: "",
-      personality: "",
-      relationships: "",
-    });
+    setNewCharacter(EMPTY_NEW_CHARACTER);
   }, []);
 
   const toggleExpand = useCallback((id: string) => {
@@ -169,13 +245,13 @@ function Characters({ content }: CharactersProps) {
 
       const newNames = Array.from(properNouns.keys());
       const newChars: Character[] = newNames.map((name) => ({
-        id: Date.now().toString() + Math.random(),
+        id: crypto.randomUUID(),
         name,
         aliases: [],
         description: "",
         appearance: "",
         personality: "",
-        relationships: "",
+        relationships: [],
       }));
 
       if (newChars.length > 0) {
@@ -203,13 +279,24 @@ function Characters({ content }: CharactersProps) {
       {/* Header */}
       <div className="p-4 border-b border-border flex items-center justify-between">
         <h2 className="text-lg font-semibold text-foreground">登場人物</h2>
-        <button
-          onClick={() => setIsAddingNew(true)}
-          className="p-1.5 hover:bg-hover rounded-md text-foreground-secondary hover:text-foreground transition-colors"
-          title="新しい人物を追加"
-        >
-          <Plus className="w-4 h-4" />
-        </button>
+        <div className="flex items-center gap-1">
+          {onOpenRelationshipGraph && hasStore && (
+            <button
+              onClick={onOpenRelationshipGraph}
+              className="p-1.5 hover:bg-hover rounded-md text-foreground-secondary hover:text-foreground transition-colors"
+              title="人物関係図を開く"
+            >
+              <Network className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            onClick={() => setIsAddingNew(true)}
+            className="p-1.5 hover:bg-hover rounded-md text-foreground-secondary hover:text-foreground transition-colors"
+            title="新しい人物を追加"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
       </div>
 
       {/* Content */}
@@ -236,6 +323,13 @@ function Characters({ content }: CharactersProps) {
           </button>
         )}
 
+        {loadError && <p className="text-xs text-danger">{loadError}</p>}
+        {!hasStore && (
+          <p className="text-xs text-foreground-tertiary">
+            ファイルを保存すると登場人物も保存されます
+          </p>
+        )}
+
         {/* Extraction error banner */}
         {extractionError && (
           <div className="flex items-center justify-between bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg px-3 py-2">
@@ -270,6 +364,7 @@ function Characters({ content }: CharactersProps) {
             <CharacterCard
               key={character.id}
               character={character}
+              characters={characters}
               editingId={editingId}
               expandedId={expandedId}
               onToggleExpand={toggleExpand}
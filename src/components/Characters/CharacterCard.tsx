@@ -1,10 +1,28 @@
 "use client";
 
-import { Trash2, Edit2, Check } from "lucide-react";
-import type { Character } from "./types";
+import { useState } from "react";
+import { Trash2, Edit2, Check, Plus, X } from "lucide-react";
+import {
+  formatTags,
+  parseTags,
+  RELATIONSHIP_DIRECTION_ARROWS,
+  RELATIONSHIP_DIRECTION_LABELS,
+} from "./character-fields";
+import { isPortraitDataUrl, readPortrait } from "./portrait";
+import type {
+  Character,
+  CharacterCustomField,
+  CharacterRelationship,
+  RelationshipDirection,
+} from "./types";
+
+const INPUT_CLASS =
+  "w-full px-2 py-1.5 bg-background-elevated border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent";
 
 interface CharacterCardProps {
   character: Character;
+  /** All characters, for choosing relationship targets */
+  characters: Character[];
   editingId: string | null;
   expandedId: string | null;
   onToggleExpand: (id: string) => void;
@@ -15,6 +33,7 @@ interface CharacterCardProps {
 
 export default function CharacterCard({
   character,
+  characters,
   editingId,
   expandedId,
   onToggleExpand,
@@ -24,6 +43,30 @@ export default function CharacterCard({
 }: CharacterCardProps) {
   const isExpanded = expandedId === character.id;
   const isEditing = editingId === character.id;
+  const [portraitError, setPortraitError] = useState<string | null>(null);
+  const customFields = character.customFields ?? [];
+  const others = characters.filter((c) => c.id !== character.id);
+  const nameOf = (id: string) => characters.find((c) => c.id === id)?.name ?? "（削除された人物）";
+
+  const handlePortraitChange = async (file: File | undefined) => {
+    if (!file) return;
+    setPortraitError(null);
+    try {
+      onUpdate(character.id, { portrait: await readPortrait(file) });
+    } catch (err) {
+      setPortraitError(err instanceof Error ? err.message : "画像を読み込めませんでした");
+    }
+  };
+
+  const updateCustomFields = (fields: CharacterCustomField[]) => {
+    onUpdate(character.id, { customFields: fields });
+  };
+
+  const updateRelationship = (id: string, updates: Partial<CharacterRelationship>) => {
+    onUpdate(character.id, {
+      relationships: character.relationships.map((r) => (r.id === id ? { ...r, ...updates } : r)),
+    });
+  };
 
   return (
     <div className="bg-background-elevated border border-border rounded-lg overflow-hidden">
@@ -33,6 +76,14 @@ export default function CharacterCard({
         onClick={() => onToggleExpand(character.id)}
       >
         <div className="flex items-start justify-between">
+          {isPortraitDataUrl(character.portrait) && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={character.portrait}
+              alt=""
+              className="w-10 h-10 mr-2 rounded-full object-cover flex-shrink-0"
+            />
+          )}
           <div className="flex-1 min-w-0">
             <h3 className="font-semibold text-foreground truncate">{character.name}</h3>
             {character.aliases.length > 0 && (
@@ -45,6 +96,18 @@ export default function CharacterCard({
                 {character.description}
               </p>
             )}
+            {character.tags && character.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {character.tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="px-1.5 py-0.5 rounded bg-accent/10 text-accent text-[11px]"
+                  >
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           <div className="flex gap-1 ml-2" onClick={(e) => e.stopPropagation()}>
             <button
@@ -82,10 +145,36 @@ export default function CharacterCard({
                   type="text"
                   value={character.name}
                   onChange={(e) => onUpdate(character.id, { name: e.target.value })}
-                  className="w-full px-2 py-1.5 bg-background-elevated border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent"
+                  className={INPUT_CLASS}
                 />
               </div>
 
+              <div>
+                <label className="text-xs font-medium text-foreground-secondary mb-1 block">
+                  肖像
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg,image/webp"
+                    onChange={(e) => {
+                      void handlePortraitChange(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                    className="flex-1 min-w-0 text-xs text-foreground-secondary"
+                  />
+                  {character.portrait && (
+                    <button
+                      onClick={() => onUpdate(character.id, { portrait: undefined })}
+                      className="text-xs text-foreground-tertiary hover:text-danger"
+                    >
+                      削除
+                    </button>
+                  )}
+                </div>
+                {portraitError && <p className="text-xs text-danger mt-1">{portraitError}</p>}
+              </div>
+
               <div>
                 <label className="text-xs font-medium text-foreground-secondary mb-1 block">
                   説明
@@ -98,6 +187,32 @@ export default function CharacterCard({
                 />
               </div>
 
+              <div>
+                <label className="text-xs font-medium text-foreground-secondary mb-1 block">
+                  初登場
+                </label>
+                <input
+                  type="text"
+                  value={character.firstAppearance ?? ""}
+                  onChange={(e) => onUpdate(character.id, { firstAppearance: e.target.value })}
+                  placeholder="例: 第一章 駅のホーム"
+                  className={INPUT_CLASS}
+                />
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-foreground-secondary mb-1 block">
+                  タグ（読点区切り）
+                </label>
+                <input
+                  type="text"
+                  defaultValue={formatTags(character.tags)}
+                  onBlur={(e) => onUpdate(character.id, { tags: parseTags(e.target.value) })}
+                  placeholder="例: 主人公、高校生"
+                  className={INPUT_CLASS}
+                />
+              </div>
+
               <div>
                 <label className="text-xs font-medium text-foreground-secondary mb-1 block">
                   外見
@@ -124,15 +239,171 @@ export default function CharacterCard({
 
               <div>
                 <label className="text-xs font-medium text-foreground-secondary mb-1 block">
-                  関係性
+                  関係
+                </label>
+                <div className="space-y-1.5">
+                  {character.relationships.map((rel) => (
+                    <div key={rel.id} className="space-y-1 p-1.5 border border-border rounded">
+                      <div className="flex items-center gap-1">
+                        <select
+                          value={rel.targetId}
+                          onChange={(e) => updateRelationship(rel.id, { targetId: e.target.value })}
+                          className={`${INPUT_CLASS} flex-1`}
+                        >
+                          {!others.some((c) => c.id === rel.targetId) && (
+                            <option value={rel.targetId}>{nameOf(rel.targetId)}</option>
+                          )}
+                          {others.map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.name}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={rel.direction}
+                          onChange={(e) =>
+                            updateRelationship(rel.id, {
+                              direction: e.target.value as RelationshipDirection,
+                            })
+                          }
+                          className={`${INPUT_CLASS} w-28`}
+                        >
+                          {(
+                            Object.keys(RELATIONSHIP_DIRECTION_LABELS) as RelationshipDirection[]
+                          ).map((d) => (
+                            <option key={d} value={d}>
+                              {RELATIONSHIP_DIRECTION_LABELS[d]}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() =>
+                            onUpdate(character.id, {
+                              relationships: character.relationships.filter((r) => r.id !== rel.id),
+                            })
+                          }
+                          className="p-1 hover:bg-hover rounded text-foreground-tertiary hover:text-danger"
+                          title="関係を削除"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                      <input
+                        type="text"
+                        value={rel.label}
+                        onChange={(e) => updateRelationship(rel.id, { label: e.target.value })}
+                        placeholder="関係（例: 幼なじみ）"
+                        className={INPUT_CLASS}
+                      />
+                      <input
+                        type="text"
+                        value={rel.note ?? ""}
+                        onChange={(e) =>
+                          updateRelationship(rel.id, { note: e.target.value || undefined })
+                        }
+                        placeholder="メモ"
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                  ))}
+                  {others.length > 0 ? (
+                    <button
+                      onClick={() =>
+                        onUpdate(character.id, {
+                          relationships: [
+                            ...character.relationships,
+                            {
+                              id: crypto.randomUUID(),
+                              targetId: others[0].id,
+                              label: "",
+                              direction: "forward",
+                            },
+                          ],
+                        })
+                      }
+                      className="flex items-center gap-1 text-xs text-foreground-secondary hover:text-foreground"
+                    >
+                      <Plus className="w-3 h-3" />
+                      関係を追加
+                    </button>
+                  ) : (
+                    <p className="text-xs text-foreground-tertiary">
+                      ほかの人物を追加すると関係を設定できます
+                    </p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-foreground-secondary mb-1 block">
+                  関係性メモ
                 </label>
                 <textarea
-                  value={character.relationships}
-                  onChange={(e) => onUpdate(character.id, { relationships: e.target.value })}
+                  value={character.relationshipNotes ?? ""}
+                  onChange={(e) => onUpdate(character.id, { relationshipNotes: e.target.value })}
                   className="w-full px-2 py-1.5 bg-background-elevated border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent resize-none"
                   rows={2}
                 />
               </div>
+
+              <div>
+                <label className="text-xs font-medium text-foreground-secondary mb-1 block">
+                  カスタム項目
+                </label>
+                <div className="space-y-1.5">
+                  {customFields.map((field) => (
+                    <div key={field.id} className="flex items-center gap-1">
+                      <input
+                        type="text"
+                        value={field.label}
+                        onChange={(e) =>
+                          updateCustomFields(
+                            customFields.map((f) =>
+                              f.id === field.id ? { ...f, label: e.target.value } : f,
+                            ),
+                          )
+                        }
+                        placeholder="項目名"
+                        className={`${INPUT_CLASS} w-1/3`}
+                      />
+                      <input
+                        type="text"
+                        value={field.value}
+                        onChange={(e) =>
+                          updateCustomFields(
+                            customFields.map((f) =>
+                              f.id === field.id ? { ...f, value: e.target.value } : f,
+                            ),
+                          )
+                        }
+                        placeholder="内容"
+                        className={`${INPUT_CLASS} flex-1`}
+                      />
+                      <button
+                        onClick={() =>
+                          updateCustomFields(customFields.filter((f) => f.id !== field.id))
+                        }
+                        className="p-1 hover:bg-hover rounded text-foreground-tertiary hover:text-danger"
+                        title="項目を削除"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() =>
+                      updateCustomFields([
+                        ...customFields,
+                        { id: crypto.randomUUID(), label: "", value: "" },
+                      ])
+                    }
+                    className="flex items-center gap-1 text-xs text-foreground-secondary hover:text-foreground"
+                  >
+                    <Plus className="w-3 h-3" />
+                    項目を追加
+                  </button>
+                </div>
+              </div>
             </div>
           ) : (
             // View Mode
@@ -147,6 +418,13 @@ export default function CharacterCard({
                 </button>
               </div>
 
+              {character.firstAppearance && (
+                <div>
+                  <h4 className="text-xs font-semibold text-foreground-secondary mb-1">初登場</h4>
+                  <p className="text-sm text-foreground">{character.firstAppearance}</p>
+                </div>
+              )}
+
               {character.appearance && (
                 <div>
                   <h4 className="text-xs font-semibold text-foreground-secondary mb-1">外見</h4>
@@ -165,14 +443,43 @@ export default function CharacterCard({
                 </div>
               )}
 
-              {character.relationships && (
+              {character.relationships.length > 0 && (
+                <div>
+                  <h4 className="text-xs font-semibold text-foreground-secondary mb-1">関係</h4>
+                  <ul className="space-y-0.5">
+                    {character.relationships.map((rel) => (
+                      <li key={rel.id} className="text-sm text-foreground" title={rel.note}>
+                        {RELATIONSHIP_DIRECTION_ARROWS[rel.direction]} {nameOf(rel.targetId)}
+                        {rel.label && (
+                          <span className="text-foreground-secondary">：{rel.label}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {character.relationshipNotes && (
                 <div>
-                  <h4 className="text-xs font-semibold text-foreground-secondary mb-1">関係性</h4>
+                  <h4 className="text-xs font-semibold text-foreground-secondary mb-1">
+                    関係性メモ
+                  </h4>
                   <p className="text-sm text-foreground whitespace-pre-wrap">
-                    {character.relationships}
+                    {character.relationshipNotes}
                   </p>
                 </div>
               )}
+
+              {customFields
+                .filter((field) => field.label.trim() || field.value.trim())
+                .map((field) => (
+                  <div key={field.id}>
+                    <h4 className="text-xs font-semibold text-foreground-secondary mb-1">
+                      {field.label}
+                    </h4>
+                    <p className="text-sm text-foreground whitespace-pre-wrap">{field.value}</p>
+                  </div>
+                ))}
             </div>
           )}
         </div>
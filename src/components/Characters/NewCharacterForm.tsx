@@ -1,6 +1,8 @@
 "use client";
 
+import { useState } from "react";
 import { Check, X } from "lucide-react";
+import { parseTags } from "./character-fields";
 import type { Character } from "./types";
 
 interface NewCharacterFormProps {
@@ -16,6 +18,9 @@ export default function NewCharacterForm({
   onAdd,
   onCancel,
 }: NewCharacterFormProps) {
+  // Raw text so separators typed mid-entry are not normalized away.
+  const [tagsText, setTagsText] = useState("");
+
   return (
     <div className="bg-background-elevated border border-border rounded-lg p-3 space-y-2">
       <div className="flex items-center justify-between mb-2">
@@ -51,6 +56,25 @@ export default function NewCharacterForm({
         rows={2}
       />
 
+      <input
+        type="text"
+        placeholder="初登場（例: 第一章 駅のホーム）"
+        value={newCharacter.firstAppearance || ""}
+        onChange={(e) => onCharacterChange({ ...newCharacter, firstAppearance: e.target.value })}
+        className="w-full px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent"
+      />
+
+      <input
+        type="text"
+        placeholder="タグ（読点区切り）"
+        value={tagsText}
+        onChange={(e) => {
+          setTagsText(e.target.value);
+          onCharacterChange({ ...newCharacter, tags: parseTags(e.target.value) });
+        }}
+        className="w-full px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent"
+      />
+
       <textarea
         placeholder="外見"
         value={newCharacter.appearance || ""}
@@ -68,9 +92,9 @@ export default function NewCharacterForm({
       />
 
       <textarea
-        placeholder="関係性"
-        value={newCharacter.relationships || ""}
-        onChange={(e) => onCharacterChange({ ...newCharacter, relationships: e.target.value })}
+        placeholder="関係性メモ（関係は作成後に追加できます）"
+        value={newCharacter.relationshipNotes || ""}
+        onChange={(e) => onCharacterChange({ ...newCharacter, relationshipNotes: e.target.value })}
         className="w-full px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent resize-none"
         rows={2}
       />
@@ -0,0 +1,29 @@
+import type { RelationshipDirection } from "@/lib/project/project-types";
+
+/** Split tag input on commas (、，,) and drop blanks and duplicates. */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(/[、，,]/)
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== "");
+  return [...new Set(tags)];
+}
+
+/** Tags as shown in the tag input. */
+export function formatTags(tags: readonly string[] | undefined): string {
+  return (tags ?? []).join("、");
+}
+
+/** Choices of the relationship direction select. */
+export const RELATIONSHIP_DIRECTION_LABELS: Record<RelationshipDirection, string> = {
+  forward: "→ 一方向",
+  mutual: "↔ 相互",
+  none: "― 方向なし",
+};
+
+/** Arrow shown before the other character in relationship lists. */
+export const RELATIONSHIP_DIRECTION_ARROWS: Record<RelationshipDirection, string> = {
+  forward: "→",
+  mutual: "↔",
+  none: "―",
+};
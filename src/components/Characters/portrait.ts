@@ -0,0 +1,33 @@
+/** Longest edge of a stored portrait, in pixels. */
+const PORTRAIT_MAX_SIZE = 256;
+const PORTRAIT_TYPES = new Set(["image/png", "image/jpeg", "image/webp"]);
+const PORTRAIT_DATA_URL_RE = /^data:image\/(png|jpeg|webp);base64,/;
+
+/** True for the image data URLs `readPortrait` produces; anything else is not rendered. */
+export function isPortraitDataUrl(value: string | undefined): value is string {
+  return value !== undefined && PORTRAIT_DATA_URL_RE.test(value);
+}
+
+/**
+ * Read an image file as a portrait data URL, downscaled so characters.json
+ * stays small. Throws with a user-facing message for unsupported files.
+ */
+export async function readPortrait(file: File): Promise<string> {
+  if (!PORTRAIT_TYPES.has(file.type)) {
+    throw new Error("PNG・JPEG・WebP の画像を選んでください");
+  }
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(1, PORTRAIT_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("画像を読み込めませんでした");
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    // Browsers without WebP encoding fall back to PNG.
+    return canvas.toDataURL("image/webp", 0.85);
+  } finally {
+    bitmap.close();
+  }
+}
@@ -1,9 +1,6 @@
-export interface Character {
-  id: string;
-  name: string;
-  aliases: string[];
-  description: string;
-  appearance: string;
-  personality: string;
-  relationships: string;
-}
+export type {
+  Character,
+  CharacterCustomField,
+  CharacterRelationship,
+  RelationshipDirection,
+} from "@/lib/project/project-types";
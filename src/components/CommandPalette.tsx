@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+import { BookCheck, FileText, Hash, ListChecks, Terminal } from "lucide-react";
+
+import GlassDialog from "@/shared/ui/GlassDialog";
+import { useKeymap } from "@/contexts/KeymapContext";
+import { ALL_COMMAND_IDS } from "@/lib/keymap/command-ids";
+import { SHORTCUT_REGISTRY } from "@/lib/keymap/shortcut-registry";
+import { executeCommand, hasCommandHandler } from "@/lib/keymap/command-bus";
+import { formatBinding, isScopeActive } from "@/lib/keymap/keymap-utils";
+import { COMMAND_READINGS } from "@/lib/command-palette/command-readings";
+import { pushRecentId, rankPaletteItems } from "@/lib/command-palette/palette-search";
+import { localPreferences } from "@/lib/storage/local-preferences";
+
+import type { PaletteItem, PaletteItemKind } from "@/lib/command-palette/palette-search";
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Entries that are not registry commands: project files, headings, rulesets, correction modes */
+  extraItems: PaletteItem[];
+}
+
+const MAX_RECENT = 20;
+
+const KIND_ICONS: Record<PaletteItemKind, typeof Terminal> = {
+  command: Terminal,
+  file: FileText,
+  heading: Hash,
+  ruleset: ListChecks,
+  mode: BookCheck,
+};
+
+/**
+ * コマンドパレット: fuzzy-search every keymap command (with its current
+ * binding) plus the page's dynamic entries, and run the chosen one.
+ */
+export default function CommandPalette({
+  isOpen,
+  onClose,
+  extraItems,
+}: CommandPaletteProps): React.ReactNode {
+  const { effectiveBindings } = useKeymap();
+  const [query, setQuery] = useState("");
+  const [selected, setSelected] = useState(0);
+  const [recentIds, setRecentIds] = useState<string[]>([]);
+  const [wasOpen, setWasOpen] = useState(false);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Start each opening with an empty query and the latest recent list
+  if (isOpen !== wasOpen) {
+    setWasOpen(isOpen);
+    if (isOpen) {
+      setQuery("");
+      setSelected(0);
+      setRecentIds(localPreferences.getRecentCommands());
+    }
+  }
+
+  // Rebuilt on open so commands whose handler is unavailable right now
+  // (editor-only commands while a terminal tab is active) are left out.
+  const commandItems = useMemo<PaletteItem[]>(() => {
+    if (!isOpen) return [];
+    return ALL_COMMAND_IDS.filter(
+      (id) =>
+        id !== "nav.commandPalette" &&
+        isScopeActive(SHORTCUT_REGISTRY[id].scope) &&
+        hasCommandHandler(id),
+    ).map((id) => {
+      const binding = effectiveBindings[id];
+      return {
+        id: `command:${id}`,
+        kind: "command",
+        label: SHORTCUT_REGISTRY[id].label,
+        keywords: [COMMAND_READINGS[id], id],
+        detail: binding ? formatBinding(binding) : undefined,
+        run: () => {
+          executeCommand(id);
+        },
+      };
+    });
+  }, [isOpen, effectiveBindings]);
+
+  const results = useMemo(
+    () => rankPaletteItems([...commandItems, ...extraItems], query, recentIds),
+    [commandItems, extraItems, query, recentIds],
+  );
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector<HTMLElement>(`[data-index="${selected}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const runItem = (item: PaletteItem): void => {
+    localPreferences.setRecentCommands(pushRecentId(recentIds, item.id, MAX_RECENT));
+    onClose();
+    // Run after the dialog has closed and returned focus to the editor, so
+    // commands that focus something else (dialogs, panels) keep that focus.
+    window.setTimeout(item.run, 0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>): void => {
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const item = results[selected];
+      if (item) runItem(item);
+    }
+  };
+
+  const recentSet = new Set(recentIds);
+
+  return (
+    <GlassDialog
+      isOpen={isOpen}
+      onBackdropClick={onClose}
+      ariaLabel="コマンドパレット"
+      panelClassName="mx-4 w-full max-w-xl overflow-hidden"
+    >
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setSelected(0);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="コマンド・ファイル・見出しを検索（ローマ字可）"
+        aria-label="コマンドを検索"
+        className="w-full px-4 py-3 bg-transparent border-b border-border text-sm text-foreground placeholder:text-foreground-tertiary focus:outline-none"
+      />
+      {results.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-foreground-tertiary">
+          一致する項目がありません
+        </p>
+      ) : (
+        <ul ref={listRef} role="listbox" className="max-h-96 overflow-y-auto py-1">
+          {results.map((item, index) => {
+            const Icon = KIND_ICONS[item.kind];
+            return (
+              <li
+                key={item.id}
+                data-index={index}
+                role="option"
+                aria-selected={index === selected}
+                className={clsx(
+                  "flex items-center gap-3 px-4 py-2 text-sm cursor-pointer",
+                  index === selected ? "bg-active text-foreground" : "text-foreground-secondary",
+                )}
+                onMouseMove={() => setSelected(index)}
+                onClick={() => runItem(item)}
+              >
+                <Icon className="w-4 h-4 shrink-0 text-foreground-tertiary" />
+                <span className="flex-1 min-w-0 truncate">{item.label}</span>
+                {recentSet.has(item.id) && (
+                  <span className="text-xs text-foreground-tertiary shrink-0">最近使用</span>
+                )}
+                {item.detail && (
+                  <span className="text-xs text-foreground-tertiary shrink-0 max-w-[40%] truncate">
+                    {item.detail}
+                  </span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </GlassDialog>
+  );
+}
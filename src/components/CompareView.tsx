@@ -0,0 +1,384 @@
+"use client";
+
+/**
+ * CompareView — read-only comparison of two versions of a document (two
+ * history snapshots), shown in a compare tab.
+ *
+ * Compares paragraph by paragraph (diffParagraphs): moved paragraphs are
+ * marked as moves, and edited paragraphs show their changes per character or
+ * per word (kuromoji token). Shown side by side or unified, with navigation
+ * between changes and export as an HTML 赤字レポート.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+import { ArrowRight, ChevronDown, ChevronUp, FileDown, FileText } from "lucide-react";
+
+import { getNlpClient } from "@/lib/nlp-client/nlp-client";
+import {
+  applyWordGranularity,
+  diffParagraphs,
+  findChangeStarts,
+  getParagraphDiffStats,
+  splitAtTokens,
+} from "@/lib/services/diff-service";
+import { buildRedlineReportHtml } from "@/lib/export/redline-report";
+import { saveBlobFile } from "@/lib/export/save-blob-file";
+import { notificationManager } from "@/lib/services/notification-manager";
+import { isElectronRenderer } from "@/lib/utils/runtime-env";
+
+import type { CompareTabState } from "@/lib/tab-manager/tab-types";
+import type { DiffChunk, DiffGranularity, ParagraphDiffRow } from "@/lib/services/diff-service";
+
+type CompareLayout = "side-by-side" | "unified";
+
+const LAYOUT_OPTIONS: { value: CompareLayout; label: string }[] = [
+  { value: "side-by-side", label: "並べて表示" },
+  { value: "unified", label: "まとめて表示" },
+];
+
+const GRANULARITY_OPTIONS: { value: DiffGranularity; label: string }[] = [
+  { value: "char", label: "文字" },
+  { value: "word", label: "語" },
+];
+
+const ROW_MARKS: Record<ParagraphDiffRow["kind"], string> = {
+  unchanged: "",
+  added: "追加",
+  removed: "削除",
+  modified: "修正",
+  "moved-from": "移動元",
+  "moved-to": "移動先",
+};
+
+/** Cut a paragraph into kuromoji tokens for word-level diffs. */
+async function tokenizeWords(text: string): Promise<string[]> {
+  return splitAtTokens(text, await getNlpClient().tokenizeParagraph(text));
+}
+
+export interface CompareViewProps {
+  tab: CompareTabState;
+}
+
+export default function CompareView({ tab }: CompareViewProps) {
+  const { sourceFileName, oldLabel, newLabel, oldContent, newContent } = tab;
+  const [layout, setLayout] = useState<CompareLayout>("side-by-side");
+  const [granularity, setGranularity] = useState<DiffGranularity>("char");
+  const [currentChange, setCurrentChange] = useState(0);
+  const [wordDiff, setWordDiff] = useState<{
+    source: ParagraphDiffRow[];
+    rows: ParagraphDiffRow[] | null;
+  } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const charRows = useMemo(() => diffParagraphs(oldContent, newContent), [oldContent, newContent]);
+
+  // Word granularity needs the tokenizer, which is asynchronous
+  useEffect(() => {
+    if (granularity !== "word") return;
+    let cancelled = false;
+    applyWordGranularity(charRows, tokenizeWords)
+      .then((rows) => {
+        if (!cancelled) setWordDiff({ source: charRows, rows });
+      })
+      .catch((err: unknown) => {
+        console.warn("[CompareView] tokenization failed; showing character diff:", err);
+        if (!cancelled) setWordDiff({ source: charRows, rows: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [granularity, charRows]);
+
+  const wordResult = wordDiff?.source === charRows ? wordDiff : null;
+  const isTokenizing = granularity === "word" && !wordResult;
+  const tokenizeFailed = granularity === "word" && wordResult?.rows === null;
+  const rows = (granularity === "word" && wordResult?.rows) || charRows;
+
+  const stats = useMemo(() => getParagraphDiffStats(rows), [rows]);
+  const changeStarts = useMemo(() => findChangeStarts(rows), [rows]);
+  const activeRow = changeStarts[Math.min(currentChange, changeStarts.length - 1)];
+
+  useEffect(() => {
+    if (activeRow === undefined) return;
+    scrollRef.current
+      ?.querySelector<HTMLElement>(`[data-row="${activeRow}"]`)
+      ?.scrollIntoView({ block: "center" });
+  }, [activeRow]);
+
+  const stepChange = (delta: number) => {
+    if (changeStarts.length === 0) return;
+    setCurrentChange((i) => (i + delta + changeStarts.length) % changeStarts.length);
+  };
+
+  const handleExport = async () => {
+    const html = buildRedlineReportHtml({
+      title: sourceFileName,
+      oldLabel,
+      newLabel,
+      rows,
+      stats,
+      generatedAt: Date.now(),
+    });
+    const baseName = sourceFileName.replace(/\.[^.]+$/, "");
+    try {
+      await saveBlobFile(
+        new Blob([html], { type: "text/html" }),
+        `${baseName}_赤字.html`,
+        isElectronRenderer(),
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      notificationManager.error(`赤字レポートの保存に失敗しました: ${message}`);
+    }
+  };
+
+  const hasChanges = changeStarts.length > 0;
+
+  return (
+    <div className="flex flex-col h-full w-full bg-background overflow-hidden">
+      {/* Toolbar */}
+      <div className="flex items-center gap-3 px-4 py-2.5 border-b border-border bg-background-secondary shrink-0 flex-wrap">
+        <div className="flex items-center gap-2 min-w-0 shrink">
+          <FileText size={14} className="text-foreground-tertiary shrink-0" />
+          <span className="text-sm font-medium text-foreground truncate">{sourceFileName}</span>
+          <span className="flex items-center gap-1 text-xs text-foreground-tertiary whitespace-nowrap">
+            {oldLabel}
+            <ArrowRight size={12} />
+            {newLabel}
+          </span>
+        </div>
+
+        {hasChanges && (
+          <div className="flex items-center gap-2 text-xs">
+            {stats.addedChars > 0 && (
+              <span className="text-success">+{stats.addedChars.toLocaleString()} 文字</span>
+            )}
+            {stats.removedChars > 0 && (
+              <span className="text-error">−{stats.removedChars.toLocaleString()} 文字</span>
+            )}
+            {stats.movedParagraphs > 0 && (
+              <span className="text-accent">移動 {stats.movedParagraphs} 段落</span>
+            )}
+          </div>
+        )}
+
+        <div className="flex-1" />
+
+        <SegmentedControl options={LAYOUT_OPTIONS} value={layout} onChange={setLayout} />
+        <SegmentedControl
+          options={GRANULARITY_OPTIONS}
+          value={granularity}
+          onChange={setGranularity}
+          title="修正された段落の中の差分を文字単位・語単位（形態素）で表示します"
+        />
+
+        <div className="flex items-center gap-1 text-xs text-foreground-secondary">
+          <button
+            type="button"
+            onClick={() => stepChange(-1)}
+            disabled={!hasChanges}
+            className="p-1 rounded hover:bg-hover disabled:opacity-40 transition-colors"
+            title="前の変更"
+          >
+            <ChevronUp size={14} />
+          </button>
+          <span className="tabular-nums min-w-[3.5em] text-center">
+            {hasChanges
+              ? `${Math.min(currentChange, changeStarts.length - 1) + 1} / ${changeStarts.length}`
+              : "0 / 0"}
+          </span>
+          <button
+            type="button"
+            onClick={() => stepChange(1)}
+            disabled={!hasChanges}
+            className="p-1 rounded hover:bg-hover disabled:opacity-40 transition-colors"
+            title="次の変更"
+          >
+            <ChevronDown size={14} />
+          </button>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => void handleExport()}
+          disabled={!hasChanges}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-foreground-secondary bg-white/8 hover:bg-white/12 border border-border transition-colors disabled:opacity-40"
+          title="差分を赤字レポート（HTML）として書き出します"
+        >
+          <FileDown size={12} />
+          赤字レポート
+        </button>
+      </div>
+
+      {(isTokenizing || tokenizeFailed) && (
+        <p className="px-4 py-1 text-xs text-foreground-tertiary border-b border-border shrink-0">
+          {isTokenizing
+            ? "形態素解析中…（完了まで文字単位で表示します）"
+            : "形態素解析に失敗したため、文字単位で表示しています"}
+        </p>
+      )}
+
+      {/* Diff content area */}
+      <div ref={scrollRef} className="flex-1 overflow-auto p-4">
+        {!hasChanges ? (
+          <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+            差分なし — 両方の内容は同一です
+          </div>
+        ) : (
+          <div
+            className="text-sm leading-relaxed text-foreground"
+            aria-label="差分表示"
+            aria-readonly="true"
+          >
+            {layout === "side-by-side" && (
+              <div className="grid grid-cols-[4em_1fr_1fr] gap-x-4 pb-2 mb-2 border-b border-border text-xs text-foreground-tertiary sticky top-0 bg-background">
+                <span />
+                <span>{oldLabel}</span>
+                <span>{newLabel}</span>
+              </div>
+            )}
+            {rows.map((row, index) => (
+              <div
+                key={index}
+                data-row={index}
+                className={clsx(
+                  "grid gap-x-4 py-0.5 rounded-sm",
+                  layout === "side-by-side" ? "grid-cols-[4em_1fr_1fr]" : "grid-cols-[4em_1fr]",
+                  index === activeRow && "ring-1 ring-accent/60",
+                )}
+              >
+                <span className="text-[10px] text-foreground-tertiary text-right pt-1 whitespace-nowrap">
+                  {row.moveId !== undefined
+                    ? `${ROW_MARKS[row.kind]} ${row.moveId + 1}`
+                    : ROW_MARKS[row.kind]}
+                </span>
+                {layout === "side-by-side" ? (
+                  <>
+                    <RowSide row={row} side="old" />
+                    <RowSide row={row} side="new" />
+                  </>
+                ) : (
+                  <UnifiedRow row={row} />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Rows
+// ---------------------------------------------------------------------------
+
+function Chunks({ chunks }: { chunks: readonly DiffChunk[] }) {
+  return (
+    <>
+      {chunks.map((chunk, index) => {
+        if (chunk.type === "added") {
+          return (
+            <span key={index} className="bg-success/20 text-success rounded-sm">
+              {chunk.value}
+            </span>
+          );
+        }
+        if (chunk.type === "removed") {
+          return (
+            <span key={index} className="bg-error/20 text-error line-through rounded-sm">
+              {chunk.value}
+            </span>
+          );
+        }
+        return <span key={index}>{chunk.value}</span>;
+      })}
+    </>
+  );
+}
+
+const PARAGRAPH_CLASS = "whitespace-pre-wrap break-words";
+
+/** One side of a side-by-side row; modified rows show only that side's changes. */
+function RowSide({ row, side }: { row: ParagraphDiffRow; side: "old" | "new" }) {
+  const text = side === "old" ? row.oldText : row.newText;
+  if (text === undefined) return <span />;
+
+  if (row.kind === "modified" && row.chunks) {
+    const hidden = side === "old" ? "added" : "removed";
+    return (
+      <p className={PARAGRAPH_CLASS}>
+        <Chunks chunks={row.chunks.filter((chunk) => chunk.type !== hidden)} />
+      </p>
+    );
+  }
+
+  return <p className={clsx(PARAGRAPH_CLASS, rowTextClass(row))}>{text}</p>;
+}
+
+function UnifiedRow({ row }: { row: ParagraphDiffRow }) {
+  if (row.kind === "modified" && row.chunks) {
+    return (
+      <p className={PARAGRAPH_CLASS}>
+        <Chunks chunks={row.chunks} />
+      </p>
+    );
+  }
+  return <p className={clsx(PARAGRAPH_CLASS, rowTextClass(row))}>{row.newText ?? row.oldText}</p>;
+}
+
+function rowTextClass(row: ParagraphDiffRow): string | undefined {
+  switch (row.kind) {
+    case "added":
+      return "bg-success/10 text-success";
+    case "removed":
+      return "bg-error/10 text-error line-through";
+    case "moved-from":
+      return "bg-accent/10 text-accent line-through";
+    case "moved-to":
+      return "bg-accent/10 text-accent";
+    default:
+      return undefined;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SegmentedControl
+// ---------------------------------------------------------------------------
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  title,
+}: {
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+  title?: string;
+}) {
+  return (
+    <div
+      className="flex items-center rounded-md border border-border overflow-hidden"
+      title={title}
+    >
+      {options.map((option) => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          aria-pressed={option.value === value}
+          className={clsx(
+            "px-2 py-1 text-xs transition-colors",
+            option.value === value
+              ? "bg-accent text-accent-foreground"
+              : "text-foreground-secondary hover:bg-hover",
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
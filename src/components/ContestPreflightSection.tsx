@@ -0,0 +1,214 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import clsx from "clsx";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+import {
+  applyContestLayout,
+  mergeContestProfiles,
+  parseContestProfiles,
+  runContestPreflight,
+} from "@/lib/export/contest-profiles";
+import { getContestProfileService } from "@/lib/services/contest-profile-service";
+import { notificationManager } from "@/lib/services/notification-manager";
+
+import type { ContestProfile } from "@/lib/export/contest-profiles";
+import type { UnifiedExportSettings } from "@/lib/export/export-settings";
+import type { ExportSource } from "@/lib/export/types";
+
+interface ContestPreflightSectionProps {
+  /** The text being exported; null while a project is being compiled */
+  source: ExportSource | null;
+  settings: UnifiedExportSettings;
+  /** Project mode: the project's own profiles in .illusions/contest-profiles.json are available */
+  isProject: boolean;
+  onApplyLayout: (next: UnifiedExportSettings) => void;
+  onApplyAndExport: (next: UnifiedExportSettings) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-border-secondary rounded-lg bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+const labelClass = "block text-sm font-medium text-foreground mb-1";
+
+/**
+ * 応募規定チェック: pick a contest profile, see which of its rules the
+ * manuscript and the current export settings pass, and apply its layout.
+ */
+export default function ContestPreflightSection({
+  source,
+  settings,
+  isProject,
+  onApplyLayout,
+  onApplyAndExport,
+}: ContestPreflightSectionProps): React.ReactNode {
+  const [projectProfiles, setProjectProfiles] = useState<ContestProfile[]>([]);
+  const [profileId, setProfileId] = useState("");
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isProject) return;
+    let cancelled = false;
+    getContestProfileService()
+      .loadProfiles()
+      .then((loaded) => {
+        if (!cancelled) setProjectProfiles(loaded);
+      })
+      .catch((err: unknown) => {
+        console.error("[contest-profiles] failed to load:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isProject]);
+
+  const profiles = useMemo(() => mergeContestProfiles(projectProfiles), [projectProfiles]);
+  const profile = profiles.find((p) => p.id === profileId) ?? null;
+  const isProjectProfile = projectProfiles.some((p) => p.id === profileId);
+
+  const report = useMemo(
+    () =>
+      profile && source
+        ? runContestPreflight(profile, source.content, source.fileType, settings)
+        : null,
+    [profile, source, settings],
+  );
+
+  const handleImport = async (file: File): Promise<void> => {
+    let imported: ContestProfile[] = [];
+    try {
+      imported = parseContestProfiles(JSON.parse(await file.text()));
+    } catch {
+      // Not JSON — reported below like a file without valid profiles
+    }
+    if (imported.length === 0) {
+      notificationManager.error("応募規定プロファイルとして読み込めるデータがありませんでした。");
+      return;
+    }
+    try {
+      setProjectProfiles(await getContestProfileService().addProfiles(imported));
+      setProfileId(imported[0].id);
+      notificationManager.success(`応募規定プロファイルを${imported.length}件追加しました。`);
+    } catch (err) {
+      console.error("[contest-profiles] failed to save:", err);
+      notificationManager.error(
+        "応募規定プロファイルの保存に失敗しました。ディスクの空き容量またはファイルのアクセス権を確認してください。",
+      );
+    }
+  };
+
+  const handleRemove = async (): Promise<void> => {
+    try {
+      setProjectProfiles(await getContestProfileService().removeProfile(profileId));
+      setProfileId("");
+    } catch (err) {
+      console.error("[contest-profiles] failed to remove:", err);
+      notificationManager.error(
+        "応募規定プロファイルの削除に失敗しました。ディスクの空き容量またはファイルのアクセス権を確認してください。",
+      );
+    }
+  };
+
+  return (
+    <div>
+      <label className={labelClass}>応募規定チェック</label>
+      <select
+        className={inputClass}
+        value={profileId}
+        onChange={(e) => setProfileId(e.target.value)}
+      >
+        <option value="">チェックしない</option>
+        {profiles.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+
+      {isProject && (
+        <div className="flex gap-3 mt-1 text-xs">
+          <button
+            type="button"
+            className="text-accent hover:underline"
+            onClick={() => importInputRef.current?.click()}
+          >
+            JSONから追加
+          </button>
+          {isProjectProfile && (
+            <button
+              type="button"
+              className="text-danger hover:underline"
+              onClick={() => void handleRemove()}
+            >
+              このプロファイルを削除
+            </button>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      )}
+
+      {profile && !report && <p className="text-sm text-foreground-tertiary mt-2">読み込み中…</p>}
+
+      {profile && report && (
+        <>
+          <ul className="mt-2 space-y-1">
+            {report.items.map((item) => (
+              <li key={item.id} className="flex items-start gap-2 text-xs">
+                {item.status === "pass" ? (
+                  <CheckCircle2 className="w-4 h-4 text-success shrink-0" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-danger shrink-0" />
+                )}
+                <span className="flex-1 min-w-0">
+                  <span className="text-foreground">{item.label}</span>
+                  <span className="block text-foreground-tertiary">
+                    規定 {item.expected} ／ 現在 {item.actual}
+                  </span>
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p
+            className={clsx(
+              "text-xs font-medium mt-2",
+              report.passed ? "text-success" : "text-danger",
+            )}
+          >
+            {report.passed
+              ? "すべての規定を満たしています"
+              : `${report.items.filter((item) => item.status === "fail").length}件の規定を満たしていません`}
+          </p>
+          <div className="flex gap-2 mt-2">
+            <button
+              type="button"
+              className="flex-1 px-3 py-2 rounded-lg border border-border-secondary text-sm text-foreground hover:bg-hover transition-colors"
+              onClick={() => onApplyLayout(applyContestLayout(settings, profile))}
+            >
+              書式を適用
+            </button>
+            <button
+              type="button"
+              className="flex-1 px-3 py-2 rounded-lg text-sm bg-accent text-accent-foreground hover:bg-accent-hover transition-colors"
+              onClick={() => onApplyAndExport(applyContestLayout(settings, profile))}
+            >
+              適用してエクスポート
+            </button>
+          </div>
+          <p className="text-xs text-foreground-tertiary mt-1">
+            あらすじ等は見出しで探し、本文の枚数には含めません。最新の募集要項も必ず確認してください。
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,14 @@
  *
  * Displays character-level differences between the editor buffer (local) and
  * the on-disk content (remote) with conflict resolution action buttons.
+ * When the remote side is a git revision ("HEAD と比較"), the diff reads from
+ * that revision to the editor and the only action is reverting to it.
  *
  * Uses computeDiff() from lib/services/diff-service for diff calculation.
  */
 
 import { useMemo } from "react";
-import { HardDrive, FileText } from "lucide-react";
+import { HardDrive, FileText, History } from "lucide-react";
 import type { DiffTabState } from "@/lib/tab-manager/tab-types";
 import { computeDiff, getDiffStats } from "@/lib/services/diff-service";
 
@@ -46,21 +48,25 @@ export interface DiffViewProps {
  * For very large diffs (> 50 KB combined), shows a simplified fallback.
  */
 export default function DiffView({ tab, onAcceptDisk, onKeepEditor, onClose }: DiffViewProps) {
-  const { sourceFileName, localContent, remoteContent, remoteTimestamp } = tab;
+  const { sourceFileName, localContent, remoteContent, remoteTimestamp, gitRevision } = tab;
+  const isGitDiff = gitRevision !== undefined;
 
   // Format timestamp for display
   const formattedTimestamp = new Date(remoteTimestamp).toLocaleString("ja-JP");
 
-  // Compute diff (memoized to avoid re-running on every render)
+  // Compute diff (memoized to avoid re-running on every render).
+  // A git diff reads like `git diff`: from the revision to the editor content.
   const { chunks, stats, isTooLarge } = useMemo(() => {
     const combinedSize = localContent.length + remoteContent.length;
     if (combinedSize > DIFF_SIZE_LIMIT) {
       return { chunks: [], stats: null, isTooLarge: true };
     }
-    const diffChunks = computeDiff(localContent, remoteContent);
+    const diffChunks = isGitDiff
+      ? computeDiff(remoteContent, localContent)
+      : computeDiff(localContent, remoteContent);
     const diffStats = getDiffStats(diffChunks);
     return { chunks: diffChunks, stats: diffStats, isTooLarge: false };
-  }, [localContent, remoteContent]);
+  }, [localContent, remoteContent, isGitDiff]);
 
   return (
     <div className="flex flex-col h-full w-full bg-background overflow-hidden">
@@ -71,7 +77,9 @@ export default function DiffView({ tab, onAcceptDisk, onKeepEditor, onClose }: D
           <FileText size={14} className="text-foreground-tertiary shrink-0" />
           <span className="text-sm font-medium text-foreground truncate">{sourceFileName}</span>
           <span className="text-xs text-foreground-tertiary whitespace-nowrap">
-            （ディスク最終更新: {formattedTimestamp}）
+            {isGitDiff
+              ? `（${gitRevision} と比較・コミット日時: ${formattedTimestamp}）`
+              : `（ディスク最終更新: ${formattedTimestamp}）`}
           </span>
         </div>
 
@@ -92,29 +100,37 @@ export default function DiffView({ tab, onAcceptDisk, onKeepEditor, onClose }: D
 
         {/* Action buttons */}
         <div className="flex items-center gap-2 shrink-0">
-          <button
-            type="button"
-            onClick={onKeepEditor}
-            className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-foreground-secondary bg-white/8 hover:bg-white/12 border border-border transition-colors"
-            title="エディタの内容をそのまま保持し、競合状態を解消します"
-          >
-            <FileText size={12} />
-            エディタの内容を保持
-          </button>
+          {!isGitDiff && (
+            <button
+              type="button"
+              onClick={onKeepEditor}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-foreground-secondary bg-white/8 hover:bg-white/12 border border-border transition-colors"
+              title="エディタの内容をそのまま保持し、競合状態を解消します"
+            >
+              <FileText size={12} />
+              エディタの内容を保持
+            </button>
+          )}
           <button
             type="button"
             onClick={onAcceptDisk}
             className="flex items-center gap-1.5 px-3 py-1.5 rounded-md text-xs font-medium text-foreground bg-accent hover:bg-accent/90 transition-colors"
-            title="ディスクの内容でエディタの内容を上書きします"
+            title={
+              isGitDiff
+                ? `エディタの内容を ${gitRevision} の版で置き換えます（保存するまでファイルは変わりません）`
+                : "ディスクの内容でエディタの内容を上書きします"
+            }
           >
-            <HardDrive size={12} />
-            ディスクの内容を採用
+            {isGitDiff ? <History size={12} /> : <HardDrive size={12} />}
+            {isGitDiff ? `${gitRevision} の内容に戻す` : "ディスクの内容を採用"}
           </button>
           <button
             type="button"
             onClick={onClose}
             className="px-3 py-1.5 rounded-md text-xs font-medium text-foreground-secondary bg-white/8 hover:bg-white/12 border border-border transition-colors"
-            title="差分タブを閉じます（競合状態は保持されます）"
+            title={
+              isGitDiff ? "差分タブを閉じます" : "差分タブを閉じます（競合状態は保持されます）"
+            }
           >
             閉じる
           </button>
@@ -125,7 +141,11 @@ export default function DiffView({ tab, onAcceptDisk, onKeepEditor, onClose }: D
       <div className="flex-1 overflow-auto p-4">
         {isTooLarge ? (
           // Fallback for large files
-          <LargeDiffFallback onAcceptDisk={onAcceptDisk} onKeepEditor={onKeepEditor} />
+          <LargeDiffFallback
+            onAcceptDisk={onAcceptDisk}
+            onKeepEditor={onKeepEditor}
+            gitRevision={gitRevision}
+          />
         ) : chunks.length === 0 ? (
           // No changes
           <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
@@ -195,13 +215,15 @@ function InlineDiff({ chunks }: InlineDiffProps) {
 interface LargeDiffFallbackProps {
   onAcceptDisk: () => void;
   onKeepEditor: () => void;
+  /** Set for a git comparison; see DiffTabState.gitRevision */
+  gitRevision?: string;
 }
 
 /**
  * Fallback shown for large files where inline diff computation is skipped.
  * Still provides accept/reject action buttons so the conflict can be resolved.
  */
-function LargeDiffFallback({ onAcceptDisk, onKeepEditor }: LargeDiffFallbackProps) {
+function LargeDiffFallback({ onAcceptDisk, onKeepEditor, gitRevision }: LargeDiffFallbackProps) {
   return (
     <div className="flex flex-col items-center justify-center h-full gap-6 text-center">
       <p className="text-foreground-secondary text-sm">
@@ -221,8 +243,8 @@ function LargeDiffFallback({ onAcceptDisk, onKeepEditor }: LargeDiffFallbackProp
           onClick={onAcceptDisk}
           className="flex items-center gap-1.5 px-4 py-2 rounded-md text-sm font-medium text-foreground bg-accent hover:bg-accent/90 transition-colors"
         >
-          <HardDrive size={14} />
-          ディスクの内容を採用
+          {gitRevision !== undefined ? <History size={14} /> : <HardDrive size={14} />}
+          {gitRevision !== undefined ? `${gitRevision} の内容に戻す` : "ディスクの内容を採用"}
         </button>
       </div>
     </div>
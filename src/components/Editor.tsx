@@ -69,6 +69,8 @@ interface EditorProps {
   registerFlush?: (flush: (() => string | null) | null) => void;
   /** Registers the active editor's writing-mode toggle for menus and shortcuts. */
   registerWritingModeToggle?: (toggle: (() => void) | null) => void;
+  /** Restore-point snapshot taken before an AI rewrite is applied. */
+  onCreateRestorePoint?: (content: string) => Promise<void>;
 }
 
 /** 検索を配線しない NovelEditor 用途向けの安定 no-op。 */
@@ -101,6 +103,7 @@ export default function NovelEditor({
   externalContent,
   onExternalContentApplied,
   registerFlush,
+  onCreateRestorePoint,
   registerWritingModeToggle,
 }: EditorProps) {
   const { fontScale, lineHeight, fontFamily, charsPerLine, autoCharsPerLine } =
@@ -579,6 +582,7 @@ export default function NovelEditor({
               onExternalContentApplied={onExternalContentApplied}
               onLayoutReady={handleLayoutReady}
               registerFlush={registerFlush}
+              onCreateRestorePoint={onCreateRestorePoint}
             />
           </ProsemirrorAdapterProvider>
         </MilkdownProvider>
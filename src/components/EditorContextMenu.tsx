@@ -15,10 +15,14 @@ import {
   AlertCircle,
   EyeOff,
   Play,
+  Sparkles,
+  ChevronRight,
 } from "lucide-react";
 import type { ReactNode, MouseEvent } from "react";
 
 import type { LintIssue } from "@/lib/linting";
+import { REWRITE_INTENTS } from "@/lib/ai/rewrite-intents";
+import type { RewriteIntentId } from "@/lib/ai/rewrite-intents";
 import { useKeymap } from "@/contexts/KeymapContext";
 import { isMacOS } from "@/lib/utils/runtime-env";
 import { formatBinding } from "@/lib/keymap/keymap-utils";
@@ -38,7 +42,8 @@ export type ContextMenuAction =
   | "ignore-correction"
   | "ignore-correction-all"
   | "add-to-user-dict"
-  | "start-speech";
+  | "start-speech"
+  | `rewrite:${RewriteIntentId}`;
 
 interface EditorContextMenuProps {
   children: ReactNode;
@@ -52,6 +57,8 @@ interface EditorContextMenuProps {
   mdiExtensionsEnabled?: boolean;
   /** Pass the speech callback when speech feature is available; omit to hide the menu item */
   onStartSpeech?: (() => void) | null;
+  /** Whether the "AI で書き換え" submenu is offered (AI API configured) */
+  aiRewriteEnabled?: boolean;
 }
 
 interface MenuItemProps {
@@ -95,6 +102,7 @@ export default function EditorContextMenu({
   onContextMenuOpen,
   mdiExtensionsEnabled = true,
   onStartSpeech,
+  aiRewriteEnabled = false,
 }: EditorContextMenuProps) {
   const { effectiveBindings } = useKeymap();
 
@@ -196,6 +204,37 @@ export default function EditorContextMenu({
             </>
           )}
 
+          {/* AI 書き換え: needs a selection and a configured AI API */}
+          {aiRewriteEnabled && hasSelection && (
+            <>
+              <ContextMenu.Sub>
+                <ContextMenu.SubTrigger className="group relative flex items-center gap-3 px-3 py-2 text-sm outline-none cursor-pointer select-none data-[highlighted]:bg-white/5 data-[state=open]:bg-white/5 rounded">
+                  <span className="w-4 h-4 flex items-center justify-center text-foreground-tertiary group-data-[highlighted]:text-foreground-secondary">
+                    <Sparkles className="w-4 h-4" />
+                  </span>
+                  <span className="flex-1 text-foreground-secondary group-data-[highlighted]:text-foreground">
+                    AI で書き換え
+                  </span>
+                  <ChevronRight className="w-3 h-3 text-foreground-tertiary" />
+                </ContextMenu.SubTrigger>
+                <ContextMenu.Portal>
+                  <ContextMenu.SubContent className="min-w-[180px] bg-background/95 backdrop-blur-xl border border-border rounded-lg shadow-2xl p-1.5">
+                    {REWRITE_INTENTS.map((intent) => (
+                      <MenuItem
+                        key={intent.id}
+                        icon={null}
+                        label={intent.label}
+                        shortcut=""
+                        onClick={() => onAction(`rewrite:${intent.id}`)}
+                      />
+                    ))}
+                  </ContextMenu.SubContent>
+                </ContextMenu.Portal>
+              </ContextMenu.Sub>
+              <Separator />
+            </>
+          )}
+
           {/* 検索・調べる */}
           <MenuItem
             icon={<Search className="w-4 h-4" />}
@@ -13,6 +13,8 @@ import { buildEditorPanelKey } from "@/lib/dockview/editor-panel-key";
 import ResizablePanel from "@/shared/ui/ResizablePanel";
 import ExportDialog from "@/components/ExportDialog";
 import RubyDialog from "@/components/RubyDialog";
+import CommandPalette from "@/components/CommandPalette";
+import PendingChordIndicator from "@/components/PendingChordIndicator";
 import SearchDialog from "@/components/SearchDialog";
 import SettingsModal from "@/components/SettingsModal";
 import SidebarPanel from "@/components/SidebarPanel";
@@ -30,10 +32,20 @@ import {
   type IgnoredCorrectionsContextValue,
 } from "@/contexts/IgnoredCorrectionsContext";
 import { TerminalTabContext, type TerminalTabContextValue } from "@/contexts/TerminalTabContext";
+import { SceneBoardContext, type SceneBoardContextValue } from "@/contexts/SceneBoardContext";
+import {
+  ManuscriptPaperContext,
+  type ManuscriptPaperContextValue,
+} from "@/contexts/ManuscriptPaperContext";
 import {
   dockviewTabComponents,
   TerminalPanel,
   DiffPanel,
+  ComparePanel,
+  RelationshipGraphPanel,
+  SceneBoardPanel,
+  StatsDashboardPanel,
+  ManuscriptPaperPanel,
 } from "@/lib/dockview/dockview-components";
 import type { EditorSettings, EditorSettingsHandlers } from "@/lib/editor-page/use-editor-settings";
 import type { PanelState } from "@/lib/editor-page/use-panel-state";
@@ -51,7 +63,8 @@ import type { LintIssue } from "@/lib/linting/types";
 import type { PdfExportSettings } from "@/lib/export/pdf-export-settings";
 import type { DocxExportSettings } from "@/lib/export/docx-export-settings";
 import type { EpubExportOptions } from "@/lib/export/epub-shared";
-import type { ExportMetadata } from "@/lib/export/types";
+import type { PaletteItem } from "@/lib/command-palette/palette-search";
+import type { ExportMetadata, ExportSource } from "@/lib/export/types";
 import type { RuleRunnerLike } from "@/packages/milkdown-plugin-japanese-novel/linting-plugin";
 import { decideResponsivePanels } from "@/lib/editor-page/responsive-layout";
 import { useWindowWidth } from "@/lib/editor-page/use-window-width";
@@ -67,6 +80,8 @@ interface EditorLayoutProps {
   providers: {
     diffTabContextValue: DiffTabContextValue;
     terminalTabContextValue: TerminalTabContextValue;
+    sceneBoardContextValue: SceneBoardContextValue;
+    manuscriptPaperContextValue: ManuscriptPaperContextValue;
     settings: EditorSettings;
     settingsHandlers: EditorSettingsHandlers;
     ignoredCorrectionsContextValue: IgnoredCorrectionsContextValue;
@@ -106,15 +121,24 @@ interface EditorLayoutProps {
     setShowRubyDialog: (show: boolean) => void;
     rubySelectedText: string;
     handleApplyRuby: React.ComponentProps<typeof RubyDialog>["onApply"];
+    commandPalette: {
+      isOpen: boolean;
+      onClose: () => void;
+      items: PaletteItem[];
+    };
     exportDialog: {
       state: { format: "pdf" | "docx" | "epub"; content: string; metadata: ExportMetadata } | null;
       onClose: () => void;
-      onPdfExport: (settings: PdfExportSettings) => void;
-      onDocxExport: (settings: DocxExportSettings) => void;
-      onEpubExport: (options: EpubExportOptions) => void;
+      onPdfExport: (settings: PdfExportSettings, source: ExportSource) => void;
+      onDocxExport: (settings: DocxExportSettings, source: ExportSource) => void;
+      onEpubExport: (options: EpubExportOptions, source: ExportSource) => void;
       content: string;
       metadata: ExportMetadata;
-      fileType?: string;
+      fileType?: SupportedFileExtension;
+      /** Project book metadata; enables the "プロジェクト全体" scope (project mode only). */
+      projectMetadata?: ExportMetadata | null;
+      /** Unsaved tab text by project-relative path, compiled in place of the saved files. */
+      unsavedContents?: ReadonlyMap<string, string>;
     };
     printDialog: {
       state: { content: string; metadata: ExportMetadata } | null;
@@ -122,7 +146,7 @@ interface EditorLayoutProps {
       onPrint: (settings: PdfExportSettings) => void;
       content: string;
       metadata: ExportMetadata;
-      fileType?: string;
+      fileType?: SupportedFileExtension;
     };
   };
   recovery: {
@@ -221,6 +245,9 @@ interface EditorLayoutProps {
     registerWritingModeToggle: NonNullable<
       React.ComponentProps<typeof NovelEditor>["registerWritingModeToggle"]
     >;
+    handleCreateRestorePoint: NonNullable<
+      React.ComponentProps<typeof NovelEditor>["onCreateRestorePoint"]
+    >;
   };
   inspector: {
     isRightPanelCollapsed: boolean;
@@ -257,475 +284,508 @@ export default function EditorLayout({
   return (
     <DiffTabContext.Provider value={providers.diffTabContextValue}>
       <TerminalTabContext.Provider value={providers.terminalTabContextValue}>
-        <EditorSettingsProvider settings={providers.settings} handlers={providers.settingsHandlers}>
-          <IgnoredCorrectionsProvider value={providers.ignoredCorrectionsContextValue}>
-            <div className="h-screen flex flex-col overflow-hidden relative">
-              <TitleUpdater editorMode={upgrade.editorMode} isDirty={chrome.isDirty} />
-
-              {!chrome.isElectron && (
-                <WebMenuBar
-                  onMenuAction={chrome.handleMenuAction}
-                  recentProjects={chrome.recentProjects}
-                  checkedState={{ compactMode: chrome.compactMode }}
-                />
-              )}
-
-              <UnsavedWarningDialog
-                isOpen={dialogs.unsavedWarning.showWarning}
-                fileName={chrome.currentFile?.name || "新規ファイル"}
-                onSave={dialogs.unsavedWarning.handleSave}
-                onDiscard={dialogs.unsavedWarning.handleDiscard}
-                onCancel={dialogs.unsavedWarning.handleCancel}
-              />
-
-              <UnsavedWarningDialog
-                isOpen={dialogs.pendingCloseTabId !== null}
-                fileName={dialogs.pendingCloseFileName}
-                onSave={dialogs.handleCloseTabSave}
-                onDiscard={dialogs.handleCloseTabDiscard}
-                onCancel={dialogs.handleCloseTabCancel}
-              />
-
-              <DesktopOnlyDialog
-                isOpen={dialogs.showDesktopOnlyDialog}
-                onClose={() => dialogs.setShowDesktopOnlyDialog(false)}
-                featureName="ターミナル"
-              />
-
-              <ConfirmDialog
-                isOpen={dialogs.confirmRemoveRecent !== null}
-                title="プロジェクトが見つかりません"
-                message={dialogs.confirmRemoveRecent?.message ?? ""}
-                confirmLabel="削除する"
-                cancelLabel="キャンセル"
-                dangerous={true}
-                onConfirm={() => {
-                  if (dialogs.confirmRemoveRecent) {
-                    const { projectId } = dialogs.confirmRemoveRecent;
-                    dialogs.setConfirmRemoveRecent(null);
-                    void dialogs.handleDeleteRecentProject(projectId);
-                  }
-                }}
-                onCancel={() => dialogs.setConfirmRemoveRecent(null)}
-              />
-
-              {upgrade.showUpgradeBanner &&
-                !upgrade.upgradeBannerDismissed &&
-                isStandaloneMode(upgrade.editorMode) &&
-                upgrade.featuresProjectMode && (
-                  <UpgradeToProjectBanner
-                    onUpgrade={() => void upgrade.handleUpgrade()}
-                    onDismiss={upgrade.handleUpgradeDismiss}
+        <SceneBoardContext.Provider value={providers.sceneBoardContextValue}>
+          <EditorSettingsProvider
+            settings={providers.settings}
+            handlers={providers.settingsHandlers}
+          >
+            <IgnoredCorrectionsProvider value={providers.ignoredCorrectionsContextValue}>
+              <div className="h-screen flex flex-col overflow-hidden relative">
+                <TitleUpdater editorMode={upgrade.editorMode} isDirty={chrome.isDirty} />
+
+                {!chrome.isElectron && (
+                  <WebMenuBar
+                    onMenuAction={chrome.handleMenuAction}
+                    recentProjects={chrome.recentProjects}
+                    checkedState={{ compactMode: chrome.compactMode }}
                   />
                 )}
 
-              <SettingsModal
-                isOpen={dialogs.showSettingsModal}
-                onClose={() => {
-                  dialogs.setShowSettingsModal(false);
-                  dialogs.setSettingsInitialCategory(undefined);
-                }}
-                initialCategory={dialogs.settingsInitialCategory}
-              />
-
-              <RubyDialog
-                isOpen={dialogs.showRubyDialog}
-                onClose={() => dialogs.setShowRubyDialog(false)}
-                selectedText={dialogs.rubySelectedText}
-                onApply={dialogs.handleApplyRuby}
-              />
-
-              <ExportDialog
-                isOpen={dialogs.exportDialog.state != null}
-                initialFormat={dialogs.exportDialog.state?.format ?? "pdf"}
-                onClose={dialogs.exportDialog.onClose}
-                onExportPdf={dialogs.exportDialog.onPdfExport}
-                onExportDocx={dialogs.exportDialog.onDocxExport}
-                onExportEpub={dialogs.exportDialog.onEpubExport}
-                content={dialogs.exportDialog.content}
-                metadata={dialogs.exportDialog.metadata}
-                fileType={dialogs.exportDialog.fileType}
-              />
-
-              <ExportDialog
-                isOpen={dialogs.printDialog.state != null}
-                mode="print"
-                initialFormat="pdf"
-                onClose={dialogs.printDialog.onClose}
-                onExportPdf={dialogs.printDialog.onPrint}
-                onExportDocx={() => {}}
-                content={dialogs.printDialog.content}
-                metadata={dialogs.printDialog.metadata}
-                fileType={dialogs.printDialog.fileType}
-              />
-
-              {/* #1966 H-5/H-6: 復元バッファがディスクと食い違う場合は「使用 / 破棄」を
+                <UnsavedWarningDialog
+                  isOpen={dialogs.unsavedWarning.showWarning}
+                  fileName={chrome.currentFile?.name || "新規ファイル"}
+                  onSave={dialogs.unsavedWarning.handleSave}
+                  onDiscard={dialogs.unsavedWarning.handleDiscard}
+                  onCancel={dialogs.unsavedWarning.handleCancel}
+                />
+
+                <UnsavedWarningDialog
+                  isOpen={dialogs.pendingCloseTabId !== null}
+                  fileName={dialogs.pendingCloseFileName}
+                  onSave={dialogs.handleCloseTabSave}
+                  onDiscard={dialogs.handleCloseTabDiscard}
+                  onCancel={dialogs.handleCloseTabCancel}
+                />
+
+                <DesktopOnlyDialog
+                  isOpen={dialogs.showDesktopOnlyDialog}
+                  onClose={() => dialogs.setShowDesktopOnlyDialog(false)}
+                  featureName="ターミナル"
+                />
+
+                <ConfirmDialog
+                  isOpen={dialogs.confirmRemoveRecent !== null}
+                  title="プロジェクトが見つかりません"
+                  message={dialogs.confirmRemoveRecent?.message ?? ""}
+                  confirmLabel="削除する"
+                  cancelLabel="キャンセル"
+                  dangerous={true}
+                  onConfirm={() => {
+                    if (dialogs.confirmRemoveRecent) {
+                      const { projectId } = dialogs.confirmRemoveRecent;
+                      dialogs.setConfirmRemoveRecent(null);
+                      void dialogs.handleDeleteRecentProject(projectId);
+                    }
+                  }}
+                  onCancel={() => dialogs.setConfirmRemoveRecent(null)}
+                />
+
+                {upgrade.showUpgradeBanner &&
+                  !upgrade.upgradeBannerDismissed &&
+                  isStandaloneMode(upgrade.editorMode) &&
+                  upgrade.featuresProjectMode && (
+                    <UpgradeToProjectBanner
+                      onUpgrade={() => void upgrade.handleUpgrade()}
+                      onDismiss={upgrade.handleUpgradeDismiss}
+                    />
+                  )}
+
+                <SettingsModal
+                  isOpen={dialogs.showSettingsModal}
+                  onClose={() => {
+                    dialogs.setShowSettingsModal(false);
+                    dialogs.setSettingsInitialCategory(undefined);
+                  }}
+                  initialCategory={dialogs.settingsInitialCategory}
+                />
+
+                <RubyDialog
+                  isOpen={dialogs.showRubyDialog}
+                  onClose={() => dialogs.setShowRubyDialog(false)}
+                  selectedText={dialogs.rubySelectedText}
+                  onApply={dialogs.handleApplyRuby}
+                />
+
+                <CommandPalette
+                  isOpen={dialogs.commandPalette.isOpen}
+                  onClose={dialogs.commandPalette.onClose}
+                  extraItems={dialogs.commandPalette.items}
+                />
+
+                <PendingChordIndicator />
+
+                <ExportDialog
+                  isOpen={dialogs.exportDialog.state != null}
+                  initialFormat={dialogs.exportDialog.state?.format ?? "pdf"}
+                  onClose={dialogs.exportDialog.onClose}
+                  onExportPdf={dialogs.exportDialog.onPdfExport}
+                  onExportDocx={dialogs.exportDialog.onDocxExport}
+                  onExportEpub={dialogs.exportDialog.onEpubExport}
+                  content={dialogs.exportDialog.content}
+                  metadata={dialogs.exportDialog.metadata}
+                  fileType={dialogs.exportDialog.fileType}
+                  projectMetadata={dialogs.exportDialog.projectMetadata}
+                  unsavedContents={dialogs.exportDialog.unsavedContents}
+                />
+
+                <ExportDialog
+                  isOpen={dialogs.printDialog.state != null}
+                  mode="print"
+                  initialFormat="pdf"
+                  onClose={dialogs.printDialog.onClose}
+                  onExportPdf={dialogs.printDialog.onPrint}
+                  onExportDocx={() => {}}
+                  content={dialogs.printDialog.content}
+                  metadata={dialogs.printDialog.metadata}
+                  fileType={dialogs.printDialog.fileType}
+                />
+
+                {/* #1966 H-5/H-6: 復元バッファがディスクと食い違う場合は「使用 / 破棄」を
                   選択させる（自動フェードアウトしない）。食い違いが無ければ従来どおり
                   情報バナー（自動フェードアウト + ✕）。Electron でも表示する。 */}
-              {recovery.wasAutoRecovered &&
-                !recovery.dismissedRecovery &&
-                (recovery.recoveredBuffer ? (
-                  <div className="fixed left-0 top-10 right-0 z-50 bg-background-elevated border-b border-border px-4 py-3 flex items-center justify-between shadow-lg animate-slide-in-down">
-                    <div className="flex items-center gap-3">
-                      <div className="w-3 h-3 bg-warning rounded-full flex-shrink-0 animate-pulse-glow"></div>
-                      <p className="text-sm text-foreground">
-                        <span className="font-semibold text-foreground">
-                          未保存の変更が見つかりました：
-                        </span>{" "}
-                        <span className="font-mono text-warning">
-                          {recovery.recoveredBuffer.fileName}
-                        </span>{" "}
-                        <span className="text-foreground-secondary">
-                          前回終了時の未保存内容を使用しますか？
-                        </span>
-                      </p>
+                {recovery.wasAutoRecovered &&
+                  !recovery.dismissedRecovery &&
+                  (recovery.recoveredBuffer ? (
+                    <div className="fixed left-0 top-10 right-0 z-50 bg-background-elevated border-b border-border px-4 py-3 flex items-center justify-between shadow-lg animate-slide-in-down">
+                      <div className="flex items-center gap-3">
+                        <div className="w-3 h-3 bg-warning rounded-full flex-shrink-0 animate-pulse-glow"></div>
+                        <p className="text-sm text-foreground">
+                          <span className="font-semibold text-foreground">
+                            未保存の変更が見つかりました：
+                          </span>{" "}
+                          <span className="font-mono text-warning">
+                            {recovery.recoveredBuffer.fileName}
+                          </span>{" "}
+                          <span className="text-foreground-secondary">
+                            前回終了時の未保存内容を使用しますか？
+                          </span>
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0 ml-4">
+                        <button
+                          onClick={() => recovery.applyRecoveredBuffer?.()}
+                          className="px-3 py-1 text-sm font-medium rounded bg-accent text-accent-foreground hover:opacity-90 transition-all duration-200"
+                        >
+                          このバッファを使用
+                        </button>
+                        <button
+                          onClick={() => recovery.discardRecoveredBuffer?.()}
+                          className="px-3 py-1 text-sm font-medium rounded border border-border text-foreground hover:bg-hover transition-all duration-200"
+                        >
+                          破棄
+                        </button>
+                      </div>
                     </div>
-                    <div className="flex items-center gap-2 flex-shrink-0 ml-4">
-                      <button
-                        onClick={() => recovery.applyRecoveredBuffer?.()}
-                        className="px-3 py-1 text-sm font-medium rounded bg-accent text-accent-foreground hover:opacity-90 transition-all duration-200"
-                      >
-                        このバッファを使用
-                      </button>
+                  ) : (
+                    <div
+                      className={`fixed left-0 top-10 right-0 z-50 bg-background-elevated border-b border-border px-4 py-3 flex items-center justify-between shadow-lg ${recovery.recoveryExiting ? "animate-slide-out-up" : "animate-slide-in-down"}`}
+                    >
+                      <div className="flex items-center gap-3">
+                        <div className="w-3 h-3 bg-success rounded-full flex-shrink-0 animate-pulse-glow"></div>
+                        <p className="text-sm text-foreground">
+                          <span className="font-semibold text-foreground">
+                            ✓ 前回編集したファイルを復元しました：
+                          </span>{" "}
+                          <span className="font-mono text-success">{recovery.currentFileName}</span>
+                        </p>
+                      </div>
                       <button
-                        onClick={() => recovery.discardRecoveredBuffer?.()}
-                        className="px-3 py-1 text-sm font-medium rounded border border-border text-foreground hover:bg-hover transition-all duration-200"
+                        onClick={() => {
+                          recovery.setRecoveryExiting(true);
+                        }}
+                        className="text-foreground-secondary hover:text-foreground hover:bg-hover text-lg font-medium flex-shrink-0 ml-4 w-8 h-8 rounded flex items-center justify-center transition-all duration-200 hover:scale-110"
                       >
-                        破棄
+                        ✕
                       </button>
                     </div>
-                  </div>
-                ) : (
-                  <div
-                    className={`fixed left-0 top-10 right-0 z-50 bg-background-elevated border-b border-border px-4 py-3 flex items-center justify-between shadow-lg ${recovery.recoveryExiting ? "animate-slide-out-up" : "animate-slide-in-down"}`}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div className="w-3 h-3 bg-success rounded-full flex-shrink-0 animate-pulse-glow"></div>
-                      <p className="text-sm text-foreground">
-                        <span className="font-semibold text-foreground">
-                          ✓ 前回編集したファイルを復元しました：
-                        </span>{" "}
-                        <span className="font-mono text-success">{recovery.currentFileName}</span>
-                      </p>
-                    </div>
-                    <button
-                      onClick={() => {
-                        recovery.setRecoveryExiting(true);
-                      }}
-                      className="text-foreground-secondary hover:text-foreground hover:bg-hover text-lg font-medium flex-shrink-0 ml-4 w-8 h-8 rounded flex items-center justify-center transition-all duration-200 hover:scale-110"
-                    >
-                      ✕
-                    </button>
-                  </div>
-                ))}
-
-              <div className="flex-1 flex overflow-hidden">
-                <ActivityBar
-                  topView={activityBar.topView}
-                  bottomView={activityBar.bottomView}
-                  compactMode={chrome.compactMode}
-                  onTopViewChange={(view) => {
-                    if (view === "settings") {
-                      dialogs.setShowSettingsModal(true);
-                    } else {
-                      activityBar.setTopView(view);
-                    }
-                  }}
-                  onBottomViewChange={(view) => {
-                    if (view === "settings") {
+                  ))}
+
+                <div className="flex-1 flex overflow-hidden">
+                  <ActivityBar
+                    topView={activityBar.topView}
+                    bottomView={activityBar.bottomView}
+                    compactMode={chrome.compactMode}
+                    onTopViewChange={(view) => {
+                      if (view === "settings") {
+                        dialogs.setShowSettingsModal(true);
+                      } else {
+                        activityBar.setTopView(view);
+                      }
+                    }}
+                    onBottomViewChange={(view) => {
+                      if (view === "settings") {
+                        dialogs.setShowSettingsModal(true);
+                      } else {
+                        activityBar.setBottomView(view);
+                      }
+                    }}
+                    onNewTerminal={activityBar.handleNewTerminalTab}
+                    onOpenAccountSettings={() => {
+                      dialogs.setSettingsInitialCategory("account");
                       dialogs.setShowSettingsModal(true);
-                    } else {
-                      activityBar.setBottomView(view);
-                    }
-                  }}
-                  onNewTerminal={activityBar.handleNewTerminalTab}
-                  onOpenAccountSettings={() => {
-                    dialogs.setSettingsInitialCategory("account");
-                    dialogs.setShowSettingsModal(true);
-                  }}
-                />
+                    }}
+                  />
 
-                {!autoCollapseLeft &&
-                  (activityBar.topView !== "none" || activityBar.bottomView !== "none") && (
-                    <ResizablePanel
-                      side="left"
-                      defaultWidth={chrome.compactMode ? 200 : 256}
-                      minWidth={chrome.compactMode ? 160 : 200}
-                      maxWidth={chrome.compactMode ? 320 : 400}
-                      className=""
-                    >
-                      {(() => {
-                        const topPanel =
-                          activityBar.topView !== "none" ? (
-                            <SidebarPanel
-                              view={activityBar.topView}
-                              {...mainArea.sidebarPanelProps}
-                            />
-                          ) : null;
-                        const bottomPanel =
-                          activityBar.bottomView !== "none" ? (
-                            <SidebarPanel
-                              view={activityBar.bottomView}
-                              {...mainArea.sidebarPanelProps}
-                            />
-                          ) : null;
-
-                        if (topPanel && bottomPanel) {
-                          return <SidebarSplitter top={topPanel} bottom={bottomPanel} />;
-                        }
-
-                        return topPanel || bottomPanel;
-                      })()}
-                    </ResizablePanel>
-                  )}
+                  {!autoCollapseLeft &&
+                    (activityBar.topView !== "none" || activityBar.bottomView !== "none") && (
+                      <ResizablePanel
+                        side="left"
+                        defaultWidth={chrome.compactMode ? 200 : 256}
+                        minWidth={chrome.compactMode ? 160 : 200}
+                        maxWidth={chrome.compactMode ? 320 : 400}
+                        className=""
+                      >
+                        {(() => {
+                          const topPanel =
+                            activityBar.topView !== "none" ? (
+                              <SidebarPanel
+                                view={activityBar.topView}
+                                {...mainArea.sidebarPanelProps}
+                              />
+                            ) : null;
+                          const bottomPanel =
+                            activityBar.bottomView !== "none" ? (
+                              <SidebarPanel
+                                view={activityBar.bottomView}
+                                {...mainArea.sidebarPanelProps}
+                              />
+                            ) : null;
 
-                <main className="flex-1 flex flex-col overflow-hidden min-h-0 relative bg-background">
-                  {mainArea.tabs.length === 0 && (
-                    <div className="absolute inset-0 z-10">
-                      <EmptyEditorState
-                        onNewFile={() => {
-                          if (isProjectMode(mainArea.editorMode)) {
-                            activityBar.setTopView("files");
-                            mainArea.setNewFileTrigger((prev) => prev + 1);
-                          } else {
-                            mainArea.newTab();
+                          if (topPanel && bottomPanel) {
+                            return <SidebarSplitter top={topPanel} bottom={bottomPanel} />;
                           }
-                        }}
-                        onOpenFile={() => void mainArea.openFile()}
-                        onNewTerminal={activityBar.handleNewTerminalTab}
-                      />
-                    </div>
-                  )}
 
-                  {/* Snapshot-diff overlay. Rendered here (not inside the
+                          return topPanel || bottomPanel;
+                        })()}
+                      </ResizablePanel>
+                    )}
+
+                  <main className="flex-1 flex flex-col overflow-hidden min-h-0 relative bg-background">
+                    {mainArea.tabs.length === 0 && (
+                      <div className="absolute inset-0 z-10">
+                        <EmptyEditorState
+                          onNewFile={() => {
+                            if (isProjectMode(mainArea.editorMode)) {
+                              activityBar.setTopView("files");
+                              mainArea.setNewFileTrigger((prev) => prev + 1);
+                            } else {
+                              mainArea.newTab();
+                            }
+                          }}
+                          onOpenFile={() => void mainArea.openFile()}
+                          onNewTerminal={activityBar.handleNewTerminalTab}
+                        />
+                      </div>
+                    )}
+
+                    {/* Snapshot-diff overlay. Rendered here (not inside the
                     dockview panel) so it appears as soon as `editorDiff` is
                     set, independent of dockview's panel re-render timing and
                     of which panel is active. */}
-                  {mainArea.editorDiff && (
-                    <div className="absolute inset-0 z-20 bg-background">
-                      <EditorDiffView
-                        snapshotContent={mainArea.editorDiff.snapshotContent}
-                        currentContent={mainArea.editorDiff.currentContent}
-                        snapshotLabel={mainArea.editorDiff.label}
-                        onClose={() => mainArea.setEditorDiff(null)}
-                      />
-                    </div>
-                  )}
-
-                  {}
-                  <div
-                    className="flex-1 flex flex-col overflow-hidden"
-                    onContextMenu={mainArea.handleTabBarContextMenu}
-                  >
-                    <DockviewReact
-                      className="flex-1 dockview-theme-illusions"
-                      components={{
-                        editor: ({ api: panelApi, params: panelParams }) => {
-                          const panelBufferId = panelParams?.bufferId ?? "";
-                          const panelFilePath = panelParams?.filePath ?? "";
-                          const panelFileType = (panelParams?.fileType ?? ".mdi") as string;
-                          const panelEditorKey = panelParams?.editorKey ?? 0;
-                          const panelActiveTabId = panelParams?.activeTabId ?? "";
-                          const isActivePanel = panelBufferId === panelActiveTabId;
-                          const panelMdiEnabled = panelFileType === ".mdi";
-                          const panelGfmEnabled = panelFileType !== ".txt";
-
-                          const liveTab = mainArea.tabsRef.current.find(
-                            (tab) => tab.id === panelBufferId,
-                          );
-                          const liveEditorTab =
-                            liveTab && isEditorTab(liveTab) ? liveTab : undefined;
-                          const panelContent = liveEditorTab?.content ?? "";
-                          const panelPendingExternalContent =
-                            liveEditorTab?.pendingExternalContent ?? null;
-
-                          // NOTE: the snapshot-diff view is rendered as a
-                          // top-level overlay on <main> (see below), NOT inside
-                          // the dockview panel. Rendering it here depended on the
-                          // panel re-evaluating its closure when `editorDiff`
-                          // changed — which dockview does not reliably do — so
-                          // clicking "比較" appeared to do nothing.
-                          //
-                          // #1878: active / inactive で別 key・別 component を返すと、
-                          // タブ切替で isActivePanel が反転するたびに Milkdown/ProseMirror
-                          // instance が unmount され Undo/Redo history が破棄されていた。
-                          // 同一 key・同一 NovelEditor instance を保ち、active 状態に応じて
-                          // ラッパの挙動（focus 伝播 / クリックでアクティブ化）と
-                          // app 全体に紐づく callback（onEditorViewReady 等）だけを切り替える。
-                          // initialContent は active/inactive 共にライブ content を使い、
-                          // inactive で lastSavedContent を表示して最新 dirty 内容とずれる
-                          // 退行（#1874 関連）も併せて防ぐ。
-                          return (
-                            <ErrorBoundary sectionName="エディタ">
-                              <div
-                                ref={
-                                  isActivePanel
-                                    ? (mainArea.editorDomRef as React.RefObject<HTMLDivElement>)
-                                    : undefined
-                                }
-                                className={isActivePanel ? "h-full" : "h-full cursor-pointer"}
-                                // NOTE: onFocus は子孫（Milkdown contenteditable）からの bubble を利用。
-                                // tabIndex は不要。パネルへのフォーカスを dockview に伝え activeTabId を最新化する。
-                                // 既に active な panel に対する setActive() は dockview 内部で
-                                // content 要素の DOM detach → re-attach を引き起こし scroll を 0 に
-                                // リセットしてしまう (#1457 回帰)。isActive 時はスキップする。
-                                onFocus={() => {
-                                  if (!panelApi.isActive) {
-                                    panelApi.setActive();
-                                  }
-                                }}
-                                onClick={
-                                  isActivePanel
-                                    ? undefined
-                                    : () => {
-                                        mainArea.switchTab(panelBufferId);
-                                        panelApi.setActive();
-                                      }
-                                }
-                              >
-                                <NovelEditor
-                                  // key は active 状態に依存させない。editorKey は表示設定変更などで
-                                  // 真の再マウントが必要なときだけ変わる（タブ切替では変えない #1878）。
-                                  key={buildEditorPanelKey(
-                                    panelBufferId,
-                                    panelFilePath,
-                                    panelEditorKey,
-                                  )}
-                                  initialContent={panelContent}
-                                  // 編集・選択系の callback は app 全体で 1 本の active tab content /
-                                  // selection に書き込むため、active panel のみに配線する。
-                                  // inactive panel の instance は履歴保持のため生かしておくが、
-                                  // それらの編集がアクティブタブの内容を汚さないようにする (#1878)。
-                                  onChange={isActivePanel ? mainArea.handleChange : undefined}
-                                  onInsertText={
-                                    isActivePanel ? mainArea.handleInsertText : undefined
-                                  }
-                                  onSelectionChange={
-                                    isActivePanel ? mainArea.onSelectionChange : undefined
-                                  }
-                                  onSelectionRangeChange={
-                                    isActivePanel ? mainArea.onSelectionRangeChange : undefined
-                                  }
-                                  // 検索の入力/表示は <main> の SearchDialog が担当。
-                                  // pane へは「語を反映」「開く」「トグル」の安定 callback のみ渡す
-                                  // （dockview の凍結クロージャでも安定 ref は機能するため）。
-                                  onSearchTermChange={mainArea.onSearchTermChange}
-                                  onOpenSearchDialog={mainArea.onOpenSearchDialog}
-                                  onToggleSearchDialog={mainArea.onToggleSearchDialog}
-                                  // app 全体に 1 つだけ存在する「アクティブな EditorView」は
-                                  // active panel のみが登録する。inactive panel が登録すると
-                                  // split view で最後にレンダリングされた pane が勝ってしまう。
-                                  onEditorViewReady={
-                                    isActivePanel ? mainArea.setEditorViewInstance : undefined
-                                  }
-                                  registerFlush={isActivePanel ? mainArea.registerFlush : undefined}
-                                  registerWritingModeToggle={
-                                    isActivePanel ? mainArea.registerWritingModeToggle : undefined
-                                  }
-                                  lintingRuleRunner={mainArea.ruleRunner}
-                                  onLintIssuesUpdated={mainArea.handleLintIssuesUpdated}
-                                  onNlpError={mainArea.handleNlpError}
-                                  onOpenSpeechSettings={() => {
-                                    dialogs.setSettingsInitialCategory("speech");
-                                    dialogs.setShowSettingsModal(true);
-                                  }}
-                                  onOpenRubyDialog={mainArea.handleOpenRubyDialog}
-                                  onToggleTcy={mainArea.handleToggleTcy}
-                                  onOpenDictionary={mainArea.handleOpenDictionary}
-                                  onShowLintHint={mainArea.handleShowLintHint}
-                                  onIgnoreCorrection={mainArea.handleIgnoreCorrection}
-                                  onAddToUserDictionary={mainArea.handleAddToUserDictionary}
-                                  dictEntryRuleIds={mainArea.dictEntryRuleIds}
-                                  mdiExtensionsEnabled={panelMdiEnabled}
-                                  gfmEnabled={panelGfmEnabled}
-                                  externalContent={panelPendingExternalContent}
-                                  onExternalContentApplied={() => {
-                                    mainArea.updateTab(panelBufferId, {
-                                      pendingExternalContent: null,
-                                    });
-                                  }}
-                                />
-                              </div>
-                            </ErrorBoundary>
-                          );
-                        },
-                        terminal: TerminalPanel,
-                        diff: DiffPanel,
-                      }}
-                      tabComponents={dockviewTabComponents}
-                      onReady={mainArea.handleDockviewReady}
-                    />
-
-                    {mainArea.tabBarMenu && (
-                      <ContextMenu
-                        menu={mainArea.tabBarMenu}
-                        onAction={mainArea.handleTabBarMenuAction}
-                        onClose={mainArea.closeTabBarMenu}
-                      />
+                    {mainArea.editorDiff && (
+                      <div className="absolute inset-0 z-20 bg-background">
+                        <EditorDiffView
+                          snapshotContent={mainArea.editorDiff.snapshotContent}
+                          currentContent={mainArea.editorDiff.currentContent}
+                          snapshotLabel={mainArea.editorDiff.label}
+                          onClose={() => mainArea.setEditorDiff(null)}
+                        />
+                      </div>
                     )}
-                  </div>
 
-                  {inspector.showSaveToast && (
+                    {}
                     <div
-                      className={`fixed bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-background-elevated border border-border rounded-lg shadow-lg flex items-center gap-2 z-50 ${
-                        inspector.saveToastExiting
-                          ? "animate-save-toast-out"
-                          : "animate-save-toast-in"
-                      }`}
+                      className="flex-1 flex flex-col overflow-hidden"
+                      onContextMenu={mainArea.handleTabBarContextMenu}
                     >
-                      <span className="text-success text-sm font-medium">✓</span>
-                      <span className="text-foreground-secondary text-sm">保存完了</span>
+                      <ManuscriptPaperContext.Provider
+                        value={providers.manuscriptPaperContextValue}
+                      >
+                        <DockviewReact
+                          className="flex-1 dockview-theme-illusions"
+                          components={{
+                            editor: ({ api: panelApi, params: panelParams }) => {
+                              const panelBufferId = panelParams?.bufferId ?? "";
+                              const panelFilePath = panelParams?.filePath ?? "";
+                              const panelFileType = (panelParams?.fileType ?? ".mdi") as string;
+                              const panelEditorKey = panelParams?.editorKey ?? 0;
+                              const panelActiveTabId = panelParams?.activeTabId ?? "";
+                              const isActivePanel = panelBufferId === panelActiveTabId;
+                              const panelMdiEnabled = panelFileType === ".mdi";
+                              const panelGfmEnabled = panelFileType !== ".txt";
+
+                              const liveTab = mainArea.tabsRef.current.find(
+                                (tab) => tab.id === panelBufferId,
+                              );
+                              const liveEditorTab =
+                                liveTab && isEditorTab(liveTab) ? liveTab : undefined;
+                              const panelContent = liveEditorTab?.content ?? "";
+                              const panelPendingExternalContent =
+                                liveEditorTab?.pendingExternalContent ?? null;
+
+                              // NOTE: the snapshot-diff view is rendered as a
+                              // top-level overlay on <main> (see below), NOT inside
+                              // the dockview panel. Rendering it here depended on the
+                              // panel re-evaluating its closure when `editorDiff`
+                              // changed — which dockview does not reliably do — so
+                              // clicking "比較" appeared to do nothing.
+                              //
+                              // #1878: active / inactive で別 key・別 component を返すと、
+                              // タブ切替で isActivePanel が反転するたびに Milkdown/ProseMirror
+                              // instance が unmount され Undo/Redo history が破棄されていた。
+                              // 同一 key・同一 NovelEditor instance を保ち、active 状態に応じて
+                              // ラッパの挙動（focus 伝播 / クリックでアクティブ化）と
+                              // app 全体に紐づく callback（onEditorViewReady 等）だけを切り替える。
+                              // initialContent は active/inactive 共にライブ content を使い、
+                              // inactive で lastSavedContent を表示して最新 dirty 内容とずれる
+                              // 退行（#1874 関連）も併せて防ぐ。
+                              return (
+                                <ErrorBoundary sectionName="エディタ">
+                                  <div
+                                    ref={
+                                      isActivePanel
+                                        ? (mainArea.editorDomRef as React.RefObject<HTMLDivElement>)
+                                        : undefined
+                                    }
+                                    className={isActivePanel ? "h-full" : "h-full cursor-pointer"}
+                                    // NOTE: onFocus は子孫（Milkdown contenteditable）からの bubble を利用。
+                                    // tabIndex は不要。パネルへのフォーカスを dockview に伝え activeTabId を最新化する。
+                                    // 既に active な panel に対する setActive() は dockview 内部で
+                                    // content 要素の DOM detach → re-attach を引き起こし scroll を 0 に
+                                    // リセットしてしまう (#1457 回帰)。isActive 時はスキップする。
+                                    onFocus={() => {
+                                      if (!panelApi.isActive) {
+                                        panelApi.setActive();
+                                      }
+                                    }}
+                                    onClick={
+                                      isActivePanel
+                                        ? undefined
+                                        : () => {
+                                            mainArea.switchTab(panelBufferId);
+                                            panelApi.setActive();
+                                          }
+                                    }
+                                  >
+                                    <NovelEditor
+                                      // key は active 状態に依存させない。editorKey は表示設定変更などで
+                                      // 真の再マウントが必要なときだけ変わる（タブ切替では変えない #1878）。
+                                      key={buildEditorPanelKey(
+                                        panelBufferId,
+                                        panelFilePath,
+                                        panelEditorKey,
+                                      )}
+                                      initialContent={panelContent}
+                                      // 編集・選択系の callback は app 全体で 1 本の active tab content /
+                                      // selection に書き込むため、active panel のみに配線する。
+                                      // inactive panel の instance は履歴保持のため生かしておくが、
+                                      // それらの編集がアクティブタブの内容を汚さないようにする (#1878)。
+                                      onChange={isActivePanel ? mainArea.handleChange : undefined}
+                                      onInsertText={
+                                        isActivePanel ? mainArea.handleInsertText : undefined
+                                      }
+                                      onSelectionChange={
+                                        isActivePanel ? mainArea.onSelectionChange : undefined
+                                      }
+                                      onSelectionRangeChange={
+                                        isActivePanel ? mainArea.onSelectionRangeChange : undefined
+                                      }
+                                      // 検索の入力/表示は <main> の SearchDialog が担当。
+                                      // pane へは「語を反映」「開く」「トグル」の安定 callback のみ渡す
+                                      // （dockview の凍結クロージャでも安定 ref は機能するため）。
+                                      onSearchTermChange={mainArea.onSearchTermChange}
+                                      onOpenSearchDialog={mainArea.onOpenSearchDialog}
+                                      onToggleSearchDialog={mainArea.onToggleSearchDialog}
+                                      // app 全体に 1 つだけ存在する「アクティブな EditorView」は
+                                      // active panel のみが登録する。inactive panel が登録すると
+                                      // split view で最後にレンダリングされた pane が勝ってしまう。
+                                      onEditorViewReady={
+                                        isActivePanel ? mainArea.setEditorViewInstance : undefined
+                                      }
+                                      registerFlush={
+                                        isActivePanel ? mainArea.registerFlush : undefined
+                                      }
+                                      onCreateRestorePoint={
+                                        isActivePanel
+                                          ? mainArea.handleCreateRestorePoint
+                                          : undefined
+                                      }
+                                      registerWritingModeToggle={
+                                        isActivePanel
+                                          ? mainArea.registerWritingModeToggle
+                                          : undefined
+                                      }
+                                      lintingRuleRunner={mainArea.ruleRunner}
+                                      onLintIssuesUpdated={mainArea.handleLintIssuesUpdated}
+                                      onNlpError={mainArea.handleNlpError}
+                                      onOpenSpeechSettings={() => {
+                                        dialogs.setSettingsInitialCategory("speech");
+                                        dialogs.setShowSettingsModal(true);
+                                      }}
+                                      onOpenRubyDialog={mainArea.handleOpenRubyDialog}
+                                      onToggleTcy={mainArea.handleToggleTcy}
+                                      onOpenDictionary={mainArea.handleOpenDictionary}
+                                      onShowLintHint={mainArea.handleShowLintHint}
+                                      onIgnoreCorrection={mainArea.handleIgnoreCorrection}
+                                      onAddToUserDictionary={mainArea.handleAddToUserDictionary}
+                                      dictEntryRuleIds={mainArea.dictEntryRuleIds}
+                                      mdiExtensionsEnabled={panelMdiEnabled}
+                                      gfmEnabled={panelGfmEnabled}
+                                      externalContent={panelPendingExternalContent}
+                                      onExternalContentApplied={() => {
+                                        mainArea.updateTab(panelBufferId, {
+                                          pendingExternalContent: null,
+                                        });
+                                      }}
+                                    />
+                                  </div>
+                                </ErrorBoundary>
+                              );
+                            },
+                            terminal: TerminalPanel,
+                            diff: DiffPanel,
+                            compare: ComparePanel,
+                            graph: RelationshipGraphPanel,
+                            scenes: SceneBoardPanel,
+                            dashboard: StatsDashboardPanel,
+                            manuscript: ManuscriptPaperPanel,
+                          }}
+                          tabComponents={dockviewTabComponents}
+                          onReady={mainArea.handleDockviewReady}
+                        />
+                      </ManuscriptPaperContext.Provider>
+
+                      {mainArea.tabBarMenu && (
+                        <ContextMenu
+                          menu={mainArea.tabBarMenu}
+                          onAction={mainArea.handleTabBarMenuAction}
+                          onClose={mainArea.closeTabBarMenu}
+                        />
+                      )}
                     </div>
-                  )}
 
-                  {/* フローティング検索窓。dockview パネル外（<main> 直下）でレンダリング
+                    {inspector.showSaveToast && (
+                      <div
+                        className={`fixed bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-background-elevated border border-border rounded-lg shadow-lg flex items-center gap-2 z-50 ${
+                          inspector.saveToastExiting
+                            ? "animate-save-toast-out"
+                            : "animate-save-toast-in"
+                        }`}
+                      >
+                        <span className="text-success text-sm font-medium">✓</span>
+                        <span className="text-foreground-secondary text-sm">保存完了</span>
+                      </div>
+                    )}
+
+                    {/* フローティング検索窓。dockview パネル外（<main> 直下）でレンダリング
                     することで、共有検索 state（searchTerm/matches など変化する値）を
                     live に受け取れる。portal で document.body 直下に出るため、anchorRef
                     にはアクティブエディタの DOM を渡して初期位置を計算する。 */}
-                  <SearchDialog
-                    isOpen={mainArea.isSearchDialogOpen}
-                    onClose={mainArea.onCloseSearchDialog}
-                    onShowAllResults={mainArea.handleShowAllSearchResults}
-                    searchTerm={mainArea.searchTerm}
-                    onSearchTermChange={mainArea.onSearchTermChange}
-                    caseSensitive={mainArea.caseSensitive}
-                    onCaseSensitiveChange={mainArea.onCaseSensitiveChange}
-                    matches={mainArea.searchMatches}
-                    currentMatchIndex={mainArea.currentMatchIndex}
-                    onCurrentMatchIndexChange={mainArea.onCurrentMatchIndexChange}
-                    anchorRef={mainArea.editorDomRef}
-                  />
-                </main>
-
-                <ResizablePanel
-                  side="right"
-                  defaultWidth={chrome.compactMode ? 200 : 256}
-                  minWidth={chrome.compactMode ? 160 : 200}
-                  maxWidth={chrome.compactMode ? 320 : 400}
-                  collapsible={true}
-                  isCollapsed={
-                    inspector.isRightPanelCollapsed ||
-                    autoCollapseRight ||
-                    mainArea.tabs.length === 0
-                  }
-                  onToggleCollapse={inspector.handleToggleRightPanel}
-                >
-                  <ErrorBoundary sectionName="インスペクタ">
-                    {inspector.activeEditorTab ? (
-                      <Inspector {...inspector.props} />
-                    ) : (
-                      <div className="h-full flex items-center justify-center p-4">
-                        <p className="text-foreground-secondary text-sm text-center">
-                          インスペクタはエディタタブでのみ使用できます
-                        </p>
-                      </div>
-                    )}
-                  </ErrorBoundary>
-                </ResizablePanel>
+                    <SearchDialog
+                      isOpen={mainArea.isSearchDialogOpen}
+                      onClose={mainArea.onCloseSearchDialog}
+                      onShowAllResults={mainArea.handleShowAllSearchResults}
+                      searchTerm={mainArea.searchTerm}
+                      onSearchTermChange={mainArea.onSearchTermChange}
+                      caseSensitive={mainArea.caseSensitive}
+                      onCaseSensitiveChange={mainArea.onCaseSensitiveChange}
+                      matches={mainArea.searchMatches}
+                      currentMatchIndex={mainArea.currentMatchIndex}
+                      onCurrentMatchIndexChange={mainArea.onCurrentMatchIndexChange}
+                      anchorRef={mainArea.editorDomRef}
+                    />
+                  </main>
+
+                  <ResizablePanel
+                    side="right"
+                    defaultWidth={chrome.compactMode ? 200 : 256}
+                    minWidth={chrome.compactMode ? 160 : 200}
+                    maxWidth={chrome.compactMode ? 320 : 400}
+                    collapsible={true}
+                    isCollapsed={
+                      inspector.isRightPanelCollapsed ||
+                      autoCollapseRight ||
+                      mainArea.tabs.length === 0
+                    }
+                    onToggleCollapse={inspector.handleToggleRightPanel}
+                  >
+                    <ErrorBoundary sectionName="インスペクタ">
+                      {inspector.activeEditorTab ? (
+                        <Inspector {...inspector.props} />
+                      ) : (
+                        <div className="h-full flex items-center justify-center p-4">
+                          <p className="text-foreground-secondary text-sm text-center">
+                            インスペクタはエディタタブでのみ使用できます
+                          </p>
+                        </div>
+                      )}
+                    </ErrorBoundary>
+                  </ResizablePanel>
+                </div>
               </div>
-            </div>
-          </IgnoredCorrectionsProvider>
-        </EditorSettingsProvider>
+            </IgnoredCorrectionsProvider>
+          </EditorSettingsProvider>
+        </SceneBoardContext.Provider>
       </TerminalTabContext.Provider>
     </DiffTabContext.Provider>
   );
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import clsx from "clsx";
 import GlassDialog from "@/shared/ui/GlassDialog";
 import {
@@ -13,6 +13,10 @@ import {
 } from "@/lib/export/export-settings";
 import { FontSelector } from "@/components/explorer/FontSelector";
 import { PageSizeSelector } from "@/components/PageSizeSelector";
+import ProjectCompileList from "@/components/ProjectCompileList";
+import ContestPreflightSection from "@/components/ContestPreflightSection";
+import { useProjectCompile } from "@/lib/export/use-project-compile";
+import { MANUSCRIPT_GRIDS, isManuscriptGridId } from "@/lib/export/manuscript-paper";
 import { isElectronRenderer } from "@/lib/utils/runtime-env";
 import { useAuthSafe } from "@/contexts/AuthContext";
 
@@ -24,7 +28,8 @@ import type {
 import type { PdfExportSettings } from "@/lib/export/pdf-export-settings";
 import type { DocxExportSettings } from "@/lib/export/docx-export-settings";
 import type { EpubExportOptions, ChapterSplitLevel } from "@/lib/export/epub-shared";
-import type { ExportMetadata } from "@/lib/export/types";
+import type { ExportMetadata, ExportSource } from "@/lib/export/types";
+import type { SupportedFileExtension } from "@/lib/project/project-types";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -32,6 +37,9 @@ import type { ExportMetadata } from "@/lib/export/types";
 
 export type ExportDialogFormat = "pdf" | "docx" | "epub";
 
+/** What to export: the active document, or the whole project compiled into one book. */
+type ExportScope = "document" | "project";
+
 // ---------------------------------------------------------------------------
 // Props
 // ---------------------------------------------------------------------------
@@ -41,9 +49,9 @@ interface ExportDialogProps {
   mode?: "export" | "print";
   initialFormat: ExportDialogFormat;
   onClose: () => void;
-  onExportPdf: (settings: PdfExportSettings) => void;
-  onExportDocx: (settings: DocxExportSettings) => void;
-  onExportEpub?: (options: EpubExportOptions) => void;
+  onExportPdf: (settings: PdfExportSettings, source: ExportSource) => void;
+  onExportDocx: (settings: DocxExportSettings, source: ExportSource) => void;
+  onExportEpub?: (options: EpubExportOptions, source: ExportSource) => void;
   content: string;
   metadata: ExportMetadata;
   /**
@@ -51,7 +59,17 @@ interface ExportDialogProps {
    * pipeline un-escapes MDI macros only for ".mdi" and preserves \[\[blank]]
    * literals in ".md"/".txt". Absent → ".mdi".
    */
-  fileType?: string;
+  fileType?: SupportedFileExtension;
+  /**
+   * Book metadata of the open project (project mode only). Enables the
+   * "プロジェクト全体" scope, which exports every manuscript file as one book.
+   */
+  projectMetadata?: ExportMetadata | null;
+  /**
+   * Text of open tabs with unsaved edits, keyed by project-relative path.
+   * The "プロジェクト全体" scope compiles these instead of the saved files.
+   */
+  unsavedContents?: ReadonlyMap<string, string>;
 }
 
 // ---------------------------------------------------------------------------
@@ -80,6 +98,8 @@ const CHAPTER_SPLIT_OPTIONS: { value: ChapterSplitLevel; label: string }[] = [
   { value: "none", label: "分割しない" },
 ];
 
+const NO_UNSAVED_CONTENTS: ReadonlyMap<string, string> = new Map();
+
 const inputClass =
   "w-full px-3 py-2 border border-border-secondary rounded-lg bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-accent";
 const numberInputClass =
@@ -121,6 +141,8 @@ export default function ExportDialog({
   content,
   metadata,
   fileType,
+  projectMetadata,
+  unsavedContents,
 }: ExportDialogProps): React.ReactNode {
   if (!isOpen) return null;
   return (
@@ -134,6 +156,8 @@ export default function ExportDialog({
       content={content}
       metadata={metadata}
       fileType={fileType}
+      projectMetadata={projectMetadata}
+      unsavedContents={unsavedContents}
     />
   );
 }
@@ -148,8 +172,12 @@ function ExportDialogInner({
   content,
   metadata,
   fileType,
+  projectMetadata,
+  unsavedContents = NO_UNSAVED_CONTENTS,
 }: Omit<ExportDialogProps, "isOpen">) {
   const [selectedFormat, setSelectedFormat] = useState<ExportDialogFormat>(initialFormat);
+  const [scope, setScope] = useState<ExportScope>("document");
+  const isProjectScope = scope === "project" && mode === "export" && !!projectMetadata;
   const [settings, setSettings] = useState<UnifiedExportSettings>(() => ({
     ...DEFAULT_EXPORT_SETTINGS,
   }));
@@ -166,6 +194,9 @@ function ExportDialogInner({
   }, []);
 
   const isEpub = selectedFormat === "epub";
+  // The 原稿用紙 preset applies to PDF export and print only
+  const isPdfLayout = mode === "print" || selectedFormat === "pdf";
+  const isManuscriptPaper = isPdfLayout && settings.pdfManuscriptPaper;
   const isElectron = typeof window !== "undefined" && isElectronRenderer();
   const hasPreviewApi = isElectron && !!window.electronAPI?.generatePdfPreview;
 
@@ -184,6 +215,20 @@ function ExportDialogInner({
     }
   }, [authUserName]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // --- Export source: the active document, or the compiled project ---
+  const projectCompile = useProjectCompile(
+    isProjectScope,
+    projectMetadata?.title ?? "",
+    projectMetadata?.author ?? "",
+    unsavedContents,
+  );
+  const documentSource = useMemo<ExportSource>(
+    () => ({ content, metadata, fileType: fileType ?? ".mdi" }),
+    [content, metadata, fileType],
+  );
+  // Null while the project is being compiled.
+  const source = isProjectScope ? projectCompile.source : documentSource;
+
   // --- Cover image state ---
   const [coverImage, setCoverImage] = useState<Uint8Array | null>(null);
   const [coverMediaType, setCoverMediaType] = useState<string | null>(null);
@@ -256,48 +301,64 @@ function ExportDialogInner({
     [handleCoverFile],
   );
 
-  // --- Export handler ---
-  const handleExport = useCallback(() => {
-    void saveExportSettings(settings);
-
-    if (isEpub && onExportEpub) {
-      const options = toEpubExportOptions(
-        settings,
-        {
-          title: epubTitle || metadata.title,
-          author: epubAuthor || metadata.author,
-          language: metadata.language ?? "ja",
-        },
-        coverImage ?? undefined,
-        coverMediaType ?? undefined,
-      );
-      onExportEpub(options);
-      return;
-    }
+  // --- Export handler (`override`: settings just applied from a contest profile) ---
+  const handleExport = useCallback(
+    (override?: UnifiedExportSettings) => {
+      if (!source) return;
+      const current = override ?? settings;
+      void saveExportSettings(current);
+
+      if (isEpub && onExportEpub) {
+        const options = toEpubExportOptions(
+          current,
+          {
+            // A compiled project takes its title and author from the compile settings.
+            title: isProjectScope ? source.metadata.title : epubTitle || metadata.title,
+            author: isProjectScope ? source.metadata.author : epubAuthor || metadata.author,
+            language: metadata.language ?? "ja",
+          },
+          coverImage ?? undefined,
+          coverMediaType ?? undefined,
+        );
+        onExportEpub(options, source);
+        return;
+      }
 
-    if (mode === "print" || selectedFormat === "pdf") {
-      onExportPdf(toPdfExportSettings(settings));
-    } else {
-      onExportDocx(toDocxExportSettings(settings));
-    }
-  }, [
-    settings,
-    selectedFormat,
-    mode,
-    isEpub,
-    onExportPdf,
-    onExportDocx,
-    onExportEpub,
-    epubTitle,
-    epubAuthor,
-    metadata,
-    coverImage,
-    coverMediaType,
-  ]);
+      if (mode === "print" || selectedFormat === "pdf") {
+        onExportPdf(toPdfExportSettings(current), source);
+      } else {
+        onExportDocx(toDocxExportSettings(current), source);
+      }
+    },
+    [
+      source,
+      isProjectScope,
+      settings,
+      selectedFormat,
+      mode,
+      isEpub,
+      onExportPdf,
+      onExportDocx,
+      onExportEpub,
+      epubTitle,
+      epubAuthor,
+      metadata,
+      coverImage,
+      coverMediaType,
+    ],
+  );
+
+  const handleApplyContestAndExport = useCallback(
+    (next: UnifiedExportSettings) => {
+      setSettings(next);
+      handleExport(next);
+    },
+    [handleExport],
+  );
 
   // --- Electron: debounced PDF preview generation ---
   useEffect(() => {
-    if (!hasPreviewApi || isEpub) return;
+    if (!hasPreviewApi || isEpub || !source) return;
 
     if (previewTimeoutRef.current) clearTimeout(previewTimeoutRef.current);
 
@@ -309,8 +370,8 @@ function ExportDialogInner({
       const previewSettings = toPdfExportSettings(settings);
 
       try {
-        const result = await window.electronAPI!.generatePdfPreview!(content, {
-          metadata,
+        const result = await window.electronAPI!.generatePdfPreview!(source.content, {
+          metadata: source.metadata,
           verticalWriting: settings.verticalWriting,
           pageSize: previewSettings.pageSize,
           landscape: previewSettings.landscape,
@@ -324,7 +385,9 @@ function ExportDialogInner({
           textIndent: previewSettings.textIndent,
           fullwidthSpaceIndent: previewSettings.fullwidthSpaceIndent,
           googleFontFamily: previewSettings.googleFontFamily,
-          fileType,
+          fileType: source.fileType,
+          chapterBreakLevel: source.chapterBreakLevel,
+          manuscriptGrid: isPdfLayout ? previewSettings.manuscriptGrid : undefined,
         });
 
         if (id !== generationIdRef.current) return;
@@ -354,7 +417,7 @@ function ExportDialogInner({
       if (previewTimeoutRef.current) clearTimeout(previewTimeoutRef.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [hasPreviewApi, settings, selectedFormat, content, metadata, fileType]);
+  }, [hasPreviewApi, settings, selectedFormat, source]);
 
   // Cleanup blob URLs on unmount (refs always hold the latest values)
   useEffect(() => {
@@ -414,6 +477,31 @@ function ExportDialogInner({
                 ))}
               </div>
             )}
+            {/* Scope toggle (project mode only) */}
+            {mode !== "print" && projectMetadata && (
+              <div className="flex gap-1 p-1 mt-2 bg-background-secondary rounded-lg">
+                {(
+                  [
+                    ["document", "この文書"],
+                    ["project", "プロジェクト全体"],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    className={clsx(
+                      "flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                      scope === value
+                        ? "bg-accent text-accent-foreground shadow-sm"
+                        : "text-foreground-secondary hover:text-foreground",
+                    )}
+                    onClick={() => setScope(value)}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
 
           <div
@@ -422,6 +510,34 @@ function ExportDialogInner({
               isEpub && "max-w-lg mx-auto w-full",
             )}
           >
+            {/* ══════════════════════════════════════════════════════════ */}
+            {/* Project scope: compile order and front matter            */}
+            {/* ══════════════════════════════════════════════════════════ */}
+            {isProjectScope && (
+              <>
+                {projectCompile.error && (
+                  <p className="text-xs text-danger">{projectCompile.error}</p>
+                )}
+                {projectCompile.unsavedPaths.length > 0 && (
+                  <p className="text-xs text-foreground-secondary">
+                    未保存の変更がある{projectCompile.unsavedPaths.length}
+                    件のファイルは、編集中の内容で書き出します。
+                  </p>
+                )}
+                {projectCompile.manifest ? (
+                  <ProjectCompileList
+                    manifest={projectCompile.manifest}
+                    onChange={projectCompile.update}
+                  />
+                ) : (
+                  !projectCompile.error && (
+                    <p className="text-sm text-foreground-tertiary">読み込み中…</p>
+                  )
+                )}
+                <hr className="border-border" />
+              </>
+            )}
+
             {/* ══════════════════════════════════════════════════════════ */}
             {/* EPUB-only: Metadata section                              */}
             {/* ══════════════════════════════════════════════════════════ */}
@@ -476,29 +592,33 @@ function ExportDialogInner({
                   )}
                 </div>
 
-                {/* Title */}
-                <div>
-                  <label className={labelClass}>書名</label>
-                  <input
-                    type="text"
-                    className={inputClass}
-                    value={epubTitle}
-                    onChange={(e) => setEpubTitle(e.target.value)}
-                    placeholder={metadata.title || "タイトルを入力"}
-                  />
-                </div>
+                {/* Title / author (a compiled project uses the compile settings instead) */}
+                {!isProjectScope && (
+                  <>
+                    <div>
+                      <label className={labelClass}>書名</label>
+                      <input
+                        type="text"
+                        className={inputClass}
+                        value={epubTitle}
+                        onChange={(e) => setEpubTitle(e.target.value)}
+                        placeholder={metadata.title || "タイトルを入力"}
+                      />
+                    </div>
 
-                {/* Author */}
-                <div>
-                  <label className={labelClass}>著者名</label>
-                  <input
-                    type="text"
-                    className={inputClass}
-                    value={epubAuthor}
-                    onChange={(e) => setEpubAuthor(e.target.value)}
-                    placeholder="著者名を入力"
-                  />
-                </div>
+                    {/* Author */}
+                    <div>
+                      <label className={labelClass}>著者名</label>
+                      <input
+                        type="text"
+                        className={inputClass}
+                        value={epubAuthor}
+                        onChange={(e) => setEpubAuthor(e.target.value)}
+                        placeholder="著者名を入力"
+                      />
+                    </div>
+                  </>
+                )}
 
                 {/* Publisher */}
                 <div>
@@ -524,23 +644,25 @@ function ExportDialogInner({
                   />
                 </div>
 
-                {/* Chapter split */}
-                <div>
-                  <label className={labelClass}>章の分割</label>
-                  <select
-                    className={inputClass}
-                    value={settings.epubChapterSplitLevel}
-                    onChange={(e) =>
-                      updateField("epubChapterSplitLevel", e.target.value as ChapterSplitLevel)
-                    }
-                  >
-                    {CHAPTER_SPLIT_OPTIONS.map((opt) => (
-                      <option key={opt.value} value={opt.value}>
-                        {opt.label}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+                {/* Chapter split (a compiled project splits at its parts and chapters) */}
+                {!isProjectScope && (
+                  <div>
+                    <label className={labelClass}>章の分割</label>
+                    <select
+                      className={inputClass}
+                      value={settings.epubChapterSplitLevel}
+                      onChange={(e) =>
+                        updateField("epubChapterSplitLevel", e.target.value as ChapterSplitLevel)
+                      }
+                    >
+                      {CHAPTER_SPLIT_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>
+                          {opt.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
 
                 <hr className="border-border" />
               </>
@@ -551,6 +673,75 @@ function ExportDialogInner({
             {/* ══════════════════════════════════════════════════════════ */}
             {!isEpub && (
               <>
+                {/* Contest submission preflight (export only) */}
+                {mode === "export" && (
+                  <>
+                    <ContestPreflightSection
+                      source={source}
+                      settings={settings}
+                      isProject={!!projectMetadata}
+                      onApplyLayout={setSettings}
+                      onApplyAndExport={handleApplyContestAndExport}
+                    />
+                    <hr className="border-border" />
+                  </>
+                )}
+
+                {/* Layout preset (PDF/print only) */}
+                {isPdfLayout && (
+                  <div>
+                    <label className={labelClass}>レイアウト</label>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        className={clsx(
+                          "flex-1 px-3 py-2 rounded-lg border text-sm transition-colors",
+                          !settings.pdfManuscriptPaper
+                            ? "bg-accent text-accent-foreground border-accent"
+                            : "bg-background text-foreground-secondary border-border-secondary hover:bg-hover",
+                        )}
+                        onClick={() => updateField("pdfManuscriptPaper", false)}
+                      >
+                        通常
+                      </button>
+                      <button
+                        type="button"
+                        className={clsx(
+                          "flex-1 px-3 py-2 rounded-lg border text-sm transition-colors",
+                          settings.pdfManuscriptPaper
+                            ? "bg-accent text-accent-foreground border-accent"
+                            : "bg-background text-foreground-secondary border-border-secondary hover:bg-hover",
+                        )}
+                        onClick={() => updateField("pdfManuscriptPaper", true)}
+                      >
+                        原稿用紙
+                      </button>
+                    </div>
+                    {settings.pdfManuscriptPaper && (
+                      <>
+                        <select
+                          className={inputClass + " mt-2"}
+                          value={settings.pdfManuscriptGrid}
+                          onChange={(e) => {
+                            if (isManuscriptGridId(e.target.value)) {
+                              updateField("pdfManuscriptGrid", e.target.value);
+                            }
+                          }}
+                        >
+                          {MANUSCRIPT_GRIDS.map((grid) => (
+                            <option key={grid.id} value={grid.id}>
+                              {grid.label}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-foreground-tertiary mt-1">
+                          原稿用紙換算と同じ改行・禁則処理でマス目に組みます。ルビは行間に、縦中横は1マスに収めます。一行の文字数・一頁の行数・字下げは使いません。
+                        </p>
+                      </>
+                    )}
+                  </div>
+                )}
+
                 {/* Paper size */}
                 <div>
                   <label className={labelClass}>用紙サイズ</label>
@@ -633,8 +824,8 @@ function ExportDialogInner({
 
             {/* ── Typography section ── */}
 
-            {/* Chars per line + Lines per page (PDF/DOCX only) */}
-            {!isEpub && (
+            {/* Chars per line + Lines per page (PDF/DOCX only; fixed by the 原稿用紙 grid) */}
+            {!isEpub && !isManuscriptPaper && (
               <div className="grid grid-cols-2 gap-3">
                 <div>
                   <label className={labelClass}>一行の文字数</label>
@@ -672,22 +863,24 @@ function ExportDialogInner({
               />
             </div>
 
-            {/* Indent (shared) */}
-            <div>
-              <label className={labelClass}>字下げ（em）</label>
-              <input
-                type="number"
-                className={numberInputClass + " w-full"}
-                min={0}
-                max={4}
-                step={0.5}
-                value={settings.textIndent}
-                onChange={(e) => updateField("textIndent", clampFloat(e.target.value, 0, 4))}
-              />
-            </div>
+            {/* Indent (shared; the 原稿用紙 grid keeps the text's own spaces) */}
+            {!isManuscriptPaper && (
+              <div>
+                <label className={labelClass}>字下げ（em）</label>
+                <input
+                  type="number"
+                  className={numberInputClass + " w-full"}
+                  min={0}
+                  max={4}
+                  step={0.5}
+                  value={settings.textIndent}
+                  onChange={(e) => updateField("textIndent", clampFloat(e.target.value, 0, 4))}
+                />
+              </div>
+            )}
 
             {/* Full-width-space indent toggle (PDF/DOCX only) */}
-            {!isEpub && (
+            {!isEpub && !isManuscriptPaper && (
               <div>
                 <div className="flex items-center justify-between">
                   <label className={labelClass + " mb-0"}>全角スペースで字下げ</label>
@@ -821,8 +1014,9 @@ function ExportDialogInner({
           <div className="flex flex-col gap-2 px-6 py-4 border-t border-border flex-shrink-0">
             <button
               type="button"
-              className="w-full px-4 py-2 rounded-lg text-sm bg-accent text-accent-foreground hover:bg-accent-hover transition-colors"
-              onClick={handleExport}
+              className="w-full px-4 py-2 rounded-lg text-sm bg-accent text-accent-foreground hover:bg-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              onClick={() => handleExport()}
+              disabled={!source}
             >
               {actionLabel}
             </button>
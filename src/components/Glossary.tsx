@@ -0,0 +1,375 @@
+"use client";
+
+import { useState, useCallback, useEffect, useMemo, memo } from "react";
+import { Plus, Check, X, Pencil, Trash2, Search } from "lucide-react";
+
+import { getGlossaryService, subscribeGlossaryChange } from "@/lib/services/glossary-service";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { EditorMode, GlossaryEntry } from "@/lib/project/project-types";
+import { formatTags, parseTags } from "./Characters/character-fields";
+
+/** Group heading of entries without a category. */
+const UNCATEGORIZED = "未分類";
+
+const INPUT_CLASS =
+  "w-full px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent";
+
+interface GlossaryProps {
+  editorMode?: EditorMode;
+}
+
+/** Form fields of an entry being added or edited (variants as typed). */
+interface GlossaryDraft {
+  id: string | null;
+  term: string;
+  reading: string;
+  category: string;
+  definition: string;
+  variantsText: string;
+}
+
+const EMPTY_DRAFT: GlossaryDraft = {
+  id: null,
+  term: "",
+  reading: "",
+  category: "",
+  definition: "",
+  variantsText: "",
+};
+
+function toDraft(entry: GlossaryEntry): GlossaryDraft {
+  return {
+    id: entry.id,
+    term: entry.term,
+    reading: entry.reading ?? "",
+    category: entry.category ?? "",
+    definition: entry.definition,
+    variantsText: formatTags(entry.variants),
+  };
+}
+
+function matchesQuery(entry: GlossaryEntry, query: string): boolean {
+  if (!query) return true;
+  return [entry.term, entry.reading, entry.category, entry.definition, ...entry.variants].some(
+    (field) => field?.includes(query),
+  );
+}
+
+/** Entries grouped by category, categories in first-seen order and 未分類 last. */
+function groupByCategory(entries: readonly GlossaryEntry[]): Array<[string, GlossaryEntry[]]> {
+  const groups = new Map<string, GlossaryEntry[]>();
+  for (const entry of entries) {
+    const category = entry.category || UNCATEGORIZED;
+    const list = groups.get(category) ?? [];
+    list.push(entry);
+    groups.set(category, list);
+  }
+  const uncategorized = groups.get(UNCATEGORIZED);
+  groups.delete(UNCATEGORIZED);
+  const result = [...groups];
+  if (uncategorized) result.push([UNCATEGORIZED, uncategorized]);
+  return result;
+}
+
+/**
+ * 用語集 panel: the project's world-building terms. Project mode only — the
+ * glossary lives in .illusions/glossary.json. Remounts per project so a
+ * pending write never lands in the project opened next.
+ */
+function Glossary({ editorMode = null }: GlossaryProps) {
+  if (!isProjectMode(editorMode)) {
+    return (
+      <div className="h-full bg-background-secondary flex flex-col">
+        <div className="p-4 border-b border-border">
+          <h2 className="text-lg font-semibold text-foreground">用語集</h2>
+        </div>
+        <div className="p-4 text-center text-foreground-secondary text-sm">
+          <p>用語集はプロジェクトで利用できます</p>
+          <p className="mt-1 text-xs">プロジェクトを開くと用語を登録できます</p>
+        </div>
+      </div>
+    );
+  }
+  return <GlossaryList key={editorMode.projectId} />;
+}
+
+function GlossaryList() {
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [draft, setDraft] = useState<GlossaryDraft | null>(null);
+
+  // Load on mount and again after every write (the service notifies after
+  // saves from this panel too, which keeps the sorted order authoritative).
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getGlossaryService()
+        .loadEntries()
+        .then((loaded) => {
+          if (!cancelled) setEntries(loaded);
+        })
+        .catch((err: unknown) => {
+          console.error("Failed to load glossary:", err);
+          if (!cancelled) setError("用語集を読み込めませんでした");
+        });
+    };
+    load();
+    const unsubscribe = subscribeGlossaryChange(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!draft || !draft.term.trim()) return;
+    const entry: GlossaryEntry = {
+      id: draft.id ?? crypto.randomUUID(),
+      term: draft.term,
+      reading: draft.reading,
+      category: draft.category,
+      definition: draft.definition.trim(),
+      variants: parseTags(draft.variantsText),
+    };
+    try {
+      setEntries(await getGlossaryService().upsertEntry(entry));
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to save glossary entry:", err);
+      setError("用語を保存できませんでした");
+    }
+  }, [draft]);
+
+  const handleDelete = useCallback(async (entry: GlossaryEntry) => {
+    try {
+      setEntries(await getGlossaryService().removeEntry(entry.id));
+      setDraft((prev) => (prev?.id === entry.id ? null : prev));
+    } catch (err) {
+      console.error("Failed to delete glossary entry:", err);
+      setError("用語を削除できませんでした");
+    }
+  }, []);
+
+  const groups = useMemo(
+    () => groupByCategory(entries.filter((e) => matchesQuery(e, query.trim()))),
+    [entries, query],
+  );
+  const categories = useMemo(
+    () => [...new Set(entries.flatMap((e) => (e.category ? [e.category] : [])))],
+    [entries],
+  );
+
+  return (
+    <div className="h-full bg-background-secondary flex flex-col">
+      {/* Header */}
+      <div className="p-4 border-b border-border flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-foreground">用語集</h2>
+        <button
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="p-1.5 hover:bg-hover rounded-md text-foreground-secondary hover:text-foreground transition-colors"
+          title="新しい用語を追加"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-foreground-tertiary" />
+          <input
+            type="text"
+            placeholder="用語を検索"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className={`${INPUT_CLASS} pl-7`}
+          />
+        </div>
+
+        {error && <p className="text-xs text-danger">{error}</p>}
+
+        {draft && draft.id === null && (
+          <GlossaryEntryForm
+            draft={draft}
+            categories={categories}
+            onChange={setDraft}
+            onSave={() => void handleSave()}
+            onCancel={() => setDraft(null)}
+          />
+        )}
+
+        {entries.length === 0 && !draft ? (
+          <div className="text-center py-8 text-foreground-secondary text-sm">
+            <p>まだ用語が登録されていません</p>
+            <p className="mt-1 text-xs">右上の + ボタンで追加できます</p>
+          </div>
+        ) : (
+          groups.map(([category, list]) => (
+            <section key={category} className="space-y-2">
+              <h3 className="text-xs font-semibold text-foreground-tertiary">
+                {category}（{list.length}）
+              </h3>
+              {list.map((entry) =>
+                draft?.id === entry.id ? (
+                  <GlossaryEntryForm
+                    key={entry.id}
+                    draft={draft}
+                    categories={categories}
+                    onChange={setDraft}
+                    onSave={() => void handleSave()}
+                    onCancel={() => setDraft(null)}
+                  />
+                ) : (
+                  <GlossaryEntryCard
+                    key={entry.id}
+                    entry={entry}
+                    onEdit={() => setDraft(toDraft(entry))}
+                    onDelete={() => void handleDelete(entry)}
+                  />
+                ),
+              )}
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface GlossaryEntryCardProps {
+  entry: GlossaryEntry;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+function GlossaryEntryCard({ entry, onEdit, onDelete }: GlossaryEntryCardProps) {
+  return (
+    <div className="group bg-background-elevated border border-border rounded-lg p-3 space-y-1">
+      <div className="flex items-baseline gap-2">
+        <span className="text-sm font-medium text-foreground">{entry.term}</span>
+        {entry.reading && <span className="text-xs text-foreground-tertiary">{entry.reading}</span>}
+        <div className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            onClick={onEdit}
+            className="p-1 hover:bg-hover rounded text-foreground-secondary"
+            title="編集"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-1 hover:bg-hover rounded text-foreground-secondary hover:text-danger"
+            title="削除"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      {entry.definition && (
+        <p className="text-xs text-foreground-secondary whitespace-pre-wrap line-clamp-3">
+          {entry.definition}
+        </p>
+      )}
+      {entry.variants.length > 0 && (
+        <p className="text-[11px] text-foreground-tertiary">
+          許容表記: {formatTags(entry.variants)}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface GlossaryEntryFormProps {
+  draft: GlossaryDraft;
+  /** Existing categories, offered as suggestions */
+  categories: string[];
+  onChange: (draft: GlossaryDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+function GlossaryEntryForm({
+  draft,
+  categories,
+  onChange,
+  onSave,
+  onCancel,
+}: GlossaryEntryFormProps) {
+  const listId = `glossary-categories-${draft.id ?? "new"}`;
+  return (
+    <div className="bg-background-elevated border border-border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-foreground">
+          {draft.id === null ? "新しい用語" : "用語を編集"}
+        </h3>
+        <div className="flex gap-1">
+          <button
+            onClick={onSave}
+            disabled={!draft.term.trim()}
+            className="p-1 hover:bg-hover rounded text-success disabled:opacity-50"
+            title="保存"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onCancel}
+            className="p-1 hover:bg-hover rounded text-foreground-secondary"
+            title="キャンセル"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        placeholder="用語 *"
+        value={draft.term}
+        onChange={(e) => onChange({ ...draft, term: e.target.value })}
+        className={INPUT_CLASS}
+        autoFocus
+      />
+      <input
+        type="text"
+        placeholder="読み（ひらがな）"
+        value={draft.reading}
+        onChange={(e) => onChange({ ...draft, reading: e.target.value })}
+        className={INPUT_CLASS}
+      />
+      <input
+        type="text"
+        placeholder="分類（例: 地名、魔法）"
+        value={draft.category}
+        list={listId}
+        onChange={(e) => onChange({ ...draft, category: e.target.value })}
+        className={INPUT_CLASS}
+      />
+      <datalist id={listId}>
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+      <textarea
+        placeholder="説明"
+        value={draft.definition}
+        onChange={(e) => onChange({ ...draft, definition: e.target.value })}
+        className={`${INPUT_CLASS} resize-none`}
+        rows={3}
+      />
+      <input
+        type="text"
+        placeholder="許容する表記（読点区切り）"
+        value={draft.variantsText}
+        onChange={(e) => onChange({ ...draft, variantsText: e.target.value })}
+        className={INPUT_CLASS}
+      />
+      <p className="text-[11px] text-foreground-tertiary">
+        同じ読みでここにない表記は、校正で用語の表記ゆれとして指摘されます
+      </p>
+    </div>
+  );
+}
+
+export default memo(Glossary);
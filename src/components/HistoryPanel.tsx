@@ -1,12 +1,16 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
-import { Plus, Loader2, History, ChevronDown, ChevronRight } from "lucide-react";
+import { Plus, Loader2, History, ChevronDown, ChevronRight, GitCompare } from "lucide-react";
 import clsx from "clsx";
 import { getHistoryService } from "@/lib/services/history-service";
 import { getProjectFileService } from "@/lib/services/project-file-service";
+import { MAIN_BRANCH_NAME } from "@/lib/services/history-policy";
 import ConfirmDialog from "@/shared/ui/ConfirmDialog";
 import SnapshotItem from "./HistoryPanel/SnapshotItem";
+import BranchBar, { branchLineKey } from "./HistoryPanel/BranchBar";
+import BranchNameDialog from "./HistoryPanel/BranchNameDialog";
+import BranchMergeDialog from "./HistoryPanel/BranchMergeDialog";
 import { computeDiffStats } from "./HistoryPanel/DiffIndicator";
 import {
   getDateKey,
@@ -15,7 +19,8 @@ import {
   getSnapshotTypeLabel,
 } from "./HistoryPanel/snapshot-utils";
 
-import type { SnapshotEntry } from "@/lib/services/history-service";
+import type { DraftBranch, SnapshotEntry } from "@/lib/services/history-service";
+import type { SnapshotComparison } from "@/lib/editor-page/use-diff-tabs";
 import type { DiffStats } from "./HistoryPanel/DiffIndicator";
 
 // -----------------------------------------------------------------------
@@ -48,12 +53,21 @@ interface HistoryPanelProps {
     currentContent: string;
     label: string;
   }) => void;
+  /** Callback to open a compare tab for two snapshots */
+  onCompareSnapshots?: (comparison: SnapshotComparison) => void;
 }
 
 // -----------------------------------------------------------------------
 // Types
 // -----------------------------------------------------------------------
 
+/** Inputs of an open three-way merge (the current side is the editor content). */
+interface PendingMerge {
+  sourceName: string;
+  baseContent: string;
+  theirsContent: string;
+}
+
 interface DateGroup {
   label: string;
   snapshots: SnapshotEntry[];
@@ -81,6 +95,15 @@ function groupSnapshotsByDate(items: SnapshotEntry[]): DateGroup[] {
   return groups;
 }
 
+/**
+ * Label of a snapshot in diff views: time, type and milestone label.
+ * 差分表示用のスナップショットのラベル（日時・種類・マイルストーン名）。
+ */
+function snapshotLabel(snapshot: SnapshotEntry): string {
+  const base = `${formatTimeJa(snapshot.timestamp)} (${getSnapshotTypeLabel(snapshot.type)})`;
+  return snapshot.label ? `${base} ${snapshot.label}` : base;
+}
+
 // -----------------------------------------------------------------------
 // Component
 // -----------------------------------------------------------------------
@@ -92,6 +115,7 @@ export default function HistoryPanel({
   onRestore,
   currentContent = "",
   onCompareInEditor,
+  onCompareSnapshots,
 }: HistoryPanelProps) {
   const [snapshots, setSnapshots] = useState<SnapshotEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -101,18 +125,34 @@ export default function HistoryPanel({
   const [displayCount, setDisplayCount] = useState(SNAPSHOTS_PER_PAGE);
   const [loadingDiffId, setLoadingDiffId] = useState<string | null>(null);
   const [restoreConfirm, setRestoreConfirm] = useState<SnapshotEntry | null>(null);
+  /** Two-snapshot comparison: whether items are being picked, and the picks (oldest pick first) */
+  const [isSelectingPair, setIsSelectingPair] = useState(false);
+  const [selectedPair, setSelectedPair] = useState<SnapshotEntry[]>([]);
+  const [isOpeningPair, setIsOpeningPair] = useState(false);
+  /** Draft branches of the document and the one the editor is on (null = main line) */
+  const [branches, setBranches] = useState<DraftBranch[]>([]);
+  const [activeBranchId, setActiveBranchId] = useState<string | null>(null);
+  const [busyLineKey, setBusyLineKey] = useState<string | null>(null);
+  const [forkTarget, setForkTarget] = useState<SnapshotEntry | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+  const [deleteBranchConfirm, setDeleteBranchConfirm] = useState<DraftBranch | null>(null);
 
   /**
-   * Load snapshots from HistoryService.
-   * HistoryService からスナップショットを読み込む。
+   * Load the snapshots of the active branch, and the branch list, from HistoryService.
+   * HistoryService から編集中のブランチのスナップショットとブランチ一覧を読み込む。
    */
   const loadSnapshots = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
       const historyService = getHistoryService();
-      const loaded = await historyService.getSnapshots(sourcePath);
-      setSnapshots(loaded);
+      const [loaded, branchState] = await Promise.all([
+        historyService.getSnapshots(sourcePath),
+        historyService.getBranches(sourcePath),
+      ]);
+      setBranches(branchState.branches);
+      setActiveBranchId(branchState.activeBranchId);
+      setSnapshots(loaded.filter((s) => (s.branchId ?? null) === branchState.activeBranchId));
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       setError(`履歴の読み込みに失敗しました: ${message}`);
@@ -433,11 +473,10 @@ export default function HistoryPanel({
           return;
         }
 
-        const label = `${formatTimeJa(snapshot.timestamp)} (${getSnapshotTypeLabel(snapshot.type)})`;
         onCompareInEditor({
           snapshotContent: result.content,
           currentContent,
-          label,
+          label: snapshotLabel(snapshot),
         });
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
@@ -450,6 +489,240 @@ export default function HistoryPanel({
     [currentContent, onCompareInEditor],
   );
 
+  /** Enter or leave the two-snapshot selection mode. */
+  const toggleSelectingPair = useCallback(() => {
+    setIsSelectingPair((prev) => !prev);
+    setSelectedPair([]);
+  }, []);
+
+  /**
+   * Select or unselect a snapshot for comparison; a third pick replaces the oldest pick.
+   * 比較対象の選択を切り替える。3つ目を選ぶと最初に選んだものと入れ替わる。
+   */
+  const handleSelectForPair = useCallback((snapshot: SnapshotEntry) => {
+    setSelectedPair((prev) => {
+      if (prev.some((s) => s.id === snapshot.id)) {
+        return prev.filter((s) => s.id !== snapshot.id);
+      }
+      return [...prev, snapshot].slice(-2);
+    });
+  }, []);
+
+  /**
+   * Open the selected pair of snapshots in a compare tab, older one first.
+   * 選択した2つのスナップショットを比較タブで開く（古い方が左）。
+   */
+  const handleComparePair = useCallback(async () => {
+    if (selectedPair.length !== 2 || !onCompareSnapshots) return;
+    const [older, newer] = [...selectedPair].sort((a, b) => a.timestamp - b.timestamp);
+    try {
+      setIsOpeningPair(true);
+      const historyService = getHistoryService();
+      const [olderResult, newerResult] = await Promise.all([
+        historyService.restoreSnapshot(older.id),
+        historyService.restoreSnapshot(newer.id),
+      ]);
+      for (const result of [olderResult, newerResult]) {
+        if (!result.success || result.content == null) {
+          setError(`スナップショットの読み込みに失敗しました: ${result.error ?? "内容が空です"}`);
+          return;
+        }
+      }
+
+      onCompareSnapshots({
+        sourceFileName: displayName,
+        older: { id: older.id, label: snapshotLabel(older), content: olderResult.content ?? "" },
+        newer: { id: newer.id, label: snapshotLabel(newer), content: newerResult.content ?? "" },
+      });
+      setIsSelectingPair(false);
+      setSelectedPair([]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      setError(`差分の読み込みに失敗しました: ${message}`);
+    } finally {
+      setIsOpeningPair(false);
+    }
+  }, [selectedPair, onCompareSnapshots, displayName]);
+
+  // -----------------------------------------------------------------------
+  // Draft branches
+  // -----------------------------------------------------------------------
+
+  const branchName = useCallback(
+    (branchId: string | null): string =>
+      branchId === null
+        ? MAIN_BRANCH_NAME
+        : (branches.find((b) => b.id === branchId)?.name ?? MAIN_BRANCH_NAME),
+    [branches],
+  );
+
+  /**
+   * Fork a draft branch from the snapshot picked in its menu and switch to it.
+   * メニューで選んだスナップショットからブランチを作成して切り替える。
+   */
+  const handleCreateBranch = useCallback(
+    async (snapshot: SnapshotEntry, name: string) => {
+      setForkTarget(null);
+      try {
+        setBusyLineKey(branchLineKey(activeBranchId));
+        const { content } = await getHistoryService().createBranch({
+          sourcePath,
+          displayName,
+          name,
+          fromSnapshotId: snapshot.id,
+          currentContent,
+        });
+        onRestore(content);
+        await loadSnapshots();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(`ブランチの作成に失敗しました: ${message}`);
+      } finally {
+        setBusyLineKey(null);
+      }
+    },
+    [activeBranchId, sourcePath, displayName, currentContent, onRestore, loadSnapshots],
+  );
+
+  /**
+   * Put the editor on another line; the current content is saved on the line being left.
+   * 編集中のブランチを切り替える（現在の内容は離れるブランチの履歴に保存される）。
+   */
+  const handleSwitchBranch = useCallback(
+    async (branchId: string | null) => {
+      try {
+        setBusyLineKey(branchLineKey(branchId));
+        const result = await getHistoryService().switchBranch({
+          sourcePath,
+          displayName,
+          branchId,
+          currentContent,
+        });
+        if (!result.success || result.content === undefined) {
+          setError(`ブランチの切り替えに失敗しました: ${result.error ?? "内容が空です"}`);
+          return;
+        }
+        onRestore(result.content);
+        await loadSnapshots();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(`ブランチの切り替えに失敗しました: ${message}`);
+      } finally {
+        setBusyLineKey(null);
+      }
+    },
+    [sourcePath, displayName, currentContent, onRestore, loadSnapshots],
+  );
+
+  /**
+   * Open the newest content of another line against the editor content in a compare tab.
+   * 別のブランチの最新内容と編集中の内容を比較タブで開く。
+   */
+  const handleCompareBranch = useCallback(
+    async (branchId: string | null) => {
+      if (!onCompareSnapshots) return;
+      try {
+        setBusyLineKey(branchLineKey(branchId));
+        const content = await getHistoryService().getBranchHeadContent(sourcePath, branchId);
+        if (content === null) {
+          setError("ブランチの内容を読み込めませんでした");
+          return;
+        }
+        onCompareSnapshots({
+          sourceFileName: displayName,
+          older: {
+            id: `branch-${branchLineKey(branchId)}`,
+            label: `${branchName(branchId)}（最新）`,
+            content,
+          },
+          newer: {
+            // A fresh id per request: the editor content changes between compares
+            id: `current-${Date.now()}`,
+            label: `${branchName(activeBranchId)}（編集中）`,
+            content: currentContent,
+          },
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(`差分の読み込みに失敗しました: ${message}`);
+      } finally {
+        setBusyLineKey(null);
+      }
+    },
+    [onCompareSnapshots, sourcePath, displayName, branchName, activeBranchId, currentContent],
+  );
+
+  /**
+   * Open the three-way merge of another line into the editor content. The merge
+   * base is the newest snapshot both lines descend from.
+   * 別のブランチを取り込む3方向マージを開く。共通の祖先は両ブランチの分岐元をたどって求める。
+   */
+  const handleMergeBranch = useCallback(
+    async (branchId: string | null) => {
+      if (branchId === activeBranchId) return;
+      try {
+        setBusyLineKey(branchLineKey(branchId));
+        const historyService = getHistoryService();
+        const [baseContent, theirsContent] = await Promise.all([
+          historyService.getMergeBaseContent(sourcePath, activeBranchId, branchId),
+          historyService.getBranchHeadContent(sourcePath, branchId),
+        ]);
+        if (baseContent === null || theirsContent === null) {
+          setError("取り込みに必要な履歴を読み込めませんでした");
+          return;
+        }
+        setPendingMerge({ sourceName: branchName(branchId), baseContent, theirsContent });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(`取り込みの準備に失敗しました: ${message}`);
+      } finally {
+        setBusyLineKey(null);
+      }
+    },
+    [activeBranchId, sourcePath, branchName],
+  );
+
+  /**
+   * Put the merged content in the editor, saving the pre-merge content as a restore point.
+   * マージ結果をエディタに反映する。取り込む前の内容は restore-point として保存する。
+   */
+  const handleApplyMerge = useCallback(
+    async (mergedContent: string) => {
+      const merge = pendingMerge;
+      setPendingMerge(null);
+      if (!merge) return;
+      if (currentContent && getProjectFileService().isRootOpen()) {
+        try {
+          await getHistoryService().createSnapshot({
+            sourcePath,
+            displayName,
+            content: currentContent,
+            type: "restore-point",
+            label: `「${merge.sourceName}」を取り込む前`,
+          });
+        } catch (snapshotErr) {
+          console.warn("取り込み前スナップショットの作成に失敗しました:", snapshotErr);
+        }
+      }
+      onRestore(mergedContent);
+    },
+    [pendingMerge, currentContent, sourcePath, displayName, onRestore],
+  );
+
+  /** Delete a draft branch after confirmation. */
+  const handleDeleteBranch = useCallback(
+    async (branch: DraftBranch) => {
+      try {
+        await getHistoryService().deleteBranch(branch.id);
+        await loadSnapshots();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        setError(`ブランチの削除に失敗しました: ${message}`);
+      }
+    },
+    [loadSnapshots],
+  );
+
   // -----------------------------------------------------------------------
   // Render
   // -----------------------------------------------------------------------
@@ -471,25 +744,78 @@ export default function HistoryPanel({
         <h3 className="text-xs font-medium text-foreground-tertiary uppercase tracking-wide">
           履歴
         </h3>
-        <button
-          onClick={() => void handleCreateSnapshot()}
-          disabled={creatingSnapshot}
-          className={clsx(
-            "flex items-center gap-1 px-2 py-1 text-xs font-medium rounded transition-colors",
-            creatingSnapshot
-              ? "bg-background text-foreground-muted cursor-wait border border-border"
-              : "bg-accent text-accent-foreground hover:bg-accent-hover",
-          )}
-        >
-          {creatingSnapshot ? (
-            <Loader2 className="w-3 h-3 animate-spin" />
-          ) : (
-            <Plus className="w-3 h-3" />
+        <div className="flex items-center gap-1">
+          {onCompareSnapshots && snapshots.length >= 2 && (
+            <button
+              onClick={toggleSelectingPair}
+              className={clsx(
+                "flex items-center gap-1 px-2 py-1 text-xs font-medium rounded border transition-colors",
+                isSelectingPair
+                  ? "border-accent text-accent bg-accent/10"
+                  : "border-border text-foreground-secondary hover:bg-hover",
+              )}
+              title="履歴の中から2つの版を選んで比較します"
+            >
+              <GitCompare className="w-3 h-3" />
+              2つを比較
+            </button>
           )}
-          スナップショット
-        </button>
+          <button
+            onClick={() => void handleCreateSnapshot()}
+            disabled={creatingSnapshot}
+            className={clsx(
+              "flex items-center gap-1 px-2 py-1 text-xs font-medium rounded transition-colors",
+              creatingSnapshot
+                ? "bg-background text-foreground-muted cursor-wait border border-border"
+                : "bg-accent text-accent-foreground hover:bg-accent-hover",
+            )}
+          >
+            {creatingSnapshot ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <Plus className="w-3 h-3" />
+            )}
+            スナップショット
+          </button>
+        </div>
       </div>
 
+      {/* Draft branches */}
+      {branches.length > 0 && (
+        <BranchBar
+          branches={branches}
+          activeBranchId={activeBranchId}
+          busyLineKey={busyLineKey}
+          onSwitch={(branchId) => void handleSwitchBranch(branchId)}
+          onCompare={onCompareSnapshots && ((branchId) => void handleCompareBranch(branchId))}
+          onMerge={(branchId) => void handleMergeBranch(branchId)}
+          onDelete={setDeleteBranchConfirm}
+        />
+      )}
+
+      {/* Two-snapshot selection bar */}
+      {isSelectingPair && (
+        <div className="flex items-center gap-2 rounded-lg border border-accent/40 bg-accent/5 p-2">
+          <p className="flex-1 text-xs text-foreground-secondary">
+            比較する版を2つ選んでください（{selectedPair.length}/2）
+          </p>
+          <button
+            onClick={() => void handleComparePair()}
+            disabled={selectedPair.length !== 2 || isOpeningPair}
+            className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded bg-accent text-accent-foreground hover:bg-accent-hover disabled:opacity-50 transition-colors"
+          >
+            {isOpeningPair && <Loader2 className="w-3 h-3 animate-spin" />}
+            比較を開く
+          </button>
+          <button
+            onClick={toggleSelectingPair}
+            className="px-2 py-1 text-xs text-foreground-tertiary hover:text-foreground-secondary transition-colors"
+          >
+            キャンセル
+          </button>
+        </div>
+      )}
+
       {/* Error state */}
       {error && (
         <div className="bg-warning/10 border border-warning/30 rounded-lg p-3">
@@ -565,6 +891,10 @@ export default function HistoryPanel({
                       isFirstVersion={snapshot.id === firstVersionId}
                       isBookmarked={bookmarkSet.has(snapshot.id)}
                       onToggleBookmark={handleToggleBookmark}
+                      selectionMode={isSelectingPair}
+                      isSelected={selectedPair.some((s) => s.id === snapshot.id)}
+                      onSelect={handleSelectForPair}
+                      onFork={busyLineKey === null ? setForkTarget : undefined}
                     />
                   ))}
               </div>
@@ -598,6 +928,42 @@ export default function HistoryPanel({
         }}
         onCancel={() => setRestoreConfirm(null)}
       />
+
+      {/* Draft branch dialogs */}
+      {forkTarget && (
+        <BranchNameDialog
+          snapshotLabel={snapshotLabel(forkTarget)}
+          existingNames={branches.map((b) => b.name)}
+          onSubmit={(name) => void handleCreateBranch(forkTarget, name)}
+          onCancel={() => setForkTarget(null)}
+        />
+      )}
+      {pendingMerge && (
+        <BranchMergeDialog
+          targetName={branchName(activeBranchId)}
+          sourceName={pendingMerge.sourceName}
+          baseContent={pendingMerge.baseContent}
+          oursContent={currentContent}
+          theirsContent={pendingMerge.theirsContent}
+          onApply={(merged) => void handleApplyMerge(merged)}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
+      <ConfirmDialog
+        isOpen={deleteBranchConfirm !== null}
+        title="ブランチの削除"
+        message={`ブランチ「${deleteBranchConfirm?.name ?? ""}」とその履歴を削除しますか？この操作は元に戻せません。`}
+        confirmLabel="削除する"
+        cancelLabel="キャンセル"
+        dangerous
+        onConfirm={() => {
+          if (deleteBranchConfirm) {
+            void handleDeleteBranch(deleteBranchConfirm);
+          }
+          setDeleteBranchConfirm(null);
+        }}
+        onCancel={() => setDeleteBranchConfirm(null)}
+      />
     </div>
   );
 }
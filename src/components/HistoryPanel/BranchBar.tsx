@@ -0,0 +1,132 @@
+"use client";
+
+import { GitBranch, GitCompare, GitMerge, Loader2, Trash2 } from "lucide-react";
+import clsx from "clsx";
+
+import { MAIN_BRANCH_NAME } from "@/lib/services/history-policy";
+
+import type { DraftBranch } from "@/lib/services/history-service";
+
+export interface BranchBarProps {
+  branches: DraftBranch[];
+  /** Branch the editor is on (null = main line) */
+  activeBranchId: string | null;
+  /** Key (see branchLineKey) of the line an operation is running for, if any */
+  busyLineKey?: string | null;
+  onSwitch: (branchId: string | null) => void;
+  onCompare?: (branchId: string | null) => void;
+  onMerge: (branchId: string | null) => void;
+  onDelete: (branch: DraftBranch) => void;
+}
+
+interface Line {
+  id: string | null;
+  name: string;
+  branch?: DraftBranch;
+}
+
+/** Stable key of a line: the branch id, or "main" for the main line. */
+export function branchLineKey(branchId: string | null): string {
+  return branchId ?? "main";
+}
+
+const ACTION_CLASS =
+  "p-1 rounded transition-colors text-foreground-tertiary hover:text-foreground-secondary hover:bg-hover disabled:opacity-50";
+
+/**
+ * Draft branches of the document: the main line and each branch, with
+ * switch / compare / merge / delete actions for the lines the editor is not on.
+ *
+ * 文書の下書きブランチ一覧。編集中でないブランチに切替・比較・取り込み・削除の操作を出す。
+ */
+export default function BranchBar({
+  branches,
+  activeBranchId,
+  busyLineKey = null,
+  onSwitch,
+  onCompare,
+  onMerge,
+  onDelete,
+}: BranchBarProps) {
+  const lines: Line[] = [
+    { id: null, name: MAIN_BRANCH_NAME },
+    ...branches.map((branch) => ({ id: branch.id, name: branch.name, branch })),
+  ];
+  const isBusy = busyLineKey !== null;
+
+  return (
+    <div className="rounded-lg border border-border bg-background-secondary p-2 space-y-1">
+      <p className="flex items-center gap-1 text-[11px] font-medium text-foreground-tertiary">
+        <GitBranch className="w-3 h-3" />
+        ブランチ
+      </p>
+      {lines.map((line) => {
+        const isActive = line.id === activeBranchId;
+        return (
+          <div
+            key={branchLineKey(line.id)}
+            className={clsx(
+              "flex items-center gap-2 rounded px-2 py-1",
+              isActive && "bg-accent/10",
+            )}
+          >
+            <span
+              className={clsx(
+                "flex-1 min-w-0 truncate text-xs",
+                isActive ? "font-semibold text-accent" : "text-foreground-secondary",
+              )}
+              title={line.name}
+            >
+              {line.name}
+            </span>
+            {isActive ? (
+              <span className="text-[10px] text-accent flex-shrink-0">編集中</span>
+            ) : (
+              <div className="flex items-center gap-0.5 flex-shrink-0">
+                {busyLineKey === branchLineKey(line.id) && (
+                  <Loader2 className="w-3 h-3 animate-spin text-foreground-tertiary" />
+                )}
+                <button
+                  onClick={() => onSwitch(line.id)}
+                  disabled={isBusy}
+                  className="px-1.5 py-0.5 rounded text-[10px] font-medium text-foreground-secondary border border-border hover:bg-hover transition-colors disabled:opacity-50"
+                  title="このブランチに切り替えます（現在の内容は履歴に保存されます）"
+                >
+                  切替
+                </button>
+                {onCompare && (
+                  <button
+                    onClick={() => onCompare(line.id)}
+                    disabled={isBusy}
+                    className={ACTION_CLASS}
+                    title="編集中の内容と比較"
+                  >
+                    <GitCompare className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  onClick={() => onMerge(line.id)}
+                  disabled={isBusy}
+                  className={ACTION_CLASS}
+                  title="このブランチの変更を段落ごとに取り込む"
+                >
+                  <GitMerge className="w-3.5 h-3.5" />
+                </button>
+                {line.branch && (
+                  <button
+                    onClick={() => line.branch && onDelete(line.branch)}
+                    disabled={isBusy}
+                    className={clsx(ACTION_CLASS, "hover:text-error")}
+                    title="ブランチを削除"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import clsx from "clsx";
+
+import GlassDialog from "@/shared/ui/GlassDialog";
+import {
+  defaultMergeChoice,
+  isMergeChoiceHunk,
+  mergeThreeWay,
+  resolveMerge,
+} from "@/lib/services/three-way-merge";
+
+import type { MergeChoice, MergeHunk } from "@/lib/services/three-way-merge";
+
+interface BranchMergeDialogProps {
+  /** Name of the line being merged into (the editor content) */
+  targetName: string;
+  /** Name of the line being merged from */
+  sourceName: string;
+  /** Content both lines were forked from */
+  baseContent: string;
+  /** Current editor content */
+  oursContent: string;
+  /** Newest content of the source line */
+  theirsContent: string;
+  onApply: (mergedContent: string) => void;
+  onCancel: () => void;
+}
+
+const KIND_LABELS: Record<MergeHunk["kind"], string> = {
+  unchanged: "",
+  ours: "現在の版だけで変更",
+  theirs: "取り込む版だけで変更",
+  same: "両方で同じ変更",
+  conflict: "両方で異なる変更",
+};
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  ours: "現在の版",
+  theirs: "取り込む版",
+  both: "両方（現在→取り込む版の順）",
+};
+
+function Paragraphs({ lines, dimmed = false }: { lines: string[]; dimmed?: boolean }) {
+  const text = lines.join("\n");
+  return (
+    <div
+      className={clsx(
+        "whitespace-pre-wrap break-words text-xs leading-relaxed",
+        dimmed ? "text-foreground-tertiary" : "text-foreground",
+      )}
+    >
+      {text === "" ? <span className="text-foreground-muted">（なし）</span> : text}
+    </div>
+  );
+}
+
+/**
+ * Three-way merge view: the common ancestor, the current version and the
+ * incoming version side by side, with a per-hunk choice of which paragraphs
+ * to keep. Mount it only while open so choices start from the defaults.
+ *
+ * 3方向マージ画面。共通の祖先・現在の版・取り込む版を並べ、変更ごとに採用する段落を選ぶ。
+ */
+export default function BranchMergeDialog({
+  targetName,
+  sourceName,
+  baseContent,
+  oursContent,
+  theirsContent,
+  onApply,
+  onCancel,
+}: BranchMergeDialogProps): React.JSX.Element {
+  const hunks = useMemo(
+    () => mergeThreeWay(baseContent, oursContent, theirsContent),
+    [baseContent, oursContent, theirsContent],
+  );
+  const [choices, setChoices] = useState<Map<number, MergeChoice>>(() => new Map());
+
+  const changeCount = hunks.filter(isMergeChoiceHunk).length;
+  const conflictCount = hunks.filter((h) => h.kind === "conflict").length;
+
+  const choose = (index: number, choice: MergeChoice) => {
+    setChoices((prev) => new Map(prev).set(index, choice));
+  };
+
+  return (
+    <GlassDialog
+      isOpen
+      onBackdropClick={onCancel}
+      ariaLabel="ブランチの取り込み"
+      panelClassName="mx-4 w-full max-w-5xl p-6 max-h-[85vh] flex flex-col"
+    >
+      <h2 className="text-lg font-semibold text-foreground">
+        「{sourceName}」を「{targetName}」に取り込む
+      </h2>
+      <p className="mt-1 text-xs text-foreground-tertiary">
+        変更 {changeCount} 箇所（うち競合 {conflictCount}{" "}
+        箇所）。採用する版を変更ごとに選んでください。取り込む前の内容は履歴に保存されます。
+      </p>
+
+      <div className="mt-4 grid grid-cols-3 gap-3 border-b border-border pb-1 text-[11px] font-medium text-foreground-tertiary">
+        <span>共通の祖先</span>
+        <span>現在の版（{targetName}）</span>
+        <span>取り込む版（{sourceName}）</span>
+      </div>
+
+      <div className="mt-2 flex-1 min-h-0 overflow-y-auto space-y-2 pr-1">
+        {changeCount === 0 && (
+          <p className="py-8 text-center text-sm text-foreground-secondary">
+            取り込める変更はありません。
+          </p>
+        )}
+        {hunks.map((hunk, index) => {
+          if (hunk.kind === "unchanged") {
+            return (
+              <p key={index} className="text-center text-[10px] text-foreground-muted">
+                ── 変更のない {hunk.base.length} 段落 ──
+              </p>
+            );
+          }
+          if (hunk.kind === "same") {
+            return (
+              <div key={index} className="rounded border border-border p-2">
+                <p className="mb-1 text-[10px] text-foreground-tertiary">
+                  {KIND_LABELS[hunk.kind]}
+                </p>
+                <Paragraphs lines={hunk.ours} dimmed />
+              </div>
+            );
+          }
+
+          const choice = choices.get(index) ?? defaultMergeChoice(hunk);
+          return (
+            <div
+              key={index}
+              className={clsx(
+                "rounded border p-2",
+                hunk.kind === "conflict" ? "border-warning/60 bg-warning/5" : "border-border",
+              )}
+            >
+              <p className="mb-1 text-[10px] font-medium text-foreground-tertiary">
+                {KIND_LABELS[hunk.kind]}
+              </p>
+              <div className="grid grid-cols-3 gap-3">
+                <Paragraphs lines={hunk.base} dimmed />
+                <div className={clsx("rounded p-1", choice !== "theirs" && "bg-accent/10")}>
+                  <Paragraphs lines={hunk.ours} />
+                </div>
+                <div className={clsx("rounded p-1", choice !== "ours" && "bg-accent/10")}>
+                  <Paragraphs lines={hunk.theirs} />
+                </div>
+              </div>
+              <div
+                role="radiogroup"
+                aria-label="採用する版"
+                className="mt-2 flex flex-wrap gap-3 text-[11px] text-foreground-secondary"
+              >
+                {(Object.keys(CHOICE_LABELS) as MergeChoice[]).map((option) => (
+                  <label key={option} className="flex items-center gap-1 cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`merge-hunk-${index}`}
+                      checked={choice === option}
+                      onChange={() => choose(index, option)}
+                    />
+                    {CHOICE_LABELS[option]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg px-4 py-2 text-sm font-medium text-foreground-secondary hover:bg-hover transition-colors"
+        >
+          キャンセル
+        </button>
+        <button
+          type="button"
+          onClick={() => onApply(resolveMerge(hunks, choices))}
+          disabled={changeCount === 0}
+          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-accent-foreground hover:bg-accent-hover transition-colors disabled:opacity-50"
+        >
+          取り込む
+        </button>
+      </div>
+    </GlassDialog>
+  );
+}
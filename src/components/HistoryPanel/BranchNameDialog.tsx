@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+
+import GlassDialog from "@/shared/ui/GlassDialog";
+import { validateBranchName } from "@/lib/services/history-policy";
+
+interface BranchNameDialogProps {
+  /** Label of the snapshot being forked, shown for context */
+  snapshotLabel: string;
+  /** Names of the document's existing branches */
+  existingNames: readonly string[];
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for the name of a new draft branch forked from a snapshot.
+ * Mount it only while open so the input starts empty each time.
+ *
+ * スナップショットから分岐するブランチの名前を入力するダイアログ。
+ */
+export default function BranchNameDialog({
+  snapshotLabel,
+  existingNames,
+  onSubmit,
+  onCancel,
+}: BranchNameDialogProps): React.JSX.Element {
+  const [name, setName] = useState("");
+  const [touched, setTouched] = useState(false);
+  const error = validateBranchName(name, existingNames);
+
+  const submit = () => {
+    setTouched(true);
+    if (error) return;
+    onSubmit(name.trim());
+  };
+
+  return (
+    <GlassDialog isOpen onBackdropClick={onCancel} ariaLabel="ここから分岐">
+      <h2 className="text-lg font-semibold text-foreground">ここから分岐</h2>
+      <p className="mt-1 text-xs text-foreground-tertiary">{snapshotLabel}</p>
+      <p className="mt-3 text-sm text-foreground-secondary">
+        この版から別案のブランチを作り、編集中の内容をそのブランチに切り替えます。現在の内容は元のブランチの履歴に保存されます。
+      </p>
+      <label className="mt-4 block text-xs font-medium text-foreground-secondary">
+        ブランチ名
+        <input
+          type="text"
+          value={name}
+          placeholder="例: 別の結末"
+          onChange={(e) => {
+            setName(e.target.value);
+            setTouched(true);
+          }}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter") return;
+            if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+            e.preventDefault();
+            submit();
+          }}
+          className="mt-1 w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground outline-none focus:border-accent"
+        />
+      </label>
+      {touched && error && <p className="mt-1 text-xs text-error">{error}</p>}
+      <div className="mt-6 flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg px-4 py-2 text-sm font-medium text-foreground-secondary hover:bg-hover transition-colors"
+        >
+          キャンセル
+        </button>
+        <button
+          type="button"
+          onClick={submit}
+          disabled={touched && error !== null}
+          className="rounded-lg bg-accent px-4 py-2 text-sm font-medium text-accent-foreground hover:bg-accent-hover transition-colors disabled:opacity-50"
+        >
+          分岐する
+        </button>
+      </div>
+    </GlassDialog>
+  );
+}
@@ -1,7 +1,18 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { Pin, RotateCcw, Loader2, Bookmark, GitCompare, MoreVertical, FileX } from "lucide-react";
+import {
+  Pin,
+  RotateCcw,
+  Loader2,
+  Bookmark,
+  GitCompare,
+  MoreVertical,
+  FileX,
+  CircleCheck,
+  Circle,
+  GitBranch,
+} from "lucide-react";
 import clsx from "clsx";
 
 import type { SnapshotEntry } from "@/lib/services/history-service";
@@ -19,6 +30,12 @@ export interface SnapshotItemProps {
   isFirstVersion: boolean;
   isBookmarked: boolean;
   onToggleBookmark: (snapshotId: string) => void;
+  /** When true, clicking the item selects it for a two-snapshot comparison */
+  selectionMode?: boolean;
+  isSelected?: boolean;
+  onSelect?: (snapshot: SnapshotEntry) => void;
+  /** Start a draft branch from this snapshot */
+  onFork?: (snapshot: SnapshotEntry) => void;
 }
 
 export default function SnapshotItem({
@@ -31,11 +48,23 @@ export default function SnapshotItem({
   isFirstVersion,
   isBookmarked,
   onToggleBookmark,
+  selectionMode = false,
+  isSelected = false,
+  onSelect,
+  onFork,
 }: SnapshotItemProps) {
   const [menuOpen, setMenuOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const isMissing = snapshot.isMissing === true;
 
+  const activate = () => {
+    if (selectionMode) {
+      onSelect?.(snapshot);
+    } else {
+      onCompare(snapshot);
+    }
+  };
+
   // Close menu on outside click
   useEffect(() => {
     if (!menuOpen) return;
@@ -53,8 +82,9 @@ export default function SnapshotItem({
       role="button"
       tabIndex={isMissing ? -1 : 0}
       aria-disabled={isMissing}
+      aria-pressed={selectionMode ? isSelected : undefined}
       onClick={() => {
-        if (!isLoadingDiff && !isMissing) onCompare(snapshot);
+        if (!isLoadingDiff && !isMissing) activate();
       }}
       onKeyDown={(e) => {
         if (
@@ -64,18 +94,31 @@ export default function SnapshotItem({
           e.target === e.currentTarget
         ) {
           e.preventDefault();
-          onCompare(snapshot);
+          activate();
         }
       }}
-      title={isMissing ? "履歴ファイルが見つかりません" : "クリックで差分を表示"}
+      title={
+        isMissing
+          ? "履歴ファイルが見つかりません"
+          : selectionMode
+            ? "クリックで比較対象に選択"
+            : "クリックで差分を表示"
+      }
       className={clsx(
-        "bg-background-secondary rounded-lg p-3 border border-border transition-colors",
+        "bg-background-secondary rounded-lg p-3 border transition-colors",
+        isSelected ? "border-accent ring-1 ring-accent" : "border-border",
         isMissing ? "cursor-not-allowed opacity-70" : "cursor-pointer hover:border-accent/50",
       )}
     >
       {/* Row 1: Time + type badge + char count */}
       <div className="flex items-center justify-between gap-2 mb-1.5">
         <div className="flex items-center gap-2 min-w-0">
+          {selectionMode &&
+            (isSelected ? (
+              <CircleCheck className="w-3.5 h-3.5 text-accent flex-shrink-0" />
+            ) : (
+              <Circle className="w-3.5 h-3.5 text-foreground-tertiary flex-shrink-0" />
+            ))}
           <span className="text-xs font-semibold tabular-nums text-foreground">
             {formatTimeJa(snapshot.timestamp)}
           </span>
@@ -174,6 +217,20 @@ export default function SnapshotItem({
                   )}
                   比較
                 </button>
+                {onFork && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setMenuOpen(false);
+                      onFork(snapshot);
+                    }}
+                    disabled={isMissing}
+                    className="flex items-center gap-2 w-full px-3 py-1.5 text-[11px] font-medium text-foreground-secondary hover:bg-hover transition-colors disabled:opacity-50"
+                  >
+                    <GitBranch className="w-3.5 h-3.5" />
+                    ここから分岐
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -23,6 +23,9 @@ describe("snapshot-utils — extended SnapshotType", () => {
       expect(getSnapshotTypeLabel("pre-external-reload")).toBe("外部更新前"));
     it("restore-point → 復元前", () =>
       expect(getSnapshotTypeLabel("restore-point")).toBe("復元前"));
+    it("branch-fork → 分岐", () => expect(getSnapshotTypeLabel("branch-fork")).toBe("分岐"));
+    it("branch-switch → 切替前", () =>
+      expect(getSnapshotTypeLabel("branch-switch")).toBe("切替前"));
 
     it("exhaustive switch — all SnapshotType variants produce a non-empty label", () => {
       const allTypes: SnapshotType[] = [
@@ -32,6 +35,8 @@ describe("snapshot-utils — extended SnapshotType", () => {
         "pre-close",
         "pre-external-reload",
         "restore-point",
+        "branch-fork",
+        "branch-switch",
       ];
       for (const t of allTypes) {
         const label = getSnapshotTypeLabel(t);
@@ -51,10 +56,12 @@ describe("snapshot-utils — extended SnapshotType", () => {
         "pre-close",
         "pre-external-reload",
         "restore-point",
+        "branch-fork",
+        "branch-switch",
       ];
       const classes = new Set(allTypes.map(getSnapshotTypeBadgeClass));
-      // All 6 types should produce 6 unique badge classes
-      expect(classes.size).toBe(6);
+      // All 8 types should produce 8 unique badge classes
+      expect(classes.size).toBe(8);
     });
 
     it("includes tailwind bg / text color tokens", () => {
@@ -65,6 +72,8 @@ describe("snapshot-utils — extended SnapshotType", () => {
         "pre-close",
         "pre-external-reload",
         "restore-point",
+        "branch-fork",
+        "branch-switch",
       ];
       for (const t of allTypes) {
         const cls = getSnapshotTypeBadgeClass(t);
@@ -33,6 +33,10 @@ export function getSnapshotTypeLabel(type: SnapshotType): string {
       return "外部更新前";
     case "restore-point":
       return "復元前";
+    case "branch-fork":
+      return "分岐";
+    case "branch-switch":
+      return "切替前";
   }
 }
 
@@ -62,5 +66,9 @@ export function getSnapshotTypeBadgeClass(type: SnapshotType): string {
       return "bg-purple-200 text-purple-700 dark:bg-purple-700 dark:text-purple-200";
     case "restore-point":
       return "bg-green-200 text-green-700 dark:bg-green-700 dark:text-green-200";
+    case "branch-fork":
+      return "bg-teal-200 text-teal-700 dark:bg-teal-700 dark:text-teal-200";
+    case "branch-switch":
+      return "bg-sky-200 text-sky-700 dark:bg-sky-700 dark:text-sky-200";
   }
 }
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef, useEffect, useCallback, useMemo } from "react";
-import { AlertCircle, BarChart3, Edit2, X, History } from "lucide-react";
+import { AlertCircle, BarChart3, Edit2, X, History, Sparkles } from "lucide-react";
 import clsx from "clsx";
 
 import { useEditorMode } from "@/contexts/EditorModeContext";
@@ -11,6 +11,7 @@ import { useKeymapListener } from "@/lib/keymap/use-keymap-listener";
 import { formatBinding } from "@/lib/keymap/keymap-utils";
 import type { CommandId } from "@/lib/keymap/command-ids";
 import HistoryPanel from "./HistoryPanel";
+import AiChatPanel from "./inspector/AiChatPanel";
 import CorrectionsPanel from "./inspector/CorrectionsPanel";
 import StatsPanel from "./inspector/StatsPanel";
 
@@ -60,12 +61,15 @@ export default function Inspector({
   activeFilePath,
   currentContent = "",
   onCompareInEditor,
+  onCompareSnapshots,
   lintIssues,
   onNavigateToIssue,
   onApplyFix,
   onIgnoreCorrection,
   onAddToUserDictionary,
   dictEntryRuleIds,
+  onSetPreferredSpelling,
+  onClearPreferredSpelling,
   onRefreshLinting,
   isLinting = false,
   activeLintIssueIndex,
@@ -74,6 +78,10 @@ export default function Inspector({
   onCorrectionModeChange,
   switchToCorrectionsTrigger = 0,
   previousDayStats,
+  writingProgress,
+  onOpenStatsDashboard,
+  onOpenManuscriptPaper,
+  editorView,
 }: InspectorProps) {
   const { editorMode, isProject } = useEditorMode();
   const projectMode = isProject ? (editorMode as ProjectMode) : null;
@@ -90,6 +98,7 @@ export default function Inspector({
       "inspector.corrections": () => setActiveTab("corrections"),
       "inspector.stats": () => setActiveTab("stats"),
       "inspector.history": isProject ? () => setActiveTab("history") : undefined,
+      "inspector.ai": () => setActiveTab("ai"),
     }),
     [isProject],
   );
@@ -391,6 +400,23 @@ export default function Inspector({
             </span>
           </button>
         )}
+        <button
+          onClick={() => setActiveTab("ai")}
+          className={clsx(
+            "group relative flex-1 h-full flex items-center justify-center text-sm transition-colors",
+            showLabels ? "gap-2" : "gap-0",
+            activeTab === "ai"
+              ? "text-foreground border-b-2 border-accent"
+              : "text-foreground-tertiary hover:text-foreground-secondary",
+          )}
+          title={tabTooltip("AI", "inspector.ai")}
+        >
+          <Sparkles className="w-4 h-4 shrink-0" />
+          {showLabels && <span>AI</span>}
+          <span className="pointer-events-none absolute left-1/2 top-full z-50 mt-2 -translate-x-1/2 whitespace-nowrap rounded border border-border bg-background-elevated px-2 py-1 text-xs text-foreground opacity-0 shadow-sm transition-opacity group-hover:opacity-100">
+            {tabTooltip("AI", "inspector.ai")}
+          </span>
+        </button>
       </div>
 
       {/* 本文 */}
@@ -405,6 +431,8 @@ export default function Inspector({
             onIgnoreCorrection={onIgnoreCorrection}
             onAddToUserDictionary={onAddToUserDictionary}
             dictEntryRuleIds={dictEntryRuleIds}
+            onSetPreferredSpelling={onSetPreferredSpelling}
+            onClearPreferredSpelling={onClearPreferredSpelling}
             onRefreshLinting={onRefreshLinting}
             isLinting={isLinting}
             activeLintIssueIndex={activeLintIssueIndex}
@@ -426,6 +454,9 @@ export default function Inspector({
             charUsageRates={charUsageRates}
             readabilityAnalysis={readabilityAnalysis}
             previousDayStats={previousDayStats}
+            writingProgress={writingProgress}
+            onOpenStatsDashboard={projectMode ? onOpenStatsDashboard : undefined}
+            onOpenManuscriptPaper={onOpenManuscriptPaper}
           />
         )}
         {activeTab === "history" && projectMode && onHistoryRestore && (
@@ -440,8 +471,18 @@ export default function Inspector({
             onRestore={onHistoryRestore}
             currentContent={currentContent}
             onCompareInEditor={onCompareInEditor}
+            onCompareSnapshots={onCompareSnapshots}
           />
         )}
+        {/* 応答のストリーミングを他タブへ切り替えても継続できるよう、常にマウントしておく */}
+        <div className={clsx("h-full", activeTab !== "ai" && "hidden")}>
+          <AiChatPanel
+            key={projectMode?.projectId ?? "standalone"}
+            editorMode={editorMode}
+            editorView={editorView}
+            currentContent={currentContent}
+          />
+        </div>
       </div>
     </aside>
   );
@@ -0,0 +1,208 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import { useTypographySettings } from "@/contexts/EditorSettingsContext";
+import {
+  DEFAULT_MANUSCRIPT_GRID_ID,
+  MANUSCRIPT_GRIDS,
+  MANUSCRIPT_GRID_COLOR,
+  RUBY_COLUMN_RATIO,
+  getManuscriptGrid,
+  isManuscriptGridId,
+  paginateManuscript,
+  rubySpanInLine,
+} from "@/lib/export/manuscript-paper";
+import type { ManuscriptGrid, ManuscriptPage } from "@/lib/export/manuscript-paper";
+import type { ManuscriptCell } from "@/lib/editor-page/text-statistics";
+import type { ManuscriptSourceDocument } from "@/contexts/ManuscriptPaperContext";
+
+/** Size of one cell on screen, in px. */
+const CELL_PX = 26;
+
+interface ManuscriptPaperViewProps {
+  source: ManuscriptSourceDocument;
+}
+
+function ManuscriptLine({
+  line,
+  grid,
+  vertical,
+}: {
+  line: readonly ManuscriptCell[];
+  grid: ManuscriptGrid;
+  vertical: boolean;
+}) {
+  const count = Math.max(grid.charsPerLine, line.length);
+  const lineLength = CELL_PX * grid.charsPerLine;
+  const gutter = CELL_PX * RUBY_COLUMN_RATIO;
+
+  return (
+    <div className={`flex ${vertical ? "flex-row" : "flex-col-reverse"}`}>
+      <div
+        className={`flex ${vertical ? "flex-col" : "flex-row"}`}
+        style={{
+          [vertical ? "height" : "width"]: lineLength,
+          outline: `1px solid ${MANUSCRIPT_GRID_COLOR}`,
+        }}
+      >
+        {Array.from({ length: count }, (_, i) => {
+          const cell = line[i];
+          const hang = i >= grid.charsPerLine;
+          return (
+            <span
+              key={i}
+              className="flex flex-none items-center justify-center leading-none"
+              style={{
+                width: CELL_PX,
+                height: CELL_PX,
+                fontSize: CELL_PX * (cell?.tcy && !vertical ? 0.5 : 0.78),
+                writingMode: vertical ? "vertical-rl" : undefined,
+                textCombineUpright: cell?.tcy && vertical ? "all" : undefined,
+                ...(i > 0 && !hang
+                  ? {
+                      [vertical ? "borderTop" : "borderLeft"]: `1px solid ${MANUSCRIPT_GRID_COLOR}`,
+                    }
+                  : undefined),
+              }}
+            >
+              {cell?.text}
+            </span>
+          );
+        })}
+      </div>
+      <div
+        className="relative flex-none"
+        style={{
+          [vertical ? "width" : "height"]: gutter,
+          [vertical ? "height" : "width"]: lineLength,
+        }}
+      >
+        {line.map((cell, i) => {
+          const span = rubySpanInLine(line, i);
+          if (!cell.ruby || span === 0) return null;
+          return (
+            <span
+              key={i}
+              className={`absolute flex items-center justify-around leading-none ${
+                vertical ? "flex-col inset-x-0" : "flex-row inset-y-0"
+              }`}
+              style={{
+                [vertical ? "top" : "left"]: i * CELL_PX,
+                [vertical ? "height" : "width"]: span * CELL_PX,
+                fontSize: gutter * 0.8,
+              }}
+            >
+              {Array.from(cell.ruby.text).map((ch, j) => (
+                <span key={j} style={{ writingMode: vertical ? "vertical-rl" : undefined }}>
+                  {ch}
+                </span>
+              ))}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function ManuscriptSheet({
+  page,
+  grid,
+  vertical,
+}: {
+  page: ManuscriptPage;
+  grid: ManuscriptGrid;
+  vertical: boolean;
+}) {
+  return (
+    <div
+      className={`inline-flex p-4 bg-background-secondary border border-border rounded ${
+        vertical ? "flex-row-reverse" : "flex-col"
+      }`}
+    >
+      {Array.from({ length: grid.linesPerPage }, (_, i) => (
+        <ManuscriptLine key={i} line={page[i] ?? []} grid={grid} vertical={vertical} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * 原稿用紙 tab: a read-only view of an editor tab laid out on 20×20 or 20×10
+ * sheets with the same line breaking as the 原稿用紙換算 of the statistics
+ * panel, so the number of 400字詰め sheets matches it.
+ */
+export default function ManuscriptPaperView({ source }: ManuscriptPaperViewProps) {
+  const { fontFamily } = useTypographySettings();
+  const [gridId, setGridId] = useState(DEFAULT_MANUSCRIPT_GRID_ID);
+  const [vertical, setVertical] = useState(true);
+
+  const grid = getManuscriptGrid(gridId);
+  const pages = useMemo(
+    () => paginateManuscript(source.content, source.fileType, grid),
+    [source.content, source.fileType, grid],
+  );
+  // An empty document still shows one blank sheet
+  const sheets = pages.length > 0 ? pages : [[]];
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      <div className="flex items-center gap-3 px-4 py-2 border-b border-border text-xs">
+        <span className="font-medium text-foreground truncate">{source.fileName}</span>
+        <select
+          value={gridId}
+          onChange={(e) => {
+            if (isManuscriptGridId(e.target.value)) setGridId(e.target.value);
+          }}
+          className="px-2 py-1 rounded border border-border-secondary bg-background text-foreground"
+          aria-label="原稿用紙の種類"
+        >
+          {MANUSCRIPT_GRIDS.map((g) => (
+            <option key={g.id} value={g.id}>
+              {g.label}
+            </option>
+          ))}
+        </select>
+        <div className="flex rounded border border-border-secondary overflow-hidden">
+          {[
+            { value: true, label: "縦書き" },
+            { value: false, label: "横書き" },
+          ].map((option) => (
+            <button
+              key={option.label}
+              type="button"
+              onClick={() => setVertical(option.value)}
+              className={`px-2 py-1 ${
+                vertical === option.value
+                  ? "bg-accent text-accent-foreground"
+                  : "text-foreground-secondary hover:bg-hover"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <span className="ml-auto text-foreground-tertiary">
+          {pages.length.toLocaleString()}枚（{grid.label}）
+        </span>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <div
+          className="flex flex-col items-center gap-6 p-6 text-foreground"
+          style={{ fontFamily: `"${fontFamily}", serif` }}
+        >
+          {sheets.map((page, i) => (
+            <figure key={i} className="flex flex-col items-center gap-1">
+              <ManuscriptSheet page={page} grid={grid} vertical={vertical} />
+              <figcaption className="text-xs text-foreground-tertiary">
+                {i + 1} / {sheets.length}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
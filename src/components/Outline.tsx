@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
-import { RefreshCw } from "lucide-react";
+import { RefreshCw, SquareKanban } from "lucide-react";
 import clsx from "clsx";
 import type { Chapter } from "@/lib/utils";
 import { useChapters } from "@/lib/editor-page";
@@ -10,12 +10,15 @@ interface OutlineProps {
   className?: string;
   content?: string;
   onHeadingClick?: (anchorId: string) => void;
+  /** Open the シーンボード tab; the button is hidden when omitted */
+  onOpenSceneBoard?: () => void;
 }
 
 export default function Outline({
   className,
   content = "",
   onHeadingClick,
+  onOpenSceneBoard,
 }: OutlineProps): React.ReactElement {
   const [activeHeadingId, setActiveHeadingId] = useState<string | null>(null);
   const { chapters: headings, refresh } = useChapters(content);
@@ -66,6 +69,17 @@ export default function Outline({
       {/* ヘッダー */}
       <div className="h-12 border-b border-border flex items-center px-4">
         <h2 className="text-sm font-medium text-foreground flex-1">アウトライン</h2>
+        {onOpenSceneBoard && (
+          <button
+            type="button"
+            className="p-1 hover:bg-hover rounded transition-colors text-foreground-tertiary hover:text-foreground"
+            title="シーンボードを開く"
+            aria-label="シーンボードを開く"
+            onClick={onOpenSceneBoard}
+          >
+            <SquareKanban className="w-4 h-4" />
+          </button>
+        )}
         <button
           type="button"
           className="p-1 hover:bg-hover rounded transition-colors text-foreground-tertiary hover:text-foreground"
@@ -0,0 +1,30 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+import { getPendingChord, subscribePendingChord } from "@/lib/keymap/keymap-dispatcher";
+import { formatStrokes } from "@/lib/keymap/keymap-utils";
+
+import type { KeyStroke } from "@/lib/keymap/keymap-types";
+
+const NO_STROKES: readonly KeyStroke[] = [];
+
+/**
+ * Shows the strokes of a chord binding being typed (e.g. "Ctrl+K") until the
+ * chord completes or is cancelled.
+ */
+export default function PendingChordIndicator(): React.ReactNode {
+  const strokes = useSyncExternalStore(subscribePendingChord, getPendingChord, () => NO_STROKES);
+  if (strokes.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 px-3 py-1.5 rounded-md bg-background-elevated border border-border shadow-lg text-xs text-foreground-secondary"
+    >
+      <kbd className="font-mono text-foreground">{formatStrokes(strokes)}</kbd>
+      <span className="ml-2">が押されました。続きのキーを待っています（Esc で取消）</span>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useState } from "react";
+import clsx from "clsx";
+import { GripVertical, Plus, X } from "lucide-react";
+
+import { compileFileTitle, moveCompileItem } from "@/lib/export/project-compile";
+import type { CompileItem, CompileManifestFile } from "@/lib/project/project-types";
+
+interface ProjectCompileListProps {
+  manifest: CompileManifestFile;
+  onChange: (next: CompileManifestFile) => void;
+}
+
+const inputClass =
+  "w-full px-3 py-2 border border-border-secondary rounded-lg bg-background text-foreground text-sm focus:outline-none focus:ring-2 focus:ring-accent";
+const labelClass = "block text-sm font-medium text-foreground mb-1";
+
+/**
+ * "プロジェクト全体" export settings: front matter and the drag-reorderable
+ * list of files and parts that make up the compiled book.
+ */
+export default function ProjectCompileList({
+  manifest,
+  onChange,
+}: ProjectCompileListProps): React.ReactNode {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const { frontMatter, items } = manifest;
+
+  const setItems = (next: CompileItem[]): void => onChange({ ...manifest, items: next });
+  const updateItem = (index: number, patch: Partial<CompileItem>): void =>
+    setItems(items.map((item, i) => (i === index ? ({ ...item, ...patch } as CompileItem) : item)));
+
+  const addPart = (): void => {
+    const partCount = items.filter((item) => item.type === "part").length;
+    setItems([
+      { type: "part", id: crypto.randomUUID(), title: `第${partCount + 1}部`, include: true },
+      ...items,
+    ]);
+  };
+
+  const handleDrop = (index: number): void => {
+    if (dragIndex !== null) setItems(moveCompileItem(items, dragIndex, index));
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClass}>書名</label>
+        <input
+          type="text"
+          className={inputClass}
+          value={frontMatter.title}
+          onChange={(e) =>
+            onChange({ ...manifest, frontMatter: { ...frontMatter, title: e.target.value } })
+          }
+          placeholder="タイトルを入力"
+        />
+      </div>
+      <div>
+        <label className={labelClass}>著者名</label>
+        <input
+          type="text"
+          className={inputClass}
+          value={frontMatter.author}
+          onChange={(e) =>
+            onChange({ ...manifest, frontMatter: { ...frontMatter, author: e.target.value } })
+          }
+          placeholder="著者名を入力"
+        />
+      </div>
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={frontMatter.titlePage}
+          onChange={(e) =>
+            onChange({ ...manifest, frontMatter: { ...frontMatter, titlePage: e.target.checked } })
+          }
+        />
+        扉ページ（書名・著者名）を付ける
+      </label>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-sm font-medium text-foreground">構成</span>
+          <button
+            type="button"
+            className="flex items-center gap-1 text-xs text-foreground-secondary hover:text-foreground"
+            onClick={addPart}
+          >
+            <Plus className="w-3 h-3" />
+            部を追加
+          </button>
+        </div>
+        <p className="text-xs text-foreground-tertiary mb-2">
+          ドラッグで並べ替え。保存済みの内容を書き出します。
+        </p>
+        {items.length === 0 ? (
+          <p className="text-xs text-foreground-tertiary">原稿ファイルがありません</p>
+        ) : (
+          <ul className="space-y-1">
+            {items.map((item, index) => (
+              <li
+                key={item.type === "part" ? item.id : item.path}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  e.dataTransfer.setData("text/plain", String(index));
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setOverIndex(index);
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setOverIndex(null);
+                }}
+                className={clsx(
+                  "flex items-center gap-1.5 px-1.5 py-1 rounded-md border text-sm",
+                  overIndex === index && dragIndex !== index
+                    ? "border-accent"
+                    : "border-border-secondary",
+                  dragIndex === index && "opacity-50",
+                  !item.include && "text-foreground-tertiary",
+                )}
+              >
+                <GripVertical className="w-3.5 h-3.5 flex-shrink-0 cursor-grab text-foreground-tertiary" />
+                <input
+                  type="checkbox"
+                  checked={item.include}
+                  onChange={(e) => updateItem(index, { include: e.target.checked })}
+                  aria-label="書き出しに含める"
+                />
+                {item.type === "part" ? (
+                  <>
+                    <span className="text-xs px-1 rounded bg-background-secondary">部</span>
+                    <input
+                      type="text"
+                      className="flex-1 min-w-0 bg-transparent text-sm focus:outline-none"
+                      value={item.title}
+                      onChange={(e) => updateItem(index, { title: e.target.value })}
+                      aria-label="部の見出し"
+                    />
+                    <button
+                      type="button"
+                      className="p-0.5 text-foreground-tertiary hover:text-danger"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      aria-label="部を削除"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 min-w-0 truncate" title={item.path}>
+                      {compileFileTitle(item.path)}
+                    </span>
+                    <select
+                      className="text-xs bg-transparent border border-border-secondary rounded px-1 py-0.5"
+                      value={item.chapterBreak ? "chapter" : "continue"}
+                      onChange={(e) =>
+                        updateItem(index, { chapterBreak: e.target.value === "chapter" })
+                      }
+                      aria-label="章の区切り"
+                    >
+                      <option value="chapter">新しい章</option>
+                      <option value="continue">前の章に続ける</option>
+                    </select>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
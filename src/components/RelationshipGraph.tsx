@@ -0,0 +1,696 @@
+"use client";
+
+import { useEffect, useId, useMemo, useRef, useState } from "react";
+import { Download, Move, Spline } from "lucide-react";
+import clsx from "clsx";
+
+import { RELATIONSHIP_DIRECTION_LABELS } from "@/components/Characters/character-fields";
+import {
+  buildGraphEdges,
+  collectCharacterTags,
+  filterCharactersByTag,
+  GRAPH_NODE_RADIUS,
+  layoutGraphNodes,
+} from "@/lib/editor-page/relationship-graph";
+import type { GraphPoint } from "@/lib/editor-page/relationship-graph";
+import { saveBlobFile } from "@/lib/export/save-blob-file";
+import { serializeSvg, svgToPngBlob } from "@/lib/export/svg-image";
+import type { SvgExportBox } from "@/lib/export/svg-image";
+import {
+  loadCharactersForMode,
+  loadGraphNodesForMode,
+  saveCharactersForMode,
+  saveGraphNodesForMode,
+  subscribeCharacterChange,
+} from "@/lib/project/character-service";
+import type {
+  Character,
+  CharacterRelationship,
+  EditorMode,
+  RelationshipDirection,
+  RelationshipGraphNode,
+} from "@/lib/project/project-types";
+
+/** Size of the drawing area, in SVG user units. */
+const CANVAS = { width: 1200, height: 800 };
+
+/** Change-notification origin of saves made from the graph. */
+const GRAPH_ORIGIN = "relationship-graph";
+
+/** Margin around the nodes when exporting (room for names and labels). */
+const EXPORT_MARGIN = 64;
+
+// Explicit colours: exported images must not depend on the app theme.
+const COLORS = {
+  canvas: "#fafafa",
+  node: "#ffffff",
+  nodeStroke: "#4A90E2",
+  text: "#333333",
+  edge: "#8a8f98",
+  edgeSelected: "#4A90E2",
+  halo: "#fafafa",
+};
+
+type GraphMode = "move" | "connect";
+
+interface EdgeRef {
+  sourceId: string;
+  relationshipId: string;
+}
+
+interface RelationshipDraft {
+  label: string;
+  direction: RelationshipDirection;
+  note: string;
+}
+
+interface RelationshipGraphProps {
+  editorMode: EditorMode;
+}
+
+/** Convert a pointer position to SVG user units. */
+function toCanvasPoint(svg: SVGSVGElement, clientX: number, clientY: number): GraphPoint {
+  const ctm = svg.getScreenCTM();
+  if (!ctm) return { x: clientX, y: clientY };
+  const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+  return { x: point.x, y: point.y };
+}
+
+function clampToCanvas(point: GraphPoint): GraphPoint {
+  const clamp = (n: number, max: number) =>
+    Math.round(Math.min(Math.max(n, GRAPH_NODE_RADIUS), max - GRAPH_NODE_RADIUS));
+  return { x: clamp(point.x, CANVAS.width), y: clamp(point.y, CANVAS.height) };
+}
+
+/** Bounding box of the visible nodes plus a margin, limited to the canvas. */
+function exportBox(points: readonly GraphPoint[]): SvgExportBox {
+  if (points.length === 0) return { x: 0, y: 0, ...CANVAS };
+  const minX = Math.max(0, Math.min(...points.map((p) => p.x)) - EXPORT_MARGIN);
+  const minY = Math.max(0, Math.min(...points.map((p) => p.y)) - EXPORT_MARGIN);
+  const maxX = Math.min(CANVAS.width, Math.max(...points.map((p) => p.x)) + EXPORT_MARGIN);
+  const maxY = Math.min(CANVAS.height, Math.max(...points.map((p) => p.y)) + EXPORT_MARGIN);
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * 人物関係図: the characters as draggable nodes and their relationships as
+ * edges. Edges are drawn by dragging from one node to another in 関係を引く
+ * mode; clicking an edge edits or deletes it. Node positions are saved to
+ * .illusions/relationship-graph.json, the edges to the character sheets.
+ */
+export default function RelationshipGraph({ editorMode }: RelationshipGraphProps) {
+  const uid = useId().replace(/:/g, "");
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [savedNodes, setSavedNodes] = useState<RelationshipGraphNode[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<GraphMode>("move");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+
+  /** Node being dragged: grab offset from the node centre */
+  const dragRef = useRef<{ characterId: string; dx: number; dy: number } | null>(null);
+  const [dragPosition, setDragPosition] = useState<{
+    characterId: string;
+    point: GraphPoint;
+  } | null>(null);
+  const [connecting, setConnecting] = useState<{ sourceId: string; pointer: GraphPoint } | null>(
+    null,
+  );
+  const [pendingEdge, setPendingEdge] = useState<{ sourceId: string; targetId: string } | null>(
+    null,
+  );
+  const [selectedEdge, setSelectedEdge] = useState<EdgeRef | null>(null);
+
+  // Load the sheets and the layout; reload the sheets when another view saves.
+  useEffect(() => {
+    let cancelled = false;
+    const loadCharacters = () => {
+      loadCharactersForMode(editorMode)
+        .then((loaded) => {
+          if (!cancelled) setCharacters(loaded);
+        })
+        .catch((err: unknown) => {
+          console.error("[RelationshipGraph] Failed to load characters:", err);
+          if (!cancelled) setError("登場人物を読み込めませんでした");
+        });
+    };
+    loadCharacters();
+    loadGraphNodesForMode(editorMode)
+      .then((nodes) => {
+        if (!cancelled) setSavedNodes(nodes);
+      })
+      .catch((err: unknown) => {
+        console.error("[RelationshipGraph] Failed to load the graph layout:", err);
+        if (!cancelled) setError("人物関係図の配置を読み込めませんでした");
+      });
+    const unsubscribe = subscribeCharacterChange((origin) => {
+      if (origin !== GRAPH_ORIGIN) loadCharacters();
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [editorMode]);
+
+  const tags = useMemo(() => collectCharacterTags(characters), [characters]);
+  const activeTag = tagFilter !== null && tags.includes(tagFilter) ? tagFilter : null;
+  const visible = useMemo(
+    () => filterCharactersByTag(characters, activeTag),
+    [characters, activeTag],
+  );
+
+  const layout = useMemo(
+    () => layoutGraphNodes(characters, savedNodes, CANVAS),
+    [characters, savedNodes],
+  );
+  const positions = useMemo(() => {
+    const visibleIds = new Set(visible.map((c) => c.id));
+    const map = new Map<string, GraphPoint>();
+    for (const node of layout) {
+      if (!visibleIds.has(node.characterId)) continue;
+      map.set(
+        node.characterId,
+        dragPosition?.characterId === node.characterId ? dragPosition.point : node,
+      );
+    }
+    return map;
+  }, [layout, visible, dragPosition]);
+  const edges = useMemo(() => buildGraphEdges(visible, positions), [visible, positions]);
+
+  const saveCharacters = (next: Character[]) => {
+    setCharacters(next);
+    saveCharactersForMode(editorMode, next, GRAPH_ORIGIN).catch((err: unknown) => {
+      console.error("[RelationshipGraph] Failed to save characters:", err);
+      setError("関係を保存できませんでした");
+    });
+  };
+
+  const updateRelationships = (
+    sourceId: string,
+    update: (relationships: CharacterRelationship[]) => CharacterRelationship[],
+  ) => {
+    saveCharacters(
+      characters.map((c) =>
+        c.id === sourceId ? { ...c, relationships: update(c.relationships) } : c,
+      ),
+    );
+  };
+
+  const nodeAt = (point: GraphPoint): string | null => {
+    for (const [characterId, p] of positions) {
+      if (Math.hypot(p.x - point.x, p.y - point.y) <= GRAPH_NODE_RADIUS) return characterId;
+    }
+    return null;
+  };
+
+  // -- Pointer handling -----------------------------------------------------
+
+  const handleNodePointerDown = (e: React.PointerEvent, characterId: string) => {
+    const svg = svgRef.current;
+    const origin = positions.get(characterId);
+    if (!svg || !origin || e.button !== 0) return;
+    e.stopPropagation();
+    svg.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(svg, e.clientX, e.clientY);
+    setSelectedEdge(null);
+    setPendingEdge(null);
+    if (mode === "move") {
+      dragRef.current = { characterId, dx: point.x - origin.x, dy: point.y - origin.y };
+      setDragPosition({ characterId, point: origin });
+    } else {
+      setConnecting({ sourceId: characterId, pointer: point });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag && !connecting) return;
+    const point = toCanvasPoint(e.currentTarget, e.clientX, e.clientY);
+    if (drag) {
+      setDragPosition({
+        characterId: drag.characterId,
+        point: clampToCanvas({ x: point.x - drag.dx, y: point.y - drag.dy }),
+      });
+    } else if (connecting) {
+      setConnecting({ ...connecting, pointer: point });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId);
+    }
+    const drag = dragRef.current;
+    if (drag && dragPosition) {
+      dragRef.current = null;
+      const moved = layout.map((node) =>
+        node.characterId === drag.characterId
+          ? { characterId: node.characterId, ...dragPosition.point }
+          : node,
+      );
+      setSavedNodes(moved);
+      setDragPosition(null);
+      saveGraphNodesForMode(editorMode, moved).catch((err: unknown) => {
+        console.error("[RelationshipGraph] Failed to save the graph layout:", err);
+        setError("配置を保存できませんでした");
+      });
+    }
+    if (connecting) {
+      const targetId = nodeAt(toCanvasPoint(e.currentTarget, e.clientX, e.clientY));
+      if (targetId && targetId !== connecting.sourceId) {
+        setPendingEdge({ sourceId: connecting.sourceId, targetId });
+      }
+      setConnecting(null);
+    }
+  };
+
+  // -- Edge forms -----------------------------------------------------------
+
+  const handleAddEdge = (draft: RelationshipDraft) => {
+    if (!pendingEdge) return;
+    const note = draft.note.trim();
+    const relationship: CharacterRelationship = {
+      id: crypto.randomUUID(),
+      targetId: pendingEdge.targetId,
+      label: draft.label.trim(),
+      direction: draft.direction,
+      ...(note ? { note } : {}),
+    };
+    updateRelationships(pendingEdge.sourceId, (list) => [...list, relationship]);
+    setPendingEdge(null);
+  };
+
+  const selectedRelationship = selectedEdge
+    ? characters
+        .find((c) => c.id === selectedEdge.sourceId)
+        ?.relationships.find((r) => r.id === selectedEdge.relationshipId)
+    : undefined;
+
+  const handleUpdateEdge = (draft: RelationshipDraft) => {
+    if (!selectedEdge) return;
+    const note = draft.note.trim();
+    updateRelationships(selectedEdge.sourceId, (list) =>
+      list.map((r) => {
+        if (r.id !== selectedEdge.relationshipId) return r;
+        return {
+          id: r.id,
+          targetId: r.targetId,
+          label: draft.label.trim(),
+          direction: draft.direction,
+          ...(note ? { note } : {}),
+        };
+      }),
+    );
+    setSelectedEdge(null);
+  };
+
+  const handleDeleteEdge = () => {
+    if (!selectedEdge) return;
+    updateRelationships(selectedEdge.sourceId, (list) =>
+      list.filter((r) => r.id !== selectedEdge.relationshipId),
+    );
+    setSelectedEdge(null);
+  };
+
+  const nameOf = (characterId: string) =>
+    characters.find((c) => c.id === characterId)?.name ?? "（不明）";
+
+  // -- Export ---------------------------------------------------------------
+
+  const handleExport = async (format: "svg" | "png") => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    try {
+      const box = exportBox([...positions.values()]);
+      const svgText = serializeSvg(svg, box);
+      const blob =
+        format === "svg"
+          ? new Blob([svgText], { type: "image/svg+xml" })
+          : await svgToPngBlob(svgText, box.width, box.height);
+      await saveBlobFile(blob, `人物関係図.${format}`, false);
+    } catch (err) {
+      console.error("[RelationshipGraph] Export failed:", err);
+      setError("画像を書き出せませんでした");
+    }
+  };
+
+  // -- Render ---------------------------------------------------------------
+
+  if (!editorMode) {
+    return (
+      <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+        プロジェクトまたはファイルを開くと人物関係図を編集できます
+      </div>
+    );
+  }
+
+  const arrowId = `${uid}-arrow`;
+  const connectFrom = connecting ? positions.get(connecting.sourceId) : undefined;
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      {/* ツールバー */}
+      <div className="flex-shrink-0 flex items-center gap-2 px-3 py-2 border-b border-border text-xs">
+        <div className="flex rounded border border-border overflow-hidden">
+          <button
+            type="button"
+            onClick={() => setMode("move")}
+            className={clsx(
+              "flex items-center gap-1 px-2 py-1",
+              mode === "move" ? "bg-accent text-accent-foreground" : "hover:bg-hover",
+            )}
+            title="人物をドラッグして配置します"
+          >
+            <Move className="w-3.5 h-3.5" />
+            移動
+          </button>
+          <button
+            type="button"
+            onClick={() => setMode("connect")}
+            className={clsx(
+              "flex items-center gap-1 px-2 py-1 border-l border-border",
+              mode === "connect" ? "bg-accent text-accent-foreground" : "hover:bg-hover",
+            )}
+            title="人物から人物へドラッグして関係を追加します"
+          >
+            <Spline className="w-3.5 h-3.5" />
+            関係を引く
+          </button>
+        </div>
+
+        <label className="flex items-center gap-1 text-foreground-secondary">
+          タグ
+          <select
+            value={activeTag ?? ""}
+            onChange={(e) => setTagFilter(e.target.value === "" ? null : e.target.value)}
+            className="px-1 py-0.5 rounded border border-border bg-background text-foreground"
+          >
+            <option value="">すべて</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="ml-auto flex items-center gap-1">
+          <Download className="w-3.5 h-3.5 text-foreground-tertiary" />
+          <button
+            type="button"
+            onClick={() => void handleExport("svg")}
+            className="px-2 py-1 rounded hover:bg-hover text-foreground-secondary"
+          >
+            SVG
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleExport("png")}
+            className="px-2 py-1 rounded hover:bg-hover text-foreground-secondary"
+          >
+            PNG
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-500 bg-red-500/10">{error}</div>}
+
+      <div className="relative flex-1 min-h-0">
+        {characters.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+            登場人物パネルで人物を追加すると、ここに人物関係図が表示されます
+          </div>
+        ) : (
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${CANVAS.width} ${CANVAS.height}`}
+            className={clsx(
+              "w-full h-full touch-none select-none",
+              mode === "connect" && "cursor-crosshair",
+            )}
+            fontFamily="sans-serif"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerDown={() => {
+              setSelectedEdge(null);
+              setPendingEdge(null);
+            }}
+          >
+            <defs>
+              <marker
+                id={arrowId}
+                viewBox="0 0 10 10"
+                refX="9"
+                refY="5"
+                markerWidth="8"
+                markerHeight="8"
+                orient="auto-start-reverse"
+              >
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={COLORS.edge} />
+              </marker>
+              {visible.map((character, i) =>
+                character.portrait ? (
+                  <clipPath key={character.id} id={`${uid}-clip-${i}`}>
+                    <circle r={GRAPH_NODE_RADIUS - 2} />
+                  </clipPath>
+                ) : null,
+              )}
+            </defs>
+
+            <rect x={0} y={0} width={CANVAS.width} height={CANVAS.height} fill={COLORS.canvas} />
+
+            {/* 関係線 */}
+            {edges.map((edge) => {
+              const isSelected =
+                selectedEdge?.sourceId === edge.sourceId &&
+                selectedEdge.relationshipId === edge.relationshipId;
+              return (
+                <g
+                  key={`${edge.sourceId}:${edge.relationshipId}`}
+                  className="cursor-pointer"
+                  onPointerDown={(e) => {
+                    e.stopPropagation();
+                    setPendingEdge(null);
+                    setSelectedEdge({
+                      sourceId: edge.sourceId,
+                      relationshipId: edge.relationshipId,
+                    });
+                  }}
+                >
+                  <title>
+                    {`${nameOf(edge.sourceId)} → ${nameOf(edge.targetId)}: ${edge.label}`}
+                  </title>
+                  <path
+                    d={edge.path}
+                    fill="none"
+                    stroke={isSelected ? COLORS.edgeSelected : COLORS.edge}
+                    strokeWidth={isSelected ? 2.5 : 1.5}
+                    markerEnd={edge.direction !== "none" ? `url(#${arrowId})` : undefined}
+                    markerStart={edge.direction === "mutual" ? `url(#${arrowId})` : undefined}
+                  />
+                  {/* 太い透明な当たり判定 */}
+                  <path d={edge.path} fill="none" stroke="transparent" strokeWidth={12} />
+                  {edge.label && (
+                    <text
+                      x={edge.labelPoint.x}
+                      y={edge.labelPoint.y}
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                      fontSize={12}
+                      fill={COLORS.text}
+                      stroke={COLORS.halo}
+                      strokeWidth={4}
+                      paintOrder="stroke"
+                    >
+                      {edge.label}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+
+            {/* 描画中の関係線 */}
+            {connecting && connectFrom && (
+              <line
+                x1={connectFrom.x}
+                y1={connectFrom.y}
+                x2={connecting.pointer.x}
+                y2={connecting.pointer.y}
+                stroke={COLORS.edgeSelected}
+                strokeWidth={1.5}
+                strokeDasharray="6 4"
+              />
+            )}
+
+            {/* 人物 */}
+            {visible.map((character, i) => {
+              const p = positions.get(character.id);
+              if (!p) return null;
+              return (
+                <g
+                  key={character.id}
+                  transform={`translate(${p.x} ${p.y})`}
+                  className={mode === "move" ? "cursor-grab" : "cursor-crosshair"}
+                  onPointerDown={(e) => handleNodePointerDown(e, character.id)}
+                >
+                  <title>{character.description || character.name}</title>
+                  <circle
+                    r={GRAPH_NODE_RADIUS}
+                    fill={COLORS.node}
+                    stroke={COLORS.nodeStroke}
+                    strokeWidth={2}
+                  />
+                  {character.portrait ? (
+                    <image
+                      href={character.portrait}
+                      x={-(GRAPH_NODE_RADIUS - 2)}
+                      y={-(GRAPH_NODE_RADIUS - 2)}
+                      width={(GRAPH_NODE_RADIUS - 2) * 2}
+                      height={(GRAPH_NODE_RADIUS - 2) * 2}
+                      clipPath={`url(#${uid}-clip-${i})`}
+                      preserveAspectRatio="xMidYMid slice"
+                    />
+                  ) : (
+                    <text
+                      textAnchor="middle"
+                      dominantBaseline="central"
+                      fontSize={18}
+                      fill={COLORS.nodeStroke}
+                    >
+                      {character.name.slice(0, 1)}
+                    </text>
+                  )}
+                  <text
+                    y={GRAPH_NODE_RADIUS + 16}
+                    textAnchor="middle"
+                    fontSize={13}
+                    fill={COLORS.text}
+                    stroke={COLORS.halo}
+                    strokeWidth={4}
+                    paintOrder="stroke"
+                  >
+                    {character.name}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+
+        {pendingEdge && (
+          <RelationshipForm
+            key={`new:${pendingEdge.sourceId}:${pendingEdge.targetId}`}
+            heading={`${nameOf(pendingEdge.sourceId)} → ${nameOf(pendingEdge.targetId)}`}
+            initial={{ label: "", direction: "forward", note: "" }}
+            submitLabel="追加"
+            onSubmit={handleAddEdge}
+            onCancel={() => setPendingEdge(null)}
+          />
+        )}
+        {selectedEdge && selectedRelationship && (
+          <RelationshipForm
+            key={`edit:${selectedEdge.sourceId}:${selectedEdge.relationshipId}`}
+            heading={`${nameOf(selectedEdge.sourceId)} → ${nameOf(selectedRelationship.targetId)}`}
+            initial={{
+              label: selectedRelationship.label,
+              direction: selectedRelationship.direction,
+              note: selectedRelationship.note ?? "",
+            }}
+            submitLabel="保存"
+            onSubmit={handleUpdateEdge}
+            onCancel={() => setSelectedEdge(null)}
+            onDelete={handleDeleteEdge}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface RelationshipFormProps {
+  heading: string;
+  initial: RelationshipDraft;
+  submitLabel: string;
+  onSubmit: (draft: RelationshipDraft) => void;
+  onCancel: () => void;
+  onDelete?: () => void;
+}
+
+/** Floating form for the label, direction and note of one relationship. */
+function RelationshipForm({
+  heading,
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  onDelete,
+}: RelationshipFormProps) {
+  const [draft, setDraft] = useState(initial);
+  const inputClass =
+    "w-full px-2 py-1 text-xs rounded border border-border bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-accent";
+
+  return (
+    <form
+      className="absolute top-2 right-2 w-64 p-3 space-y-2 rounded-lg border border-border bg-background-elevated shadow-lg text-xs"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(draft);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <div className="font-medium text-foreground">{heading}</div>
+      <input
+        autoFocus
+        value={draft.label}
+        onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+        placeholder="関係（例: 幼なじみ）"
+        className={inputClass}
+      />
+      <select
+        value={draft.direction}
+        onChange={(e) => setDraft({ ...draft, direction: e.target.value as RelationshipDirection })}
+        className={inputClass}
+      >
+        {(Object.keys(RELATIONSHIP_DIRECTION_LABELS) as RelationshipDirection[]).map((d) => (
+          <option key={d} value={d}>
+            {RELATIONSHIP_DIRECTION_LABELS[d]}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={draft.note}
+        onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+        placeholder="メモ"
+        rows={2}
+        className={inputClass}
+      />
+      <div className="flex items-center gap-2">
+        {onDelete && (
+          <button
+            type="button"
+            onClick={onDelete}
+            className="px-2 py-1 rounded text-red-500 hover:bg-red-500/10"
+          >
+            削除
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onCancel}
+          className="ml-auto px-2 py-1 rounded hover:bg-hover text-foreground-secondary"
+        >
+          キャンセル
+        </button>
+        <button
+          type="submit"
+          className="px-2 py-1 rounded bg-accent text-accent-foreground hover:opacity-90"
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
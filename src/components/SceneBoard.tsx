@@ -0,0 +1,793 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import clsx from "clsx";
+import {
+  AlertTriangle,
+  Check,
+  Clock,
+  Columns3,
+  GripVertical,
+  ListOrdered,
+  ListPlus,
+  MapPin,
+  Pencil,
+  Plus,
+  Trash2,
+  User,
+  X,
+} from "lucide-react";
+
+import { useChapters } from "@/lib/editor-page";
+import {
+  applySceneOrderToManifest,
+  findChronologyWarnings,
+  moveScene,
+  scenesFromChapters,
+} from "@/lib/editor-page/scene-board";
+import { compileFileTitle, syncCompileManifest } from "@/lib/export/project-compile";
+import { getSceneService, subscribeSceneChange } from "@/lib/services/scene-service";
+import { getCompileManifestService } from "@/lib/services/compile-manifest-service";
+import { loadCharactersForMode, subscribeCharacterChange } from "@/lib/project/character-service";
+import { isProjectMode } from "@/lib/project/project-types";
+import type {
+  Character,
+  EditorMode,
+  ProjectMode,
+  Scene,
+  SceneStatus,
+} from "@/lib/project/project-types";
+import { generateHeadingId } from "@/lib/utils";
+import { formatTags, parseTags } from "./Characters/character-fields";
+
+/** Kanban columns, in workflow order. */
+const SCENE_STATUS_LABELS: Record<SceneStatus, string> = {
+  idea: "構想",
+  draft: "執筆中",
+  revised: "推敲中",
+  done: "完成",
+};
+const SCENE_STATUSES = Object.keys(SCENE_STATUS_LABELS) as SceneStatus[];
+
+const INPUT_CLASS =
+  "w-full px-2 py-1.5 bg-background border border-border rounded text-sm text-foreground focus:outline-none focus:ring-1 focus:ring-accent";
+
+type BoardView = "kanban" | "timeline";
+
+interface SceneBoardProps {
+  editorMode: EditorMode;
+  /** Root-relative path of the active file, for 見出しから追加 */
+  activeFilePath: string | null;
+  activeContent: string;
+  onOpenScene: (filePath: string, headingAnchor?: string) => void;
+}
+
+/** Form fields of a scene being added or edited (tags and heading as typed). */
+interface SceneDraft {
+  id: string | null;
+  title: string;
+  povCharacterId: string;
+  storyTime: string;
+  location: string;
+  status: SceneStatus;
+  filePath: string;
+  heading: string;
+  tagsText: string;
+  summary: string;
+}
+
+const EMPTY_DRAFT: SceneDraft = {
+  id: null,
+  title: "",
+  povCharacterId: "",
+  storyTime: "",
+  location: "",
+  status: "idea",
+  filePath: "",
+  heading: "",
+  tagsText: "",
+  summary: "",
+};
+
+/** Heading text of an anchor id (anchors are URL-encoded titles). */
+function headingOfAnchor(anchor: string | undefined): string {
+  if (!anchor) return "";
+  try {
+    return decodeURIComponent(anchor);
+  } catch {
+    return anchor;
+  }
+}
+
+function toDraft(scene: Scene): SceneDraft {
+  return {
+    id: scene.id,
+    title: scene.title,
+    povCharacterId: scene.povCharacterId ?? "",
+    storyTime: scene.storyTime ?? "",
+    location: scene.location ?? "",
+    status: scene.status,
+    filePath: scene.filePath ?? "",
+    heading: headingOfAnchor(scene.headingAnchor),
+    tagsText: formatTags(scene.tags),
+    summary: scene.summary ?? "",
+  };
+}
+
+function fromDraft(draft: SceneDraft): Scene {
+  const heading = draft.heading.trim();
+  return {
+    id: draft.id ?? crypto.randomUUID(),
+    title: draft.title,
+    povCharacterId: draft.povCharacterId,
+    storyTime: draft.storyTime,
+    location: draft.location,
+    status: draft.status,
+    filePath: draft.filePath,
+    headingAnchor: draft.filePath && heading ? generateHeadingId(heading) : undefined,
+    tags: parseTags(draft.tagsText),
+    summary: draft.summary,
+  };
+}
+
+/**
+ * シーンボード tab: the project's scenes as a kanban of progress columns or as
+ * an in-world timeline, with chronology warnings. Project mode only — scenes
+ * live in .illusions/scenes.json. Remounts per project so a pending write
+ * never lands in the project opened next.
+ */
+export default function SceneBoard({ editorMode, ...props }: SceneBoardProps) {
+  if (!isProjectMode(editorMode)) {
+    return (
+      <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+        プロジェクトを開くとシーンボードを利用できます
+      </div>
+    );
+  }
+  return <SceneBoardContent key={editorMode.projectId} editorMode={editorMode} {...props} />;
+}
+
+interface SceneBoardContentProps extends Omit<SceneBoardProps, "editorMode"> {
+  editorMode: ProjectMode;
+}
+
+function SceneBoardContent({
+  editorMode,
+  activeFilePath,
+  activeContent,
+  onOpenScene,
+}: SceneBoardContentProps) {
+  const [scenes, setScenes] = useState<Scene[]>([]);
+  const [characters, setCharacters] = useState<Character[]>([]);
+  const [manuscriptPaths, setManuscriptPaths] = useState<string[]>([]);
+  const [view, setView] = useState<BoardView>("kanban");
+  const [draft, setDraft] = useState<SceneDraft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+
+  const { chapters } = useChapters(activeContent);
+
+  // Load on mount and again after every write from another view.
+  useEffect(() => {
+    let cancelled = false;
+    const loadScenes = () => {
+      getSceneService()
+        .loadScenes()
+        .then((loaded) => {
+          if (!cancelled) setScenes(loaded);
+        })
+        .catch((err: unknown) => {
+          console.error("[SceneBoard] Failed to load scenes:", err);
+          if (!cancelled) setError("シーンを読み込めませんでした");
+        });
+    };
+    const loadCharacters = () => {
+      loadCharactersForMode(editorMode)
+        .then((loaded) => {
+          if (!cancelled) setCharacters(loaded);
+        })
+        .catch((err: unknown) => {
+          console.error("[SceneBoard] Failed to load characters:", err);
+        });
+    };
+    loadScenes();
+    loadCharacters();
+    getCompileManifestService()
+      .listManuscriptPaths()
+      .then((paths) => {
+        if (!cancelled) setManuscriptPaths(paths);
+      })
+      .catch((err: unknown) => {
+        console.error("[SceneBoard] Failed to list manuscript files:", err);
+      });
+    const unsubscribeScenes = subscribeSceneChange(loadScenes);
+    const unsubscribeCharacters = subscribeCharacterChange(loadCharacters);
+    return () => {
+      cancelled = true;
+      unsubscribeScenes();
+      unsubscribeCharacters();
+    };
+  }, [editorMode]);
+
+  const warnings = useMemo(
+    () =>
+      new Map(findChronologyWarnings(scenes).map((w) => [w.sceneId, w.previousSceneId] as const)),
+    [scenes],
+  );
+  const characterNames = useMemo(
+    () => new Map(characters.map((c) => [c.id, c.name] as const)),
+    [characters],
+  );
+  const titles = useMemo(() => new Map(scenes.map((s) => [s.id, s.title] as const)), [scenes]);
+  const warningOf = (scene: Scene): string | null => {
+    const previousId = warnings.get(scene.id);
+    if (!previousId) return null;
+    return `作中日時が前のシーン「${titles.get(previousId) ?? ""}」より前に戻っています。回想シーンなら「回想」タグを付けてください`;
+  };
+
+  /** Show `next` right away and write it; the change notification reloads the list. */
+  const persist = useCallback((next: Scene[]) => {
+    setScenes(next);
+    getSceneService()
+      .saveScenes(next)
+      .catch((err: unknown) => {
+        console.error("[SceneBoard] Failed to save scenes:", err);
+        setError("シーンを保存できませんでした");
+      });
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    if (!draft || !draft.title.trim()) return;
+    try {
+      setScenes(await getSceneService().upsertScene(fromDraft(draft)));
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      console.error("[SceneBoard] Failed to save scene:", err);
+      setError("シーンを保存できませんでした");
+    }
+  }, [draft]);
+
+  const handleDelete = useCallback(async (scene: Scene) => {
+    try {
+      setScenes(await getSceneService().removeScene(scene.id));
+      setDraft((prev) => (prev?.id === scene.id ? null : prev));
+    } catch (err) {
+      console.error("[SceneBoard] Failed to delete scene:", err);
+      setError("シーンを削除できませんでした");
+    }
+  }, []);
+
+  const handleAddFromHeadings = useCallback(async () => {
+    if (!activeFilePath) return;
+    const added = scenesFromChapters(chapters, activeFilePath, scenes);
+    if (added.length === 0) {
+      setNotice("追加できる見出しはありません（すべてシーンになっています）");
+      return;
+    }
+    try {
+      setScenes(await getSceneService().appendScenes(added));
+      setNotice(`${added.length}件の見出しをシーンとして追加しました`);
+      setError(null);
+    } catch (err) {
+      console.error("[SceneBoard] Failed to add scenes:", err);
+      setError("シーンを追加できませんでした");
+    }
+  }, [activeFilePath, chapters, scenes]);
+
+  const handleApplyOrder = useCallback(async () => {
+    const service = getCompileManifestService();
+    try {
+      const [saved, paths] = await Promise.all([service.load(), service.listManuscriptPaths()]);
+      const manifest = syncCompileManifest(saved, paths, {
+        title: editorMode.name,
+        author: "",
+        titlePage: false,
+      });
+      await service.save(applySceneOrderToManifest(manifest, scenes));
+      setNotice("シーンの順序を書き出し順に反映しました");
+      setError(null);
+    } catch (err) {
+      console.error("[SceneBoard] Failed to update compile order:", err);
+      setError("書き出し順を更新できませんでした");
+    }
+  }, [editorMode.name, scenes]);
+
+  // -- Drag and drop ----------------------------------------------------------
+
+  const endDrag = () => {
+    setDragId(null);
+    setOverId(null);
+  };
+
+  /** Drop the dragged scene before `target`, taking its status on the kanban. */
+  const handleDropOnScene = (target: Scene) => {
+    const from = scenes.findIndex((s) => s.id === dragId);
+    const to = scenes.findIndex((s) => s.id === target.id);
+    endDrag();
+    if (from === -1 || to === -1 || from === to) return;
+    const moved = moveScene(scenes, from, to);
+    persist(
+      view === "kanban"
+        ? moved.map((s) => (s.id === scenes[from].id ? { ...s, status: target.status } : s))
+        : moved,
+    );
+  };
+
+  /** Drop the dragged scene on an empty part of a kanban column: change its status only. */
+  const handleDropOnColumn = (status: SceneStatus) => {
+    const id = dragId;
+    endDrag();
+    if (!id) return;
+    persist(scenes.map((s) => (s.id === id && s.status !== status ? { ...s, status } : s)));
+  };
+
+  const cardProps = (scene: Scene): SceneCardProps => ({
+    scene,
+    povName: scene.povCharacterId ? characterNames.get(scene.povCharacterId) : undefined,
+    warning: warningOf(scene),
+    isDragging: dragId === scene.id,
+    isDropTarget: overId === scene.id && dragId !== scene.id,
+    onOpen: scene.filePath
+      ? () => onOpenScene(scene.filePath as string, scene.headingAnchor)
+      : undefined,
+    onEdit: () => setDraft(toDraft(scene)),
+    onDelete: () => void handleDelete(scene),
+    onDragStart: (e) => {
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData("text/plain", scene.id);
+      setDragId(scene.id);
+    },
+    onDragOver: (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setOverId(scene.id);
+    },
+    onDrop: (e) => {
+      e.preventDefault();
+      e.stopPropagation();
+      handleDropOnScene(scene);
+    },
+    onDragEnd: endDrag,
+  });
+
+  return (
+    <div className="h-full flex flex-col bg-background">
+      {/* ツールバー */}
+      <div className="flex-shrink-0 flex items-center gap-2 px-3 py-2 border-b border-border text-xs">
+        <div className="flex rounded border border-border overflow-hidden">
+          <button
+            type="button"
+            onClick={() => setView("kanban")}
+            className={clsx(
+              "flex items-center gap-1 px-2 py-1",
+              view === "kanban" ? "bg-accent text-accent-foreground" : "hover:bg-hover",
+            )}
+            title="進捗ごとの列で表示します"
+          >
+            <Columns3 className="w-3.5 h-3.5" />
+            カンバン
+          </button>
+          <button
+            type="button"
+            onClick={() => setView("timeline")}
+            className={clsx(
+              "flex items-center gap-1 px-2 py-1 border-l border-border",
+              view === "timeline" ? "bg-accent text-accent-foreground" : "hover:bg-hover",
+            )}
+            title="シーン順に作中日時を並べて表示します"
+          >
+            <Clock className="w-3.5 h-3.5" />
+            タイムライン
+          </button>
+        </div>
+
+        <button
+          type="button"
+          onClick={() => setDraft(EMPTY_DRAFT)}
+          className="flex items-center gap-1 px-2 py-1 rounded hover:bg-hover text-foreground-secondary"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          新規シーン
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleAddFromHeadings()}
+          disabled={!activeFilePath || chapters.length === 0}
+          className="flex items-center gap-1 px-2 py-1 rounded hover:bg-hover text-foreground-secondary disabled:opacity-50"
+          title={
+            activeFilePath
+              ? `${compileFileTitle(activeFilePath)} の見出しをシーンとして追加します`
+              : "プロジェクトのファイルを開くと見出しから追加できます"
+          }
+        >
+          <ListPlus className="w-3.5 h-3.5" />
+          見出しから追加
+        </button>
+
+        <div className="ml-auto flex items-center gap-2">
+          {warnings.size > 0 && (
+            <span className="flex items-center gap-1 text-warning">
+              <AlertTriangle className="w-3.5 h-3.5" />
+              時系列の逆行 {warnings.size}件
+            </span>
+          )}
+          <button
+            type="button"
+            onClick={() => void handleApplyOrder()}
+            disabled={!scenes.some((s) => s.filePath)}
+            className="flex items-center gap-1 px-2 py-1 rounded hover:bg-hover text-foreground-secondary disabled:opacity-50"
+            title="シーンの順にプロジェクトの書き出し順（ファイルの順序）を並べ替えます"
+          >
+            <ListOrdered className="w-3.5 h-3.5" />
+            書き出し順に反映
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="px-3 py-2 text-xs text-red-500 bg-red-500/10">{error}</div>}
+      {notice && !error && (
+        <div className="px-3 py-2 text-xs text-foreground-secondary bg-background-secondary flex items-center">
+          <span className="flex-1">{notice}</span>
+          <button
+            type="button"
+            onClick={() => setNotice(null)}
+            className="p-0.5 hover:bg-hover rounded"
+            aria-label="閉じる"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0 overflow-auto p-3">
+          {scenes.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-foreground-muted text-sm gap-1">
+              <p>まだシーンがありません</p>
+              <p className="text-xs">「新規シーン」か「見出しから追加」でシーンを作成できます</p>
+            </div>
+          ) : view === "kanban" ? (
+            <div className="flex gap-3 h-full min-h-[16rem]">
+              {SCENE_STATUSES.map((status) => {
+                const column = scenes.filter((s) => s.status === status);
+                return (
+                  <section
+                    key={status}
+                    className="flex-1 min-w-[12rem] flex flex-col rounded-lg bg-background-secondary"
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDropOnColumn(status);
+                    }}
+                  >
+                    <h3 className="px-3 py-2 text-xs font-semibold text-foreground-tertiary">
+                      {SCENE_STATUS_LABELS[status]}（{column.length}）
+                    </h3>
+                    <div className="flex-1 overflow-y-auto px-2 pb-2 space-y-2">
+                      {column.map((scene) => (
+                        <SceneCard key={scene.id} {...cardProps(scene)} />
+                      ))}
+                    </div>
+                  </section>
+                );
+              })}
+            </div>
+          ) : (
+            <ol className="relative ml-24 border-l border-border space-y-3">
+              {scenes.map((scene) => (
+                <li key={scene.id} className="relative pl-4">
+                  <span
+                    className={clsx(
+                      "absolute -left-[5px] top-3 w-2.5 h-2.5 rounded-full",
+                      warnings.has(scene.id) ? "bg-warning" : "bg-accent",
+                    )}
+                  />
+                  <span
+                    className="absolute -left-24 top-2 w-20 text-right text-xs text-foreground-secondary break-words"
+                    title={scene.storyTime}
+                  >
+                    {scene.storyTime || "日時未設定"}
+                  </span>
+                  <SceneCard {...cardProps(scene)} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {draft && (
+          <aside className="w-80 flex-shrink-0 border-l border-border overflow-y-auto p-3">
+            <SceneForm
+              draft={draft}
+              characters={characters}
+              manuscriptPaths={manuscriptPaths}
+              headingSuggestions={
+                draft.filePath && draft.filePath === activeFilePath
+                  ? chapters.map((c) => c.title)
+                  : []
+              }
+              onChange={setDraft}
+              onSave={() => void handleSave()}
+              onCancel={() => setDraft(null)}
+            />
+          </aside>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SceneCardProps {
+  scene: Scene;
+  povName?: string;
+  /** Chronology warning, or null */
+  warning: string | null;
+  isDragging: boolean;
+  isDropTarget: boolean;
+  /** Open the linked file at the scene's heading; undefined when unlinked */
+  onOpen?: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+}
+
+function SceneCard({
+  scene,
+  povName,
+  warning,
+  isDragging,
+  isDropTarget,
+  onOpen,
+  onEdit,
+  onDelete,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+}: SceneCardProps) {
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+      onDragEnd={onDragEnd}
+      className={clsx(
+        "group bg-background-elevated border rounded-lg p-2.5 space-y-1 text-xs",
+        isDropTarget ? "border-accent" : warning ? "border-warning" : "border-border",
+        isDragging && "opacity-50",
+      )}
+    >
+      <div className="flex items-start gap-1.5">
+        <GripVertical className="w-3.5 h-3.5 mt-0.5 flex-shrink-0 cursor-grab text-foreground-tertiary" />
+        <button
+          type="button"
+          onClick={onOpen}
+          disabled={!onOpen}
+          className="flex-1 min-w-0 text-left text-sm font-medium text-foreground break-words enabled:hover:underline disabled:cursor-default"
+          title={
+            onOpen
+              ? `${compileFileTitle(scene.filePath ?? "")}${scene.headingAnchor ? ` / ${headingOfAnchor(scene.headingAnchor)}` : ""} を開く`
+              : undefined
+          }
+        >
+          {scene.title}
+        </button>
+        {warning && (
+          <span title={warning} className="text-warning flex-shrink-0">
+            <AlertTriangle className="w-3.5 h-3.5" aria-label={warning} />
+          </span>
+        )}
+        <div className="flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button
+            type="button"
+            onClick={onEdit}
+            className="p-0.5 hover:bg-hover rounded text-foreground-secondary"
+            title="編集"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={onDelete}
+            className="p-0.5 hover:bg-hover rounded text-foreground-secondary hover:text-danger"
+            title="削除"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 text-foreground-secondary">
+        {povName && (
+          <span className="flex items-center gap-0.5">
+            <User className="w-3 h-3" />
+            {povName}
+          </span>
+        )}
+        {scene.storyTime && (
+          <span className="flex items-center gap-0.5">
+            <Clock className="w-3 h-3" />
+            {scene.storyTime}
+          </span>
+        )}
+        {scene.location && (
+          <span className="flex items-center gap-0.5">
+            <MapPin className="w-3 h-3" />
+            {scene.location}
+          </span>
+        )}
+      </div>
+      {scene.summary && (
+        <p className="text-foreground-secondary whitespace-pre-wrap line-clamp-3">
+          {scene.summary}
+        </p>
+      )}
+      {scene.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {scene.tags.map((tag) => (
+            <span
+              key={tag}
+              className="text-[10px] px-1.5 py-0.5 rounded bg-background-secondary text-foreground-secondary"
+            >
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SceneFormProps {
+  draft: SceneDraft;
+  characters: Character[];
+  manuscriptPaths: string[];
+  /** Headings of the selected file, offered as suggestions when it is the active file */
+  headingSuggestions: string[];
+  onChange: (draft: SceneDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+function SceneForm({
+  draft,
+  characters,
+  manuscriptPaths,
+  headingSuggestions,
+  onChange,
+  onSave,
+  onCancel,
+}: SceneFormProps) {
+  const listId = `scene-headings-${draft.id ?? "new"}`;
+  // Keep a linked file that is no longer listed selectable.
+  const paths =
+    draft.filePath && !manuscriptPaths.includes(draft.filePath)
+      ? [draft.filePath, ...manuscriptPaths]
+      : manuscriptPaths;
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-foreground">
+          {draft.id === null ? "新しいシーン" : "シーンを編集"}
+        </h3>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={!draft.title.trim()}
+            className="p-1 hover:bg-hover rounded text-success disabled:opacity-50"
+            title="保存"
+          >
+            <Check className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="p-1 hover:bg-hover rounded text-foreground-secondary"
+            title="キャンセル"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <input
+        type="text"
+        placeholder="タイトル *"
+        value={draft.title}
+        onChange={(e) => onChange({ ...draft, title: e.target.value })}
+        className={INPUT_CLASS}
+        autoFocus
+      />
+      <select
+        value={draft.status}
+        onChange={(e) => onChange({ ...draft, status: e.target.value as SceneStatus })}
+        className={INPUT_CLASS}
+        aria-label="進捗"
+      >
+        {SCENE_STATUSES.map((status) => (
+          <option key={status} value={status}>
+            {SCENE_STATUS_LABELS[status]}
+          </option>
+        ))}
+      </select>
+      <select
+        value={draft.povCharacterId}
+        onChange={(e) => onChange({ ...draft, povCharacterId: e.target.value })}
+        className={INPUT_CLASS}
+        aria-label="視点人物"
+      >
+        <option value="">視点人物なし</option>
+        {characters.map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.name}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="作中日時（例: 4月3日 夜、3日目 朝）"
+        value={draft.storyTime}
+        onChange={(e) => onChange({ ...draft, storyTime: e.target.value })}
+        className={INPUT_CLASS}
+      />
+      <input
+        type="text"
+        placeholder="場所"
+        value={draft.location}
+        onChange={(e) => onChange({ ...draft, location: e.target.value })}
+        className={INPUT_CLASS}
+      />
+      <select
+        value={draft.filePath}
+        onChange={(e) => onChange({ ...draft, filePath: e.target.value })}
+        className={INPUT_CLASS}
+        aria-label="原稿ファイル"
+      >
+        <option value="">原稿ファイルなし</option>
+        {paths.map((path) => (
+          <option key={path} value={path}>
+            {path}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="見出し"
+        value={draft.heading}
+        list={listId}
+        disabled={!draft.filePath}
+        onChange={(e) => onChange({ ...draft, heading: e.target.value })}
+        className={`${INPUT_CLASS} disabled:opacity-50`}
+      />
+      <datalist id={listId}>
+        {headingSuggestions.map((heading) => (
+          <option key={heading} value={heading} />
+        ))}
+      </datalist>
+      <input
+        type="text"
+        placeholder="タグ（読点区切り）"
+        value={draft.tagsText}
+        onChange={(e) => onChange({ ...draft, tagsText: e.target.value })}
+        className={INPUT_CLASS}
+      />
+      <textarea
+        placeholder="あらすじ"
+        value={draft.summary}
+        onChange={(e) => onChange({ ...draft, summary: e.target.value })}
+        className={`${INPUT_CLASS} resize-none`}
+        rows={4}
+      />
+      <p className="text-[11px] text-foreground-tertiary">
+        作中日時が前のシーンより前に戻ると警告します。回想シーンには「回想」タグを付けてください
+      </p>
+    </div>
+  );
+}
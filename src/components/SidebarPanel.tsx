@@ -5,7 +5,9 @@ import ErrorBoundary from "@/shared/ui/ErrorBoundary";
 import SearchResults from "@/components/SearchResults";
 import WordFrequency from "@/components/WordFrequency";
 import Characters from "@/components/Characters";
+import CharacterMentionMap from "@/components/CharacterMentionMap";
 import Dictionary from "@/components/Dictionary";
+import Glossary from "@/components/Glossary";
 import Outline from "@/components/Outline";
 import { isProjectMode } from "@/lib/project/project-types";
 
@@ -71,10 +73,16 @@ interface SidebarPanelProps {
   onFileDeleted: (deletedPath: string) => void;
   /** List open tabs affected by deleting a path, for dirty-confirmation (#1868). */
   findTabsAffectedByDelete: (deletedPath: string) => AffectedTab[];
+  /** Diffs a project file against a git revision ("HEAD と比較"). */
+  onCompareWithRevision?: (vfsPath: string, revision: string) => Promise<void>;
   /** Increments the editor key, forcing the editor to remount. */
   incrementEditorKey: () => void;
   /** Called when a word in the word-frequency panel should be searched. */
   onWordSearch: (word: string) => void;
+  /** Opens the 人物関係図 tab (from the characters panel). */
+  onOpenRelationshipGraph: () => void;
+  /** Opens the シーンボード tab (from the outline panel, project mode only). */
+  onOpenSceneBoard: () => void;
 }
 
 /**
@@ -122,7 +130,10 @@ export default function SidebarPanel({
   onFileRenamed,
   onFileDeleted,
   findTabsAffectedByDelete,
+  onCompareWithRevision,
   onWordSearch,
+  onOpenRelationshipGraph,
+  onOpenSceneBoard,
 }: SidebarPanelProps): React.ReactElement | null {
   switch (view) {
     case "files":
@@ -145,6 +156,7 @@ export default function SidebarPanel({
               onFileRenamed={onFileRenamed}
               onFileDeleted={onFileDeleted}
               findTabsAffectedByDelete={findTabsAffectedByDelete}
+              onCompareWithRevision={onCompareWithRevision}
             />
           </div>
         </aside>
@@ -193,9 +205,21 @@ export default function SidebarPanel({
         />
       );
     case "outline":
-      return <Outline content={content} onHeadingClick={onChapterClick} />;
+      return (
+        <Outline
+          content={content}
+          onHeadingClick={onChapterClick}
+          onOpenSceneBoard={isProjectMode(editorMode) ? onOpenSceneBoard : undefined}
+        />
+      );
     case "characters":
-      return <Characters content={content} />;
+      return (
+        <Characters
+          content={content}
+          editorMode={editorMode}
+          onOpenRelationshipGraph={onOpenRelationshipGraph}
+        />
+      );
     case "dictionary":
       return (
         <Dictionary
@@ -205,10 +229,20 @@ export default function SidebarPanel({
           editorMode={editorMode}
         />
       );
+    case "glossary":
+      return <Glossary editorMode={editorMode} />;
     case "wordfreq":
       return (
         <WordFrequency content={content} filePath={currentFilePath} onWordSearch={onWordSearch} />
       );
+    case "charactermap":
+      return (
+        <CharacterMentionMap
+          content={content}
+          editorMode={editorMode}
+          editorView={editorViewInstance}
+        />
+      );
     default:
       return null;
   }
@@ -0,0 +1,249 @@
+"use client";
+
+import { useMemo } from "react";
+import { Download, RefreshCw } from "lucide-react";
+
+import { useManuscriptStats } from "@/lib/editor-page/use-manuscript-stats";
+import { chaptersToCsv, seriesToCsv } from "@/lib/editor-page/manuscript-stats";
+import type { ChapterLength, StatsSeriesPoint } from "@/lib/editor-page/manuscript-stats";
+import { daysBetween } from "@/lib/editor-page/writing-progress";
+import { saveBlobFile } from "@/lib/export/save-blob-file";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { EditorMode } from "@/lib/project/project-types";
+
+/** Drawing area of a line chart, in SVG user units. */
+const CHART = { width: 560, height: 140, padX: 8, padY: 10 };
+
+/** Byte order mark, so spreadsheet apps read the CSV as UTF-8. */
+const UTF8_BOM = "\uFEFF";
+
+interface StatsDashboardProps {
+  editorMode: EditorMode;
+}
+
+interface SeriesChartSpec {
+  title: string;
+  value: (point: StatsSeriesPoint) => number;
+  format: (value: number) => string;
+  /** Fixed upper bound of the axis; the data maximum when omitted */
+  max?: number;
+  description: string;
+}
+
+const SERIES_CHARTS: SeriesChartSpec[] = [
+  {
+    title: "文字数",
+    value: (p) => p.chars,
+    format: (v) => `${v.toLocaleString()}字`,
+    description: "プロジェクト全体の原稿の文字数（各日の最後の履歴時点）",
+  },
+  {
+    title: "読みやすさ",
+    value: (p) => p.readability,
+    format: (v) => `${v}点`,
+    max: 100,
+    description: "文の長さ・句読点・漢字の連続などから算出した表層スコア（100点満点）",
+  },
+  {
+    title: "会話文の割合",
+    value: (p) => Math.round(p.dialogueRatio * 1000) / 10,
+    format: (v) => `${v}%`,
+    max: 100,
+    description: "「」『』の中の文字が本文に占める割合",
+  },
+  {
+    title: "語彙の豊かさ",
+    value: (p) => p.vocabularyRichness,
+    format: (v) => v.toFixed(2),
+    description: "漢字・カタカナの語の異なり語数を延べ語数の平方根で割った値（ギロー指数）",
+  },
+];
+
+function downloadCsv(csv: string, fileName: string): void {
+  const blob = new Blob([UTF8_BOM + csv], { type: "text/csv;charset=utf-8" });
+  saveBlobFile(blob, fileName, false).catch((err: unknown) => {
+    console.error("[StatsDashboard] Failed to export CSV:", err);
+  });
+}
+
+/** A day-by-day line chart; x is proportional to the date. */
+function SeriesChart({ spec, series }: { spec: SeriesChartSpec; series: StatsSeriesPoint[] }) {
+  const values = series.map(spec.value);
+  const latest = values[values.length - 1] ?? 0;
+  const max = spec.max ?? Math.max(1, ...values);
+  const first = series.length > 0 ? series[0].dateKey : "";
+  const last = series.length > 0 ? series[series.length - 1].dateKey : "";
+  const span = series.length > 1 ? Math.max(1, daysBetween(first, last)) : 1;
+  const points = series.map((p, i) => {
+    const x =
+      CHART.padX +
+      (series.length === 1
+        ? (CHART.width - 2 * CHART.padX) / 2
+        : (daysBetween(first, p.dateKey) / span) * (CHART.width - 2 * CHART.padX));
+    const y = CHART.height - CHART.padY - (values[i] / max) * (CHART.height - 2 * CHART.padY);
+    return { x, y, point: p, value: values[i] };
+  });
+
+  return (
+    <section className="bg-background-secondary rounded-lg p-3 border border-border">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="text-sm font-medium text-foreground" title={spec.description}>
+          {spec.title}
+        </h3>
+        <span className="text-sm font-semibold text-foreground">{spec.format(latest)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART.width} ${CHART.height}`}
+        className="w-full h-36 text-accent"
+        role="img"
+        aria-label={`${spec.title}の推移`}
+      >
+        <line
+          x1={CHART.padX}
+          x2={CHART.width - CHART.padX}
+          y1={CHART.height - CHART.padY}
+          y2={CHART.height - CHART.padY}
+          className="stroke-border"
+          strokeWidth={1}
+        />
+        <polyline
+          points={points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+        {points.map((p) => (
+          <circle key={p.point.dateKey} cx={p.x} cy={p.y} r={3} fill="currentColor">
+            <title>{`${p.point.dateKey}: ${spec.format(p.value)}`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-foreground-tertiary mt-1">
+        <span>{first}</span>
+        <span>最大 {spec.format(Math.max(0, ...values))}</span>
+        <span>{last}</span>
+      </div>
+    </section>
+  );
+}
+
+/** Length of each chapter as horizontal bars, in manuscript order. */
+function ChapterLengthChart({ chapters }: { chapters: ChapterLength[] }) {
+  const max = Math.max(1, ...chapters.map((c) => c.chars));
+  const average =
+    chapters.length > 0
+      ? Math.round(chapters.reduce((sum, c) => sum + c.chars, 0) / chapters.length)
+      : 0;
+  return (
+    <section className="bg-background-secondary rounded-lg p-3 border border-border">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="text-sm font-medium text-foreground">章ごとの長さ</h3>
+        <span className="text-xs text-foreground-tertiary">
+          {chapters.length}章・平均 {average.toLocaleString()}字
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {chapters.map((chapter, i) => (
+          <li
+            key={`${chapter.path}#${i}`}
+            className="grid grid-cols-[minmax(0,12rem)_1fr_auto] items-center gap-2 text-xs"
+            title={chapter.path}
+          >
+            <span className="truncate text-foreground-secondary">{chapter.title}</span>
+            <span className="h-2 bg-background rounded-full overflow-hidden border border-border-secondary">
+              <span
+                className="block h-full bg-accent"
+                style={{ width: `${(chapter.chars / max) * 100}%` }}
+              />
+            </span>
+            <span className="tabular-nums text-foreground">{chapter.chars.toLocaleString()}字</span>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * 統計ダッシュボード tab: the project's length, readability, dialogue share and
+ * vocabulary over time from the history snapshots, and the current length of
+ * each chapter. Every chart's data can be exported as CSV. Project mode only.
+ */
+export default function StatsDashboard({ editorMode }: StatsDashboardProps) {
+  if (!isProjectMode(editorMode)) {
+    return (
+      <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+        プロジェクトを開くと統計ダッシュボードを利用できます
+      </div>
+    );
+  }
+  return <StatsDashboardContent key={editorMode.projectId} />;
+}
+
+function StatsDashboardContent() {
+  const { stats, isLoading, error, reload } = useManuscriptStats();
+  const series = useMemo(() => stats?.series ?? [], [stats]);
+  const chapters = useMemo(() => stats?.chapters ?? [], [stats]);
+
+  return (
+    <div className="h-full overflow-y-auto bg-background">
+      <div className="max-w-4xl mx-auto p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-base font-semibold text-foreground">統計ダッシュボード</h2>
+          <div className="flex items-center gap-1.5">
+            <button
+              type="button"
+              onClick={() => downloadCsv(seriesToCsv(series), "統計_日別推移.csv")}
+              disabled={series.length === 0}
+              className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-border-secondary text-foreground-secondary hover:bg-hover disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" />
+              推移をCSV
+            </button>
+            <button
+              type="button"
+              onClick={() => downloadCsv(chaptersToCsv(chapters), "統計_章の長さ.csv")}
+              disabled={chapters.length === 0}
+              className="flex items-center gap-1 text-xs px-2 py-1 rounded border border-border-secondary text-foreground-secondary hover:bg-hover disabled:opacity-50"
+            >
+              <Download className="w-3.5 h-3.5" />
+              章の長さをCSV
+            </button>
+            <button
+              type="button"
+              onClick={reload}
+              disabled={isLoading}
+              className="p-1 rounded text-foreground-secondary hover:bg-hover disabled:opacity-50"
+              title="再読み込み"
+              aria-label="再読み込み"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-error">{error}</p>}
+        {!stats && isLoading && (
+          <p className="text-sm text-foreground-tertiary">履歴を集計しています…</p>
+        )}
+
+        {stats && (
+          <>
+            {series.length < 2 && (
+              <p className="text-xs text-foreground-tertiary">
+                推移は保存履歴（スナップショット）から日ごとに集計されます。書き進めるとグラフが伸びていきます。
+              </p>
+            )}
+            <div className="grid gap-3 md:grid-cols-2">
+              {SERIES_CHARTS.map((spec) => (
+                <SeriesChart key={spec.title} spec={spec} series={series} />
+              ))}
+            </div>
+            <ChapterLengthChart chapters={chapters} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
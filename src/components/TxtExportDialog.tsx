@@ -9,18 +9,28 @@ import {
   DEFAULT_EXPORT_SETTINGS,
 } from "@/lib/export/export-settings";
 import type { UnifiedExportSettings } from "@/lib/export/export-settings";
-import type { TxtIndentOptions } from "@/lib/export/txt-exporter";
+import { WEB_NOVEL_PROFILES, WEB_NOVEL_PROFILE_IDS } from "@/lib/export/web-novel-profiles";
+import type { TxtExportOptions } from "@/lib/export/txt-exporter";
+import type { TxtExportFormat } from "@/lib/export/types";
+import type { WebNovelProfileId } from "@/lib/export/web-novel-profiles";
 
 interface TxtExportDialogProps {
   isOpen: boolean;
-  /** Which TXT variant is being exported (affects only the heading). */
-  format: "txt" | "txt-ruby";
-  /** Called with the chosen 字下げ options when the user confirms. */
-  onConfirm: (options: TxtIndentOptions) => void;
+  /** Which TXT variant is being exported (heading; platform options for "web-novel"). */
+  format: TxtExportFormat;
+  /** Called with the chosen options when the user confirms. */
+  onConfirm: (options: TxtExportOptions) => void;
   /** Called when the user cancels or dismisses the dialog. */
   onCancel: () => void;
 }
 
+const DIALOG_TITLES: Record<TxtExportFormat, string> = {
+  txt: "テキストエクスポート",
+  "txt-ruby": "テキスト（ルビ付き）エクスポート",
+  aozora: "青空文庫形式エクスポート",
+  "web-novel": "Web小説サイト向けエクスポート",
+};
+
 const MIN_COUNT = 1;
 const MAX_COUNT = 4;
 
@@ -30,8 +40,10 @@ function clampCount(value: number): number {
 }
 
 /**
- * Lightweight dialog shown before a TXT / TXT(ruby) export. Asks whether to
- * apply literal full-width-space (U+3000) 字下げ and, if so, how many spaces.
+ * Lightweight dialog shown before a TXT / TXT(ruby) / 青空文庫 / Web小説 export. Asks
+ * whether to apply literal full-width-space (U+3000) 字下げ and, if so, how many
+ * spaces. For the Web小説 export it also asks for the posting platform and whether
+ * to split the output per chapter.
  * Choices are persisted in the unified export settings so they are remembered.
  */
 export default function TxtExportDialog({
@@ -44,6 +56,12 @@ export default function TxtExportDialog({
     DEFAULT_EXPORT_SETTINGS.txtFullwidthSpaceIndent,
   );
   const [count, setCount] = useState<number>(DEFAULT_EXPORT_SETTINGS.txtIndentCount);
+  const [profile, setProfile] = useState<WebNovelProfileId>(
+    DEFAULT_EXPORT_SETTINGS.txtWebNovelProfile,
+  );
+  const [splitByChapter, setSplitByChapter] = useState<boolean>(
+    DEFAULT_EXPORT_SETTINGS.txtWebNovelSplitByChapter,
+  );
   // Snapshot of the full settings object so confirm-time persistence does not
   // clobber unrelated (PDF/DOCX/EPUB) fields.
   const loadedRef = useRef<UnifiedExportSettings>(DEFAULT_EXPORT_SETTINGS);
@@ -56,6 +74,8 @@ export default function TxtExportDialog({
       loadedRef.current = loaded;
       setFullwidth(loaded.txtFullwidthSpaceIndent);
       setCount(clampCount(loaded.txtIndentCount));
+      setProfile(loaded.txtWebNovelProfile);
+      setSplitByChapter(loaded.txtWebNovelSplitByChapter);
     });
     return () => {
       cancelled = true;
@@ -64,14 +84,23 @@ export default function TxtExportDialog({
 
   if (!isOpen) return null;
 
+  const isWebNovel = format === "web-novel";
+
   const handleConfirm = (): void => {
     const indentCount = clampCount(count);
     void saveExportSettings({
       ...loadedRef.current,
       txtFullwidthSpaceIndent: fullwidth,
       txtIndentCount: indentCount,
+      ...(isWebNovel
+        ? { txtWebNovelProfile: profile, txtWebNovelSplitByChapter: splitByChapter }
+        : {}),
+    });
+    onConfirm({
+      fullwidthSpaceIndent: fullwidth,
+      indentCount,
+      ...(isWebNovel ? { webNovel: { profile, splitByChapter } } : {}),
     });
-    onConfirm({ fullwidthSpaceIndent: fullwidth, indentCount });
   };
 
   const labelClass = "block text-sm font-medium text-foreground-secondary mb-1";
@@ -83,12 +112,61 @@ export default function TxtExportDialog({
       ariaLabel="テキストエクスポート設定"
       panelClassName="mx-4 w-full max-w-md p-6"
     >
-      <h2 className="text-lg font-semibold text-foreground mb-1">
-        {format === "txt-ruby" ? "テキスト（ルビ付き）エクスポート" : "テキストエクスポート"}
-      </h2>
-      <p className="text-xs text-foreground-tertiary mb-4">字下げの方法を選択してください。</p>
+      <h2 className="text-lg font-semibold text-foreground mb-1">{DIALOG_TITLES[format]}</h2>
+      <p className="text-xs text-foreground-tertiary mb-4">
+        {isWebNovel
+          ? "投稿先と字下げの方法を選択してください。"
+          : "字下げの方法を選択してください。"}
+      </p>
 
       <div className="space-y-4">
+        {isWebNovel && (
+          <>
+            {/* Posting platform */}
+            <div>
+              <label className={labelClass}>投稿先</label>
+              <select
+                className="w-full px-3 py-2 rounded-lg text-sm bg-background-secondary border border-border text-foreground"
+                value={profile}
+                onChange={(e) => setProfile(e.target.value as WebNovelProfileId)}
+              >
+                {WEB_NOVEL_PROFILE_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {WEB_NOVEL_PROFILES[id].label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Per-chapter split toggle */}
+            <div className="flex items-center justify-between">
+              <label className={labelClass + " mb-0"}>章ごとに分割する</label>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={splitByChapter}
+                onClick={() => setSplitByChapter((v) => !v)}
+                className={clsx(
+                  "relative inline-flex h-7 w-12 shrink-0 items-center rounded-full transition-colors",
+                  splitByChapter ? "bg-accent" : "bg-border-secondary",
+                )}
+              >
+                <span
+                  className={clsx(
+                    "inline-block h-5 w-5 transform rounded-full bg-background transition-transform",
+                    splitByChapter ? "translate-x-6" : "translate-x-1",
+                  )}
+                />
+              </button>
+            </div>
+            {splitByChapter && (
+              <p className="text-xs text-foreground-tertiary -mt-2">
+                最上位の見出しごとに1ファイルとし、ZIP にまとめて保存します。
+              </p>
+            )}
+          </>
+        )}
+
         {/* Full-width-space toggle */}
         <div className="flex items-center justify-between">
           <label className={labelClass + " mb-0"}>全角スペースで字下げする</label>
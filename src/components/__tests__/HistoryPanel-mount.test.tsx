@@ -55,6 +55,7 @@ interface MockHistoryService {
   toggleBookmark: ReturnType<typeof vi.fn>;
   createSnapshot: ReturnType<typeof vi.fn>;
   restoreSnapshot: ReturnType<typeof vi.fn>;
+  getBranches: ReturnType<typeof vi.fn>;
 }
 
 function makeMockHistoryService(overrides: Partial<MockHistoryService> = {}): MockHistoryService {
@@ -66,6 +67,7 @@ function makeMockHistoryService(overrides: Partial<MockHistoryService> = {}): Mo
     toggleBookmark: vi.fn(async () => true),
     createSnapshot: vi.fn(async () => makeSnapshot()),
     restoreSnapshot: vi.fn(async () => ({ success: true, content: "restored" }) as RestoreResult),
+    getBranches: vi.fn(async () => ({ branches: [], activeBranchId: null as string | null })),
     ...overrides,
   };
 }
@@ -164,6 +166,32 @@ describe("HistoryPanel (real mount)", () => {
     expect(container.textContent).not.toContain("履歴の読み込みに失敗しました");
   });
 
+  it("lists only the active branch's snapshots and shows the branch bar", async () => {
+    mockService.getSnapshots.mockResolvedValue([
+      makeSnapshot({ id: "main", type: "manual" }),
+      makeSnapshot({ id: "alt", type: "branch-fork", branchId: "b1", label: "別の結末" }),
+    ]);
+    mockService.getBranches.mockResolvedValue({
+      branches: [
+        {
+          id: "b1",
+          sourcePath: "main.mdi",
+          name: "別の結末",
+          baseSnapshotId: "main",
+          createdAt: 0,
+        },
+      ],
+      activeBranchId: "b1",
+    });
+
+    await mount();
+
+    expect(container.textContent).toContain("ブランチ");
+    expect(container.textContent).toContain("本線");
+    expect(container.textContent).toContain("分岐");
+    expect(container.textContent).not.toContain("手動");
+  });
+
   it("groups snapshots by date and shows correct headers/counts", async () => {
     const today = Date.now();
     const twoDaysAgo = today - 2 * 24 * 60 * 60 * 1000;
@@ -0,0 +1,117 @@
+"use client";
+
+import { createPortal } from "react-dom";
+import { Loader2, Sparkles, XCircle, Info } from "lucide-react";
+
+import type { AiRewriteStatus } from "@/lib/editor-page/use-ai-rewrite";
+import type {
+  RewriteHunkDecision,
+  RewriteReview,
+} from "@/lib/editor-page/ai-rewrite-review-plugin";
+
+interface AiRewriteReviewBarProps {
+  status: AiRewriteStatus;
+  review: RewriteReview | null;
+  onCancelRequest: () => void;
+  onDismissStatus: () => void;
+  onDecideAll: (decision: RewriteHunkDecision) => void;
+  onApply: () => void;
+  onCancelReview: () => void;
+}
+
+const BUTTON_CLASS =
+  "px-3 py-1.5 rounded text-sm text-foreground-secondary hover:bg-hover transition-colors";
+
+/**
+ * Floating bar for the in-editor AI rewrite: progress while the request runs,
+ * then the review controls (explanation, counts, bulk decisions, apply).
+ */
+export default function AiRewriteReviewBar({
+  status,
+  review,
+  onCancelRequest,
+  onDismissStatus,
+  onDecideAll,
+  onApply,
+  onCancelReview,
+}: AiRewriteReviewBarProps) {
+  // Idle on the first render, so nothing is portaled during SSR / hydration.
+  if (status.kind === "idle" && !review) return null;
+
+  const counts = { pending: 0, accepted: 0, rejected: 0 };
+  for (const hunk of review?.hunks ?? []) counts[hunk.decision]++;
+
+  const bar = (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 w-[min(640px,calc(100vw-2rem))] bg-background-elevated rounded-lg shadow-lg border border-border p-3 space-y-2"
+    >
+      {status.kind === "requesting" && (
+        <div className="flex items-center gap-2">
+          <Loader2 className="w-4 h-4 animate-spin text-foreground-tertiary" />
+          <span className="flex-1 text-sm text-foreground-secondary">
+            AI が書き換え案を作成中…（{status.intentLabel}）
+          </span>
+          <button type="button" className={BUTTON_CLASS} onClick={onCancelRequest}>
+            キャンセル
+          </button>
+        </div>
+      )}
+
+      {(status.kind === "error" || status.kind === "notice") && (
+        <div className="flex items-center gap-2">
+          {status.kind === "error" ? (
+            <XCircle className="w-4 h-4 text-error shrink-0" />
+          ) : (
+            <Info className="w-4 h-4 text-info shrink-0" />
+          )}
+          <span className="flex-1 text-sm text-foreground-secondary">{status.message}</span>
+          <button type="button" className={BUTTON_CLASS} onClick={onDismissStatus}>
+            閉じる
+          </button>
+        </div>
+      )}
+
+      {review && (
+        <>
+          <div className="flex items-center gap-2">
+            <Sparkles className="w-4 h-4 text-accent shrink-0" />
+            <span className="text-sm font-medium text-foreground">
+              AI 書き換え案（{review.intentLabel}）
+            </span>
+            <span className="ml-auto text-xs text-foreground-tertiary">
+              採用 {counts.accepted}・却下 {counts.rejected}・未判定 {counts.pending}
+            </span>
+          </div>
+          {review.explanation && (
+            <p className="text-xs text-foreground-secondary line-clamp-3">{review.explanation}</p>
+          )}
+          <div className="flex items-center gap-1">
+            <button type="button" className={BUTTON_CLASS} onClick={() => onDecideAll("accepted")}>
+              すべて採用
+            </button>
+            <button type="button" className={BUTTON_CLASS} onClick={() => onDecideAll("rejected")}>
+              すべて却下
+            </button>
+            <div className="flex-1" />
+            <button type="button" className={BUTTON_CLASS} onClick={onCancelReview}>
+              破棄
+            </button>
+            <button
+              type="button"
+              onClick={onApply}
+              disabled={counts.accepted === 0}
+              title="採用した変更を本文に反映します（まとめて1回で取り消せます）"
+              className="px-3 py-1.5 rounded text-sm font-medium bg-accent text-accent-foreground hover:bg-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              採用した変更を反映
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+
+  // Render via portal to document.body to escape dockview's transform context.
+  return createPortal(bar, document.body);
+}
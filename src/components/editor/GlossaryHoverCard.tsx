@@ -0,0 +1,64 @@
+"use client";
+
+import { createPortal } from "react-dom";
+import { BookA } from "lucide-react";
+
+import type { GlossaryHover } from "@/lib/editor-page/glossary-highlight-plugin";
+import { getGlossaryEntries } from "@/lib/linting/glossary-terms";
+
+interface GlossaryHoverCardProps {
+  hover: GlossaryHover | null;
+}
+
+const CARD_WIDTH = 280;
+const GAP = 6;
+
+/**
+ * Card describing the glossary term under the pointer (用語・読み・分類・説明・
+ * 許容表記). Purely informational: it never takes the pointer, so moving off
+ * the term closes it.
+ */
+export default function GlossaryHoverCard({ hover }: GlossaryHoverCardProps) {
+  if (!hover) return null;
+  const entry = getGlossaryEntries().find((e) => e.id === hover.entryId);
+  if (!entry) return null;
+
+  const { rect } = hover;
+  const left = Math.max(8, Math.min(rect.left, window.innerWidth - CARD_WIDTH - 8));
+  // Below the term, or above it near the bottom of the window.
+  const below = rect.bottom + GAP + 160 < window.innerHeight;
+  const position = below
+    ? { top: rect.bottom + GAP }
+    : { bottom: window.innerHeight - rect.top + GAP };
+
+  const card = (
+    <div
+      role="tooltip"
+      className="fixed z-50 pointer-events-none bg-background-elevated rounded-lg shadow-lg border border-border p-3 space-y-1.5"
+      style={{ left, width: CARD_WIDTH, ...position }}
+    >
+      <div className="flex items-baseline gap-2">
+        <BookA className="w-3.5 h-3.5 text-accent shrink-0 self-center" />
+        <span className="text-sm font-medium text-foreground">{entry.term}</span>
+        {entry.reading && <span className="text-xs text-foreground-tertiary">{entry.reading}</span>}
+        {entry.category && (
+          <span className="ml-auto text-[10px] px-1.5 py-0.5 rounded bg-background-secondary text-foreground-secondary">
+            {entry.category}
+          </span>
+        )}
+      </div>
+      {entry.definition && (
+        <p className="text-xs text-foreground-secondary whitespace-pre-wrap line-clamp-6">
+          {entry.definition}
+        </p>
+      )}
+      {entry.variants.length > 0 && (
+        <p className="text-[11px] text-foreground-tertiary">
+          許容表記: {entry.variants.join("、")}
+        </p>
+      )}
+    </div>
+  );
+
+  return createPortal(card, document.body);
+}
@@ -40,6 +40,19 @@ import { searchHighlightPlugin } from "@/lib/editor-page/search-highlight-plugin
 import { speechHighlightPlugin } from "@/lib/editor-page/speech-highlight-plugin";
 import type { EditorSelectionState } from "@/lib/editor-page/use-selection-tracking";
 import EditorContextMenu, { type ContextMenuAction } from "../EditorContextMenu";
+import AiRewriteReviewBar from "./AiRewriteReviewBar";
+import GlossaryHoverCard from "./GlossaryHoverCard";
+import { getAiClient } from "@/lib/ai/ai-client";
+import { REWRITE_INTENTS, getRewriteIntent } from "@/lib/ai/rewrite-intents";
+import { createAiRewriteReviewPlugin } from "@/lib/editor-page/ai-rewrite-review-plugin";
+import type { RewriteReview } from "@/lib/editor-page/ai-rewrite-review-plugin";
+import { createGlossaryHighlightPlugin } from "@/lib/editor-page/glossary-highlight-plugin";
+import type { GlossaryHover } from "@/lib/editor-page/glossary-highlight-plugin";
+import {
+  createWritingSessionPlugin,
+  withoutSessionTracking,
+} from "@/lib/editor-page/writing-session";
+import { useAiRewrite } from "@/lib/editor-page/use-ai-rewrite";
 import { isElectronRenderer } from "@/lib/utils/runtime-env";
 import { commitPendingComposition } from "@/lib/editor-page/commit-pending-composition";
 import { useCharWidth, MEASURE_TEXT } from "@/lib/editor-page/use-char-width";
@@ -102,6 +115,11 @@ interface MilkdownEditorProps {
    * Called with the flush fn on mount and `null` on unmount.
    */
   registerFlush?: (flush: (() => string | null) | null) => void;
+  /**
+   * Take a restore-point snapshot of `content` before an AI rewrite is
+   * written to the document. Omitted for inactive panes.
+   */
+  onCreateRestorePoint?: (content: string) => Promise<void>;
 }
 
 export default function MilkdownEditor({
@@ -131,6 +149,7 @@ export default function MilkdownEditor({
   onExternalContentApplied,
   onLayoutReady,
   registerFlush,
+  onCreateRestorePoint,
 }: MilkdownEditorProps) {
   const {
     fontScale,
@@ -157,6 +176,7 @@ export default function MilkdownEditor({
   const measureBoxRef = useRef<HTMLDivElement>(null);
   const [editorViewInstance, setEditorViewInstance] = useState<EditorView | null>(null);
   const [lintIssueAtCursor, setLintIssueAtCursor] = useState<LintIssue | null>(null);
+  const [glossaryHover, setGlossaryHover] = useState<GlossaryHover | null>(null);
   const isElectron = typeof window !== "undefined" && isElectronRenderer();
   // 初期内容はマウント時に固定（ファイル切り替えでコンポーネントが再マウントされたときだけ変わる）
   const initialContentRef = useRef<string>(initialContent);
@@ -167,6 +187,7 @@ export default function MilkdownEditor({
   const onInsertTextRef = useRef(onInsertText);
   const onLintIssuesUpdatedRef = useRef(onLintIssuesUpdated);
   const onNlpErrorRef = useRef(onNlpError);
+  const onRewriteReviewChangeRef = useRef<(review: RewriteReview | null) => void>(() => {});
 
   // コールバックが変わったら ref を更新する
 
@@ -276,6 +297,8 @@ export default function MilkdownEditor({
           enableTcy: mdiExtensionsEnabled,
           enableNoBreak: mdiExtensionsEnabled,
           enableKern: mdiExtensionsEnabled,
+          enableBouten: mdiExtensionsEnabled,
+          enableNotes: mdiExtensionsEnabled,
           enableMdiBreak: mdiExtensionsEnabled,
           // .txt: characters like *, #, ** are literal — copy must bypass
           // markdown stripping / MDI conversion (P2-A).
@@ -290,6 +313,13 @@ export default function MilkdownEditor({
         .use(verticalScrollPlugin)
         .use($prose(() => searchHighlightPlugin))
         .use($prose(() => speechHighlightPlugin))
+        .use(
+          $prose(() =>
+            createAiRewriteReviewPlugin((review) => onRewriteReviewChangeRef.current(review)),
+          ),
+        )
+        .use($prose(() => createGlossaryHighlightPlugin(setGlossaryHover)))
+        .use($prose(() => createWritingSessionPlugin()))
         .use(
           posHighlight({
             enabled: false, // 初期化時は無効、後で動的に更新
@@ -368,7 +398,8 @@ export default function MilkdownEditor({
     }
 
     try {
-      editor.action(replaceAll(externalContent));
+      // Reloaded content is not writing; keep it out of the session log
+      withoutSessionTracking(() => editor.action(replaceAll(externalContent)));
       // Restore scroll progress after layout settles
       if (container && savedProgress != null) {
         const progress = savedProgress;
@@ -448,6 +479,25 @@ export default function MilkdownEditor({
     };
   }, [registerFlush, flushContent]);
 
+  // AI 書き換え: 反映直前にライブ doc を restore-point として保存する。
+  const createRewriteRestorePoint = useCallback(async () => {
+    if (!onCreateRestorePoint) return;
+    await onCreateRestorePoint(flushContent() ?? currentContentRef.current);
+  }, [onCreateRestorePoint, flushContent]);
+
+  const aiRewrite = useAiRewrite(editorViewInstance, {
+    onBeforeApply: createRewriteRestorePoint,
+  });
+  const { requestRewrite } = aiRewrite;
+
+  useEffect(() => {
+    onRewriteReviewChangeRef.current = aiRewrite.handleReviewChange;
+  }, [aiRewrite.handleReviewChange]);
+
+  // 設定変更では再レンダリングされないが、メニューは選択のたびに描画し直されるので
+  // 表示時点の設定が反映される。
+  const aiRewriteAvailable = getAiClient("rewrite").isConfigured();
+
   // posHighlight 設定を動的に更新（Editor を再作成せずに）。
   // enabled は power policy 由来の実効値（バックグラウンド中は停止、
   // フォーカス復帰でユーザー設定どおりに復元、#1466）。
@@ -758,6 +808,12 @@ export default function MilkdownEditor({
     (action: ContextMenuAction) => {
       if (!editorViewInstance) return;
 
+      if (action.startsWith("rewrite:")) {
+        const intent = getRewriteIntent(action.slice("rewrite:".length));
+        if (intent) requestRewrite(intent);
+        return;
+      }
+
       switch (action) {
         case "cut":
           document.execCommand("cut");
@@ -867,6 +923,7 @@ export default function MilkdownEditor({
       onAddToUserDictionary,
       onStartSpeech,
       onFind,
+      requestRewrite,
     ],
   );
 
@@ -908,6 +965,15 @@ export default function MilkdownEditor({
               { label: "-", action: "_separator" },
             ]
           : []),
+        ...(selectionState.hasSelection && aiRewriteAvailable
+          ? [
+              ...REWRITE_INTENTS.map((intent) => ({
+                label: `AI で書き換え：${intent.label}`,
+                action: `rewrite:${intent.id}`,
+              })),
+              { label: "-", action: "_separator" },
+            ]
+          : []),
         { label: "検索", action: "find", accelerator: "CmdOrCtrl+F" },
         ...(selectionState.hasSelection
           ? [
@@ -929,6 +995,7 @@ export default function MilkdownEditor({
       mdiExtensionsEnabled,
       selectionState.hasSelection,
       dictEntryRuleIds,
+      aiRewriteAvailable,
     ],
   );
 
@@ -1141,6 +1208,7 @@ export default function MilkdownEditor({
           }
           mdiExtensionsEnabled={mdiExtensionsEnabled}
           onStartSpeech={onStartSpeech}
+          aiRewriteEnabled={aiRewriteAvailable}
         >
           {editorContent}
         </EditorContextMenu>
@@ -1153,8 +1221,20 @@ export default function MilkdownEditor({
           scrollContainerRef={scrollContainerRef}
           onFormat={handleFormat}
           isVertical={isVertical}
+          onRewrite={aiRewriteAvailable ? requestRewrite : undefined}
+          isRewriting={aiRewrite.status.kind === "requesting"}
         />
       )}
+      <AiRewriteReviewBar
+        status={aiRewrite.status}
+        review={aiRewrite.review}
+        onCancelRequest={aiRewrite.cancelRequest}
+        onDismissStatus={aiRewrite.dismissStatus}
+        onDecideAll={aiRewrite.decideAll}
+        onApply={() => void aiRewrite.applyReview()}
+        onCancelReview={aiRewrite.cancelReview}
+      />
+      <GlossaryHoverCard hover={glossaryHover} />
     </>
   );
 }
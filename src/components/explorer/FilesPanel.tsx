@@ -1,14 +1,23 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { RefreshCw, Folder, File, ChevronDown, FilePlus, FolderPlus } from "lucide-react";
 import clsx from "clsx";
 import { useContextMenu } from "@/lib/hooks/use-context-menu";
 import ContextMenu from "@/shared/ui/ContextMenu";
 import ConfirmDialog from "@/shared/ui/ConfirmDialog";
+import GitSection from "./GitSection";
+import GitFileHistoryDialog from "./GitFileHistoryDialog";
 import { isElectronRenderer, detectOSPlatform } from "@/lib/utils/runtime-env";
 import { isTextDroppable } from "@/lib/utils/file-type-guard";
 import { notificationManager } from "@/lib/services/notification-manager";
+import { isEditableExtension } from "@/lib/tab-manager/open-with-default-app";
+import {
+  buildDecorationMap,
+  collectChangedDirectories,
+  getGitApi,
+  gitFailureMessage,
+} from "@/lib/git/git-service";
 import {
   bucketTelemetryCount,
   normalizeTelemetryFileType,
@@ -26,6 +35,7 @@ import {
 import type { FileTreeEntry, EditingEntry } from "./types";
 import type { VirtualFileSystem } from "@/lib/vfs/types";
 import type { AffectedTab } from "@/lib/tab-manager/tab-path-sync";
+import type { GitFileDecoration, GitStatus } from "@/lib/git/git-service";
 
 /**
  * Check whether a file/directory name already exists inside a VFS parent directory.
@@ -46,6 +56,16 @@ async function checkFileExists(
   }
 }
 
+/** Badge colour per git file state. */
+const GIT_BADGE_CLASSES: Record<GitFileDecoration["state"], string> = {
+  modified: "text-warning",
+  added: "text-success",
+  renamed: "text-success",
+  untracked: "text-success",
+  deleted: "text-error",
+  conflict: "text-error",
+};
+
 /** Returns the OS-specific file manager name for context menu labels. */
 function getFileManagerName(): string {
   const platform = detectOSPlatform();
@@ -72,6 +92,8 @@ interface FilesPanelProps {
   onFileDeleted?: (deletedVfsPath: string) => void;
   /** List open tabs affected by deleting a path, for dirty-confirmation (#1868). */
   findTabsAffectedByDelete?: (deletedVfsPath: string) => AffectedTab[];
+  /** Diff a file against a git revision in DiffView ("HEAD と比較"). */
+  onCompareWithRevision?: (vfsPath: string, revision: string) => Promise<void>;
 }
 
 /** File tree panel for browsing and managing project files */
@@ -85,6 +107,7 @@ export function FilesPanel({
   onFileRenamed,
   onFileDeleted,
   findTabsAffectedByDelete,
+  onCompareWithRevision,
 }: FilesPanelProps) {
   const [expandedDirs, setExpandedDirs] = useState<Set<string>>(new Set(["/"]));
   const [tree, setTree] = useState<FileTreeEntry[] | null>(null);
@@ -103,6 +126,12 @@ export function FilesPanel({
     name: string;
     execute: () => Promise<void>;
   } | null>(null);
+  /** Git status of the project folder; null when git is unavailable or not a repository */
+  const [gitStatus, setGitStatus] = useState<GitStatus | null>(null);
+  /** Set when the folder holds a repository but git itself is not installed */
+  const [gitMissingNotice, setGitMissingNotice] = useState<string | null>(null);
+  /** Project-relative path whose git history dialog is open */
+  const [gitHistoryPath, setGitHistoryPath] = useState<string | null>(null);
   const editInputRef = useRef<HTMLInputElement>(null);
   const { menu, show: showContextMenu, close: closeContextMenu } = useContextMenu();
   /** Track the right-clicked entry for Web context menu callback */
@@ -206,6 +235,44 @@ export function FilesPanel({
     };
   }, [loadDirectory, refreshToken]);
 
+  // Git decorations follow every tree reload (file operations call refresh()).
+  useEffect(() => {
+    let cancelled = false;
+    const loadGitStatus = async () => {
+      const git = getGitApi();
+      if (!git) return;
+      const result = await git.status();
+      if (cancelled) return;
+      if (result.ok) {
+        setGitStatus({ branch: result.branch, hasHead: result.hasHead, entries: result.entries });
+        setGitMissingNotice(null);
+        return;
+      }
+      setGitStatus(null);
+      // Without git the Explorer works as before; only mention it when the
+      // folder is evidently a repository.
+      let notice: string | null = null;
+      if (result.reason === "git-missing") {
+        const { getProjectFileService } = await import("@/lib/services/project-file-service");
+        const vfs = getProjectFileService();
+        if (vfs.isRootOpen() && (await checkFileExists(vfs, "", ".git"))) {
+          notice = gitFailureMessage(result);
+        }
+      }
+      if (!cancelled) setGitMissingNotice(notice);
+    };
+    void loadGitStatus();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshToken]);
+
+  const gitDecorations = useMemo(() => buildDecorationMap(gitStatus?.entries ?? []), [gitStatus]);
+  const gitChangedDirs = useMemo(
+    () => collectChangedDirectories(gitStatus?.entries ?? []),
+    [gitStatus],
+  );
+
   // Keep the roving-tabindex target valid: if the active row is no longer
   // visible (folder collapsed, file deleted/renamed), fall back to the root row.
   useEffect(() => {
@@ -820,6 +887,22 @@ export function FilesPanel({
         case "new-folder":
           startNewFolder(fullPath);
           break;
+        case "git-compare-head":
+          await onCompareWithRevision?.(toVFSPath(fullPath), "HEAD");
+          break;
+        case "git-stage":
+        case "git-unstage": {
+          const git = getGitApi();
+          if (!git) break;
+          const paths = [toVFSPath(fullPath)];
+          const result = action === "git-stage" ? await git.stage(paths) : await git.unstage(paths);
+          if (!result.ok) notificationManager.error(gitFailureMessage(result));
+          refresh();
+          break;
+        }
+        case "git-file-history":
+          setGitHistoryPath(toVFSPath(fullPath));
+          break;
         case "reveal-in-finder":
         case "open-in-finder": {
           try {
@@ -842,7 +925,15 @@ export function FilesPanel({
         }
       }
     },
-    [handleDelete, handleDuplicate, handleDownload, startNewFile, startNewFolder],
+    [
+      handleDelete,
+      handleDuplicate,
+      handleDownload,
+      startNewFile,
+      startNewFolder,
+      onCompareWithRevision,
+      refresh,
+    ],
   );
 
   const handleEditSubmit = useCallback(
@@ -898,11 +989,30 @@ export function FilesPanel({
     async (e: React.MouseEvent, fullPath: string) => {
       e.stopPropagation();
       contextTargetRef.current = { path: fullPath, kind: "file" };
+      const vfsPath = toVFSPath(fullPath);
+      const decoration = gitDecorations.get(vfsPath);
+      const isTracked = decoration?.state !== "untracked" && decoration?.state !== "added";
+      const gitItems = gitStatus
+        ? [
+            ...(gitStatus.hasHead &&
+            isTracked &&
+            onCompareWithRevision &&
+            isEditableExtension(vfsPath)
+              ? [{ label: "HEAD と比較", action: "git-compare-head" }]
+              : []),
+            ...(decoration?.unstaged ? [{ label: "ステージ", action: "git-stage" }] : []),
+            ...(decoration?.staged ? [{ label: "ステージ解除", action: "git-unstage" }] : []),
+            ...(gitStatus.hasHead && isTracked
+              ? [{ label: "ファイルの履歴", action: "git-file-history" }]
+              : []),
+          ]
+        : [];
       const items = [
         { label: "名前の変更", action: "rename" },
         { label: "複製", action: "duplicate" },
         { label: "削除", action: "delete" },
         { label: "パソコンに保存", action: "download" },
+        ...(gitItems.length > 0 ? [{ label: "", action: "_separator" }, ...gitItems] : []),
         ...(isElectronRenderer()
           ? [
               { label: "", action: "_separator" },
@@ -915,7 +1025,7 @@ export function FilesPanel({
         void handleContextAction(result, fullPath, "file");
       }
     },
-    [showContextMenu, handleContextAction],
+    [showContextMenu, handleContextAction, gitDecorations, gitStatus, onCompareWithRevision],
   );
 
   const onFolderContextMenu = useCallback(
@@ -1104,6 +1214,7 @@ export function FilesPanel({
 
       if (entry.kind === "file") {
         const vfsFilePath = toVFSPath(fullPath);
+        const decoration = gitDecorations.get(vfsFilePath);
         rows.push(
           <div
             key={fullPath}
@@ -1161,6 +1272,17 @@ export function FilesPanel({
             ) : (
               <span className="truncate">{entry.name}</span>
             )}
+            {decoration && !isRenaming && (
+              <span
+                className={clsx(
+                  "ml-auto shrink-0 pl-1 text-[10px] font-semibold",
+                  GIT_BADGE_CLASSES[decoration.state],
+                )}
+                title={`${decoration.label}${decoration.staged ? "（ステージ済み）" : ""}`}
+              >
+                {decoration.letter}
+              </span>
+            )}
           </div>,
         );
       } else {
@@ -1211,6 +1333,13 @@ export function FilesPanel({
               ) : (
                 <span className="truncate font-medium flex-1">{entry.name}</span>
               )}
+              {!isRenaming && gitChangedDirs.has(toVFSPath(fullPath)) && (
+                <span
+                  className="shrink-0 w-1.5 h-1.5 rounded-full bg-warning"
+                  title="変更されたファイルがあります"
+                  aria-label="変更あり"
+                />
+              )}
               {/* Inline hover buttons (VS Code style). Hidden from Tab order while
                   invisible; revealed (and tabbable) on hover or keyboard focus. */}
               {!isRenaming && (
@@ -1297,6 +1426,13 @@ export function FilesPanel({
         </button>
       </div>
 
+      {tree !== null && gitStatus && (
+        <GitSection status={gitStatus} onRepositoryChange={refresh} reloadToken={refreshToken} />
+      )}
+      {tree !== null && gitMissingNotice && (
+        <p className="mb-2 px-2 text-xs text-foreground-tertiary">{gitMissingNotice}</p>
+      )}
+
       {tree === null && !loading && (
         <p className="text-xs text-foreground-tertiary px-2">プロジェクトが開かれていません</p>
       )}
@@ -1438,6 +1574,18 @@ export function FilesPanel({
         onCancel={() => setDeleteConfirm(null)}
       />
 
+      {gitHistoryPath !== null && (
+        <GitFileHistoryDialog
+          vfsPath={gitHistoryPath}
+          onCompare={
+            onCompareWithRevision
+              ? (revision) => void onCompareWithRevision(gitHistoryPath, revision)
+              : undefined
+          }
+          onClose={() => setGitHistoryPath(null)}
+        />
+      )}
+
       {/* Overwrite confirmation dialog: shown when an operation targets an existing file */}
       <ConfirmDialog
         isOpen={overwriteConfirm !== null}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { GitCompare, Loader2 } from "lucide-react";
+
+import GlassDialog from "@/shared/ui/GlassDialog";
+import { formatCommitDate, getGitApi, gitFailureMessage } from "@/lib/git/git-service";
+
+import type { GitCommitInfo } from "@/lib/git/git-service";
+
+interface GitFileHistoryDialogProps {
+  /** Project-relative path of the file */
+  vfsPath: string;
+  /** Diff the file against a revision; omitted when comparing is unavailable */
+  onCompare?: (revision: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Commits that changed one file (following renames), newest first, each with
+ * a button to diff the file against that version. Mount it only while open.
+ *
+ * ファイル単位のコミット履歴。各版と現在の内容を比較できる。
+ */
+export default function GitFileHistoryDialog({
+  vfsPath,
+  onCompare,
+  onClose,
+}: GitFileHistoryDialogProps): React.JSX.Element {
+  const [commits, setCommits] = useState<GitCommitInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileName = vfsPath.split("/").pop() || vfsPath;
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const git = getGitApi();
+      if (!git) return;
+      const result = await git.fileLog(vfsPath);
+      if (cancelled) return;
+      if (result.ok) setCommits(result.commits);
+      else setError(gitFailureMessage(result));
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [vfsPath]);
+
+  return (
+    <GlassDialog
+      isOpen
+      onBackdropClick={onClose}
+      ariaLabel="ファイルの履歴"
+      panelClassName="mx-4 w-full max-w-lg p-6 max-h-[80vh] flex flex-col"
+    >
+      <h2 className="text-lg font-semibold text-foreground">ファイルの履歴</h2>
+      <p className="mt-1 truncate text-xs text-foreground-tertiary" title={vfsPath}>
+        {fileName}
+      </p>
+
+      <div className="mt-4 flex-1 min-h-0 overflow-y-auto space-y-1 pr-1">
+        {error && <p className="text-sm text-error">{error}</p>}
+        {!error && commits === null && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-4 h-4 animate-spin text-foreground-tertiary" />
+          </div>
+        )}
+        {!error && commits?.length === 0 && (
+          <p className="py-6 text-center text-sm text-foreground-secondary">
+            このファイルのコミットはまだありません
+          </p>
+        )}
+        {commits?.map((entry) => (
+          <div
+            key={entry.hash}
+            className="flex items-center gap-2 rounded border border-border px-3 py-2"
+          >
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-sm text-foreground" title={entry.subject}>
+                {entry.subject}
+              </p>
+              <p className="text-[11px] text-foreground-tertiary">
+                <span className="font-mono">{entry.shortHash}</span>・{entry.author}・
+                {formatCommitDate(entry.date)}
+              </p>
+            </div>
+            {onCompare && (
+              <button
+                type="button"
+                onClick={() => {
+                  onCompare(entry.hash);
+                  onClose();
+                }}
+                className="flex shrink-0 items-center gap-1 px-2 py-1 rounded text-[11px] font-medium text-foreground-secondary border border-border hover:bg-hover transition-colors"
+                title="この版と編集中の内容を比較"
+              >
+                <GitCompare className="w-3 h-3" />
+                比較
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-lg px-4 py-2 text-sm font-medium text-foreground-secondary hover:bg-hover transition-colors"
+        >
+          閉じる
+        </button>
+      </div>
+    </GlassDialog>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ChevronDown, GitBranch, GitCommitHorizontal, Loader2 } from "lucide-react";
+import clsx from "clsx";
+
+import { notificationManager } from "@/lib/services/notification-manager";
+import {
+  countStaged,
+  formatCommitDate,
+  getGitApi,
+  gitFailureMessage,
+  listUnstagedPaths,
+} from "@/lib/git/git-service";
+
+import type { GitCommitInfo, GitStatus } from "@/lib/git/git-service";
+
+interface GitSectionProps {
+  status: GitStatus;
+  /** Called after an operation changed the repository, to reload the status */
+  onRepositoryChange: () => void;
+  /** Changes whenever the Explorer reloads, so an open history list follows */
+  reloadToken: number;
+}
+
+/**
+ * Git source control for the project folder, shown above the file tree:
+ * branch, change counts, the commit box and the recent history.
+ *
+ * プロジェクトの git 操作欄。ブランチ名・変更数・コミット入力・最近の履歴を表示する。
+ */
+export default function GitSection({ status, onRepositoryChange, reloadToken }: GitSectionProps) {
+  const [message, setMessage] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [commits, setCommits] = useState<GitCommitInfo[] | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+
+  const stagedCount = countStaged(status.entries);
+  const unstagedPaths = listUnstagedPaths(status.entries);
+  const canCommit = !busy && stagedCount > 0 && message.trim().length > 0;
+
+  useEffect(() => {
+    if (!historyOpen) return;
+    let cancelled = false;
+    const load = async () => {
+      const git = getGitApi();
+      if (!git) return;
+      const result = await git.log(50);
+      if (cancelled) return;
+      if (result.ok) {
+        setCommits(result.commits);
+        setHistoryError(null);
+      } else {
+        setHistoryError(gitFailureMessage(result));
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [historyOpen, reloadToken]);
+
+  const handleStageAll = async () => {
+    const git = getGitApi();
+    if (!git || unstagedPaths.length === 0) return;
+    setBusy(true);
+    const result = await git.stage(unstagedPaths);
+    setBusy(false);
+    if (!result.ok) {
+      notificationManager.error(gitFailureMessage(result));
+      return;
+    }
+    onRepositoryChange();
+  };
+
+  const handleCommit = async () => {
+    const git = getGitApi();
+    if (!git || !canCommit) return;
+    setBusy(true);
+    const result = await git.commit(message);
+    setBusy(false);
+    if (!result.ok) {
+      notificationManager.error(gitFailureMessage(result));
+      return;
+    }
+    notificationManager.success(`コミットしました（${result.commit.shortHash}）`);
+    setMessage("");
+    onRepositoryChange();
+  };
+
+  return (
+    <section
+      aria-label="バージョン管理"
+      className="mb-3 rounded-lg border border-border bg-background-secondary p-2 space-y-2"
+    >
+      <div className="flex items-center gap-1.5 text-xs text-foreground-secondary">
+        <GitBranch className="w-3.5 h-3.5 shrink-0" />
+        <span className="truncate font-medium" title={status.branch ?? undefined}>
+          {status.branch ?? "（ブランチなし）"}
+        </span>
+        <span className="ml-auto shrink-0 text-[11px] text-foreground-tertiary">
+          変更 {status.entries.length}・ステージ済み {stagedCount}
+        </span>
+      </div>
+
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== "Enter" || !(e.metaKey || e.ctrlKey)) return;
+          if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+          e.preventDefault();
+          void handleCommit();
+        }}
+        rows={2}
+        placeholder="コミットメッセージ（Ctrl/⌘+Enter でコミット）"
+        aria-label="コミットメッセージ"
+        className="w-full resize-y rounded border border-border bg-background px-2 py-1 text-xs text-foreground outline-none focus:border-accent"
+      />
+
+      <div className="flex items-center gap-1.5">
+        <button
+          type="button"
+          onClick={() => void handleStageAll()}
+          disabled={busy || unstagedPaths.length === 0}
+          className="px-2 py-1 rounded text-[11px] font-medium text-foreground-secondary border border-border hover:bg-hover transition-colors disabled:opacity-50"
+          title="変更されたファイルをすべてステージします"
+        >
+          すべてステージ
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleCommit()}
+          disabled={!canCommit}
+          className="ml-auto flex items-center gap-1 px-2 py-1 rounded text-[11px] font-medium bg-accent text-accent-foreground hover:bg-accent-hover transition-colors disabled:opacity-50"
+          title={
+            stagedCount === 0 ? "ステージされた変更がありません" : "ステージした変更をコミット"
+          }
+        >
+          {busy ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <GitCommitHorizontal className="w-3 h-3" />
+          )}
+          コミット
+        </button>
+      </div>
+
+      <div>
+        <button
+          type="button"
+          onClick={() => setHistoryOpen((open) => !open)}
+          aria-expanded={historyOpen}
+          className="flex w-full items-center gap-1 text-[11px] font-medium text-foreground-tertiary hover:text-foreground-secondary"
+        >
+          <ChevronDown
+            className={clsx("w-3 h-3 transition-transform", !historyOpen && "-rotate-90")}
+          />
+          コミット履歴
+        </button>
+        {historyOpen && (
+          <div className="mt-1 max-h-48 overflow-y-auto space-y-0.5">
+            {historyError && <p className="text-[11px] text-error">{historyError}</p>}
+            {!historyError && commits === null && (
+              <Loader2 className="w-3 h-3 animate-spin text-foreground-tertiary" />
+            )}
+            {!historyError && commits?.length === 0 && (
+              <p className="text-[11px] text-foreground-tertiary">まだコミットがありません</p>
+            )}
+            {commits?.map((entry) => (
+              <div key={entry.hash} className="rounded px-1 py-0.5 hover:bg-hover">
+                <p className="truncate text-xs text-foreground" title={entry.subject}>
+                  {entry.subject}
+                </p>
+                <p className="text-[10px] text-foreground-tertiary">
+                  <span className="font-mono">{entry.shortHash}</span>・{entry.author}・
+                  {formatCommitDate(entry.date)}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import clsx from "clsx";
+import { CornerDownLeft, Loader2, Paperclip, Send, Square, Trash2, XCircle } from "lucide-react";
+import type { EditorView } from "@milkdown/prose/view";
+
+import { getAiClient } from "@/lib/ai/ai-client";
+import { formatCharacterSheets, splitReplySegments } from "@/lib/ai/assistant-chat";
+import type { ChatAttachment, ChatAttachmentKind } from "@/lib/ai/assistant-chat";
+import {
+  getChapterAtCursor,
+  getSelectionText,
+  insertProseAtCursor,
+} from "@/lib/editor-page/ai-chat-editor";
+import { useAiChat } from "@/lib/editor-page/use-ai-chat";
+import { useChapters } from "@/lib/editor-page/use-chapters";
+import { loadCharactersForMode } from "@/lib/project/character-service";
+import type { AiChatEntry, EditorMode } from "@/lib/project/project-types";
+import { isEditorViewAlive } from "@/shared/lib/editor-view-safety";
+
+interface AiChatPanelProps {
+  editorMode: EditorMode;
+  /** Active editor (selection / chapter attachments, insertion target) */
+  editorView?: EditorView | null;
+  /** Markdown of the active document (chapter list, character extraction) */
+  currentContent: string;
+}
+
+const ATTACHMENT_OPTIONS: ReadonlyArray<{ kind: ChatAttachmentKind; label: string }> = [
+  { kind: "selection", label: "選択範囲" },
+  { kind: "chapter", label: "現在の章" },
+  { kind: "characters", label: "登場人物" },
+];
+
+/** Assistant reply: commentary as plain text, prose blocks with an insert action. */
+function AssistantReply({
+  entry,
+  isStreaming,
+  onInsert,
+}: {
+  entry: AiChatEntry;
+  isStreaming: boolean;
+  onInsert: ((prose: string) => void) | null;
+}) {
+  const segments = splitReplySegments(entry.content);
+  return (
+    <div className="space-y-2 text-sm text-foreground">
+      {segments.map((segment, i) =>
+        segment.type === "text" ? (
+          <p key={i} className="whitespace-pre-wrap break-words">
+            {segment.text}
+          </p>
+        ) : (
+          <div key={i} className="rounded border border-border bg-background-secondary">
+            <p className="whitespace-pre-wrap break-words px-3 py-2 font-serif">{segment.text}</p>
+            {onInsert && !isStreaming && (
+              <div className="flex justify-end border-t border-border px-2 py-1">
+                <button
+                  type="button"
+                  onClick={() => onInsert(segment.text)}
+                  className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs text-foreground-secondary hover:bg-hover transition-colors"
+                  title="この文章をエディタのカーソル位置に挿入します"
+                >
+                  <CornerDownLeft className="w-3 h-3" />
+                  カーソル位置に挿入
+                </button>
+              </div>
+            )}
+          </div>
+        ),
+      )}
+      {isStreaming && (
+        <Loader2 className="w-4 h-4 animate-spin text-foreground-tertiary" aria-label="応答中" />
+      )}
+      {entry.interrupted && (
+        <p className="text-xs text-foreground-tertiary">（応答は中断されました）</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * AI assistant chat grounded in the open manuscript. Questions can carry the
+ * selection, the chapter at the cursor or the character list; prose in the
+ * replies can be inserted at the cursor.
+ */
+export default function AiChatPanel({ editorMode, editorView, currentContent }: AiChatPanelProps) {
+  const { entries, streamingId, notice, error, isPersisted, send, cancel, clear, dismissError } =
+    useAiChat(editorMode);
+  const { chapters } = useChapters(currentContent);
+  const [input, setInput] = useState("");
+  const [attachmentKinds, setAttachmentKinds] = useState<ReadonlySet<ChatAttachmentKind>>(
+    () => new Set(),
+  );
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  /**
+   * Character sheet sent with questions. Saved characters are re-read each
+   * time; without any, they are extracted once per panel session (an AI call).
+   */
+  const characterSheetRef = useRef<string | null>(null);
+  const listEndRef = useRef<HTMLDivElement>(null);
+  const isBusy = streamingId !== null || isPreparing;
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ block: "end" });
+  }, [entries]);
+
+  const toggleAttachment = useCallback((kind: ChatAttachmentKind) => {
+    setAttachmentKinds((prev) => {
+      const next = new Set(prev);
+      if (next.has(kind)) next.delete(kind);
+      else next.add(kind);
+      return next;
+    });
+  }, []);
+
+  /** Resolve the checked attachments; throws with a user-facing message. */
+  const collectAttachments = useCallback(async (): Promise<ChatAttachment[]> => {
+    const view = editorView && isEditorViewAlive(editorView) ? editorView : null;
+    const attachments: ChatAttachment[] = [];
+    if (attachmentKinds.has("selection")) {
+      const text = view ? getSelectionText(view) : "";
+      if (!text) throw new Error("エディタで範囲が選択されていません。");
+      attachments.push({ kind: "selection", label: "選択範囲", content: text });
+    }
+    if (attachmentKinds.has("chapter")) {
+      const chapter = view ? getChapterAtCursor(view, chapters) : null;
+      if (!chapter) throw new Error("カーソルが章（見出し）の中にありません。");
+      attachments.push({
+        kind: "chapter",
+        label: `現在の章：${chapter.title}`,
+        content: chapter.text,
+      });
+    }
+    if (attachmentKinds.has("characters")) {
+      const saved = await loadCharactersForMode(editorMode);
+      if (saved.length > 0) {
+        characterSheetRef.current = formatCharacterSheets(saved);
+      } else if (characterSheetRef.current === null) {
+        const client = getAiClient("character-extraction");
+        if (!client.isConfigured()) {
+          throw new Error("登場人物の抽出に使う AI API が設定されていません。");
+        }
+        const characters = await client.extractCharacters(currentContent);
+        characterSheetRef.current = formatCharacterSheets(characters);
+      }
+      if (characterSheetRef.current) {
+        attachments.push({
+          kind: "characters",
+          label: "登場人物",
+          content: characterSheetRef.current,
+        });
+      }
+    }
+    return attachments;
+  }, [attachmentKinds, chapters, currentContent, editorMode, editorView]);
+
+  const handleSend = useCallback(async () => {
+    if (!input.trim() || isBusy) return;
+    setAttachError(null);
+    setIsPreparing(true);
+    try {
+      const attachments = await collectAttachments();
+      if (send(input, attachments)) setInput("");
+    } catch (err) {
+      setAttachError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsPreparing(false);
+    }
+  }, [collectAttachments, input, isBusy, send]);
+
+  const handleInsert = useCallback(
+    (prose: string) => {
+      if (editorView && isEditorViewAlive(editorView)) insertProseAtCursor(editorView, prose);
+    },
+    [editorView],
+  );
+  const canInsert = !!editorView;
+
+  const shownError = attachError ?? error;
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-foreground-tertiary">
+          {isPersisted
+            ? "会話はプロジェクトに保存されます"
+            : "プロジェクトを開くと会話が保存されます"}
+        </p>
+        <button
+          type="button"
+          onClick={clear}
+          disabled={entries.length === 0}
+          className="inline-flex items-center gap-1 rounded px-2 py-1 text-xs text-foreground-tertiary hover:bg-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="会話をすべて消去します"
+        >
+          <Trash2 className="w-3 h-3" />
+          消去
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto space-y-3">
+        {entries.length === 0 && (
+          <p className="text-sm text-foreground-tertiary">
+            原稿について AI
+            アシスタントに質問できます。選択範囲・現在の章・登場人物を添付すると、その内容を踏まえて回答します。
+          </p>
+        )}
+        {entries.map((entry) =>
+          entry.role === "user" ? (
+            <div key={entry.id} className="ml-6 rounded bg-background-secondary px-3 py-2">
+              <p className="whitespace-pre-wrap break-words text-sm text-foreground">
+                {entry.content}
+              </p>
+              {entry.attachments && entry.attachments.length > 0 && (
+                <p className="mt-1 flex items-center gap-1 text-xs text-foreground-tertiary">
+                  <Paperclip className="w-3 h-3 shrink-0" />
+                  {entry.attachments.join("・")}
+                </p>
+              )}
+            </div>
+          ) : (
+            <AssistantReply
+              key={entry.id}
+              entry={entry}
+              isStreaming={entry.id === streamingId}
+              onInsert={canInsert ? handleInsert : null}
+            />
+          ),
+        )}
+        <div ref={listEndRef} />
+      </div>
+
+      {notice && <p className="text-xs text-foreground-tertiary">{notice}</p>}
+      {shownError && (
+        <div className="flex items-start gap-2 text-xs text-error">
+          <XCircle className="w-4 h-4 shrink-0" />
+          <span className="flex-1">{shownError}</span>
+          <button
+            type="button"
+            onClick={() => {
+              setAttachError(null);
+              dismissError();
+            }}
+            className="text-foreground-tertiary hover:text-foreground-secondary"
+          >
+            閉じる
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-1">
+          <Paperclip className="w-3 h-3 text-foreground-tertiary" />
+          {ATTACHMENT_OPTIONS.map((option) => (
+            <button
+              key={option.kind}
+              type="button"
+              aria-pressed={attachmentKinds.has(option.kind)}
+              onClick={() => toggleAttachment(option.kind)}
+              className={clsx(
+                "rounded-full border px-2 py-0.5 text-xs transition-colors",
+                attachmentKinds.has(option.kind)
+                  ? "border-accent bg-accent/10 text-foreground"
+                  : "border-border text-foreground-tertiary hover:bg-hover",
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-end gap-2">
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter" || e.shiftKey) return;
+              if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+              e.preventDefault();
+              void handleSend();
+            }}
+            rows={3}
+            placeholder="質問を入力（Enter で送信、Shift+Enter で改行）"
+            className="flex-1 min-w-0 resize-none rounded border border-border-secondary bg-background px-2 py-1 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+          />
+          {streamingId !== null ? (
+            <button
+              type="button"
+              onClick={cancel}
+              className="p-2 rounded text-foreground-secondary hover:bg-hover transition-colors"
+              title="応答を中断"
+            >
+              <Square className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => void handleSend()}
+              disabled={!input.trim() || isBusy}
+              className="p-2 rounded bg-accent text-accent-foreground hover:bg-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              title="送信"
+            >
+              {isPreparing ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4" />
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
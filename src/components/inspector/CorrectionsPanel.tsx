@@ -30,7 +30,7 @@ import {
 } from "@/contexts/EditorSettingsContext";
 import { useIgnoredCorrectionsContext } from "@/contexts/IgnoredCorrectionsContext";
 
-import type { LintIssue, Severity } from "@/lib/linting";
+import type { LintIssue, LintIssueGroup, Severity } from "@/lib/linting";
 import type { SeverityFilter, EnrichedLintIssue } from "./types";
 
 /** Sort mode for the issue list */
@@ -50,6 +50,10 @@ interface CorrectionsPanelProps {
   onAddToUserDictionary?: (issue: LintIssue) => void;
   /** Rule ids whose detections support adding the flagged word to the user dictionary. */
   dictEntryRuleIds?: ReadonlySet<string>;
+  /** Make a spelling the project's 統一表記 for a 表記ゆれ cluster (project mode only) */
+  onSetPreferredSpelling?: (preferred: string, spellings: readonly string[]) => void;
+  /** Remove a spelling from the project's preferred-spelling table (project mode only) */
+  onClearPreferredSpelling?: (preferred: string) => void;
   onRefreshLinting?: () => void;
   isLinting?: boolean;
   activeLintIssueIndex?: number | null;
@@ -64,12 +68,49 @@ const SEVERITY_ORDER: Record<Severity, number> = {
   info: 2,
 };
 
+/** A run of issues inside a source group; `cluster` is set for a rule-reported cluster (e.g. 表記ゆれ). */
+interface IssueSegment {
+  cluster?: LintIssueGroup;
+  issues: (LintIssue | EnrichedLintIssue)[];
+}
+
 /** Issues grouped by their owning ruleset (出典). */
 interface IssueGroup {
   groupId: string;
   groupName: string;
   ruleIds: string[];
+  /** Display order: `segments` flattened */
   issues: (LintIssue | EnrichedLintIssue)[];
+  segments: IssueSegment[];
+}
+
+/**
+ * Split position-sorted issues into segments, gathering each cluster
+ * (`issue.group`) at the place of its first issue.
+ */
+function segmentByCluster(issues: (LintIssue | EnrichedLintIssue)[]): IssueSegment[] {
+  const segments: IssueSegment[] = [];
+  const clusters = new Map<string, IssueSegment>();
+  for (const issue of issues) {
+    if (!issue.group) {
+      const last = segments[segments.length - 1];
+      if (last && !last.cluster) {
+        last.issues.push(issue);
+      } else {
+        segments.push({ issues: [issue] });
+      }
+      continue;
+    }
+    const existing = clusters.get(issue.group.id);
+    if (existing) {
+      existing.issues.push(issue);
+      continue;
+    }
+    const segment: IssueSegment = { cluster: issue.group, issues: [issue] };
+    clusters.set(issue.group.id, segment);
+    segments.push(segment);
+  }
+  return segments;
 }
 
 /** POS legend items (main categories only, compact) */
@@ -96,6 +137,8 @@ export default function CorrectionsPanel({
   onIgnoreCorrection,
   onAddToUserDictionary,
   dictEntryRuleIds,
+  onSetPreferredSpelling,
+  onClearPreferredSpelling,
   onRefreshLinting,
   isLinting = false,
   activeLintIssueIndex,
@@ -119,6 +162,8 @@ export default function CorrectionsPanel({
   const [sortMode, setSortMode] = useState<SortMode>("source");
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
   const [showIgnoredDialog, setShowIgnoredDialog] = useState(false);
+  /** Cluster whose 統一表記 spelling picker is open */
+  const [spellingPickerId, setSpellingPickerId] = useState<string | null>(null);
   const issueListRef = useRef<HTMLDivElement>(null);
 
   const filteredIssues = useMemo(() => {
@@ -165,7 +210,7 @@ export default function CorrectionsPanel({
 
       let group = groupMap.get(groupId);
       if (!group) {
-        group = { groupId, groupName, ruleIds: [], issues: [] };
+        group = { groupId, groupName, ruleIds: [], issues: [], segments: [] };
         groupMap.set(groupId, group);
       }
       if (!group.ruleIds.includes(issue.ruleId)) {
@@ -174,6 +219,12 @@ export default function CorrectionsPanel({
       group.issues.push(issue);
     }
 
+    // 表記ゆれなどのクラスタは最初の指摘の位置にまとめて表示する。
+    for (const group of groupMap.values()) {
+      group.segments = segmentByCluster(group.issues);
+      group.issues = group.segments.flatMap((segment) => segment.issues);
+    }
+
     // 出典名の昇順で並べ、"その他" は常に末尾に置く。
     const groups = [...groupMap.values()];
     groups.sort((a, b) => {
@@ -297,7 +348,93 @@ export default function CorrectionsPanel({
     </div>
   );
 
-  /** Render grouped (by 出典/ruleset) and collapsible issue list */
+  /** Render one issue card inside a source group */
+  const renderGroupedIssue = (
+    issue: LintIssue | EnrichedLintIssue,
+    index: number,
+  ): React.JSX.Element => {
+    const globalIndex = issueIndexMap.get(issue) ?? index;
+    return (
+      <div
+        key={`${issue.ruleId}-${issue.from}-${issue.to}-${index}`}
+        data-issue-index={globalIndex}
+        className="animate-fade-in"
+      >
+        <IssueCard
+          issue={issue}
+          isActive={activeDisplayIndex === globalIndex}
+          onNavigateToIssue={onNavigateToIssue}
+          onApplyFix={onApplyFix}
+          onIgnoreCorrection={onIgnoreCorrection}
+          onAddToUserDictionary={onAddToUserDictionary}
+          canAddToUserDictionary={!!dictEntryRuleIds?.has(issue.ruleId)}
+        />
+      </div>
+    );
+  };
+
+  /** Render the header of a rule-reported cluster, with the 統一表記 actions for 表記ゆれ */
+  const renderClusterHeader = (cluster: LintIssueGroup, count: number): React.JSX.Element => {
+    const spellings = cluster.spellings;
+    const canSetPreferred = !!onSetPreferredSpelling && !!spellings && spellings.length > 1;
+    const isPickerOpen = canSetPreferred && spellingPickerId === cluster.id;
+    return (
+      <div className="space-y-1 px-1">
+        <div className="flex items-center gap-1.5">
+          <span className="text-xs font-medium text-foreground-secondary">{cluster.labelJa}</span>
+          <span className="text-xs text-foreground-tertiary">{count}件</span>
+          {cluster.preferred && onClearPreferredSpelling && (
+            <button
+              type="button"
+              onClick={() => onClearPreferredSpelling(cluster.preferred ?? "")}
+              className="ml-auto text-xs text-foreground-tertiary hover:text-foreground-secondary transition-colors"
+              title={`「${cluster.preferred}」をプロジェクトの優先表記から外す`}
+            >
+              統一表記を解除
+            </button>
+          )}
+          {canSetPreferred && (
+            <button
+              type="button"
+              onClick={() => setSpellingPickerId(isPickerOpen ? null : cluster.id)}
+              aria-expanded={isPickerOpen}
+              className={clsx(
+                "text-xs font-medium text-accent hover:text-accent-hover transition-colors",
+                !(cluster.preferred && onClearPreferredSpelling) && "ml-auto",
+              )}
+            >
+              統一表記に設定
+            </button>
+          )}
+        </div>
+        {isPickerOpen && spellings && (
+          <div className="flex flex-wrap items-center gap-1">
+            {spellings.map((spelling) => (
+              <button
+                key={spelling}
+                type="button"
+                onClick={() => {
+                  setSpellingPickerId(null);
+                  onSetPreferredSpelling?.(spelling, spellings);
+                }}
+                className={clsx(
+                  "px-1.5 py-0.5 text-xs rounded transition-colors",
+                  spelling === cluster.preferred
+                    ? "bg-accent/20 text-accent"
+                    : "bg-accent/10 text-accent hover:bg-accent/20",
+                )}
+                title={`「${spelling}」をプロジェクトの統一表記にする`}
+              >
+                {spelling}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  /** Render grouped (by 出典/ruleset) and collapsible issue list; rule-reported clusters are boxed */
   const renderGroupedList = (): React.JSX.Element => (
     <div ref={issueListRef} className="space-y-2">
       {groupedIssues.map((group) => {
@@ -339,26 +476,21 @@ export default function CorrectionsPanel({
             {/* Group body */}
             {!isCollapsed && (
               <div className="space-y-1.5 p-1.5">
-                {group.issues.map((issue, index) => {
-                  const globalIndex = issueIndexMap.get(issue) ?? index;
-                  return (
+                {group.segments.map((segment, segmentIndex) =>
+                  segment.cluster ? (
                     <div
-                      key={`${issue.ruleId}-${issue.from}-${issue.to}-${index}`}
-                      data-issue-index={globalIndex}
-                      className="animate-fade-in"
+                      key={segment.cluster.id}
+                      className="space-y-1.5 rounded-md border border-border-secondary p-1.5"
                     >
-                      <IssueCard
-                        issue={issue}
-                        isActive={activeDisplayIndex === globalIndex}
-                        onNavigateToIssue={onNavigateToIssue}
-                        onApplyFix={onApplyFix}
-                        onIgnoreCorrection={onIgnoreCorrection}
-                        onAddToUserDictionary={onAddToUserDictionary}
-                        canAddToUserDictionary={!!dictEntryRuleIds?.has(issue.ruleId)}
-                      />
+                      {renderClusterHeader(segment.cluster, segment.issues.length)}
+                      {segment.issues.map(renderGroupedIssue)}
+                    </div>
+                  ) : (
+                    <div key={`segment-${segmentIndex}`} className="space-y-1.5">
+                      {segment.issues.map(renderGroupedIssue)}
                     </div>
-                  );
-                })}
+                  ),
+                )}
               </div>
             )}
           </div>
@@ -1,7 +1,7 @@
 "use client";
 
 import type React from "react";
-import { BookmarkPlus, EyeOff, Info, Lightbulb } from "lucide-react";
+import { BookmarkPlus, EyeOff, Info, Lightbulb, Sparkles } from "lucide-react";
 import clsx from "clsx";
 
 import { LINT_RULES_META } from "@/lib/linting/lint-presets";
@@ -200,6 +200,23 @@ export default function IssueCard({
                 {issue.messageJa}
               </p>
             )}
+            {/* L3: the model's verdict and reasoning */}
+            {issue.validation && (
+              <p
+                className={clsx(
+                  "text-xs mt-1 flex items-start gap-1",
+                  issue.validation.isGenuine ? "text-foreground-tertiary" : "text-info",
+                )}
+              >
+                <Sparkles className="w-3 h-3 shrink-0 mt-0.5" />
+                <span>
+                  <span className="font-medium">
+                    {issue.validation.isGenuine ? "AI判定: 妥当" : "AI判定: 誤検出の可能性"}
+                  </span>
+                  {issue.validation.reasoning && ` — ${issue.validation.reasoning}`}
+                </span>
+              </p>
+            )}
           </div>
         </div>
       </button>
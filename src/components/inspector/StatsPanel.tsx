@@ -1,8 +1,12 @@
 "use client";
 
+import { ChartLine, Grid3x3 } from "lucide-react";
+
 import InfoTooltip from "./InfoTooltip";
+import WritingGoalsCard from "./WritingGoalsCard";
 
 import type { PreviousDayStats } from "@/lib/editor-page/use-previous-day-stats";
+import type { UseWritingProgressResult } from "@/lib/editor-page/use-writing-progress";
 
 interface StatsPanelProps {
   /** 可視本文文字数（空白・改行・記法を除く） */
@@ -47,6 +51,12 @@ interface StatsPanelProps {
     hasDictAnalysis?: boolean;
   };
   previousDayStats?: PreviousDayStats | null;
+  /** Writing goals and progress (project mode only) */
+  writingProgress?: UseWritingProgressResult | null;
+  /** Open the long-term statistics dashboard (project mode only) */
+  onOpenStatsDashboard?: () => void;
+  /** Open the 原稿用紙 view of the active document */
+  onOpenManuscriptPaper?: () => void;
 }
 
 /** Format a diff value with sign prefix */
@@ -70,6 +80,9 @@ export default function StatsPanel({
   charUsageRates,
   readabilityAnalysis,
   previousDayStats,
+  writingProgress,
+  onOpenStatsDashboard,
+  onOpenManuscriptPaper,
 }: StatsPanelProps) {
   const isSelection = selectedCharCount > 0;
   const activeCharCount = isSelection ? selectedCharCount : charCount;
@@ -153,6 +166,15 @@ export default function StatsPanel({
 
   return (
     <div className="space-y-3 stats-panel">
+      {/* 執筆目標（プロジェクトモードのみ、全体表示時） */}
+      {!isSelection && writingProgress?.progress && (
+        <WritingGoalsCard
+          progress={writingProgress.progress}
+          onSaveGoal={writingProgress.saveGoal}
+          onRemoveGoal={writingProgress.removeGoal}
+        />
+      )}
+
       {/* 原稿用紙枚数（全体のみ表示、トップに配置） */}
       {!isSelection && (
         <div className="bg-background-secondary rounded-lg p-3 border border-border flex items-center justify-between">
@@ -168,6 +190,17 @@ export default function StatsPanel({
                 <span className="ml-1 opacity-70">({manuscriptCellCount}マス)</span>
               )}
             </p>
+            {onOpenManuscriptPaper && (
+              <button
+                type="button"
+                onClick={onOpenManuscriptPaper}
+                className="mt-1 flex items-center gap-1 text-xs text-accent hover:underline"
+                title="原稿用紙のマス目に組んだ状態をタブで表示"
+              >
+                <Grid3x3 className="w-3.5 h-3.5" />
+                原稿用紙で見る
+              </button>
+            )}
           </div>
           <div className="text-right">
             <span className="text-sm font-bold text-foreground">{manuscriptPages}枚</span>
@@ -186,6 +219,17 @@ export default function StatsPanel({
       {/* 見出し: 分析対象を動的に表示 */}
       <div className="flex items-center justify-between">
         <h3 className="stats-header">{isSelection ? "選択範囲の分析" : "全体の統計"}</h3>
+        {!isSelection && onOpenStatsDashboard && (
+          <button
+            type="button"
+            onClick={onOpenStatsDashboard}
+            className="flex items-center gap-1 text-xs text-accent hover:underline"
+            title="日ごとの推移と章ごとの長さを表示"
+          >
+            <ChartLine className="w-3.5 h-3.5" />
+            推移を見る
+          </button>
+        )}
         {isSelection && (
           <span className="text-xs px-2 py-1 rounded-full bg-accent/20 text-accent font-medium">
             選択中
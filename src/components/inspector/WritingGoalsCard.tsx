@@ -0,0 +1,302 @@
+"use client";
+
+import { useState } from "react";
+import { Flame, Target } from "lucide-react";
+
+import InfoTooltip from "./InfoTooltip";
+import { amountIn, heatLevel } from "@/lib/editor-page/writing-progress";
+
+import type { WritingProgress } from "@/lib/editor-page/use-writing-progress";
+import type { GoalProgress } from "@/lib/editor-page/writing-progress";
+import type { WritingGoal, WritingGoalUnit } from "@/lib/project/project-types";
+
+interface WritingGoalsCardProps {
+  progress: WritingProgress;
+  onSaveGoal: (goal: WritingGoal) => Promise<void>;
+  onRemoveGoal: (scope: WritingGoal["scope"]) => Promise<void>;
+}
+
+const UNIT_LABELS: Record<WritingGoalUnit, string> = { chars: "字", pages: "枚" };
+
+const HEAT_CLASSES = ["bg-background", "bg-accent/20", "bg-accent/45", "bg-accent/70", "bg-accent"];
+
+const inputClass =
+  "text-xs px-1.5 py-1 border border-border-secondary rounded bg-background text-foreground focus:outline-none focus:ring-1 focus:ring-accent";
+
+function formatAmount(amount: number, unit: WritingGoalUnit): string {
+  return `${amount.toLocaleString()}${UNIT_LABELS[unit]}`;
+}
+
+function ProgressBar({ ratio }: { ratio: number }) {
+  return (
+    <div className="w-full h-2 bg-background rounded-full overflow-hidden border border-border-secondary">
+      <div
+        className={`h-full transition-all ${ratio >= 1 ? "bg-success" : "bg-accent"}`}
+        style={{ width: `${Math.round(ratio * 100)}%` }}
+      />
+    </div>
+  );
+}
+
+/** Project goal: progress, days left and the daily pace needed to make the deadline. */
+function ProjectGoalSummary({ goal, progress }: { goal: WritingGoal; progress: GoalProgress }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-sm text-foreground-secondary">全体</span>
+        <span className="text-sm font-semibold text-foreground">
+          {formatAmount(progress.current, goal.unit)}
+          <span className="text-xs text-foreground-tertiary font-normal">
+            {" "}
+            / {formatAmount(progress.target, goal.unit)}
+          </span>
+        </span>
+      </div>
+      <ProgressBar ratio={progress.ratio} />
+      {goal.deadline && (
+        <p className="text-xs text-foreground-tertiary">
+          締切 {goal.deadline}
+          {progress.overdue ? (
+            <span className="ml-1 text-error font-medium">締切を過ぎています</span>
+          ) : progress.ratio >= 1 ? (
+            <span className="ml-1 text-success font-medium">達成</span>
+          ) : (
+            progress.daysLeft !== null && (
+              <>
+                <span className="ml-1">（残り{progress.daysLeft}日）</span>
+                {progress.requiredPace !== null && (
+                  <InfoTooltip
+                    content="今日の開始時点の残りを、締切までの日数（今日を含む）で割った量です。"
+                    className="block text-foreground-secondary font-medium"
+                  >
+                    1日あたり {formatAmount(progress.requiredPace, goal.unit)} のペースが必要
+                  </InfoTooltip>
+                )}
+              </>
+            )
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
+
+/** Form for the goal of one scope. */
+function GoalEditor({
+  scope,
+  goal,
+  onSave,
+  onRemove,
+}: {
+  scope: WritingGoal["scope"];
+  goal: WritingGoal | null;
+  onSave: (goal: WritingGoal) => Promise<void>;
+  onRemove: (scope: WritingGoal["scope"]) => Promise<void>;
+}) {
+  const [unit, setUnit] = useState<WritingGoalUnit>(goal?.unit ?? "chars");
+  const [target, setTarget] = useState(goal ? String(goal.target) : "");
+  const [deadline, setDeadline] = useState(goal?.deadline ?? "");
+  const parsedTarget = Number.parseInt(target, 10);
+  const valid = Number.isFinite(parsedTarget) && parsedTarget > 0;
+
+  const handleSave = () => {
+    if (!valid) return;
+    void onSave({
+      scope,
+      unit,
+      target: parsedTarget,
+      ...(scope === "project" && deadline ? { deadline } : {}),
+    }).catch((error: unknown) => {
+      console.error("Failed to save writing goal:", error);
+    });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs font-medium text-foreground-secondary">
+        {scope === "project" ? "全体の目標" : "1日の目標"}
+      </p>
+      <div className="flex items-center gap-1.5">
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          className={`${inputClass} w-24`}
+          aria-label={scope === "project" ? "全体の目標量" : "1日の目標量"}
+        />
+        <select
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as WritingGoalUnit)}
+          className={inputClass}
+          aria-label="単位"
+        >
+          <option value="chars">字</option>
+          <option value="pages">枚（原稿用紙）</option>
+        </select>
+      </div>
+      {scope === "project" && (
+        <label className="flex items-center gap-1.5 text-xs text-foreground-tertiary">
+          締切
+          <input
+            type="date"
+            value={deadline}
+            onChange={(e) => setDeadline(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      )}
+      <div className="flex gap-1.5">
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!valid}
+          className="text-xs px-2 py-0.5 rounded bg-accent text-accent-foreground disabled:opacity-50"
+        >
+          保存
+        </button>
+        {goal && (
+          <button
+            type="button"
+            onClick={() => {
+              void onRemove(scope).catch((error: unknown) => {
+                console.error("Failed to remove writing goal:", error);
+              });
+            }}
+            className="text-xs px-2 py-0.5 rounded border border-border-secondary text-foreground-secondary hover:bg-hover"
+          >
+            解除
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** 12-week calendar of written characters, one column per week. */
+function WritingHeatmap({ progress }: { progress: WritingProgress }) {
+  const dailyChars =
+    progress.dailyGoal?.unit === "chars"
+      ? progress.dailyGoal.target
+      : Math.max(0, ...progress.days.map((d) => d.written.chars));
+  const weeks: WritingProgress["days"][] = [];
+  for (let i = 0; i < progress.days.length; i += 7) {
+    weeks.push(progress.days.slice(i, i + 7));
+  }
+  return (
+    <div className="flex gap-0.5" role="img" aria-label="執筆カレンダー（直近12週間）">
+      {weeks.map((week) => (
+        <div key={week[0].dateKey} className="flex flex-col gap-0.5">
+          {week.map((day) => (
+            <div
+              key={day.dateKey}
+              className={`w-2.5 h-2.5 rounded-sm border border-border-secondary ${HEAT_CLASSES[heatLevel(day.written.chars, dailyChars)]}`}
+              title={`${day.dateKey}: ${day.written.chars > 0 ? "+" : ""}${day.written.chars.toLocaleString()}字`}
+            />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/** Writing goals, today's progress, streak, session and heatmap (project mode). */
+export default function WritingGoalsCard({
+  progress,
+  onSaveGoal,
+  onRemoveGoal,
+}: WritingGoalsCardProps) {
+  const [editing, setEditing] = useState(false);
+  const { projectGoal, dailyGoal, projectGoalProgress, dailyGoalProgress, today, streak } =
+    progress;
+  const todayUnit = dailyGoal?.unit ?? "chars";
+  const todayAmount = amountIn(today.written, todayUnit);
+
+  return (
+    <div className="bg-background-secondary rounded-lg p-4 border border-border space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-medium text-foreground-tertiary uppercase tracking-wide flex items-center gap-1">
+          <Target className="w-3.5 h-3.5" />
+          執筆目標
+        </h4>
+        <button
+          type="button"
+          onClick={() => setEditing((v) => !v)}
+          className="text-xs text-accent hover:underline"
+        >
+          {editing ? "閉じる" : "目標を設定"}
+        </button>
+      </div>
+
+      {editing && (
+        <div className="space-y-3 pb-3 border-b border-border-secondary">
+          <GoalEditor
+            key={`project-${projectGoal?.target ?? ""}-${projectGoal?.deadline ?? ""}`}
+            scope="project"
+            goal={projectGoal}
+            onSave={onSaveGoal}
+            onRemove={onRemoveGoal}
+          />
+          <GoalEditor
+            key={`daily-${dailyGoal?.target ?? ""}`}
+            scope="daily"
+            goal={dailyGoal}
+            onSave={onSaveGoal}
+            onRemove={onRemoveGoal}
+          />
+        </div>
+      )}
+
+      {projectGoal && projectGoalProgress && (
+        <ProjectGoalSummary goal={projectGoal} progress={projectGoalProgress} />
+      )}
+
+      <div className="space-y-1">
+        <div className="flex items-baseline justify-between gap-2">
+          <InfoTooltip
+            content="プロジェクト全体の原稿の、前日の終わりからの増減です。"
+            className="text-sm text-foreground-secondary"
+          >
+            今日
+          </InfoTooltip>
+          <span className="text-sm font-semibold text-foreground">
+            {todayAmount > 0 ? "+" : ""}
+            {formatAmount(todayAmount, todayUnit)}
+            {dailyGoal && (
+              <span className="text-xs text-foreground-tertiary font-normal">
+                {" "}
+                / {formatAmount(dailyGoal.target, dailyGoal.unit)}
+              </span>
+            )}
+          </span>
+        </div>
+        {dailyGoalProgress && <ProgressBar ratio={dailyGoalProgress.ratio} />}
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-foreground-secondary">
+        <InfoTooltip
+          content={
+            dailyGoal
+              ? "1日の目標を達成した日の連続日数です。今日の分は達成した時点で加わります。"
+              : "原稿を書き進めた日の連続日数です。今日の分は書いた時点で加わります。"
+          }
+          className="flex items-center gap-1"
+        >
+          <Flame className={`w-3.5 h-3.5 ${streak.current > 0 ? "text-warning" : ""}`} />
+          連続 {streak.current}日
+        </InfoTooltip>
+        <span className="text-foreground-tertiary">最長 {streak.best}日</span>
+      </div>
+
+      {(today.minutes > 0 || today.added > 0 || today.deleted > 0) && (
+        <p className="text-xs text-foreground-tertiary">
+          今日の作業 {today.minutes}分（入力 +{today.added.toLocaleString()} / 削除 −
+          {today.deleted.toLocaleString()}）
+        </p>
+      )}
+
+      <WritingHeatmap progress={progress} />
+    </div>
+  );
+}
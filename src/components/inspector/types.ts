@@ -1,11 +1,15 @@
+import type { EditorView } from "@milkdown/prose/view";
+
 import type { LintIssue, Severity } from "@/lib/linting";
 import type { PreviousDayStats } from "@/lib/editor-page/use-previous-day-stats";
+import type { UseWritingProgressResult } from "@/lib/editor-page/use-writing-progress";
+import type { SnapshotComparison } from "@/lib/editor-page/use-diff-tabs";
 
-export type Tab = "corrections" | "stats" | "history";
+export type Tab = "corrections" | "stats" | "history" | "ai";
 
 /** Returns true when the value is a supported inspector tab. */
 export const isValidTab = (value: string | null): value is Tab =>
-  value === "corrections" || value === "stats" || value === "history";
+  value === "corrections" || value === "stats" || value === "history" || value === "ai";
 
 const MDI_EXTENSION = ".mdi";
 
@@ -89,6 +93,8 @@ export interface InspectorProps {
     currentContent: string;
     label: string;
   }) => void;
+  /** Open a compare tab for two history snapshots */
+  onCompareSnapshots?: (comparison: SnapshotComparison) => void;
   lintIssues?: LintIssue[];
   onNavigateToIssue?: (issue: LintIssue) => void;
   onApplyFix?: (issue: LintIssue) => void;
@@ -96,6 +102,10 @@ export interface InspectorProps {
   onAddToUserDictionary?: (issue: LintIssue) => void;
   /** Rule ids whose detections support adding the flagged word to the user dictionary. */
   dictEntryRuleIds?: ReadonlySet<string>;
+  /** Make a spelling the project's 統一表記 for a 表記ゆれ cluster (project mode only) */
+  onSetPreferredSpelling?: (preferred: string, spellings: readonly string[]) => void;
+  /** Remove a spelling from the project's preferred-spelling table (project mode only) */
+  onClearPreferredSpelling?: (preferred: string) => void;
   onRefreshLinting?: () => void;
   isLinting?: boolean;
   activeLintIssueIndex?: number | null;
@@ -108,4 +118,12 @@ export interface InspectorProps {
   switchToCorrectionsTrigger?: number;
   /** Previous day's stats for comparison display */
   previousDayStats?: PreviousDayStats | null;
+  /** Writing goals and progress of the open project (project mode only) */
+  writingProgress?: UseWritingProgressResult | null;
+  /** Open the 統計ダッシュボード tab (project mode only) */
+  onOpenStatsDashboard?: () => void;
+  /** Open the 原稿用紙 view of the active editor tab */
+  onOpenManuscriptPaper?: () => void;
+  /** Active editor, used by the AI tab for attachments and inserting replies */
+  editorView?: EditorView | null;
 }
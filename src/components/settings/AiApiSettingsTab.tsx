@@ -5,26 +5,175 @@ import { Eye, EyeOff, CheckCircle, XCircle, Loader2 } from "lucide-react";
 
 import { useAiApiSettings } from "@/contexts/EditorSettingsContext";
 import { testAiConnection } from "@/lib/ai/ai-client";
+import { AI_PROVIDERS } from "@/lib/ai/providers";
+import type { AiClientConfig, AiFeature, AiProviderId } from "@/lib/ai/types";
+import type { FalsePositiveAction } from "@/lib/linting/ai-lint-validator";
 import { fetchAppState } from "@/lib/storage/app-state-manager";
 import { isElectronRenderer } from "@/lib/utils/runtime-env";
-import { SettingsField, SettingsSection } from "./primitives";
+import { SelectField, SettingsField, SettingsSection, SettingsToggle } from "./primitives";
 
 type TestStatus = "idle" | "testing" | "success" | "error";
 
 const BASE_INPUT_CLASS =
   "block w-full rounded-lg border border-border bg-background px-3 py-2 text-sm text-foreground placeholder:text-foreground-tertiary focus:border-accent focus:outline-none focus:ring-1 focus:ring-accent disabled:opacity-50 disabled:cursor-not-allowed";
 
-export default function AiApiSettingsTab() {
-  const { aiBaseUrl, aiModelId, onAiApiKeyChange, onAiBaseUrlChange, onAiModelIdChange } =
-    useAiApiSettings();
+const FALSE_POSITIVE_ACTION_OPTIONS: ReadonlyArray<{ value: FalsePositiveAction; label: string }> =
+  [
+    { value: "demote", label: "「情報」に格下げして表示" },
+    { value: "hide", label: "非表示にする" },
+  ];
 
-  // API key is managed in local state only — not exposed through context.
-  // Loaded from AppState on mount; changes are persisted via the handler.
-  const [apiKey, setApiKey] = useState("");
-  const [showKey, setShowKey] = useState(false);
+/** Providers offered in the UI (the mock provider is for tests only). */
+const SELECTABLE_PROVIDERS: ReadonlyArray<AiProviderId> = [
+  "openai-compatible",
+  "anthropic",
+  "ollama",
+];
+
+const PROVIDER_OPTIONS = SELECTABLE_PROVIDERS.map((id) => ({
+  value: id,
+  label: AI_PROVIDERS[id].labelJa,
+}));
+
+const FEATURES: ReadonlyArray<{ id: AiFeature; label: string }> = [
+  { id: "lint-validation", label: "校正指摘の判定" },
+  { id: "rewrite", label: "書き換え提案" },
+  { id: "character-extraction", label: "登場人物の抽出" },
+  { id: "chat", label: "AI アシスタント" },
+];
+
+/** One line summarizing what the provider supports. */
+function CapabilityNote({ provider }: { provider: AiProviderId }) {
+  const { streaming, jsonMode, contextLength } = AI_PROVIDERS[provider].capabilities;
+  return (
+    <p className="text-xs text-foreground-tertiary">
+      ストリーミング: {streaming ? "対応" : "非対応"}・JSON モード:{" "}
+      {jsonMode ? "対応" : "プロンプトで指定"}・コンテキスト長: {contextLength.toLocaleString()}{" "}
+      トークン
+    </p>
+  );
+}
+
+/** "接続テスト" button with its own result line. */
+function ConnectionTest({ config, disabled }: { config: AiClientConfig; disabled: boolean }) {
   const [testStatus, setTestStatus] = useState<TestStatus>("idle");
   const [testMessage, setTestMessage] = useState("");
 
+  const handleTestConnection = useCallback(async () => {
+    if (AI_PROVIDERS[config.provider ?? "openai-compatible"].requiresApiKey && !config.apiKey) {
+      setTestStatus("error");
+      setTestMessage("APIキーが設定されていません。");
+      return;
+    }
+
+    setTestStatus("testing");
+    setTestMessage("");
+
+    try {
+      const count = await testAiConnection(config);
+      setTestStatus("success");
+      setTestMessage(`接続成功 — ${count}個のモデルが利用可能です。`);
+    } catch (e) {
+      setTestStatus("error");
+      setTestMessage(e instanceof Error ? `接続失敗: ${e.message}` : "接続失敗: 不明なエラー");
+    }
+  }, [config]);
+
+  return (
+    <div className="flex items-center gap-3">
+      <button
+        type="button"
+        onClick={() => void handleTestConnection()}
+        disabled={disabled || testStatus === "testing"}
+        className="inline-flex items-center gap-2 rounded-lg bg-accent px-4 py-2 text-sm font-medium text-accent-foreground transition-colors hover:bg-accent-hover disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {testStatus === "testing" && <Loader2 className="h-4 w-4 animate-spin" />}
+        接続テスト
+      </button>
+
+      {testStatus === "success" && (
+        <span className="inline-flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
+          <CheckCircle className="h-4 w-4" />
+          {testMessage}
+        </span>
+      )}
+      {testStatus === "error" && (
+        <span className="inline-flex items-center gap-1 text-sm text-red-600 dark:text-red-400">
+          <XCircle className="h-4 w-4" />
+          {testMessage}
+        </span>
+      )}
+    </div>
+  );
+}
+
+/** Password input with a show/hide toggle. */
+function ApiKeyInput({
+  id,
+  value,
+  onChange,
+  placeholder,
+  disabled,
+}: {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  disabled: boolean;
+}) {
+  const [showKey, setShowKey] = useState(false);
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        type={showKey ? "text" : "password"}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        disabled={disabled}
+        className={`${BASE_INPUT_CLASS} pr-10`}
+      />
+      <button
+        type="button"
+        onClick={() => setShowKey((prev) => !prev)}
+        className="absolute inset-y-0 right-0 flex items-center pr-3 text-foreground-tertiary hover:text-foreground-secondary"
+        aria-label={showKey ? "API キーを非表示" : "API キーを表示"}
+      >
+        {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+      </button>
+    </div>
+  );
+}
+
+export default function AiApiSettingsTab() {
+  const {
+    aiBaseUrl,
+    aiModelId,
+    aiProvider,
+    aiFeatureProviders,
+    aiAnthropicModelId,
+    aiOllamaBaseUrl,
+    aiOllamaModelId,
+    aiLintValidation,
+    aiLintValidationAction,
+    onAiApiKeyChange,
+    onAiBaseUrlChange,
+    onAiModelIdChange,
+    onAiProviderChange,
+    onAiFeatureProviderChange,
+    onAiAnthropicApiKeyChange,
+    onAiAnthropicModelIdChange,
+    onAiOllamaBaseUrlChange,
+    onAiOllamaModelIdChange,
+    onAiLintValidationChange,
+    onAiLintValidationActionChange,
+  } = useAiApiSettings();
+
+  // API keys are managed in local state only — not exposed through context.
+  // Loaded from AppState on mount; changes are persisted via the handlers.
+  const [apiKey, setApiKey] = useState("");
+  const [anthropicApiKey, setAnthropicApiKey] = useState("");
+
   const isElectron = isElectronRenderer();
 
   useEffect(() => {
@@ -33,9 +182,12 @@ export default function AiApiSettingsTab() {
         if (typeof state?.aiApiKey === "string") {
           setApiKey(state.aiApiKey);
         }
+        if (typeof state?.aiAnthropicApiKey === "string") {
+          setAnthropicApiKey(state.aiAnthropicApiKey);
+        }
       })
       .catch(() => {
-        // Ignore load errors — key remains empty
+        // Ignore load errors — keys remain empty
       });
   }, []);
 
@@ -47,122 +199,223 @@ export default function AiApiSettingsTab() {
     [onAiApiKeyChange],
   );
 
-  const handleTestConnection = useCallback(async () => {
-    if (!apiKey) {
-      setTestStatus("error");
-      setTestMessage("APIキーが設定されていません。");
-      return;
-    }
+  const handleAnthropicApiKeyChange = useCallback(
+    (value: string) => {
+      setAnthropicApiKey(value);
+      onAiAnthropicApiKeyChange(value);
+    },
+    [onAiAnthropicApiKeyChange],
+  );
 
-    setTestStatus("testing");
-    setTestMessage("");
-
-    try {
-      const count = await testAiConnection({
-        apiKey,
-        baseUrl: aiBaseUrl || undefined,
-        modelId: aiModelId,
-      });
-      setTestStatus("success");
-      setTestMessage(`接続成功 — ${count}個のモデルが利用可能です。`);
-    } catch (e) {
-      setTestStatus("error");
-      setTestMessage(e instanceof Error ? `接続失敗: ${e.message}` : "接続失敗: 不明なエラー");
-    }
-  }, [apiKey, aiBaseUrl, aiModelId]);
+  const defaultProviderLabel = AI_PROVIDERS[aiProvider].labelJa;
+  const featureOptions: ReadonlyArray<{ value: AiProviderId | "default"; label: string }> = [
+    { value: "default", label: `既定（${defaultProviderLabel}）` },
+    ...PROVIDER_OPTIONS,
+  ];
 
   return (
-    <SettingsSection
-      title="AI API 設定"
-      description="オンライン AI サービスへの接続設定です。OpenAI 互換の API エンドポイントに対応しています。"
-    >
-      {!isElectron && (
-        <div className="rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-4">
-          <p className="text-sm text-yellow-600 dark:text-yellow-400">
-            Web 版では API キーがブラウザに公開されるため、AI API
-            機能はデスクトップ版のみご利用いただけます。
-          </p>
-        </div>
-      )}
-
-      <SettingsField
-        label="API エンドポイント"
-        description="独自の AI Gateway を使用する場合は URL を変更してください。空欄の場合は OpenAI に接続します。"
-        htmlFor="ai-base-url"
+    <div className="space-y-8">
+      <SettingsSection
+        title="AI API 設定"
+        description="オンライン AI サービスやローカル AI サーバーへの接続設定です。"
       >
-        <input
-          id="ai-base-url"
-          type="text"
-          value={aiBaseUrl}
-          onChange={(e) => onAiBaseUrlChange(e.target.value)}
-          placeholder="https://api.openai.com/v1"
+        {!isElectron && (
+          <div className="rounded-lg border border-yellow-500/30 bg-yellow-500/5 p-4">
+            <p className="text-sm text-yellow-600 dark:text-yellow-400">
+              Web 版では API キーがブラウザに公開されるため、AI API
+              機能はデスクトップ版のみご利用いただけます。
+            </p>
+          </div>
+        )}
+
+        <SelectField<AiProviderId>
+          label="既定のプロバイダー"
+          value={aiProvider}
+          options={PROVIDER_OPTIONS}
+          onChange={onAiProviderChange}
           disabled={!isElectron}
-          className={BASE_INPUT_CLASS}
         />
-      </SettingsField>
 
-      <SettingsField label="API キー" htmlFor="ai-api-key">
-        <div className="relative">
+        {FEATURES.map((feature) => (
+          <SelectField<AiProviderId | "default">
+            key={feature.id}
+            label={feature.label}
+            value={aiFeatureProviders[feature.id] ?? "default"}
+            options={featureOptions}
+            onChange={(value) =>
+              onAiFeatureProviderChange(feature.id, value === "default" ? null : value)
+            }
+            disabled={!isElectron}
+          />
+        ))}
+      </SettingsSection>
+
+      <SettingsSection
+        title="OpenAI 互換"
+        description="OpenAI のほか、LiteLLM などの AI Gateway や llama.cpp（llama-server）など OpenAI 互換 API に接続します。"
+      >
+        <CapabilityNote provider="openai-compatible" />
+
+        <SettingsField
+          label="API エンドポイント"
+          description="独自の AI Gateway を使用する場合は URL を変更してください。空欄の場合は OpenAI に接続します。"
+          htmlFor="ai-base-url"
+        >
           <input
+            id="ai-base-url"
+            type="text"
+            value={aiBaseUrl}
+            onChange={(e) => onAiBaseUrlChange(e.target.value)}
+            placeholder="https://api.openai.com/v1"
+            disabled={!isElectron}
+            className={BASE_INPUT_CLASS}
+          />
+        </SettingsField>
+
+        <SettingsField label="API キー" htmlFor="ai-api-key">
+          <ApiKeyInput
             id="ai-api-key"
-            type={showKey ? "text" : "password"}
             value={apiKey}
-            onChange={(e) => handleApiKeyChange(e.target.value)}
+            onChange={handleApiKeyChange}
             placeholder="sk-..."
             disabled={!isElectron}
-            className={`${BASE_INPUT_CLASS} pr-10`}
           />
-          <button
-            type="button"
-            onClick={() => setShowKey((prev) => !prev)}
-            className="absolute inset-y-0 right-0 flex items-center pr-3 text-foreground-tertiary hover:text-foreground-secondary"
-            aria-label={showKey ? "API キーを非表示" : "API キーを表示"}
-          >
-            {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-          </button>
-        </div>
-      </SettingsField>
-
-      <SettingsField
-        label="モデル ID"
-        description="使用する AI モデルの ID を指定します（例: gpt-4o, gpt-4o-mini, claude-sonnet-4-6）。"
-        htmlFor="ai-model-id"
+        </SettingsField>
+
+        <SettingsField
+          label="モデル ID"
+          description="使用する AI モデルの ID を指定します（例: gpt-4o, gpt-4o-mini）。"
+          htmlFor="ai-model-id"
+        >
+          <input
+            id="ai-model-id"
+            type="text"
+            value={aiModelId}
+            onChange={(e) => onAiModelIdChange(e.target.value)}
+            placeholder="gpt-4o-mini"
+            disabled={!isElectron}
+            className={BASE_INPUT_CLASS}
+          />
+        </SettingsField>
+
+        <ConnectionTest
+          config={{
+            provider: "openai-compatible",
+            apiKey,
+            baseUrl: aiBaseUrl || undefined,
+            modelId: aiModelId,
+          }}
+          disabled={!isElectron || !apiKey}
+        />
+      </SettingsSection>
+
+      <SettingsSection title="Anthropic" description="Anthropic の Messages API に接続します。">
+        <CapabilityNote provider="anthropic" />
+
+        <SettingsField label="API キー" htmlFor="ai-anthropic-api-key">
+          <ApiKeyInput
+            id="ai-anthropic-api-key"
+            value={anthropicApiKey}
+            onChange={handleAnthropicApiKeyChange}
+            placeholder="sk-ant-..."
+            disabled={!isElectron}
+          />
+        </SettingsField>
+
+        <SettingsField
+          label="モデル ID"
+          description="使用するモデルの ID を指定します（例: claude-sonnet-4-6）。"
+          htmlFor="ai-anthropic-model-id"
+        >
+          <input
+            id="ai-anthropic-model-id"
+            type="text"
+            value={aiAnthropicModelId}
+            onChange={(e) => onAiAnthropicModelIdChange(e.target.value)}
+            placeholder="claude-sonnet-4-6"
+            disabled={!isElectron}
+            className={BASE_INPUT_CLASS}
+          />
+        </SettingsField>
+
+        <ConnectionTest
+          config={{ provider: "anthropic", apiKey: anthropicApiKey, modelId: aiAnthropicModelId }}
+          disabled={!isElectron || !anthropicApiKey}
+        />
+      </SettingsSection>
+
+      <SettingsSection
+        title="Ollama（ローカル）"
+        description="この PC で動作する Ollama サーバーに接続します。API キーは不要で、本文は外部に送信されません。"
       >
-        <input
-          id="ai-model-id"
-          type="text"
-          value={aiModelId}
-          onChange={(e) => onAiModelIdChange(e.target.value)}
-          placeholder="gpt-4o-mini"
+        <CapabilityNote provider="ollama" />
+
+        <SettingsField
+          label="サーバー URL"
+          description="空欄の場合は http://localhost:11434 に接続します。接続は Ollama を使う機能があるときだけ許可され、URL やプロバイダーの変更はアプリの再起動後に有効になります。"
+          htmlFor="ai-ollama-base-url"
+        >
+          <input
+            id="ai-ollama-base-url"
+            type="text"
+            value={aiOllamaBaseUrl}
+            onChange={(e) => onAiOllamaBaseUrlChange(e.target.value)}
+            placeholder="http://localhost:11434"
+            disabled={!isElectron}
+            className={BASE_INPUT_CLASS}
+          />
+        </SettingsField>
+
+        <SettingsField
+          label="モデル名"
+          description="ollama pull で取得済みのモデル名を指定します（例: qwen2.5:7b）。"
+          htmlFor="ai-ollama-model-id"
+        >
+          <input
+            id="ai-ollama-model-id"
+            type="text"
+            value={aiOllamaModelId}
+            onChange={(e) => onAiOllamaModelIdChange(e.target.value)}
+            placeholder="qwen2.5:7b"
+            disabled={!isElectron}
+            className={BASE_INPUT_CLASS}
+          />
+        </SettingsField>
+
+        <ConnectionTest
+          config={{
+            provider: "ollama",
+            apiKey: "",
+            baseUrl: aiOllamaBaseUrl || undefined,
+            modelId: aiOllamaModelId,
+          }}
           disabled={!isElectron}
-          className={BASE_INPUT_CLASS}
         />
-      </SettingsField>
-
-      <div className="flex items-center gap-3">
-        <button
-          type="button"
-          onClick={() => void handleTestConnection()}
-          disabled={!isElectron || !apiKey || testStatus === "testing"}
-          className="inline-flex items-center gap-2 rounded-lg bg-accent px-4 py-2 text-sm font-medium text-accent-foreground transition-colors hover:bg-accent-hover disabled:opacity-50 disabled:cursor-not-allowed"
+      </SettingsSection>
+
+      <SettingsSection title="AI 校正">
+        <SettingsField
+          label="AI による校正指摘の判定"
+          description="校正で見つかった指摘を段落ごとに AI に送り、誤検出かどうかを判定します。判定理由は校正パネルに表示されます。本文が API に送信されます。"
+          htmlFor="ai-lint-validation"
+          inline
         >
-          {testStatus === "testing" && <Loader2 className="h-4 w-4 animate-spin" />}
-          接続テスト
-        </button>
-
-        {testStatus === "success" && (
-          <span className="inline-flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
-            <CheckCircle className="h-4 w-4" />
-            {testMessage}
-          </span>
-        )}
-        {testStatus === "error" && (
-          <span className="inline-flex items-center gap-1 text-sm text-red-600 dark:text-red-400">
-            <XCircle className="h-4 w-4" />
-            {testMessage}
-          </span>
-        )}
-      </div>
-    </SettingsSection>
+          <SettingsToggle
+            id="ai-lint-validation"
+            checked={aiLintValidation}
+            onChange={onAiLintValidationChange}
+            disabled={!isElectron}
+          />
+        </SettingsField>
+
+        <SelectField<FalsePositiveAction>
+          label="誤検出と判定された指摘"
+          value={aiLintValidationAction}
+          options={FALSE_POSITIVE_ACTION_OPTIONS}
+          onChange={onAiLintValidationActionChange}
+          disabled={!isElectron || !aiLintValidation}
+        />
+      </SettingsSection>
+    </div>
   );
 }
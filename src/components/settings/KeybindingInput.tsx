@@ -2,8 +2,9 @@
 
 import { useEffect, useRef, useState } from "react";
 
-import type { KeyBinding } from "@/lib/keymap/keymap-types";
-import { buildBindingFromEvent, formatBinding, isReservedBinding } from "@/lib/keymap/keymap-utils";
+import type { KeyBinding, KeyStroke } from "@/lib/keymap/keymap-types";
+import { MAX_CHORD_STROKES } from "@/lib/keymap/keymap-profiles";
+import { buildBindingFromEvent, formatStrokes, isReservedBinding } from "@/lib/keymap/keymap-utils";
 
 interface KeybindingInputProps {
   onRecord: (binding: KeyBinding) => void;
@@ -11,17 +12,24 @@ interface KeybindingInputProps {
 }
 
 /**
- * An input area that listens for a key combination and records it as a KeyBinding.
- * Press Escape to cancel.
+ * An input area that listens for key strokes and records them as a KeyBinding.
+ * Further strokes after the first make a chord ("Ctrl+K Ctrl+R"); press Enter
+ * to confirm, Escape to cancel. Recording stops by itself at MAX_CHORD_STROKES.
  */
 export default function KeybindingInput({ onRecord, onCancel }: KeybindingInputProps) {
-  const [preview, setPreview] = useState<string>("キーを押してください...");
+  const [strokes, setStrokes] = useState<KeyStroke[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
   const ref = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     ref.current?.focus();
   }, []);
 
+  const record = ([first, ...rest]: KeyStroke[]) => {
+    if (!first) return;
+    onRecord(rest.length > 0 ? { ...first, chord: rest } : first);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -31,24 +39,36 @@ export default function KeybindingInput({ onRecord, onCancel }: KeybindingInputP
       return;
     }
 
-    const binding = buildBindingFromEvent(e.nativeEvent);
-    if (!binding) return;
+    const hasModifier = e.ctrlKey || e.metaKey || e.altKey || e.shiftKey;
+    if (e.key === "Enter" && !hasModifier && strokes.length > 0) {
+      record(strokes);
+      return;
+    }
 
-    setPreview(formatBinding(binding));
+    const stroke = buildBindingFromEvent(e.nativeEvent);
+    if (!stroke) return;
 
-    // Require at least one modifier for non-Tab keys
-    if (binding.key !== "Tab" && binding.modifiers.length === 0) {
-      setPreview(`${formatBinding(binding)} (修飾キーが必要です)`);
-      return;
+    if (strokes.length === 0) {
+      // Require at least one modifier for non-Tab keys
+      if (stroke.key !== "Tab" && stroke.modifiers.length === 0) {
+        setNotice(`${formatStrokes([stroke])} (修飾キーが必要です)`);
+        return;
+      }
+
+      // Reject browser/OS reserved key combinations
+      if (isReservedBinding(stroke)) {
+        setNotice(`${formatStrokes([stroke])} (予約済みキーです)`);
+        return;
+      }
     }
 
-    // Reject browser/OS reserved key combinations
-    if (isReservedBinding(binding)) {
-      setPreview(`${formatBinding(binding)} (予約済みキーです)`);
+    const next = [...strokes, stroke];
+    if (next.length >= MAX_CHORD_STROKES) {
+      record(next);
       return;
     }
-
-    onRecord(binding);
+    setStrokes(next);
+    setNotice(null);
   };
 
   return (
@@ -58,7 +78,16 @@ export default function KeybindingInput({ onRecord, onCancel }: KeybindingInputP
       onKeyDown={handleKeyDown}
       className="px-3 py-2 rounded border border-accent bg-accent/10 text-sm text-foreground font-mono outline-none focus:ring-2 focus:ring-accent cursor-text min-w-[160px] text-center"
     >
-      {preview}
+      {strokes.length === 0 ? (
+        (notice ?? "キーを押してください...")
+      ) : (
+        <>
+          {formatStrokes(strokes)}
+          <span className="block text-[10px] font-sans text-foreground-tertiary">
+            Enter で確定・続けて押すとコード
+          </span>
+        </>
+      )}
     </div>
   );
 }
@@ -1,14 +1,18 @@
 "use client";
 
-import { useState, useMemo } from "react";
-import { RotateCcw, Edit2 } from "lucide-react";
+import { useState, useMemo, useRef } from "react";
+import { RotateCcw, Edit2, Download, Upload, Trash2 } from "lucide-react";
 import clsx from "clsx";
 
 import type { CommandId } from "@/lib/keymap/command-ids";
 import type { KeyBinding, ShortcutCategory } from "@/lib/keymap/keymap-types";
 import { ALL_COMMAND_IDS } from "@/lib/keymap/command-ids";
 import { SHORTCUT_REGISTRY } from "@/lib/keymap/shortcut-registry";
-import { formatBinding } from "@/lib/keymap/keymap-utils";
+import { findBindingConflicts, formatBinding } from "@/lib/keymap/keymap-utils";
+import { parseKeymapProfile, serializeKeymapProfile } from "@/lib/keymap/keymap-profiles";
+import { saveBlobFile } from "@/lib/export/save-blob-file";
+import { notificationManager } from "@/lib/services/notification-manager";
+import { isElectronRenderer } from "@/lib/utils/runtime-env";
 import { useKeymap } from "@/contexts/KeymapContext";
 import KeybindingInput from "./KeybindingInput";
 
@@ -40,38 +44,23 @@ export default function KeymapSettings() {
     setOverrideWithConflictResolution,
     resetOverride,
     resetAll,
+    profiles,
+    activeProfileId,
+    isActiveProfileModified,
+    applyProfile,
+    importProfile,
+    deleteProfile,
   } = useKeymap();
   const [recording, setRecording] = useState<CommandId | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  /** Find all commands that bind to a given binding string (for conflict detection) */
-  const bindingConflicts = useMemo(() => {
-    const bindingKey = (b: KeyBinding | null): string => {
-      if (!b) return "";
-      return `${b.modifiers.sort().join("+")}_${b.key.toLowerCase()}`;
-    };
+  /** Commands whose bindings collide, exactly or as a chord prefix */
+  const bindingConflicts = useMemo(
+    () => findBindingConflicts(effectiveBindings),
+    [effectiveBindings],
+  );
 
-    const keyToCommands = new Map<string, CommandId[]>();
-    for (const id of ALL_COMMAND_IDS) {
-      const b = effectiveBindings[id];
-      const k = bindingKey(b);
-      if (!k) continue;
-      const existing = keyToCommands.get(k) ?? [];
-      keyToCommands.set(k, [...existing, id]);
-    }
-
-    const conflicts = new Map<CommandId, CommandId[]>();
-    for (const [, ids] of keyToCommands) {
-      if (ids.length > 1) {
-        for (const id of ids) {
-          conflicts.set(
-            id,
-            ids.filter((x) => x !== id),
-          );
-        }
-      }
-    }
-    return conflicts;
-  }, [effectiveBindings]);
+  const activeProfile = profiles.find((p) => p.id === activeProfileId) ?? null;
 
   const grouped = useMemo(() => {
     const map = new Map<ShortcutCategory, CommandId[]>();
@@ -98,6 +87,31 @@ export default function KeymapSettings() {
     await resetAll();
   };
 
+  const handleExportProfile = async () => {
+    const name = activeProfile && !isActiveProfileModified ? activeProfile.name : "カスタム";
+    const json = serializeKeymapProfile({ id: "", name, overrides });
+    const blob = new Blob([json], { type: "application/json" });
+    await saveBlobFile(blob, `illusions-keymap-${name}.json`, isElectronRenderer());
+  };
+
+  const handleImportProfile = async (file: File) => {
+    let raw: unknown = null;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      // Not JSON — reported below like a malformed profile
+    }
+    const profile = parseKeymapProfile(raw, crypto.randomUUID());
+    if (!profile) {
+      notificationManager.error("キーマッププロファイルとして読み込めるデータがありませんでした。");
+      return;
+    }
+    await importProfile(profile);
+    notificationManager.success(
+      `キーマッププロファイル「${profile.name}」を読み込んで適用しました。`,
+    );
+  };
+
   const isOverridden = (id: CommandId) => id in overrides;
 
   return (
@@ -105,7 +119,8 @@ export default function KeymapSettings() {
       {/* Header with reset all button */}
       <div className="flex items-center justify-between">
         <p className="text-sm text-foreground-secondary">
-          各コマンドのキーバインドを変更できます。「変更」ボタンを押してキーを入力してください。
+          各コマンドのキーバインドを変更できます。「変更」ボタンを押してキーを入力してください。続けて押したキーはコード（例:
+          Ctrl+K Ctrl+R）になります。
         </p>
         <button
           type="button"
@@ -117,6 +132,79 @@ export default function KeymapSettings() {
         </button>
       </div>
 
+      {/* Profiles */}
+      <section>
+        <h3 className="text-xs font-semibold text-foreground-tertiary uppercase tracking-wider mb-2">
+          プロファイル
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="キーマッププロファイル"
+            value={activeProfileId ?? ""}
+            onChange={(e) => void applyProfile(e.target.value)}
+            className="flex-1 px-3 py-1.5 text-sm border border-border-secondary rounded bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {activeProfile === null && <option value="">カスタム</option>}
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          {activeProfile && isActiveProfileModified && (
+            <button
+              type="button"
+              onClick={() => void applyProfile(activeProfile.id)}
+              className="px-3 py-1.5 text-xs rounded border border-border hover:bg-hover transition-colors text-foreground-secondary"
+            >
+              再適用
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => void handleExportProfile()}
+            className="p-1.5 rounded hover:bg-hover transition-colors text-foreground-secondary hover:text-foreground"
+            title="現在のキーバインドを書き出す"
+          >
+            <Download className="w-3.5 h-3.5" />
+          </button>
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            className="p-1.5 rounded hover:bg-hover transition-colors text-foreground-secondary hover:text-foreground"
+            title="プロファイルを読み込む"
+          >
+            <Upload className="w-3.5 h-3.5" />
+          </button>
+          {activeProfile && !activeProfile.builtin && (
+            <button
+              type="button"
+              onClick={() => void deleteProfile(activeProfile.id)}
+              className="p-1.5 rounded hover:bg-hover transition-colors text-foreground-secondary hover:text-destructive"
+              title="このプロファイルを削除"
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleImportProfile(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        <p className="mt-1 text-xs text-foreground-tertiary">
+          {activeProfile?.description ??
+            "プロファイルを選ぶと、現在のキーバインドが置き換わります。"}
+          {isActiveProfileModified && "（適用後に変更あり）"}
+        </p>
+      </section>
+
       {/* Commands grouped by category */}
       {CATEGORY_ORDER.map((cat) => {
         const ids = grouped.get(cat) ?? [];
@@ -152,7 +240,10 @@ export default function KeymapSettings() {
                     {/* Conflict warning */}
                     {conflictWith && conflictWith.length > 0 && (
                       <span className="text-xs text-destructive">
-                        「{SHORTCUT_REGISTRY[conflictWith[0]].label}」と競合しています
+                        「{SHORTCUT_REGISTRY[conflictWith[0].id].label}」
+                        {conflictWith[0].overlap === "exact"
+                          ? "と競合しています"
+                          : "と先頭のキーが重なっています"}
                       </span>
                     )}
 
@@ -7,6 +7,7 @@ import clsx from "clsx";
 import type { Severity } from "@/lib/linting/types";
 import type { CorrectionConfig } from "@/lib/linting/correction-config";
 import type { ModeRuleMetaInput } from "@/lib/linting/mode-rule-configs";
+import { NOVEL_RULES_META } from "@/lib/linting/rules";
 import { isElectronRenderer } from "@/lib/utils/runtime-env";
 import { useIgnoredCorrectionsContext } from "@/contexts/IgnoredCorrectionsContext";
 
@@ -60,15 +61,18 @@ function LintingSettingsInner({
 
   // Flatten every loaded rule's metadata so the mode selector can derive
   // enabled/disabled from each rule's applicableModes (#1809/#1810 regression).
+  // The built-in novel pack comes first so external rules cannot shadow it.
   const loadedRules = useMemo<ModeRuleMetaInput[]>(
-    () =>
-      rulesetStatus.rulesets.flatMap((ruleset) =>
+    () => [
+      ...NOVEL_RULES_META,
+      ...rulesetStatus.rulesets.flatMap((ruleset) =>
         ruleset.rules.map((rule) => ({
           ruleId: rule.ruleId,
           applicableModes: rule.applicableModes,
           defaultConfig: rule.defaultConfig,
         })),
       ),
+    ],
     [rulesetStatus.rulesets],
   );
 
@@ -1,14 +1,15 @@
 "use client";
 
 /**
- * DiffTabContext — provides diff tab state lookup and conflict resolution actions
- * to dockview panel components that cannot access the tab manager directly.
+ * DiffTabContext — provides diff and compare tab state lookup and conflict
+ * resolution actions to dockview panel components that cannot access the tab
+ * manager directly.
  *
  * Populated by app/page.tsx; consumed by lib/dockview/dockview-components.tsx.
  */
 
 import { createContext, useContext } from "react";
-import type { DiffTabState } from "@/lib/tab-manager/tab-types";
+import type { CompareTabState, DiffTabState } from "@/lib/tab-manager/tab-types";
 
 // ---------------------------------------------------------------------------
 // Context value
@@ -31,6 +32,8 @@ export interface DiffTabContextValue {
   keepEditorContent: (diffTabId: string) => void;
   /** Close only the diff tab, leaving the source tab conflict state intact. */
   closeDiffTab: (diffTabId: string) => void;
+  /** Look up a compare tab by its own tab id */
+  getCompareTabById: (tabId: string) => CompareTabState | undefined;
 }
 
 // ---------------------------------------------------------------------------
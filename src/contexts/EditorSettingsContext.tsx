@@ -118,9 +118,24 @@ export function useAiApiSettings() {
       // aiApiKey is intentionally omitted — read AppState directly in the settings tab
       aiBaseUrl: settings.aiBaseUrl,
       aiModelId: settings.aiModelId,
+      aiProvider: settings.aiProvider,
+      aiFeatureProviders: settings.aiFeatureProviders,
+      aiAnthropicModelId: settings.aiAnthropicModelId,
+      aiOllamaBaseUrl: settings.aiOllamaBaseUrl,
+      aiOllamaModelId: settings.aiOllamaModelId,
+      aiLintValidation: settings.aiLintValidation,
+      aiLintValidationAction: settings.aiLintValidationAction,
       onAiApiKeyChange: handlers.handleAiApiKeyChange,
       onAiBaseUrlChange: handlers.handleAiBaseUrlChange,
       onAiModelIdChange: handlers.handleAiModelIdChange,
+      onAiProviderChange: handlers.handleAiProviderChange,
+      onAiFeatureProviderChange: handlers.handleAiFeatureProviderChange,
+      onAiAnthropicApiKeyChange: handlers.handleAiAnthropicApiKeyChange,
+      onAiAnthropicModelIdChange: handlers.handleAiAnthropicModelIdChange,
+      onAiOllamaBaseUrlChange: handlers.handleAiOllamaBaseUrlChange,
+      onAiOllamaModelIdChange: handlers.handleAiOllamaModelIdChange,
+      onAiLintValidationChange: handlers.handleAiLintValidationChange,
+      onAiLintValidationActionChange: handlers.handleAiLintValidationActionChange,
     }),
     [settings, handlers],
   );
@@ -3,10 +3,16 @@
 import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
 
 import type { CommandId } from "@/lib/keymap/command-ids";
-import type { KeyBinding, KeymapOverrides } from "@/lib/keymap/keymap-types";
-import { loadKeymapOverrides, saveKeymapOverrides } from "@/lib/keymap/keymap-storage";
+import type { KeyBinding, KeymapOverrides, KeymapProfile } from "@/lib/keymap/keymap-types";
+import {
+  loadKeymapOverrides,
+  loadKeymapProfiles,
+  saveKeymapOverrides,
+  saveKeymapProfiles,
+} from "@/lib/keymap/keymap-storage";
+import { BUILTIN_KEYMAP_PROFILES } from "@/lib/keymap/keymap-profiles";
 import { SHORTCUT_REGISTRY } from "@/lib/keymap/shortcut-registry";
-import { bindingsMatch } from "@/lib/keymap/keymap-utils";
+import { bindingsMatch, bindingsOverlap } from "@/lib/keymap/keymap-utils";
 
 /**
  * The effective binding for a command: either the user override or the default.
@@ -26,6 +32,18 @@ export interface KeymapContextValue {
   resetOverride: (id: CommandId) => Promise<void>;
   /** Reset all commands to their defaults */
   resetAll: () => Promise<void>;
+  /** Built-in profiles followed by imported ones */
+  profiles: KeymapProfile[];
+  /** Id of the last applied profile, or null if none has been applied */
+  activeProfileId: string | null;
+  /** Whether bindings were changed after the active profile was applied */
+  isActiveProfileModified: boolean;
+  /** Replace all overrides with a profile's */
+  applyProfile: (id: string) => Promise<void>;
+  /** Add (or replace by id) an imported profile and apply it */
+  importProfile: (profile: KeymapProfile) => Promise<void>;
+  /** Remove an imported profile */
+  deleteProfile: (id: string) => Promise<void>;
 }
 
 const KeymapContext = createContext<KeymapContextValue | null>(null);
@@ -59,15 +77,8 @@ function mergeBindings(defaults: EffectiveBindings, overrides: KeymapOverrides):
 export function KeymapProvider({ children }: KeymapProviderProps): React.JSX.Element {
   const defaultBindings = useMemo(() => buildDefaultBindings(), []);
   const [overrides, setOverrides] = useState<KeymapOverrides>({});
-
-  useEffect(() => {
-    void loadKeymapOverrides().then(setOverrides);
-  }, []);
-
-  const effectiveBindings = useMemo(
-    () => mergeBindings(defaultBindings, overrides),
-    [defaultBindings, overrides],
-  );
+  const [importedProfiles, setImportedProfiles] = useState<KeymapProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
 
   /** Notifies Electron main process to rebuild native menu with new accelerators */
   const syncElectronMenu = useCallback(async (next: KeymapOverrides) => {
@@ -81,6 +92,29 @@ export function KeymapProvider({ children }: KeymapProviderProps): React.JSX.Ele
     }
   }, []);
 
+  useEffect(() => {
+    void loadKeymapOverrides().then((loaded) => {
+      setOverrides(loaded);
+      // The main process keeps overrides per window in memory only, so a new
+      // window's native menu shows defaults until told otherwise.
+      if (Object.keys(loaded).length > 0) void syncElectronMenu(loaded);
+    });
+    void loadKeymapProfiles().then(({ profiles, activeProfileId: loadedId }) => {
+      setImportedProfiles(profiles);
+      setActiveProfileId(loadedId);
+    });
+  }, [syncElectronMenu]);
+
+  const effectiveBindings = useMemo(
+    () => mergeBindings(defaultBindings, overrides),
+    [defaultBindings, overrides],
+  );
+
+  const profiles = useMemo(
+    () => [...BUILTIN_KEYMAP_PROFILES, ...importedProfiles],
+    [importedProfiles],
+  );
+
   const setOverride = useCallback(
     async (id: CommandId, binding: KeyBinding | null) => {
       const next: KeymapOverrides = { ...overrides, [id]: binding };
@@ -94,14 +128,15 @@ export function KeymapProvider({ children }: KeymapProviderProps): React.JSX.Ele
   const setOverrideWithConflictResolution = useCallback(
     async (id: CommandId, binding: KeyBinding | null) => {
       const next: KeymapOverrides = { ...overrides };
-      // Unbind any commands that already use this binding
+      // Unbind any commands that already use this binding, or that share
+      // its first strokes with a chord (one of the two could never be typed)
       if (binding) {
         const merged = mergeBindings(defaultBindings, overrides);
         for (const [cmdId, existing] of Object.entries(merged) as Array<
           [CommandId, KeyBinding | null]
         >) {
           if (cmdId === id || !existing) continue;
-          if (bindingsMatch(existing, binding)) {
+          if (bindingsOverlap(existing, binding)) {
             next[cmdId] = null;
           }
         }
@@ -131,6 +166,57 @@ export function KeymapProvider({ children }: KeymapProviderProps): React.JSX.Ele
     await syncElectronMenu({});
   }, [syncElectronMenu]);
 
+  const applyOverridesOf = useCallback(
+    async (profile: KeymapProfile, nextImported: KeymapProfile[]) => {
+      setOverrides(profile.overrides);
+      setImportedProfiles(nextImported);
+      setActiveProfileId(profile.id);
+      await saveKeymapOverrides(profile.overrides);
+      await saveKeymapProfiles(nextImported, profile.id);
+      await syncElectronMenu(profile.overrides);
+    },
+    [syncElectronMenu],
+  );
+
+  const applyProfile = useCallback(
+    async (id: string) => {
+      const profile = profiles.find((p) => p.id === id);
+      if (!profile) return;
+      await applyOverridesOf(profile, importedProfiles);
+    },
+    [profiles, importedProfiles, applyOverridesOf],
+  );
+
+  const importProfile = useCallback(
+    async (profile: KeymapProfile) => {
+      const nextImported = [...importedProfiles.filter((p) => p.id !== profile.id), profile];
+      await applyOverridesOf(profile, nextImported);
+    },
+    [importedProfiles, applyOverridesOf],
+  );
+
+  const deleteProfile = useCallback(
+    async (id: string) => {
+      const nextImported = importedProfiles.filter((p) => p.id !== id);
+      const nextActiveId = activeProfileId === id ? null : activeProfileId;
+      setImportedProfiles(nextImported);
+      setActiveProfileId(nextActiveId);
+      await saveKeymapProfiles(nextImported, nextActiveId);
+    },
+    [importedProfiles, activeProfileId],
+  );
+
+  const isActiveProfileModified = useMemo(() => {
+    const active = profiles.find((p) => p.id === activeProfileId);
+    if (!active) return false;
+    const applied = mergeBindings(defaultBindings, active.overrides);
+    return (Object.keys(applied) as CommandId[]).some((id) => {
+      const a = applied[id];
+      const b = effectiveBindings[id];
+      return a === null || b === null ? a !== b : !bindingsMatch(a, b);
+    });
+  }, [profiles, activeProfileId, defaultBindings, effectiveBindings]);
+
   const value = useMemo<KeymapContextValue>(
     () => ({
       effectiveBindings,
@@ -139,6 +225,12 @@ export function KeymapProvider({ children }: KeymapProviderProps): React.JSX.Ele
       setOverrideWithConflictResolution,
       resetOverride,
       resetAll,
+      profiles,
+      activeProfileId,
+      isActiveProfileModified,
+      applyProfile,
+      importProfile,
+      deleteProfile,
     }),
     [
       effectiveBindings,
@@ -147,6 +239,12 @@ export function KeymapProvider({ children }: KeymapProviderProps): React.JSX.Ele
       setOverrideWithConflictResolution,
       resetOverride,
       resetAll,
+      profiles,
+      activeProfileId,
+      isActiveProfileModified,
+      applyProfile,
+      importProfile,
+      deleteProfile,
     ],
   );
 
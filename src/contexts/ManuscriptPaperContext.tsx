@@ -0,0 +1,50 @@
+"use client";
+
+/**
+ * ManuscriptPaperContext — provides the document of an editor tab to the
+ * 原稿用紙 dockview panel, which cannot access the tab manager directly.
+ *
+ * Populated by app/page.tsx; consumed by lib/dockview/dockview-components.tsx.
+ */
+
+import { createContext, useContext } from "react";
+import type { SupportedFileExtension } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Context value
+// ---------------------------------------------------------------------------
+
+/** The document a manuscript paper tab lays out */
+export interface ManuscriptSourceDocument {
+  fileName: string;
+  /** Current (possibly unsaved) content of the editor tab */
+  content: string;
+  fileType: SupportedFileExtension;
+}
+
+export interface ManuscriptPaperContextValue {
+  /** Look up the document of an editor tab; null once that tab has been closed */
+  getSourceDocument: (sourceTabId: string) => ManuscriptSourceDocument | null;
+}
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+const ManuscriptPaperContext = createContext<ManuscriptPaperContextValue | null>(null);
+
+export { ManuscriptPaperContext };
+
+/**
+ * Returns the manuscript paper context value.
+ * Throws if used outside of a ManuscriptPaperContext.Provider.
+ */
+export function useManuscriptPaperContext(): ManuscriptPaperContextValue {
+  const ctx = useContext(ManuscriptPaperContext);
+  if (!ctx) {
+    throw new Error(
+      "useManuscriptPaperContext must be used inside ManuscriptPaperContext.Provider",
+    );
+  }
+  return ctx;
+}
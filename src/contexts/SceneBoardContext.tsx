@@ -0,0 +1,46 @@
+"use client";
+
+/**
+ * SceneBoardContext — provides the active manuscript and scene navigation to the
+ * シーンボード dockview panel, which cannot access the tab manager directly.
+ *
+ * Populated by app/page.tsx; consumed by lib/dockview/dockview-components.tsx.
+ */
+
+import { createContext, useContext } from "react";
+
+// ---------------------------------------------------------------------------
+// Context value
+// ---------------------------------------------------------------------------
+
+export interface SceneBoardContextValue {
+  /** Root-relative path of the active project file, or null (no file / unsaved) */
+  activeFilePath: string | null;
+  /** Content of the active editor, for creating scenes from its headings */
+  activeContent: string;
+  /**
+   * Open the scene's file and scroll to its heading once the editor has
+   * rendered it. Without an anchor only the file is opened.
+   */
+  openScene: (filePath: string, headingAnchor?: string) => void;
+}
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+const SceneBoardContext = createContext<SceneBoardContextValue | null>(null);
+
+export { SceneBoardContext };
+
+/**
+ * Returns the scene board context value.
+ * Throws if used outside of a SceneBoardContext.Provider.
+ */
+export function useSceneBoardContext(): SceneBoardContextValue {
+  const ctx = useContext(SceneBoardContext);
+  if (!ctx) {
+    throw new Error("useSceneBoardContext must be used inside SceneBoardContext.Provider");
+  }
+  return ctx;
+}
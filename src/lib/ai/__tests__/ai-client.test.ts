@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import {
+  configureAiClient,
+  createAiClient,
+  getAiClient,
+  resetAiClient,
+  resolveAiProvider,
+  setAiRouting,
+} from "../ai-client";
+import { MockAiProvider } from "../providers";
+import type { LintIssue } from "@/lib/linting/types";
+
+function issue(ruleId: string, from: number, to: number): LintIssue {
+  return {
+    ruleId,
+    severity: "warning",
+    message: `${ruleId} message`,
+    messageJa: `${ruleId} の指摘`,
+    from,
+    to,
+  };
+}
+
+describe("AiClient over a provider", () => {
+  it("maps validation results to 0-based issue indices and drops out-of-range ones", async () => {
+    const provider = new MockAiProvider({
+      respond: () =>
+        JSON.stringify({
+          results: [
+            { index: 2, isGenuine: false, reasoning: "意図的な表現" },
+            { index: 5, isGenuine: true, reasoning: "範囲外" },
+          ],
+        }),
+    });
+    const client = createAiClient(provider);
+
+    const results = await client.validateLintIssues("テキスト", [
+      issue("a", 0, 1),
+      issue("b", 1, 2),
+    ]);
+
+    expect(results).toEqual([
+      { issueIndex: 1, issueRuleId: "b", isGenuine: false, reasoning: "意図的な表現" },
+    ]);
+    expect(provider.requests[0].json).toBe(true);
+  });
+
+  it("asks for bare JSON and tolerates surrounding text when the provider has no JSON mode", async () => {
+    const provider = new MockAiProvider({
+      capabilities: { jsonMode: false },
+      respond: () =>
+        '```json\n{ "characters": [{ "name": "葵", "aliases": [], "description": "主人公" }] }\n```',
+    });
+    const client = createAiClient(provider);
+
+    const characters = await client.extractCharacters("葵は歩いた。");
+
+    expect(characters).toEqual([{ name: "葵", aliases: [], description: "主人公" }]);
+    expect(provider.requests[0].messages[0].content).toContain("JSON object only");
+  });
+
+  it("rejects rewrites longer than the provider's context allows", async () => {
+    const client = createAiClient(new MockAiProvider({ capabilities: { contextLength: 10 } }));
+
+    await expect(client.suggestRewrite("あ".repeat(6))).rejects.toThrow("テキストが長すぎます");
+  });
+
+  it("returns a well-formed rewrite and rejects malformed ones", async () => {
+    let reply: unknown = { original: "別の文", suggestion: "歩いた。", explanation: "簡潔に" };
+    const client = createAiClient(new MockAiProvider({ respond: () => JSON.stringify(reply) }));
+
+    expect(await client.suggestRewrite("歩いたのだった。")).toEqual({
+      original: "歩いたのだった。",
+      suggestion: "歩いた。",
+      explanation: "簡潔に",
+    });
+
+    reply = { suggestion: ["歩いた。"], explanation: "簡潔に" };
+    await expect(client.suggestRewrite("歩いたのだった。")).rejects.toThrow(
+      "AIの応答を解釈できませんでした",
+    );
+  });
+
+  it("streams deltas, or one complete reply when the provider cannot stream", async () => {
+    const collect = async (iterable: AsyncIterable<string>): Promise<string[]> => {
+      const chunks: string[] = [];
+      for await (const chunk of iterable) chunks.push(chunk);
+      return chunks;
+    };
+    const messages = [{ role: "user" as const, content: "こんにちは、世界" }];
+
+    const streaming = createAiClient(new MockAiProvider());
+    expect(await collect(streaming.streamChat(messages))).toEqual(["こんにち", "は、世界"]);
+
+    const buffered = createAiClient(new MockAiProvider({ capabilities: { streaming: false } }));
+    expect(await collect(buffered.streamChat(messages))).toEqual(["こんにちは、世界"]);
+  });
+});
+
+describe("provider routing", () => {
+  afterEach(() => {
+    resetAiClient();
+  });
+
+  it("routes features to their provider and falls back to the default", () => {
+    setAiRouting({ defaultProvider: "anthropic", features: { rewrite: "ollama" } });
+
+    expect(resolveAiProvider()).toBe("anthropic");
+    expect(resolveAiProvider("rewrite")).toBe("ollama");
+    expect(resolveAiProvider("lint-validation")).toBe("anthropic");
+  });
+
+  it("returns an unconfigured client until the routed provider is ready", () => {
+    setAiRouting({ defaultProvider: "openai-compatible", features: { rewrite: "ollama" } });
+    configureAiClient({ provider: "openai-compatible", apiKey: "", modelId: "gpt-4o-mini" });
+    configureAiClient({ provider: "ollama", apiKey: "", modelId: "qwen2.5:7b" });
+
+    expect(getAiClient("lint-validation").isConfigured()).toBe(false);
+    expect(getAiClient("rewrite").isConfigured()).toBe(true);
+
+    configureAiClient({ provider: "openai-compatible", apiKey: "sk-test", modelId: "gpt-4o-mini" });
+    expect(getAiClient("lint-validation").isConfigured()).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ASSISTANT_SYSTEM_PROMPT,
+  buildChatRequest,
+  formatCharacterSheets,
+  splitReplySegments,
+} from "../assistant-chat";
+import type { AiChatMessage } from "../types";
+
+/** Context length whose input budget leaves `room` tokens after the prompt and question. */
+function contextFor(room: number, question: string): number {
+  return Math.ceil((ASSISTANT_SYSTEM_PROMPT.length + question.length + room) / 0.75);
+}
+
+describe("buildChatRequest", () => {
+  it("収まる場合は添付と履歴をすべて送る", () => {
+    const history: AiChatMessage[] = [
+      { role: "user", content: "主人公の名前は？" },
+      { role: "assistant", content: "太郎です。" },
+    ];
+    const request = buildChatRequest({
+      history,
+      question: "この章の山場は？",
+      attachments: [{ kind: "chapter", label: "現在の章：第一章", content: "本文" }],
+      contextLength: 32_768,
+    });
+
+    expect(request.messages.map((m) => m.role)).toEqual([
+      "system",
+      "system",
+      "user",
+      "assistant",
+      "user",
+    ]);
+    expect(request.messages[1].content).toContain("【現在の章：第一章】\n本文");
+    expect(request.messages.at(-1)?.content).toBe("この章の山場は？");
+    expect(request.droppedMessages).toBe(0);
+    expect(request.truncatedAttachments).toEqual([]);
+  });
+
+  it("予算を超える添付は末尾を切り詰める", () => {
+    const question = "要約して";
+    const request = buildChatRequest({
+      history: [],
+      question,
+      attachments: [{ kind: "selection", label: "選択範囲", content: "あ".repeat(5000) }],
+      contextLength: contextFor(1000, question),
+    });
+
+    expect(request.truncatedAttachments).toEqual(["選択範囲"]);
+    expect(request.messages[1].content).toContain("…（以下省略）");
+    expect(request.messages[1].content.length).toBeLessThan(1000);
+  });
+
+  it("古い会話から省き、アシスタントの返信から始めない", () => {
+    const question = "続きは？";
+    const history: AiChatMessage[] = [
+      { role: "user", content: "一".repeat(300) },
+      { role: "assistant", content: "二".repeat(300) },
+      { role: "user", content: "三".repeat(300) },
+      { role: "assistant", content: "四".repeat(300) },
+    ];
+    const request = buildChatRequest({
+      history,
+      question,
+      attachments: [],
+      contextLength: contextFor(700, question),
+    });
+
+    // Two newest fit (600 ≤ 700); the third would not, so only the latest exchange is kept.
+    expect(request.messages.slice(1).map((m) => m.content[0])).toEqual(["三", "四", "続"]);
+    expect(request.droppedMessages).toBe(2);
+  });
+
+  it("質問だけで収まらない場合はエラー", () => {
+    expect(() =>
+      buildChatRequest({
+        history: [],
+        question: "長".repeat(2000),
+        attachments: [],
+        contextLength: 1000,
+      }),
+    ).toThrow("質問が長すぎます");
+  });
+});
+
+describe("splitReplySegments", () => {
+  it("prose ブロックと説明文を分ける", () => {
+    const reply =
+      "書き出し案です。\n```prose\n雨が降っていた。\n傘はなかった。\n```\nいかがでしょう。";
+    expect(splitReplySegments(reply)).toEqual([
+      { type: "text", text: "書き出し案です。" },
+      { type: "prose", text: "雨が降っていた。\n傘はなかった。" },
+      { type: "text", text: "いかがでしょう。" },
+    ]);
+  });
+
+  it("閉じていない prose ブロック（ストリーミング中）は末尾まで", () => {
+    expect(splitReplySegments("案：\n```prose\n雨が")).toEqual([
+      { type: "text", text: "案：" },
+      { type: "prose", text: "雨が" },
+    ]);
+  });
+
+  it("prose 以外のコードブロックは説明文のまま", () => {
+    expect(splitReplySegments("```\ncode\n```")).toEqual([
+      { type: "text", text: "```\ncode\n```" },
+    ]);
+  });
+});
+
+describe("formatCharacterSheets", () => {
+  it("別名つきで1人1行にする", () => {
+    expect(
+      formatCharacterSheets([
+        { name: "太郎", aliases: ["タロ"], description: "主人公" },
+        { name: "花子", aliases: [], description: "幼なじみ" },
+      ]),
+    ).toBe("- 太郎（別名: タロ）: 主人公\n- 花子: 幼なじみ");
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { AnthropicProvider, OllamaProvider, isAiProviderReady } from "../providers";
+
+const originalFetch = globalThis.fetch;
+
+function streamResponse(lines: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split across chunk boundaries to exercise line buffering.
+      const text = lines.join("\n");
+      const mid = Math.floor(text.length / 2);
+      controller.enqueue(encoder.encode(text.slice(0, mid)));
+      controller.enqueue(encoder.encode(text.slice(mid)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+async function collect(iterable: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of iterable) chunks.push(chunk);
+  return chunks;
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe("AnthropicProvider", () => {
+  const provider = new AnthropicProvider({
+    provider: "anthropic",
+    apiKey: "sk-ant-test",
+    modelId: "claude-sonnet-4-6",
+  });
+
+  it("sends system prompts as the top-level field and joins text blocks", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          content: [
+            { type: "text", text: '{"ok":' },
+            { type: "text", text: "true}" },
+          ],
+        }),
+        { status: 200 },
+      ),
+    );
+    globalThis.fetch = fetchMock;
+
+    const reply = await provider.complete({
+      json: true,
+      messages: [
+        { role: "system", content: "指示" },
+        { role: "user", content: "本文" },
+      ],
+    });
+
+    expect(reply).toBe('{"ok":true}');
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("https://api.anthropic.com/v1/messages");
+    expect((init.headers as Record<string, string>)["x-api-key"]).toBe("sk-ant-test");
+    const body = JSON.parse(init.body as string) as Record<string, unknown>;
+    expect(body.system).toBe("指示");
+    expect(body.messages).toEqual([{ role: "user", content: "本文" }]);
+  });
+
+  it("yields text deltas from the event stream", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        streamResponse([
+          "event: content_block_delta",
+          'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"吾輩は"}}',
+          "",
+          'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"猫である"}}',
+          'data: {"type":"message_stop"}',
+          "",
+        ]),
+      );
+
+    expect(await collect(provider.stream([{ role: "user", content: "続けて" }]))).toEqual([
+      "吾輩は",
+      "猫である",
+    ]);
+  });
+
+  it("throws on an error event in the middle of the stream", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        streamResponse([
+          'data: {"type":"content_block_delta","delta":{"type":"text_delta","text":"吾輩は"}}',
+          "event: error",
+          'data: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}',
+          "",
+        ]),
+      );
+
+    const received: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of provider.stream([{ role: "user", content: "続けて" }])) {
+          received.push(chunk);
+        }
+      })(),
+    ).rejects.toThrow("Anthropic API overloaded_error: Overloaded");
+    expect(received).toEqual(["吾輩は"]);
+  });
+
+  it("includes the error body in the thrown message", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(new Response('{"error":"invalid x-api-key"}', { status: 401 }));
+
+    await expect(provider.listModels()).rejects.toThrow("Anthropic API 401");
+  });
+});
+
+describe("OllamaProvider", () => {
+  const provider = new OllamaProvider({
+    provider: "ollama",
+    apiKey: "",
+    baseUrl: "http://localhost:11434/",
+    modelId: "qwen2.5:7b",
+  });
+
+  it("requests JSON format and the context window", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValue(
+        new Response(JSON.stringify({ message: { content: "{}" }, done: true }), { status: 200 }),
+      );
+    globalThis.fetch = fetchMock;
+
+    await provider.complete({ json: true, messages: [{ role: "user", content: "本文" }] });
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe("http://localhost:11434/api/chat");
+    const body = JSON.parse(init.body as string) as Record<string, unknown>;
+    expect(body).toMatchObject({ format: "json", stream: false, options: { num_ctx: 8192 } });
+  });
+
+  it("yields message content from NDJSON chunks", async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValue(
+        streamResponse([
+          JSON.stringify({ message: { content: "春は" }, done: false }),
+          JSON.stringify({ message: { content: "あけぼの" }, done: false }),
+          JSON.stringify({ message: { content: "" }, done: true }),
+        ]),
+      );
+
+    expect(await collect(provider.stream([{ role: "user", content: "続けて" }]))).toEqual([
+      "春は",
+      "あけぼの",
+    ]);
+  });
+});
+
+describe("isAiProviderReady", () => {
+  it("requires an API key only for hosted providers", () => {
+    expect(isAiProviderReady({ provider: "anthropic", apiKey: "", modelId: "m" })).toBe(false);
+    expect(isAiProviderReady({ provider: "ollama", apiKey: "", modelId: "m" })).toBe(true);
+    expect(isAiProviderReady({ provider: "ollama", apiKey: "", modelId: " " })).toBe(false);
+    expect(isAiProviderReady({ provider: "mock", apiKey: "", modelId: "" })).toBe(true);
+  });
+});
@@ -1,97 +1,131 @@
 /**
- * AI Client — singleton factory + OpenAI SDK wrapper.
+ * AI Client — singleton factory + domain methods over a provider adapter.
  *
  * Follows the same pattern as getNlpClient() in lib/nlp-client/nlp-client.ts.
+ * Each provider (OpenAI-compatible, Anthropic, Ollama, mock) is configured
+ * separately, and each feature can be routed to its own provider.
  *
  * Usage:
- *   configureAiClient({ apiKey, modelId });  // called by use-ai-settings hook
- *   const client = getAiClient();
+ *   configureAiClient({ provider, apiKey, modelId });  // called by use-ai-settings hook
+ *   setAiRouting({ defaultProvider, features });
+ *   const client = getAiClient("rewrite");
  *   if (client.isConfigured()) { ... }
  */
 
-import OpenAI from "openai";
-
 import type {
-  AiClientConfig,
   AiChatMessage,
+  AiClientConfig,
+  AiCompletionRequest,
+  AiFeature,
+  AiProviderId,
   ExtractedCharacter,
   IAiClient,
+  IAiProvider,
   LintValidationResult,
   RewriteSuggestion,
 } from "./types";
 import type { LintIssue } from "@/lib/linting/types";
+import { createAiProvider, isAiProviderReady } from "./providers";
 
 // ---------------------------------------------------------------------------
 // Singleton state
 // ---------------------------------------------------------------------------
 
-let currentConfig: AiClientConfig | null = null;
-let cachedClient: IAiClient | null = null;
+/** Which provider serves each feature; unlisted features use the default. */
+export interface AiRouting {
+  defaultProvider: AiProviderId;
+  features: Partial<Record<AiFeature, AiProviderId>>;
+}
+
+const DEFAULT_ROUTING: AiRouting = { defaultProvider: "openai-compatible", features: {} };
+
+const providerConfigs = new Map<AiProviderId, AiClientConfig>();
+const cachedClients = new Map<AiProviderId, IAiClient>();
+let routing: AiRouting = DEFAULT_ROUTING;
 
 /**
- * Push configuration from the settings layer.
- * Invalidates the cached client when config changes.
+ * Push one provider's configuration from the settings layer.
+ * Invalidates that provider's cached client when the config changes.
  */
 export function configureAiClient(config: AiClientConfig): void {
+  const provider = config.provider ?? "openai-compatible";
+  const current = providerConfigs.get(provider);
   const changed =
-    currentConfig?.apiKey !== config.apiKey ||
-    currentConfig?.baseUrl !== config.baseUrl ||
-    currentConfig?.modelId !== config.modelId;
+    current?.apiKey !== config.apiKey ||
+    current?.baseUrl !== config.baseUrl ||
+    current?.modelId !== config.modelId;
 
-  currentConfig = config;
+  providerConfigs.set(provider, config);
   if (changed) {
-    cachedClient = null;
+    cachedClients.delete(provider);
   }
 }
 
+/** Route features to providers (see AiRouting). */
+export function setAiRouting(next: AiRouting): void {
+  routing = next;
+}
+
+/** Provider that serves `feature` (the default provider when omitted). */
+export function resolveAiProvider(feature?: AiFeature): AiProviderId {
+  return (feature && routing.features[feature]) || routing.defaultProvider;
+}
+
 /**
- * Get the AI client singleton.
- * Returns an UnconfiguredAiClient if no API key has been set.
+ * Get the AI client for a feature (or the default provider).
+ * Returns an UnconfiguredAiClient if that provider has not been set up.
  */
-export function getAiClient(): IAiClient {
-  if (cachedClient) {
-    return cachedClient;
+export function getAiClient(feature?: AiFeature): IAiClient {
+  const provider = resolveAiProvider(feature);
+  const cached = cachedClients.get(provider);
+  if (cached) {
+    return cached;
   }
 
-  if (currentConfig?.apiKey) {
-    cachedClient = new AiClient(currentConfig);
-  } else {
-    cachedClient = new UnconfiguredAiClient();
-  }
-
-  return cachedClient;
+  const config = providerConfigs.get(provider);
+  const client =
+    config && isAiProviderReady(config)
+      ? createAiClient(createAiProvider({ ...config, provider }))
+      : new UnconfiguredAiClient();
+  cachedClients.set(provider, client);
+  return client;
 }
 
 /**
- * Reset the cached client (useful for testing or when settings change)
+ * Reset every provider config, the routing and the cached clients
+ * (useful for testing or when settings change)
  */
 export function resetAiClient(): void {
-  cachedClient = null;
-  currentConfig = null;
+  providerConfigs.clear();
+  cachedClients.clear();
+  routing = DEFAULT_ROUTING;
+}
+
+/** Wrap a provider adapter in the domain methods (e.g. a MockAiProvider in tests). */
+export function createAiClient(provider: IAiProvider): IAiClient {
+  return new AiClient(provider);
 }
 
 /**
  * Test connectivity using the given config without affecting the singleton.
- * Calls /models to verify the API key and endpoint are valid.
+ * Lists the endpoint's models to verify the API key and endpoint are valid.
  *
  * @returns Number of available models on success
  * @throws Error with descriptive message on failure
  */
 export async function testAiConnection(config: AiClientConfig): Promise<number> {
-  const client = new OpenAI({
-    apiKey: config.apiKey,
-    baseURL: config.baseUrl || "https://api.openai.com/v1",
-    dangerouslyAllowBrowser: true,
-  });
-  const models = await client.models.list();
-  return models.data.length;
+  const models = await createAiProvider(config).listModels();
+  return models.length;
 }
 
 // Re-export types for convenience
 export type {
   IAiClient,
+  IAiProvider,
   AiClientConfig,
   AiChatMessage,
+  AiFeature,
+  AiProviderId,
   LintValidationResult,
   RewriteSuggestion,
   ExtractedCharacter,
@@ -130,26 +164,73 @@ class UnconfiguredAiClient implements IAiClient {
 }
 
 // ---------------------------------------------------------------------------
-// AiClient — OpenAI SDK wrapper with domain methods
+// AiClient — domain methods (prompts + parsing) over a provider adapter
 // ---------------------------------------------------------------------------
 
+/** Share of the context window the submitted text may use (the rest: prompt + reply). */
+const INPUT_CONTEXT_SHARE = 0.5;
+
+/**
+ * Parse the JSON object in a reply. Providers without a JSON mode may wrap it
+ * in prose or a code fence, so fall back to the outermost braces.
+ */
+function parseJsonObject(content: string): Record<string, unknown> | null {
+  const candidates = [content];
+  const start = content.indexOf("{");
+  const end = content.lastIndexOf("}");
+  if (start !== -1 && end > start) candidates.push(content.slice(start, end + 1));
+  for (const candidate of candidates) {
+    try {
+      const parsed: unknown = JSON.parse(candidate);
+      if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) {
+        return parsed as Record<string, unknown>;
+      }
+    } catch {
+      // try the next candidate
+    }
+  }
+  return null;
+}
+
 class AiClient implements IAiClient {
-  private readonly openai: OpenAI;
-  private readonly modelId: string;
-
-  constructor(config: AiClientConfig) {
-    this.openai = new OpenAI({
-      apiKey: config.apiKey,
-      baseURL: config.baseUrl || "https://api.openai.com/v1",
-      dangerouslyAllowBrowser: true,
-    });
-    this.modelId = config.modelId;
+  private readonly provider: IAiProvider;
+
+  constructor(provider: IAiProvider) {
+    this.provider = provider;
   }
 
   isConfigured(): boolean {
     return true;
   }
 
+  /** Characters of source text that fit the provider's context window. */
+  private get maxInputChars(): number {
+    // Japanese prose is roughly one token per character.
+    return Math.floor(this.provider.capabilities.contextLength * INPUT_CONTEXT_SHARE);
+  }
+
+  /** Run a JSON request; null when the reply is empty or not a JSON object. */
+  private async completeJson(
+    systemPrompt: string,
+    userContent: string,
+    signal?: AbortSignal,
+  ): Promise<Record<string, unknown> | null> {
+    const request: AiCompletionRequest = {
+      json: true,
+      messages: [
+        {
+          role: "system",
+          content: this.provider.capabilities.jsonMode
+            ? systemPrompt
+            : `${systemPrompt}\nRespond with the JSON object only, without code fences or other text.`,
+        },
+        { role: "user", content: userContent },
+      ],
+    };
+    const content = await this.provider.complete(request, signal);
+    return content ? parseJsonObject(content) : null;
+  }
+
   async validateLintIssues(
     text: string,
     issues: LintIssue[],
@@ -162,42 +243,19 @@ class AiClient implements IAiClient {
       })
       .join("\n");
 
-    const response = await this.openai.chat.completions.create(
-      {
-        model: this.modelId,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content: [
-              "You are a Japanese text proofreading assistant.",
-              "Given the original text and a list of detected lint issues, determine whether each issue is genuine or a false positive.",
-              'Respond with a JSON object: { "results": [{ "index": number, "isGenuine": boolean, "reasoning": string }] }',
-              "Consider context, literary style, and intentional stylistic choices when evaluating.",
-            ].join("\n"),
-          },
-          {
-            role: "user",
-            content: `Original text:\n${text}\n\nDetected issues:\n${issueDescriptions}`,
-          },
-        ],
-      },
-      { signal },
+    const parsed = await this.completeJson(
+      [
+        "You are a Japanese text proofreading assistant.",
+        "Given the original text and a list of detected lint issues, determine whether each issue is genuine or a false positive.",
+        'Respond with a JSON object: { "results": [{ "index": number, "isGenuine": boolean, "reasoning": string }] }',
+        "Consider context, literary style, and intentional stylistic choices when evaluating.",
+        "The reasoning should be in Japanese.",
+      ].join("\n"),
+      `Original text:\n${text}\n\nDetected issues:\n${issueDescriptions}`,
+      signal,
     );
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return [];
-    }
-
-    let parsed: { results?: unknown[] };
-    try {
-      parsed = JSON.parse(content) as { results?: unknown[] };
-    } catch {
-      return [];
-    }
-
-    if (!Array.isArray(parsed.results)) {
+    if (!parsed || !Array.isArray(parsed.results)) {
       return [];
     }
 
@@ -213,8 +271,10 @@ class AiClient implements IAiClient {
           "reasoning" in r &&
           typeof (r as Record<string, unknown>).reasoning === "string",
       )
+      .filter((r) => Number.isInteger(r.index) && r.index >= 1 && r.index <= issues.length)
       .map((r) => ({
-        issueRuleId: issues[r.index - 1]?.ruleId ?? "unknown",
+        issueIndex: r.index - 1,
+        issueRuleId: issues[r.index - 1].ruleId,
         isGenuine: r.isGenuine,
         reasoning: r.reasoning,
       }));
@@ -225,6 +285,12 @@ class AiClient implements IAiClient {
     instruction?: string,
     signal?: AbortSignal,
   ): Promise<RewriteSuggestion> {
+    if (text.length > this.maxInputChars) {
+      throw new Error(
+        `テキストが長すぎます（${this.maxInputChars}文字まで）。範囲を分けて実行してください。`,
+      );
+    }
+
     const systemPrompt = [
       "You are a Japanese novel writing assistant.",
       "Suggest an improved version of the given text while preserving the author's voice and intent.",
@@ -235,28 +301,16 @@ class AiClient implements IAiClient {
       .filter(Boolean)
       .join("\n");
 
-    const response = await this.openai.chat.completions.create(
-      {
-        model: this.modelId,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: text },
-        ],
-      },
-      { signal },
-    );
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
+    const parsed = await this.completeJson(systemPrompt, text, signal);
+    if (!parsed) {
       return { original: text, suggestion: text, explanation: "" };
     }
-
-    try {
-      return JSON.parse(content) as RewriteSuggestion;
-    } catch {
-      return { original: text, suggestion: text, explanation: "" };
+    // The submitted text is the original; the model's echo of it is not trusted.
+    const { suggestion, explanation } = parsed;
+    if (typeof suggestion !== "string" || typeof explanation !== "string") {
+      throw new Error("AIの応答を解釈できませんでした。もう一度お試しください。");
     }
+    return { original: text, suggestion, explanation };
   }
 
   async extractCharacters(
@@ -268,57 +322,33 @@ class AiClient implements IAiClient {
       ? `\nAlready known characters (avoid duplicates): ${existingNames.join(", ")}`
       : "";
 
-    const response = await this.openai.chat.completions.create(
-      {
-        model: this.modelId,
-        response_format: { type: "json_object" },
-        messages: [
-          {
-            role: "system",
-            content: [
-              "You are a Japanese novel analysis assistant.",
-              "Extract character information from the given text.",
-              'Respond with a JSON object: { "characters": [{ "name": string, "aliases": string[], "description": string }] }',
-              "Use Japanese for all descriptions.",
-              existingNote,
-            ]
-              .filter(Boolean)
-              .join("\n"),
-          },
-          { role: "user", content: text },
-        ],
-      },
-      { signal },
+    // Extraction tolerates a partial text; keep the head that fits the context.
+    const parsed = await this.completeJson(
+      [
+        "You are a Japanese novel analysis assistant.",
+        "Extract character information from the given text.",
+        'Respond with a JSON object: { "characters": [{ "name": string, "aliases": string[], "description": string }] }',
+        "Use Japanese for all descriptions.",
+        existingNote,
+      ]
+        .filter(Boolean)
+        .join("\n"),
+      text.slice(0, this.maxInputChars),
+      signal,
     );
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      return [];
-    }
-
-    try {
-      const parsed = JSON.parse(content) as { characters?: ExtractedCharacter[] };
-      return Array.isArray(parsed.characters) ? parsed.characters : [];
-    } catch {
+    if (!parsed) {
       return [];
     }
+    return Array.isArray(parsed.characters) ? (parsed.characters as ExtractedCharacter[]) : [];
   }
 
   async *streamChat(messages: AiChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
-    const stream = await this.openai.chat.completions.create(
-      {
-        model: this.modelId,
-        messages,
-        stream: true,
-      },
-      { signal },
-    );
-
-    for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta?.content;
-      if (delta) {
-        yield delta;
-      }
+    if (!this.provider.capabilities.streaming) {
+      // One delta with the whole reply keeps the caller's loop unchanged.
+      yield await this.provider.complete({ messages }, signal);
+      return;
     }
+    yield* this.provider.stream(messages, signal);
   }
 }
@@ -0,0 +1,187 @@
+/**
+ * Prompt building and reply parsing for the AI assistant chat (Inspector "AI" tab).
+ *
+ * A request is the system prompt, the attached manuscript material and as much
+ * of the conversation as fits the provider's context window. Prose the
+ * assistant writes for the manuscript comes back in ```prose fences so the
+ * panel can offer to insert it at the cursor.
+ *
+ * AI アシスタントチャットのプロンプト組み立てと返信の解析。
+ */
+
+import type { AiChatMessage, ExtractedCharacter } from "./types";
+
+// ---------------------------------------------------------------------------
+// Attachments
+// ---------------------------------------------------------------------------
+
+export type ChatAttachmentKind = "selection" | "chapter" | "characters";
+
+/** Manuscript material sent along with a question. */
+export interface ChatAttachment {
+  kind: ChatAttachmentKind;
+  /** Heading shown to the model and in the conversation (e.g. "現在の章：第一章") */
+  label: string;
+  content: string;
+}
+
+/** One line per character: 「名前（別名: …）: 説明」. */
+export function formatCharacterSheets(characters: readonly ExtractedCharacter[]): string {
+  return characters
+    .map((c) => {
+      // extractCharacters passes the model's JSON through, so aliases may be missing.
+      const aliases =
+        Array.isArray(c.aliases) && c.aliases.length > 0 ? `（別名: ${c.aliases.join("、")}）` : "";
+      return `- ${c.name}${aliases}: ${c.description}`;
+    })
+    .join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Token budget
+// ---------------------------------------------------------------------------
+
+/** Share of the context window left for the reply. */
+const REPLY_CONTEXT_SHARE = 0.25;
+/** Share of the remaining input budget attachments may use (the rest: history). */
+const ATTACHMENT_BUDGET_SHARE = 0.75;
+/** Appended to an attachment cut to fit the budget. */
+const TRUNCATION_MARKER = "\n…（以下省略）";
+
+/** Rough token count; Japanese prose is about one token per character. */
+export function estimateTokens(text: string): number {
+  return text.length;
+}
+
+export const ASSISTANT_SYSTEM_PROMPT = [
+  "You are a writing assistant for a Japanese novelist, working inside their manuscript editor.",
+  "Answer in Japanese. Be concrete and refer to the attached manuscript material when it is relevant.",
+  "When you write prose the author could put into the manuscript, wrap only that prose in a fenced block tagged prose (```prose … ```). Do not use the prose tag for anything else.",
+].join("\n");
+
+export interface ChatRequestInput {
+  /** Earlier turns, oldest first (user and assistant only) */
+  history: AiChatMessage[];
+  question: string;
+  attachments: ChatAttachment[];
+  /** Provider context window in tokens */
+  contextLength: number;
+}
+
+export interface ChatRequest {
+  messages: AiChatMessage[];
+  /** Earlier messages left out to fit the context window */
+  droppedMessages: number;
+  /** Labels of attachments cut to fit the context window */
+  truncatedAttachments: string[];
+}
+
+function formatAttachments(attachments: ChatAttachment[]): string {
+  return [
+    "The author attached the following material from the manuscript.",
+    ...attachments.map((a) => `【${a.label}】\n${a.content}`),
+  ].join("\n\n");
+}
+
+/**
+ * Build the messages for one question within the provider's context window.
+ *
+ * The system prompt and the question are always sent. Attachments come next
+ * (each cut at the end when over budget), then earlier turns, newest first;
+ * the oldest turns are dropped.
+ *
+ * @throws Error when the question alone does not fit
+ */
+export function buildChatRequest({
+  history,
+  question,
+  attachments,
+  contextLength,
+}: ChatRequestInput): ChatRequest {
+  const inputBudget = Math.floor(contextLength * (1 - REPLY_CONTEXT_SHARE));
+  let remaining = inputBudget - estimateTokens(ASSISTANT_SYSTEM_PROMPT) - estimateTokens(question);
+  if (remaining < 0) {
+    throw new Error(
+      `質問が長すぎます（約${inputBudget - estimateTokens(ASSISTANT_SYSTEM_PROMPT)}文字まで）。`,
+    );
+  }
+
+  const truncatedAttachments: string[] = [];
+  const sentAttachments: ChatAttachment[] = [];
+  let attachmentBudget = Math.floor(remaining * ATTACHMENT_BUDGET_SHARE);
+  for (const attachment of attachments) {
+    const overhead = estimateTokens(attachment.label) + 4;
+    const room = attachmentBudget - overhead - estimateTokens(TRUNCATION_MARKER);
+    if (room <= 0) {
+      truncatedAttachments.push(attachment.label);
+      continue;
+    }
+    let content = attachment.content;
+    if (estimateTokens(content) + overhead > attachmentBudget) {
+      content = content.slice(0, room) + TRUNCATION_MARKER;
+      truncatedAttachments.push(attachment.label);
+    }
+    attachmentBudget -= estimateTokens(content) + overhead;
+    remaining -= estimateTokens(content) + overhead;
+    sentAttachments.push({ ...attachment, content });
+  }
+
+  const keptHistory: AiChatMessage[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(history[i].content);
+    if (tokens > remaining) break;
+    remaining -= tokens;
+    keptHistory.unshift(history[i]);
+  }
+  // Never start the conversation with a dangling assistant reply.
+  while (keptHistory[0]?.role === "assistant") keptHistory.shift();
+
+  const messages: AiChatMessage[] = [{ role: "system", content: ASSISTANT_SYSTEM_PROMPT }];
+  if (sentAttachments.length > 0) {
+    messages.push({ role: "system", content: formatAttachments(sentAttachments) });
+  }
+  messages.push(...keptHistory, { role: "user", content: question });
+
+  return {
+    messages,
+    droppedMessages: history.length - keptHistory.length,
+    truncatedAttachments,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Reply parsing
+// ---------------------------------------------------------------------------
+
+/** A run of a reply: commentary, or prose meant for the manuscript. */
+export interface ReplySegment {
+  type: "text" | "prose";
+  text: string;
+}
+
+const PROSE_FENCE_OPEN = /```prose[^\S\n]*\n/;
+const FENCE_CLOSE = /\n?```/;
+
+/**
+ * Split a reply into commentary and ```prose blocks. An unterminated block
+ * (still streaming) runs to the end of the reply.
+ */
+export function splitReplySegments(reply: string): ReplySegment[] {
+  const segments: ReplySegment[] = [];
+  let rest = reply;
+  while (rest) {
+    const open = PROSE_FENCE_OPEN.exec(rest);
+    if (!open) {
+      if (rest.trim()) segments.push({ type: "text", text: rest.trim() });
+      break;
+    }
+    const before = rest.slice(0, open.index).trim();
+    if (before) segments.push({ type: "text", text: before });
+    rest = rest.slice(open.index + open[0].length);
+    const close = FENCE_CLOSE.exec(rest);
+    const prose = close ? rest.slice(0, close.index) : rest;
+    if (prose.trim()) segments.push({ type: "prose", text: prose.trim() });
+    rest = close ? rest.slice(close.index + close[0].length) : "";
+  }
+  return segments;
+}
@@ -0,0 +1,132 @@
+/**
+ * Anthropic provider — native Messages API over fetch.
+ *
+ * The Messages API has no JSON output mode, so `jsonMode` is false and the
+ * domain layer asks for JSON in the prompt instead.
+ */
+
+import type {
+  AiChatMessage,
+  AiClientConfig,
+  AiCompletionRequest,
+  AiProviderCapabilities,
+  IAiProvider,
+} from "../types";
+import { fetchOk, joinUrl, readLines } from "./http";
+
+export const ANTHROPIC_DEFAULT_BASE_URL = "https://api.anthropic.com";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Reply budget per request; the API requires an explicit limit. */
+const MAX_TOKENS = 4096;
+
+export const ANTHROPIC_CAPABILITIES: AiProviderCapabilities = {
+  streaming: true,
+  jsonMode: false,
+  contextLength: 200_000,
+};
+
+interface AnthropicMessagesBody {
+  model: string;
+  max_tokens: number;
+  system?: string;
+  messages: Array<{ role: "user" | "assistant"; content: string }>;
+  stream?: boolean;
+}
+
+/** Split system prompts (a top-level field in this API) from the turns. */
+function toMessagesBody(modelId: string, messages: AiChatMessage[]): AnthropicMessagesBody {
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  return {
+    model: modelId,
+    max_tokens: MAX_TOKENS,
+    ...(system ? { system } : {}),
+    messages: messages
+      .filter((m): m is AiChatMessage & { role: "user" | "assistant" } => m.role !== "system")
+      .map((m) => ({ role: m.role, content: m.content })),
+  };
+}
+
+export class AnthropicProvider implements IAiProvider {
+  readonly id = "anthropic" as const;
+  readonly capabilities = ANTHROPIC_CAPABILITIES;
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly modelId: string;
+
+  constructor(config: AiClientConfig) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl || ANTHROPIC_DEFAULT_BASE_URL;
+    this.modelId = config.modelId;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "content-type": "application/json",
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      // The renderer calls the API directly (the key never leaves this machine).
+      "anthropic-dangerous-direct-browser-access": "true",
+    };
+  }
+
+  async complete(request: AiCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await fetchOk("Anthropic API", joinUrl(this.baseUrl, "/v1/messages"), {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(toMessagesBody(this.modelId, request.messages)),
+      signal,
+    });
+    const data = (await response.json()) as { content?: Array<{ type: string; text?: string }> };
+    return (data.content ?? [])
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+  }
+
+  async *stream(messages: AiChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+    const response = await fetchOk("Anthropic API", joinUrl(this.baseUrl, "/v1/messages"), {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({ ...toMessagesBody(this.modelId, messages), stream: true }),
+      signal,
+    });
+
+    // Server-sent events; only text deltas carry reply text. An error event
+    // (e.g. overloaded_error) ends the stream mid-reply, so it must throw.
+    for await (const line of readLines(response)) {
+      if (!line.startsWith("data:")) continue;
+      let event: {
+        type?: string;
+        delta?: { type?: string; text?: string };
+        error?: { type?: string; message?: string };
+      };
+      try {
+        event = JSON.parse(line.slice("data:".length)) as typeof event;
+      } catch {
+        continue;
+      }
+      if (event.type === "error") {
+        throw new Error(
+          `Anthropic API ${event.error?.type ?? "error"}: ${event.error?.message ?? "ストリームが中断されました"}`,
+        );
+      }
+      if (event.type === "content_block_delta" && event.delta?.type === "text_delta") {
+        if (event.delta.text) yield event.delta.text;
+      }
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await fetchOk("Anthropic API", joinUrl(this.baseUrl, "/v1/models"), {
+      headers: this.headers(),
+      signal,
+    });
+    const data = (await response.json()) as { data?: Array<{ id: string }> };
+    return (data.data ?? []).map((m) => m.id);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Small fetch helpers shared by the providers that speak plain HTTP
+ * (Anthropic, Ollama). The OpenAI-compatible provider uses the OpenAI SDK.
+ */
+
+/** Join a base URL and an API path without doubling slashes. */
+export function joinUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, "")}${path}`;
+}
+
+/**
+ * fetch() that throws on a non-2xx status, with the response body (usually the
+ * provider's JSON error) in the message.
+ */
+export async function fetchOk(label: string, url: string, init: RequestInit): Promise<Response> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(`${label} ${response.status}: ${detail || response.statusText}`);
+  }
+  return response;
+}
+
+/** Yield the lines of a streamed response body (NDJSON / server-sent events). */
+export async function* readLines(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline = buffer.indexOf("\n");
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, "");
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf("\n");
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Provider registry — metadata for the settings UI and the factory used by
+ * ai-client.ts.
+ */
+
+import type { AiClientConfig, AiProviderCapabilities, AiProviderId, IAiProvider } from "../types";
+import { ANTHROPIC_CAPABILITIES, ANTHROPIC_DEFAULT_BASE_URL, AnthropicProvider } from "./anthropic";
+import { MOCK_CAPABILITIES, MockAiProvider } from "./mock";
+import { OLLAMA_CAPABILITIES, OLLAMA_DEFAULT_BASE_URL, OllamaProvider } from "./ollama";
+import {
+  OPENAI_COMPATIBLE_CAPABILITIES,
+  OPENAI_DEFAULT_BASE_URL,
+  OpenAiCompatibleProvider,
+} from "./openai-compatible";
+
+export { AnthropicProvider } from "./anthropic";
+export { MockAiProvider } from "./mock";
+export type { MockAiProviderOptions, MockResponder } from "./mock";
+export { OllamaProvider } from "./ollama";
+export { OpenAiCompatibleProvider } from "./openai-compatible";
+
+export interface AiProviderInfo {
+  id: AiProviderId;
+  /** Display name in the settings UI */
+  labelJa: string;
+  capabilities: AiProviderCapabilities;
+  /** Whether a config without an API key is unusable */
+  requiresApiKey: boolean;
+  /** Endpoint used when baseUrl is empty (null: none) */
+  defaultBaseUrl: string | null;
+}
+
+export const AI_PROVIDERS: Record<AiProviderId, AiProviderInfo> = {
+  "openai-compatible": {
+    id: "openai-compatible",
+    labelJa: "OpenAI 互換",
+    capabilities: OPENAI_COMPATIBLE_CAPABILITIES,
+    requiresApiKey: true,
+    defaultBaseUrl: OPENAI_DEFAULT_BASE_URL,
+  },
+  anthropic: {
+    id: "anthropic",
+    labelJa: "Anthropic",
+    capabilities: ANTHROPIC_CAPABILITIES,
+    requiresApiKey: true,
+    defaultBaseUrl: ANTHROPIC_DEFAULT_BASE_URL,
+  },
+  ollama: {
+    id: "ollama",
+    labelJa: "Ollama（ローカル）",
+    capabilities: OLLAMA_CAPABILITIES,
+    requiresApiKey: false,
+    defaultBaseUrl: OLLAMA_DEFAULT_BASE_URL,
+  },
+  mock: {
+    id: "mock",
+    labelJa: "モック（テスト用）",
+    capabilities: MOCK_CAPABILITIES,
+    requiresApiKey: false,
+    defaultBaseUrl: null,
+  },
+};
+
+/** Whether `config` has everything its provider needs to make requests. */
+export function isAiProviderReady(config: AiClientConfig): boolean {
+  const info = AI_PROVIDERS[config.provider ?? "openai-compatible"];
+  if (info.requiresApiKey && !config.apiKey) return false;
+  return info.id === "mock" || config.modelId.trim() !== "";
+}
+
+/** Build the adapter for `config.provider` (default: OpenAI-compatible). */
+export function createAiProvider(config: AiClientConfig): IAiProvider {
+  switch (config.provider ?? "openai-compatible") {
+    case "openai-compatible":
+      return new OpenAiCompatibleProvider(config);
+    case "anthropic":
+      return new AnthropicProvider(config);
+    case "ollama":
+      return new OllamaProvider(config);
+    case "mock":
+      return new MockAiProvider();
+  }
+}
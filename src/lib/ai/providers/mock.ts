@@ -0,0 +1,80 @@
+/**
+ * Mock provider — deterministic, in-process stand-in for tests and offline
+ * development. Never touches the network.
+ *
+ * Replies come from a responder function (default: `{}` for JSON requests,
+ * otherwise the last user message echoed back). Every request is recorded in
+ * `requests` for assertions.
+ */
+
+import type {
+  AiChatMessage,
+  AiCompletionRequest,
+  AiProviderCapabilities,
+  IAiProvider,
+} from "../types";
+
+export type MockResponder = (request: AiCompletionRequest) => string;
+
+export interface MockAiProviderOptions {
+  respond?: MockResponder;
+  capabilities?: Partial<AiProviderCapabilities>;
+  /** Returned by listModels (default: `["mock"]`) */
+  models?: string[];
+}
+
+export const MOCK_CAPABILITIES: AiProviderCapabilities = {
+  streaming: true,
+  jsonMode: true,
+  contextLength: 32_768,
+};
+
+/** Characters per streamed delta. */
+const STREAM_CHUNK_SIZE = 4;
+
+function defaultRespond(request: AiCompletionRequest): string {
+  if (request.json) return "{}";
+  const lastUser = [...request.messages].reverse().find((m) => m.role === "user");
+  return lastUser?.content ?? "";
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new DOMException("The operation was aborted.", "AbortError");
+}
+
+export class MockAiProvider implements IAiProvider {
+  readonly id = "mock" as const;
+  readonly capabilities: AiProviderCapabilities;
+  /** Requests in the order they were made (streamed ones included) */
+  readonly requests: AiCompletionRequest[] = [];
+  private readonly respond: MockResponder;
+  private readonly models: string[];
+
+  constructor(options: MockAiProviderOptions = {}) {
+    this.respond = options.respond ?? defaultRespond;
+    this.capabilities = { ...MOCK_CAPABILITIES, ...options.capabilities };
+    this.models = options.models ?? ["mock"];
+  }
+
+  async complete(request: AiCompletionRequest, signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal);
+    this.requests.push(request);
+    return this.respond(request);
+  }
+
+  async *stream(messages: AiChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+    throwIfAborted(signal);
+    const request: AiCompletionRequest = { messages };
+    this.requests.push(request);
+    const reply = this.respond(request);
+    for (let i = 0; i < reply.length; i += STREAM_CHUNK_SIZE) {
+      throwIfAborted(signal);
+      yield reply.slice(i, i + STREAM_CHUNK_SIZE);
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    throwIfAborted(signal);
+    return [...this.models];
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Ollama provider — native `/api/chat` of a local Ollama server.
+ *
+ * No API key. The context window is requested explicitly (`num_ctx`) because
+ * Ollama's default is smaller than what the domain prompts assume.
+ * (llama.cpp's `llama-server` speaks the OpenAI protocol; use the
+ * OpenAI-compatible provider for it.)
+ */
+
+import type {
+  AiChatMessage,
+  AiClientConfig,
+  AiCompletionRequest,
+  AiProviderCapabilities,
+  IAiProvider,
+} from "../types";
+import { fetchOk, joinUrl, readLines } from "./http";
+
+export const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+
+export const OLLAMA_CAPABILITIES: AiProviderCapabilities = {
+  streaming: true,
+  jsonMode: true,
+  contextLength: 8192,
+};
+
+interface OllamaChatChunk {
+  message?: { content?: string };
+  done?: boolean;
+  error?: string;
+}
+
+export class OllamaProvider implements IAiProvider {
+  readonly id = "ollama" as const;
+  readonly capabilities = OLLAMA_CAPABILITIES;
+  private readonly baseUrl: string;
+  private readonly modelId: string;
+
+  constructor(config: AiClientConfig) {
+    this.baseUrl = config.baseUrl || OLLAMA_DEFAULT_BASE_URL;
+    this.modelId = config.modelId;
+  }
+
+  private chat(
+    messages: AiChatMessage[],
+    stream: boolean,
+    json: boolean,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    return fetchOk("Ollama", joinUrl(this.baseUrl, "/api/chat"), {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        model: this.modelId,
+        messages,
+        stream,
+        ...(json ? { format: "json" } : {}),
+        options: { num_ctx: OLLAMA_CAPABILITIES.contextLength },
+      }),
+      signal,
+    });
+  }
+
+  async complete(request: AiCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.chat(request.messages, false, request.json ?? false, signal);
+    const data = (await response.json()) as OllamaChatChunk;
+    return data.message?.content ?? "";
+  }
+
+  async *stream(messages: AiChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+    const response = await this.chat(messages, true, false, signal);
+
+    // Newline-delimited JSON, one chunk per line.
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue;
+      const chunk = JSON.parse(line) as OllamaChatChunk;
+      if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+      if (chunk.message?.content) yield chunk.message.content;
+      if (chunk.done) return;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const response = await fetchOk("Ollama", joinUrl(this.baseUrl, "/api/tags"), { signal });
+    const data = (await response.json()) as { models?: Array<{ name: string }> };
+    return (data.models ?? []).map((m) => m.name);
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * OpenAI-compatible provider — OpenAI itself, LiteLLM gateways and local
+ * servers that expose `/v1/chat/completions` (llama.cpp `llama-server`, …).
+ */
+
+import OpenAI from "openai";
+
+import type {
+  AiChatMessage,
+  AiClientConfig,
+  AiCompletionRequest,
+  AiProviderCapabilities,
+  IAiProvider,
+} from "../types";
+
+export const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+export const OPENAI_COMPATIBLE_CAPABILITIES: AiProviderCapabilities = {
+  streaming: true,
+  jsonMode: true,
+  // gpt-4o family; gateways and local servers may offer less
+  contextLength: 128_000,
+};
+
+export class OpenAiCompatibleProvider implements IAiProvider {
+  readonly id = "openai-compatible" as const;
+  readonly capabilities = OPENAI_COMPATIBLE_CAPABILITIES;
+  private readonly openai: OpenAI;
+  private readonly modelId: string;
+
+  constructor(config: AiClientConfig) {
+    this.openai = new OpenAI({
+      apiKey: config.apiKey,
+      baseURL: config.baseUrl || OPENAI_DEFAULT_BASE_URL,
+      dangerouslyAllowBrowser: true,
+    });
+    this.modelId = config.modelId;
+  }
+
+  async complete(request: AiCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.openai.chat.completions.create(
+      {
+        model: this.modelId,
+        ...(request.json ? { response_format: { type: "json_object" as const } } : {}),
+        messages: request.messages,
+      },
+      { signal },
+    );
+    return response.choices[0]?.message?.content ?? "";
+  }
+
+  async *stream(messages: AiChatMessage[], signal?: AbortSignal): AsyncIterable<string> {
+    const stream = await this.openai.chat.completions.create(
+      {
+        model: this.modelId,
+        stream: true,
+        messages,
+      },
+      { signal },
+    );
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+
+  async listModels(): Promise<string[]> {
+    const models = await this.openai.models.list();
+    return models.data.map((m) => m.id);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Preset rewrite intents offered from the editor's selection menus.
+ *
+ * Each intent becomes the `instruction` of IAiClient.suggestRewrite. The label
+ * is what the user sees; the instruction is what the model gets.
+ *
+ * エディタの選択メニューから選べる AI 書き換えの意図。
+ */
+
+export type RewriteIntentId =
+  "concise" | "literary" | "first-person" | "third-person" | "vivid" | "polite" | "plain";
+
+export interface RewriteIntent {
+  id: RewriteIntentId;
+  /** Menu label (Japanese) */
+  label: string;
+  /** Instruction passed to the model */
+  instruction: string;
+}
+
+export const REWRITE_INTENTS: readonly RewriteIntent[] = [
+  {
+    id: "concise",
+    label: "簡潔に",
+    instruction:
+      "Make the text more concise. Remove redundancy but keep every event, image and nuance.",
+  },
+  {
+    id: "literary",
+    label: "文語調に",
+    instruction:
+      "Rewrite in a classical literary register (文語調), using forms such as 〜なり, 〜けり and 〜ぬ where they read naturally.",
+  },
+  {
+    id: "first-person",
+    label: "視点を一人称に",
+    instruction:
+      "Rewrite from the first-person point of view of the focal character. Choose the first-person pronoun that fits the character.",
+  },
+  {
+    id: "third-person",
+    label: "視点を三人称に",
+    instruction:
+      "Rewrite from a third-person limited point of view, referring to the focal character by name.",
+  },
+  {
+    id: "vivid",
+    label: "描写を豊かに",
+    instruction:
+      "Enrich the description with concrete sensory detail without adding new events or changing the meaning.",
+  },
+  {
+    id: "polite",
+    label: "です・ます調に",
+    instruction: "Rewrite in the polite style (です・ます調) consistently.",
+  },
+  {
+    id: "plain",
+    label: "だ・である調に",
+    instruction: "Rewrite in the plain style (だ・である調) consistently.",
+  },
+];
+
+/** Look up an intent by id (undefined for unknown ids, e.g. from a stale menu action). */
+export function getRewriteIntent(id: string): RewriteIntent | undefined {
+  return REWRITE_INTENTS.find((intent) => intent.id === id);
+}
@@ -1,9 +1,10 @@
 /**
  * AI Client types and interfaces.
  *
- * Phase 1 uses the OpenAI SDK directly. Switching to a self-hosted
- * LiteLLM Gateway later requires only changing baseUrl and apiKey —
- * all types and the IAiClient interface remain the same.
+ * Domain methods (IAiClient) are written once against IAiProvider; each
+ * provider adapter (see ./providers) speaks one wire protocol. Switching to a
+ * self-hosted LiteLLM Gateway only changes baseUrl and apiKey of the
+ * OpenAI-compatible provider.
  */
 
 import type { LintIssue } from "@/lib/linting/types";
@@ -12,6 +13,18 @@ import type { LintIssue } from "@/lib/linting/types";
 // Configuration
 // ---------------------------------------------------------------------------
 
+/**
+ * Wire protocol of an AI backend.
+ * - `openai-compatible`: OpenAI, LiteLLM, llama.cpp `llama-server`, …
+ * - `anthropic`: Anthropic Messages API
+ * - `ollama`: Ollama's native `/api/chat`
+ * - `mock`: deterministic in-process stand-in for tests
+ */
+export type AiProviderId = "openai-compatible" | "anthropic" | "ollama" | "mock";
+
+/** Features that can be routed to their own provider. */
+export type AiFeature = "lint-validation" | "rewrite" | "character-extraction" | "chat";
+
 /**
  * Transport-level configuration for the AI client.
  *
@@ -19,20 +32,56 @@ import type { LintIssue } from "@/lib/linting/types";
  * gate at their own call sites, not at the transport layer.
  */
 export interface AiClientConfig {
-  /** API key (OpenAI key or LiteLLM virtual key) */
+  /** Provider adapter — defaults to `openai-compatible` */
+  provider?: AiProviderId;
+  /** API key (OpenAI key, LiteLLM virtual key, Anthropic key); unused by local providers */
   apiKey: string;
-  /** Base URL — defaults to `https://api.openai.com/v1` */
+  /** Base URL — defaults to the provider's public endpoint (see AI_PROVIDERS) */
   baseUrl?: string;
   /** Model ID for online AI */
   modelId: string;
 }
 
+/** What a provider can do; domain methods adapt to it. */
+export interface AiProviderCapabilities {
+  /** Incremental deltas in streamChat (otherwise one chunk at the end) */
+  streaming: boolean;
+  /** Native JSON output mode (otherwise JSON is requested in the prompt) */
+  jsonMode: boolean;
+  /** Context window in tokens, used to bound the text sent */
+  contextLength: number;
+}
+
+/** One chat-completion request, provider-neutral. */
+export interface AiCompletionRequest {
+  messages: AiChatMessage[];
+  /** Ask for a single JSON object as the reply */
+  json?: boolean;
+}
+
+/**
+ * A provider adapter: one wire protocol, no prompt knowledge.
+ * Errors are thrown as-is; aborting `signal` rejects the pending call.
+ */
+export interface IAiProvider {
+  readonly id: AiProviderId;
+  readonly capabilities: AiProviderCapabilities;
+  /** Return the full reply text */
+  complete(request: AiCompletionRequest, signal?: AbortSignal): Promise<string>;
+  /** Yield reply text deltas */
+  stream(messages: AiChatMessage[], signal?: AbortSignal): AsyncIterable<string>;
+  /** Model IDs the endpoint offers (used by the connection test) */
+  listModels(signal?: AbortSignal): Promise<string[]>;
+}
+
 // ---------------------------------------------------------------------------
 // Domain result types
 // ---------------------------------------------------------------------------
 
 /** Result of LLM-based lint issue validation (L3) */
 export interface LintValidationResult {
+  /** Position (0-based) of the validated issue in the submitted list */
+  issueIndex: number;
   /** The rule ID of the issue being validated */
   issueRuleId: string;
   /** Whether the LLM considers this a genuine issue (true) or false positive (false) */
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+
+import { fuzzyScore, pushRecentId, rankPaletteItems } from "../palette-search";
+
+import type { PaletteItem } from "../palette-search";
+
+function item(id: string, label: string, keywords: string[] = []): PaletteItem {
+  return { id, kind: "command", label, keywords, run: () => {} };
+}
+
+const ITEMS = [
+  item("command:file.save", "保存", ["ほぞん", "file.save"]),
+  item("command:file.saveAs", "別名で保存", ["べつめいでほぞん", "file.saveAs"]),
+  item("command:nav.search", "検索", ["けんさく", "nav.search"]),
+  item("command:inspector.ai", "AI アシスタントを表示", ["えーあいあしすたんとをひょうじ"]),
+  item("command:view.splitRight", "右に分割", ["みぎにぶんかつ", "view.splitRight"]),
+];
+
+function labels(result: PaletteItem[]): string[] {
+  return result.map((entry) => entry.label);
+}
+
+describe("fuzzyScore", () => {
+  it("returns null when the query is not a subsequence", () => {
+    expect(fuzzyScore("xyz", "ほぞん")).toBe(null);
+  });
+
+  it("ranks prefix > substring > scattered subsequence", () => {
+    const prefix = fuzzyScore("ほぞ", "ほぞん");
+    const substring = fuzzyScore("ほぞ", "べつめいでほぞん");
+    const scattered = fuzzyScore("ほん", "ほぞん");
+    expect(prefix).not.toBe(null);
+    expect(substring).not.toBe(null);
+    expect(scattered).not.toBe(null);
+    expect(prefix!).toBeGreaterThan(substring!);
+    expect(substring!).toBeGreaterThan(scattered!);
+  });
+});
+
+describe("rankPaletteItems", () => {
+  it("matches labels, kana readings and romaji", () => {
+    expect(labels(rankPaletteItems(ITEMS, "保存", []))).toEqual(["保存", "別名で保存"]);
+    expect(labels(rankPaletteItems(ITEMS, "ほぞん", []))[0]).toBe("保存");
+    expect(labels(rankPaletteItems(ITEMS, "hozon", []))[0]).toBe("保存");
+    expect(labels(rankPaletteItems(ITEMS, "kensa", []))).toContain("検索");
+  });
+
+  it("normalizes katakana, width and case", () => {
+    expect(labels(rankPaletteItems(ITEMS, "アシスタント", []))).toEqual(["AI アシスタントを表示"]);
+    expect(labels(rankPaletteItems(ITEMS, "ａｉ", []))[0]).toBe("AI アシスタントを表示");
+    expect(labels(rankPaletteItems(ITEMS, "SPLIT", []))).toEqual(["右に分割"]);
+  });
+
+  it("lists recently used items first for an empty query", () => {
+    const result = rankPaletteItems(ITEMS, "  ", ["command:nav.search", "command:file.saveAs"]);
+    expect(labels(result).slice(0, 3)).toEqual(["検索", "別名で保存", "保存"]);
+    expect(result).toHaveLength(ITEMS.length);
+  });
+
+  it("boosts recently used items among matches", () => {
+    expect(labels(rankPaletteItems(ITEMS, "ほぞん", ["command:file.saveAs"]))[0]).toBe(
+      "別名で保存",
+    );
+  });
+
+  it("applies the result limit", () => {
+    expect(rankPaletteItems(ITEMS, "", [], 2)).toHaveLength(2);
+  });
+});
+
+describe("pushRecentId", () => {
+  it("moves the id to the front without duplicates and caps the list", () => {
+    expect(pushRecentId(["a", "b", "c"], "b", 3)).toEqual(["b", "a", "c"]);
+    expect(pushRecentId(["a", "b", "c"], "d", 3)).toEqual(["d", "a", "b"]);
+  });
+});
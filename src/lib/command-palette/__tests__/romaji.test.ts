@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+
+import { romajiToHiragana } from "../romaji";
+
+describe("romajiToHiragana", () => {
+  it("converts basic syllables", () => {
+    expect(romajiToHiragana("hozon")).toBe("ほぞn");
+    expect(romajiToHiragana("kensaku")).toBe("けんさく");
+    expect(romajiToHiragana("INSATSU")).toBe("いんさつ");
+  });
+
+  it("handles Hepburn and kunrei spellings alike", () => {
+    expect(romajiToHiragana("shichi")).toBe("しち");
+    expect(romajiToHiragana("siti")).toBe("しち");
+    expect(romajiToHiragana("fuji")).toBe("ふじ");
+    expect(romajiToHiragana("huzi")).toBe("ふじ");
+  });
+
+  it("converts youon (contracted sounds)", () => {
+    expect(romajiToHiragana("shukushou")).toBe("しゅくしょう");
+    expect(romajiToHiragana("kyori")).toBe("きょり");
+    expect(romajiToHiragana("jisho")).toBe("じしょ");
+  });
+
+  it("turns doubled consonants into っ", () => {
+    expect(romajiToHiragana("paretto")).toBe("ぱれっと");
+    expect(romajiToHiragana("matcha")).toBe("まっちゃ");
+  });
+
+  it("follows IME rules for ん", () => {
+    expect(romajiToHiragana("kanji")).toBe("かんじ");
+    expect(romajiToHiragana("konnichiha")).toBe("こんにちは");
+    expect(romajiToHiragana("gen'in")).toBe("げんいn");
+    expect(romajiToHiragana("hozonn")).toBe("ほぞん");
+  });
+
+  it("leaves an unfinished syllable and non-romaji text as-is", () => {
+    expect(romajiToHiragana("kous")).toBe("こうs");
+    expect(romajiToHiragana("タブ1")).toBe("タブ1");
+    expect(romajiToHiragana("ko-do")).toBe("こーど");
+  });
+});
@@ -0,0 +1,55 @@
+import type { CommandId } from "@/lib/keymap/command-ids";
+
+/**
+ * Hiragana readings of the SHORTCUT_REGISTRY labels, so kanji labels can be
+ * found by typing kana or romaji (「ほぞん」/ "hozon" → 保存). Katakana in
+ * labels needs no reading: search normalization folds it to hiragana.
+ *
+ * Typed as a full Record so adding a command without a reading fails to compile.
+ */
+export const COMMAND_READINGS: Record<CommandId, string> = {
+  "file.save": "ほぞん",
+  "file.saveAs": "べつめいでほぞん",
+  "file.open": "ふぁいるをひらく",
+  "file.print": "いんさつ",
+  "file.newWindow": "しんきうぃんどう",
+  "file.newTab": "しんきたぶ",
+  "file.closeTab": "たぶをとじる",
+  "edit.undo": "もとにもどす",
+  "edit.redo": "やりなおす",
+  "edit.pasteAsPlaintext": "ぷれーんてきすとしてはりつけ",
+  "edit.selectAll": "すべてせんたく",
+  "view.zoomIn": "かくだい ずーむいん",
+  "view.zoomOut": "しゅくしょう ずーむあうと",
+  "view.resetZoom": "ずーむをりせっと",
+  "view.compactMode": "こんぱくともーどきりかえ",
+  "view.toggleWritingMode": "たてがき よこがきをきりかえ",
+  "view.splitRight": "みぎにぶんかつ",
+  "view.splitDown": "したにぶんかつ",
+  "nav.nextTab": "つぎのたぶ",
+  "nav.prevTab": "まえのたぶ",
+  "nav.tab1": "たぶ1へいどう",
+  "nav.tab2": "たぶ2へいどう",
+  "nav.tab3": "たぶ3へいどう",
+  "nav.tab4": "たぶ4へいどう",
+  "nav.tab5": "たぶ5へいどう",
+  "nav.tab6": "たぶ6へいどう",
+  "nav.tab7": "たぶ7へいどう",
+  "nav.tab8": "たぶ8へいどう",
+  "nav.tab9": "たぶ9へいどう",
+  "nav.settings": "せっていをひらく",
+  "nav.search": "けんさく",
+  "nav.commandPalette": "こまんどぱれっと",
+  "panel.explorer": "えくすぷろーらーをきりかえ",
+  "panel.files": "ふぁいるをきりかえ",
+  "panel.search": "けんさくぱねるをきりかえ",
+  "panel.dictionary": "じしょをきりかえ",
+  "panel.wordfreq": "ごいとうけいをきりかえ",
+  "terminal.new": "しんきたーみなる",
+  "inspector.corrections": "こうせいぱねるをひょうじ",
+  "inspector.stats": "とうけいぱねるをひょうじ",
+  "inspector.history": "りれきぱねるをひょうじ",
+  "inspector.ai": "えーあいあしすたんとをひょうじ",
+  "format.ruby": "るびをそうにゅう",
+  "format.tcy": "たてちゅうよこをきりかえ",
+};
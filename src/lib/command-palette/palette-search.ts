@@ -0,0 +1,135 @@
+/**
+ * Fuzzy search and ranking for the command palette.
+ *
+ * Matching runs on text normalized with normalizeJapaneseSearchVariants
+ * (width, katakana → hiragana, kyujitai → shinjitai) plus lowercasing, and
+ * each query is tried both as typed and converted from romaji, so
+ * "ホゾン", "ほぞん" and "hozon" all find 保存 through its reading.
+ */
+
+import { normalizeJapaneseSearchVariants } from "@/lib/editor-page/japanese-variant-normalization";
+
+import { romajiToHiragana } from "./romaji";
+
+export type PaletteItemKind = "command" | "file" | "heading" | "ruleset" | "mode";
+
+export interface PaletteItem {
+  /** Stable id used for the recently-used list, e.g. "command:file.save" */
+  id: string;
+  kind: PaletteItemKind;
+  label: string;
+  /** Extra text matched against the query: kana readings, paths, English ids */
+  keywords: string[];
+  /** Secondary text shown on the right (key binding, file path, …) */
+  detail?: string;
+  run: () => void;
+}
+
+/** Upper bound on the bonus for recently used items (an exact-prefix match scores ~100+). */
+const RECENT_BONUS = 40;
+
+function normalize(text: string): string {
+  return normalizeJapaneseSearchVariants(text).toLowerCase();
+}
+
+/**
+ * The query strings to try: the normalized query, and its romaji → kana
+ * conversion with any unfinished trailing syllable dropped.
+ */
+function queryVariants(query: string): string[] {
+  const normalized = normalize(query).replace(/\s+/g, "");
+  if (!normalized) return [];
+  const kana = romajiToHiragana(normalized).replace(/[a-z']+$/, "");
+  return kana && kana !== normalized ? [normalized, kana] : [normalized];
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[\s/._\-・「」（）()]/.test(text[index - 1]);
+}
+
+/**
+ * Score how well `query` matches `target` (both already normalized).
+ * Substring matches beat scattered subsequence matches; matches at the start
+ * of the text or of a word score higher.
+ *
+ * @returns null when `query` is not a subsequence of `target`
+ */
+export function fuzzyScore(query: string, target: string): number | null {
+  if (!query) return 0;
+
+  const index = target.indexOf(query);
+  if (index >= 0) {
+    return 100 + query.length * 2 + (index === 0 ? 30 : isWordStart(target, index) ? 15 : 0);
+  }
+
+  let score = 0;
+  let cursor = 0;
+  let previous = -2;
+  for (let i = 0; i < target.length && cursor < query.length; i++) {
+    if (target[i] !== query[cursor]) continue;
+    score += 1;
+    if (i === previous + 1) score += 4;
+    if (isWordStart(target, i)) score += 3;
+    previous = i;
+    cursor += 1;
+  }
+  return cursor === query.length ? score : null;
+}
+
+/** Best score of `query` against an item's label and keywords, or null if nothing matches. */
+function scoreItem(item: PaletteItem, variants: string[]): number | null {
+  let best: number | null = null;
+  for (const text of [item.label, ...item.keywords]) {
+    const target = normalize(text);
+    for (const variant of variants) {
+      const score = fuzzyScore(variant, target);
+      if (score !== null && (best === null || score > best)) best = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Filter and order palette items for `query`.
+ *
+ * - Empty query: recently used items first (most recent first), then the
+ *   rest in their given order.
+ * - Otherwise: matching items by score, with recently used items boosted so
+ *   they float above comparable matches.
+ *
+ * @param recentIds - Item ids, most recently used first
+ */
+export function rankPaletteItems(
+  items: PaletteItem[],
+  query: string,
+  recentIds: readonly string[],
+  limit = 100,
+): PaletteItem[] {
+  const recentRank = new Map(recentIds.map((id, i) => [id, i]));
+  const recentBonus = (item: PaletteItem): number => {
+    const rank = recentRank.get(item.id);
+    return rank === undefined ? 0 : RECENT_BONUS * (1 - rank / recentIds.length);
+  };
+
+  const variants = queryVariants(query);
+  if (variants.length === 0) {
+    const recent = items
+      .filter((item) => recentRank.has(item.id))
+      .sort((a, b) => (recentRank.get(a.id) ?? 0) - (recentRank.get(b.id) ?? 0));
+    const rest = items.filter((item) => !recentRank.has(item.id));
+    return [...recent, ...rest].slice(0, limit);
+  }
+
+  const scored: Array<{ item: PaletteItem; score: number; order: number }> = [];
+  items.forEach((item, order) => {
+    const score = scoreItem(item, variants);
+    if (score !== null) scored.push({ item, score: score + recentBonus(item), order });
+  });
+  scored.sort((a, b) => b.score - a.score || a.order - b.order);
+  return scored.slice(0, limit).map((entry) => entry.item);
+}
+
+/** Move `id` to the front of the recently used list, capped at `max` entries. */
+export function pushRecentId(recentIds: readonly string[], id: string, max: number): string[] {
+  return [id, ...recentIds.filter((existing) => existing !== id)].slice(0, max);
+}
@@ -0,0 +1,157 @@
+/**
+ * Minimal Hepburn/kunrei romaji → hiragana conversion for palette queries,
+ * so "hozon" finds 保存 through its reading without an IME.
+ *
+ * Follows IME conventions: doubled consonants (and "tch") become っ, "nn" / "n'" and an
+ * "n" before a consonant become ん, and a trailing lone consonant (including
+ * "n") is left as-is because the user is still typing the syllable.
+ */
+
+const VOWELS = "aiueo";
+
+const ROWS: Record<string, readonly string[]> = {
+  "": ["あ", "い", "う", "え", "お"],
+  k: ["か", "き", "く", "け", "こ"],
+  s: ["さ", "し", "す", "せ", "そ"],
+  t: ["た", "ち", "つ", "て", "と"],
+  n: ["な", "に", "ぬ", "ね", "の"],
+  h: ["は", "ひ", "ふ", "へ", "ほ"],
+  m: ["ま", "み", "む", "め", "も"],
+  y: ["や", "", "ゆ", "", "よ"],
+  r: ["ら", "り", "る", "れ", "ろ"],
+  w: ["わ", "", "う", "", "を"],
+  g: ["が", "ぎ", "ぐ", "げ", "ご"],
+  z: ["ざ", "じ", "ず", "ぜ", "ぞ"],
+  d: ["だ", "ぢ", "づ", "で", "ど"],
+  b: ["ば", "び", "ぶ", "べ", "ぼ"],
+  p: ["ぱ", "ぴ", "ぷ", "ぺ", "ぽ"],
+  x: ["ぁ", "ぃ", "ぅ", "ぇ", "ぉ"],
+  l: ["ぁ", "ぃ", "ぅ", "ぇ", "ぉ"],
+  v: ["ゔぁ", "ゔぃ", "ゔ", "ゔぇ", "ゔぉ"],
+};
+
+/** Consonants whose "Cya/Cyu/Cyo" forms are an i-column kana + small ゃゅょ */
+const YOON_BASES: Record<string, string> = {
+  ky: "き",
+  sh: "し",
+  sy: "し",
+  ch: "ち",
+  ty: "ち",
+  cy: "ち",
+  ny: "に",
+  hy: "ひ",
+  my: "み",
+  ry: "り",
+  gy: "ぎ",
+  j: "じ",
+  jy: "じ",
+  zy: "じ",
+  dy: "ぢ",
+  by: "び",
+  py: "ぴ",
+};
+
+const SMALL_YOON: Record<string, string> = { a: "ゃ", u: "ゅ", o: "ょ", e: "ぇ" };
+
+function buildTable(): Map<string, string> {
+  const table = new Map<string, string>();
+  for (const [consonant, kana] of Object.entries(ROWS)) {
+    kana.forEach((ch, i) => {
+      if (ch) table.set(consonant + VOWELS[i], ch);
+    });
+  }
+  for (const [base, kana] of Object.entries(YOON_BASES)) {
+    for (const [vowel, small] of Object.entries(SMALL_YOON)) {
+      table.set(base + vowel, kana + small);
+    }
+  }
+  // Hepburn spellings that differ from the row tables
+  table.set("shi", "し");
+  table.set("chi", "ち");
+  table.set("tsu", "つ");
+  table.set("fu", "ふ");
+  table.set("ji", "じ");
+  table.set("fa", "ふぁ");
+  table.set("fi", "ふぃ");
+  table.set("fe", "ふぇ");
+  table.set("fo", "ふぉ");
+  table.set("ti", "ち");
+  table.set("tu", "つ");
+  table.set("si", "し");
+  table.set("hu", "ふ");
+  table.set("zi", "じ");
+  table.set("di", "ぢ");
+  table.set("du", "づ");
+  table.set("thi", "てぃ");
+  table.set("dhi", "でぃ");
+  table.set("xtu", "っ");
+  table.set("ltu", "っ");
+  table.set("xya", "ゃ");
+  table.set("xyu", "ゅ");
+  table.set("xyo", "ょ");
+  table.set("nn", "ん");
+  table.set("n'", "ん");
+  table.set("-", "ー");
+  return table;
+}
+
+const TABLE = buildTable();
+const MAX_KEY_LENGTH = 3;
+
+function isConsonant(ch: string | undefined): boolean {
+  return ch !== undefined && /[a-z]/.test(ch) && !VOWELS.includes(ch);
+}
+
+/**
+ * Convert the romaji in `input` to hiragana. Characters that are not romaji
+ * (kana, kanji, digits, punctuation) pass through unchanged.
+ */
+export function romajiToHiragana(input: string): string {
+  const text = input.toLowerCase();
+  let result = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    // "nn" before a vowel is ん + な行 ("konnichiha" → こんにちは)
+    if (ch === "n" && next === "n" && /[aiueoy]/.test(text[i + 2] ?? "")) {
+      result += "ん";
+      i += 1;
+      continue;
+    }
+
+    // Doubled consonant → っ (but "nn" is ん), including Hepburn "tch"
+    const doubled = ch === next || (ch === "t" && text.startsWith("ch", i + 1));
+    if (isConsonant(ch) && doubled && ch !== "n") {
+      result += "っ";
+      i += 1;
+      continue;
+    }
+
+    let matched = false;
+    for (let length = MAX_KEY_LENGTH; length >= 1; length--) {
+      const kana = TABLE.get(text.slice(i, i + length));
+      if (kana !== undefined) {
+        result += kana;
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) continue;
+
+    // "n" before a consonant other than y → ん ("kanji" → かんじ)
+    if (ch === "n" && isConsonant(next) && next !== "y") {
+      result += "ん";
+      i += 1;
+      continue;
+    }
+
+    result += ch;
+    i += 1;
+  }
+
+  return result;
+}
@@ -5,14 +5,38 @@
  */
 
 import { useCallback, useEffect, useRef } from "react";
-import { X, Terminal, GitCompare } from "lucide-react";
+import {
+  X,
+  Terminal,
+  GitCompare,
+  GitCompareArrows,
+  Network,
+  SquareKanban,
+  ChartLine,
+  Grid3x3,
+} from "lucide-react";
+import type { LucideIcon } from "lucide-react";
 import type { IDockviewPanelProps, IDockviewPanelHeaderProps } from "dockview-react";
-import type { EditorPanelParams, TerminalPanelParams, DiffPanelParams, BufferId } from "./types";
+import type {
+  EditorPanelParams,
+  TerminalPanelParams,
+  DiffPanelParams,
+  ManuscriptPaperPanelParams,
+  BufferId,
+} from "./types";
 import { useBufferStoreInstance, useBuffer } from "./buffer-store";
 import { useTerminalTabContext } from "@/contexts/TerminalTabContext";
 import { useDiffTabContext } from "@/contexts/DiffTabContext";
+import { useSceneBoardContext } from "@/contexts/SceneBoardContext";
+import { useManuscriptPaperContext } from "@/contexts/ManuscriptPaperContext";
+import { useEditorMode } from "@/contexts/EditorModeContext";
 import RealTerminalPanel from "@/components/TerminalPanel";
 import DiffView from "@/components/DiffView";
+import CompareView from "@/components/CompareView";
+import RelationshipGraph from "@/components/RelationshipGraph";
+import SceneBoard from "@/components/SceneBoard";
+import StatsDashboard from "@/components/StatsDashboard";
+import ManuscriptPaperView from "@/components/ManuscriptPaperView";
 import ContextMenu from "@/shared/ui/ContextMenu";
 import { useContextMenu } from "@/lib/hooks/use-context-menu";
 
@@ -371,6 +395,25 @@ export function DiffPanel({ api, params }: IDockviewPanelProps<DiffPanelParams>)
   );
 }
 
+// ---------------------------------------------------------------------------
+// ComparePanel — comparison of two versions of a document
+// ---------------------------------------------------------------------------
+
+export function ComparePanel({ api }: IDockviewPanelProps) {
+  const { getCompareTabById } = useDiffTabContext();
+  const tab = getCompareTabById(api.id);
+
+  if (!tab) {
+    return (
+      <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+        差分データが見つかりません
+      </div>
+    );
+  }
+
+  return <CompareView tab={tab} />;
+}
+
 // ---------------------------------------------------------------------------
 // DiffTabHeader — tab header for diff tabs
 // ---------------------------------------------------------------------------
@@ -452,6 +495,155 @@ export function DiffTabHeader({ api, params }: IDockviewPanelHeaderProps<DiffPan
   );
 }
 
+// ---------------------------------------------------------------------------
+// RelationshipGraphPanel — 人物関係図 of the open project or file
+// ---------------------------------------------------------------------------
+
+export function RelationshipGraphPanel(_props: IDockviewPanelProps) {
+  const { editorMode } = useEditorMode();
+  return <RelationshipGraph editorMode={editorMode} />;
+}
+
+// ---------------------------------------------------------------------------
+// SceneBoardPanel — シーンボード of the open project
+// ---------------------------------------------------------------------------
+
+export function SceneBoardPanel(_props: IDockviewPanelProps) {
+  const { editorMode } = useEditorMode();
+  const { activeFilePath, activeContent, openScene } = useSceneBoardContext();
+  return (
+    <SceneBoard
+      editorMode={editorMode}
+      activeFilePath={activeFilePath}
+      activeContent={activeContent}
+      onOpenScene={openScene}
+    />
+  );
+}
+
+// ---------------------------------------------------------------------------
+// StatsDashboardPanel — 統計ダッシュボード of the open project
+// ---------------------------------------------------------------------------
+
+export function StatsDashboardPanel(_props: IDockviewPanelProps) {
+  const { editorMode } = useEditorMode();
+  return <StatsDashboard editorMode={editorMode} />;
+}
+
+// ---------------------------------------------------------------------------
+// ManuscriptPaperPanel — 原稿用紙 view of an editor tab
+// ---------------------------------------------------------------------------
+
+export function ManuscriptPaperPanel({ params }: IDockviewPanelProps<ManuscriptPaperPanelParams>) {
+  const { getSourceDocument } = useManuscriptPaperContext();
+  const source = getSourceDocument(params.sourceTabId);
+
+  if (!source) {
+    return (
+      <div className="flex items-center justify-center h-full text-foreground-muted text-sm">
+        元のタブが閉じられました
+      </div>
+    );
+  }
+
+  return <ManuscriptPaperView source={source} />;
+}
+
+// ---------------------------------------------------------------------------
+// ToolTabHeader — tab header of a tool tab (compare, graph, scenes, dashboard, manuscript)
+// ---------------------------------------------------------------------------
+
+function ToolTabHeader({ api, icon: Icon }: IDockviewPanelHeaderProps & { icon: LucideIcon }) {
+  const isActive = api.isActive;
+
+  const handleClose = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      api.close();
+    },
+    [api],
+  );
+
+  const handleMiddleClick = useCallback(
+    (e: React.MouseEvent) => {
+      if (e.button === 1) {
+        e.preventDefault();
+        api.close();
+      }
+    },
+    [api],
+  );
+
+  const handleContextMenu = useCallback(
+    async (e: React.MouseEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      const electronAPI = window.electronAPI;
+      if (electronAPI?.showContextMenu) {
+        const action = await electronAPI.showContextMenu([{ label: "閉じる", action: "close" }]);
+        if (action === "close") {
+          api.close();
+        }
+      } else {
+        api.close();
+      }
+    },
+    [api],
+  );
+
+  return (
+    <div
+      className={`
+        group relative flex items-center gap-1.5 px-3 h-full
+        text-xs whitespace-nowrap transition-colors duration-100
+        cursor-pointer select-none
+        ${isActive ? "text-foreground" : "text-foreground-secondary hover:text-foreground"}
+      `}
+      onMouseDown={handleMiddleClick}
+      onContextMenu={handleContextMenu}
+    >
+      <Icon size={12} className="shrink-0" />
+
+      <span className="truncate">{api.title}</span>
+
+      <span
+        role="button"
+        tabIndex={-1}
+        className={`
+          shrink-0 w-4 h-4 flex items-center justify-center rounded-sm
+          hover:bg-hover-strong transition-colors
+          ${isActive ? "opacity-60 hover:opacity-100" : "opacity-0 group-hover:opacity-60 hover:!opacity-100"}
+        `}
+        onClick={handleClose}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <X size={12} />
+      </span>
+    </div>
+  );
+}
+
+export function CompareTabHeader(props: IDockviewPanelHeaderProps) {
+  return <ToolTabHeader {...props} icon={GitCompareArrows} />;
+}
+
+export function GraphTabHeader(props: IDockviewPanelHeaderProps) {
+  return <ToolTabHeader {...props} icon={Network} />;
+}
+
+export function SceneBoardTabHeader(props: IDockviewPanelHeaderProps) {
+  return <ToolTabHeader {...props} icon={SquareKanban} />;
+}
+
+export function StatsDashboardTabHeader(props: IDockviewPanelHeaderProps) {
+  return <ToolTabHeader {...props} icon={ChartLine} />;
+}
+
+export function ManuscriptPaperTabHeader(props: IDockviewPanelHeaderProps) {
+  return <ToolTabHeader {...props} icon={Grid3x3} />;
+}
+
 // ---------------------------------------------------------------------------
 // Component registry for DockviewReact
 // ---------------------------------------------------------------------------
@@ -460,10 +652,20 @@ export const dockviewComponents = {
   editor: EditorPanel,
   terminal: TerminalPanel,
   diff: DiffPanel,
+  compare: ComparePanel,
+  graph: RelationshipGraphPanel,
+  scenes: SceneBoardPanel,
+  dashboard: StatsDashboardPanel,
+  manuscript: ManuscriptPaperPanel,
 };
 
 export const dockviewTabComponents = {
   default: DockviewTabHeader,
   terminal: TerminalTabHeader,
   diff: DiffTabHeader,
+  compare: CompareTabHeader,
+  graph: GraphTabHeader,
+  scenes: SceneBoardTabHeader,
+  dashboard: StatsDashboardTabHeader,
+  manuscript: ManuscriptPaperTabHeader,
 };
@@ -3,7 +3,16 @@
  */
 
 import type { TabState } from "@/lib/tab-manager/tab-types";
-import { isEditorTab, isTerminalTab, isDiffTab } from "@/lib/tab-manager/tab-types";
+import {
+  isEditorTab,
+  isTerminalTab,
+  isDiffTab,
+  isCompareTab,
+  isGraphTab,
+  isSceneBoardTab,
+  isStatsDashboardTab,
+  isManuscriptPaperTab,
+} from "@/lib/tab-manager/tab-types";
 
 /**
  * Build a stable, ID-independent key for a tab that survives session restarts.
@@ -15,6 +24,11 @@ import { isEditorTab, isTerminalTab, isDiffTab } from "@/lib/tab-manager/tab-typ
  *   - Unsaved editor tab: "unsaved:<tabId>"
  *   - Terminal tab: "terminal:<sessionId>"
  *   - Diff tab: "diff:<sourceTabId>"
+ *   - Compare tab: "compare:<compareKey>"
+ *   - Relationship graph tab: "graph" (there is at most one)
+ *   - Scene board tab: "scenes" (there is at most one)
+ *   - Statistics dashboard tab: "dashboard" (there is at most one)
+ *   - Manuscript paper tab: "manuscript:<sourceTabId>"
  *
  * @param tab - The tab to generate a key for
  * @param occurrences - Mutable map tracking how many times each base path has been seen.
@@ -36,5 +50,20 @@ export function stableKeyForTab(tab: TabState, occurrences?: Map<string, number>
   if (isDiffTab(tab)) {
     return `diff:${tab.sourceTabId}`;
   }
+  if (isCompareTab(tab)) {
+    return `compare:${tab.compareKey}`;
+  }
+  if (isGraphTab(tab)) {
+    return "graph";
+  }
+  if (isSceneBoardTab(tab)) {
+    return "scenes";
+  }
+  if (isStatsDashboardTab(tab)) {
+    return "dashboard";
+  }
+  if (isManuscriptPaperTab(tab)) {
+    return `manuscript:${tab.sourceTabId}`;
+  }
   return null;
 }
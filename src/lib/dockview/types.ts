@@ -73,6 +73,11 @@ export interface DiffPanelParams {
   sourceTabId: string;
 }
 
+/** Params for a manuscript paper panel */
+export interface ManuscriptPaperPanelParams {
+  sourceTabId: string;
+}
+
 // ---------------------------------------------------------------------------
 // Layout persistence
 // ---------------------------------------------------------------------------
@@ -14,19 +14,47 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { DockviewApi, IDockviewPanel } from "dockview-react";
 import type { TabId, TabState } from "@/lib/tab-manager/tab-types";
-import { isEditorTab, isTerminalTab, isDiffTab } from "@/lib/tab-manager/tab-types";
+import {
+  isEditorTab,
+  isTerminalTab,
+  isDiffTab,
+  isCompareTab,
+  isGraphTab,
+  isSceneBoardTab,
+  isStatsDashboardTab,
+  isManuscriptPaperTab,
+} from "@/lib/tab-manager/tab-types";
 import { stableKeyForTab } from "./stable-key";
 import type { UseTabManagerReturn } from "@/lib/tab-manager/types";
 import type {
   EditorPanelParams,
   TerminalPanelParams,
   DiffPanelParams,
+  ManuscriptPaperPanelParams,
   SimplifiedGroupLayout,
 } from "./types";
 import type { WorkspaceDockviewLayout } from "@/lib/project/project-types";
 import { loadDockviewLayout } from "./use-dockview-persistence";
 import { computeMissingEditorPanels, type PanelPlacement } from "./panel-heal";
 
+/** Title of the relationship graph panel (it has no file to be named after). */
+const RELATIONSHIP_GRAPH_TITLE = "人物関係図";
+/** Title of the scene board panel. */
+const SCENE_BOARD_TITLE = "シーンボード";
+/** Title of the statistics dashboard panel. */
+const STATS_DASHBOARD_TITLE = "統計ダッシュボード";
+/** Title prefix of a manuscript paper panel, followed by its source file name. */
+const MANUSCRIPT_PAPER_TITLE = "原稿用紙";
+/** Title prefix of a compare panel, followed by the compared file name. */
+const COMPARE_TITLE = "比較";
+
+/** Title of a manuscript paper panel: the prefix and the name of the tab it shows. */
+function manuscriptPaperTitle(sourceTabId: string, tabs: readonly TabState[]): string {
+  const source = tabs.find((t) => t.id === sourceTabId);
+  if (!source || !isEditorTab(source)) return MANUSCRIPT_PAPER_TITLE;
+  return `${MANUSCRIPT_PAPER_TITLE}：${source.file?.name ?? `新規ファイル${source.fileType}`}`;
+}
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -455,6 +483,42 @@ export function useDockviewAdapter({
           title: tab.sourceFileName,
           params: { sourceTabId: tab.sourceTabId },
         });
+      } else if (isCompareTab(tab)) {
+        api.addPanel({
+          id: tab.id,
+          component: "compare",
+          tabComponent: "compare",
+          title: `${COMPARE_TITLE}：${tab.sourceFileName}`,
+        });
+      } else if (isGraphTab(tab)) {
+        api.addPanel({
+          id: tab.id,
+          component: "graph",
+          tabComponent: "graph",
+          title: RELATIONSHIP_GRAPH_TITLE,
+        });
+      } else if (isSceneBoardTab(tab)) {
+        api.addPanel({
+          id: tab.id,
+          component: "scenes",
+          tabComponent: "scenes",
+          title: SCENE_BOARD_TITLE,
+        });
+      } else if (isStatsDashboardTab(tab)) {
+        api.addPanel({
+          id: tab.id,
+          component: "dashboard",
+          tabComponent: "dashboard",
+          title: STATS_DASHBOARD_TITLE,
+        });
+      } else if (isManuscriptPaperTab(tab)) {
+        api.addPanel<ManuscriptPaperPanelParams>({
+          id: tab.id,
+          component: "manuscript",
+          tabComponent: "manuscript",
+          title: manuscriptPaperTitle(tab.sourceTabId, currentTabs),
+          params: { sourceTabId: tab.sourceTabId },
+        });
       }
     }
 
@@ -623,6 +687,42 @@ export function useDockviewAdapter({
             title: tab.sourceFileName,
             params: { sourceTabId: tab.sourceTabId },
           });
+        } else if (isCompareTab(tab)) {
+          api.addPanel({
+            id: tab.id,
+            component: "compare",
+            tabComponent: "compare",
+            title: `${COMPARE_TITLE}：${tab.sourceFileName}`,
+          });
+        } else if (isGraphTab(tab)) {
+          api.addPanel({
+            id: tab.id,
+            component: "graph",
+            tabComponent: "graph",
+            title: RELATIONSHIP_GRAPH_TITLE,
+          });
+        } else if (isSceneBoardTab(tab)) {
+          api.addPanel({
+            id: tab.id,
+            component: "scenes",
+            tabComponent: "scenes",
+            title: SCENE_BOARD_TITLE,
+          });
+        } else if (isStatsDashboardTab(tab)) {
+          api.addPanel({
+            id: tab.id,
+            component: "dashboard",
+            tabComponent: "dashboard",
+            title: STATS_DASHBOARD_TITLE,
+          });
+        } else if (isManuscriptPaperTab(tab)) {
+          api.addPanel<ManuscriptPaperPanelParams>({
+            id: tab.id,
+            component: "manuscript",
+            tabComponent: "manuscript",
+            title: manuscriptPaperTitle(tab.sourceTabId, tabs),
+            params: { sourceTabId: tab.sourceTabId },
+          });
         }
       } catch (err) {
         // Duplicates are prevented by the prevTabsRef diff (onReady records the
@@ -676,6 +776,12 @@ export function useDockviewAdapter({
         if (panel.title !== tab.sourceFileName) {
           panel.api.setTitle(tab.sourceFileName);
         }
+      } else if (isManuscriptPaperTab(tab)) {
+        // Follows renames and saves of the source tab
+        const title = manuscriptPaperTitle(tab.sourceTabId, tabs);
+        if (panel.title !== title) {
+          panel.api.setTitle(title);
+        }
       }
     }
 
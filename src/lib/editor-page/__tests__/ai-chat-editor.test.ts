@@ -0,0 +1,124 @@
+/**
+ * AI アシスタントチャットのエディタ操作: 現在の章の取得と、返信の文章のカーソル位置への挿入。
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
+import { commonmark } from "@milkdown/preset-commonmark";
+import { TextSelection } from "@milkdown/prose/state";
+import type { EditorView } from "@milkdown/prose/view";
+
+import { getChapterAtCursor, getSelectionText, insertProseAtCursor } from "../ai-chat-editor";
+import { parseMarkdownChapters } from "@/lib/utils";
+
+const mountedRoots: HTMLElement[] = [];
+afterEach(() => {
+  mountedRoots.forEach((r) => r.remove());
+  mountedRoots.length = 0;
+});
+
+const MARKDOWN = [
+  "前書き",
+  "",
+  "# 第一章",
+  "",
+  "朝が来た。",
+  "",
+  "## 一節",
+  "",
+  "駅へ向かう。",
+  "",
+  "# 第二章",
+  "",
+  "夜になった。",
+].join("\n");
+
+async function makeView(markdown = MARKDOWN): Promise<EditorView> {
+  const root = document.createElement("div");
+  document.body.appendChild(root);
+  mountedRoots.push(root);
+  const editor = await Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, root);
+      ctx.set(defaultValueCtx, markdown);
+    })
+    .use(commonmark)
+    .create();
+  let view!: EditorView;
+  editor.action((ctx) => {
+    view = ctx.get(editorViewCtx);
+  });
+  return view;
+}
+
+/** Put the cursor (or a selection) at the first occurrence of `text`. */
+function selectText(view: EditorView, text: string, length = 0): void {
+  let found = -1;
+  view.state.doc.descendants((node, pos) => {
+    if (found === -1 && node.isText && node.text?.includes(text)) {
+      found = pos + node.text.indexOf(text);
+    }
+  });
+  view.dispatch(
+    view.state.tr.setSelection(TextSelection.create(view.state.doc, found, found + length)),
+  );
+}
+
+describe("getChapterAtCursor", () => {
+  it("下位の見出しを含めて次の同レベルの見出しまでを返す", async () => {
+    const view = await makeView();
+    selectText(view, "朝が来た");
+
+    const chapter = getChapterAtCursor(view, parseMarkdownChapters(MARKDOWN));
+    expect(chapter?.title).toBe("第一章");
+    expect(chapter?.text).toBe("第一章\n朝が来た。\n一節\n駅へ向かう。");
+  });
+
+  it("下位の節ではその節だけを返す", async () => {
+    const view = await makeView();
+    selectText(view, "駅へ");
+
+    expect(getChapterAtCursor(view, parseMarkdownChapters(MARKDOWN))?.text).toBe(
+      "一節\n駅へ向かう。",
+    );
+  });
+
+  it("最初の見出しより前では null", async () => {
+    const view = await makeView();
+    selectText(view, "前書き");
+
+    expect(getChapterAtCursor(view, parseMarkdownChapters(MARKDOWN))).toBeNull();
+  });
+});
+
+describe("getSelectionText / insertProseAtCursor", () => {
+  it("選択範囲のテキストを取得する", async () => {
+    const view = await makeView();
+    selectText(view, "朝が来た", 4);
+
+    expect(getSelectionText(view)).toBe("朝が来た");
+  });
+
+  it("1行の文章は段落内に挿入する", async () => {
+    const view = await makeView("雨が降る。");
+    selectText(view, "降る");
+
+    expect(insertProseAtCursor(view, "激しく")).toBe(true);
+    expect(view.state.doc.textContent).toBe("雨が激しく降る。");
+  });
+
+  it("複数行の文章は段落に分けて挿入する", async () => {
+    const view = await makeView("始まり。終わり。");
+    selectText(view, "終わり");
+
+    insertProseAtCursor(view, "一行目。\n\n二行目。");
+    const paragraphs: string[] = [];
+    view.state.doc.forEach((node) => paragraphs.push(node.textContent));
+    expect(paragraphs).toEqual(["始まり。一行目。", "二行目。終わり。"]);
+  });
+
+  it("空の文章は挿入しない", async () => {
+    const view = await makeView("本文。");
+    expect(insertProseAtCursor(view, "\n \n")).toBe(false);
+    expect(view.state.doc.textContent).toBe("本文。");
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * AI 書き換えのインラインレビュー: 差分ごとの採用・却下と、
+ * 採用分が1回の取り消しで戻る1つの変更として反映されることを検証する。
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
+import { commonmark } from "@milkdown/preset-commonmark";
+import { history } from "@milkdown/plugin-history";
+import { undo } from "@milkdown/prose/history";
+import type { EditorView } from "@milkdown/prose/view";
+import { $prose } from "@milkdown/utils";
+
+import {
+  applyRewriteReview,
+  cancelRewriteReview,
+  createAiRewriteReviewPlugin,
+  decideRewriteHunks,
+  getRewriteReview,
+  startRewriteReview,
+} from "../ai-rewrite-review-plugin";
+import type { RewriteReview } from "../ai-rewrite-review-plugin";
+import { buildRewriteHunks } from "../rewrite-hunks";
+
+const mountedRoots: HTMLElement[] = [];
+afterEach(() => {
+  mountedRoots.forEach((r) => r.remove());
+  mountedRoots.length = 0;
+});
+
+const ORIGINAL = "朝、私は駅まで歩いた。";
+const SUGGESTION = "朝、僕は駅まで走った。";
+
+async function makeView(
+  onChange: (review: RewriteReview | null) => void = () => {},
+): Promise<EditorView> {
+  const root = document.createElement("div");
+  document.body.appendChild(root);
+  mountedRoots.push(root);
+  const editor = await Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, root);
+      ctx.set(defaultValueCtx, ORIGINAL);
+    })
+    .use(commonmark)
+    .use(history)
+    .use($prose(() => createAiRewriteReviewPlugin(onChange)))
+    .create();
+  let view!: EditorView;
+  editor.action((ctx) => {
+    view = ctx.get(editorViewCtx);
+  });
+  return view;
+}
+
+/** Open a review of the whole first paragraph. */
+function startReview(view: EditorView): void {
+  startRewriteReview(view, {
+    from: 1,
+    intentLabel: "視点を一人称に",
+    explanation: "一人称を変更しました。",
+    hunks: buildRewriteHunks(ORIGINAL, SUGGESTION),
+  });
+}
+
+describe("ai-rewrite-review-plugin", () => {
+  it("レビュー中は本文を変更せず、差分をデコレーションで表示する", async () => {
+    const reviews: Array<RewriteReview | null> = [];
+    const view = await makeView((review) => reviews.push(review));
+    startReview(view);
+
+    expect(view.state.doc.textContent).toBe(ORIGINAL);
+    expect(getRewriteReview(view.state)?.hunks).toHaveLength(2);
+    expect(reviews.at(-1)?.intentLabel).toBe("視点を一人称に");
+    expect(view.dom.querySelectorAll(".ai-rewrite-removed")).toHaveLength(2);
+    expect(view.dom.querySelector(".ai-rewrite-inserted")?.textContent).toBe("僕");
+  });
+
+  it("採用した差分だけを反映し、1回の取り消しで元に戻る", async () => {
+    const view = await makeView();
+    startReview(view);
+    decideRewriteHunks(view, [1], "accepted");
+
+    expect(applyRewriteReview(view)).toEqual({ applied: 1, skipped: 0 });
+    expect(view.state.doc.textContent).toBe("朝、私は駅まで走った。");
+    expect(getRewriteReview(view.state)).toBeNull();
+
+    undo(view.state, view.dispatch);
+    expect(view.state.doc.textContent).toBe(ORIGINAL);
+  });
+
+  it("すべて採用すると提案文になる", async () => {
+    const view = await makeView();
+    startReview(view);
+    decideRewriteHunks(view, "all", "accepted");
+    applyRewriteReview(view);
+
+    expect(view.state.doc.textContent).toBe(SUGGESTION);
+  });
+
+  it("破棄すると本文はそのまま", async () => {
+    const view = await makeView();
+    startReview(view);
+    decideRewriteHunks(view, "all", "accepted");
+    cancelRewriteReview(view);
+
+    expect(getRewriteReview(view.state)).toBeNull();
+    expect(view.state.doc.textContent).toBe(ORIGINAL);
+  });
+
+  it("レビュー中の編集に追従し、編集された差分は反映しない", async () => {
+    const view = await makeView();
+    startReview(view);
+    // Insert before both hunks, then edit inside the second one.
+    view.dispatch(view.state.tr.insertText("翌", 1));
+    const second = getRewriteReview(view.state)!.hunks[1];
+    view.dispatch(view.state.tr.insertText("き", second.from, second.to));
+    decideRewriteHunks(view, "all", "accepted");
+
+    expect(applyRewriteReview(view)).toEqual({ applied: 1, skipped: 1 });
+    expect(view.state.doc.textContent).toBe("翌朝、僕は駅まできた。");
+  });
+});
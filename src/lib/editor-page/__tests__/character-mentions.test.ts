@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  analyzeMentionParagraph,
+  buildCharacterMentionIndex,
+  layoutMentionParagraphs,
+  PREFACE_CHAPTER_TITLE,
+} from "@/lib/editor-page/character-mentions";
+import type { Character } from "@/lib/project/project-types";
+import type { Token } from "@/lib/nlp-client/types";
+
+function character(id: string, name: string, aliases: string[] = []): Character {
+  return {
+    id,
+    name,
+    aliases,
+    description: "",
+    appearance: "",
+    personality: "",
+    relationships: [],
+  };
+}
+
+/** Tokens covering `text` split at the given surfaces. */
+function tokensOf(surfaces: Array<string | [string, string]>): Token[] {
+  let start = 0;
+  return surfaces.map((entry) => {
+    const [surface, detail2] = typeof entry === "string" ? [entry, undefined] : entry;
+    const token: Token = {
+      surface,
+      pos: detail2 ? "名詞" : "その他",
+      pos_detail_1: detail2 ? "固有名詞" : undefined,
+      pos_detail_2: detail2,
+      start,
+      end: start + surface.length,
+    };
+    start += surface.length;
+    return token;
+  });
+}
+
+const AOI = character("a", "葵", ["葵ちゃん"]);
+const REN = character("r", "蓮");
+
+describe("layoutMentionParagraphs", () => {
+  it("最上位の見出しで章に分け、見出し前の本文は冒頭の章にする", () => {
+    const layout = layoutMentionParagraphs(
+      "前書き\n\n## 一\n\n{葵|あおい}が来た。\n\n### 節\n\n## 二\n\n```\n葵\n```\n蓮",
+    );
+    expect(layout.chapters.map((c) => c.title)).toEqual([PREFACE_CHAPTER_TITLE, "一", "二"]);
+    expect(layout.chapters[0].level).toBe(2);
+    expect(layout.paragraphs).toEqual([
+      { chapter: 0, text: "前書き" },
+      { chapter: 1, text: "葵が来た。" },
+      { chapter: 1, text: "節" },
+      { chapter: 2, text: "蓮" },
+    ]);
+  });
+});
+
+describe("analyzeMentionParagraph", () => {
+  it("別名を含めて数え、長い別名を優先する", () => {
+    const result = analyzeMentionParagraph("葵ちゃんと葵と蓮。", [AOI, REN], null);
+    expect(result.counts).toEqual({ a: 2, r: 1 });
+  });
+
+  it("形態素の境界に合わない一致は数えない", () => {
+    const hina = character("h", "陽");
+    const tokens = tokensOf(["太陽", "が", "陽", "を", "照らす"]);
+    expect(analyzeMentionParagraph("太陽が陽を照らす", [hina], tokens).counts).toEqual({ h: 1 });
+  });
+
+  it("鉤括弧の外で名指しされた一人に台詞を帰属させる", () => {
+    expect(analyzeMentionParagraph("「行こう」と葵は言った。", [AOI, REN], null).speaker).toBe("a");
+    expect(analyzeMentionParagraph("蓮「待って、葵」", [AOI, REN], null).speaker).toBe("r");
+    expect(analyzeMentionParagraph("「行こう」と葵は蓮に言った。", [AOI, REN], null).speaker).toBe(
+      null,
+    );
+    expect(analyzeMentionParagraph("葵は歩いた。", [AOI], null).speaker).toBe(null);
+  });
+
+  it("登録されていない人名を候補として返す", () => {
+    const tokens = tokensOf([["葵", "人名"], "と", ["健太", "人名"], "が", "来た"]);
+    expect(analyzeMentionParagraph("葵と健太が来た", [AOI], tokens).unknownNames).toEqual(["健太"]);
+  });
+});
+
+describe("buildCharacterMentionIndex", () => {
+  it("章ごとの言及数・初出・最終出現・台詞数を集計する", () => {
+    const layout = layoutMentionParagraphs(
+      "# 一\n\n「やあ」と葵は言った。\n\n# 二\n\n静かな夜。\n\n# 三\n\n葵と蓮。",
+    );
+    const characters = [AOI, REN, character("k", "楓")];
+    const results = layout.paragraphs.map((p) => analyzeMentionParagraph(p.text, characters, null));
+    const index = buildCharacterMentionIndex(layout, characters, results);
+
+    const [aoi, ren, kaede] = index.rows;
+    expect(aoi).toMatchObject({
+      counts: [1, 0, 1],
+      dialogue: [1, 0, 0],
+      total: 2,
+      firstChapter: 0,
+      lastChapter: 2,
+    });
+    expect(ren).toMatchObject({ counts: [0, 0, 1], firstChapter: 2, lastChapter: 2 });
+    expect(kaede).toMatchObject({ total: 0, firstChapter: null, lastChapter: null });
+  });
+});
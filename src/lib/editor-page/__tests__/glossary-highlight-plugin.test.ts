@@ -0,0 +1,89 @@
+/**
+ * 用語集ハイライト: 公開された用語集の用語・許容表記をマークし、
+ * 編集と用語集の更新に追従することを検証する。
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
+import { commonmark } from "@milkdown/preset-commonmark";
+import type { EditorView } from "@milkdown/prose/view";
+import { $prose } from "@milkdown/utils";
+
+import { createGlossaryHighlightPlugin } from "../glossary-highlight-plugin";
+import type { GlossaryHover } from "../glossary-highlight-plugin";
+import { setGlossaryEntries } from "@/lib/linting/glossary-terms";
+
+const mountedRoots: HTMLElement[] = [];
+afterEach(() => {
+  mountedRoots.forEach((r) => r.remove());
+  mountedRoots.length = 0;
+  setGlossaryEntries([]);
+});
+
+async function makeView(
+  markdown: string,
+  onHover: (hover: GlossaryHover | null) => void = () => {},
+): Promise<EditorView> {
+  const root = document.createElement("div");
+  document.body.appendChild(root);
+  mountedRoots.push(root);
+  const editor = await Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, root);
+      ctx.set(defaultValueCtx, markdown);
+    })
+    .use(commonmark)
+    .use($prose(() => createGlossaryHighlightPlugin(onHover)))
+    .create();
+  let view!: EditorView;
+  editor.action((ctx) => {
+    view = ctx.get(editorViewCtx);
+  });
+  return view;
+}
+
+function marked(view: EditorView): Array<[string, string | undefined]> {
+  return [...view.dom.querySelectorAll<HTMLElement>(".glossary-term")].map((el) => [
+    el.textContent ?? "",
+    el.dataset.glossaryId,
+  ]);
+}
+
+describe("glossary-highlight-plugin", () => {
+  it("用語と許容表記を用語の id 付きでマークする", async () => {
+    setGlossaryEntries([
+      { id: "m", term: "魔導士", definition: "", variants: ["魔導師"] },
+      { id: "o", term: "王都", definition: "", variants: [] },
+    ]);
+    const view = await makeView("魔導士が王都へ。\n\n魔導師は残った。");
+    expect(marked(view)).toEqual([
+      ["魔導士", "m"],
+      ["王都", "o"],
+      ["魔導師", "m"],
+    ]);
+  });
+
+  it("編集された段落だけをマークし直す", async () => {
+    setGlossaryEntries([{ id: "o", term: "王都", definition: "", variants: [] }]);
+    const view = await makeView("王都へ。\n\n森へ。");
+    const secondParagraph = view.state.doc.child(0).nodeSize + 1;
+    view.dispatch(view.state.tr.insertText("王都と", secondParagraph));
+    expect(marked(view).map(([text]) => text)).toEqual(["王都", "王都"]);
+  });
+
+  it("用語集が公開し直されるとマークし直す", async () => {
+    const view = await makeView("王都へ。");
+    expect(marked(view)).toEqual([]);
+    setGlossaryEntries([{ id: "o", term: "王都", definition: "", variants: [] }]);
+    expect(marked(view)).toEqual([["王都", "o"]]);
+  });
+
+  it("用語へのホバーを通知する", async () => {
+    setGlossaryEntries([{ id: "o", term: "王都", definition: "", variants: [] }]);
+    const hovers: Array<GlossaryHover | null> = [];
+    const view = await makeView("王都へ。", (hover) => hovers.push(hover));
+    const term = view.dom.querySelector(".glossary-term");
+    term?.dispatchEvent(new MouseEvent("mouseover", { bubbles: true }));
+    term?.dispatchEvent(new MouseEvent("mouseout", { bubbles: true, relatedTarget: view.dom }));
+    expect(hovers.map((h) => h?.entryId ?? null)).toEqual(["o", null]);
+  });
+});
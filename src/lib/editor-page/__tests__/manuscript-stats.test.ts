@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildStatsSeries,
+  chapterLengths,
+  chaptersToCsv,
+  computeSnapshotMetrics,
+  countDialogueChars,
+  toCsv,
+  vocabularyRichness,
+} from "@/lib/editor-page/manuscript-stats";
+import type { TimedMetrics } from "@/lib/editor-page/manuscript-stats";
+import type { SnapshotMetrics } from "@/lib/project/project-types";
+
+function at(day: number, hour = 12): number {
+  return new Date(2026, 2, day, hour).getTime();
+}
+
+function version(
+  timestamp: number,
+  chars: number,
+  extra: Partial<SnapshotMetrics> = {},
+): TimedMetrics {
+  return {
+    timestamp,
+    metrics: {
+      snapshotId: String(timestamp),
+      chars,
+      pages: Math.ceil(chars / 400),
+      readability: 60,
+      dialogueChars: 0,
+      vocabularyRichness: 2,
+      ...extra,
+    },
+  };
+}
+
+describe("text metrics", () => {
+  it("会話文は「」『』の中の文字を入れ子も含めて数える", () => {
+    expect(countDialogueChars("彼は言った。「それは『夢』だ」と。")).toBe(5);
+    expect(countDialogueChars("「 あ 」")).toBe(1);
+  });
+
+  it("語彙の豊かさは漢字・カタカナ語のギロー指数", () => {
+    // 4 words, 2 distinct → 2 / √4
+    expect(vocabularyRichness("魔法と魔法、勇者と勇者")).toBe(1);
+    expect(vocabularyRichness("ひらがなだけ")).toBe(0);
+  });
+
+  it("スナップショットの指標をまとめて計算する", () => {
+    const metrics = computeSnapshotMetrics("s1", "# 第一章\n\n「行こう」と勇者は言った。", ".mdi");
+    expect(metrics).toMatchObject({ snapshotId: "s1", dialogueChars: 3, pages: 1 });
+    expect(metrics.chars).toBeGreaterThan(10);
+    expect(metrics.readability).toBeGreaterThan(0);
+  });
+});
+
+describe("buildStatsSeries", () => {
+  it("日ごとに各ファイルの最後の版を合計し、最初の版より前は数えない", () => {
+    const history = new Map<string, TimedMetrics[]>([
+      [
+        "a.mdi",
+        [
+          version(at(1, 9), 100),
+          version(at(1, 20), 300, { readability: 80, dialogueChars: 30 }),
+          version(at(3), 500, { readability: 40, dialogueChars: 50 }),
+        ],
+      ],
+      ["b.mdi", [version(at(2), 100, { readability: 20, dialogueChars: 60 })]],
+    ]);
+    expect(buildStatsSeries(history)).toEqual([
+      {
+        dateKey: "2026-03-01",
+        chars: 300,
+        pages: 1,
+        readability: 80,
+        dialogueRatio: 0.1,
+        vocabularyRichness: 2,
+      },
+      {
+        dateKey: "2026-03-02",
+        chars: 400,
+        pages: 2,
+        readability: 65,
+        dialogueRatio: 0.225,
+        vocabularyRichness: 2,
+      },
+      {
+        dateKey: "2026-03-03",
+        chars: 600,
+        pages: 3,
+        readability: 37,
+        dialogueRatio: 110 / 600,
+        vocabularyRichness: 2,
+      },
+    ]);
+  });
+});
+
+describe("chapterLengths", () => {
+  it("最上位の見出しで区切り、見出し前の本文は冒頭として数える", () => {
+    const content = "前書き\n\n# 一\n\nあいう\n\n## 小見出し\n\nえお\n\n# 二\n\nかきくけこ";
+    expect(chapterLengths("novel/a.mdi", content, ".mdi")).toEqual([
+      { path: "novel/a.mdi", title: "（冒頭）", chars: 3 },
+      { path: "novel/a.mdi", title: "一", chars: 9 },
+      { path: "novel/a.mdi", title: "二", chars: 5 },
+    ]);
+  });
+
+  it("見出しのないファイルはファイル名の1章", () => {
+    expect(chapterLengths("novel/短編.txt", "# 記号も本文", ".txt")).toEqual([
+      { path: "novel/短編.txt", title: "短編", chars: 6 },
+    ]);
+  });
+});
+
+describe("CSV", () => {
+  it("区切り・引用符・改行を含む値を引用する", () => {
+    expect(
+      toCsv([
+        ["a", 1],
+        ['言う"か"', "x,y"],
+      ]),
+    ).toBe('a,1\r\n"言う""か""","x,y"\r\n');
+    expect(chaptersToCsv([{ path: "a.mdi", title: "一", chars: 3 }])).toBe(
+      "ファイル,章,文字数\r\na.mdi,一,3\r\n",
+    );
+  });
+});
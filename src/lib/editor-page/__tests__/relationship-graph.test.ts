@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  buildGraphEdges,
+  collectCharacterTags,
+  filterCharactersByTag,
+  layoutGraphNodes,
+} from "@/lib/editor-page/relationship-graph";
+import type { Character, CharacterRelationship } from "@/lib/project/project-types";
+
+function character(
+  id: string,
+  tags: string[] = [],
+  relationships: CharacterRelationship[] = [],
+): Character {
+  return {
+    id,
+    name: id,
+    aliases: [],
+    description: "",
+    appearance: "",
+    personality: "",
+    relationships,
+    tags,
+  };
+}
+
+function rel(id: string, targetId: string): CharacterRelationship {
+  return { id, targetId, label: id, direction: "forward" };
+}
+
+const SIZE = { width: 400, height: 400 };
+
+describe("layoutGraphNodes", () => {
+  it("保存済みの位置を使い、未配置の人物だけ円周上に並べる", () => {
+    const nodes = layoutGraphNodes(
+      [character("a"), character("b"), character("c")],
+      [
+        { characterId: "b", x: 10, y: 20 },
+        { characterId: "deleted", x: 0, y: 0 },
+      ],
+      SIZE,
+    );
+    expect(nodes.map((n) => n.characterId)).toEqual(["a", "b", "c"]);
+    expect(nodes[1]).toEqual({ characterId: "b", x: 10, y: 20 });
+    // 最初の未配置の人物は中心の真上
+    expect(nodes[0].x).toBe(200);
+    expect(nodes[0].y).toBeLessThan(200);
+    expect(nodes[2].y).toBeGreaterThan(200);
+  });
+});
+
+describe("filterCharactersByTag", () => {
+  it("タグで絞り込み、null なら全員を返す", () => {
+    const characters = [character("a", ["主人公"]), character("b", ["敵"]), character("c")];
+    expect(collectCharacterTags(characters)).toEqual(["主人公", "敵"]);
+    expect(filterCharactersByTag(characters, "敵").map((c) => c.id)).toEqual(["b"]);
+    expect(filterCharactersByTag(characters, null)).toHaveLength(3);
+  });
+});
+
+describe("buildGraphEdges", () => {
+  const positions = new Map([
+    ["a", { x: 0, y: 0 }],
+    ["b", { x: 200, y: 0 }],
+  ]);
+
+  it("表示されていない人物への関係と自分自身への関係は描かない", () => {
+    const edges = buildGraphEdges(
+      [character("a", [], [rel("r1", "b"), rel("r2", "c"), rel("r3", "a")]), character("b")],
+      positions,
+    );
+    expect(edges.map((e) => e.relationshipId)).toEqual(["r1"]);
+    expect(edges[0]).toMatchObject({ sourceId: "a", targetId: "b", labelPoint: { x: 100, y: 0 } });
+  });
+
+  it("同じ二人の間の関係は互いに重ならないよう曲げる", () => {
+    const edges = buildGraphEdges(
+      [character("a", [], [rel("r1", "b")]), character("b", [], [rel("r2", "a")])],
+      positions,
+    );
+    const [ab, ba] = edges.map((e) => e.labelPoint.y);
+    expect(ab).not.toBe(ba);
+    expect(ab + ba).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+
+import { buildRewriteHunks } from "../rewrite-hunks";
+
+/** Apply every hunk to `original` (back to front). */
+function applyAll(original: string, suggestion: string): string {
+  let text = original;
+  for (const hunk of [...buildRewriteHunks(original, suggestion)].reverse()) {
+    text = text.slice(0, hunk.start) + hunk.inserted + text.slice(hunk.end);
+  }
+  return text;
+}
+
+describe("buildRewriteHunks", () => {
+  it("同一テキストでは差分なし", () => {
+    expect(buildRewriteHunks("吾輩は猫である。", "吾輩は猫である。")).toEqual([]);
+  });
+
+  it("置換を元テキスト上の範囲つきで返す", () => {
+    expect(buildRewriteHunks("彼はとても速く走った。", "彼は速く走った。")).toEqual([
+      { start: 2, end: 5, removed: "とても", inserted: "" },
+    ]);
+  });
+
+  it("1文字だけの共通部分を挟む変更は1つにまとめる", () => {
+    const hunks = buildRewriteHunks("私は歩いた", "僕は走った");
+    expect(hunks).toEqual([{ start: 0, end: 4, removed: "私は歩い", inserted: "僕は走っ" }]);
+  });
+
+  it("十分に離れた変更は別々の差分になる", () => {
+    const hunks = buildRewriteHunks("朝、私は駅まで歩いた。", "朝、僕は駅まで走った。");
+    expect(hunks.map((h) => [h.removed, h.inserted])).toEqual([
+      ["私", "僕"],
+      ["歩い", "走っ"],
+    ]);
+  });
+
+  it("すべての差分を適用すると提案文になる", () => {
+    const cases: Array<[string, string]> = [
+      [
+        "春はあけぼの。やうやう白くなりゆく山ぎは。",
+        "春は夜明けがいい。だんだん白くなっていく山際。",
+      ],
+      ["", "書き出し"],
+      ["消える文", ""],
+    ];
+    for (const [original, suggestion] of cases) {
+      expect(applyAll(original, suggestion)).toBe(suggestion);
+    }
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  applySceneOrderToManifest,
+  compareStoryTime,
+  findChronologyWarnings,
+  moveScene,
+  parseStoryTime,
+  scenesFromChapters,
+} from "@/lib/editor-page/scene-board";
+import type { CompileManifestFile, Scene } from "@/lib/project/project-types";
+import { parseMarkdownChapters } from "@/lib/utils";
+
+function scene(id: string, storyTime?: string, extra: Partial<Scene> = {}): Scene {
+  return { id, title: id, status: "idea", storyTime, tags: [], ...extra };
+}
+
+describe("parseStoryTime", () => {
+  it("年月日と時間帯の語を読む（漢数字・全角数字を含む）", () => {
+    expect(parseStoryTime("帝国暦三百十二年四月三日 夜")).toEqual({
+      year: 312,
+      month: 4,
+      day: 3,
+      minutes: 20 * 60,
+    });
+    expect(parseStoryTime("４月１５日 午後３時半")).toEqual({
+      month: 4,
+      day: 15,
+      minutes: 15 * 60 + 30,
+    });
+  });
+
+  it("数字区切りの日付・時刻と N日目 を読む", () => {
+    expect(parseStoryTime("1998/4/3 21:05")).toEqual({
+      year: 1998,
+      month: 4,
+      day: 3,
+      minutes: 21 * 60 + 5,
+    });
+    expect(parseStoryTime("3日目 早朝")).toEqual({ dayIndex: 3, minutes: 5 * 60 });
+  });
+
+  it("読める部分がなければ null", () => {
+    expect(parseStoryTime("ある晴れた日")).toBeNull();
+  });
+});
+
+describe("compareStoryTime", () => {
+  it("共通する日付の部分で比べ、同日なら時刻で比べる", () => {
+    const t = (text: string) => parseStoryTime(text)!;
+    expect(compareStoryTime(t("4月3日 朝"), t("4月3日 夜"))).toBeLessThan(0);
+    expect(compareStoryTime(t("312年4月3日"), t("4月2日"))).toBeNull();
+    expect(compareStoryTime(t("4月3日"), t("4月3日 夜"))).toBe(0);
+  });
+
+  it("形の違う日付や時間帯だけは比べない", () => {
+    const t = (text: string) => parseStoryTime(text)!;
+    expect(compareStoryTime(t("3日目"), t("4月3日"))).toBeNull();
+    expect(compareStoryTime(t("朝"), t("夜"))).toBeNull();
+  });
+});
+
+describe("findChronologyWarnings", () => {
+  it("直前の日時より前に戻ったシーンを指摘する", () => {
+    const scenes = [scene("a", "4月3日 夜"), scene("b", "4月3日 朝"), scene("c", "4月4日")];
+    expect(findChronologyWarnings(scenes)).toEqual([{ sceneId: "b", previousSceneId: "a" }]);
+  });
+
+  it("回想タグのシーンと日時のないシーンは飛ばす", () => {
+    const scenes = [
+      scene("a", "4月3日"),
+      scene("b", "3月1日", { tags: ["回想"] }),
+      scene("c", "4月1日", { tags: ["Flashback"] }),
+      scene("d"),
+      scene("e", "4月5日"),
+    ];
+    expect(findChronologyWarnings(scenes)).toEqual([]);
+  });
+});
+
+describe("scenesFromChapters", () => {
+  it("まだリンクされていない見出しからシーンを作る", () => {
+    const chapters = parseMarkdownChapters("# 第一章\n\n本文\n\n## 出立\n\n## 峠");
+    const existing = [
+      scene("x", undefined, { filePath: "a.mdi", headingAnchor: "%E5%87%BA%E7%AB%8B" }),
+    ];
+    let n = 0;
+    const created = scenesFromChapters(chapters, "a.mdi", existing, () => `s${++n}`);
+    expect(created).toEqual([
+      {
+        id: "s1",
+        title: "第一章",
+        status: "idea",
+        filePath: "a.mdi",
+        headingAnchor: encodeURIComponent("第一章"),
+        tags: [],
+      },
+      {
+        id: "s2",
+        title: "峠",
+        status: "idea",
+        filePath: "a.mdi",
+        headingAnchor: encodeURIComponent("峠"),
+        tags: [],
+      },
+    ]);
+  });
+});
+
+describe("moveScene", () => {
+  it("指定位置へ移動する", () => {
+    const scenes = [scene("a"), scene("b"), scene("c")];
+    expect(moveScene(scenes, 2, 0).map((s) => s.id)).toEqual(["c", "a", "b"]);
+    expect(moveScene(scenes, 0, 5).map((s) => s.id)).toEqual(["b", "c", "a"]);
+  });
+});
+
+describe("applySceneOrderToManifest", () => {
+  it("シーンのあるファイルだけを、それらの位置の中でシーン順に並べ替える", () => {
+    const manifest: CompileManifestFile = {
+      version: "1.0.0",
+      frontMatter: { title: "", author: "", titlePage: false },
+      items: [
+        { type: "part", id: "p", title: "第一部", include: true },
+        { type: "file", path: "1.mdi", include: true, chapterBreak: true },
+        { type: "file", path: "notes.md", include: false, chapterBreak: true },
+        { type: "file", path: "2.mdi", include: true, chapterBreak: false },
+        { type: "file", path: "3.mdi", include: true, chapterBreak: true },
+      ],
+    };
+    const scenes = [
+      scene("a", undefined, { filePath: "3.mdi" }),
+      scene("b", undefined, { filePath: "1.mdi" }),
+      scene("c", undefined, { filePath: "3.mdi" }),
+      scene("d", undefined, { filePath: "2.mdi" }),
+      scene("e", undefined, { filePath: "deleted.mdi" }),
+    ];
+    const items = applySceneOrderToManifest(manifest, scenes).items;
+    expect(items.map((item) => (item.type === "file" ? item.path : item.title))).toEqual([
+      "第一部",
+      "3.mdi",
+      "notes.md",
+      "1.mdi",
+      "2.mdi",
+    ]);
+    expect(items[4]).toEqual({ type: "file", path: "2.mdi", include: true, chapterBreak: false });
+  });
+});
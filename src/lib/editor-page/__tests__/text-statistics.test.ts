@@ -7,6 +7,8 @@ import {
   countManuscriptPages,
   countParagraphs,
   computeTextStatistics,
+  extractManuscriptCells,
+  layoutManuscriptLines,
 } from "../text-statistics";
 
 // ---------------------------------------------------------------------------
@@ -33,6 +35,18 @@ describe("extractVisibleText", () => {
     expect(extractVisibleText("[[kern:-0.1em:確実]]")).toBe("確実");
   });
 
+  it("MDI 後注・割注を注記本文ごと削除する", () => {
+    expect(extractVisibleText("本文[[note:{注|ちゅう}記]]と[[warichu:割注]]")).toBe("本文と");
+  });
+
+  it("serializer エスケープ形の後注も削除する", () => {
+    expect(extractVisibleText("本文\\[\\[note:注記]]。")).toBe("本文。");
+  });
+
+  it("MDI 傍点を内容のみにする", () => {
+    expect(extractVisibleText("[[bouten:circle:必ず]]と[[bouten:大事]]")).toBe("必ずと大事");
+  });
+
   it("MDI 空行マーカー [[blank]] を行ごと削除する", () => {
     expect(extractVisibleText("前の文。\n[[blank]]\n次の文。")).toBe("前の文。\n\n次の文。");
   });
@@ -277,6 +291,12 @@ describe("computeTextStatistics", () => {
     expect(stats.visibleTextCharCount).toBe(2);
   });
 
+  it("MDI 縦中横 ^12^ は原稿用紙では1マス", () => {
+    // 19字 + 縦中横 = 20マス → 1行に収まる（2文字として数えると2行になる）
+    const stats = computeTextStatistics("あ".repeat(19) + "^12^");
+    expect(stats.manuscriptCellCount).toBe(20);
+  });
+
   it("MDI no-break [[no-break:東京都]] は本文文字数 3", () => {
     const stats = computeTextStatistics("[[no-break:東京都]]");
     expect(stats.visibleTextCharCount).toBe(3);
@@ -287,6 +307,16 @@ describe("computeTextStatistics", () => {
     expect(stats.visibleTextCharCount).toBe(2);
   });
 
+  it("MDI 後注 [[note:…]] の本文は本文文字数に含めない", () => {
+    const stats = computeTextStatistics("本文[[note:長い注記の本文]]");
+    expect(stats.visibleTextCharCount).toBe(2);
+  });
+
+  it("MDI 傍点 [[bouten:sesame:大事]] は本文文字数 2", () => {
+    const stats = computeTextStatistics("[[bouten:sesame:大事]]");
+    expect(stats.visibleTextCharCount).toBe(2);
+  });
+
   it("HTML タグ <b>太字</b> は本文文字数 2", () => {
     const stats = computeTextStatistics("<b>太字</b>");
     expect(stats.visibleTextCharCount).toBe(2);
@@ -373,3 +403,41 @@ describe("countManuscriptCells (禁則処理)", () => {
     expect(cells).toBe(40);
   });
 });
+
+// ---------------------------------------------------------------------------
+// 原稿用紙のマス（原稿用紙表示・PDF と共通）
+// ---------------------------------------------------------------------------
+describe("extractManuscriptCells", () => {
+  it("空文字列は段落なし", () => {
+    expect(extractManuscriptCells("")).toEqual([]);
+  });
+
+  it("ルビは親文字の先頭マスに親文字数ぶんの幅で付く", () => {
+    expect(extractManuscriptCells("{東京|とうきょう}へ")).toEqual([
+      [{ text: "東", ruby: { text: "とうきょう", span: 2 } }, { text: "京" }, { text: "へ" }],
+    ]);
+  });
+
+  it("縦中横は1マスにまとめる", () => {
+    expect(extractManuscriptCells("第^12^話")).toEqual([
+      [{ text: "第" }, { text: "12", tcy: true }, { text: "話" }],
+    ]);
+  });
+
+  it(".txt ではルビ記法も本文として1字1マス", () => {
+    const [paragraph] = extractManuscriptCells("{東京|とうきょう}", ".txt");
+    expect(paragraph.map((c) => c.text).join("")).toBe("{東京|とうきょう}");
+    expect(paragraph.some((c) => c.ruby)).toBe(false);
+  });
+});
+
+describe("layoutManuscriptLines", () => {
+  it("空段落も1行を使う", () => {
+    expect(layoutManuscriptLines(extractManuscriptCells("あ\n\nい"))).toHaveLength(3);
+  });
+
+  it("一行の字数を指定できる", () => {
+    const lines = layoutManuscriptLines(extractManuscriptCells("あ".repeat(25)), 10);
+    expect(lines.map((line) => line.length)).toEqual([10, 10, 5]);
+  });
+});
@@ -26,6 +26,7 @@ vi.mock("@/lib/storage/app-state-manager", () => ({
 vi.mock("@/lib/ai/ai-client", () => ({
   configureAiClient: vi.fn(),
   resetAiClient: vi.fn(),
+  setAiRouting: vi.fn(),
 }));
 
 type HookValue = ReturnType<typeof useAiSettings>;
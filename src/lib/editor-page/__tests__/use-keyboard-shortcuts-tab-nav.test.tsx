@@ -29,6 +29,8 @@ import { act } from "react";
 vi.mock("@/lib/keymap/keymap-storage", () => ({
   loadKeymapOverrides: () => Promise.resolve({}),
   saveKeymapOverrides: () => Promise.resolve(),
+  loadKeymapProfiles: () => Promise.resolve({ profiles: [], activeProfileId: null }),
+  saveKeymapProfiles: () => Promise.resolve(),
 }));
 
 import { KeymapProvider } from "@/contexts/KeymapContext";
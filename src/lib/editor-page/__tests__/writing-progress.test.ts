@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  computeDailyGoalProgress,
+  computeDailyProgress,
+  computeProjectGoalProgress,
+  computeStreak,
+  dateKeyOf,
+  heatLevel,
+  lastPerDay,
+  recentDateKeys,
+} from "@/lib/editor-page/writing-progress";
+import type { DailyProgress, FileDayTotals, TextTotals } from "@/lib/editor-page/writing-progress";
+import type { WritingGoal, WritingSession } from "@/lib/project/project-types";
+
+function at(day: number, hour = 12, minute = 0): number {
+  return new Date(2026, 2, day, hour, minute).getTime();
+}
+
+function chars(n: number): TextTotals {
+  return { chars: n, pages: Math.ceil(n / 400) };
+}
+
+function day(dateKey: string, written: number, added = 0): DailyProgress {
+  return {
+    dateKey,
+    total: chars(0),
+    written: chars(written),
+    added,
+    deleted: 0,
+    minutes: 0,
+  };
+}
+
+describe("date keys", () => {
+  it("ローカル日付で並べ、月をまたいで遡る", () => {
+    expect(dateKeyOf(at(5, 23, 59))).toBe("2026-03-05");
+    expect(recentDateKeys(at(2), 3)).toEqual(["2026-02-28", "2026-03-01", "2026-03-02"]);
+  });
+
+  it("日ごとに最後のスナップショットを残す", () => {
+    const snapshots = [{ timestamp: at(2, 9) }, { timestamp: at(1, 20) }, { timestamp: at(2, 21) }];
+    expect(lastPerDay(snapshots)).toEqual([
+      { dateKey: "2026-03-01", snapshot: { timestamp: at(1, 20) } },
+      { dateKey: "2026-03-02", snapshot: { timestamp: at(2, 21) } },
+    ]);
+  });
+});
+
+describe("computeDailyProgress", () => {
+  it("ファイルごとの日末の値を合計し、前日との差を執筆量とする（最初の記録より前はその値）", () => {
+    const history = new Map<string, FileDayTotals[]>([
+      [
+        "a.mdi",
+        [
+          { dateKey: "2026-02-27", totals: chars(1000) },
+          { dateKey: "2026-03-01", totals: chars(1500) },
+        ],
+      ],
+      ["b.mdi", [{ dateKey: "2026-03-02", totals: chars(300) }]],
+    ]);
+    const sessions: WritingSession[] = [
+      { id: "s1", start: at(1, 10), end: at(1, 10, 45), added: 620, deleted: 120 },
+      { id: "s2", start: at(3, 8), end: at(3, 8, 30), added: 250, deleted: 0 },
+    ];
+    const days = computeDailyProgress(
+      history,
+      ["2026-03-01", "2026-03-02", "2026-03-03"],
+      new Map([["a.mdi", chars(1700)]]),
+      sessions,
+    );
+    expect(days.map((d) => [d.dateKey, d.total.chars, d.written.chars])).toEqual([
+      ["2026-03-01", 1800, 500],
+      ["2026-03-02", 1800, 0],
+      ["2026-03-03", 2000, 200],
+    ]);
+    expect(days[0]).toMatchObject({ added: 620, deleted: 120, minutes: 45 });
+    expect(days[2]).toMatchObject({ added: 250, minutes: 30 });
+  });
+});
+
+describe("computeStreak", () => {
+  it("今日がまだ未達なら昨日までの連続日数を数える", () => {
+    const days = [
+      day("2026-03-01", 100),
+      day("2026-03-02", 0),
+      day("2026-03-03", 50),
+      day("2026-03-04", -20, 30),
+      day("2026-03-05", 0),
+    ];
+    expect(computeStreak(days, undefined)).toEqual({ current: 2, best: 2 });
+  });
+
+  it("日次目標があれば目標達成日だけを数える", () => {
+    const goal: WritingGoal = { scope: "daily", unit: "chars", target: 100 };
+    const days = [day("2026-03-01", 120), day("2026-03-02", 80), day("2026-03-03", 100)];
+    expect(computeStreak(days, goal)).toEqual({ current: 1, best: 1 });
+  });
+});
+
+describe("goal progress", () => {
+  it("締切までの必要ペースは今日の開始時点の残りから計算する", () => {
+    const goal: WritingGoal = {
+      scope: "project",
+      unit: "chars",
+      target: 10000,
+      deadline: "2026-03-10",
+    };
+    expect(computeProjectGoalProgress(goal, chars(4500), chars(4000), "2026-03-05")).toEqual({
+      current: 4500,
+      target: 10000,
+      ratio: 0.45,
+      daysLeft: 6,
+      requiredPace: 1000,
+      overdue: false,
+    });
+    expect(computeProjectGoalProgress(goal, chars(9000), chars(9000), "2026-03-11")).toMatchObject({
+      daysLeft: 0,
+      requiredPace: null,
+      overdue: true,
+    });
+  });
+
+  it("枚数の日次目標は今日の増分で測る", () => {
+    const goal: WritingGoal = { scope: "daily", unit: "pages", target: 4 };
+    const today = { ...day("2026-03-05", 0), written: { chars: 900, pages: 3 } };
+    expect(computeDailyGoalProgress(goal, today)).toMatchObject({ current: 3, ratio: 0.75 });
+  });
+
+  it("ヒートマップの濃さは基準量に対する割合で 0–4", () => {
+    expect(heatLevel(0, 1000)).toBe(0);
+    expect(heatLevel(100, 1000)).toBe(1);
+    expect(heatLevel(600, 1000)).toBe(3);
+    expect(heatLevel(3000, 1000)).toBe(4);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * 執筆セッション: 編集で入力・削除された文字数（空白を除く）を数え、
+ * 無操作の間隔でセッションを区切ることを検証する。
+ */
+import { describe, it, expect, afterEach } from "vitest";
+import { Editor, rootCtx, defaultValueCtx, editorViewCtx } from "@milkdown/core";
+import { commonmark } from "@milkdown/preset-commonmark";
+import type { EditorView } from "@milkdown/prose/view";
+import { $prose } from "@milkdown/utils";
+
+import {
+  SESSION_IDLE_GAP_MS,
+  createWritingSessionPlugin,
+  getWritingSession,
+  recordWritingEdit,
+  resetWritingSession,
+  withoutSessionTracking,
+} from "../writing-session";
+
+const mountedRoots: HTMLElement[] = [];
+afterEach(() => {
+  mountedRoots.forEach((r) => r.remove());
+  mountedRoots.length = 0;
+  resetWritingSession();
+});
+
+async function makeView(markdown: string): Promise<EditorView> {
+  const root = document.createElement("div");
+  document.body.appendChild(root);
+  mountedRoots.push(root);
+  const editor = await Editor.make()
+    .config((ctx) => {
+      ctx.set(rootCtx, root);
+      ctx.set(defaultValueCtx, markdown);
+    })
+    .use(commonmark)
+    .use($prose(() => createWritingSessionPlugin()))
+    .create();
+  let view!: EditorView;
+  editor.action((ctx) => {
+    view = ctx.get(editorViewCtx);
+  });
+  return view;
+}
+
+describe("writing session plugin", () => {
+  it("置き換えられた範囲だけを数え、空白は数えない", async () => {
+    const view = await makeView("吾輩は猫である。");
+    // "猫" → "犬 と 鳥"
+    view.dispatch(view.state.tr.insertText("犬 と 鳥", 4, 5));
+    expect(getWritingSession()).toMatchObject({ added: 3, deleted: 1 });
+
+    view.dispatch(view.state.tr.delete(1, 3));
+    expect(getWritingSession()).toMatchObject({ added: 3, deleted: 3 });
+  });
+
+  it("外部からの内容の置き換えは数えない", async () => {
+    const view = await makeView("本文");
+    withoutSessionTracking(() => view.dispatch(view.state.tr.insertText("差し替え", 1, 3)));
+    expect(getWritingSession()).toBeNull();
+  });
+});
+
+describe("recordWritingEdit", () => {
+  it("無操作の間隔が空いたら新しいセッションを始める", () => {
+    recordWritingEdit(10, 0, 1_000);
+    const first = getWritingSession();
+    recordWritingEdit(5, 2, 1_000 + SESSION_IDLE_GAP_MS);
+    expect(getWritingSession()).toMatchObject({ id: first?.id, added: 15, deleted: 2 });
+
+    recordWritingEdit(1, 0, 2_000 + 2 * SESSION_IDLE_GAP_MS);
+    expect(getWritingSession()).toMatchObject({ added: 1, deleted: 0 });
+    expect(getWritingSession()?.id).not.toBe(first?.id);
+  });
+});
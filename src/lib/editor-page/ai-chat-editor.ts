@@ -0,0 +1,88 @@
+/**
+ * Editor side of the AI assistant chat: reads the material attached to a
+ * question (selection, chapter at the cursor) and inserts prose from a reply
+ * at the cursor.
+ *
+ * AI アシスタントチャット用のエディタ操作（添付資料の取得・本文への挿入）。
+ */
+
+import { Fragment, Slice } from "@milkdown/prose/model";
+import type { Node as ProseNode } from "@milkdown/prose/model";
+import type { EditorView } from "@milkdown/prose/view";
+
+import type { Chapter } from "@/lib/utils";
+
+/** Plain text of the selection (paragraphs joined by newlines); "" when empty. */
+export function getSelectionText(view: EditorView): string {
+  const { from, to } = view.state.selection;
+  return from === to ? "" : view.state.doc.textBetween(from, to, "\n");
+}
+
+interface HeadingPosition {
+  pos: number;
+  level: number;
+  node: ProseNode;
+}
+
+function collectHeadings(doc: ProseNode): HeadingPosition[] {
+  const headings: HeadingPosition[] = [];
+  doc.forEach((node, offset) => {
+    if (node.type.name === "heading") {
+      headings.push({ pos: offset, level: Number(node.attrs.level) || 1, node });
+    }
+  });
+  return headings;
+}
+
+/**
+ * The chapter containing the cursor: from the nearest heading before it up to
+ * the next heading of the same or a higher level. `chapters` (useChapters)
+ * lists the same headings in document order and supplies the display title.
+ * Null when the cursor is before the first heading.
+ */
+export function getChapterAtCursor(
+  view: EditorView,
+  chapters: readonly Chapter[],
+): { title: string; text: string } | null {
+  const { doc, selection } = view.state;
+  const headings = collectHeadings(doc);
+  let index = -1;
+  for (let i = 0; i < headings.length; i++) {
+    if (headings[i].pos >= selection.from) break;
+    index = i;
+  }
+  if (index === -1) return null;
+
+  const heading = headings[index];
+  const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+  const end = next ? next.pos : doc.content.size;
+  return {
+    title: chapters[index]?.title || heading.node.textContent,
+    text: doc.textBetween(heading.pos, end, "\n"),
+  };
+}
+
+/**
+ * Insert prose at the cursor, replacing the selection. Each non-empty line
+ * becomes a paragraph; the first and last merge into the paragraph around
+ * the cursor. Returns false when there is nothing to insert.
+ */
+export function insertProseAtCursor(view: EditorView, prose: string): boolean {
+  const lines = prose
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== "");
+  if (lines.length === 0) return false;
+
+  const { schema } = view.state;
+  let tr = view.state.tr;
+  if (lines.length === 1) {
+    tr = tr.insertText(lines[0]);
+  } else {
+    const paragraphs = lines.map((line) => schema.nodes.paragraph.create(null, schema.text(line)));
+    tr = tr.replaceSelection(new Slice(Fragment.from(paragraphs), 1, 1));
+  }
+  view.dispatch(tr.scrollIntoView());
+  view.focus();
+  return true;
+}
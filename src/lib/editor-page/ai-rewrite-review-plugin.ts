@@ -0,0 +1,247 @@
+/**
+ * Inline review of an AI rewrite as tracked changes.
+ *
+ * While a review is open the replaced text is struck through and each hunk's
+ * replacement is shown right after it as a widget with accept / reject
+ * buttons. Decisions only update plugin state; the document is untouched until
+ * applyRewriteReview() writes every accepted hunk in one transaction, so the
+ * whole rewrite is a single undo step.
+ *
+ * AI 書き換え案を変更履歴のようにインライン表示し、差分ごとに採用・却下するプラグイン。
+ */
+
+import { closeHistory } from "@milkdown/prose/history";
+import { Plugin, PluginKey } from "@milkdown/prose/state";
+import type { EditorState, Transaction } from "@milkdown/prose/state";
+import { Decoration, DecorationSet } from "@milkdown/prose/view";
+import type { EditorView } from "@milkdown/prose/view";
+
+import type { RewriteTextHunk } from "./rewrite-hunks";
+
+export type RewriteHunkDecision = "pending" | "accepted" | "rejected";
+
+export interface RewriteReviewHunk {
+  id: number;
+  /** Document range of the replaced text (mapped through later edits) */
+  from: number;
+  to: number;
+  removed: string;
+  inserted: string;
+  decision: RewriteHunkDecision;
+}
+
+export interface RewriteReview {
+  /** Label of the rewrite intent, for the review bar */
+  intentLabel: string;
+  explanation: string;
+  hunks: RewriteReviewHunk[];
+}
+
+type ReviewMeta =
+  | { type: "start"; review: RewriteReview }
+  | { type: "decide"; ids: number[] | "all"; decision: RewriteHunkDecision }
+  | { type: "end" };
+
+export const aiRewriteReviewPluginKey = new PluginKey<RewriteReview | null>("aiRewriteReview");
+
+function mapReview(review: RewriteReview, tr: Transaction): RewriteReview {
+  return {
+    ...review,
+    hunks: review.hunks.map((hunk) => {
+      const from = tr.mapping.map(hunk.from, 1);
+      const to = Math.max(from, tr.mapping.map(hunk.to, -1));
+      return { ...hunk, from, to };
+    }),
+  };
+}
+
+function dispatchMeta(view: EditorView, meta: ReviewMeta): void {
+  view.dispatch(view.state.tr.setMeta(aiRewriteReviewPluginKey, meta));
+}
+
+function createButton(label: string, title: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement("button");
+  button.type = "button";
+  button.className = "ai-rewrite-button";
+  button.textContent = label;
+  button.title = title;
+  button.setAttribute("aria-label", title);
+  // Keep the editor selection where it is.
+  button.addEventListener("mousedown", (e) => e.preventDefault());
+  button.addEventListener("click", (e) => {
+    e.preventDefault();
+    onClick();
+  });
+  return button;
+}
+
+function renderHunkWidget(view: EditorView, hunk: RewriteReviewHunk): HTMLElement {
+  const wrapper = document.createElement("span");
+  wrapper.className = `ai-rewrite-widget ai-rewrite-${hunk.decision}`;
+  wrapper.contentEditable = "false";
+
+  if (hunk.inserted) {
+    const inserted = document.createElement("ins");
+    inserted.className = "ai-rewrite-inserted";
+    inserted.textContent = hunk.inserted;
+    wrapper.append(inserted);
+  }
+
+  wrapper.append(
+    createButton("✓", "この変更を採用", () => decideRewriteHunks(view, [hunk.id], "accepted")),
+    createButton("✕", "この変更を却下", () => decideRewriteHunks(view, [hunk.id], "rejected")),
+  );
+  return wrapper;
+}
+
+function buildDecorations(state: EditorState, review: RewriteReview): DecorationSet {
+  const decorations: Decoration[] = [];
+  for (const hunk of review.hunks) {
+    if (hunk.to > hunk.from) {
+      decorations.push(
+        Decoration.inline(hunk.from, hunk.to, {
+          class: `ai-rewrite-removed ai-rewrite-${hunk.decision}`,
+        }),
+      );
+    }
+    decorations.push(
+      Decoration.widget(hunk.to, (view) => renderHunkWidget(view, hunk), {
+        side: 1,
+        key: `ai-rewrite-${hunk.id}-${hunk.decision}`,
+        ignoreSelection: true,
+        stopEvent: () => true,
+      }),
+    );
+  }
+  return DecorationSet.create(state.doc, decorations);
+}
+
+/**
+ * Create the review plugin. `onChange` is called with the review whenever it
+ * starts, changes or ends (null).
+ */
+export function createAiRewriteReviewPlugin(
+  onChange: (review: RewriteReview | null) => void,
+): Plugin<RewriteReview | null> {
+  return new Plugin<RewriteReview | null>({
+    key: aiRewriteReviewPluginKey,
+    state: {
+      init() {
+        return null;
+      },
+      apply(tr, value) {
+        const meta = tr.getMeta(aiRewriteReviewPluginKey) as ReviewMeta | undefined;
+        let review = value && tr.docChanged ? mapReview(value, tr) : value;
+
+        if (meta?.type === "start") {
+          review = meta.review;
+        } else if (meta?.type === "end") {
+          review = null;
+        } else if (meta?.type === "decide" && review) {
+          const { ids, decision } = meta;
+          review = {
+            ...review,
+            hunks: review.hunks.map((hunk) =>
+              ids === "all" || ids.includes(hunk.id) ? { ...hunk, decision } : hunk,
+            ),
+          };
+        }
+        return review;
+      },
+    },
+    props: {
+      decorations(state) {
+        const review = this.getState(state);
+        return review ? buildDecorations(state, review) : null;
+      },
+    },
+    view() {
+      return {
+        update(view, prevState) {
+          const review = aiRewriteReviewPluginKey.getState(view.state) ?? null;
+          if (review !== aiRewriteReviewPluginKey.getState(prevState)) {
+            onChange(review);
+          }
+        },
+        destroy() {
+          onChange(null);
+        },
+      };
+    },
+  });
+}
+
+/** The open review, or null. */
+export function getRewriteReview(state: EditorState): RewriteReview | null {
+  return aiRewriteReviewPluginKey.getState(state) ?? null;
+}
+
+/**
+ * Open a review for a rewrite of the text starting at document position
+ * `from`. Hunk offsets are relative to that position. Replaces any open review.
+ */
+export function startRewriteReview(
+  view: EditorView,
+  options: { from: number; intentLabel: string; explanation: string; hunks: RewriteTextHunk[] },
+): void {
+  const { from, intentLabel, explanation, hunks } = options;
+  dispatchMeta(view, {
+    type: "start",
+    review: {
+      intentLabel,
+      explanation,
+      hunks: hunks.map((hunk, id) => ({
+        id,
+        from: from + hunk.start,
+        to: from + hunk.end,
+        removed: hunk.removed,
+        inserted: hunk.inserted,
+        decision: "pending",
+      })),
+    },
+  });
+}
+
+/** Set the decision of the given hunks (or all of them). */
+export function decideRewriteHunks(
+  view: EditorView,
+  ids: number[] | "all",
+  decision: RewriteHunkDecision,
+): void {
+  dispatchMeta(view, { type: "decide", ids, decision });
+}
+
+/** Close the review without touching the document. */
+export function cancelRewriteReview(view: EditorView): void {
+  dispatchMeta(view, { type: "end" });
+}
+
+/**
+ * Write every accepted hunk to the document in one transaction (one undo
+ * step) and close the review. Pending hunks count as rejected. Hunks whose
+ * text was edited during the review are skipped.
+ */
+export function applyRewriteReview(view: EditorView): { applied: number; skipped: number } {
+  const review = getRewriteReview(view.state);
+  if (!review) return { applied: 0, skipped: 0 };
+
+  const tr = closeHistory(view.state.tr);
+  let applied = 0;
+  let skipped = 0;
+  // Back to front, so earlier positions stay valid.
+  const accepted = review.hunks
+    .filter((hunk) => hunk.decision === "accepted")
+    .sort((a, b) => b.from - a.from);
+  for (const hunk of accepted) {
+    if (tr.doc.textBetween(hunk.from, hunk.to) !== hunk.removed) {
+      skipped++;
+      continue;
+    }
+    tr.insertText(hunk.inserted, hunk.from, hunk.to);
+    applied++;
+  }
+
+  tr.setMeta(aiRewriteReviewPluginKey, { type: "end" } satisfies ReviewMeta);
+  view.dispatch(tr);
+  return { applied, skipped };
+}
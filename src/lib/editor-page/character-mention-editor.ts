@@ -0,0 +1,71 @@
+import { Decoration, type EditorView } from "@milkdown/prose/view";
+import { TextSelection } from "@milkdown/prose/state";
+
+import { centerEditorPosition } from "./center-editor-position";
+import { findSearchMatches } from "./find-search-matches";
+import type { SearchRange } from "./find-search-matches";
+import { escapeRegExp } from "@/lib/linting/toolkit";
+import { dispatchIfEditorViewAlive, isEditorViewAlive } from "@/shared/lib/editor-view-safety";
+import type { Character } from "@/lib/project/project-types";
+
+/**
+ * Document ranges of the chapters, split the same way as
+ * `layoutMentionParagraphs`: at top-level headings of `chapterLevel`, with a
+ * preface chapter when text precedes the first one.
+ */
+function chapterRanges(view: EditorView, chapterLevel: number): SearchRange[] {
+  const { doc } = view.state;
+  const starts: number[] = [];
+  let hasPreface = false;
+  doc.forEach((node, offset) => {
+    if (node.type.name === "heading" && node.attrs.level === chapterLevel) {
+      starts.push(offset);
+    } else if (starts.length === 0 && node.textContent.trim()) {
+      hasPreface = true;
+    }
+  });
+  if (hasPreface) starts.unshift(0);
+  return starts.map((from, i) => ({ from, to: starts[i + 1] ?? doc.content.size }));
+}
+
+/**
+ * Highlight the mentions of `character` in one chapter through the search
+ * highlight plugin and move the cursor to the first. Returns the number of
+ * highlighted occurrences (0 when the chapter or the names are not found).
+ */
+export function highlightCharacterMentions(
+  view: EditorView | null,
+  character: Pick<Character, "name" | "aliases">,
+  chapterIndex: number,
+  chapterLevel: number,
+): number {
+  if (!isEditorViewAlive(view)) return 0;
+  const range = chapterRanges(view, chapterLevel)[chapterIndex];
+  const terms = [character.name, ...character.aliases]
+    .map((term) => term.trim())
+    .filter((term) => term !== "")
+    .sort((a, b) => b.length - a.length);
+  if (!range || terms.length === 0) return 0;
+
+  const matches = findSearchMatches(view.state.doc, terms.map(escapeRegExp).join("|"), {
+    caseSensitive: true,
+    regex: true,
+    searchTarget: "body",
+    excludeComments: true,
+    range,
+  });
+  if (matches.length === 0) return 0;
+
+  const decorations = matches.map((match, i) =>
+    Decoration.inline(match.from, match.to, {
+      class: i === 0 ? "search-result-current" : "search-result",
+    }),
+  );
+  dispatchIfEditorViewAlive(view, (v) =>
+    v.state.tr
+      .setMeta("searchDecorations", decorations)
+      .setSelection(TextSelection.create(v.state.doc, matches[0].from)),
+  );
+  centerEditorPosition(view, matches[0].from);
+  return matches.length;
+}
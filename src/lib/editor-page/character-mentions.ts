@@ -0,0 +1,255 @@
+/**
+ * Character mention index: where each character of the 登場人物 sheets appears
+ * across the chapters of a manuscript.
+ *
+ * 登場人物の出現箇所（章ごとの言及数・初出・最終出現・台詞）の集計。
+ *
+ * The manuscript is split into paragraphs (lines); each paragraph is analyzed
+ * on its own so callers can cache results by paragraph text and only
+ * re-analyze paragraphs that changed (see use-character-mentions).
+ */
+
+import { stripMdiInlineSyntax } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
+import type { Character } from "@/lib/project/project-types";
+import type { Token } from "@/lib/nlp-client/types";
+
+const HEADING_RE = /^(#{1,6})\s+(.+)$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+const QUOTE_RE = /「[^「」]*」|『[^『』]*』/g;
+
+/** Title of the chapter holding text that precedes the first heading. */
+export const PREFACE_CHAPTER_TITLE = "（冒頭）";
+
+export interface MentionChapter {
+  title: string;
+  /** Heading level that starts a chapter (the top-most level in the manuscript) */
+  level: number;
+}
+
+export interface MentionParagraph {
+  /** Index into `MentionLayout.chapters` */
+  chapter: number;
+  /** Paragraph text with MDI inline syntax removed */
+  text: string;
+}
+
+/** Chapters and paragraphs of a manuscript, as the mention index sees them. */
+export interface MentionLayout {
+  chapters: MentionChapter[];
+  paragraphs: MentionParagraph[];
+}
+
+/** Analysis of one paragraph. */
+export interface ParagraphMentions {
+  /** Mention count per character id */
+  counts: Record<string, number>;
+  /** Character credited with the dialogue in the paragraph, when detectable */
+  speaker: string | null;
+  /** Person names (kuromoji 人名) that match no character */
+  unknownNames: string[];
+}
+
+export interface CharacterMentionRow {
+  characterId: string;
+  name: string;
+  /** Mentions per chapter, parallel to `CharacterMentionIndex.chapters` */
+  counts: number[];
+  /** Dialogue paragraphs credited to the character, per chapter */
+  dialogue: number[];
+  total: number;
+  /** Index of the first / last chapter with a mention, or null when absent */
+  firstChapter: number | null;
+  lastChapter: number | null;
+}
+
+export interface CharacterMentionIndex {
+  chapters: MentionChapter[];
+  rows: CharacterMentionRow[];
+  /** Frequent person names without a character sheet, most frequent first */
+  candidates: Array<{ name: string; count: number }>;
+}
+
+/**
+ * Split a manuscript into chapters and paragraphs. Chapters start at headings
+ * of the top-most level used; text before the first one forms a preface
+ * chapter. Lines inside fenced code blocks are ignored.
+ */
+export function layoutMentionParagraphs(content: string): MentionLayout {
+  const lines = content.split("\n");
+  let inFence = false;
+  let chapterLevel = 7;
+  for (const line of lines) {
+    if (FENCE_RE.test(line)) inFence = !inFence;
+    const match = inFence ? null : HEADING_RE.exec(line);
+    if (match) chapterLevel = Math.min(chapterLevel, match[1].length);
+  }
+
+  const chapters: MentionChapter[] = [];
+  const paragraphs: MentionParagraph[] = [];
+  inFence = false;
+  for (const line of lines) {
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+    const match = HEADING_RE.exec(line);
+    if (match && match[1].length === chapterLevel) {
+      const title = stripMdiInlineSyntax(match[2].trim()).replace(/\s+/g, " ").trim();
+      chapters.push({ title, level: chapterLevel });
+      continue;
+    }
+    const text = stripMdiInlineSyntax(match ? match[2] : line).trim();
+    if (!text) continue;
+    if (chapters.length === 0) {
+      chapters.push({ title: PREFACE_CHAPTER_TITLE, level: chapterLevel });
+    }
+    paragraphs.push({ chapter: chapters.length - 1, text });
+  }
+  return { chapters, paragraphs };
+}
+
+interface NameTerm {
+  term: string;
+  characterId: string;
+}
+
+/** Name and alias terms of `characters`, longest first so 「葵ちゃん」 wins over 「葵」. */
+function nameTerms(characters: readonly Character[]): NameTerm[] {
+  const terms: NameTerm[] = [];
+  for (const character of characters) {
+    for (const term of [character.name, ...character.aliases]) {
+      const trimmed = term.trim();
+      if (trimmed) terms.push({ term: trimmed, characterId: character.id });
+    }
+  }
+  return terms.sort((a, b) => b.term.length - a.term.length);
+}
+
+/**
+ * Analyze one paragraph.
+ *
+ * - Names and aliases are matched left to right without overlap. With
+ *   `tokens`, a match must start and end on morpheme boundaries, which keeps
+ *   「陽」 from matching inside 「太陽」; without them (NLP unavailable) every
+ *   occurrence counts.
+ * - A paragraph with 「」 dialogue is credited to the one character named
+ *   outside the quotes (「……」と葵は言った / 葵「……」); with none or several
+ *   it stays unattributed.
+ * - Person-name tokens that are no character's name or alias are reported as
+ *   candidates for new sheets.
+ */
+export function analyzeMentionParagraph(
+  text: string,
+  characters: readonly Character[],
+  tokens: readonly Token[] | null,
+): ParagraphMentions {
+  const terms = nameTerms(characters);
+  let boundaries: Set<number> | null = null;
+  if (tokens) {
+    boundaries = new Set<number>();
+    for (const token of tokens) {
+      boundaries.add(token.start);
+      boundaries.add(token.end);
+    }
+  }
+
+  const quoted: Array<[number, number]> = [];
+  for (const match of text.matchAll(QUOTE_RE)) {
+    quoted.push([match.index, match.index + match[0].length]);
+  }
+  const isQuoted = (pos: number) => quoted.some(([from, to]) => pos >= from && pos < to);
+
+  const counts: Record<string, number> = {};
+  const namedOutsideQuotes = new Set<string>();
+  let pos = 0;
+  while (pos < text.length) {
+    const hit = terms.find(
+      ({ term }) =>
+        text.startsWith(term, pos) &&
+        (!boundaries || (boundaries.has(pos) && boundaries.has(pos + term.length))),
+    );
+    if (!hit) {
+      pos += 1;
+      continue;
+    }
+    counts[hit.characterId] = (counts[hit.characterId] ?? 0) + 1;
+    if (!isQuoted(pos)) namedOutsideQuotes.add(hit.characterId);
+    pos += hit.term.length;
+  }
+
+  const speaker =
+    quoted.length > 0 && namedOutsideQuotes.size === 1 ? [...namedOutsideQuotes][0] : null;
+
+  const known = new Set(terms.map(({ term }) => term));
+  const unknownNames = new Set<string>();
+  for (const token of tokens ?? []) {
+    if (
+      token.pos === "名詞" &&
+      token.pos_detail_1 === "固有名詞" &&
+      token.pos_detail_2 === "人名" &&
+      !known.has(token.surface)
+    ) {
+      unknownNames.add(token.surface);
+    }
+  }
+
+  return { counts, speaker, unknownNames: [...unknownNames] };
+}
+
+/** Maximum number of unregistered names listed as candidates. */
+const MAX_CANDIDATES = 10;
+
+/**
+ * Aggregate per-paragraph results into the characters × chapters index.
+ * `results` is parallel to `layout.paragraphs`.
+ */
+export function buildCharacterMentionIndex(
+  layout: MentionLayout,
+  characters: readonly Character[],
+  results: readonly ParagraphMentions[],
+): CharacterMentionIndex {
+  const chapterCount = layout.chapters.length;
+  const rows = new Map<string, CharacterMentionRow>(
+    characters.map((character) => [
+      character.id,
+      {
+        characterId: character.id,
+        name: character.name,
+        counts: new Array<number>(chapterCount).fill(0),
+        dialogue: new Array<number>(chapterCount).fill(0),
+        total: 0,
+        firstChapter: null,
+        lastChapter: null,
+      },
+    ]),
+  );
+  const candidateCounts = new Map<string, number>();
+
+  layout.paragraphs.forEach((paragraph, i) => {
+    const result = results[i];
+    if (!result) return;
+    for (const [characterId, count] of Object.entries(result.counts)) {
+      const row = rows.get(characterId);
+      if (!row) continue;
+      row.counts[paragraph.chapter] += count;
+      row.total += count;
+      row.firstChapter ??= paragraph.chapter;
+      row.lastChapter = paragraph.chapter;
+    }
+    if (result.speaker) {
+      const row = rows.get(result.speaker);
+      if (row) row.dialogue[paragraph.chapter] += 1;
+    }
+    for (const name of result.unknownNames) {
+      candidateCounts.set(name, (candidateCounts.get(name) ?? 0) + 1);
+    }
+  });
+
+  const candidates = [...candidateCounts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, "ja"))
+    .slice(0, MAX_CANDIDATES);
+
+  return { chapters: layout.chapters, rows: [...rows.values()], candidates };
+}
@@ -9,6 +9,9 @@ export type SearchMatchSource =
   | "tcy"
   | "nobreak"
   | "kern"
+  | "bouten"
+  | "note"
+  | "warichu"
   | "hardbreak"
   | "mdibreak"
   | "comment"
@@ -317,6 +320,13 @@ function getDisplayedAtomText(node: Node): { text: string; source: SearchMatchSo
       return { text: (node.attrs.text as string) ?? "", source: "nobreak" };
     case "kern":
       return { text: (node.attrs.text as string) ?? "", source: "kern" };
+    case "bouten":
+      return { text: (node.attrs.text as string) ?? "", source: "bouten" };
+    // The note body is not displayed inline, but is still matched so notes stay searchable.
+    case "note":
+      return { text: (node.attrs.text as string) ?? "", source: "note" };
+    case "warichu":
+      return { text: (node.attrs.text as string) ?? "", source: "warichu" };
     case "hardbreak":
       return { text: "\n", source: "hardbreak" };
     case "mdibreak":
@@ -0,0 +1,158 @@
+/**
+ * Marks project glossary terms (用語集) in the editor and reports hovering
+ * over them, so the editor can show the term's hover card.
+ *
+ * The glossary is read from the lint pipeline's snapshot (glossary-terms), which
+ * the editor page publishes; every open pane re-marks its document on publish.
+ * Edits only re-scan the top-level blocks they touched.
+ *
+ * 用語集の用語を本文中でマークし、ホバーカード表示のためにホバーを通知するプラグイン。
+ */
+
+import { Plugin, PluginKey } from "@milkdown/prose/state";
+import type { Node } from "@milkdown/prose/model";
+import { Decoration, DecorationSet } from "@milkdown/prose/view";
+
+import { findSearchMatches } from "./find-search-matches";
+import { getGlossaryEntries, subscribeGlossaryEntries } from "@/lib/linting/glossary-terms";
+import { escapeRegExp } from "@/lib/linting/toolkit";
+import { isEditorViewAlive } from "@/shared/lib/editor-view-safety";
+
+export interface GlossaryHover {
+  entryId: string;
+  /** Viewport rectangle of the hovered term */
+  rect: DOMRect;
+}
+
+export const glossaryHighlightPluginKey = new PluginKey<DecorationSet>("glossaryHighlight");
+
+const REFRESH_META = "refresh";
+
+interface GlossaryPattern {
+  /** Alternation of every spelling, longest first */
+  source: string;
+  /** Spelling → entry id */
+  ids: Map<string, string>;
+}
+
+/** Search pattern for the published glossary; null when there is nothing to mark. */
+function buildPattern(): GlossaryPattern | null {
+  const ids = new Map<string, string>();
+  for (const entry of getGlossaryEntries()) {
+    for (const spelling of [entry.term, ...entry.variants]) {
+      const trimmed = spelling.trim();
+      if (trimmed && !ids.has(trimmed)) ids.set(trimmed, entry.id);
+    }
+  }
+  if (ids.size === 0) return null;
+  const spellings = [...ids.keys()].sort((a, b) => b.length - a.length);
+  return { source: spellings.map(escapeRegExp).join("|"), ids };
+}
+
+/** Term decorations inside `node`, whose content starts at document position `offset`. */
+function markTerms(node: Node, offset: number, pattern: GlossaryPattern): Decoration[] {
+  const matches = findSearchMatches(node, pattern.source, {
+    caseSensitive: true,
+    regex: true,
+    searchTarget: "body",
+    excludeComments: true,
+  });
+  const decorations: Decoration[] = [];
+  for (const match of matches) {
+    const id = match.text !== undefined ? pattern.ids.get(match.text) : undefined;
+    if (!id) continue;
+    decorations.push(
+      Decoration.inline(offset + match.from, offset + match.to, {
+        class: "glossary-term",
+        "data-glossary-id": id,
+      }),
+    );
+  }
+  return decorations;
+}
+
+function markDocument(doc: Node): DecorationSet {
+  const pattern = buildPattern();
+  if (!pattern) return DecorationSet.empty;
+  return DecorationSet.create(doc, markTerms(doc, 0, pattern));
+}
+
+/**
+ * Re-mark the top-level blocks between `from` and `to` (positions in `doc`).
+ * findSearchMatches only visits descendants, so each block is searched inside
+ * a throwaway document of its own and the matches are shifted back.
+ */
+function remarkRange(set: DecorationSet, doc: Node, from: number, to: number): DecorationSet {
+  const pattern = buildPattern();
+  if (!pattern) return DecorationSet.empty;
+  let next = set;
+  doc.forEach((block, offset) => {
+    const end = offset + block.nodeSize;
+    if (end < from || offset > to) return;
+    next = next.remove(next.find(offset, end));
+    const wrapper = doc.type.create(null, block);
+    next = next.add(doc, markTerms(wrapper, offset, pattern));
+  });
+  return next;
+}
+
+/**
+ * Create the glossary plugin. `onHover` receives the hovered term, or null when
+ * the pointer leaves it.
+ */
+export function createGlossaryHighlightPlugin(
+  onHover: (hover: GlossaryHover | null) => void,
+): Plugin<DecorationSet> {
+  return new Plugin<DecorationSet>({
+    key: glossaryHighlightPluginKey,
+    state: {
+      init(_, state) {
+        return markDocument(state.doc);
+      },
+      apply(tr, value, oldState, newState) {
+        if (tr.getMeta(glossaryHighlightPluginKey) === REFRESH_META) {
+          return markDocument(newState.doc);
+        }
+        if (!tr.docChanged) return value;
+        const mapped = value.map(tr.mapping, tr.doc);
+        const start = oldState.doc.content.findDiffStart(newState.doc.content);
+        if (start === null) return mapped;
+        const end = oldState.doc.content.findDiffEnd(newState.doc.content);
+        return remarkRange(mapped, newState.doc, start, Math.max(start, end?.b ?? start));
+      },
+    },
+    view(view) {
+      const unsubscribe = subscribeGlossaryEntries(() => {
+        if (!isEditorViewAlive(view)) return;
+        view.dispatch(view.state.tr.setMeta(glossaryHighlightPluginKey, REFRESH_META));
+      });
+      return {
+        destroy() {
+          unsubscribe();
+          onHover(null);
+        },
+      };
+    },
+    props: {
+      decorations(state) {
+        return this.getState(state);
+      },
+      handleDOMEvents: {
+        mouseover(_, event) {
+          const target = event.target instanceof Element ? event.target : null;
+          const term = target?.closest<HTMLElement>(".glossary-term");
+          const entryId = term?.dataset.glossaryId;
+          if (term && entryId) onHover({ entryId, rect: term.getBoundingClientRect() });
+          return false;
+        },
+        mouseout(_, event) {
+          const target = event.target instanceof Element ? event.target : null;
+          const term = target?.closest(".glossary-term");
+          const next = event.relatedTarget instanceof Element ? event.relatedTarget : null;
+          if (term && !term.contains(next)) onHover(null);
+          return false;
+        },
+      },
+    },
+  });
+}
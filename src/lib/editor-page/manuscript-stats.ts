@@ -0,0 +1,201 @@
+/**
+ * Long-term manuscript statistics for the 統計ダッシュボード: per-snapshot text
+ * metrics, their day-by-day project series, chapter lengths and CSV export.
+ *
+ * 統計ダッシュボードの指標計算（スナップショットごとの指標・日別推移・章の長さ・CSV）。
+ *
+ * All metrics are surface-level (no morphological analysis) so that hundreds
+ * of snapshots can be analysed quickly:
+ * - readability: the surface score of analyzeReadability
+ * - dialogue: visible characters inside 「」『』
+ * - vocabulary richness: Guiraud's index (distinct / √total) of the runs of
+ *   two or more kanji or katakana, a stand-in for content words that does
+ *   not grow with the length of the text the way a plain type/token ratio
+ *   shrinks with it
+ */
+
+import { analyzeReadability, cleanMarkdown, parseMarkdownChapters } from "@/lib/utils";
+import { computeTextStatistics } from "./text-statistics";
+import { lastPerDay } from "./writing-progress";
+
+import type { SnapshotMetrics, SupportedFileExtension } from "@/lib/project/project-types";
+
+/** A file's metrics at a point in time. */
+export interface TimedMetrics {
+  timestamp: number;
+  metrics: SnapshotMetrics;
+}
+
+/** The whole project at the end of a day. */
+export interface StatsSeriesPoint {
+  dateKey: string;
+  chars: number;
+  pages: number;
+  /** Readability score, weighted by the length of each file */
+  readability: number;
+  /** Share of visible characters in dialogue (0–1) */
+  dialogueRatio: number;
+  /** Vocabulary richness, weighted by the length of each file */
+  vocabularyRichness: number;
+}
+
+export interface ChapterLength {
+  path: string;
+  title: string;
+  chars: number;
+}
+
+const DIALOGUE_OPEN = new Set(["「", "『"]);
+const DIALOGUE_CLOSE = new Set(["」", "』"]);
+const WORD_RE = /[一-鿿々〆ヶ]{2,}|[ァ-ヺー]{2,}/g;
+
+/** Title of the text before the first heading of a file. */
+const PREAMBLE_TITLE = "（冒頭）";
+
+/** Visible characters inside 「」『』 (nesting allowed, brackets excluded). */
+export function countDialogueChars(text: string): number {
+  let depth = 0;
+  let count = 0;
+  for (const ch of text) {
+    if (DIALOGUE_OPEN.has(ch)) {
+      depth++;
+    } else if (DIALOGUE_CLOSE.has(ch)) {
+      depth = Math.max(0, depth - 1);
+    } else if (depth > 0 && !/\s/.test(ch)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/** Guiraud's index of the kanji and katakana words, rounded to 0.01; 0 without words. */
+export function vocabularyRichness(text: string): number {
+  const words = text.match(WORD_RE) ?? [];
+  if (words.length === 0) return 0;
+  return Math.round((new Set(words).size / Math.sqrt(words.length)) * 100) / 100;
+}
+
+/** Metrics of one version of a file. */
+export function computeSnapshotMetrics(
+  snapshotId: string,
+  content: string,
+  fileType: SupportedFileExtension,
+): SnapshotMetrics {
+  const stats = computeTextStatistics(content, fileType);
+  const cleaned = fileType === ".txt" ? content : cleanMarkdown(content);
+  return {
+    snapshotId,
+    chars: stats.visibleTextCharCount,
+    pages: stats.manuscriptPages,
+    readability: stats.visibleTextCharCount > 0 ? analyzeReadability(content).score : 0,
+    dialogueChars: countDialogueChars(cleaned),
+    vocabularyRichness: vocabularyRichness(cleaned),
+  };
+}
+
+/**
+ * Day-by-day project totals, one point per day on which any file has a
+ * version. Each file counts with its last version on or before the day, and
+ * only from its first version on.
+ *
+ * @param history - Versions of each file, in any order
+ */
+export function buildStatsSeries(
+  history: ReadonlyMap<string, readonly TimedMetrics[]>,
+): StatsSeriesPoint[] {
+  const perFile = [...history.values()].map((versions) =>
+    lastPerDay(versions).map(({ dateKey, snapshot }) => ({ dateKey, metrics: snapshot.metrics })),
+  );
+  const dateKeys = [...new Set(perFile.flatMap((days) => days.map((d) => d.dateKey)))].sort();
+
+  return dateKeys.map((dateKey) => {
+    let chars = 0;
+    let pages = 0;
+    let dialogueChars = 0;
+    let readabilitySum = 0;
+    let richnessSum = 0;
+    for (const days of perFile) {
+      let current: SnapshotMetrics | null = null;
+      for (const day of days) {
+        if (day.dateKey > dateKey) break;
+        current = day.metrics;
+      }
+      if (!current) continue;
+      chars += current.chars;
+      pages += current.pages;
+      dialogueChars += current.dialogueChars;
+      readabilitySum += current.readability * current.chars;
+      richnessSum += current.vocabularyRichness * current.chars;
+    }
+    return {
+      dateKey,
+      chars,
+      pages,
+      readability: chars > 0 ? Math.round(readabilitySum / chars) : 0,
+      dialogueRatio: chars > 0 ? dialogueChars / chars : 0,
+      vocabularyRichness: chars > 0 ? Math.round((richnessSum / chars) * 100) / 100 : 0,
+    };
+  });
+}
+
+/**
+ * Length of each chapter of a file. Chapters start at the file's top-level
+ * headings; text before the first one is its own chapter, and a file without
+ * headings is a single chapter named after the file.
+ */
+export function chapterLengths(
+  path: string,
+  content: string,
+  fileType: SupportedFileExtension,
+): ChapterLength[] {
+  const count = (text: string) => computeTextStatistics(text, fileType).visibleTextCharCount;
+  const headings = fileType === ".txt" ? [] : parseMarkdownChapters(content);
+  if (headings.length === 0) {
+    const name = path.split("/").pop() ?? path;
+    return [{ path, title: name.replace(/\.[^.]+$/, ""), chars: count(content) }];
+  }
+  const topLevel = Math.min(...headings.map((h) => h.level));
+  const starts = headings.filter((h) => h.level === topLevel);
+  const chapters: ChapterLength[] = [];
+  const preamble = count(content.slice(0, starts[0].charOffset));
+  if (preamble > 0) chapters.push({ path, title: PREAMBLE_TITLE, chars: preamble });
+  starts.forEach((heading, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].charOffset : content.length;
+    // The heading line itself is not counted as chapter text
+    const bodyStart = content.indexOf("\n", heading.charOffset);
+    const body = bodyStart === -1 || bodyStart >= end ? "" : content.slice(bodyStart + 1, end);
+    chapters.push({ path, title: heading.title, chars: count(body) });
+  });
+  return chapters;
+}
+
+/** Quote a CSV field when it contains a separator, quote or line break (RFC 4180). */
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Rows to CSV text with CRLF line breaks. */
+export function toCsv(rows: ReadonlyArray<ReadonlyArray<string | number>>): string {
+  return rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/** The series as CSV, one row per day. */
+export function seriesToCsv(series: readonly StatsSeriesPoint[]): string {
+  return toCsv([
+    ["日付", "文字数", "原稿用紙枚数", "読みやすさ", "会話文の割合(%)", "語彙の豊かさ"],
+    ...series.map((p) => [
+      p.dateKey,
+      p.chars,
+      p.pages,
+      p.readability,
+      Math.round(p.dialogueRatio * 1000) / 10,
+      p.vocabularyRichness,
+    ]),
+  ]);
+}
+
+/** Chapter lengths as CSV. */
+export function chaptersToCsv(chapters: readonly ChapterLength[]): string {
+  return toCsv([["ファイル", "章", "文字数"], ...chapters.map((c) => [c.path, c.title, c.chars])]);
+}
@@ -6,6 +6,7 @@ import {
   type SearchOptions,
   type SearchTextProjection,
 } from "./find-search-matches";
+import { MDI_BOUTEN_RE } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
 import type { VirtualFileSystem } from "@/lib/vfs/types";
 
 export interface RawDocumentSearchMatch extends SearchMatch {
@@ -71,7 +72,7 @@ interface UndoProjectReplacementParams {
 const SEARCHABLE_EXTENSIONS = new Set([".mdi", ".md", ".txt"]);
 const PROJECT_SEARCH_YIELD_INTERVAL = 8;
 const MDI_TOKEN_RE =
-  /<!--[\s\S]*?-->|\{[^{}|\n]+\|[^{}\n]+\}|\^[^^\n]+\^|\[\[(?:blank|br|no-break:[^\]\n]*|kern:[^:\]\n]+:[^\]\n]*)\]\]/g;
+  /<!--[\s\S]*?-->|\{[^{}|\n]+\|[^{}\n]+\}|\^[^^\n]+\^|\[\[(?:blank|br|no-break:[^\]\n]*|kern:[^:\]\n]+:[^\]\n]*|bouten:[^\]\n]*|note:[^\]\n]*|warichu:[^\]\n]*)\]\]/g;
 
 export function isSearchableProjectPath(path: string): boolean {
   if (hasHiddenPathSegment(path)) return false;
@@ -423,6 +424,18 @@ function appendMdiToken(
     return;
   }
 
+  const bouten = new RegExp(`^${MDI_BOUTEN_RE.source}$`).exec(token);
+  if (bouten) {
+    appendProjectionSegment(body, bouten[2], rawFrom, rawTo, "bouten", false);
+    return;
+  }
+
+  const note = /^\[\[(note|warichu):([^\]\n]*)\]\]$/.exec(token);
+  if (note) {
+    appendProjectionSegment(body, note[2], rawFrom, rawTo, note[1] as "note" | "warichu", false);
+    return;
+  }
+
   if (token === "[[blank]]" || token === "[[br]]") {
     appendProjectionSegment(body, "\n", rawFrom, rawTo, "mdibreak", false);
   }
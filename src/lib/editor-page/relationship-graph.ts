@@ -0,0 +1,181 @@
+/**
+ * Relationship graph geometry: node placement and edge paths for the
+ * 人物関係図 panel.
+ *
+ * 人物関係図のノード配置と関係線の計算。
+ *
+ * Nodes are the characters; edges are their `relationships`. Saved node
+ * positions (.illusions/relationship-graph.json) win; characters without one
+ * are placed on a circle around the canvas centre.
+ */
+
+import type {
+  Character,
+  RelationshipDirection,
+  RelationshipGraphNode,
+} from "@/lib/project/project-types";
+
+/** Radius of a node circle, in canvas units. */
+export const GRAPH_NODE_RADIUS = 28;
+
+/** Distance between parallel edges of the same pair of characters. */
+const PARALLEL_EDGE_GAP = 36;
+
+export interface GraphSize {
+  width: number;
+  height: number;
+}
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+export interface GraphEdge {
+  /** Owner of the relationship (the edge source) */
+  sourceId: string;
+  targetId: string;
+  relationshipId: string;
+  label: string;
+  direction: RelationshipDirection;
+  /** SVG path data, trimmed to the node circles so arrowheads stay visible */
+  path: string;
+  /** Anchor of the edge label */
+  labelPoint: GraphPoint;
+}
+
+/** Tags used by the characters, in first-seen order. */
+export function collectCharacterTags(characters: readonly Character[]): string[] {
+  return [...new Set(characters.flatMap((c) => c.tags ?? []))];
+}
+
+/** Characters carrying `tag`; every character when `tag` is null. */
+export function filterCharactersByTag(
+  characters: readonly Character[],
+  tag: string | null,
+): Character[] {
+  return tag === null ? [...characters] : characters.filter((c) => c.tags?.includes(tag));
+}
+
+/**
+ * Positions of all `characters`: the saved ones, plus a circle layout for the
+ * characters that have never been placed. Saved positions of deleted
+ * characters are dropped.
+ */
+export function layoutGraphNodes(
+  characters: readonly Character[],
+  saved: readonly RelationshipGraphNode[],
+  size: GraphSize,
+): RelationshipGraphNode[] {
+  const savedById = new Map(saved.map((node) => [node.characterId, node]));
+  const unplaced = characters.filter((c) => !savedById.has(c.id));
+  const cx = size.width / 2;
+  const cy = size.height / 2;
+  const radius = Math.max(
+    GRAPH_NODE_RADIUS * 2,
+    Math.min(size.width, size.height) / 2 - GRAPH_NODE_RADIUS * 2,
+  );
+
+  let placed = 0;
+  return characters.map((character) => {
+    const existing = savedById.get(character.id);
+    if (existing) return existing;
+    const angle = -Math.PI / 2 + (2 * Math.PI * placed) / unplaced.length;
+    placed += 1;
+    return {
+      characterId: character.id,
+      x: Math.round(cx + radius * Math.cos(angle)),
+      y: Math.round(cy + radius * Math.sin(angle)),
+    };
+  });
+}
+
+/**
+ * Edges between the visible characters. Relationships pointing at a missing
+ * or filtered-out character are skipped. Several edges between the same pair
+ * are drawn as curves fanned out around the straight line.
+ */
+export function buildGraphEdges(
+  characters: readonly Character[],
+  positions: ReadonlyMap<string, GraphPoint>,
+): GraphEdge[] {
+  const visible = characters.filter((c) => positions.has(c.id));
+  const visibleIds = new Set(visible.map((c) => c.id));
+
+  const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+  const pairTotals = new Map<string, number>();
+  for (const character of visible) {
+    for (const rel of character.relationships) {
+      if (!visibleIds.has(rel.targetId) || rel.targetId === character.id) continue;
+      const key = pairKey(character.id, rel.targetId);
+      pairTotals.set(key, (pairTotals.get(key) ?? 0) + 1);
+    }
+  }
+
+  const pairSeen = new Map<string, number>();
+  const edges: GraphEdge[] = [];
+  for (const character of visible) {
+    for (const rel of character.relationships) {
+      if (!visibleIds.has(rel.targetId) || rel.targetId === character.id) continue;
+      const key = pairKey(character.id, rel.targetId);
+      const index = pairSeen.get(key) ?? 0;
+      pairSeen.set(key, index + 1);
+      const total = pairTotals.get(key) ?? 1;
+      const offset = (index - (total - 1) / 2) * PARALLEL_EDGE_GAP;
+      const { path, labelPoint } = edgeGeometry(
+        positions.get(character.id) as GraphPoint,
+        positions.get(rel.targetId) as GraphPoint,
+        // Measure the offset against one fixed orientation of the pair so that
+        // A→B and B→A fan out instead of landing on top of each other.
+        character.id < rel.targetId ? offset : -offset,
+      );
+      edges.push({
+        sourceId: character.id,
+        targetId: rel.targetId,
+        relationshipId: rel.id,
+        label: rel.label,
+        direction: rel.direction,
+        path,
+        labelPoint,
+      });
+    }
+  }
+  return edges;
+}
+
+/** Quadratic curve from `from` to `to`, bent `offset` units to the left of the line. */
+function edgeGeometry(
+  from: GraphPoint,
+  to: GraphPoint,
+  offset: number,
+): { path: string; labelPoint: GraphPoint } {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  // Normal of the line, oriented consistently with the caller's offset sign.
+  const nx = -dy / length;
+  const ny = dx / length;
+  const control = {
+    x: (from.x + to.x) / 2 + nx * offset * 2,
+    y: (from.y + to.y) / 2 + ny * offset * 2,
+  };
+  const start = towards(from, control, GRAPH_NODE_RADIUS);
+  const end = towards(to, control, GRAPH_NODE_RADIUS + 4);
+  const r = (n: number) => Math.round(n * 10) / 10;
+  return {
+    path: `M ${r(start.x)} ${r(start.y)} Q ${r(control.x)} ${r(control.y)} ${r(end.x)} ${r(end.y)}`,
+    // Midpoint of the quadratic curve (t = 0.5)
+    labelPoint: {
+      x: r((from.x + 2 * control.x + to.x) / 4),
+      y: r((from.y + 2 * control.y + to.y) / 4),
+    },
+  };
+}
+
+/** The point `distance` units from `origin` in the direction of `target`. */
+function towards(origin: GraphPoint, target: GraphPoint, distance: number): GraphPoint {
+  const dx = target.x - origin.x;
+  const dy = target.y - origin.y;
+  const length = Math.hypot(dx, dy) || 1;
+  return { x: origin.x + (dx / length) * distance, y: origin.y + (dy / length) * distance };
+}
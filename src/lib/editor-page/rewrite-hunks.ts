@@ -0,0 +1,75 @@
+/**
+ * Split an AI rewrite into reviewable hunks.
+ *
+ * The character diff from diff-service is grouped into hunks — one per run of
+ * removed/added chunks. Character diffs of Japanese prose tend to interleave
+ * (a kept particle between two edits), so hunks separated by fewer than
+ * MIN_UNCHANGED_GAP unchanged characters are merged into one.
+ *
+ * AI の書き換え案を、採用・却下できる差分単位（hunk）に分割する。
+ */
+
+import { computeTextDiff } from "@/lib/services/diff-service";
+
+export interface RewriteTextHunk {
+  /** Start offset in the original text */
+  start: number;
+  /** End offset (exclusive) in the original text */
+  end: number;
+  /** Original text of [start, end) */
+  removed: string;
+  /** Replacement text */
+  inserted: string;
+}
+
+/** Unchanged runs shorter than this do not split hunks. */
+const MIN_UNCHANGED_GAP = 2;
+
+/**
+ * Diff `original` against `suggestion` and return the hunks in order.
+ * Identical texts yield an empty array.
+ */
+export function buildRewriteHunks(original: string, suggestion: string): RewriteTextHunk[] {
+  const hunks: RewriteTextHunk[] = [];
+  let offset = 0;
+  let current: RewriteTextHunk | null = null;
+  /** Unchanged text seen since `current` ended, not yet committed */
+  let gap = "";
+
+  for (const chunk of computeTextDiff(original, suggestion)) {
+    if (chunk.type === "unchanged") {
+      if (current) {
+        if (gap === "" && chunk.value.length < MIN_UNCHANGED_GAP) {
+          gap = chunk.value;
+        } else {
+          hunks.push(current);
+          current = null;
+          gap = "";
+        }
+      }
+      offset += chunk.value.length;
+      continue;
+    }
+
+    if (!current) {
+      current = { start: offset, end: offset, removed: "", inserted: "" };
+    } else if (gap) {
+      // Absorb the short unchanged run into the hunk on both sides.
+      current.removed += gap;
+      current.inserted += gap;
+      current.end += gap.length;
+      gap = "";
+    }
+
+    if (chunk.type === "removed") {
+      current.removed += chunk.value;
+      current.end += chunk.value.length;
+      offset += chunk.value.length;
+    } else {
+      current.inserted += chunk.value;
+    }
+  }
+
+  if (current) hunks.push(current);
+  return hunks;
+}
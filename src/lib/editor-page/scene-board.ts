@@ -0,0 +1,261 @@
+/**
+ * Scene board logic: in-world time parsing, chronology warnings, scenes made
+ * from headings and the scene order applied to the compile manifest.
+ *
+ * シーンボードの作中時系列チェック・見出しからのシーン作成・書き出し順への反映。
+ *
+ * Scenes are kept in reading order (.illusions/scenes.json); their 作中日時 is
+ * free text, so only the parts this module recognizes (年・月・日・N日目・時刻)
+ * take part in chronology checks, and two times written in different shapes are
+ * never compared.
+ */
+
+import type { Chapter } from "@/lib/utils";
+import { generateHeadingId } from "@/lib/utils";
+import type { CompileManifestFile, Scene } from "@/lib/project/project-types";
+
+/** Tags that mark a scene as a flashback (回想), exempt from chronology checks. */
+const FLASHBACK_TAGS: readonly string[] = ["回想", "flashback"];
+
+/** Recognized parts of an in-world time; absent parts are undefined. */
+export interface StoryTime {
+  year?: number;
+  month?: number;
+  day?: number;
+  /** "N日目" — a day count from the start of the story */
+  dayIndex?: number;
+  /** Minutes since midnight */
+  minutes?: number;
+}
+
+/** Date parts in order of significance; time of day is compared after them. */
+const DATE_FIELDS = ["year", "month", "day", "dayIndex"] as const;
+
+/** Times of day written as words, longest first so 夕方 wins over 夕. */
+const PERIOD_MINUTES: ReadonlyArray<[string, number]> = [
+  ["明け方", 4 * 60],
+  ["夜明け", 4 * 60],
+  ["未明", 3 * 60],
+  ["早朝", 5 * 60],
+  ["正午", 12 * 60],
+  ["夕方", 17 * 60],
+  ["深夜", 23 * 60],
+  ["朝", 7 * 60],
+  ["昼", 12 * 60],
+  ["夕", 17 * 60],
+  ["晩", 20 * 60],
+  ["夜", 20 * 60],
+];
+
+const KANJI_DIGITS: Readonly<Record<string, number>> = {
+  〇: 0,
+  零: 0,
+  一: 1,
+  二: 2,
+  三: 3,
+  四: 4,
+  五: 5,
+  六: 6,
+  七: 7,
+  八: 8,
+  九: 9,
+};
+const KANJI_UNITS: Readonly<Record<string, number>> = { 十: 10, 百: 100, 千: 1000 };
+
+/** 三百十二 → 312, 二〇二四 → 2024. */
+function kanjiToNumber(text: string): number {
+  if (![...text].some((ch) => ch in KANJI_UNITS)) {
+    return Number([...text].map((ch) => KANJI_DIGITS[ch]).join(""));
+  }
+  let total = 0;
+  let digit = 0;
+  for (const ch of text) {
+    if (ch in KANJI_UNITS) {
+      total += (digit || 1) * KANJI_UNITS[ch];
+      digit = 0;
+    } else {
+      digit = KANJI_DIGITS[ch];
+    }
+  }
+  return total + digit;
+}
+
+/** Full-width digits to ASCII and kanji numerals before a time unit to digits. */
+function normalizeNumerals(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/([〇零一二三四五六七八九十百千]+)(?=[年月日時分])/g, (run) =>
+      String(kanjiToNumber(run)),
+    );
+}
+
+function parseMinutes(text: string): number | undefined {
+  const clock = text.match(/(\d{1,2}):(\d{2})/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const hour = text.match(/(午前|午後)?\s*(\d{1,2})時(?:(\d{1,2})分|(半))?/);
+  if (hour) {
+    const h = Number(hour[2]) % 24;
+    const afternoon = hour[1] === "午後" && h < 12 ? 12 : 0;
+    const m = hour[3] !== undefined ? Number(hour[3]) : hour[4] ? 30 : 0;
+    return (h + afternoon) * 60 + m;
+  }
+  for (const [word, minutes] of PERIOD_MINUTES) {
+    if (text.includes(word)) return minutes;
+  }
+  return undefined;
+}
+
+/**
+ * Parse the recognized parts of an in-world time ("帝国暦三百十二年四月三日 夜",
+ * "1998/4/3 21:00", "3日目 朝"). Returns null when nothing is recognized.
+ */
+export function parseStoryTime(text: string): StoryTime | null {
+  const normalized = normalizeNumerals(text);
+  const time: StoryTime = {};
+
+  const numericDate = normalized.match(/(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (numericDate) {
+    time.year = Number(numericDate[1]);
+    time.month = Number(numericDate[2]);
+    time.day = Number(numericDate[3]);
+  } else {
+    const year = normalized.match(/(\d+)年/);
+    const month = normalized.match(/(\d+)月/);
+    const dayIndex = normalized.match(/(\d+)日目/);
+    const day = normalized.match(/(\d+)日(?!目)/);
+    if (year) time.year = Number(year[1]);
+    if (month) time.month = Number(month[1]);
+    if (dayIndex) time.dayIndex = Number(dayIndex[1]);
+    if (day) time.day = Number(day[1]);
+  }
+  // Remove the date so "4月3日" is not read as a clock.
+  const minutes = parseMinutes(
+    normalized.replace(/(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,2})|\d+[年月]|\d+日目?/g, ""),
+  );
+  if (minutes !== undefined) time.minutes = minutes;
+
+  return Object.keys(time).length > 0 ? time : null;
+}
+
+/**
+ * Order of two in-world times: negative when `a` is earlier. Date parts are
+ * compared from the most significant one both times have, stopping at the first
+ * part only one of them has; the time of day breaks a tie. Returns null when the
+ * times share no date part (different shapes, or times of day alone), so the
+ * check never guesses.
+ */
+export function compareStoryTime(a: StoryTime, b: StoryTime): number | null {
+  let compared = false;
+  for (const field of DATE_FIELDS) {
+    const left = a[field];
+    const right = b[field];
+    if (left === undefined && right === undefined) continue;
+    if (left === undefined || right === undefined) break;
+    compared = true;
+    if (left !== right) return left - right;
+  }
+  if (!compared) return null;
+  if (a.minutes === undefined || b.minutes === undefined) return 0;
+  return a.minutes - b.minutes;
+}
+
+/** Whether the scene is tagged as a flashback (回想 / flashback). */
+export function isFlashbackScene(scene: Scene): boolean {
+  return scene.tags.some((tag) => FLASHBACK_TAGS.includes(tag.trim().toLowerCase()));
+}
+
+export interface ChronologyWarning {
+  sceneId: string;
+  /** The preceding scene whose in-world time is later */
+  previousSceneId: string;
+}
+
+/**
+ * Scenes whose in-world time is earlier than that of the preceding dated
+ * scene, in scene order. Flashbacks and scenes without a recognizable time
+ * are skipped, and neither become the reference for the next scene.
+ */
+export function findChronologyWarnings(scenes: readonly Scene[]): ChronologyWarning[] {
+  const warnings: ChronologyWarning[] = [];
+  let previous: { scene: Scene; time: StoryTime } | null = null;
+  for (const scene of scenes) {
+    if (isFlashbackScene(scene) || !scene.storyTime) continue;
+    const time = parseStoryTime(scene.storyTime);
+    if (!time) continue;
+    if (previous) {
+      const order = compareStoryTime(time, previous.time);
+      if (order !== null && order < 0) {
+        warnings.push({ sceneId: scene.id, previousSceneId: previous.scene.id });
+      }
+    }
+    previous = { scene, time };
+  }
+  return warnings;
+}
+
+/**
+ * New scenes for the headings of `filePath` that no scene links to yet, in
+ * heading order, with status "idea".
+ */
+export function scenesFromChapters(
+  chapters: readonly Chapter[],
+  filePath: string,
+  existing: readonly Scene[],
+  createId: () => string = () => crypto.randomUUID(),
+): Scene[] {
+  const linked = new Set(
+    existing.flatMap((s) => (s.filePath === filePath && s.headingAnchor ? [s.headingAnchor] : [])),
+  );
+  const scenes: Scene[] = [];
+  for (const chapter of chapters) {
+    const anchor = chapter.anchorId || generateHeadingId(chapter.title);
+    if (!anchor || linked.has(anchor)) continue;
+    linked.add(anchor);
+    scenes.push({
+      id: createId(),
+      title: chapter.title,
+      status: "idea",
+      filePath,
+      headingAnchor: anchor,
+      tags: [],
+    });
+  }
+  return scenes;
+}
+
+/** Move the scene at `from` to `to` (indices into the same list). */
+export function moveScene(scenes: readonly Scene[], from: number, to: number): Scene[] {
+  const next = [...scenes];
+  if (from === to || from < 0 || from >= next.length) return next;
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+}
+
+/**
+ * Reorder the manifest's files to follow the scenes: files that scenes link to
+ * are placed in the order of their first scene, in the positions those files
+ * already occupy. Parts and files without scenes stay where they are.
+ */
+export function applySceneOrderToManifest(
+  manifest: CompileManifestFile,
+  scenes: readonly Scene[],
+): CompileManifestFile {
+  const listed = new Set(
+    manifest.items.flatMap((item) => (item.type === "file" ? [item.path] : [])),
+  );
+  const order = [
+    ...new Set(scenes.flatMap((s) => (s.filePath && listed.has(s.filePath) ? [s.filePath] : []))),
+  ];
+  const ordered = new Set(order);
+  const byPath = new Map(
+    manifest.items.flatMap((item) => (item.type === "file" ? [[item.path, item] as const] : [])),
+  );
+
+  let next = 0;
+  const items = manifest.items.map((item) => {
+    if (item.type !== "file" || !ordered.has(item.path)) return item;
+    return byPath.get(order[next++]) ?? item;
+  });
+  return { ...manifest, items };
+}
@@ -5,6 +5,8 @@
  * and in plain Node.js / test environments.
  */
 
+import { MDI_BOUTEN_RE } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
+
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
@@ -15,7 +17,7 @@
 export interface TextStatistics {
   /** 可視本文文字数（空白・改行・記法を除く） */
   visibleTextCharCount: number;
-  /** 原稿用紙マス数（20×20、禁則処理あり） */
+  /** 原稿用紙マス数（20×20、禁則処理あり、縦中横は1マス） */
   manuscriptCellCount: number;
   /** 原稿用紙換算枚数（切り上げ） */
   manuscriptPages: number;
@@ -23,6 +25,18 @@ export interface TextStatistics {
   paragraphCount: number;
 }
 
+/**
+ * 原稿用紙の1マス
+ */
+export interface ManuscriptCell {
+  /** マスに入る文字（縦中横は複数文字で1マス） */
+  text: string;
+  /** 縦中横 */
+  tcy?: boolean;
+  /** ルビ（親文字の先頭マスにのみ付く）。span は親文字のマス数 */
+  ruby?: { text: string; span: number };
+}
+
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
@@ -44,6 +58,17 @@ const LINE_HEAD_PROHIBITED = new Set(
 /** 行末禁則文字（行末に置いてはならない文字） */
 const LINE_END_PROHIBITED = new Set("（〔［｛〈《「『【".split(""));
 
+/**
+ * extractManuscriptCells 用の注記マーカー（私用領域）。
+ * ルビは「開始・親文字・区切り・ルビ・終了」、縦中横は「開始・内容・終了」で残す。
+ */
+const RUBY_OPEN = "\uE010";
+const RUBY_SEPARATOR = "\uE011";
+const RUBY_CLOSE = "\uE012";
+const TCY_OPEN = "\uE013";
+const TCY_CLOSE = "\uE014";
+const ANNOTATION_MARKERS = new Set([RUBY_OPEN, RUBY_SEPARATOR, RUBY_CLOSE, TCY_OPEN, TCY_CLOSE]);
+
 // ---------------------------------------------------------------------------
 // extractVisibleText
 // ---------------------------------------------------------------------------
@@ -61,21 +86,35 @@ const LINE_END_PROHIBITED = new Set("（〔［｛〈《「『【".split(""));
  *  2. インラインコード (`` `...` ``) → 全削除
  *  3. 画像 (`![alt](url)`) → 全削除（alt 含め）
  *  4. リンク (`[text](url)`) → text のみ残す
+ *  4b. MDI 後注・割注 (`[[note:注記]]` / `[[warichu:注記]]`、エスケープ形含む) → 注記ごと削除
  *  5. MDI ルビ (`{親文字|ルビ}`) → 親文字のみ
  *  6. MDI 縦中横 (`^内容^`) → 内容のみ
  *  7. MDI no-break (`[[no-break:文字列]]`) → 文字列のみ
  *  8. MDI kern (`[[kern:量:文字列]]`) → 文字列のみ
+ *  8b. MDI 傍点 (`[[bouten:文字列]]` / `[[bouten:種類:文字列]]`) → 文字列のみ
  *  9. MDI 空行マーカー (`[[blank]]` / serializer エスケープ形 `\[\[blank]]`) → 行ごと削除
  * 10. HTML タグ (`<tag>`) → タグ記号のみ除去、内容は残す
  * 11. Markdown 見出し記号（行頭の `#+ `）→ 除去（本文は残す）
  * 12. 強調記号 (`**...**`, `__...__`, `*...*`, `_..._`, `~~...~~`) → 内容は残す
  * 13. バックスラッシュエスケープ (`\X`) → バックスラッシュのみ除去
  *
- * ".md" 時はルール 1–4 および 10–13 のみ適用（MDI 固有のルール 5–9 を除く）。
+ * ".md" 時はルール 1–4 および 10–13 のみ適用（MDI 固有のルール 4b–9 を除く）。
  */
 export function extractVisibleText(
   rawContent: string,
   fileType: ".mdi" | ".md" | ".txt" = ".mdi",
+): string {
+  return stripMarkup(rawContent, fileType, false);
+}
+
+/**
+ * extractVisibleText の本体。keepAnnotations のときはルビと縦中横を
+ * 注記マーカー付きで残す（extractManuscriptCells 用）。
+ */
+function stripMarkup(
+  rawContent: string,
+  fileType: ".mdi" | ".md" | ".txt",
+  keepAnnotations: boolean,
 ): string {
   // .txt はプレーンテキスト。記法除去なし。
   if (fileType === ".txt") {
@@ -97,11 +136,19 @@ export function extractVisibleText(
   text = text.replace(/\[([^\]]*)\]\([^)]*\)/g, "$1");
 
   if (fileType === ".mdi") {
+    // 4b. MDI 後注・割注 → 注記本文ごと削除（本文の文字数に含めない）。
+    // 注記内のルビ等ごと消すため、他の MDI ルールより先に適用する。
+    // [[blank]] と同様、ライブ編集中の serializer エスケープ形 `\[\[note:…]]` も対象。
+    text = text.replace(/\\?\[\\?\[(?:note|warichu):[^\]\n]*\\?\]\\?\]/g, "");
+
     // 5. MDI ルビ {親文字|ルビ} → 親文字のみ
-    text = text.replace(/\{([^|{}]*)\|[^}]*\}/g, "$1");
+    text = text.replace(
+      /\{([^|{}]*)\|([^}]*)\}/g,
+      keepAnnotations ? `${RUBY_OPEN}$1${RUBY_SEPARATOR}$2${RUBY_CLOSE}` : "$1",
+    );
 
     // 6. MDI 縦中横 ^内容^ → 内容のみ
-    text = text.replace(/\^([^^]*)\^/g, "$1");
+    text = text.replace(/\^([^^]*)\^/g, keepAnnotations ? `${TCY_OPEN}$1${TCY_CLOSE}` : "$1");
 
     // 7. MDI no-break [[no-break:文字列]] → 文字列のみ
     text = text.replace(/\[\[no-break:([^\]]*)\]\]/g, "$1");
@@ -109,6 +156,9 @@ export function extractVisibleText(
     // 8. MDI kern [[kern:量:文字列]] → 文字列のみ
     text = text.replace(/\[\[kern:[^\]]*?:([^\]]*)\]\]/g, "$1");
 
+    // 8b. MDI 傍点 [[bouten:種類:文字列]] → 文字列のみ（種類は既知の名前のみ）
+    text = text.replace(new RegExp(MDI_BOUTEN_RE.source, "g"), "$2");
+
     // 9. MDI 空行マーカー [[blank]] → 行ごと削除（可視文字としてカウントしない）。
     // ライブ編集中の content は serializer が `[` をエスケープするため `\[\[blank]]`
     // となる。各ブラケット前の `\` を任意マッチさせ、クリーン形・エスケープ形の双方を除去する。
@@ -174,6 +224,64 @@ export function countVisibleChars(visibleText: string): number {
   return Array.from(visibleText).filter((ch) => !/\s/.test(ch)).length;
 }
 
+// ---------------------------------------------------------------------------
+// extractManuscriptCells
+// ---------------------------------------------------------------------------
+
+/**
+ * 原稿用紙のマス目に並べる単位（段落ごとのマス配列）を返す。
+ *
+ * extractVisibleText と同じ規則で記法を除去し、1文字を1マスとする。ただし
+ * ".mdi" の縦中横は内容全体で1マス、ルビは親文字の先頭マスに付ける。
+ * 可視本文が空のときは段落なし（空配列）。
+ */
+export function extractManuscriptCells(
+  rawContent: string,
+  fileType: ".mdi" | ".md" | ".txt" = ".mdi",
+): ManuscriptCell[][] {
+  const paragraphs = stripMarkup(rawContent, fileType, true).split("\n").map(toManuscriptCells);
+  if (paragraphs.length === 1 && paragraphs[0].length === 0) return [];
+  return paragraphs;
+}
+
+/** 注記マーカー付きの1段落をマスに分ける。対にならないマーカーは読み飛ばす。 */
+function toManuscriptCells(paragraph: string): ManuscriptCell[] {
+  const chars = Array.from(paragraph);
+  const cells: ManuscriptCell[] = [];
+  // 段落をまたいだルビのルビ文字部分（親文字ではないので数えない）
+  let inStrayRuby = false;
+
+  let i = 0;
+  while (i < chars.length) {
+    const ch = chars[i];
+    const separator = ch === RUBY_OPEN ? chars.indexOf(RUBY_SEPARATOR, i) : -1;
+    const rubyClose = separator === -1 ? -1 : chars.indexOf(RUBY_CLOSE, separator);
+    const tcyClose = ch === TCY_OPEN ? chars.indexOf(TCY_CLOSE, i) : -1;
+
+    if (rubyClose !== -1) {
+      const base = chars
+        .slice(i + 1, separator)
+        .filter((c) => !ANNOTATION_MARKERS.has(c))
+        .map((text): ManuscriptCell => ({ text }));
+      if (base.length > 0) {
+        base[0].ruby = { text: chars.slice(separator + 1, rubyClose).join(""), span: base.length };
+        cells.push(...base);
+      }
+      i = rubyClose + 1;
+    } else if (tcyClose !== -1) {
+      const text = chars.slice(i + 1, tcyClose).join("");
+      if (text.length > 0) cells.push({ text, tcy: true });
+      i = tcyClose + 1;
+    } else {
+      if (ch === RUBY_SEPARATOR) inStrayRuby = true;
+      else if (ch === RUBY_CLOSE) inStrayRuby = false;
+      else if (!inStrayRuby && !ANNOTATION_MARKERS.has(ch)) cells.push({ text: ch });
+      i++;
+    }
+  }
+  return cells;
+}
+
 // ---------------------------------------------------------------------------
 // countManuscriptCells
 // ---------------------------------------------------------------------------
@@ -182,18 +290,14 @@ export function countVisibleChars(visibleText: string): number {
  * 原稿用紙マス数を返す（20×20、禁則処理あり）。
  *
  * 仕様:
- * - 基本的には 1文字 = 1マスとして扱う（ただし禁則処理による近似あり、後述）
+ * - 基本的には 1文字 = 1マスとして扱う（ただし禁則処理による近似あり）
  * - 1行 = 20マス（`CHARS_PER_LINE`）、1ページ = 20行 = 400マス（`CELLS_PER_PAGE`）
  * - 明示改行（`\n`）でその行の残りマスをスキップして次行へ
  * - 空行は1行として扱う（20マス消費）
  * - 戻り値は「消費したマス数の合計（空白マスを含む）」
  *
- * 禁則処理:
- * - 行頭禁則文字が行頭に来ようとする場合 → 前行へ押し込む（追い出し）
- * - 行末禁則文字が行末に来た場合（次文字あり）→ 行末禁則文字を次行頭へ追い出す
- * - この追い出し処理により、1行が CHARS_PER_LINE を超えることがある（ぶら下げ近似）。
- *   戻り値は lines.length × CHARS_PER_LINE で計算するため枚数計算への影響はないが、
- *   厳密に「1文字 = 1マス」とはならないケースが存在する
+ * 禁則処理は layoutManuscriptLines を参照。computeTextStatistics は縦中横を
+ * 1マスとして数えるため、extractManuscriptCells の結果から同じ配置で数える。
  *
  * @param visibleText - `extractVisibleText` で処理済みのテキスト（改行を含む）
  */
@@ -203,57 +307,83 @@ export function countManuscriptCells(visibleText: string): number {
   }
 
   // テキストを段落（改行区切り）に分割してシミュレーション
-  const paragraphs = visibleText.split("\n");
-  let totalLines = 0;
+  const paragraphs = visibleText
+    .split("\n")
+    .map((paragraph) => Array.from(paragraph).map((text): ManuscriptCell => ({ text })));
+  return layoutManuscriptLines(paragraphs).length * CHARS_PER_LINE;
+}
+
+// ---------------------------------------------------------------------------
+// layoutManuscriptLines
+// ---------------------------------------------------------------------------
+
+/**
+ * 段落ごとのマスを原稿用紙の行に配置する。原稿用紙換算枚数と原稿用紙表示・
+ * 原稿用紙 PDF はすべてこの配置を使う。
+ *
+ * - 空段落（空行）は空の1行を消費する
+ * - 行頭禁則文字が行頭に来ようとする場合 → 前行へ押し込む（追い出し）
+ * - 行末禁則文字が行末に来た場合（次文字あり）→ 行末禁則文字を次行頭へ追い出す
+ * - この追い出し処理により、1行が charsPerLine を超えることがある（ぶら下げ近似）。
+ *   枚数計算は行数で行うため影響はないが、厳密に「1文字 = 1マス」とはならない
+ *   ケースが存在する
+ *
+ * @param paragraphs   - 段落ごとのマス（`extractManuscriptCells` の結果など）
+ * @param charsPerLine - 1行のマス数
+ * @returns 行ごとのマス
+ */
+export function layoutManuscriptLines(
+  paragraphs: readonly (readonly ManuscriptCell[])[],
+  charsPerLine: number = CHARS_PER_LINE,
+): ManuscriptCell[][] {
+  const lines: ManuscriptCell[][] = [];
 
   for (const paragraph of paragraphs) {
     // 空段落（空行）は1行を消費
-    const chars = Array.from(paragraph);
-    if (chars.length === 0) {
-      totalLines += 1;
+    if (paragraph.length === 0) {
+      lines.push([]);
       continue;
     }
 
     // 禁則処理を考慮しながら行に文字を配置する
-    totalLines += simulateLineBreaks(chars);
+    lines.push(...simulateLineBreaks(paragraph, charsPerLine));
   }
 
-  return totalLines * CHARS_PER_LINE;
+  return lines;
 }
 
 /**
- * 1段落分の文字を原稿用紙行に配置し、消費行数を返す。
+ * 1段落分のマスを原稿用紙行に配置する。
  * 禁則処理（行頭禁則・行末禁則）を適用する。
  */
-function simulateLineBreaks(chars: string[]): number {
-  // 注: chars が空の場合は呼び出し元（countManuscriptCells）で除外済み。
-  // このガードは防衛的コードとして残す。
-  if (chars.length === 0) return 1;
-
-  const lines: string[][] = [[]];
+function simulateLineBreaks(
+  cells: readonly ManuscriptCell[],
+  charsPerLine: number,
+): ManuscriptCell[][] {
+  const lines: ManuscriptCell[][] = [[]];
 
-  for (const ch of chars) {
+  for (const cell of cells) {
     const currentLine = lines[lines.length - 1];
 
-    if (currentLine.length < CHARS_PER_LINE) {
+    if (currentLine.length < charsPerLine) {
       // 通常配置
-      currentLine.push(ch);
+      currentLine.push(cell);
     } else {
       // 行が満杯 → 新しい行へ
-      lines.push([ch]);
+      lines.push([cell]);
     }
   }
 
   // 禁則処理を適用
   applyKinsoku(lines);
 
-  return lines.length;
+  return lines;
 }
 
 /**
  * 行末禁則・行頭禁則の処理を行配列に適用する（インプレース変更）。
  */
-function applyKinsoku(lines: string[][]): void {
+function applyKinsoku(lines: ManuscriptCell[][]): void {
   // 複数パスで安定するまで繰り返す（禁則が連鎖することがある）
   for (let pass = 0; pass < 3; pass++) {
     let changed = false;
@@ -265,23 +395,22 @@ function applyKinsoku(lines: string[][]): void {
       // 行末禁則: 現在行の最後の文字が行末禁則文字で、次行がある場合
       // → 最後の文字を次行の先頭に移動（追い出し）
       if (nextLine !== undefined && line.length > 0) {
-        const lastChar = line[line.length - 1];
-        if (LINE_END_PROHIBITED.has(lastChar)) {
+        const lastCell = line[line.length - 1];
+        if (LINE_END_PROHIBITED.has(lastCell.text)) {
           line.pop();
-          nextLine.unshift(lastChar);
+          nextLine.unshift(lastCell);
           changed = true;
         }
       }
 
       // 行頭禁則: 次行の最初の文字が行頭禁則文字の場合
       // → 現在行へ押し込む（追い込み）。
-      // 行詰め処理のため、前行の文字数が CHARS_PER_LINE を超えることがある。
-      // セル数は lines.length × CHARS_PER_LINE で計算するため枚数計算には影響しない。
+      // 行詰め処理のため、前行の文字数が charsPerLine を超えることがある。
       if (nextLine !== undefined && nextLine.length > 0) {
-        const firstChar = nextLine[0];
-        if (LINE_HEAD_PROHIBITED.has(firstChar)) {
+        const firstCell = nextLine[0];
+        if (LINE_HEAD_PROHIBITED.has(firstCell.text)) {
           nextLine.shift();
-          line.push(firstChar);
+          line.push(firstCell);
           changed = true;
         }
       }
@@ -346,7 +475,8 @@ export function computeTextStatistics(
 ): TextStatistics {
   const visibleText = extractVisibleText(rawContent, fileType);
   const visibleTextCharCount = countVisibleChars(visibleText);
-  const manuscriptCellCount = countManuscriptCells(visibleText);
+  const manuscriptCellCount =
+    layoutManuscriptLines(extractManuscriptCells(rawContent, fileType)).length * CHARS_PER_LINE;
   const manuscriptPages = countManuscriptPages(manuscriptCellCount);
   const paragraphCount = countParagraphs(visibleText);
 
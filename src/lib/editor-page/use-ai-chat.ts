@@ -0,0 +1,216 @@
+/**
+ * React hook driving the AI assistant chat (Inspector "AI" tab): streams the
+ * reply from IAiClient.streamChat, trims the request to the provider's context
+ * window (assistant-chat.ts) and persists the conversation per project in
+ * .illusions/ai-chat.json.
+ *
+ * AI アシスタントチャットの送信・ストリーミング・中断・履歴保存を管理するフック。
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getAiClient, resolveAiProvider } from "@/lib/ai/ai-client";
+import { buildChatRequest } from "@/lib/ai/assistant-chat";
+import type { ChatAttachment, ChatRequest } from "@/lib/ai/assistant-chat";
+import { AI_PROVIDERS } from "@/lib/ai/providers";
+import type { AiChatMessage } from "@/lib/ai/types";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { AiChatEntry, EditorMode } from "@/lib/project/project-types";
+import { getAiChatHistoryService } from "@/lib/services/ai-chat-history-service";
+import { getProjectFileService } from "@/lib/services/project-file-service";
+
+export interface UseAiChatResult {
+  entries: AiChatEntry[];
+  /** Id of the reply being streamed, or null */
+  streamingId: string | null;
+  /** Why part of the request was left out (trimming), or null */
+  notice: string | null;
+  error: string | null;
+  /** Whether the conversation is saved to the project */
+  isPersisted: boolean;
+  /** Returns false when the question was not sent (see `error`) */
+  send: (question: string, attachments: ChatAttachment[]) => boolean;
+  cancel: () => void;
+  clear: () => void;
+  dismissError: () => void;
+}
+
+function toChatMessage(entry: AiChatEntry): AiChatMessage {
+  return { role: entry.role, content: entry.content };
+}
+
+function describeTrim(droppedMessages: number, truncatedAttachments: string[]): string | null {
+  const parts: string[] = [];
+  if (droppedMessages > 0) parts.push(`古い会話 ${droppedMessages} 件`);
+  if (truncatedAttachments.length > 0) parts.push(`「${truncatedAttachments.join("」「")}」の一部`);
+  return parts.length > 0
+    ? `コンテキスト長に収めるため、${parts.join("と")}を省いて送信しました。`
+    : null;
+}
+
+export function useAiChat(editorMode: EditorMode): UseAiChatResult {
+  const [entries, setEntries] = useState<AiChatEntry[]>([]);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPersisted, setIsPersisted] = useState(false);
+  const entriesRef = useRef<AiChatEntry[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const projectId = isProjectMode(editorMode) ? editorMode.projectId : null;
+
+  const updateEntries = useCallback((next: AiChatEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  // Load the project's conversation; a standalone file starts empty. The panel
+  // is keyed by project, so switching projects starts from a fresh state.
+  useEffect(() => {
+    if (!projectId || !getProjectFileService().isRootOpen()) return;
+
+    let cancelled = false;
+    getAiChatHistoryService()
+      .loadEntries()
+      .then((loaded) => {
+        if (cancelled) return;
+        updateEntries(loaded);
+        setIsPersisted(true);
+      })
+      .catch((err: unknown) => {
+        // Keep the file untouched (isPersisted stays false) so it is not overwritten.
+        console.warn("AI アシスタントの会話履歴を読み込めませんでした:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, updateEntries]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const persist = useCallback(() => {
+    if (!isPersisted) return;
+    getAiChatHistoryService()
+      .saveEntries(entriesRef.current)
+      .catch((err: unknown) =>
+        console.warn("AI アシスタントの会話履歴を保存できませんでした:", err),
+      );
+  }, [isPersisted]);
+
+  const send = useCallback(
+    (question: string, attachments: ChatAttachment[]): boolean => {
+      const trimmedQuestion = question.trim();
+      if (!trimmedQuestion || abortRef.current) return false;
+
+      const client = getAiClient("chat");
+      if (!client.isConfigured()) {
+        setError("AI API が設定されていません。設定の「AI API」で接続先を指定してください。");
+        return false;
+      }
+
+      const history = entriesRef.current
+        .filter((entry) => entry.content && !entry.interrupted)
+        .map(toChatMessage);
+      let request: ChatRequest;
+      try {
+        request = buildChatRequest({
+          history,
+          question: trimmedQuestion,
+          attachments,
+          contextLength: AI_PROVIDERS[resolveAiProvider("chat")].capabilities.contextLength,
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : String(err));
+        return false;
+      }
+
+      const now = Date.now();
+      const userEntry: AiChatEntry = {
+        id: crypto.randomUUID(),
+        role: "user",
+        content: trimmedQuestion,
+        createdAt: now,
+        ...(attachments.length > 0 ? { attachments: attachments.map((a) => a.label) } : {}),
+      };
+      const replyId = crypto.randomUUID();
+      let reply = "";
+      const writeReply = (extra: Partial<AiChatEntry> = {}) => {
+        updateEntries(
+          entriesRef.current.map((entry) =>
+            entry.id === replyId ? { ...entry, content: reply, ...extra } : entry,
+          ),
+        );
+      };
+
+      updateEntries([
+        ...entriesRef.current,
+        userEntry,
+        { id: replyId, role: "assistant", content: "", createdAt: now },
+      ]);
+      setNotice(describeTrim(request.droppedMessages, request.truncatedAttachments));
+      setError(null);
+      setStreamingId(replyId);
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+
+      void (async () => {
+        try {
+          for await (const delta of client.streamChat(request.messages, controller.signal)) {
+            if (controller.signal.aborted) break;
+            reply += delta;
+            writeReply();
+          }
+          if (controller.signal.aborted) {
+            writeReply({ interrupted: true });
+          }
+        } catch (err) {
+          if (!controller.signal.aborted) {
+            const message = err instanceof Error ? err.message : String(err);
+            setError(`AI アシスタントの応答に失敗しました: ${message}`);
+          }
+          writeReply({ interrupted: true });
+        } finally {
+          if (abortRef.current === controller) abortRef.current = null;
+          setStreamingId(null);
+          persist();
+        }
+      })();
+      return true;
+    },
+    [persist, updateEntries],
+  );
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const clear = useCallback(() => {
+    abortRef.current?.abort();
+    updateEntries([]);
+    setNotice(null);
+    setError(null);
+    if (isPersisted) {
+      getAiChatHistoryService()
+        .clear()
+        .catch((err: unknown) =>
+          console.warn("AI アシスタントの会話履歴を削除できませんでした:", err),
+        );
+    }
+  }, [isPersisted, updateEntries]);
+
+  const dismissError = useCallback(() => setError(null), []);
+
+  return {
+    entries,
+    streamingId,
+    notice,
+    error,
+    isPersisted,
+    send,
+    cancel,
+    clear,
+    dismissError,
+  };
+}
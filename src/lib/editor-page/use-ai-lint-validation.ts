@@ -0,0 +1,58 @@
+/**
+ * React hook wiring the opt-in L3 pass (AI validation of lint issues) into the
+ * linting decoration plugin.
+ *
+ * Owns one AiLintValidator for the page so its verdict cache survives editor
+ * remounts and setting toggles; verdicts are dropped only when the answering
+ * provider or model changes. When validation is off the plugin gets `null`
+ * and shows plain L1/L2 results.
+ *
+ * AI による校正指摘の判定（L3）を校正プラグインに接続するフック。
+ */
+
+import type { EditorView } from "@milkdown/prose/view";
+import { useEffect, useState } from "react";
+
+import { AiLintValidator } from "@/lib/linting/ai-lint-validator";
+import type { FalsePositiveAction } from "@/lib/linting/ai-lint-validator";
+import { isEditorViewAlive } from "@/shared/lib/editor-view-safety";
+
+export interface AiLintValidationOptions {
+  enabled: boolean;
+  falsePositiveAction: FalsePositiveAction;
+  /** Identifies the answering provider / model; verdicts are discarded when it changes */
+  modelKey: string;
+}
+
+/**
+ * Push the validator (or null) to the linting plugin of `editorViewInstance`.
+ *
+ * @param editorViewInstance Current editor view (null before mount)
+ * @param options Validation settings from useAiApiSettings
+ */
+export function useAiLintValidation(
+  editorViewInstance: EditorView | null,
+  { enabled, falsePositiveAction, modelKey }: AiLintValidationOptions,
+): void {
+  const [validator] = useState(() => new AiLintValidator(falsePositiveAction));
+
+  useEffect(() => {
+    validator.clear();
+  }, [validator, modelKey]);
+
+  useEffect(() => {
+    if (!editorViewInstance) return;
+    validator.setFalsePositiveAction(falsePositiveAction);
+
+    import("@/packages/milkdown-plugin-japanese-novel/linting-plugin")
+      .then(({ updateLintingSettings }) => {
+        if (!isEditorViewAlive(editorViewInstance)) return;
+        updateLintingSettings(editorViewInstance, {
+          issueValidator: enabled ? validator : null,
+        });
+      })
+      .catch((err) => {
+        console.error("[useAiLintValidation] Failed to sync AI validation:", err);
+      });
+  }, [editorViewInstance, validator, enabled, falsePositiveAction, modelKey]);
+}
@@ -0,0 +1,207 @@
+/**
+ * React hook driving the in-editor AI rewrite: sends the selection to
+ * IAiClient.suggestRewrite, opens the inline review (ai-rewrite-review-plugin)
+ * and applies the accepted hunks after taking a restore point.
+ *
+ * Only a selection inside one paragraph made of plain text is rewritten, so
+ * offsets in the selected text map 1:1 to document positions.
+ *
+ * エディタ内 AI 書き換え（依頼 → インライン差分レビュー → 反映）を管理するフック。
+ */
+
+import type { EditorView } from "@milkdown/prose/view";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getAiClient } from "@/lib/ai/ai-client";
+import type { RewriteIntent } from "@/lib/ai/rewrite-intents";
+import { isEditorViewAlive } from "@/shared/lib/editor-view-safety";
+import {
+  applyRewriteReview,
+  cancelRewriteReview,
+  decideRewriteHunks,
+  startRewriteReview,
+} from "./ai-rewrite-review-plugin";
+import type { RewriteHunkDecision, RewriteReview } from "./ai-rewrite-review-plugin";
+import { buildRewriteHunks } from "./rewrite-hunks";
+
+export type AiRewriteStatus =
+  | { kind: "idle" }
+  | { kind: "requesting"; intentLabel: string }
+  | { kind: "notice"; message: string }
+  | { kind: "error"; message: string };
+
+export interface UseAiRewriteOptions {
+  /** Called before accepted changes are written (restore-point snapshot) */
+  onBeforeApply?: () => Promise<void>;
+}
+
+export interface UseAiRewriteResult {
+  status: AiRewriteStatus;
+  /** The open review (mirrors the plugin state) */
+  review: RewriteReview | null;
+  /** Pass to createAiRewriteReviewPlugin so `review` follows the plugin */
+  handleReviewChange: (review: RewriteReview | null) => void;
+  requestRewrite: (intent: RewriteIntent) => void;
+  cancelRequest: () => void;
+  dismissStatus: () => void;
+  decideAll: (decision: RewriteHunkDecision) => void;
+  applyReview: () => Promise<void>;
+  cancelReview: () => void;
+}
+
+/** Sent along with the intent; the review maps hunks into a single paragraph. */
+const SINGLE_PARAGRAPH_INSTRUCTION = "Keep the result a single paragraph without line breaks.";
+
+export function useAiRewrite(
+  editorViewInstance: EditorView | null,
+  { onBeforeApply }: UseAiRewriteOptions = {},
+): UseAiRewriteResult {
+  const [status, setStatus] = useState<AiRewriteStatus>({ kind: "idle" });
+  const [review, setReview] = useState<RewriteReview | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const requestRewrite = useCallback(
+    (intent: RewriteIntent) => {
+      const view = editorViewInstance;
+      if (!view || !isEditorViewAlive(view)) return;
+
+      const { from, to, $from, $to } = view.state.selection;
+      if (from === to) return;
+      if (!$from.sameParent($to) || !$from.parent.isTextblock) {
+        setStatus({
+          kind: "error",
+          message: "AI 書き換えは、1つの段落の中で範囲を選択して実行してください。",
+        });
+        return;
+      }
+      const text = view.state.doc.textBetween(from, to);
+      if (text.length !== to - from) {
+        setStatus({
+          kind: "error",
+          message: "ルビや縦中横などを含む範囲は AI で書き換えできません。",
+        });
+        return;
+      }
+
+      const client = getAiClient("rewrite");
+      if (!client.isConfigured()) {
+        setStatus({
+          kind: "error",
+          message: "AI API が設定されていません。設定の「AI API」で接続先を指定してください。",
+        });
+        return;
+      }
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setStatus({ kind: "requesting", intentLabel: intent.label });
+
+      client
+        .suggestRewrite(
+          text,
+          `${intent.instruction}\n${SINGLE_PARAGRAPH_INSTRUCTION}`,
+          controller.signal,
+        )
+        .then((result) => {
+          if (controller.signal.aborted || !isEditorViewAlive(view)) return;
+          if (view.state.doc.textBetween(from, to) !== text) {
+            setStatus({
+              kind: "error",
+              message: "書き換え案の作成中に本文が変更されたため、提案を破棄しました。",
+            });
+            return;
+          }
+
+          const suggestion =
+            typeof result.suggestion === "string" ? result.suggestion.replace(/\r?\n/g, "") : text;
+          const hunks = buildRewriteHunks(text, suggestion);
+          if (hunks.length === 0) {
+            setStatus({ kind: "notice", message: "変更の提案はありませんでした。" });
+            return;
+          }
+
+          startRewriteReview(view, {
+            from,
+            intentLabel: intent.label,
+            explanation: typeof result.explanation === "string" ? result.explanation : "",
+            hunks,
+          });
+          setStatus({ kind: "idle" });
+        })
+        .catch((err: unknown) => {
+          if (controller.signal.aborted) return;
+          const message = err instanceof Error ? err.message : String(err);
+          setStatus({ kind: "error", message: `AI 書き換えに失敗しました: ${message}` });
+        })
+        .finally(() => {
+          if (abortRef.current === controller) abortRef.current = null;
+        });
+    },
+    [editorViewInstance],
+  );
+
+  const cancelRequest = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStatus({ kind: "idle" });
+  }, []);
+
+  const dismissStatus = useCallback(() => {
+    setStatus({ kind: "idle" });
+  }, []);
+
+  const decideAll = useCallback(
+    (decision: RewriteHunkDecision) => {
+      if (editorViewInstance && isEditorViewAlive(editorViewInstance)) {
+        decideRewriteHunks(editorViewInstance, "all", decision);
+      }
+    },
+    [editorViewInstance],
+  );
+
+  const applyReview = useCallback(async () => {
+    const view = editorViewInstance;
+    if (!view || !isEditorViewAlive(view) || !review) return;
+
+    if (review.hunks.some((hunk) => hunk.decision === "accepted")) {
+      try {
+        await onBeforeApply?.();
+      } catch (err) {
+        // Non-fatal: the change is still one undo step away from the original.
+        console.warn("AI 書き換え前のスナップショット作成に失敗しました:", err);
+      }
+    }
+    if (!isEditorViewAlive(view)) return;
+
+    const { skipped } = applyRewriteReview(view);
+    if (skipped > 0) {
+      setStatus({
+        kind: "notice",
+        message: `${skipped}件の変更は、レビュー中に本文が編集されたため反映しませんでした。`,
+      });
+    }
+  }, [editorViewInstance, review, onBeforeApply]);
+
+  const cancelReview = useCallback(() => {
+    if (editorViewInstance && isEditorViewAlive(editorViewInstance)) {
+      cancelRewriteReview(editorViewInstance);
+    }
+  }, [editorViewInstance]);
+
+  return {
+    status,
+    review,
+    handleReviewChange: setReview,
+    requestRewrite,
+    cancelRequest,
+    dismissStatus,
+    decideAll,
+    applyReview,
+    cancelReview,
+  };
+}
@@ -1,7 +1,9 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 
 import { fetchAppState, persistAppState } from "@/lib/storage/app-state-manager";
-import { configureAiClient, resetAiClient } from "@/lib/ai/ai-client";
+import { configureAiClient, resetAiClient, setAiRouting } from "@/lib/ai/ai-client";
+import { AI_PROVIDERS } from "@/lib/ai/providers";
+import type { AiFeature, AiProviderId } from "@/lib/ai/types";
 import type { Severity } from "@/lib/linting/types";
 import type {
   CorrectionConfig,
@@ -10,6 +12,7 @@ import type {
 } from "@/lib/linting/correction-config";
 import { DEFAULT_CORRECTION_CONFIG } from "@/lib/linting/correction-config";
 import { CORRECTION_MODES } from "@/lib/linting/correction-modes";
+import type { FalsePositiveAction } from "@/lib/linting/ai-lint-validator";
 
 /**
  * Per-rule proofreading config as persisted in app state and edited from the
@@ -24,6 +27,10 @@ export interface PersistedRuleConfig {
   options?: Record<string, unknown>;
 }
 
+function isAiProviderId(value: unknown): value is AiProviderId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(AI_PROVIDERS, value);
+}
+
 export interface AiSettings {
   lintingEnabled: boolean;
   lintingRuleConfigs: Record<string, PersistedRuleConfig>;
@@ -40,6 +47,19 @@ export interface AiSettings {
   aiBaseUrl: string;
   /** Model ID for online AI API */
   aiModelId: string;
+  /** Provider for AI features without a per-feature override */
+  aiProvider: AiProviderId;
+  /** Per-feature provider overrides (lint validation, rewrite, character extraction) */
+  aiFeatureProviders: Partial<Record<AiFeature, AiProviderId>>;
+  // aiAnthropicApiKey is likewise read from AppState by AiApiSettingsTab.
+  aiAnthropicModelId: string;
+  /** Ollama server URL (empty: http://localhost:11434) */
+  aiOllamaBaseUrl: string;
+  aiOllamaModelId: string;
+  /** L3: validate lint issues with the online AI API (opt-in) */
+  aiLintValidation: boolean;
+  /** L3: demote or hide issues the model judges false positives */
+  aiLintValidationAction: FalsePositiveAction;
 }
 
 export interface AiSettingsHandlers {
@@ -58,6 +78,15 @@ export interface AiSettingsHandlers {
   handleAiApiKeyChange: (apiKey: string) => void;
   handleAiBaseUrlChange: (baseUrl: string) => void;
   handleAiModelIdChange: (modelId: string) => void;
+  handleAiProviderChange: (provider: AiProviderId) => void;
+  /** Route a feature to a provider, or back to the default with null */
+  handleAiFeatureProviderChange: (feature: AiFeature, provider: AiProviderId | null) => void;
+  handleAiAnthropicApiKeyChange: (apiKey: string) => void;
+  handleAiAnthropicModelIdChange: (modelId: string) => void;
+  handleAiOllamaBaseUrlChange: (baseUrl: string) => void;
+  handleAiOllamaModelIdChange: (modelId: string) => void;
+  handleAiLintValidationChange: (enabled: boolean) => void;
+  handleAiLintValidationActionChange: (action: FalsePositiveAction) => void;
   /** Expose setters so power-save restore can update linting state */
   setLintingEnabled: (value: boolean) => void;
   setLintingRuleConfigs: (configs: Record<string, PersistedRuleConfig>) => void;
@@ -87,6 +116,17 @@ export function useAiSettings(): UseAiSettingsResult {
   const [aiApiKey, setAiApiKey] = useState("");
   const [aiBaseUrl, setAiBaseUrl] = useState("");
   const [aiModelId, setAiModelId] = useState("gpt-4o-mini");
+  const [aiProvider, setAiProvider] = useState<AiProviderId>("openai-compatible");
+  const [aiFeatureProviders, setAiFeatureProviders] = useState<
+    Partial<Record<AiFeature, AiProviderId>>
+  >({});
+  const [aiAnthropicApiKey, setAiAnthropicApiKey] = useState("");
+  const [aiAnthropicModelId, setAiAnthropicModelId] = useState("claude-sonnet-4-6");
+  const [aiOllamaBaseUrl, setAiOllamaBaseUrl] = useState("");
+  const [aiOllamaModelId, setAiOllamaModelId] = useState("");
+  const [aiLintValidation, setAiLintValidation] = useState(false);
+  const [aiLintValidationAction, setAiLintValidationAction] =
+    useState<FalsePositiveAction>("demote");
   const [correctionMode, setCorrectionMode] = useState<CorrectionModeId>("novel");
   const [correctionGuidelines, setCorrectionGuidelines] = useState<GuidelineId[]>(
     DEFAULT_CORRECTION_CONFIG.guidelines,
@@ -172,6 +212,33 @@ export function useAiSettings(): UseAiSettingsResult {
     if (typeof appState.aiApiKey === "string") setAiApiKey(appState.aiApiKey);
     if (typeof appState.aiBaseUrl === "string") setAiBaseUrl(appState.aiBaseUrl);
     if (typeof appState.aiModelId === "string") setAiModelId(appState.aiModelId);
+    if (isAiProviderId(appState.aiProvider)) setAiProvider(appState.aiProvider);
+    if (appState.aiFeatureProviders && typeof appState.aiFeatureProviders === "object") {
+      const sanitized: Partial<Record<AiFeature, AiProviderId>> = {};
+      for (const [feature, provider] of Object.entries(
+        appState.aiFeatureProviders as Record<string, unknown>,
+      )) {
+        if (isAiProviderId(provider)) sanitized[feature as AiFeature] = provider;
+      }
+      setAiFeatureProviders(sanitized);
+    }
+    if (typeof appState.aiAnthropicApiKey === "string") {
+      setAiAnthropicApiKey(appState.aiAnthropicApiKey);
+    }
+    if (typeof appState.aiAnthropicModelId === "string") {
+      setAiAnthropicModelId(appState.aiAnthropicModelId);
+    }
+    if (typeof appState.aiOllamaBaseUrl === "string") setAiOllamaBaseUrl(appState.aiOllamaBaseUrl);
+    if (typeof appState.aiOllamaModelId === "string") setAiOllamaModelId(appState.aiOllamaModelId);
+    if (typeof appState.aiLintValidation === "boolean") {
+      setAiLintValidation(appState.aiLintValidation);
+    }
+    if (
+      appState.aiLintValidationAction === "demote" ||
+      appState.aiLintValidationAction === "hide"
+    ) {
+      setAiLintValidationAction(appState.aiLintValidationAction);
+    }
 
     if (typeof appState.characterExtractionBatchSize === "number") {
       setCharacterExtractionBatchSize(
@@ -229,18 +296,107 @@ export function useAiSettings(): UseAiSettingsResult {
     );
   }, []);
 
-  // Sync AI client configuration whenever relevant settings change
-  useEffect(() => {
-    if (aiApiKey) {
-      configureAiClient({
-        apiKey: aiApiKey,
-        baseUrl: aiBaseUrl || undefined,
-        modelId: aiModelId,
+  const handleAiProviderChange = useCallback((provider: AiProviderId) => {
+    setAiProvider(provider);
+    void persistAppState({ aiProvider: provider }).catch((e) =>
+      console.error("Failed to persist aiProvider:", e),
+    );
+  }, []);
+
+  const handleAiFeatureProviderChange = useCallback(
+    (feature: AiFeature, provider: AiProviderId | null) => {
+      setAiFeatureProviders((prev) => {
+        const next = { ...prev };
+        if (provider) {
+          next[feature] = provider;
+        } else {
+          delete next[feature];
+        }
+        void persistAppState({ aiFeatureProviders: next }).catch((e) =>
+          console.error("Failed to persist aiFeatureProviders:", e),
+        );
+        return next;
       });
-    } else {
-      resetAiClient();
-    }
-  }, [aiApiKey, aiBaseUrl, aiModelId]);
+    },
+    [],
+  );
+
+  const handleAiAnthropicApiKeyChange = useCallback((apiKey: string) => {
+    setAiAnthropicApiKey(apiKey);
+    void persistAppState({ aiAnthropicApiKey: apiKey }).catch((e) =>
+      console.error("Failed to persist aiAnthropicApiKey:", e),
+    );
+  }, []);
+
+  const handleAiAnthropicModelIdChange = useCallback((modelId: string) => {
+    setAiAnthropicModelId(modelId);
+    void persistAppState({ aiAnthropicModelId: modelId }).catch((e) =>
+      console.error("Failed to persist aiAnthropicModelId:", e),
+    );
+  }, []);
+
+  const handleAiOllamaBaseUrlChange = useCallback((baseUrl: string) => {
+    setAiOllamaBaseUrl(baseUrl);
+    void persistAppState({ aiOllamaBaseUrl: baseUrl }).catch((e) =>
+      console.error("Failed to persist aiOllamaBaseUrl:", e),
+    );
+  }, []);
+
+  const handleAiOllamaModelIdChange = useCallback((modelId: string) => {
+    setAiOllamaModelId(modelId);
+    void persistAppState({ aiOllamaModelId: modelId }).catch((e) =>
+      console.error("Failed to persist aiOllamaModelId:", e),
+    );
+  }, []);
+
+  const handleAiLintValidationChange = useCallback((enabled: boolean) => {
+    setAiLintValidation(enabled);
+    void persistAppState({ aiLintValidation: enabled }).catch((e) =>
+      console.error("Failed to persist aiLintValidation:", e),
+    );
+  }, []);
+
+  const handleAiLintValidationActionChange = useCallback((action: FalsePositiveAction) => {
+    setAiLintValidationAction(action);
+    void persistAppState({ aiLintValidationAction: action }).catch((e) =>
+      console.error("Failed to persist aiLintValidationAction:", e),
+    );
+  }, []);
+
+  // Sync AI client configuration whenever relevant settings change. Every
+  // provider is pushed; the client treats one without a key / model as
+  // unconfigured.
+  useEffect(() => {
+    resetAiClient();
+    configureAiClient({
+      provider: "openai-compatible",
+      apiKey: aiApiKey,
+      baseUrl: aiBaseUrl || undefined,
+      modelId: aiModelId,
+    });
+    configureAiClient({
+      provider: "anthropic",
+      apiKey: aiAnthropicApiKey,
+      modelId: aiAnthropicModelId,
+    });
+    configureAiClient({
+      provider: "ollama",
+      apiKey: "",
+      baseUrl: aiOllamaBaseUrl || undefined,
+      modelId: aiOllamaModelId,
+    });
+    setAiRouting({ defaultProvider: aiProvider, features: aiFeatureProviders });
+  }, [
+    aiApiKey,
+    aiBaseUrl,
+    aiModelId,
+    aiAnthropicApiKey,
+    aiAnthropicModelId,
+    aiOllamaBaseUrl,
+    aiOllamaModelId,
+    aiProvider,
+    aiFeatureProviders,
+  ]);
 
   const handleLintingRuleConfigChange = useCallback(
     (ruleId: string, config: PersistedRuleConfig) => {
@@ -394,6 +550,13 @@ export function useAiSettings(): UseAiSettingsResult {
       },
       aiBaseUrl,
       aiModelId,
+      aiProvider,
+      aiFeatureProviders,
+      aiAnthropicModelId,
+      aiOllamaBaseUrl,
+      aiOllamaModelId,
+      aiLintValidation,
+      aiLintValidationAction,
     },
     aiHandlers: {
       handleLintingEnabledChange,
@@ -409,6 +572,14 @@ export function useAiSettings(): UseAiSettingsResult {
       handleAiApiKeyChange,
       handleAiBaseUrlChange,
       handleAiModelIdChange,
+      handleAiProviderChange,
+      handleAiFeatureProviderChange,
+      handleAiAnthropicApiKeyChange,
+      handleAiAnthropicModelIdChange,
+      handleAiOllamaBaseUrlChange,
+      handleAiOllamaModelIdChange,
+      handleAiLintValidationChange,
+      handleAiLintValidationActionChange,
       setLintingEnabled,
       setLintingRuleConfigs,
     },
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+import { getNlpClient } from "@/lib/nlp-client/nlp-client";
+import type { Character } from "@/lib/project/project-types";
+import type { Token } from "@/lib/nlp-client/types";
+import {
+  analyzeMentionParagraph,
+  buildCharacterMentionIndex,
+  layoutMentionParagraphs,
+} from "./character-mentions";
+import type { CharacterMentionIndex, ParagraphMentions } from "./character-mentions";
+
+/** Wait for typing to settle before re-indexing. */
+const REINDEX_DELAY_MS = 800;
+
+interface UseCharacterMentionsResult {
+  index: CharacterMentionIndex | null;
+  isAnalyzing: boolean;
+}
+
+/** Identity of the names being matched; a change invalidates every cached paragraph. */
+function characterSignature(characters: readonly Character[]): string {
+  return JSON.stringify(characters.map((c) => [c.id, c.name, c.aliases]));
+}
+
+/**
+ * Keep the character mention index of `content` up to date.
+ *
+ * Paragraph results are cached by paragraph text, so after the first pass an
+ * edit only tokenizes and re-analyzes the paragraphs that changed. When the
+ * NLP backend is unavailable, paragraphs are matched without morpheme
+ * boundaries and left uncached so they are retried on the next pass.
+ */
+export function useCharacterMentions(
+  content: string,
+  characters: readonly Character[],
+): UseCharacterMentionsResult {
+  const [index, setIndex] = useState<CharacterMentionIndex | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const cacheRef = useRef(new Map<string, ParagraphMentions>());
+  const signatureRef = useRef("");
+  /** Generation counter — stale async passes are discarded */
+  const genRef = useRef(0);
+
+  useEffect(() => {
+    const myGen = ++genRef.current;
+    const timer = setTimeout(() => {
+      const run = async (): Promise<void> => {
+        const layout = layoutMentionParagraphs(content);
+        const signature = characterSignature(characters);
+        if (signature !== signatureRef.current) {
+          cacheRef.current = new Map();
+          signatureRef.current = signature;
+        }
+        const cache = cacheRef.current;
+        const missing = [
+          ...new Set(layout.paragraphs.map((p) => p.text).filter((text) => !cache.has(text))),
+        ];
+
+        const fresh = new Map<string, ParagraphMentions>();
+        if (missing.length > 0 && characters.length > 0) {
+          setIsAnalyzing(true);
+          let tokensByText: Map<string, Token[]> | null = null;
+          try {
+            const tokenized = await getNlpClient().tokenizeDocument(
+              missing.map((text, pos) => ({ pos, text })),
+            );
+            tokensByText = new Map(tokenized.map(({ pos, tokens }) => [missing[pos], tokens]));
+          } catch (err) {
+            console.warn("[CharacterMentions] Tokenization failed; matching names only:", err);
+          }
+          if (genRef.current !== myGen) return;
+          for (const text of missing) {
+            const tokens = tokensByText?.get(text) ?? null;
+            const result = analyzeMentionParagraph(text, characters, tokens);
+            if (tokens) cache.set(text, result);
+            else fresh.set(text, result);
+          }
+        }
+
+        // Drop paragraphs that no longer exist so the cache tracks the document.
+        const present = new Set(layout.paragraphs.map((p) => p.text));
+        for (const text of cache.keys()) {
+          if (!present.has(text)) cache.delete(text);
+        }
+
+        const empty: ParagraphMentions = { counts: {}, speaker: null, unknownNames: [] };
+        const results = layout.paragraphs.map(
+          (p) => cache.get(p.text) ?? fresh.get(p.text) ?? empty,
+        );
+        setIndex(buildCharacterMentionIndex(layout, characters, results));
+        setIsAnalyzing(false);
+      };
+      void run();
+    }, REINDEX_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [content, characters]);
+
+  return { index, isAnalyzing };
+}
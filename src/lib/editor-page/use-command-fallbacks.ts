@@ -0,0 +1,49 @@
+import { useMemo } from "react";
+
+import { ALL_COMMAND_IDS } from "@/lib/keymap/command-ids";
+import { useCommandHandlers } from "@/lib/keymap/command-bus";
+import { COMMAND_ID_TO_MENU_ACTION } from "@/lib/menu/menu-definitions";
+
+import type { CommandId } from "@/lib/keymap/command-ids";
+
+interface UseCommandFallbacksParams {
+  isElectron: boolean;
+  handleMenuAction: (action: string) => void;
+  newTab: () => void;
+  closeTab: (tabId: string) => void;
+  activeTabId: string;
+}
+
+/**
+ * Registers command-bus fallbacks for commands that have no key handler in
+ * the renderer because their shortcut is owned by the native Electron menu or
+ * the browser (undo, zoom, new tab on desktop, …). They let the command palette
+ * run every registry command. Single-stroke keys never reach fallbacks (the
+ * menu or browser already handles them); a chord binding does, since native
+ * accelerators cannot express chords.
+ */
+export function useCommandFallbacks({
+  isElectron,
+  handleMenuAction,
+  newTab,
+  closeTab,
+  activeTabId,
+}: UseCommandFallbacksParams): void {
+  const handlers = useMemo<Partial<Record<CommandId, () => void>>>(() => {
+    const map: Partial<Record<CommandId, () => void>> = {};
+    for (const id of ALL_COMMAND_IDS) {
+      const action = COMMAND_ID_TO_MENU_ACTION[id];
+      if (action) map[id] = () => handleMenuAction(action);
+    }
+    // The Web menu handler opens a browser tab; on desktop ask the main process.
+    if (isElectron) {
+      map["file.newWindow"] = () => void window.electronAPI?.newWindow?.();
+    }
+    // The page's Web menu handlers leave tab actions to the tab manager.
+    map["file.newTab"] = () => newTab();
+    map["file.closeTab"] = () => closeTab(activeTabId);
+    return map;
+  }, [isElectron, handleMenuAction, newTab, closeTab, activeTabId]);
+
+  useCommandHandlers(handlers, "fallback");
+}
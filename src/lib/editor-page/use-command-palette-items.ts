@@ -0,0 +1,152 @@
+"use client";
+
+/**
+ * Builds the command palette's dynamic entries — everything besides the keymap
+ * registry commands, which the palette lists itself:
+ *
+ * - manuscript files of the open project (opened as a tab)
+ * - headings of the active document, via useChapters (jump to the heading)
+ * - installed rulesets (enable / disable all of their rules)
+ * - correction modes (switch mode)
+ */
+
+import { useEffect, useMemo, useState } from "react";
+
+import { getCompileManifestService } from "@/lib/services/compile-manifest-service";
+import { CORRECTION_MODES } from "@/lib/linting/correction-modes";
+import { LINT_DEFAULT_CONFIGS } from "@/lib/linting/lint-presets";
+
+import { useChapters } from "./use-chapters";
+import { useRuleSourceMap } from "./use-rule-source-map";
+
+import type { PaletteItem } from "@/lib/command-palette/palette-search";
+import type { CorrectionModeId } from "@/lib/linting/correction-config";
+import type { PersistedRuleConfig } from "./use-ai-settings";
+
+interface UseCommandPaletteItemsParams {
+  /** Project files are listed only while the palette is open */
+  isOpen: boolean;
+  isProject: boolean;
+  /** Content of the active editor tab */
+  content: string;
+  openProjectFile: (vfsPath: string) => Promise<void>;
+  onChapterClick: (anchorId: string) => void;
+  lintingRuleConfigs: Record<string, PersistedRuleConfig>;
+  onLintingRuleConfigsBatchChange: (configs: Record<string, PersistedRuleConfig>) => void;
+  correctionMode: CorrectionModeId;
+  onCorrectionModeChange: (modeId: CorrectionModeId) => void;
+}
+
+export function useCommandPaletteItems({
+  isOpen,
+  isProject,
+  content,
+  openProjectFile,
+  onChapterClick,
+  lintingRuleConfigs,
+  onLintingRuleConfigsBatchChange,
+  correctionMode,
+  onCorrectionModeChange,
+}: UseCommandPaletteItemsParams): PaletteItem[] {
+  const [filePaths, setFilePaths] = useState<string[]>([]);
+  const { chapters } = useChapters(content);
+  const ruleSourceMap = useRuleSourceMap();
+
+  useEffect(() => {
+    if (!isOpen || !isProject) return;
+    let cancelled = false;
+    getCompileManifestService()
+      .listManuscriptPaths()
+      .then((paths) => {
+        if (!cancelled) setFilePaths(paths);
+      })
+      .catch((err: unknown) => {
+        console.error("[command-palette] failed to list project files:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, isProject]);
+
+  const fileItems = useMemo<PaletteItem[]>(
+    () =>
+      (isProject ? filePaths : []).map((path) => ({
+        id: `file:${path}`,
+        kind: "file",
+        label: path.split("/").pop() ?? path,
+        keywords: [path],
+        detail: path,
+        run: () => void openProjectFile(path),
+      })),
+    [isProject, filePaths, openProjectFile],
+  );
+
+  const headingItems = useMemo<PaletteItem[]>(
+    () =>
+      chapters.flatMap((chapter) => {
+        const anchorId = chapter.anchorId;
+        if (!anchorId) return [];
+        return [
+          {
+            id: `heading:${anchorId}`,
+            kind: "heading",
+            label: chapter.title,
+            keywords: ["見出し"],
+            detail: `見出し ${"#".repeat(chapter.level)}`,
+            run: () => onChapterClick(anchorId),
+          },
+        ];
+      }),
+    [chapters, onChapterClick],
+  );
+
+  const rulesetItems = useMemo<PaletteItem[]>(() => {
+    const rulesets = new Map<string, { nameJa: string; ruleIds: string[] }>();
+    for (const [ruleId, source] of ruleSourceMap) {
+      const entry = rulesets.get(source.id) ?? { nameJa: source.nameJa, ruleIds: [] };
+      entry.ruleIds.push(ruleId);
+      rulesets.set(source.id, entry);
+    }
+
+    // Same merge as the settings "すべて有効 / すべて無効" buttons: keep each
+    // rule's severity and options, flip only `enabled`.
+    const setEnabled = (ruleIds: string[], enabled: boolean): void => {
+      const next = { ...lintingRuleConfigs };
+      for (const ruleId of ruleIds) {
+        const current = next[ruleId] ??
+          LINT_DEFAULT_CONFIGS[ruleId] ?? { enabled: true, severity: "warning" };
+        next[ruleId] = { ...current, enabled };
+      }
+      onLintingRuleConfigsBatchChange(next);
+    };
+
+    return Array.from(rulesets, ([id, { nameJa, ruleIds }]) =>
+      [true, false].map((enabled): PaletteItem => ({
+        id: `ruleset:${id}:${enabled ? "on" : "off"}`,
+        kind: "ruleset",
+        label: `ルールセット「${nameJa}」をすべて${enabled ? "有効" : "無効"}にする`,
+        keywords: [id, enabled ? "ゆうこう" : "むこう"],
+        detail: `${ruleIds.length}ルール`,
+        run: () => setEnabled(ruleIds, enabled),
+      })),
+    ).flat();
+  }, [ruleSourceMap, lintingRuleConfigs, onLintingRuleConfigsBatchChange]);
+
+  const modeItems = useMemo<PaletteItem[]>(
+    () =>
+      Object.values(CORRECTION_MODES).map((mode) => ({
+        id: `mode:${mode.id}`,
+        kind: "mode",
+        label: `校正モード: ${mode.nameJa}`,
+        keywords: ["こうせいもーど", mode.id, mode.toneJa],
+        detail: mode.id === correctionMode ? "現在のモード" : undefined,
+        run: () => onCorrectionModeChange(mode.id),
+      })),
+    [correctionMode, onCorrectionModeChange],
+  );
+
+  return useMemo(
+    () => [...fileItems, ...headingItems, ...rulesetItems, ...modeItems],
+    [fileItems, headingItems, rulesetItems, modeItems],
+  );
+}
@@ -4,24 +4,74 @@ import { useCallback, useEffect, useRef } from "react";
 
 import type { DiffTabContextValue } from "@/contexts/DiffTabContext";
 import type { EditorTabState } from "@/lib/tab-manager/tab-types";
+import { getGitApi, gitFailureMessage } from "@/lib/git/git-service";
+import { computeHistoryRestoreTabUpdate } from "@/lib/tab-manager/history-restore";
+import { getErrorMessage } from "@/lib/tab-manager/types";
+import { notificationManager } from "@/lib/services/notification-manager";
 import {
+  isCompareTab,
   isDiffTab,
   isEditorTab,
   isTerminalTab,
+  type CompareTabState,
   type DiffTabState,
   type TabState,
 } from "@/lib/tab-manager/tab-types";
 
+/** One side of a snapshot comparison */
+export interface ComparedVersion {
+  /** Snapshot id */
+  id: string;
+  label: string;
+  content: string;
+}
+
+/** Two history snapshots of a document to compare, older one first */
+export interface SnapshotComparison {
+  sourceFileName: string;
+  older: ComparedVersion;
+  newer: ComparedVersion;
+}
+
 interface UseDiffTabsParams {
   tabs: TabState[];
   updateTab: (tabId: string, updates: Partial<EditorTabState>) => void;
   forceCloseTab: (tabId: string) => void;
   closeTab: (tabId: string) => void;
+  openCompareTab: (compare: Omit<CompareTabState, "tabKind" | "id">) => void;
+  openDiffTab: (
+    sourceTabId: string,
+    sourceFileName: string,
+    localContent: string,
+    remoteContent: string,
+    remoteTimestamp: number,
+    gitRevision?: string,
+  ) => void;
+  openProjectFile: (vfsPath: string, options?: { preview?: boolean }) => Promise<void>;
 }
 
+/** A git comparison waiting for its file's editor tab to open */
+interface PendingRevisionDiff {
+  vfsPath: string;
+  revisionLabel: string;
+  content: string;
+  timestamp: number;
+  requestedAt: number;
+}
+
+/** Drop a pending git comparison whose file never opened (e.g. the read failed). */
+const PENDING_REVISION_DIFF_TTL_MS = 10_000;
+
 interface UseDiffTabsResult {
   diffTabContextValue: DiffTabContextValue;
   handleCloseTabWithPtyCleanup: (tabId: string) => void;
+  /** Open a compare tab for two snapshots (or switch to the one already open). */
+  handleCompareSnapshots: (comparison: SnapshotComparison) => void;
+  /**
+   * Open the project file in the editor and diff it against a git revision
+   * ("HEAD と比較") in DiffView.
+   */
+  handleCompareWithRevision: (vfsPath: string, revision: string) => Promise<void>;
 }
 
 export function useDiffTabs({
@@ -29,12 +79,16 @@ export function useDiffTabs({
   updateTab,
   forceCloseTab,
   closeTab,
+  openCompareTab,
+  openDiffTab,
+  openProjectFile,
 }: UseDiffTabsParams): UseDiffTabsResult {
   const tabsRef = useRef(tabs);
   // eslint-disable-next-line react-hooks/refs -- intentional ref-sync pattern to avoid stale closure without extra re-renders
   tabsRef.current = tabs;
 
   const prevTabIdsRef = useRef<Set<string>>(new Set());
+  const pendingRevisionDiffRef = useRef<PendingRevisionDiff | null>(null);
 
   /**
    * Closes a tab, killing the associated PTY session first if the tab is a terminal.
@@ -78,7 +132,15 @@ export function useDiffTabs({
       const sourceTab = tabsRef.current.find(
         (tab) => isEditorTab(tab) && tab.id === diffTab.sourceTabId,
       );
-      if (sourceTab && isEditorTab(sourceTab)) {
+      if (sourceTab && isEditorTab(sourceTab) && diffTab.gitRevision !== undefined) {
+        // Reverting to a git revision changes the buffer only; the file on
+        // disk is untouched until the user saves, so the tab becomes dirty.
+        updateTab(sourceTab.id, {
+          content: diffTab.remoteContent,
+          pendingExternalContent: diffTab.remoteContent,
+          ...computeHistoryRestoreTabUpdate(diffTab.remoteContent, sourceTab),
+        });
+      } else if (sourceTab && isEditorTab(sourceTab)) {
         updateTab(sourceTab.id, {
           content: diffTab.remoteContent,
           lastSavedContent: diffTab.remoteContent,
@@ -107,7 +169,8 @@ export function useDiffTabs({
       const sourceTab = tabsRef.current.find(
         (tab) => isEditorTab(tab) && tab.id === diffTab.sourceTabId,
       );
-      if (sourceTab && isEditorTab(sourceTab)) {
+      // A git comparison is not a conflict: keeping the editor just closes it.
+      if (sourceTab && isEditorTab(sourceTab) && diffTab.gitRevision === undefined) {
         // Keep editor content as-is; mark dirty so auto-reload cannot overwrite
         // unsaved local edits. (Mirrors the notification-action path in
         // use-file-watch-integration.ts which also sets "dirty" here.)
@@ -129,12 +192,94 @@ export function useDiffTabs({
     [forceCloseTab],
   );
 
+  const getCompareTabById = useCallback(
+    (tabId: string) =>
+      tabsRef.current.find((tab): tab is CompareTabState => isCompareTab(tab) && tab.id === tabId),
+    [],
+  );
+
+  const handleCompareSnapshots = useCallback(
+    ({ sourceFileName, older, newer }: SnapshotComparison) => {
+      openCompareTab({
+        compareKey: `${older.id}:${newer.id}`,
+        sourceFileName,
+        oldLabel: older.label,
+        newLabel: newer.label,
+        oldContent: older.content,
+        newContent: newer.content,
+      });
+    },
+    [openCompareTab],
+  );
+
+  const openPendingRevisionDiff = useCallback(
+    (currentTabs: TabState[]) => {
+      const pending = pendingRevisionDiffRef.current;
+      if (!pending) return;
+      if (Date.now() - pending.requestedAt > PENDING_REVISION_DIFF_TTL_MS) {
+        pendingRevisionDiffRef.current = null;
+        return;
+      }
+      const sourceTab = currentTabs.find(
+        (tab): tab is EditorTabState => isEditorTab(tab) && tab.file?.path === pending.vfsPath,
+      );
+      if (!sourceTab) return;
+      pendingRevisionDiffRef.current = null;
+      openDiffTab(
+        sourceTab.id,
+        sourceTab.file?.name ?? pending.vfsPath.split("/").pop() ?? pending.vfsPath,
+        sourceTab.content,
+        pending.content,
+        pending.timestamp,
+        pending.revisionLabel,
+      );
+    },
+    [openDiffTab],
+  );
+
+  const handleCompareWithRevision = useCallback(
+    async (vfsPath: string, revision: string) => {
+      const git = getGitApi();
+      if (!git) return;
+      try {
+        const result = await git.show(revision, vfsPath);
+        if (!result.ok) {
+          notificationManager.error(
+            result.reason === "not-in-revision"
+              ? `${revision} にこのファイルはありません（まだコミットされていません）`
+              : gitFailureMessage(result),
+          );
+          return;
+        }
+        const revisionLabel =
+          revision === "HEAD" ? "HEAD" : (result.commit?.shortHash ?? revision.slice(0, 7));
+        pendingRevisionDiffRef.current = {
+          vfsPath,
+          revisionLabel,
+          content: result.content,
+          timestamp: result.commit ? Date.parse(result.commit.date) : Date.now(),
+          requestedAt: Date.now(),
+        };
+        // The diff needs the file's editor tab; when the file is not open yet
+        // the tabs effect below picks the request up once its tab appears.
+        await openProjectFile(vfsPath, { preview: false });
+        openPendingRevisionDiff(tabsRef.current);
+      } catch (error) {
+        pendingRevisionDiffRef.current = null;
+        console.error("[useDiffTabs] Failed to compare with revision:", error);
+        notificationManager.error(`${revision} との比較に失敗しました: ${getErrorMessage(error)}`);
+      }
+    },
+    [openProjectFile, openPendingRevisionDiff],
+  );
+
   const diffTabContextValue: DiffTabContextValue = {
     getDiffTabById,
     getDiffTabBySourceTabId,
     acceptDiskContent,
     keepEditorContent,
     closeDiffTab,
+    getCompareTabById,
   };
 
   useEffect(() => {
@@ -154,10 +299,13 @@ export function useDiffTabs({
     }
 
     prevTabIdsRef.current = currentTabIds;
-  }, [tabs, forceCloseTab]);
+    openPendingRevisionDiff(tabs);
+  }, [tabs, forceCloseTab, openPendingRevisionDiff]);
 
   return {
     diffTabContextValue,
     handleCloseTabWithPtyCleanup,
+    handleCompareSnapshots,
+    handleCompareWithRevision,
   };
 }
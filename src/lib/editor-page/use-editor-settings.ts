@@ -176,6 +176,14 @@ export function useEditorSettings(incrementEditorKey: () => void): UseEditorSett
     handleAiApiKeyChange: aiHandlers.handleAiApiKeyChange,
     handleAiBaseUrlChange: aiHandlers.handleAiBaseUrlChange,
     handleAiModelIdChange: aiHandlers.handleAiModelIdChange,
+    handleAiProviderChange: aiHandlers.handleAiProviderChange,
+    handleAiFeatureProviderChange: aiHandlers.handleAiFeatureProviderChange,
+    handleAiAnthropicApiKeyChange: aiHandlers.handleAiAnthropicApiKeyChange,
+    handleAiAnthropicModelIdChange: aiHandlers.handleAiAnthropicModelIdChange,
+    handleAiOllamaBaseUrlChange: aiHandlers.handleAiOllamaBaseUrlChange,
+    handleAiOllamaModelIdChange: aiHandlers.handleAiOllamaModelIdChange,
+    handleAiLintValidationChange: aiHandlers.handleAiLintValidationChange,
+    handleAiLintValidationActionChange: aiHandlers.handleAiLintValidationActionChange,
     handleUsageAnalyticsConsentChange: analyticsHandlers.handleUsageAnalyticsConsentChange,
     handleErrorReportingConsentChange: analyticsHandlers.handleErrorReportingConsentChange,
   };
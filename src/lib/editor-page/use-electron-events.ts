@@ -37,6 +37,9 @@ interface UseElectronEventsParams {
   // Open project from menu
   handleOpenProject: () => Promise<void>;
 
+  // Import a 青空文庫 text from menu
+  handleImportAozoraFile: () => Promise<void>;
+
   // Open recent project from menu
   handleOpenRecentProject: (projectId: string) => Promise<boolean>;
 
@@ -72,6 +75,7 @@ export function useElectronEvents(params: UseElectronEventsParams): void {
     autoCharsPerLine,
     hasActiveEditor,
     handleOpenProject,
+    handleImportAozoraFile,
     handleOpenRecentProject,
     handleOpenAsProject,
     confirmBeforeAction,
@@ -267,6 +271,18 @@ export function useElectronEvents(params: UseElectronEventsParams): void {
     };
   }, [isElectron, confirmBeforeAction, handleOpenProject]);
 
+  // Import a 青空文庫 text from menu IPC listener. The result opens in a new
+  // untitled tab, so no unsaved-changes confirmation is needed.
+  useEffect(() => {
+    if (!isElectron || typeof window === "undefined") return;
+    const cleanup = window.electronAPI?.onMenuImportAozora?.(() => {
+      void handleImportAozoraFile();
+    });
+    return () => {
+      cleanup?.();
+    };
+  }, [isElectron, handleImportAozoraFile]);
+
   // Open recent project from menu IPC listener
   useEffect(() => {
     if (!isElectron || typeof window === "undefined") return;
@@ -5,13 +5,19 @@ import { getProjectService } from "@/lib/project/project-service";
 import { getDefaultWorkspaceState } from "@/lib/project/project-types";
 import { getProjectFileService as getVFS } from "@/lib/services/project-file-service";
 import { notificationManager } from "@/lib/services/notification-manager";
+import { MdiDocument } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
 import {
   classifyTelemetryError,
   normalizeTelemetryFileType,
   trackUsageEvent,
 } from "@/lib/analytics/usage-events";
 
-import type { ProjectMode, StandaloneMode, WorkspaceTab } from "@/lib/project/project-types";
+import type {
+  ProjectMode,
+  StandaloneMode,
+  SupportedFileExtension,
+  WorkspaceTab,
+} from "@/lib/project/project-types";
 import { ensureProjectFiles, readFileHandle } from "./project-file-utils";
 import { isProjectNotFoundError } from "./project-open-errors";
 
@@ -32,6 +38,8 @@ interface UseFileOpeningParams {
   openRestoredProject: (handle: FileSystemDirectoryHandle) => Promise<void>;
   /** Load a file into the tab manager by path and content */
   tabLoadSystemFile: (path: string, content: string) => void;
+  /** Open converted content in a new untitled draft tab */
+  tabOpenDraft: (content: string, fileType?: SupportedFileExtension) => void;
   /** Increment editor key to force editor remount */
   incrementEditorKey: () => void;
   /** Restore tabs from workspace.json data loaded during project open */
@@ -44,6 +52,7 @@ interface UseFileOpeningParams {
 export interface UseFileOpeningResult {
   handleOpenProject: () => Promise<void>;
   handleOpenStandaloneFile: () => Promise<void>;
+  handleImportAozoraFile: () => Promise<void>;
   handleOpenRecentProject: (projectId: string) => Promise<boolean>;
   handleOpenAsProject: (projectPath: string, initialFile: string) => Promise<void>;
 }
@@ -52,6 +61,7 @@ export interface UseFileOpeningResult {
  * Provides file-open and project-open handlers:
  * - {@link handleOpenProject}: opens a project via the native/web dialog
  * - {@link handleOpenStandaloneFile}: opens a single file via the native/web dialog
+ * - {@link handleImportAozoraFile}: converts a 青空文庫 text into a new untitled MDI tab
  * - {@link handleOpenRecentProject}: opens a project by ID from the recent list (Electron or Web)
  * - {@link handleOpenAsProject}: sets the VFS root to a given path and opens it as a project
  *
@@ -69,6 +79,7 @@ export function useFileOpening({
   loadProjectContent,
   openRestoredProject,
   tabLoadSystemFile,
+  tabOpenDraft,
   incrementEditorKey,
   restoreProjectTabs,
 }: UseFileOpeningParams): UseFileOpeningResult {
@@ -153,6 +164,22 @@ export function useFileOpening({
     }
   }, [setStandaloneMode, tabLoadSystemFile, incrementEditorKey]);
 
+  const handleImportAozoraFile = useCallback(async () => {
+    try {
+      const projectService = getProjectService();
+      const { text } = await projectService.pickImportTextFile();
+      // The source file is converted, not opened: the result lives in an
+      // untitled .mdi draft so saving never overwrites the Aozora original.
+      tabOpenDraft(MdiDocument.fromAozoraText(text).toRawText(), ".mdi");
+      incrementEditorKey();
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") return;
+      if (error instanceof Error && error.message.includes("キャンセル")) return;
+      console.error("Failed to import Aozora Bunko text:", error);
+      notificationManager.error("青空文庫形式のテキストを読み込めませんでした。");
+    }
+  }, [tabOpenDraft, incrementEditorKey]);
+
   const handleOpenRecentProject = useCallback(
     async (projectId: string): Promise<boolean> => {
       trackUsageEvent("project_open_started", {
@@ -425,6 +452,7 @@ export function useFileOpening({
   return {
     handleOpenProject,
     handleOpenStandaloneFile,
+    handleImportAozoraFile,
     handleOpenRecentProject,
     handleOpenAsProject,
   };
@@ -0,0 +1,57 @@
+/**
+ * React hook exposing the project glossary (.illusions/glossary.json) for the
+ * 用語集 lint rule and the editor's term hover cards.
+ *
+ * Mirrors use-preferred-spellings: loads on mount / mode change with a stale
+ * guard and reloads whenever the glossary is written (subscribe via
+ * glossary-service). Standalone files have no glossary.
+ *
+ * 用語集ルールと用語ホバーカードが参照する用語集を提供するフック。
+ */
+
+import { useEffect, useState } from "react";
+
+import { getGlossaryService, subscribeGlossaryChange } from "@/lib/services/glossary-service";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { EditorMode, GlossaryEntry } from "@/lib/project/project-types";
+
+const EMPTY: ReadonlyArray<GlossaryEntry> = [];
+
+/**
+ * Load the glossary for the given editor mode.
+ *
+ * @param editorMode Current editor mode (project / standalone / null)
+ */
+export function useGlossary(editorMode: EditorMode): ReadonlyArray<GlossaryEntry> {
+  const [entries, setEntries] = useState<ReadonlyArray<GlossaryEntry>>(EMPTY);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const reload = (): void => {
+      if (!isProjectMode(editorMode)) {
+        setEntries(EMPTY);
+        return;
+      }
+      getGlossaryService()
+        .loadEntries()
+        .then((loaded) => {
+          if (!cancelled) setEntries(loaded);
+        })
+        .catch((err) => {
+          console.warn("[useGlossary] Failed to load glossary:", err);
+          if (!cancelled) setEntries(EMPTY);
+        });
+    };
+
+    reload();
+    const unsubscribe = subscribeGlossaryChange(reload);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [editorMode]);
+
+  return entries;
+}
@@ -47,6 +47,7 @@ interface UseKeyboardShortcutsParams {
   toggleWordfreq?: () => void;
   newTerminal?: () => void;
   toggleOutline?: () => void;
+  openCommandPalette?: () => void;
   /** Web-only: dispatches menu actions for commands not handled by Electron IPC.
    *  Required when isElectron is false so that file.open, file.saveAs,
    *  file.newWindow, and zoom commands work even when the editor has focus. */
@@ -84,6 +85,7 @@ export function useKeyboardShortcuts({
   toggleWordfreq,
   newTerminal,
   toggleOutline,
+  openCommandPalette,
   handleMenuAction,
 }: UseKeyboardShortcutsParams): void {
   const { effectiveBindings } = useKeymap();
@@ -155,6 +157,7 @@ export function useKeyboardShortcuts({
           setShowSettingsModal(true);
         }
       },
+      "nav.commandPalette": openCommandPalette,
       "nav.search": isEditorTabActive ? () => setSearchOpenTrigger((prev) => prev + 1) : undefined,
       // タブ往復で history を保つため remount しない (#1878)。
       "nav.nextTab": () => nextTab(),
@@ -203,6 +206,7 @@ export function useKeyboardShortcuts({
     toggleWordfreq,
     newTerminal,
     toggleOutline,
+    openCommandPalette,
     handleMenuAction,
   ]);
 
@@ -3,9 +3,10 @@
  * words that dictionary-matching lint rules must not flag as 辞書外語.
  *
  * Mirrors use-ignored-corrections: loads on mount / mode change with a stale
- * guard, and additionally reloads whenever the user dictionary is written
- * (subscribe via user-dictionary-service) so adding/removing a word refreshes
- * the editor marks instantly.
+ * guard, and additionally reloads whenever the user dictionary or the project
+ * glossary is written (subscribe via user-dictionary-service /
+ * glossary-service) so adding/removing a word refreshes the editor marks
+ * instantly.
  *
  * 辞書照合ルールがマークすべきでない「既知語」集合を提供するフック。
  */
@@ -13,13 +14,14 @@
 import { useEffect, useState } from "react";
 
 import { collectKnownTerms } from "@/lib/linting/known-terms";
+import { subscribeGlossaryChange } from "@/lib/services/glossary-service";
 import { subscribeUserDictionaryChange } from "@/lib/services/user-dictionary-service";
 import type { EditorMode } from "@/lib/project/project-types";
 
 const EMPTY: ReadonlySet<string> = new Set();
 
 /**
- * Collect known terms (user dictionary + any registered dictionary-ruleset
+ * Collect known terms (user dictionary + glossary + any registered dictionary-ruleset
  * sources) for the given editor mode.
  *
  * @param editorMode Current editor mode (project / standalone / null)
@@ -46,13 +48,15 @@ export function useKnownTerms(editorMode: EditorMode): ReadonlySet<string> {
     };
 
     reload();
-    // User dictionary writes happen through Dictionary.tsx; reload so marks
-    // appear/disappear without a manual refresh.
-    const unsubscribe = subscribeUserDictionaryChange(reload);
+    // User dictionary / glossary writes happen through Dictionary.tsx and
+    // Glossary.tsx; reload so marks appear/disappear without a manual refresh.
+    const unsubscribeDictionary = subscribeUserDictionaryChange(reload);
+    const unsubscribeGlossary = subscribeGlossaryChange(reload);
 
     return () => {
       cancelled = true;
-      unsubscribe();
+      unsubscribeDictionary();
+      unsubscribeGlossary();
     };
   }, [editorMode]);
 
@@ -0,0 +1,130 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+import { getCompileManifestService } from "@/lib/services/compile-manifest-service";
+import { getHistoryService } from "@/lib/services/history-service";
+import { getSnapshotSourceKey } from "@/lib/services/history-policy";
+import { getStatsCacheService } from "@/lib/services/stats-cache-service";
+import { inferFileType } from "@/lib/tab-manager/types";
+import { buildStatsSeries, chapterLengths, computeSnapshotMetrics } from "./manuscript-stats";
+import { lastPerDay } from "./writing-progress";
+
+import type { SnapshotEntry } from "@/lib/services/history-policy";
+import type { SnapshotMetrics } from "@/lib/project/project-types";
+import type { ChapterLength, StatsSeriesPoint, TimedMetrics } from "./manuscript-stats";
+
+export interface ManuscriptStats {
+  /** Project totals per day, oldest first; the last point includes unsnapshotted edits on disk */
+  series: StatsSeriesPoint[];
+  /** Chapters of the manuscript files as they are now, in file order */
+  chapters: ChapterLength[];
+}
+
+export interface UseManuscriptStatsResult {
+  stats: ManuscriptStats | null;
+  isLoading: boolean;
+  error: string | null;
+  reload: () => void;
+}
+
+/** Id of the pseudo-snapshot standing for a file's current text (never cached). */
+const CURRENT_VERSION_ID = "current";
+
+async function loadManuscriptStats(): Promise<ManuscriptStats> {
+  const manifestService = getCompileManifestService();
+  const historyService = getHistoryService();
+  const cacheService = getStatsCacheService();
+
+  const paths = await manifestService.listManuscriptPaths();
+  const [contents, snapshots, cache] = await Promise.all([
+    manifestService.readManuscripts(paths),
+    historyService.getSnapshots(),
+    cacheService.load(),
+  ]);
+
+  const byPath = new Map<string, SnapshotEntry[]>();
+  for (const entry of snapshots) {
+    const path = getSnapshotSourceKey(entry);
+    const list = byPath.get(path);
+    if (list) list.push(entry);
+    else byPath.set(path, [entry]);
+  }
+
+  // Only the last version of each day matters for the series
+  const computed: SnapshotMetrics[] = [];
+  const history = new Map<string, TimedMetrics[]>();
+  const chapters: ChapterLength[] = [];
+  const now = Date.now();
+  for (const path of paths) {
+    const fileType = inferFileType(path);
+    const versions: TimedMetrics[] = [];
+    for (const { snapshot } of lastPerDay(byPath.get(path) ?? [])) {
+      let metrics = cache.get(snapshot.id);
+      if (!metrics) {
+        const content = await historyService.getSnapshotContent(snapshot.id);
+        if (content === null) continue;
+        metrics = computeSnapshotMetrics(snapshot.id, content, fileType);
+        computed.push(metrics);
+      }
+      versions.push({ timestamp: snapshot.timestamp, metrics });
+    }
+    const content = contents.get(path) ?? "";
+    versions.push({
+      timestamp: now,
+      metrics: computeSnapshotMetrics(CURRENT_VERSION_ID, content, fileType),
+    });
+    history.set(path, versions);
+    chapters.push(...chapterLengths(path, content, fileType));
+  }
+
+  if (computed.length > 0 || cache.size > 0) {
+    const liveIds = new Set(snapshots.map((s) => s.id));
+    cacheService.update(computed, liveIds).catch((err: unknown) => {
+      console.warn("[useManuscriptStats] Failed to save the statistics cache:", err);
+    });
+  }
+
+  return { series: buildStatsSeries(history), chapters };
+}
+
+/**
+ * Long-term statistics of the open project for the 統計ダッシュボード, from the
+ * history snapshots (metrics cached in .illusions/stats-cache.json) and the
+ * manuscript files on disk. Reloads when a snapshot is taken. Project mode
+ * only: callers mount it per project.
+ */
+export function useManuscriptStats(): UseManuscriptStatsResult {
+  const [stats, setStats] = useState<ManuscriptStats | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const reload = useCallback(() => setReloadKey((k) => k + 1), []);
+
+  useEffect(() => getHistoryService().onSnapshotCreated(() => reload()), [reload]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const run = async (): Promise<void> => {
+      setIsLoading(true);
+      try {
+        const loaded = await loadManuscriptStats();
+        if (cancelled) return;
+        setStats(loaded);
+        setError(null);
+      } catch (err) {
+        console.error("Failed to load manuscript statistics:", err);
+        if (!cancelled) setError("統計の読み込みに失敗しました");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    void run();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  return { stats, isLoading, error, reload };
+}
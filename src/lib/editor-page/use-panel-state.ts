@@ -27,6 +27,7 @@ export interface PanelState {
   switchToCorrectionsTrigger: number;
   showRubyDialog: boolean;
   rubySelectedText: string;
+  showCommandPalette: boolean;
   editorDiff: { snapshotContent: string; currentContent: string; label: string } | null;
 }
 
@@ -37,6 +38,7 @@ export interface PanelHandlers {
   setSettingsInitialCategory: (category: SettingsCategory | undefined) => void;
   setShowRubyDialog: (show: boolean) => void;
   setRubySelectedText: (text: string) => void;
+  setShowCommandPalette: (show: boolean) => void;
   setEditorDiff: (
     diff: { snapshotContent: string; currentContent: string; label: string } | null,
   ) => void;
@@ -92,6 +94,7 @@ export function usePanelState({ setShowSettingsModal }: UsePanelStateParams): {
   const [switchToCorrectionsTrigger, setSwitchToCorrectionsTrigger] = useState(0);
   const [showRubyDialog, setShowRubyDialog] = useState(false);
   const [rubySelectedText, setRubySelectedText] = useState("");
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
   const [editorDiff, setEditorDiff] = useState<{
     snapshotContent: string;
     currentContent: string;
@@ -168,6 +171,7 @@ export function usePanelState({ setShowSettingsModal }: UsePanelStateParams): {
       switchToCorrectionsTrigger,
       showRubyDialog,
       rubySelectedText,
+      showCommandPalette,
       editorDiff,
     },
     handlers: {
@@ -177,6 +181,7 @@ export function usePanelState({ setShowSettingsModal }: UsePanelStateParams): {
       setSettingsInitialCategory,
       setShowRubyDialog,
       setRubySelectedText,
+      setShowCommandPalette,
       setEditorDiff,
       handleOpenDictionary,
       setSearchTerm,
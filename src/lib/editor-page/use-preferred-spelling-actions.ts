@@ -0,0 +1,76 @@
+/**
+ * React hook for editing the project's preferred-spelling table from the
+ * corrections panel (表記ゆれ cluster header).
+ *
+ * Writes go through preferred-spelling-service, whose change notification
+ * makes use-preferred-spellings reload the table and re-lint. Standalone files
+ * have no table, so the actions are only provided in project mode.
+ *
+ * 校正パネルの表記ゆれクラスタから優先表記（統一表記）を設定・解除するフック。
+ */
+
+import { useCallback, useMemo } from "react";
+
+import { getPreferredSpellingService } from "@/lib/services/preferred-spelling-service";
+import { notificationManager } from "@/lib/services/notification-manager";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { EditorMode } from "@/lib/project/project-types";
+
+export interface PreferredSpellingActions {
+  /**
+   * Make `preferred` the project spelling for a 表記ゆれ cluster. The other
+   * spellings of the cluster, and of any table entry they already belong to,
+   * become its variants.
+   */
+  setPreferredSpelling: (preferred: string, spellings: readonly string[]) => Promise<void>;
+  /** Remove the table entry of a preferred spelling. */
+  clearPreferredSpelling: (preferred: string) => Promise<void>;
+}
+
+/**
+ * Provides preferred-spelling actions, or null outside project mode.
+ *
+ * @param editorMode Current editor mode (project / standalone / null).
+ */
+export function usePreferredSpellingActions(
+  editorMode: EditorMode,
+): PreferredSpellingActions | null {
+  const enabled = isProjectMode(editorMode);
+
+  const setPreferredSpelling = useCallback(
+    async (preferred: string, spellings: readonly string[]): Promise<void> => {
+      const service = getPreferredSpellingService();
+      try {
+        const entries = await service.loadEntries();
+        const merged = new Set(spellings);
+        for (const entry of entries) {
+          if (!spellings.includes(entry.preferred)) continue;
+          merged.add(entry.preferred);
+          for (const variant of entry.variants) merged.add(variant);
+        }
+        merged.delete(preferred);
+        await service.setPreferred({ preferred, variants: [...merged] });
+        notificationManager.success(`「${preferred}」を統一表記に設定しました`);
+      } catch (err) {
+        console.error("[usePreferredSpellingActions] Failed to set preferred spelling:", err);
+        notificationManager.error("統一表記の設定に失敗しました");
+      }
+    },
+    [],
+  );
+
+  const clearPreferredSpelling = useCallback(async (preferred: string): Promise<void> => {
+    try {
+      await getPreferredSpellingService().removePreferred(preferred);
+      notificationManager.success(`「${preferred}」の統一表記を解除しました`);
+    } catch (err) {
+      console.error("[usePreferredSpellingActions] Failed to clear preferred spelling:", err);
+      notificationManager.error("統一表記の解除に失敗しました");
+    }
+  }, []);
+
+  return useMemo(
+    () => (enabled ? { setPreferredSpelling, clearPreferredSpelling } : null),
+    [enabled, setPreferredSpelling, clearPreferredSpelling],
+  );
+}
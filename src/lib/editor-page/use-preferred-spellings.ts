@@ -0,0 +1,60 @@
+/**
+ * React hook exposing the project's preferred-spelling table
+ * (.illusions/preferred-spellings.json) for the 表記ゆれ rule.
+ *
+ * Mirrors use-known-terms: loads on mount / mode change with a stale guard and
+ * reloads whenever the table is written (subscribe via
+ * preferred-spelling-service). Standalone files have no table.
+ *
+ * 表記ゆれルールが参照する優先表記テーブルを提供するフック。
+ */
+
+import { useEffect, useState } from "react";
+
+import {
+  getPreferredSpellingService,
+  subscribePreferredSpellingsChange,
+} from "@/lib/services/preferred-spelling-service";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { EditorMode, PreferredSpelling } from "@/lib/project/project-types";
+
+const EMPTY: ReadonlyArray<PreferredSpelling> = [];
+
+/**
+ * Load the preferred-spelling table for the given editor mode.
+ *
+ * @param editorMode Current editor mode (project / standalone / null)
+ */
+export function usePreferredSpellings(editorMode: EditorMode): ReadonlyArray<PreferredSpelling> {
+  const [entries, setEntries] = useState<ReadonlyArray<PreferredSpelling>>(EMPTY);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const reload = (): void => {
+      if (!isProjectMode(editorMode)) {
+        setEntries(EMPTY);
+        return;
+      }
+      getPreferredSpellingService()
+        .loadEntries()
+        .then((loaded) => {
+          if (!cancelled) setEntries(loaded);
+        })
+        .catch((err) => {
+          console.warn("[usePreferredSpellings] Failed to load preferred spellings:", err);
+          if (!cancelled) setEntries(EMPTY);
+        });
+    };
+
+    reload();
+    const unsubscribe = subscribePreferredSpellingsChange(reload);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [editorMode]);
+
+  return entries;
+}
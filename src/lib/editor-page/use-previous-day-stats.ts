@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { getHistoryService } from "@/lib/services/history-service";
 import { computeTextStatistics } from "@/lib/editor-page/text-statistics";
+import { dateKeyOf } from "@/lib/editor-page/writing-progress";
 
 import type { SnapshotEntry } from "@/lib/services/history-service";
 
@@ -22,14 +23,6 @@ export interface PreviousDayStats {
   timestamp: number;
 }
 
-/**
- * Get the date key (YYYY-MM-DD) for a timestamp in local timezone.
- */
-function getDateKey(timestamp: number): string {
-  const d = new Date(timestamp);
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
-}
-
 /**
  * Find the last snapshot from yesterday.
  * Returns the latest snapshot entry from yesterday, or null if none exists.
@@ -40,11 +33,11 @@ function getDateKey(timestamp: number): string {
 function findPreviousDaySnapshot(snapshots: SnapshotEntry[]): SnapshotEntry | null {
   const now = new Date();
   const yesterday = new Date(now.getFullYear(), now.getMonth(), now.getDate() - 1);
-  const yesterdayKey = getDateKey(yesterday.getTime());
+  const yesterdayKey = dateKeyOf(yesterday.getTime());
 
   // Snapshots are sorted newest-first
   for (const snapshot of snapshots) {
-    const key = getDateKey(snapshot.timestamp);
+    const key = dateKeyOf(snapshot.timestamp);
     if (key === yesterdayKey) {
       return snapshot;
     }
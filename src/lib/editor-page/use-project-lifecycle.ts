@@ -8,6 +8,7 @@ import type {
   EditorMode,
   ProjectMode,
   StandaloneMode,
+  SupportedFileExtension,
   WorkspaceTab,
 } from "@/lib/project/project-types";
 import { useUpgradeBanner } from "./use-upgrade-banner";
@@ -27,6 +28,8 @@ interface UseProjectLifecycleParams {
   isElectron: boolean;
   /** Load a file into the tab manager by path and content */
   tabLoadSystemFile: (path: string, content: string) => void;
+  /** Open converted content in a new untitled draft tab */
+  tabOpenDraft: (content: string, fileType?: SupportedFileExtension) => void;
   /** Increment editor key to force editor remount */
   incrementEditorKey: () => void;
   /** Current editor content (needed for upgrade and upgrade-banner triggers) */
@@ -58,6 +61,7 @@ export interface ProjectLifecycleHandlers {
   handleCreateProject: () => void;
   handleOpenProject: () => Promise<void>;
   handleOpenStandaloneFile: () => Promise<void>;
+  handleImportAozoraFile: () => Promise<void>;
   handleOpenRecentProject: (projectId: string) => Promise<boolean>;
   handleDeleteRecentProject: (projectId: string) => Promise<void>;
   handleOpenAsProject: (projectPath: string, initialFile: string) => Promise<void>;
@@ -100,6 +104,7 @@ export function useProjectLifecycle(params: UseProjectLifecycleParams): UseProje
     setStandaloneMode,
     isElectron,
     tabLoadSystemFile,
+    tabOpenDraft,
     incrementEditorKey,
     content,
     skipAutoRestore,
@@ -172,6 +177,7 @@ export function useProjectLifecycle(params: UseProjectLifecycleParams): UseProje
   const {
     handleOpenProject,
     handleOpenStandaloneFile,
+    handleImportAozoraFile,
     handleOpenRecentProject,
     handleOpenAsProject,
   } = useFileOpening({
@@ -186,6 +192,7 @@ export function useProjectLifecycle(params: UseProjectLifecycleParams): UseProje
     loadProjectContent,
     openRestoredProject,
     tabLoadSystemFile,
+    tabOpenDraft,
     incrementEditorKey,
     restoreProjectTabs,
   });
@@ -265,6 +272,7 @@ export function useProjectLifecycle(params: UseProjectLifecycleParams): UseProje
       handleCreateProject,
       handleOpenProject,
       handleOpenStandaloneFile,
+      handleImportAozoraFile,
       handleOpenRecentProject,
       handleDeleteRecentProject,
       handleOpenAsProject,
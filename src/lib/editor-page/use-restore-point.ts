@@ -0,0 +1,39 @@
+/**
+ * React hook returning a callback that saves a "restore-point" history
+ * snapshot of the active document (used before AI rewrites are applied).
+ *
+ * Same identity and guard as HistoryPanel's pre-restore snapshot: project mode
+ * with an open VFS root only, sourcePath = active file or the project's main
+ * file. Outside project mode the callback is a no-op.
+ *
+ * 現在の文書を restore-point スナップショットとして保存するコールバックを返すフック。
+ */
+
+import { useCallback } from "react";
+
+import type { MdiFileDescriptor } from "@/lib/project/mdi-file";
+import { isProjectMode } from "@/lib/project/project-types";
+import type { EditorMode } from "@/lib/project/project-types";
+import { getHistoryService } from "@/lib/services/history-service";
+import { getProjectFileService } from "@/lib/services/project-file-service";
+
+export function useRestorePoint(
+  editorMode: EditorMode,
+  currentFile: MdiFileDescriptor | null,
+  label: string,
+): (content: string) => Promise<void> {
+  return useCallback(
+    async (content: string) => {
+      if (!isProjectMode(editorMode) || !getProjectFileService().isRootOpen()) return;
+      const sourcePath = currentFile?.path || editorMode.metadata.mainFile;
+      await getHistoryService().createSnapshot({
+        sourcePath,
+        displayName: currentFile?.name || sourcePath.split("/").pop() || sourcePath,
+        content,
+        type: "restore-point",
+        label,
+      });
+    },
+    [editorMode, currentFile, label],
+  );
+}
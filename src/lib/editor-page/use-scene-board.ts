@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+
+import type { SceneBoardContextValue } from "@/contexts/SceneBoardContext";
+
+/** How often, and how many times, to look for the heading of a just-opened file. */
+const HEADING_POLL_INTERVAL_MS = 100;
+const HEADING_POLL_ATTEMPTS = 20;
+
+interface UseSceneBoardParams {
+  /** Root-relative path of the active project file; null outside a project */
+  activeFilePath: string | null;
+  activeContent: string;
+  openProjectFile: (vfsPath: string, options?: { preview?: boolean }) => Promise<void>;
+  /** Scrolls the active editor to a heading anchor */
+  onChapterClick: (anchorId: string) => void;
+}
+
+/**
+ * Builds the SceneBoardContext value. Opening a scene switches to (or opens)
+ * its file, then waits for the editor to render the heading before scrolling
+ * to it; a newer request cancels the wait of an older one.
+ */
+export function useSceneBoard({
+  activeFilePath,
+  activeContent,
+  openProjectFile,
+  onChapterClick,
+}: UseSceneBoardParams): SceneBoardContextValue {
+  const pollTimerRef = useRef<number | null>(null);
+  const requestIdRef = useRef(0);
+
+  const cancelPoll = useCallback(() => {
+    if (pollTimerRef.current !== null) {
+      window.clearTimeout(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => cancelPoll, [cancelPoll]);
+
+  const openScene = useCallback(
+    (filePath: string, headingAnchor?: string) => {
+      cancelPoll();
+      const requestId = ++requestIdRef.current;
+      void openProjectFile(filePath, { preview: false })
+        .then(() => {
+          if (!headingAnchor || requestIdRef.current !== requestId) return;
+          let attempts = 0;
+          const tryScroll = () => {
+            pollTimerRef.current = null;
+            if (requestIdRef.current !== requestId) return;
+            if (document.getElementById(headingAnchor)) {
+              onChapterClick(headingAnchor);
+            } else if (++attempts < HEADING_POLL_ATTEMPTS) {
+              pollTimerRef.current = window.setTimeout(tryScroll, HEADING_POLL_INTERVAL_MS);
+            }
+          };
+          tryScroll();
+        })
+        .catch((err: unknown) => {
+          console.error("[useSceneBoard] Failed to open scene file:", err);
+        });
+    },
+    [cancelPoll, openProjectFile, onChapterClick],
+  );
+
+  return useMemo(
+    () => ({ activeFilePath, activeContent, openScene }),
+    [activeFilePath, activeContent, openScene],
+  );
+}
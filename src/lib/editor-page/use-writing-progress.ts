@@ -0,0 +1,310 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { getCompileManifestService } from "@/lib/services/compile-manifest-service";
+import { getHistoryService } from "@/lib/services/history-service";
+import { getSnapshotSourceKey } from "@/lib/services/history-policy";
+import { getStatsCacheService } from "@/lib/services/stats-cache-service";
+import {
+  getWritingGoalsService,
+  subscribeWritingGoalsChange,
+} from "@/lib/services/writing-goals-service";
+import { inferFileType } from "@/lib/tab-manager/types";
+import { computeSnapshotMetrics } from "./manuscript-stats";
+import { computeTextStatistics } from "./text-statistics";
+import {
+  computeDailyGoalProgress,
+  computeDailyProgress,
+  computeProjectGoalProgress,
+  computeStreak,
+  dateKeyOf,
+  lastPerDay,
+  recentDateKeys,
+} from "./writing-progress";
+import { getWritingSession, resetWritingSession, subscribeWritingSession } from "./writing-session";
+
+import type { SnapshotEntry } from "@/lib/services/history-policy";
+import type { SnapshotMetrics, WritingGoal, WritingSession } from "@/lib/project/project-types";
+import type {
+  DailyProgress,
+  FileDayTotals,
+  GoalProgress,
+  Streak,
+  TextTotals,
+} from "./writing-progress";
+
+/** Days covered by the heatmap (12 weeks) and the streak. */
+export const WRITING_PROGRESS_DAYS = 84;
+
+/** How often the running session is written to the session log. */
+const SESSION_SAVE_INTERVAL_MS = 30_000;
+
+export interface WritingProgress {
+  projectGoal: WritingGoal | null;
+  dailyGoal: WritingGoal | null;
+  /** The last WRITING_PROGRESS_DAYS days, oldest first, today last */
+  days: DailyProgress[];
+  today: DailyProgress;
+  projectGoalProgress: GoalProgress | null;
+  dailyGoalProgress: GoalProgress | null;
+  streak: Streak;
+}
+
+export interface UseWritingProgressResult {
+  /** null outside a project and until the first load finishes */
+  progress: WritingProgress | null;
+  saveGoal: (goal: WritingGoal) => Promise<void>;
+  removeGoal: (scope: WritingGoal["scope"]) => Promise<void>;
+}
+
+interface LoadedData {
+  goals: WritingGoal[];
+  sessions: WritingSession[];
+  history: Map<string, FileDayTotals[]>;
+  /** Size of each manuscript file on disk when loaded */
+  disk: Map<string, TextTotals>;
+}
+
+function totalsOf(content: string, path: string): TextTotals {
+  const stats = computeTextStatistics(content, inferFileType(path));
+  return { chars: stats.visibleTextCharCount, pages: stats.manuscriptPages };
+}
+
+/**
+ * End-of-day totals of each given manuscript file within the period (plus
+ * the last day before it, as the starting point). Files without any history
+ * count with their current size on every day. Snapshot sizes come from the
+ * statistics cache (.illusions/stats-cache.json); misses are added to it.
+ */
+async function loadHistory(
+  paths: readonly string[],
+  disk: ReadonlyMap<string, TextTotals>,
+  firstDateKey: string,
+): Promise<Map<string, FileDayTotals[]>> {
+  const historyService = getHistoryService();
+  const cacheService = getStatsCacheService();
+  const [snapshots, cache] = await Promise.all([
+    historyService.getSnapshots(),
+    cacheService.load(),
+  ]);
+  const byPath = new Map<string, SnapshotEntry[]>();
+  for (const entry of snapshots) {
+    const path = getSnapshotSourceKey(entry);
+    const list = byPath.get(path);
+    if (list) list.push(entry);
+    else byPath.set(path, [entry]);
+  }
+
+  const computed: SnapshotMetrics[] = [];
+  const history = new Map<string, FileDayTotals[]>();
+  for (const path of paths) {
+    const days = lastPerDay(byPath.get(path) ?? []);
+    const firstInPeriod = days.findIndex((d) => d.dateKey >= firstDateKey);
+    const relevant =
+      firstInPeriod === -1 ? days.slice(-1) : days.slice(Math.max(0, firstInPeriod - 1));
+    const entries: FileDayTotals[] = [];
+    for (const { dateKey, snapshot } of relevant) {
+      let metrics = cache.get(snapshot.id);
+      if (!metrics) {
+        const content = await historyService.getSnapshotContent(snapshot.id);
+        if (content === null) continue;
+        metrics = computeSnapshotMetrics(snapshot.id, content, inferFileType(path));
+        computed.push(metrics);
+      }
+      entries.push({ dateKey, totals: { chars: metrics.chars, pages: metrics.pages } });
+    }
+    const current = disk.get(path);
+    if (entries.length === 0 && current) {
+      entries.push({ dateKey: dateKeyOf(Date.now()), totals: current });
+    }
+    history.set(path, entries);
+  }
+
+  if (computed.length > 0) {
+    const liveIds = new Set(snapshots.map((s) => s.id));
+    cacheService.update(computed, liveIds).catch((err: unknown) => {
+      console.warn("[useWritingProgress] Failed to save the statistics cache:", err);
+    });
+  }
+  return history;
+}
+
+function firstDateKeyOfPeriod(): string {
+  return recentDateKeys(Date.now(), WRITING_PROGRESS_DAYS)[0];
+}
+
+async function loadData(): Promise<LoadedData> {
+  const goalsService = getWritingGoalsService();
+  const manifestService = getCompileManifestService();
+  const [goals, sessions, paths] = await Promise.all([
+    goalsService.loadGoals(),
+    goalsService.loadSessions(),
+    manifestService.listManuscriptPaths(),
+  ]);
+  const disk = new Map<string, TextTotals>();
+  for (const [path, content] of await manifestService.readManuscripts(paths)) {
+    disk.set(path, totalsOf(content, path));
+  }
+  const history = await loadHistory(paths, disk, firstDateKeyOfPeriod());
+  return { goals, sessions, history, disk };
+}
+
+/**
+ * Refresh the one file a snapshot was taken of. Falls back to a full load
+ * when manuscript files were added or removed since the last load.
+ */
+async function reloadFile(data: LoadedData, path: string): Promise<LoadedData> {
+  const manifestService = getCompileManifestService();
+  const paths = await manifestService.listManuscriptPaths();
+  if (paths.length !== data.disk.size || paths.some((p) => !data.disk.has(p))) {
+    return loadData();
+  }
+  if (!data.disk.has(path)) return data;
+  const disk = new Map(data.disk);
+  const content = (await manifestService.readManuscripts([path])).get(path);
+  if (content !== undefined) disk.set(path, totalsOf(content, path));
+  const history = new Map(data.history);
+  const [fileHistory] = (await loadHistory([path], disk, firstDateKeyOfPeriod())).values();
+  history.set(path, fileHistory);
+  return { ...data, disk, history };
+}
+
+async function reloadGoals(data: LoadedData): Promise<LoadedData> {
+  const goalsService = getWritingGoalsService();
+  const [goals, sessions] = await Promise.all([
+    goalsService.loadGoals(),
+    goalsService.loadSessions(),
+  ]);
+  return { ...data, goals, sessions };
+}
+
+/**
+ * Writing goals, daily progress, streak and sessions of the open project,
+ * for the 執筆目標 card of the stats panel.
+ *
+ * Re-reads the file a history snapshot was taken of and the goals when they
+ * change (not the whole manuscript), and writes
+ * the running writing session to the session log every 30 seconds. Nothing
+ * is written when the project closes: by then the project storage may already
+ * point at the next project, so the last few seconds are dropped instead.
+ *
+ * @param projectId - The open project; null outside project mode
+ * @param activeFilePath - Root-relative path of the file in the editor
+ * @param activeTotals - Live size of that file, replacing its saved size for today
+ */
+export function useWritingProgress(
+  projectId: string | null,
+  activeFilePath: string | undefined,
+  activeTotals: TextTotals,
+): UseWritingProgressResult {
+  const [data, setData] = useState<LoadedData | null>(null);
+  const [session, setSession] = useState<WritingSession | null>(null);
+  /** Refreshed with the session, so the days roll over at midnight */
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!projectId) {
+      setData(null);
+      return;
+    }
+    let cancelled = false;
+    // Loads run one at a time, each on top of the data of the previous one.
+    let current: LoadedData | null = null;
+    let queue = Promise.resolve();
+    const enqueue = (load: (data: LoadedData) => Promise<LoadedData>): void => {
+      queue = queue.then(async () => {
+        if (cancelled) return;
+        try {
+          current = current ? await load(current) : await loadData();
+          if (!cancelled) setData(current);
+        } catch (error) {
+          console.error("Failed to load writing progress:", error);
+        }
+      });
+    };
+    enqueue(loadData);
+    const unsubscribeSnapshots = getHistoryService().onSnapshotCreated((entry) =>
+      enqueue((data) => reloadFile(data, getSnapshotSourceKey(entry))),
+    );
+    const unsubscribeGoals = subscribeWritingGoalsChange(() => enqueue(reloadGoals));
+    return () => {
+      cancelled = true;
+      unsubscribeSnapshots();
+      unsubscribeGoals();
+    };
+  }, [projectId]);
+
+  // Session log: a session belongs to the project it was written in.
+  useEffect(() => {
+    if (!projectId) return;
+    resetWritingSession();
+    setSession(null);
+    let savedEnd = 0;
+    const save = (): void => {
+      const current = getWritingSession();
+      setSession(current);
+      setNow(Date.now());
+      if (!current || current.end === savedEnd) return;
+      savedEnd = current.end;
+      getWritingGoalsService()
+        .recordSession(current)
+        .catch((error: unknown) => {
+          console.error("Failed to save writing session:", error);
+        });
+    };
+    // Show a session as soon as it starts; later edits are picked up by the timer.
+    const unsubscribe = subscribeWritingSession(() => {
+      const current = getWritingSession();
+      setSession((shown) => (shown?.id === current?.id ? shown : current));
+    });
+    const timer = window.setInterval(save, SESSION_SAVE_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      window.clearInterval(timer);
+      resetWritingSession();
+    };
+  }, [projectId]);
+
+  const saveGoal = useCallback(async (goal: WritingGoal) => {
+    await getWritingGoalsService().setGoal(goal);
+  }, []);
+
+  const removeGoal = useCallback(async (scope: WritingGoal["scope"]) => {
+    await getWritingGoalsService().removeGoal(scope);
+  }, []);
+
+  const { chars: activeChars, pages: activePages } = activeTotals;
+  const progress = useMemo((): WritingProgress | null => {
+    if (!data) return null;
+    const live = new Map(data.disk);
+    if (activeFilePath && live.has(activeFilePath)) {
+      live.set(activeFilePath, { chars: activeChars, pages: activePages });
+    }
+    const sessions = session
+      ? [...data.sessions.filter((s) => s.id !== session.id), session]
+      : data.sessions;
+    const dateKeys = recentDateKeys(now, WRITING_PROGRESS_DAYS);
+    const days = computeDailyProgress(data.history, dateKeys, live, sessions);
+    const today = days[days.length - 1];
+    const projectGoal = data.goals.find((g) => g.scope === "project") ?? null;
+    const dailyGoal = data.goals.find((g) => g.scope === "daily") ?? null;
+    const startOfToday = {
+      chars: today.total.chars - today.written.chars,
+      pages: today.total.pages - today.written.pages,
+    };
+    return {
+      projectGoal,
+      dailyGoal,
+      days,
+      today,
+      projectGoalProgress: projectGoal
+        ? computeProjectGoalProgress(projectGoal, today.total, startOfToday, today.dateKey)
+        : null,
+      dailyGoalProgress: dailyGoal ? computeDailyGoalProgress(dailyGoal, today) : null,
+      streak: computeStreak(days, dailyGoal ?? undefined),
+    };
+  }, [data, activeFilePath, activeChars, activePages, session, now]);
+
+  return { progress, saveGoal, removeGoal };
+}
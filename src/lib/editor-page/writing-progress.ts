@@ -0,0 +1,267 @@
+/**
+ * Writing progress: daily totals, streaks and goal pace for the 執筆目標 card.
+ *
+ * 執筆目標の進捗（日ごとの執筆量・連続日数・締切までの必要ペース）の計算。
+ *
+ * Daily amounts are net changes of the project's size: each file counts with
+ * its last history snapshot of the day (the live editor text for the active
+ * file today), so deleting text lowers the day's amount. Time spent and the
+ * characters typed and deleted come from the session log instead.
+ */
+
+import type { WritingGoal, WritingGoalUnit, WritingSession } from "@/lib/project/project-types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Size of a text: visible characters and 原稿用紙 pages. */
+export interface TextTotals {
+  chars: number;
+  pages: number;
+}
+
+/** Size of a file at the end of a day it was saved on. */
+export interface FileDayTotals {
+  dateKey: string;
+  totals: TextTotals;
+}
+
+export interface DailyProgress {
+  dateKey: string;
+  /** Project size at the end of the day */
+  total: TextTotals;
+  /** Net change from the end of the previous day */
+  written: TextTotals;
+  /** Characters typed and deleted in the day's sessions */
+  added: number;
+  deleted: number;
+  /** Minutes spent in the day's sessions */
+  minutes: number;
+}
+
+export interface GoalProgress {
+  current: number;
+  target: number;
+  /** current / target, capped at 1 */
+  ratio: number;
+  /** Days left until the deadline, today included; null without a deadline */
+  daysLeft: number | null;
+  /** Amount to write per day from today on to meet the deadline; null when not applicable */
+  requiredPace: number | null;
+  overdue: boolean;
+}
+
+export interface Streak {
+  /** Consecutive writing days up to today (or yesterday while today is still open) */
+  current: number;
+  /** Longest run in the period */
+  best: number;
+}
+
+const ZERO: TextTotals = { chars: 0, pages: 0 };
+
+/** Local calendar date "YYYY-MM-DD" of a timestamp. */
+export function dateKeyOf(timestamp: number): string {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+function dateOfKey(key: string): Date {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+/** Whole days from `from` to `to` (date keys). */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((dateOfKey(to).getTime() - dateOfKey(from).getTime()) / DAY_MS);
+}
+
+/** The `count` date keys ending with the day of `now`, oldest first. */
+export function recentDateKeys(now: number, count: number): string[] {
+  const today = new Date(now);
+  return Array.from({ length: count }, (_, i) =>
+    dateKeyOf(
+      new Date(today.getFullYear(), today.getMonth(), today.getDate() - (count - 1 - i)).getTime(),
+    ),
+  );
+}
+
+/** Reduce snapshots (any order) to the totals of the last snapshot of each day, oldest first. */
+export function lastPerDay<T extends { timestamp: number }>(
+  snapshots: readonly T[],
+): Array<{ dateKey: string; snapshot: T }> {
+  const byDay = new Map<string, T>();
+  for (const snapshot of snapshots) {
+    const key = dateKeyOf(snapshot.timestamp);
+    const kept = byDay.get(key);
+    if (!kept || kept.timestamp < snapshot.timestamp) byDay.set(key, snapshot);
+  }
+  return [...byDay]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([dateKey, snapshot]) => ({ dateKey, snapshot }));
+}
+
+/**
+ * Totals of the last entry on or before `dateKey`. Before its first entry a
+ * file counts with that entry: it usually existed before its oldest retained
+ * snapshot, and crediting its whole text to one day would be worse.
+ */
+function totalsAt(history: readonly FileDayTotals[], dateKey: string): TextTotals {
+  let found = history[0]?.totals ?? ZERO;
+  for (const entry of history) {
+    if (entry.dateKey > dateKey) break;
+    found = entry.totals;
+  }
+  return found;
+}
+
+function add(a: TextTotals, b: TextTotals): TextTotals {
+  return { chars: a.chars + b.chars, pages: a.pages + b.pages };
+}
+
+/**
+ * Per-day progress over `dateKeys` (consecutive, oldest first, the last one
+ * being today).
+ *
+ * @param history - End-of-day totals of each file, oldest first
+ * @param live - Current totals of files open in the editor; they replace the
+ *   snapshots for the last day
+ * @param sessions - The session log
+ */
+export function computeDailyProgress(
+  history: ReadonlyMap<string, readonly FileDayTotals[]>,
+  dateKeys: readonly string[],
+  live: ReadonlyMap<string, TextTotals>,
+  sessions: readonly WritingSession[],
+): DailyProgress[] {
+  if (dateKeys.length === 0) return [];
+  const today = dateKeys[dateKeys.length - 1];
+  const projectTotal = (dateKey: string, useLive: boolean): TextTotals => {
+    let total = ZERO;
+    for (const [path, entries] of history) {
+      if (useLive && live.has(path)) continue;
+      total = add(total, totalsAt(entries, dateKey));
+    }
+    if (useLive) {
+      for (const totals of live.values()) total = add(total, totals);
+    }
+    return total;
+  };
+
+  const activity = new Map<string, { added: number; deleted: number; minutes: number }>();
+  for (const session of sessions) {
+    const key = dateKeyOf(session.start);
+    const day = activity.get(key) ?? { added: 0, deleted: 0, minutes: 0 };
+    day.added += session.added;
+    day.deleted += session.deleted;
+    day.minutes += Math.max(0, session.end - session.start) / 60_000;
+    activity.set(key, day);
+  }
+
+  const dayBefore = recentDateKeys(dateOfKey(dateKeys[0]).getTime(), 2)[0];
+  let previous = projectTotal(dayBefore, false);
+  return dateKeys.map((dateKey) => {
+    const total = projectTotal(dateKey, dateKey === today);
+    const day = activity.get(dateKey);
+    const progress: DailyProgress = {
+      dateKey,
+      total,
+      written: { chars: total.chars - previous.chars, pages: total.pages - previous.pages },
+      added: day?.added ?? 0,
+      deleted: day?.deleted ?? 0,
+      minutes: Math.round(day?.minutes ?? 0),
+    };
+    previous = total;
+    return progress;
+  });
+}
+
+/** The amount of `totals` in a goal unit. */
+export function amountIn(totals: TextTotals, unit: WritingGoalUnit): number {
+  return unit === "pages" ? totals.pages : totals.chars;
+}
+
+/**
+ * Whether a day counts toward the streak: it met the daily goal, or without
+ * one, the project grew or text was typed.
+ */
+function isWritingDay(day: DailyProgress, dailyGoal: WritingGoal | undefined): boolean {
+  if (dailyGoal) return amountIn(day.written, dailyGoal.unit) >= dailyGoal.target;
+  return day.written.chars > 0 || day.added > 0;
+}
+
+/** Current and best streak over `days` (oldest first, the last one being today). */
+export function computeStreak(
+  days: readonly DailyProgress[],
+  dailyGoal: WritingGoal | undefined,
+): Streak {
+  let best = 0;
+  let run = 0;
+  for (const day of days) {
+    run = isWritingDay(day, dailyGoal) ? run + 1 : 0;
+    best = Math.max(best, run);
+  }
+  // Today does not break the streak before it is over.
+  let current = 0;
+  for (let i = days.length - 1; i >= 0; i--) {
+    if (isWritingDay(days[i], dailyGoal)) {
+      current++;
+    } else if (i !== days.length - 1) {
+      break;
+    }
+  }
+  return { current, best };
+}
+
+/**
+ * Progress toward the project goal. The required pace is what is left at the
+ * start of today spread over the days left, so it stays fixed while writing.
+ */
+export function computeProjectGoalProgress(
+  goal: WritingGoal,
+  total: TextTotals,
+  startOfToday: TextTotals,
+  today: string,
+): GoalProgress {
+  const current = amountIn(total, goal.unit);
+  const ratio = goal.target > 0 ? Math.min(1, current / goal.target) : 1;
+  if (!goal.deadline) {
+    return {
+      current,
+      target: goal.target,
+      ratio,
+      daysLeft: null,
+      requiredPace: null,
+      overdue: false,
+    };
+  }
+  const daysLeft = daysBetween(today, goal.deadline) + 1;
+  const remaining = goal.target - amountIn(startOfToday, goal.unit);
+  const overdue = daysLeft < 1 && current < goal.target;
+  return {
+    current,
+    target: goal.target,
+    ratio,
+    daysLeft: Math.max(0, daysLeft),
+    requiredPace: daysLeft >= 1 && remaining > 0 ? Math.ceil(remaining / daysLeft) : null,
+    overdue,
+  };
+}
+
+/** Progress toward the daily goal: today's net amount (never below zero). */
+export function computeDailyGoalProgress(goal: WritingGoal, today: DailyProgress): GoalProgress {
+  const current = Math.max(0, amountIn(today.written, goal.unit));
+  return {
+    current,
+    target: goal.target,
+    ratio: goal.target > 0 ? Math.min(1, current / goal.target) : 1,
+    daysLeft: null,
+    requiredPace: null,
+    overdue: false,
+  };
+}
+
+/** Heatmap shade 0–4 of a day's written characters relative to `reference` (the goal or the busiest day). */
+export function heatLevel(chars: number, reference: number): number {
+  if (chars <= 0 || reference <= 0) return 0;
+  return Math.min(4, Math.ceil((chars / reference) * 4));
+}
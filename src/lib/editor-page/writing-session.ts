@@ -0,0 +1,143 @@
+/**
+ * Writing session tracking: time spent and characters typed and deleted.
+ *
+ * Every editor pane runs the session plugin, which reports the characters
+ * each document change added and removed to a single module-level tracker.
+ * A pause longer than SESSION_IDLE_GAP_MS ends the session; the next edit
+ * starts a new one. The editor page (useWritingProgress) persists the running
+ * session to the project's session log.
+ *
+ * 執筆セッションの記録（作業時間・入力文字数・削除文字数）。
+ */
+
+import { Plugin, PluginKey } from "@milkdown/prose/state";
+import type { Node } from "@milkdown/prose/model";
+
+import type { WritingSession } from "@/lib/project/project-types";
+
+/** A pause longer than this ends the session. */
+export const SESSION_IDLE_GAP_MS = 5 * 60 * 1000;
+
+export const writingSessionPluginKey = new PluginKey("writingSession");
+
+let current: WritingSession | null = null;
+/** Set while content is replaced programmatically (file reloads, pane sync). */
+let suppressed = false;
+
+const listeners = new Set<() => void>();
+
+/** Subscribe to session updates. Returns an unsubscribe function. */
+export function subscribeWritingSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notifyWritingSession(): void {
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn("[writing-session] listener failed:", err);
+    }
+  }
+}
+
+/** The latest session (possibly already ended by an idle gap), or null. */
+export function getWritingSession(): WritingSession | null {
+  return current;
+}
+
+/** Forget the current session, e.g. when another project is opened. */
+export function resetWritingSession(): void {
+  current = null;
+}
+
+/** Add an edit to the running session, starting a new one after an idle gap. */
+export function recordWritingEdit(added: number, deleted: number, now: number = Date.now()): void {
+  if (!current || now - current.end > SESSION_IDLE_GAP_MS) {
+    current = { id: crypto.randomUUID(), start: now, end: now, added: 0, deleted: 0 };
+  }
+  current = {
+    ...current,
+    end: now,
+    added: current.added + added,
+    deleted: current.deleted + deleted,
+  };
+  notifyWritingSession();
+}
+
+/** Run `fn` without counting its document changes as writing. */
+export function withoutSessionTracking<T>(fn: () => T): T {
+  const previous = suppressed;
+  suppressed = true;
+  try {
+    return fn();
+  } finally {
+    suppressed = previous;
+  }
+}
+
+/** Non-whitespace code points between `from` and `to`. */
+export function countWrittenChars(doc: Node, from: number, to: number): number {
+  if (to <= from) return 0;
+  let count = 0;
+  for (const ch of doc.textBetween(from, to, "\n")) {
+    if (!/\s/.test(ch)) count++;
+  }
+  return count;
+}
+
+/** Characters removed from `before` and added in `after`, from the changed range only. */
+export function diffWrittenChars(before: Node, after: Node): { added: number; deleted: number } {
+  const start = before.content.findDiffStart(after.content);
+  if (start == null) return { added: 0, deleted: 0 };
+  const end = before.content.findDiffEnd(after.content);
+  if (!end) return { added: 0, deleted: 0 };
+  let endA = end.a;
+  let endB = end.b;
+  const overlap = start - Math.min(endA, endB);
+  if (overlap > 0) {
+    endA += overlap;
+    endB += overlap;
+  }
+  return {
+    added: countWrittenChars(after, start, endB),
+    deleted: countWrittenChars(before, start, endA),
+  };
+}
+
+/**
+ * Plugin reporting document changes to the session tracker. While an IME
+ * composition is in progress the changes are held back and counted once the
+ * composition ends, so intermediate kana are not counted as typed and deleted.
+ */
+export function createWritingSessionPlugin(): Plugin {
+  return new Plugin({
+    key: writingSessionPluginKey,
+    view() {
+      /** Document before the composition in progress */
+      let composingFrom: Node | null = null;
+      return {
+        update(view, prevState) {
+          if (view.state.doc.eq(prevState.doc)) return;
+          if (suppressed) {
+            composingFrom = null;
+            return;
+          }
+          if (view.composing) {
+            composingFrom ??= prevState.doc;
+            return;
+          }
+          const { added, deleted } = diffWrittenChars(
+            composingFrom ?? prevState.doc,
+            view.state.doc,
+          );
+          composingFrom = null;
+          recordWritingEdit(added, deleted);
+        },
+      };
+    },
+  });
+}
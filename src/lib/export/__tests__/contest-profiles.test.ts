@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  BUILTIN_CONTEST_PROFILES,
+  applyContestLayout,
+  mergeContestProfiles,
+  parseContestProfile,
+  parseContestProfiles,
+  runContestPreflight,
+} from "../contest-profiles";
+import { DEFAULT_EXPORT_SETTINGS } from "../export-settings";
+import { computeTextStatistics } from "@/lib/editor-page/text-statistics";
+
+import type { ContestProfile } from "../contest-profiles";
+
+const PROFILE: ContestProfile = {
+  id: "test",
+  label: "テスト新人賞",
+  layout: {
+    pageSize: "A4",
+    landscape: true,
+    verticalWriting: true,
+    charsPerLine: 42,
+    linesPerPage: 34,
+  },
+  length: { unit: "manuscript", min: 2, max: 3 },
+  sections: [{ label: "あらすじ", headings: ["あらすじ", "梗概"], maxChars: 10 }],
+};
+
+const MATCHING_SETTINGS = applyContestLayout(DEFAULT_EXPORT_SETTINGS, PROFILE);
+
+/** A manuscript of `lines` full 20-cell lines */
+function body(lines: number): string {
+  return Array.from({ length: lines }, () => "あ".repeat(20)).join("\n");
+}
+
+function statusOf(report: ReturnType<typeof runContestPreflight>, id: string): string | undefined {
+  return report.items.find((item) => item.id === id)?.status;
+}
+
+describe("parseContestProfile", () => {
+  it("有効なプロファイルをそのまま返す", () => {
+    expect(parseContestProfile(JSON.parse(JSON.stringify(PROFILE)))).toEqual(PROFILE);
+  });
+
+  it("sections の省略は空配列として扱う", () => {
+    const { sections: _sections, ...rest } = PROFILE;
+    expect(parseContestProfile(rest)?.sections).toEqual([]);
+  });
+
+  it("未知の用紙サイズや範囲外の字詰めは拒否する", () => {
+    expect(parseContestProfile({ ...PROFILE, layout: { ...PROFILE.layout, pageSize: "Z9" } })).toBe(
+      null,
+    );
+    expect(
+      parseContestProfile({ ...PROFILE, layout: { ...PROFILE.layout, charsPerLine: 80 } }),
+    ).toBe(null);
+  });
+
+  it("min が max を超える枚数指定は拒否する", () => {
+    expect(parseContestProfile({ ...PROFILE, length: { unit: "layout", min: 5, max: 1 } })).toBe(
+      null,
+    );
+  });
+
+  it("見出しのないセクションは拒否する", () => {
+    expect(parseContestProfile({ ...PROFILE, sections: [{ label: "表紙", headings: [] }] })).toBe(
+      null,
+    );
+  });
+});
+
+describe("parseContestProfiles", () => {
+  it("ライブラリ形式・配列・単体を受け付け、不正なものは除く", () => {
+    expect(parseContestProfiles({ version: "1.0.0", profiles: [PROFILE, { id: "x" }] })).toEqual([
+      PROFILE,
+    ]);
+    expect(parseContestProfiles([PROFILE])).toEqual([PROFILE]);
+    expect(parseContestProfiles(PROFILE)).toEqual([PROFILE]);
+    expect(parseContestProfiles("not a profile")).toEqual([]);
+  });
+
+  it("組み込みプロファイルはすべて検証を通る", () => {
+    expect(BUILTIN_CONTEST_PROFILES.length).toBeGreaterThan(0);
+    expect(new Set(BUILTIN_CONTEST_PROFILES.map((p) => p.id)).size).toBe(
+      BUILTIN_CONTEST_PROFILES.length,
+    );
+  });
+});
+
+describe("mergeContestProfiles", () => {
+  it("同じ id のプロジェクト側プロファイルが組み込みを置き換える", () => {
+    const builtin = BUILTIN_CONTEST_PROFILES[0];
+    const override = { ...PROFILE, id: builtin.id };
+    const merged = mergeContestProfiles([override]);
+    expect(merged.filter((p) => p.id === builtin.id)).toEqual([override]);
+    expect(merged).toHaveLength(BUILTIN_CONTEST_PROFILES.length);
+  });
+});
+
+describe("applyContestLayout", () => {
+  it("書式を上書きし、原稿用紙プリセットを解除する", () => {
+    const applied = applyContestLayout(
+      { ...DEFAULT_EXPORT_SETTINGS, charsPerLine: 30, pdfManuscriptPaper: true },
+      PROFILE,
+    );
+    expect(applied).toMatchObject({ ...PROFILE.layout, pdfManuscriptPaper: false });
+    expect(applied.margins).toEqual(DEFAULT_EXPORT_SETTINGS.margins);
+  });
+});
+
+describe("runContestPreflight", () => {
+  const withSynopsis = (text: string) => `# あらすじ\n短いあらすじ。\n# 本編\n${text}`;
+
+  it("規定をすべて満たせば合格", () => {
+    const report = runContestPreflight(PROFILE, withSynopsis(body(30)), ".mdi", MATCHING_SETTINGS);
+    expect(report.passed).toBe(true);
+    expect(report.items.every((item) => item.status === "pass")).toBe(true);
+  });
+
+  it("書式の不一致を項目ごとに報告する", () => {
+    const report = runContestPreflight(PROFILE, withSynopsis(body(30)), ".mdi", {
+      ...MATCHING_SETTINGS,
+      landscape: false,
+      linesPerPage: 30,
+      pdfManuscriptPaper: true,
+    });
+    expect(report.passed).toBe(false);
+    expect(statusOf(report, "page-size")).toBe("pass");
+    expect(statusOf(report, "orientation")).toBe("fail");
+    expect(statusOf(report, "grid")).toBe("fail");
+    expect(statusOf(report, "manuscript-paper")).toBe("fail");
+  });
+
+  it("400字詰め換算の枚数は computeTextStatistics と一致し、あらすじを含めない", () => {
+    const text = withSynopsis(body(50));
+    const report = runContestPreflight(
+      { ...PROFILE, length: { unit: "manuscript", max: 100 } },
+      text,
+      ".mdi",
+      MATCHING_SETTINGS,
+    );
+    const pages = computeTextStatistics(`# 本編\n${body(50)}`).manuscriptPages;
+    expect(report.items.find((item) => item.id === "length")?.actual).toBe(`${pages}枚`);
+  });
+
+  it("枚数が範囲外なら不合格", () => {
+    expect(
+      statusOf(
+        runContestPreflight(PROFILE, withSynopsis(body(5)), ".mdi", MATCHING_SETTINGS),
+        "length",
+      ),
+    ).toBe("fail");
+    expect(
+      statusOf(
+        runContestPreflight(PROFILE, withSynopsis(body(70)), ".mdi", MATCHING_SETTINGS),
+        "length",
+      ),
+    ).toBe("fail");
+  });
+
+  it("layout 単位ではプロファイルの字詰めで枚数を数える", () => {
+    // 42字の行を35行 → 34行/枚で2枚
+    const text = Array.from({ length: 35 }, () => "あ".repeat(42)).join("\n");
+    const report = runContestPreflight(
+      { ...PROFILE, length: { unit: "layout", max: 1 }, sections: [] },
+      text,
+      ".mdi",
+      MATCHING_SETTINGS,
+    );
+    const length = report.items.find((item) => item.id === "length");
+    expect(length?.actual).toBe("2枚");
+    expect(length?.status).toBe("fail");
+  });
+
+  it("必須セクションの欠落と字数超過を報告する", () => {
+    const missing = runContestPreflight(PROFILE, body(30), ".mdi", MATCHING_SETTINGS);
+    expect(missing.items.find((item) => item.id === "section-0")).toMatchObject({
+      status: "fail",
+      actual: "見出しがありません",
+    });
+
+    const tooLong = runContestPreflight(
+      PROFILE,
+      `## 梗概（800字）\n${"あ".repeat(11)}\n## 第一章\n${body(30)}`,
+      ".mdi",
+      MATCHING_SETTINGS,
+    );
+    expect(tooLong.items.find((item) => item.id === "section-0")).toMatchObject({
+      status: "fail",
+      actual: "11字",
+    });
+  });
+});
@@ -12,6 +12,7 @@ import {
   DEFAULT_EXPORT_SETTINGS,
   loadExportSettings,
   saveExportSettings,
+  toPdfExportSettings,
 } from "@/lib/export/export-settings";
 
 // インメモリ KV で StorageService をモックする
@@ -64,6 +65,21 @@ describe("loadExportSettings", () => {
     expect(loaded).toEqual(DEFAULT_EXPORT_SETTINGS);
   });
 
+  it("不正な原稿用紙のマス目は既定値に戻す", async () => {
+    kvStore.set(
+      STORAGE_KEY,
+      JSON.stringify({
+        ...DEFAULT_EXPORT_SETTINGS,
+        pdfManuscriptPaper: true,
+        pdfManuscriptGrid: "30x30",
+      }),
+    );
+
+    const loaded = await loadExportSettings();
+    expect(loaded.pdfManuscriptPaper).toBe(true);
+    expect(loaded.pdfManuscriptGrid).toBe(DEFAULT_EXPORT_SETTINGS.pdfManuscriptGrid);
+  });
+
   it("破損した保存データは既定値にフォールバックする", async () => {
     kvStore.set(STORAGE_KEY, "{not json");
 
@@ -122,3 +138,14 @@ describe("loadExportSettings", () => {
     expect(loaded.charsPerLine).toBe(40);
   });
 });
+
+describe("toPdfExportSettings", () => {
+  it("原稿用紙プリセットが有効なときだけマス目を渡す", () => {
+    const settings = { ...DEFAULT_EXPORT_SETTINGS, pdfManuscriptGrid: "20x10" as const };
+
+    expect(toPdfExportSettings(settings).manuscriptGrid).toBeUndefined();
+    expect(toPdfExportSettings({ ...settings, pdfManuscriptPaper: true }).manuscriptGrid).toBe(
+      "20x10",
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getManuscriptGrid,
+  manuscriptPaperToHtml,
+  paginateManuscript,
+  rubySpanInLine,
+} from "../manuscript-paper";
+import { computeTextStatistics } from "@/lib/editor-page/text-statistics";
+
+const A4_OPTIONS = {
+  metadata: { title: "テスト" },
+  verticalWriting: true,
+  pageSize: "A4",
+  landscape: true,
+  margins: { top: 20, bottom: 20, left: 20, right: 20 },
+};
+
+describe("paginateManuscript", () => {
+  it("20×20 の枚数は統計パネルの原稿用紙換算と一致する", () => {
+    const samples = [
+      "あ".repeat(401),
+      Array.from({ length: 45 }, (_, i) => `第${i}段落。「会話文」が続く。`).join("\n"),
+      "{東京|とうきょう}の^12^月。".repeat(60),
+      "あ".repeat(19) + "。" + "\n\n" + "い".repeat(30),
+    ];
+    for (const text of samples) {
+      const pages = paginateManuscript(text, ".mdi", getManuscriptGrid("20x20"));
+      expect(pages.length).toBe(computeTextStatistics(text).manuscriptPages);
+    }
+  });
+
+  it("20×10 は1枚10行で区切る", () => {
+    const text = Array.from({ length: 25 }, () => "あ").join("\n");
+    const pages = paginateManuscript(text, ".mdi", getManuscriptGrid("20x10"));
+    expect(pages.map((page) => page.length)).toEqual([10, 10, 5]);
+  });
+
+  it("空の文書は0枚", () => {
+    expect(paginateManuscript("", ".mdi", getManuscriptGrid("20x20"))).toEqual([]);
+  });
+});
+
+describe("rubySpanInLine", () => {
+  it("行をまたぐ親文字のルビは行内のマスまでに収める", () => {
+    const text = "あ".repeat(19) + "{東京|とうきょう}";
+    const [page] = paginateManuscript(text, ".mdi", getManuscriptGrid("20x20"));
+    expect(rubySpanInLine(page[0], 19)).toBe(1);
+    expect(rubySpanInLine(page[0], 0)).toBe(0);
+  });
+});
+
+describe("manuscriptPaperToHtml", () => {
+  it("枚数分のシートを出力し、本文をエスケープする", () => {
+    // .txt はタグも本文として残る
+    const html = manuscriptPaperToHtml("<b>あ</b>" + "い".repeat(400), {
+      ...A4_OPTIONS,
+      grid: "20x20",
+      fileType: ".txt",
+    });
+    expect(html.match(/<section class="sheet">/g)).toHaveLength(2);
+    expect(html).toContain('<span class="cell">&lt;</span>');
+    expect(html).not.toContain("<b>");
+    expect(html).toContain("Content-Security-Policy");
+  });
+
+  it("ルビは行間に、縦中横は1マスに出力する", () => {
+    const html = manuscriptPaperToHtml("{東京|とうきょう}の^12^月", {
+      ...A4_OPTIONS,
+      grid: "20x20",
+    });
+    expect(html).toContain('<span class="cell tcy">12</span>');
+    expect(html).toContain('class="ruby"');
+    expect(html).toContain("<span>と</span><span>う</span>");
+  });
+
+  it("空の文書でも白紙を1枚出力する", () => {
+    const html = manuscriptPaperToHtml("", { ...A4_OPTIONS, grid: "20x10" });
+    expect(html.match(/<section class="sheet">/g)).toHaveLength(1);
+    expect(html.match(/<div class="line">/g)).toHaveLength(10);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { unzipSync, strFromU8 } from "fflate";
+import { mdiToHtml, splitIntoChapters } from "@/lib/export/mdi-to-html";
+import { generateDocxBlob } from "@/lib/export/docx-exporter";
+import { buildEpubFiles } from "@/lib/export/epub-shared";
+import { mdiToPlainText, mdiToRubyText } from "@/lib/export/txt-exporter";
+
+describe("html exporter — [[note:…]] / [[warichu:…]]", () => {
+  it("replaces a note with a numbered marker and lists the body as an endnote", () => {
+    const html = mdiToHtml("本文[[note:{注|ちゅう}記]]。", { bodyOnly: true });
+    expect(html).toContain(
+      '<sup class="mdi-note-ref"><a id="mdi-note-1-1-ref" href="#mdi-note-1-1" role="doc-noteref">1</a></sup>',
+    );
+    expect(html).toContain('<section class="mdi-notes" role="doc-endnotes">');
+    expect(html).toContain(
+      '<li id="mdi-note-1-1" role="doc-endnote"><ruby>注<rt>ちゅう</rt></ruby>記 <a href="#mdi-note-1-1-ref" role="doc-backlink">↩</a></li>',
+    );
+    expect(html).not.toContain("[[note:");
+  });
+
+  it("collects notes per chapter and restarts numbering at each top-level heading", () => {
+    const html = mdiToHtml("# 一\n\nA[[note:甲]]B[[note:乙]]\n\n## 節\n\n# 二\n\nC[[note:丙]]", {
+      bodyOnly: true,
+    });
+    const firstNotes = html.indexOf('<section class="mdi-notes"');
+    expect(firstNotes).toBeGreaterThan(html.indexOf("<h2>節</h2>"));
+    expect(firstNotes).toBeLessThan(html.indexOf("<h1>二</h1>"));
+    expect(html).toContain('<li id="mdi-note-1-2" role="doc-endnote">乙');
+    expect(html).toContain('<li id="mdi-note-2-1" role="doc-endnote">丙');
+    expect(html.trimEnd().endsWith("</section>")).toBe(true);
+  });
+
+  it("escapes note bodies", () => {
+    const html = mdiToHtml("A[[note:甲 & 乙 <b>]]", { bodyOnly: true, fileType: ".mdi" });
+    expect(html).toContain('role="doc-endnote">甲 &amp; 乙');
+    expect(html).not.toContain("<b>");
+  });
+
+  it("renders 割注 as two half-size lines", () => {
+    const html = mdiToHtml("本文[[warichu:五文字の注]]続き", { bodyOnly: true });
+    expect(html).toContain(
+      '<span class="mdi-warichu"><span class="mdi-warichu-line">五文字</span><span class="mdi-warichu-line">の注</span></span>',
+    );
+  });
+
+  it("keeps the macros literal for .md files", () => {
+    const html = mdiToHtml("A[[note:x]][[warichu:y]]", { bodyOnly: true, fileType: ".md" });
+    expect(html).toContain("[[note:x]][[warichu:y]]");
+    expect(html).not.toContain("mdi-notes");
+  });
+});
+
+describe("epub exporter — [[note:…]]", () => {
+  it("emits footnote asides with backlinks at the end of each chapter file", () => {
+    const files = buildEpubFiles("# 一\n\nA[[note:甲]]\n\n# 二\n\nB[[note:乙]]", {
+      metadata: { title: "テスト", language: "ja" },
+    });
+    const chapter1 = files.get("OEBPS/chapter-1.xhtml") as string;
+    const chapter2 = files.get("OEBPS/chapter-2.xhtml") as string;
+
+    expect(chapter1).toContain('xmlns:epub="http://www.idpf.org/2007/ops"');
+    expect(chapter1).toContain(
+      '<a id="mdi-note-1-1-ref" href="#mdi-note-1-1" epub:type="noteref" role="doc-noteref">1</a>',
+    );
+    expect(chapter1).toContain(
+      '<aside id="mdi-note-1-1" class="mdi-note" epub:type="footnote" role="doc-footnote"><p class="mdi-note-body"><a href="#mdi-note-1-1-ref" role="doc-backlink">1</a> 甲</p></aside>',
+    );
+    expect(chapter1).not.toContain("乙");
+    expect(chapter2).toContain('epub:type="footnote"');
+    expect(chapter2).toContain("乙");
+  });
+
+  it("numbers notes per chapter when splitting into chapters", () => {
+    const chapters = splitIntoChapters("# 一\n\nA[[note:甲]]\n\n# 二\n\nB[[note:乙]]", 1);
+    expect(chapters[1].htmlContent).toContain('<li id="mdi-note-1-1" role="doc-endnote">乙');
+  });
+});
+
+describe("docx exporter — [[note:…]]", () => {
+  it("writes notes as Word footnotes", async () => {
+    const blob = await generateDocxBlob("本文[[note:注の{本文|ほんぶん}]]です", {
+      metadata: { title: "テスト", language: "ja" },
+    });
+    const unzipped = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    const documentXml = strFromU8(unzipped["word/document.xml"]!);
+    const footnotesXml = strFromU8(unzipped["word/footnotes.xml"]!);
+
+    expect(documentXml).toContain('<w:footnoteReference w:id="1"/>');
+    expect(documentXml).not.toContain("[[note:");
+    expect(documentXml).not.toContain("注の");
+    expect(footnotesXml).toContain("注の本文（ほんぶん）");
+  });
+
+  it("falls back to parentheses for 割注", async () => {
+    const blob = await generateDocxBlob("本文[[warichu:割注]]です", {
+      metadata: { title: "テスト", language: "ja" },
+    });
+    const unzipped = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    expect(strFromU8(unzipped["word/document.xml"]!)).toContain("本文（割注）です");
+  });
+});
+
+describe("txt exporter — [[note:…]] / [[warichu:…]]", () => {
+  it("drops notes in plain mode and keeps them in parentheses in ruby mode", () => {
+    const src = "本文[[note:注記]]と[[warichu:割注]]";
+    expect(mdiToPlainText(src)).toBe("本文と");
+    expect(mdiToRubyText(src)).toBe("本文（注記）と（割注）");
+  });
+});
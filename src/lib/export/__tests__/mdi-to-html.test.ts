@@ -15,6 +15,13 @@ describe("mdiToHtml", () => {
     expect(html).toContain('<span class="mdi-kern" style="--mdi-kern:0.5em;">wide</span>');
   });
 
+  it("renders 傍点 with a per-style class", () => {
+    const html = mdiToHtml("[[bouten:大事]]と[[bouten:open-circle:必ず]]", { bodyOnly: true });
+
+    expect(html).toContain('<span class="mdi-bouten mdi-bouten-sesame">大事</span>');
+    expect(html).toContain('<span class="mdi-bouten mdi-bouten-open-circle">必ず</span>');
+  });
+
   it("does not render MDI inline syntax inside inline code", () => {
     const html = mdiToHtml("`{東京|とうきょう}[[br]]^12^[[no-break:ABC]][[kern:0.5em:wide]]`", {
       bodyOnly: true,
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { unzipSync, strFromU8 } from "fflate";
+
+import { compileProject, moveCompileItem, syncCompileManifest } from "@/lib/export/project-compile";
+import { generateDocxBlob } from "@/lib/export/docx-exporter";
+import { buildEpubFiles } from "@/lib/export/epub-shared";
+import { getMdiStylesheet, mdiToHtml } from "@/lib/export/mdi-to-html";
+import type { CompileManifestFile } from "@/lib/project/project-types";
+
+const FRONT_MATTER = { title: "雨の街", author: "山田", titlePage: false };
+
+function manifestOf(items: CompileManifestFile["items"], titlePage = false): CompileManifestFile {
+  return { version: "1.0.0", frontMatter: { ...FRONT_MATTER, titlePage }, items };
+}
+
+function file(path: string, chapterBreak = true, include = true): CompileManifestFile["items"][0] {
+  return { type: "file", path, include, chapterBreak };
+}
+
+describe("syncCompileManifest", () => {
+  it("マニフェストが無ければファイル順にすべて含める", () => {
+    const manifest = syncCompileManifest(null, ["01.mdi", "02.mdi"], FRONT_MATTER);
+    expect(manifest.items).toEqual([file("01.mdi"), file("02.mdi")]);
+    expect(manifest.frontMatter).toEqual(FRONT_MATTER);
+  });
+
+  it("保存済みの順序と部を保ち、削除されたファイルを外して新しいファイルを末尾に足す", () => {
+    const saved = manifestOf([
+      { type: "part", id: "p1", title: "第一部", include: true },
+      file("02.mdi", false),
+      file("01.mdi"),
+      file("deleted.mdi"),
+    ]);
+    const synced = syncCompileManifest(saved, ["01.mdi", "02.mdi", "03.mdi"], FRONT_MATTER);
+    expect(synced.items).toEqual([
+      { type: "part", id: "p1", title: "第一部", include: true },
+      file("02.mdi", false),
+      file("01.mdi"),
+      file("03.mdi"),
+    ]);
+  });
+});
+
+describe("moveCompileItem", () => {
+  it("指定位置へ移動する", () => {
+    const items = [file("a.mdi"), file("b.mdi"), file("c.mdi")];
+    expect(moveCompileItem(items, 0, 2).map((i) => (i.type === "file" ? i.path : ""))).toEqual([
+      "b.mdi",
+      "c.mdi",
+      "a.mdi",
+    ]);
+  });
+});
+
+describe("compileProject", () => {
+  it("除外したファイルを飛ばし、見出しの無いファイルはファイル名を章題にする", () => {
+    const compiled = compileProject(
+      manifestOf([file("章/第一章.mdi"), file("メモ.mdi", true, false), file("第二章.mdi")]),
+      new Map([
+        ["章/第一章.mdi", "朝が来た。"],
+        ["第二章.mdi", "# 夜\n\n月が出た。"],
+      ]),
+    );
+    expect(compiled.content).toBe("# 第一章\n\n朝が来た。\n\n# 夜\n\n月が出た。");
+    expect(compiled.chapterBreakLevel).toBe(1);
+    expect(compiled.metadata).toEqual({ title: "雨の街", author: "山田", language: "ja" });
+    expect(compiled.fileType).toBe(".mdi");
+  });
+
+  it("部があると部を # に、章を ## にそろえる", () => {
+    const compiled = compileProject(
+      manifestOf([{ type: "part", id: "p1", title: "第一部", include: true }, file("a.mdi")]),
+      new Map([["a.mdi", "### 出発\n\n本文\n\n#### 節"]]),
+    );
+    expect(compiled.content).toBe("# 第一部\n\n## 出発\n\n本文\n\n### 節");
+    expect(compiled.chapterBreakLevel).toBe(2);
+  });
+
+  it("前の章に続けるファイルの見出しは章より下げ、扉ページを先頭に置く", () => {
+    const compiled = compileProject(
+      manifestOf([file("a.mdi"), file("b.mdi", false)], true),
+      new Map([
+        ["a.mdi", "# 一\n\n本文"],
+        ["b.mdi", "# 場面転換\n\n続き\n\n```\n# コード\n```"],
+      ]),
+    );
+    expect(compiled.content).toBe(
+      "# 雨の街\n\n山田\n\n# 一\n\n本文\n\n## 場面転換\n\n続き\n\n```\n# コード\n```",
+    );
+  });
+
+  it("md と mdi が混ざると .mdi として書き出し、mdi の章のルビを保つ", () => {
+    const compiled = compileProject(
+      manifestOf([file("a.mdi"), file("b.md")]),
+      new Map([
+        ["a.mdi", "# A\n\n{東京|とうきょう}へ"],
+        ["b.md", "# B\n\n**強調**"],
+      ]),
+    );
+    expect(compiled.fileType).toBe(".mdi");
+    const html = mdiToHtml(compiled.content, { bodyOnly: true, fileType: compiled.fileType });
+    expect(html).toContain("<ruby>東京<rt>とうきょう</rt></ruby>");
+    expect(html).toContain("<strong>強調</strong>");
+  });
+
+  it("md だけなら .md として書き出す", () => {
+    const compiled = compileProject(
+      manifestOf([file("a.md"), file("b.md")]),
+      new Map([
+        ["a.md", "# A"],
+        ["b.md", "# B"],
+      ]),
+    );
+    expect(compiled.fileType).toBe(".md");
+  });
+
+  it("読み込めていないファイルはエラー", () => {
+    expect(() => compileProject(manifestOf([file("a.mdi")]), new Map())).toThrow("a.mdi");
+  });
+});
+
+describe("chapter page breaks in the exporters", () => {
+  it("PDF: 章レベル以上の見出しの前で改ページし、先頭は除く", () => {
+    const css = getMdiStylesheet({ chapterBreakLevel: 2 });
+    expect(css).toContain("h1, h2 { break-before: page;");
+    expect(css).toContain("body > :first-child { break-before: auto;");
+    expect(getMdiStylesheet()).not.toContain("break-before");
+  });
+
+  it("DOCX: 2つ目以降の章見出しに pageBreakBefore を付ける", async () => {
+    const blob = await generateDocxBlob("# 一\n\n本文\n\n# 二\n\n本文\n\n## 節", {
+      metadata: { title: "テスト", language: "ja" },
+      chapterBreakLevel: 1,
+    });
+    const unzipped = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    const documentXml = strFromU8(unzipped["word/document.xml"]!);
+    expect((documentXml.match(/<w:pageBreakBefore\/>/g) ?? []).length).toBe(1);
+  });
+
+  it("EPUB: 部と章で分割する", () => {
+    const compiled = compileProject(
+      manifestOf([{ type: "part", id: "p1", title: "第一部", include: true }, file("a.mdi")]),
+      new Map([["a.mdi", "# 出発\n\n本文"]]),
+    );
+    const files = buildEpubFiles(compiled.content, {
+      metadata: compiled.metadata,
+      chapterSplitLevel: "none",
+      chapterBreakLevel: compiled.chapterBreakLevel,
+    });
+    expect(files.has("OEBPS/chapter-1.xhtml")).toBe(true);
+    expect(files.has("OEBPS/chapter-2.xhtml")).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+
+import { buildRedlineReportHtml } from "../redline-report";
+import { diffParagraphs, getParagraphDiffStats } from "@/lib/services/diff-service";
+
+function report(oldText: string, newText: string, title = "第一章.mdi"): string {
+  const rows = diffParagraphs(oldText, newText);
+  return buildRedlineReportHtml({
+    title,
+    oldLabel: "2026/10/01 10:00 (手動)",
+    newLabel: "2026/10/02 10:00 (自動)",
+    rows,
+    stats: getParagraphDiffStats(rows),
+    generatedAt: Date.UTC(2026, 9, 3),
+  });
+}
+
+describe("buildRedlineReportHtml", () => {
+  it("marks deletions and insertions of a modified paragraph", () => {
+    const html = report("彼は静かに扉を開けた。", "彼はそっと扉を開けた。");
+    expect(html).toContain("<del>");
+    expect(html).toContain("<ins>");
+    expect(html).toContain('class="row modified"');
+    expect(html).toContain("2026/10/01 10:00 (手動)");
+  });
+
+  it("labels moved paragraphs with a shared number", () => {
+    const html = report(
+      "最初の段落です。\n二番目の段落です。",
+      "二番目の段落です。\n最初の段落です。",
+    );
+    expect(html).toContain("移動元 1");
+    expect(html).toContain("移動先 1");
+  });
+
+  it("escapes document text and the title", () => {
+    const html = report("本文。", "本文。\n比較は A&B<C の順", "<b>章</b>");
+    expect(html).toContain("A&amp;B&lt;C");
+    expect(html).not.toContain("<b>章</b>");
+    expect(html).toContain("&lt;b&gt;章&lt;/b&gt;");
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+
+import { mdiToWebNovelChapters, mdiToWebNovelText } from "../txt-exporter";
+import { splitMdiByChapter } from "../web-novel-profiles";
+
+// ---------------------------------------------------------------------------
+// 小説家になろう
+// ---------------------------------------------------------------------------
+
+describe("narou profile", () => {
+  it("writes ruby with ｜ and 《》, stripping split dots", () => {
+    expect(mdiToWebNovelText("{東京|とう.きょう}へ行く", "narou")).toBe(
+      "｜東京《とうきょう》へ行く",
+    );
+  });
+
+  it("flattens tcy, no-break and kerning", () => {
+    expect(mdiToWebNovelText("^12^月[[no-break:一二三]][[kern:0.5em:ああ]]", "narou")).toBe(
+      "12月一二三ああ",
+    );
+  });
+
+  it("escapes literal 《 so it is not read as ruby", () => {
+    expect(mdiToWebNovelText("漢字《かんじ》と書く", "narou")).toBe("漢字｜《かんじ》と書く");
+  });
+
+  it("suppresses automatic parenthesis ruby after kanji", () => {
+    expect(mdiToWebNovelText("東京(とうきょう)と東京（トウキョウ）", "narou")).toBe(
+      "東京｜(とうきょう)と東京｜（トウキョウ）",
+    );
+  });
+
+  it("leaves parentheses that would not become ruby", () => {
+    expect(mdiToWebNovelText("彼（注：後述）と、あ（かな）", "narou")).toBe(
+      "彼（注：後述）と、あ（かな）",
+    );
+  });
+
+  it("emulates 傍点 with a per-character ・ ruby", () => {
+    expect(mdiToWebNovelText("[[bouten:circle:傍点]]", "narou")).toBe("｜傍《・》｜点《・》");
+  });
+
+  it("does not escape the markup it generates", () => {
+    expect(mdiToWebNovelText("{漢字|かんじ}(かな)", "narou")).toBe("｜漢字《かんじ》(かな)");
+  });
+
+  it("keeps headings as plain lines and collapses paragraph blank lines", () => {
+    expect(mdiToWebNovelText("# 第一章\n\n本文\n\n---\n\n次", "narou")).toBe("第一章\n本文\n\n次");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// カクヨム
+// ---------------------------------------------------------------------------
+
+describe("kakuyomu profile", () => {
+  it("writes ruby with ｜ and 《》", () => {
+    expect(mdiToWebNovelText("{吾輩|わがはい}", "kakuyomu")).toBe("｜吾輩《わがはい》");
+  });
+
+  it("writes 傍点 with the native 《《》》 notation", () => {
+    expect(mdiToWebNovelText("[[bouten:傍点]]です", "kakuyomu")).toBe("《《傍点》》です");
+  });
+
+  it("escapes literal 《 but not parenthesis ruby", () => {
+    expect(mdiToWebNovelText("《《強調》》と東京(とうきょう)", "kakuyomu")).toBe(
+      "｜《｜《強調》》と東京(とうきょう)",
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// pixiv
+// ---------------------------------------------------------------------------
+
+describe("pixiv profile", () => {
+  it("writes ruby as [[rb:]]", () => {
+    expect(mdiToWebNovelText("{漢字|かんじ}", "pixiv")).toBe("[[rb:漢字 > かんじ]]");
+  });
+
+  it("emulates 傍点 with a per-character ・ ruby", () => {
+    expect(mdiToWebNovelText("[[bouten:傍点]]", "pixiv")).toBe("[[rb:傍 > ・]][[rb:点 > ・]]");
+  });
+
+  it("writes headings as [chapter:] and thematic breaks as [newpage]", () => {
+    expect(mdiToWebNovelText("# 第一章 {序|じょ}\n\n本文\n\n---\n\n次", "pixiv")).toBe(
+      "[chapter:第一章 序]\n本文\n[newpage]\n次",
+    );
+  });
+
+  it("defuses literal pixiv tags in author text", () => {
+    expect(mdiToWebNovelText("[newpage]と[[rb:a > b]]と[chapter:x]", "pixiv")).toBe(
+      "［newpage]と［[rb:a > b]]と［chapter:x]",
+    );
+  });
+
+  it("escapes tags inside heading titles", () => {
+    expect(mdiToWebNovelText("# [jump:2]", "pixiv")).toBe("[chapter:［jump:2]]");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Editor output normalization and indentation
+// ---------------------------------------------------------------------------
+
+describe("shared export behavior", () => {
+  it("renders [[blank]] paragraphs as forced blank lines", () => {
+    expect(mdiToWebNovelText("A\n\n\\[\\[blank]]\n\nB", "kakuyomu")).toBe("A\n\nB");
+  });
+
+  it("applies full-width-space indentation", () => {
+    expect(
+      mdiToWebNovelText("{猫|ねこ}\n\n犬", "narou", ".mdi", {
+        fullwidthSpaceIndent: true,
+        indentCount: 1,
+      }),
+    ).toBe("　｜猫《ねこ》\n　犬");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Chapter splitting
+// ---------------------------------------------------------------------------
+
+describe("splitMdiByChapter", () => {
+  it("splits at the top-most heading level and keeps deeper headings", () => {
+    const parts = splitMdiByChapter("前書き\n\n## 一\n\nA\n\n### 節\n\nB\n\n## 二\n\nC");
+    expect(parts.map((p) => p.title)).toEqual(["", "一", "二"]);
+    expect(parts[1].content).toBe("\nA\n\n### 節\n\nB\n");
+  });
+
+  it("omits a blank preamble", () => {
+    expect(splitMdiByChapter("\n# 一\n本文").map((p) => p.title)).toEqual(["一"]);
+  });
+
+  it("returns the whole text when there is no heading", () => {
+    expect(splitMdiByChapter("本文のみ")).toEqual([{ title: "", content: "本文のみ" }]);
+  });
+});
+
+describe("mdiToWebNovelChapters", () => {
+  it("converts each chapter without its heading line", () => {
+    const chapters = mdiToWebNovelChapters(
+      "# 第一話\n\n{猫|ねこ}\n\n# 第二話\n\n犬《いぬ》",
+      "kakuyomu",
+    );
+    expect(chapters).toEqual([
+      { title: "第一話", text: "｜猫《ねこ》" },
+      { title: "第二話", text: "犬｜《いぬ》" },
+    ]);
+  });
+
+  it("drops chapters that convert to empty text", () => {
+    expect(mdiToWebNovelChapters("# 空\n\n# 本文あり\n\n本文", "narou")).toEqual([
+      { title: "本文あり", text: "本文" },
+    ]);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * 新人賞の応募規定プロファイルと提出前チェック（preflight）
+ *
+ * A contest profile is plain JSON: the required export layout (用紙・字詰め・
+ * 書字方向), the allowed length and the sections that must be present (e.g.
+ * あらすじ 800字以内). The built-in library lives in contest-profiles.json;
+ * projects add their own in .illusions/contest-profiles.json (see
+ * contest-profile-service). Both go through parseContestProfiles, so a
+ * malformed entry is dropped instead of breaking the export dialog.
+ *
+ * Length is measured on the 本文 only — the required sections (usually
+ * written on the cover page) are excluded — either as 400字詰め sheets
+ * (`computeTextStatistics`) or as pages of the profile's own layout, using
+ * the same line breaking as the 原稿用紙換算.
+ */
+
+import {
+  computeTextStatistics,
+  extractManuscriptCells,
+  layoutManuscriptLines,
+} from "@/lib/editor-page/text-statistics";
+import { parseMarkdownChapters } from "@/lib/utils";
+import { ALL_PAGE_SIZE_KEYS, PAGE_SIZE_CATEGORIES } from "./page-sizes";
+import builtinProfiles from "./contest-profiles.json";
+
+import type { SupportedFileExtension } from "@/lib/project/project-types";
+import type { UnifiedExportSettings } from "./export-settings";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Export layout a contest requires. */
+export interface ContestLayout {
+  /** Page size key of page-sizes.ts (e.g. "A4") */
+  pageSize: string;
+  landscape: boolean;
+  verticalWriting: boolean;
+  charsPerLine: number;
+  linesPerPage: number;
+}
+
+/**
+ * Allowed length in pages.
+ * - "manuscript": 400字詰め原稿用紙換算
+ * - "layout": pages of the profile's own layout (e.g. 42字×34行で80〜130枚)
+ */
+export interface ContestLength {
+  unit: "manuscript" | "layout";
+  min?: number;
+  max?: number;
+}
+
+/** A section that must appear as a heading, e.g. あらすじ. */
+export interface ContestSection {
+  label: string;
+  /** Heading texts accepted for the section; a heading containing one matches */
+  headings: string[];
+  minChars?: number;
+  maxChars?: number;
+}
+
+export interface ContestProfile {
+  id: string;
+  label: string;
+  layout: ContestLayout;
+  length: ContestLength;
+  sections: ContestSection[];
+}
+
+/** On-disk shape of a profile library (built-in and .illusions/contest-profiles.json). */
+export interface ContestProfilesFile {
+  version: string;
+  profiles: ContestProfile[];
+}
+
+export type ContestCheckStatus = "pass" | "fail";
+
+export interface ContestCheckItem {
+  id: string;
+  label: string;
+  status: ContestCheckStatus;
+  /** What the profile requires, for display */
+  expected: string;
+  /** What the document / settings have, for display */
+  actual: string;
+}
+
+export interface ContestPreflightReport {
+  profileId: string;
+  passed: boolean;
+  items: ContestCheckItem[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isIntInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isOptionalCount(value: unknown): value is number | undefined {
+  return value === undefined || isIntInRange(value, 0, Number.MAX_SAFE_INTEGER);
+}
+
+function parseLayout(raw: unknown): ContestLayout | null {
+  if (!isRecord(raw)) return null;
+  const { pageSize, landscape, verticalWriting, charsPerLine, linesPerPage } = raw;
+  // Same ranges as the export dialog accepts, so applying the layout never gets clamped
+  if (
+    typeof pageSize !== "string" ||
+    !ALL_PAGE_SIZE_KEYS.has(pageSize) ||
+    typeof landscape !== "boolean" ||
+    typeof verticalWriting !== "boolean" ||
+    !isIntInRange(charsPerLine, 10, 60) ||
+    !isIntInRange(linesPerPage, 10, 50)
+  ) {
+    return null;
+  }
+  return { pageSize, landscape, verticalWriting, charsPerLine, linesPerPage };
+}
+
+function parseLength(raw: unknown): ContestLength | null {
+  if (!isRecord(raw)) return null;
+  const { unit, min, max } = raw;
+  if (unit !== "manuscript" && unit !== "layout") return null;
+  if (!isOptionalCount(min) || !isOptionalCount(max)) return null;
+  if (min !== undefined && max !== undefined && min > max) return null;
+  return { unit, ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+}
+
+function parseSection(raw: unknown): ContestSection | null {
+  if (!isRecord(raw)) return null;
+  const { label, headings, minChars, maxChars } = raw;
+  if (typeof label !== "string" || label.trim() === "") return null;
+  if (!Array.isArray(headings)) return null;
+  const names = headings.filter((h): h is string => typeof h === "string" && h.trim() !== "");
+  if (names.length === 0) return null;
+  if (!isOptionalCount(minChars) || !isOptionalCount(maxChars)) return null;
+  return {
+    label,
+    headings: names,
+    ...(minChars !== undefined && { minChars }),
+    ...(maxChars !== undefined && { maxChars }),
+  };
+}
+
+/** Validate one profile. Returns null when any part of it is malformed. */
+export function parseContestProfile(raw: unknown): ContestProfile | null {
+  if (!isRecord(raw)) return null;
+  const { id, label } = raw;
+  if (typeof id !== "string" || id.trim() === "") return null;
+  if (typeof label !== "string" || label.trim() === "") return null;
+
+  const layout = parseLayout(raw.layout);
+  const length = parseLength(raw.length);
+  if (!layout || !length) return null;
+
+  const rawSections = raw.sections ?? [];
+  if (!Array.isArray(rawSections)) return null;
+  const sections: ContestSection[] = [];
+  for (const rawSection of rawSections) {
+    const section = parseSection(rawSection);
+    if (!section) return null;
+    sections.push(section);
+  }
+
+  return { id, label, layout, length, sections };
+}
+
+/**
+ * Read profiles from parsed JSON: a library file (`{ profiles: [...] }`),
+ * a bare array, or a single profile. Malformed profiles are skipped.
+ */
+export function parseContestProfiles(json: unknown): ContestProfile[] {
+  const list = isRecord(json) && "profiles" in json ? json.profiles : json;
+  const candidates = Array.isArray(list) ? list : [list];
+  return candidates
+    .map(parseContestProfile)
+    .filter((profile): profile is ContestProfile => profile !== null);
+}
+
+/** Profiles shipped with the app. */
+export const BUILTIN_CONTEST_PROFILES: readonly ContestProfile[] =
+  parseContestProfiles(builtinProfiles);
+
+/**
+ * Built-in profiles followed by the project's own. A project profile with the
+ * id of a built-in one replaces it.
+ */
+export function mergeContestProfiles(projectProfiles: readonly ContestProfile[]): ContestProfile[] {
+  const projectIds = new Set(projectProfiles.map((p) => p.id));
+  return [...BUILTIN_CONTEST_PROFILES.filter((p) => !projectIds.has(p.id)), ...projectProfiles];
+}
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/**
+ * Export settings with the profile's layout applied. The 原稿用紙 PDF preset
+ * is turned off, since it would replace the layout.
+ */
+export function applyContestLayout(
+  settings: UnifiedExportSettings,
+  profile: ContestProfile,
+): UnifiedExportSettings {
+  return { ...settings, ...profile.layout, pdfManuscriptPaper: false };
+}
+
+// ---------------------------------------------------------------------------
+// Preflight
+// ---------------------------------------------------------------------------
+
+interface SectionMatch {
+  section: ContestSection;
+  /** Line range of the section, heading included (end exclusive) */
+  start: number;
+  end: number;
+  body: string;
+}
+
+/** Locate each required section by its heading; the body runs to the next heading of the same or a higher level. */
+function findSections(
+  lines: string[],
+  sections: readonly ContestSection[],
+): Map<ContestSection, SectionMatch> {
+  const headings = parseMarkdownChapters(lines.join("\n"));
+  const found = new Map<ContestSection, SectionMatch>();
+
+  for (const section of sections) {
+    const index = headings.findIndex((h) =>
+      section.headings.some((name) => h.title.includes(name)),
+    );
+    if (index === -1) continue;
+    const heading = headings[index];
+    const next = headings.slice(index + 1).find((h) => h.level <= heading.level);
+    const end = next ? next.lineNumber : lines.length;
+    found.set(section, {
+      section,
+      start: heading.lineNumber,
+      end,
+      body: lines.slice(heading.lineNumber + 1, end).join("\n"),
+    });
+  }
+  return found;
+}
+
+function describeRange(min: number | undefined, max: number | undefined, unit: string): string {
+  if (min !== undefined && max !== undefined) return `${min}〜${max}${unit}`;
+  if (min !== undefined) return `${min}${unit}以上`;
+  if (max !== undefined) return `${max}${unit}以内`;
+  return "指定なし";
+}
+
+function inRange(value: number, min: number | undefined, max: number | undefined): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function pageSizeLabel(key: string): string {
+  for (const category of PAGE_SIZE_CATEGORIES) {
+    const entry = category.sizes.find((s) => s.key === key);
+    if (entry) return entry.label;
+  }
+  return key;
+}
+
+function check(
+  id: string,
+  label: string,
+  passed: boolean,
+  expected: string,
+  actual: string,
+): ContestCheckItem {
+  return { id, label, status: passed ? "pass" : "fail", expected, actual };
+}
+
+function layoutChecks(
+  profile: ContestProfile,
+  settings: UnifiedExportSettings,
+): ContestCheckItem[] {
+  const { layout } = profile;
+  const orientation = (landscape: boolean) => (landscape ? "横置き" : "縦置き");
+  const direction = (vertical: boolean) => (vertical ? "縦書き" : "横書き");
+  const grid = (chars: number, lines: number) => `${chars}字×${lines}行`;
+
+  const items = [
+    check(
+      "page-size",
+      "用紙サイズ",
+      settings.pageSize === layout.pageSize,
+      pageSizeLabel(layout.pageSize),
+      pageSizeLabel(settings.pageSize),
+    ),
+    check(
+      "orientation",
+      "用紙の向き",
+      settings.landscape === layout.landscape,
+      orientation(layout.landscape),
+      orientation(settings.landscape),
+    ),
+    check(
+      "writing-mode",
+      "書字方向",
+      settings.verticalWriting === layout.verticalWriting,
+      direction(layout.verticalWriting),
+      direction(settings.verticalWriting),
+    ),
+    check(
+      "grid",
+      "字詰め",
+      settings.charsPerLine === layout.charsPerLine &&
+        settings.linesPerPage === layout.linesPerPage,
+      grid(layout.charsPerLine, layout.linesPerPage),
+      grid(settings.charsPerLine, settings.linesPerPage),
+    ),
+  ];
+  if (settings.pdfManuscriptPaper) {
+    items.push(check("manuscript-paper", "PDFレイアウト", false, "通常", "原稿用紙"));
+  }
+  return items;
+}
+
+function lengthCheck(
+  profile: ContestProfile,
+  body: string,
+  fileType: SupportedFileExtension,
+): ContestCheckItem {
+  const { length, layout } = profile;
+  let pages: number;
+  let unitLabel: string;
+  if (length.unit === "manuscript") {
+    pages = computeTextStatistics(body, fileType).manuscriptPages;
+    unitLabel = "400字詰め換算";
+  } else {
+    const lines = layoutManuscriptLines(
+      extractManuscriptCells(body, fileType),
+      layout.charsPerLine,
+    ).length;
+    pages = Math.ceil(lines / layout.linesPerPage);
+    unitLabel = `${layout.charsPerLine}字×${layout.linesPerPage}行`;
+  }
+  return check(
+    "length",
+    `枚数（${unitLabel}）`,
+    inRange(pages, length.min, length.max),
+    describeRange(length.min, length.max, "枚"),
+    `${pages.toLocaleString()}枚`,
+  );
+}
+
+/**
+ * Check a manuscript and the export settings against a contest profile.
+ * Sections are found by Markdown/MDI headings, so a plain-text document
+ * cannot satisfy required sections.
+ */
+export function runContestPreflight(
+  profile: ContestProfile,
+  content: string,
+  fileType: SupportedFileExtension,
+  settings: UnifiedExportSettings,
+): ContestPreflightReport {
+  const lines = content.split("\n");
+  const sections = findSections(lines, profile.sections);
+
+  const sectionItems = profile.sections.map((section, i) => {
+    const match = sections.get(section);
+    const expected = describeRange(section.minChars, section.maxChars, "字");
+    if (!match) return check(`section-${i}`, section.label, false, expected, "見出しがありません");
+    const chars = computeTextStatistics(match.body, fileType).visibleTextCharCount;
+    return check(
+      `section-${i}`,
+      section.label,
+      inRange(chars, section.minChars, section.maxChars),
+      expected,
+      `${chars.toLocaleString()}字`,
+    );
+  });
+
+  const excluded = new Set<number>();
+  for (const match of sections.values()) {
+    for (let line = match.start; line < match.end; line++) excluded.add(line);
+  }
+  const body = lines.filter((_, i) => !excluded.has(i)).join("\n");
+
+  const items = [
+    ...layoutChecks(profile, settings),
+    lengthCheck(profile, body, fileType),
+    ...sectionItems,
+  ];
+  return {
+    profileId: profile.id,
+    passed: items.every((item) => item.status === "pass"),
+    items,
+  };
+}
@@ -2,7 +2,8 @@
  * DOCX exporter for MDI content
  *
  * Generates a Word document from MDI markdown using the docx library.
- * Handles headings, paragraphs, bold, italic, and ruby (as parenthesized fallback).
+ * Handles headings, paragraphs, bold, italic, ruby (as parenthesized fallback)
+ * and notes (as Word footnotes).
  */
 
 import {
@@ -16,11 +17,15 @@ import {
   Header,
   PageNumber,
   TextDirection,
+  EmphasisMarkType,
+  FootnoteReferenceRun,
 } from "docx";
 import {
   MdiDocument,
   replaceMdiWithRubyText,
   MDI_BREAK_RE,
+  MDI_BOUTEN_RE,
+  MDI_NOTE_RE,
   isMdiBlankParagraphLine,
   promoteBlankRunsToMarkers,
 } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
@@ -50,6 +55,11 @@ export interface DocxExportOptions {
    * `\[\[blank]]` is not silently promoted to a blank line (DATA-LOSS guard).
    */
   fileType?: string;
+  /**
+   * Start a new page before headings at or above this level (compiled
+   * projects, see `ExportSource`). Absent → no forced page breaks.
+   */
+  chapterBreakLevel?: number;
 }
 
 /**
@@ -77,7 +87,14 @@ function buildDocxDocument(content: string, options: DocxExportOptions): Documen
   // paragraph loop emits empty <w:p> for them instead of collapsing — TXT
   // parity (#1826). Scoped to ".mdi" (see mdi-to-html.ts for rationale).
   const normalized = fileType === ".mdi" ? promoteBlankRunsToMarkers(rawNormalized) : rawNormalized;
-  const paragraphs = parseMarkdownToDocxParagraphs(normalized, settings, fontConfig);
+  const footnotes: DocxFootnoteCollector = { notes: {}, nextId: 1 };
+  const paragraphs = parseMarkdownToDocxParagraphs(
+    normalized,
+    settings,
+    fontConfig,
+    footnotes,
+    options.chapterBreakLevel,
+  );
 
   // Page dimensions (swap for landscape)
   const baseDims = PAGE_DIMENSIONS[settings.pageSize] ?? PAGE_DIMENSIONS["A5"];
@@ -143,6 +160,7 @@ function buildDocxDocument(content: string, options: DocxExportOptions): Documen
     creator: metadata.author || "",
     title: metadata.title || "",
     description: "",
+    footnotes: footnotes.notes,
     styles: {
       default: {
         document: {
@@ -211,6 +229,12 @@ export async function generateDocxBlob(content: string, options: DocxExportOptio
 
 // --- Markdown parser ---
 
+/** Word footnotes (`[[note:…]]` bodies) collected while parsing, keyed by id. */
+interface DocxFootnoteCollector {
+  notes: Record<string, { children: Paragraph[] }>;
+  nextId: number;
+}
+
 /**
  * Parse MDI markdown content into docx Paragraph objects
  */
@@ -218,6 +242,8 @@ function parseMarkdownToDocxParagraphs(
   content: string,
   settings: DocxExportSettings,
   fontConfig: DocxFontConfig,
+  footnotes: DocxFootnoteCollector,
+  chapterBreakLevel?: number,
 ): Paragraph[] {
   const lines = content.split("\n");
   const paragraphs: Paragraph[] = [];
@@ -227,7 +253,7 @@ function parseMarkdownToDocxParagraphs(
     if (currentParagraphLines.length === 0) return;
     const text = currentParagraphLines.join("\n").trim();
     if (text) {
-      paragraphs.push(createParagraph(text, settings, fontConfig));
+      paragraphs.push(createParagraph(text, settings, fontConfig, footnotes));
     }
     currentParagraphLines = [];
   };
@@ -256,7 +282,10 @@ function parseMarkdownToDocxParagraphs(
       flushParagraph();
       const level = headingMatch[1].length;
       const headingText = headingMatch[2];
-      paragraphs.push(createHeading(headingText, level, fontConfig));
+      // Parts and chapters of a compiled project open on a new page (never the first one).
+      const pageBreakBefore =
+        chapterBreakLevel != null && level <= chapterBreakLevel && paragraphs.length > 0;
+      paragraphs.push(createHeading(headingText, level, fontConfig, footnotes, pageBreakBefore));
       continue;
     }
 
@@ -288,7 +317,13 @@ function parseMarkdownToDocxParagraphs(
 /**
  * Create a heading paragraph
  */
-function createHeading(text: string, level: number, fontConfig: DocxFontConfig): Paragraph {
+function createHeading(
+  text: string,
+  level: number,
+  fontConfig: DocxFontConfig,
+  footnotes: DocxFootnoteCollector,
+  pageBreakBefore = false,
+): Paragraph {
   const headingLevels: Record<number, (typeof HeadingLevel)[keyof typeof HeadingLevel]> = {
     1: HeadingLevel.HEADING_1,
     2: HeadingLevel.HEADING_2,
@@ -301,7 +336,8 @@ function createHeading(text: string, level: number, fontConfig: DocxFontConfig):
   return new Paragraph({
     heading: headingLevels[level] || HeadingLevel.HEADING_1,
     spacing: { before: 400, after: 200 },
-    children: parseInlineFormatting(text, fontConfig),
+    ...(pageBreakBefore ? { pageBreakBefore: true } : {}),
+    children: parseInlineFormatting(text, fontConfig, footnotes),
   });
 }
 
@@ -312,6 +348,7 @@ function createParagraph(
   text: string,
   settings: DocxExportSettings,
   fontConfig: DocxFontConfig,
+  footnotes: DocxFootnoteCollector,
 ): Paragraph {
   // Full-width-space 字下げ: prepend literal U+3000 characters to the paragraph
   // text and suppress the Word `firstLine` indent (count from textIndent, rounded)
@@ -328,7 +365,7 @@ function createParagraph(
   return new Paragraph({
     spacing: { before: 0, after: 120 },
     indent: { firstLine: firstLineTwips },
-    children: parseInlineFormatting(effectiveText, fontConfig),
+    children: parseInlineFormatting(effectiveText, fontConfig, footnotes),
   });
 }
 
@@ -340,6 +377,28 @@ function createParagraph(
  */
 const DOCX_MDI_BREAK_SENTINEL = "\uE001";
 
+/**
+ * Sentinels bracketing `[[bouten:…]]` text through replaceMdiWithRubyText, so
+ * the emphasized span can be emitted with a `<w:em>` mark. OOXML only offers
+ * a few mark shapes and the `docx` library exposes just `dot`, so every 傍点
+ * style maps to it.
+ */
+const DOCX_BOUTEN_OPEN_SENTINEL = "\uE002";
+const DOCX_BOUTEN_CLOSE_SENTINEL = "\uE003";
+/**
+ * Sentinel marking where a `[[note:…]]` stood. The bodies are taken out in
+ * order before any other transform and become Word footnotes.
+ */
+const DOCX_NOTE_SENTINEL = "\uE004";
+const DOCX_INLINE_SENTINEL_RE = /([\uE002\uE003\uE004])/;
+
+type DocxRunProps = {
+  bold?: boolean;
+  italics?: boolean;
+  emphasisMark?: { type: (typeof EmphasisMarkType)[keyof typeof EmphasisMarkType] };
+  font: DocxFontConfig;
+};
+
 /**
  * Push a text span as TextRuns, splitting on the MDI break sentinel and
  * inserting `TextRun({ break: 1 })` at each boundary. Empty segments are
@@ -347,9 +406,9 @@ const DOCX_MDI_BREAK_SENTINEL = "\uE001";
  * are NOT treated as explicit breaks.
  */
 function pushRunWithBreaks(
-  runs: TextRun[],
+  runs: Array<TextRun | FootnoteReferenceRun>,
   text: string,
-  props: { bold?: boolean; italics?: boolean; font: DocxFontConfig },
+  props: DocxRunProps,
 ): void {
   const parts = text.split(DOCX_MDI_BREAK_SENTINEL);
   parts.forEach((part, i) => {
@@ -366,18 +425,67 @@ function pushRunWithBreaks(
  * Parse inline markdown/MDI formatting into TextRun objects
  *
  * Handles: **bold**, *italic*, {ruby|text}, ^tcy^, [[no-break:text]],
- * [[kern:val:text]], [[br]] (as `<w:br/>`)
+ * [[kern:val:text]], [[bouten:text]] (as `<w:em>`), [[br]] (as `<w:br/>`),
+ * [[note:text]] (as a Word footnote when `footnotes` is given; a note body
+ * itself is parsed without it, so any nested note falls back to `（text）`)
  */
-function parseInlineFormatting(text: string, fontConfig: DocxFontConfig): TextRun[] {
-  const runs: TextRun[] = [];
+function parseInlineFormatting(
+  text: string,
+  fontConfig: DocxFontConfig,
+  footnotes?: DocxFootnoteCollector,
+): Array<TextRun | FootnoteReferenceRun> {
+  const runs: Array<TextRun | FootnoteReferenceRun> = [];
+
+  const noteBodies: string[] = [];
+  const withoutNotes = footnotes
+    ? text.replace(new RegExp(MDI_NOTE_RE.source, "g"), (_match, body: string) => {
+        noteBodies.push(body);
+        return DOCX_NOTE_SENTINEL;
+      })
+    : text;
 
   // Reserve `[[br]]` with a sentinel before the shared parser so that it is
   // distinguishable from CommonMark softbreak newlines. replaceMdiWithRubyText
   // otherwise converts `[[br]]` to `\n`, which would be indistinguishable from
   // paragraph line-wrap newlines for the purpose of emitting `<w:br/>`.
-  const reserved = text.replace(MDI_BREAK_RE, DOCX_MDI_BREAK_SENTINEL);
+  // `[[bouten:…]]` is reserved the same way so its span keeps the emphasis mark.
+  const reserved = withoutNotes
+    .replace(MDI_BREAK_RE, DOCX_MDI_BREAK_SENTINEL)
+    .replace(
+      new RegExp(MDI_BOUTEN_RE.source, "g"),
+      `${DOCX_BOUTEN_OPEN_SENTINEL}$2${DOCX_BOUTEN_CLOSE_SENTINEL}`,
+    );
   const processed = replaceMdiWithRubyText(reserved);
 
+  // 傍点 state is tracked across bold/italic splits so a mark that encloses
+  // (or is enclosed by) emphasis still covers exactly its own characters.
+  let inBouten = false;
+  const pushRun = (part: string, props: DocxRunProps): void => {
+    for (const piece of part.split(DOCX_INLINE_SENTINEL_RE)) {
+      if (piece === DOCX_NOTE_SENTINEL && footnotes) {
+        const id = footnotes.nextId++;
+        footnotes.notes[String(id)] = {
+          children: [
+            new Paragraph({
+              children: parseInlineFormatting(noteBodies.shift() ?? "", fontConfig),
+            }),
+          ],
+        };
+        runs.push(new FootnoteReferenceRun(id));
+      } else if (piece === DOCX_BOUTEN_OPEN_SENTINEL) {
+        inBouten = true;
+      } else if (piece === DOCX_BOUTEN_CLOSE_SENTINEL) {
+        inBouten = false;
+      } else if (piece) {
+        pushRunWithBreaks(
+          runs,
+          piece,
+          inBouten ? { ...props, emphasisMark: { type: EmphasisMarkType.DOT } } : props,
+        );
+      }
+    }
+  };
+
   // Now parse bold/italic markdown
   // Split by bold-italic (***text***), bold (**text**), and italic (*text*) markers
   const regex = /(\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|\*(.+?)\*)/g;
@@ -389,16 +497,16 @@ function parseInlineFormatting(text: string, fontConfig: DocxFontConfig): TextRu
     if (match.index > lastIndex) {
       const before = processed.slice(lastIndex, match.index);
       if (before) {
-        pushRunWithBreaks(runs, before, { font: fontConfig });
+        pushRun(before, { font: fontConfig });
       }
     }
 
     if (match[2]) {
-      pushRunWithBreaks(runs, match[2], { bold: true, italics: true, font: fontConfig });
+      pushRun(match[2], { bold: true, italics: true, font: fontConfig });
     } else if (match[3]) {
-      pushRunWithBreaks(runs, match[3], { bold: true, font: fontConfig });
+      pushRun(match[3], { bold: true, font: fontConfig });
     } else if (match[4]) {
-      pushRunWithBreaks(runs, match[4], { italics: true, font: fontConfig });
+      pushRun(match[4], { italics: true, font: fontConfig });
     }
 
     lastIndex = match.index + match[0].length;
@@ -407,7 +515,7 @@ function parseInlineFormatting(text: string, fontConfig: DocxFontConfig): TextRu
   if (lastIndex < processed.length) {
     const remaining = processed.slice(lastIndex);
     if (remaining) {
-      pushRunWithBreaks(runs, remaining, { font: fontConfig });
+      pushRun(remaining, { font: fontConfig });
     }
   }
 
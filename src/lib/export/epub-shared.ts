@@ -19,6 +19,12 @@ export interface EpubExportOptions {
   fontFamily?: string;
   textIndent?: number;
   chapterSplitLevel?: ChapterSplitLevel;
+  /**
+   * Start a new chapter file before headings at or above this level (a
+   * compiled project's parts and chapters). Overrides `chapterSplitLevel`, as
+   * PDF / DOCX break pages at the same headings.
+   */
+  chapterBreakLevel?: number;
   coverImage?: Uint8Array;
   coverMediaType?: string;
   /**
@@ -92,10 +98,15 @@ export function buildEpubFiles(
   const coverFileName = hasCover ? `cover.${coverExt}` : undefined;
   const coverMediaType = validCoverType;
 
-  const splitLevel = splitLevelToNumber(options.chapterSplitLevel);
-  const chapters = splitIntoChapters(content, splitLevel, options.fileType);
+  const splitLevel = options.chapterBreakLevel ?? splitLevelToNumber(options.chapterSplitLevel);
+  // Notes become EPUB 3 footnote asides at the end of each chapter file.
+  const chapters = splitIntoChapters(content, splitLevel, options.fileType, "epub");
   if (chapters.length === 0) {
-    const html = mdiToHtml(content, { bodyOnly: true, fileType: options.fileType });
+    const html = mdiToHtml(content, {
+      bodyOnly: true,
+      fileType: options.fileType,
+      noteMarkup: "epub",
+    });
     chapters.push({ title, htmlContent: html, level: 1 });
   }
   // When no splitting or single untitled chapter, use the book title
@@ -287,7 +298,7 @@ ${tocItems}
 function generateChapterXhtml(title: string, htmlContent: string, language: string): string {
   return `<?xml version="1.0" encoding="UTF-8"?>
 <!DOCTYPE html>
-<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${language}" lang="${language}">
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
 <head>
   <meta charset="UTF-8"/>
   <title>${escapeXml(title)}</title>
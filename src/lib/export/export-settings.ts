@@ -14,11 +14,15 @@ import { getStorageService } from "@/lib/storage/storage-service";
 import { ALL_JAPANESE_FONTS } from "@/lib/utils/fonts";
 import { calculateTypesetting } from "./pdf-export-settings";
 import { PAGE_DIMENSIONS, ALL_PAGE_SIZE_KEYS } from "./page-sizes";
+import { isWebNovelProfileId } from "./web-novel-profiles";
+import { DEFAULT_MANUSCRIPT_GRID_ID, isManuscriptGridId } from "./manuscript-paper";
 
 import type { PdfExportSettings } from "./pdf-export-settings";
 import type { DocxExportSettings } from "./docx-export-settings";
 import type { ChapterSplitLevel, EpubExportOptions } from "./epub-shared";
 import type { ExportMetadata } from "./types";
+import type { WebNovelProfileId } from "./web-novel-profiles";
+import type { ManuscriptGridId } from "./manuscript-paper";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -49,10 +53,22 @@ export interface UnifiedExportSettings {
    * is derived from `textIndent` (rounded). Default false. EPUB is unaffected.
    */
   fullwidthSpaceIndent: boolean;
+  /**
+   * PDF export: 原稿用紙 preset — the text is laid out on the grid of
+   * `pdfManuscriptGrid` (same line breaking as the 原稿用紙換算) instead of
+   * charsPerLine / linesPerPage. Default false.
+   */
+  pdfManuscriptPaper: boolean;
+  /** PDF export: grid of the 原稿用紙 preset. */
+  pdfManuscriptGrid: ManuscriptGridId;
   /** TXT export: prepend literal full-width spaces (U+3000) as 字下げ. Default false. */
   txtFullwidthSpaceIndent: boolean;
   /** TXT export: number of full-width spaces to prepend when enabled (1–4). */
   txtIndentCount: number;
+  /** Web-novel TXT export: last selected posting platform. */
+  txtWebNovelProfile: WebNovelProfileId;
+  /** Web-novel TXT export: split the output into one text per chapter. */
+  txtWebNovelSplitByChapter: boolean;
   // EPUB-specific
   epubPublisher: string;
   epubIdentifier: string;
@@ -72,8 +88,12 @@ export const DEFAULT_EXPORT_SETTINGS: UnifiedExportSettings = {
   pageNumberPosition: "bottom-center",
   textIndent: 1,
   fullwidthSpaceIndent: false,
+  pdfManuscriptPaper: false,
+  pdfManuscriptGrid: DEFAULT_MANUSCRIPT_GRID_ID,
   txtFullwidthSpaceIndent: false,
   txtIndentCount: 1,
+  txtWebNovelProfile: "narou",
+  txtWebNovelSplitByChapter: false,
   epubPublisher: "",
   epubIdentifier: "",
   epubChapterSplitLevel: "h1",
@@ -190,6 +210,7 @@ export function toPdfExportSettings(s: UnifiedExportSettings): PdfExportSettings
     textIndent: s.textIndent,
     fullwidthSpaceIndent: s.fullwidthSpaceIndent,
     googleFontFamily: isGoogleFont ? s.fontFamily : undefined,
+    manuscriptGrid: s.pdfManuscriptPaper ? s.pdfManuscriptGrid : undefined,
   };
 }
 
@@ -321,6 +342,11 @@ function sanitize(raw: Partial<UnifiedExportSettings>): UnifiedExportSettings {
       typeof raw.fullwidthSpaceIndent === "boolean"
         ? raw.fullwidthSpaceIndent
         : d.fullwidthSpaceIndent,
+    pdfManuscriptPaper:
+      typeof raw.pdfManuscriptPaper === "boolean" ? raw.pdfManuscriptPaper : d.pdfManuscriptPaper,
+    pdfManuscriptGrid: isManuscriptGridId(raw.pdfManuscriptGrid)
+      ? raw.pdfManuscriptGrid
+      : d.pdfManuscriptGrid,
     txtFullwidthSpaceIndent:
       typeof raw.txtFullwidthSpaceIndent === "boolean"
         ? raw.txtFullwidthSpaceIndent
@@ -329,6 +355,13 @@ function sanitize(raw: Partial<UnifiedExportSettings>): UnifiedExportSettings {
       typeof raw.txtIndentCount === "number"
         ? clamp(Math.round(raw.txtIndentCount), 1, 4)
         : d.txtIndentCount,
+    txtWebNovelProfile: isWebNovelProfileId(raw.txtWebNovelProfile)
+      ? raw.txtWebNovelProfile
+      : d.txtWebNovelProfile,
+    txtWebNovelSplitByChapter:
+      typeof raw.txtWebNovelSplitByChapter === "boolean"
+        ? raw.txtWebNovelSplitByChapter
+        : d.txtWebNovelSplitByChapter,
     epubPublisher: typeof raw.epubPublisher === "string" ? raw.epubPublisher : d.epubPublisher,
     epubIdentifier: typeof raw.epubIdentifier === "string" ? raw.epubIdentifier : d.epubIdentifier,
     epubChapterSplitLevel: VALID_CHAPTER_SPLIT_LEVELS.includes(
@@ -0,0 +1,256 @@
+/**
+ * 原稿用紙 layout for the 原稿用紙表示 tab and the 原稿用紙 PDF preset.
+ *
+ * Lines come from layoutManuscriptLines, the same line breaking (with 禁則) as
+ * the 原稿用紙換算 of the statistics panel, so a 20×20 sheet count always equals
+ * `manuscriptPages`. A 縦中横 takes one cell and ruby is written in the narrow
+ * column beside its base characters (to the right in vertical writing, above
+ * in horizontal writing).
+ */
+
+import { extractManuscriptCells, layoutManuscriptLines } from "@/lib/editor-page/text-statistics";
+import { escapeHtml, escapeHtmlAttr, getMdiStylesheet } from "./mdi-to-html";
+import { PAGE_DIMENSIONS } from "./page-sizes";
+
+import type { ManuscriptCell } from "@/lib/editor-page/text-statistics";
+import type { SupportedFileExtension } from "@/lib/project/project-types";
+import type { PageNumberFormat, PageNumberPosition } from "./export-settings";
+import type { ExportMetadata } from "./types";
+
+// ---------------------------------------------------------------------------
+// Grids
+// ---------------------------------------------------------------------------
+
+export type ManuscriptGridId = "20x20" | "20x10";
+
+export interface ManuscriptGrid {
+  id: ManuscriptGridId;
+  label: string;
+  charsPerLine: number;
+  linesPerPage: number;
+}
+
+export const MANUSCRIPT_GRIDS: readonly ManuscriptGrid[] = [
+  { id: "20x20", label: "400字詰め（20×20）", charsPerLine: 20, linesPerPage: 20 },
+  { id: "20x10", label: "200字詰め（20×10）", charsPerLine: 20, linesPerPage: 10 },
+];
+
+export const DEFAULT_MANUSCRIPT_GRID_ID: ManuscriptGridId = "20x20";
+
+export function isManuscriptGridId(value: unknown): value is ManuscriptGridId {
+  return MANUSCRIPT_GRIDS.some((grid) => grid.id === value);
+}
+
+export function getManuscriptGrid(id: ManuscriptGridId): ManuscriptGrid {
+  return MANUSCRIPT_GRIDS.find((grid) => grid.id === id) ?? MANUSCRIPT_GRIDS[0];
+}
+
+/** Width of the ruby column beside each line, relative to the cell size. */
+export const RUBY_COLUMN_RATIO = 0.5;
+
+/** Colour of the printed grid lines. */
+export const MANUSCRIPT_GRID_COLOR = "#c8553d";
+
+// ---------------------------------------------------------------------------
+// Layout
+// ---------------------------------------------------------------------------
+
+/**
+ * One sheet: its lines, each a list of cells. A line may run past
+ * `charsPerLine` by the punctuation hung below the last cell (ぶら下げ).
+ */
+export type ManuscriptPage = ManuscriptCell[][];
+
+/** Lay a document out on sheets of the grid. An empty document has no sheets. */
+export function paginateManuscript(
+  content: string,
+  fileType: SupportedFileExtension,
+  grid: ManuscriptGrid,
+): ManuscriptPage[] {
+  const lines = layoutManuscriptLines(extractManuscriptCells(content, fileType), grid.charsPerLine);
+  const pages: ManuscriptPage[] = [];
+  for (let i = 0; i < lines.length; i += grid.linesPerPage) {
+    pages.push(lines.slice(i, i + grid.linesPerPage));
+  }
+  return pages;
+}
+
+/**
+ * Cells the ruby of `line[index]` covers on this line. Base characters that
+ * were broken onto the next line keep no ruby there.
+ */
+export function rubySpanInLine(line: readonly ManuscriptCell[], index: number): number {
+  const ruby = line[index]?.ruby;
+  return ruby ? Math.min(ruby.span, line.length - index) : 0;
+}
+
+// ---------------------------------------------------------------------------
+// HTML for PDF / print
+// ---------------------------------------------------------------------------
+
+export interface ManuscriptPaperHtmlOptions {
+  metadata: ExportMetadata;
+  grid: ManuscriptGridId;
+  verticalWriting: boolean;
+  pageSize: string;
+  landscape: boolean;
+  /** Margins in mm; the grid is centred in the remaining area */
+  margins: { top: number; bottom: number; left: number; right: number };
+  fontFamily?: string;
+  /** Google Font family name — adds its stylesheet <link> */
+  googleFontFamily?: string;
+  /** Active document file type. Absent → ".mdi". */
+  fileType?: string;
+  /** Page numbers via CSS @page margin boxes (for print paths without a footer template) */
+  pageNumbers?: {
+    show: boolean;
+    format?: PageNumberFormat;
+    position?: PageNumberPosition;
+  };
+}
+
+function toFileType(fileType: string | undefined): SupportedFileExtension {
+  return fileType === ".md" || fileType === ".txt" ? fileType : ".mdi";
+}
+
+/** Printable area of the page and the size of one cell, in mm, so the grid fits the area. */
+function sheetGeometry(
+  options: ManuscriptPaperHtmlOptions,
+  grid: ManuscriptGrid,
+): { width: number; height: number; cell: number } {
+  const base = PAGE_DIMENSIONS[options.pageSize] ?? PAGE_DIMENSIONS["A4"];
+  const pageWidth = options.landscape ? base.height : base.width;
+  const pageHeight = options.landscape ? base.width : base.height;
+  const { top, bottom, left, right } = options.margins;
+  const width = pageWidth - left - right;
+  const height = pageHeight - top - bottom;
+  const lineSpan = grid.linesPerPage * (1 + RUBY_COLUMN_RATIO);
+  const cell = options.verticalWriting
+    ? Math.min(height / grid.charsPerLine, width / lineSpan)
+    : Math.min(width / grid.charsPerLine, height / lineSpan);
+  return { width, height, cell };
+}
+
+function renderLine(line: readonly ManuscriptCell[], grid: ManuscriptGrid, cell: number): string {
+  const cells: string[] = [];
+  const rubies: string[] = [];
+  const count = Math.max(grid.charsPerLine, line.length);
+  for (let i = 0; i < count; i++) {
+    const c = line[i];
+    const classes = [
+      "cell",
+      ...(i >= grid.charsPerLine ? ["hang"] : []),
+      ...(c?.tcy ? ["tcy"] : []),
+    ];
+    cells.push(`<span class="${classes.join(" ")}">${c ? escapeHtml(c.text) : ""}</span>`);
+    const span = rubySpanInLine(line, i);
+    if (c?.ruby && span > 0) {
+      const chars = Array.from(c.ruby.text)
+        .map((ch) => `<span>${escapeHtml(ch)}</span>`)
+        .join("");
+      const offset = `${(i * cell).toFixed(2)}mm`;
+      const length = `${(span * cell).toFixed(2)}mm`;
+      rubies.push(
+        `<span class="ruby" style="--ruby-offset: ${offset}; --ruby-length: ${length}">${chars}</span>`,
+      );
+    }
+  }
+  return `<div class="line"><div class="cells">${cells.join("")}</div><div class="rubies">${rubies.join("")}</div></div>`;
+}
+
+function manuscriptStylesheet(
+  vertical: boolean,
+  grid: ManuscriptGrid,
+  geometry: { width: number; height: number; cell: number },
+): string {
+  const mm = (value: number) => `${value.toFixed(2)}mm`;
+  const { cell } = geometry;
+  const gutter = cell * RUBY_COLUMN_RATIO;
+  const lineLength = mm(cell * grid.charsPerLine);
+  const rules = [
+    "body { margin: 0; padding: 0; color: #000; }",
+    // Slightly under the printable area so rounding never spills onto an extra page
+    `.sheet { display: flex; align-items: center; justify-content: center; width: ${mm(geometry.width - 0.5)}; height: ${mm(geometry.height - 0.5)}; overflow: hidden; break-after: page; page-break-after: always; }`,
+    ".sheet:last-child { break-after: auto; page-break-after: auto; }",
+    `.grid { display: flex; flex-direction: ${vertical ? "row-reverse" : "column"}; }`,
+    `.line { display: flex; flex-direction: ${vertical ? "row" : "column-reverse"}; }`,
+    `.cells { display: flex; flex-direction: ${vertical ? "column" : "row"}; ${vertical ? "height" : "width"}: ${lineLength}; outline: 0.3mm solid ${MANUSCRIPT_GRID_COLOR}; }`,
+    `.cell { box-sizing: border-box; flex: none; width: ${mm(cell)}; height: ${mm(cell)}; display: flex; align-items: center; justify-content: center; font-size: ${mm(cell * 0.78)}; line-height: 1;${vertical ? " writing-mode: vertical-rl;" : ""} }`,
+    `.cell + .cell { border-${vertical ? "top" : "left"}: 0.15mm solid ${MANUSCRIPT_GRID_COLOR}; }`,
+    ".cell.hang { border: none; }",
+    vertical
+      ? ".cell.tcy { text-combine-upright: all; }"
+      : `.cell.tcy { font-size: ${mm(cell * 0.5)}; letter-spacing: -0.05em; }`,
+    `.rubies { position: relative; flex: none; ${vertical ? "width" : "height"}: ${mm(gutter)}; ${vertical ? "height" : "width"}: ${lineLength}; }`,
+    `.ruby { position: absolute; display: flex; flex-direction: ${vertical ? "column" : "row"}; justify-content: space-around; align-items: center; font-size: ${mm(gutter * 0.8)}; line-height: 1; ${vertical ? "top: var(--ruby-offset); height: var(--ruby-length); left: 0; right: 0;" : "left: var(--ruby-offset); width: var(--ruby-length); top: 0; bottom: 0;"} }`,
+    ...(vertical ? [".ruby > span { writing-mode: vertical-rl; }"] : []),
+  ];
+  return rules.join("\n");
+}
+
+/**
+ * Render a document as 原稿用紙 sheets: a standalone HTML document with one
+ * grid per page, for printToPDF and print.
+ */
+export function manuscriptPaperToHtml(
+  content: string,
+  options: ManuscriptPaperHtmlOptions,
+): string {
+  const grid = getManuscriptGrid(options.grid);
+  const geometry = sheetGeometry(options, grid);
+  const pages = paginateManuscript(content, toFileType(options.fileType), grid);
+  // An empty document still prints one blank sheet
+  const sheets = (pages.length > 0 ? pages : [[]]).map((page) => {
+    const lines = Array.from({ length: grid.linesPerPage }, (_, i) =>
+      renderLine(page[i] ?? [], grid, geometry.cell),
+    );
+    return `<section class="sheet"><div class="grid">${lines.join("")}</div></section>`;
+  });
+
+  const stylesheet = [
+    getMdiStylesheet({
+      fontFamily: options.fontFamily,
+      margins: options.margins,
+      pageSize: options.pageSize,
+      landscape: options.landscape,
+      ...(options.pageNumbers?.show
+        ? {
+            showPageNumbers: true,
+            pageNumberFormat: options.pageNumbers.format,
+            pageNumberPosition: options.pageNumbers.position,
+          }
+        : undefined),
+    }),
+    manuscriptStylesheet(options.verticalWriting, grid, geometry),
+  ].join("\n");
+
+  // Same strict CSP as mdiToHtml: no scripts, Google Fonts only when requested
+  const hasGoogleFont = !!options.googleFontFamily;
+  const styleSrc = hasGoogleFont
+    ? "style-src 'unsafe-inline' https://fonts.googleapis.com"
+    : "style-src 'unsafe-inline'";
+  const fontSrc = hasGoogleFont ? " font-src https://fonts.gstatic.com;" : "";
+  const lang = options.metadata.language ?? "ja";
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${escapeHtmlAttr(lang)}">`,
+    "<head>",
+    '  <meta charset="UTF-8">',
+    `  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; ${styleSrc}; img-src 'self';${fontSrc}">`,
+    `  <title>${escapeHtml(options.metadata.title)}</title>`,
+    ...(hasGoogleFont
+      ? [
+          `  <link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=${encodeURIComponent(options.googleFontFamily!)}&display=swap">`,
+        ]
+      : []),
+    "  <style>",
+    `    ${stylesheet.split("\n").join("\n    ")}`,
+    "  </style>",
+    "</head>",
+    "<body>",
+    ...sheets,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
@@ -12,6 +12,7 @@ export {
   MDI_TCY_RE,
   MDI_NOBR_RE,
   MDI_KERN_RE,
+  MDI_BOUTEN_RE,
   MDI_BREAK_RE,
   MDI_BLANK_MARKER,
   MDI_BLANK_RE,
@@ -3,7 +3,9 @@
  *
  * Converts MDI (Markdown for Illusions) syntax to HTML.
  * Uses markdown-it as the base markdown parser with inline token rules
- * for MDI-specific extensions: ruby, tate-chu-yoko, no-break, kerning.
+ * for MDI-specific extensions: ruby, tate-chu-yoko, no-break, kerning, 傍点,
+ * 割注 and notes. Notes are numbered and collected at the end of each chapter
+ * (plain HTML endnotes, or EPUB 3 footnote asides).
  */
 
 import MarkdownIt from "markdown-it";
@@ -13,11 +15,19 @@ import {
   MDI_TCY_RE,
   MDI_NOBR_RE,
   MDI_KERN_RE,
+  MDI_BOUTEN_RE,
+  MDI_BOUTEN_DEFAULT_STYLE,
+  MDI_BOUTEN_STYLES,
+  MDI_BOUTEN_TEXT_EMPHASIS,
+  MDI_NOTE_RE,
+  MDI_WARICHU_RE,
   MDI_BREAK_RE,
   MDI_KERN_AMOUNT_RE,
   MDI_BLANK_RE,
   MdiDocument,
   promoteBlankRunsToMarkers,
+  splitMdiWarichuLines,
+  stripMdiInlineSyntax,
 } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
 import { PAGE_DIMENSIONS } from "./pdf-export-settings";
 
@@ -28,8 +38,34 @@ const MDI_RUBY_AT_START_RE = new RegExp(`^${MDI_RUBY_RE.source}`);
 const MDI_TCY_AT_START_RE = new RegExp(`^${MDI_TCY_RE.source}`);
 const MDI_NOBR_AT_START_RE = new RegExp(`^${MDI_NOBR_RE.source}`);
 const MDI_KERN_AT_START_RE = new RegExp(`^${MDI_KERN_RE.source}`);
+const MDI_BOUTEN_AT_START_RE = new RegExp(`^${MDI_BOUTEN_RE.source}`);
+const MDI_NOTE_AT_START_RE = new RegExp(`^${MDI_NOTE_RE.source}`);
+const MDI_WARICHU_AT_START_RE = new RegExp(`^${MDI_WARICHU_RE.source}`);
 const MDI_BREAK_AT_START_RE = new RegExp(`^${MDI_BREAK_RE.source}`);
 
+/**
+ * Note markup flavor: "html" renders an endnote list (`role="doc-endnotes"`),
+ * "epub" renders EPUB 3 `epub:type="footnote"` asides that reading systems
+ * show as pop-ups. Both link the marker and the note in both directions.
+ */
+export type MdiNoteMarkup = "html" | "epub";
+
+/** Notes collected while rendering, flushed at each chapter boundary. */
+interface MdiNoteCollector {
+  markup: MdiNoteMarkup;
+  /** Heading tag (e.g. "h1") that starts a new chapter, or null for one section. */
+  sectionTag: string | null;
+  /** 1-based counter of sections that have notes; keeps ids unique across chapters. */
+  section: number;
+  /** Rendered note bodies of the current section, in marker order. */
+  pending: string[];
+}
+
+/** markdown-it render env carrying the note collector. */
+interface MdiRenderEnv {
+  mdiNotes?: MdiNoteCollector;
+}
+
 /**
  * Validate that a kern amount matches the expected pattern (e.g. "0.5em", "-1em", "+0.25em")
  */
@@ -101,6 +137,29 @@ function matchMdiInlineSyntax(
     };
   }
 
+  // The style is one of MDI_BOUTEN_STYLES (enforced by the regex), so it is
+  // safe to interpolate into the class name.
+  const boutenMatch = remaining.match(MDI_BOUTEN_AT_START_RE);
+  if (boutenMatch) {
+    const style = boutenMatch[1] ?? MDI_BOUTEN_DEFAULT_STYLE;
+    return {
+      length: boutenMatch[0].length,
+      html: `<span class="mdi-bouten mdi-bouten-${style}">${escapeHtml(boutenMatch[2])}</span>`,
+    };
+  }
+
+  const warichuMatch = remaining.match(MDI_WARICHU_AT_START_RE);
+  if (warichuMatch) {
+    const lines = splitMdiWarichuLines(stripMdiInlineSyntax(warichuMatch[1]));
+    return {
+      length: warichuMatch[0].length,
+      html:
+        '<span class="mdi-warichu">' +
+        lines.map((line) => `<span class="mdi-warichu-line">${escapeHtml(line)}</span>`).join("") +
+        "</span>",
+    };
+  }
+
   const breakMatch = remaining.match(MDI_BREAK_AT_START_RE);
   if (breakMatch) {
     return {
@@ -112,8 +171,82 @@ function matchMdiInlineSyntax(
   return null;
 }
 
+function mdiNoteId(notes: MdiNoteCollector, index: number): string {
+  return `mdi-note-${notes.section}-${index}`;
+}
+
+/** Emit the notes of the current section and start the next one. */
+function flushMdiNotes(notes: MdiNoteCollector): string {
+  const bodies = notes.pending;
+  if (bodies.length === 0) return "";
+  const html =
+    notes.markup === "epub"
+      ? '<section class="mdi-notes">\n' +
+        bodies
+          .map((body, i) => {
+            const id = mdiNoteId(notes, i + 1);
+            return (
+              `<aside id="${id}" class="mdi-note" epub:type="footnote" role="doc-footnote">` +
+              `<p class="mdi-note-body"><a href="#${id}-ref" role="doc-backlink">${i + 1}</a> ${body}</p>` +
+              "</aside>\n"
+            );
+          })
+          .join("") +
+        "</section>\n"
+      : '<section class="mdi-notes" role="doc-endnotes">\n<ol>\n' +
+        bodies
+          .map((body, i) => {
+            const id = mdiNoteId(notes, i + 1);
+            return `<li id="${id}" role="doc-endnote">${body} <a href="#${id}-ref" role="doc-backlink">↩</a></li>\n`;
+          })
+          .join("") +
+        "</ol>\n</section>\n";
+  notes.pending = [];
+  notes.section += 1;
+  return html;
+}
+
 function installMdiInlinePlugin(md: MarkdownIt): void {
-  md.inline.ruler.after("escape", "mdi-inline", (state, silent) => {
+  // Notes become their own token so the renderer can number them and collect
+  // the body (which may itself contain ruby etc.) for the chapter's note list.
+  md.inline.ruler.after("escape", "mdi-note", (state, silent) => {
+    const match = state.src.slice(state.pos).match(MDI_NOTE_AT_START_RE);
+    if (!match) {
+      return false;
+    }
+
+    if (!silent) {
+      const token = state.push("mdi_note", "", 0);
+      token.content = match[1];
+    }
+
+    state.pos += match[0].length;
+    return true;
+  });
+
+  md.renderer.rules.mdi_note = (tokens, idx, _options, env: MdiRenderEnv) => {
+    const bodyHtml = md.renderInline(tokens[idx].content);
+    const notes = env.mdiNotes;
+    if (!notes) {
+      return `<span class="mdi-note-inline">（${bodyHtml}）</span>`;
+    }
+    notes.pending.push(bodyHtml);
+    const index = notes.pending.length;
+    const id = mdiNoteId(notes, index);
+    const epubType = notes.markup === "epub" ? ' epub:type="noteref"' : "";
+    return `<sup class="mdi-note-ref"><a id="${id}-ref" href="#${id}"${epubType} role="doc-noteref">${index}</a></sup>`;
+  };
+
+  const renderHeadingOpen =
+    md.renderer.rules.heading_open ??
+    ((tokens, idx, options, _env, self) => self.renderToken(tokens, idx, options));
+  md.renderer.rules.heading_open = (tokens, idx, options, env: MdiRenderEnv, self) => {
+    const notes = env.mdiNotes;
+    const flushed = notes && notes.sectionTag === tokens[idx].tag ? flushMdiNotes(notes) : "";
+    return flushed + renderHeadingOpen(tokens, idx, options, env, self);
+  };
+
+  md.inline.ruler.after("mdi-note", "mdi-inline", (state, silent) => {
     const match = matchMdiInlineSyntax(state.src, state.pos);
     if (!match) {
       return false;
@@ -137,7 +270,7 @@ function installMdiInlinePlugin(md: MarkdownIt): void {
  * only from the custom MDI inline tokenizer.
  *
  * @param mdiInlineRules - When true (default), install the MDI inline rules
- *   (ruby, tcy, no-break, kern, break). Set to false for non-.mdi files so
+ *   (ruby, tcy, no-break, kern, bouten, warichu, note, break). Set to false for non-.mdi files so
  *   literal `[[no-break:…]]` / `[[kern:…]]` are not converted to spans (#1918).
  */
 function createMarkdownIt(mdiInlineRules: boolean = true): MarkdownIt {
@@ -183,6 +316,12 @@ export interface MdiStylesheetOptions {
    */
   pageNumberPosition?:
     "bottom-left" | "bottom-center" | "bottom-right" | "top-left" | "top-center" | "top-right";
+  /**
+   * Start a new page before every heading at or above this level (1–6), as in
+   * a compiled project where parts and chapters open on a fresh page. The
+   * first element of the body never breaks. Absent → no forced page breaks.
+   */
+  chapterBreakLevel?: number;
 }
 
 /**
@@ -196,6 +335,15 @@ export function getMdiStylesheet(options?: MdiStylesheetOptions): string {
     ".mdi-tcy { text-combine-upright: all; }",
     ".mdi-nobr { white-space: nowrap; word-break: keep-all; }",
     ".mdi-kern { letter-spacing: var(--mdi-kern, 0em); }",
+    ".mdi-warichu { display: inline-flex; flex-direction: column; font-size: 0.5em; line-height: 1.2; vertical-align: middle; }",
+    ".mdi-note-ref { font-size: 0.6em; line-height: 1; }",
+    ".mdi-note-ref a, .mdi-notes a { text-decoration: none; }",
+    ".mdi-notes { margin-block-start: 2em; font-size: 0.85em; }",
+    ".mdi-bouten { -webkit-text-emphasis-position: over right; text-emphasis-position: over right; }",
+    ...MDI_BOUTEN_STYLES.map((style) => {
+      const value = MDI_BOUTEN_TEXT_EMPHASIS[style];
+      return `.mdi-bouten-${style} { -webkit-text-emphasis-style: ${value}; text-emphasis-style: ${value}; }`;
+    }),
     "br.mdi-break { /* inherits writing-mode; explicit rule for future customization */ }",
     "ruby rt { font-size: 0.5em; }",
   ];
@@ -229,6 +377,13 @@ export function getMdiStylesheet(options?: MdiStylesheetOptions): string {
     rules.push(`p { text-indent: ${options.textIndentEm}em; }`);
   }
 
+  if (options?.chapterBreakLevel != null && options.chapterBreakLevel >= 1) {
+    const level = Math.min(6, Math.floor(options.chapterBreakLevel));
+    const tags = Array.from({ length: level }, (_, i) => `h${i + 1}`);
+    rules.push(`${tags.join(", ")} { break-before: page; page-break-before: always; }`);
+    rules.push("body > :first-child { break-before: auto; page-break-before: auto; }");
+  }
+
   // @page rule: margins + page size (combined into one rule to avoid browser merge issues)
   const pageDecls: string[] = [];
   if (options?.margins) {
@@ -319,6 +474,14 @@ export function mdiToHtml(
      * double indentation. Blank ([[blank]]) paragraphs are left untouched.
      */
     fullwidthSpaceIndentCount?: number;
+    /** Markup for `[[note:…]]` (see {@link MdiNoteMarkup}). Absent → "html". */
+    noteMarkup?: MdiNoteMarkup;
+    /**
+     * When false, collect every note at the end of the output instead of at
+     * each chapter heading — for callers that already render one chapter per
+     * call (splitIntoChapters). Absent → true.
+     */
+    noteSections?: boolean;
     /**
      * Embed page numbers via CSS @page margin boxes.
      * Works for both printToPDF and webContents.print() (unlike Electron's
@@ -359,7 +522,24 @@ export function mdiToHtml(
   const preprocessed = isMdi
     ? normalized.replace(new RegExp(MDI_BLANK_RE.source, "gm"), BLANK_SENTINEL)
     : normalized;
-  const rawHtml = md.render(preprocessed);
+  // Notes are numbered per chapter: a new section starts at every heading of
+  // the top-most level present (the same rule as the outline's chapters).
+  const env: MdiRenderEnv = {};
+  const tokens = md.parse(preprocessed, env);
+  if (isMdi) {
+    const headingTags = tokens.filter((t) => t.type === "heading_open").map((t) => t.tag);
+    env.mdiNotes = {
+      markup: options?.noteMarkup ?? "html",
+      sectionTag:
+        options?.noteSections === false || headingTags.length === 0
+          ? null
+          : headingTags.reduce((top, tag) => (tag < top ? tag : top)),
+      section: 1,
+      pending: [],
+    };
+  }
+  const rawHtml =
+    md.renderer.render(tokens, md.options, env) + (env.mdiNotes ? flushMdiNotes(env.mdiNotes) : "");
   // Replace the sentinel paragraph with a true empty paragraph. Then final-sweep any
   // remaining sentinel that escaped the <p>…</p> wrap (e.g. inside fenced code blocks
   // where markdown-it emits <pre><code>…</code></pre> instead of <p>).
@@ -449,16 +629,21 @@ export function mdiToHtml(
  *
  * @param markdown - Full MDI markdown document
  * @param splitLevel - Max heading level to split on (1=H1, 2=H1+H2, 3=H1+H2+H3, 0=no split)
+ * @param noteMarkup - Markup for notes, which are collected at the end of each chapter
  * @returns Array of Chapter objects
  */
 export function splitIntoChapters(
   markdown: string,
   splitLevel: number = 1,
   fileType?: string,
+  noteMarkup: MdiNoteMarkup = "html",
 ): Chapter[] {
+  const renderChapter = (content: string): string =>
+    mdiToHtml(content, { bodyOnly: true, fileType, noteMarkup, noteSections: false });
+
   // No splitting — entire document is one chapter
   if (splitLevel <= 0) {
-    const html = mdiToHtml(markdown, { bodyOnly: true, fileType });
+    const html = renderChapter(markdown);
     return [{ title: "", htmlContent: html, level: 1 }];
   }
 
@@ -479,7 +664,7 @@ export function splitIntoChapters(
         const content = currentLines.join("\n").trim();
         chapters.push({
           title: currentTitle,
-          htmlContent: content ? mdiToHtml(content, { bodyOnly: true, fileType }) : "",
+          htmlContent: content ? renderChapter(content) : "",
           level: currentLevel,
         });
       }
@@ -501,7 +686,7 @@ export function splitIntoChapters(
     const content = currentLines.join("\n").trim();
     chapters.push({
       title: currentTitle,
-      htmlContent: content ? mdiToHtml(content, { bodyOnly: true, fileType }) : "",
+      htmlContent: content ? renderChapter(content) : "",
       level: currentLevel,
     });
   }
@@ -529,14 +714,14 @@ function sanitizeFontFamily(value: string): string {
 /**
  * Escape a string for use in HTML text content
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
 }
 
 /**
  * Escape a string for use in an HTML attribute value
  */
-function escapeHtmlAttr(text: string): string {
+export function escapeHtmlAttr(text: string): string {
   return text
     .replace(/&/g, "&amp;")
     .replace(/</g, "&lt;")
@@ -6,6 +6,8 @@
  * there for one-time migration.
  */
 
+import type { ManuscriptGridId } from "./manuscript-paper";
+
 export interface PdfExportSettings {
   pageSize: string;
   landscape: boolean;
@@ -27,6 +29,11 @@ export interface PdfExportSettings {
   fullwidthSpaceIndent?: boolean;
   /** Google Font family name for PDF export (triggers <link> injection) */
   googleFontFamily?: string;
+  /**
+   * 原稿用紙 preset: lay the text out on this grid. Replaces charsPerLine /
+   * linesPerPage and 字下げ. Absent → normal typesetting.
+   */
+  manuscriptGrid?: ManuscriptGridId;
 }
 
 export const DEFAULT_PDF_SETTINGS: PdfExportSettings = {
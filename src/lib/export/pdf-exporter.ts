@@ -6,8 +6,12 @@
  */
 
 import type { ExportMetadata } from "./types";
+import type { ManuscriptGridId } from "./manuscript-paper";
 import { calculateTypesetting, PAGE_DIMENSIONS } from "./pdf-export-settings";
 
+/** Margins in mm when the caller passes none */
+const DEFAULT_MARGINS = { top: 20, bottom: 20, left: 15, right: 15 };
+
 export interface PdfExportOptions {
   metadata: ExportMetadata;
   verticalWriting?: boolean;
@@ -38,6 +42,17 @@ export interface PdfExportOptions {
    * literals for ".md"/".txt". Absent → ".mdi".
    */
   fileType?: string;
+  /**
+   * Start a new page before headings at or above this level (compiled
+   * projects, see `ExportSource`). Absent → no forced page breaks.
+   */
+  chapterBreakLevel?: number;
+  /**
+   * 原稿用紙 preset: render the grid of manuscriptPaperToHtml instead of
+   * mdiToHtml. charsPerLine / linesPerPage, 字下げ and chapterBreakLevel do not
+   * apply. Absent → normal typesetting.
+   */
+  manuscriptGrid?: ManuscriptGridId;
 }
 
 /**
@@ -55,6 +70,7 @@ export async function generatePdf(content: string, options: PdfExportOptions): P
   const { BrowserWindow } = await import("electron");
   const { mdiToHtml } = await import("./mdi-to-html");
   const { fullwidthIndentCount } = await import("./fullwidth-indent");
+  const { manuscriptPaperToHtml } = await import("./manuscript-paper");
 
   // Full-width-space 字下げ: when enabled, the indent is expressed as literal
   // U+3000 characters injected into each paragraph (see mdiToHtml), so the CSS
@@ -71,7 +87,7 @@ export async function generatePdf(content: string, options: PdfExportOptions): P
   const typesetting = hasTypesetting
     ? (() => {
         const pageSize = options.pageSize ?? "A5";
-        const margins = options.margins ?? { top: 20, bottom: 20, left: 15, right: 15 };
+        const margins = options.margins ?? DEFAULT_MARGINS;
         const { fontSizeMm, lineHeightRatio } = calculateTypesetting(
           pageSize,
           margins,
@@ -88,22 +104,37 @@ export async function generatePdf(content: string, options: PdfExportOptions): P
           margins,
           pageSize: options.pageSize ?? "A5",
           landscape: options.landscape ?? false,
+          chapterBreakLevel: options.chapterBreakLevel,
         };
       })()
     : undefined;
 
-  const html = mdiToHtml(content, {
-    metadata: options.metadata,
-    verticalWriting: options.verticalWriting,
-    typesetting: typesetting ?? {
-      pageSize: options.pageSize ?? "A5",
-      landscape: options.landscape ?? false,
-      margins: options.margins,
-    },
-    googleFontFamily: options.googleFontFamily,
-    fileType: options.fileType,
-    fullwidthSpaceIndentCount: fullwidthSpaceCount,
-  });
+  // Page numbers come from the footer template below, not from the HTML
+  const html = options.manuscriptGrid
+    ? manuscriptPaperToHtml(content, {
+        metadata: options.metadata,
+        grid: options.manuscriptGrid,
+        verticalWriting: options.verticalWriting ?? false,
+        pageSize: options.pageSize ?? "A5",
+        landscape: options.landscape ?? false,
+        margins: options.margins ?? DEFAULT_MARGINS,
+        fontFamily: options.fontFamily,
+        googleFontFamily: options.googleFontFamily,
+        fileType: options.fileType,
+      })
+    : mdiToHtml(content, {
+        metadata: options.metadata,
+        verticalWriting: options.verticalWriting,
+        typesetting: typesetting ?? {
+          pageSize: options.pageSize ?? "A5",
+          landscape: options.landscape ?? false,
+          margins: options.margins,
+          chapterBreakLevel: options.chapterBreakLevel,
+        },
+        googleFontFamily: options.googleFontFamily,
+        fileType: options.fileType,
+        fullwidthSpaceIndentCount: fullwidthSpaceCount,
+      });
 
   // Use a unique in-memory partition (no "persist:" prefix) per export so
   // that the CSP webRequest hook is registered on a fresh, isolated session.
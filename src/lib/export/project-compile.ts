@@ -0,0 +1,188 @@
+/**
+ * Project compile: concatenates the manuscript files of a project into one
+ * chapter-aware document for the PDF / DOCX / EPUB exporters, following the
+ * order and flags of .illusions/compile.json.
+ *
+ * プロジェクト全体の書き出し用に、原稿ファイルを1つの文書へ結合する。
+ *
+ * Heading levels are normalized so every chapter is a heading at the same
+ * level: `#` without parts, `##` when parts (`#`) are present. Exporters break
+ * pages before headings at or above that level (see `chapterBreakLevel`).
+ */
+
+import type {
+  CompileFrontMatter,
+  CompileItem,
+  CompileManifestFile,
+  SupportedFileExtension,
+} from "@/lib/project/project-types";
+import type { ExportSource } from "./types";
+
+const HEADING_RE = /^(#{1,6})(\s+.*)$/;
+const FENCE_RE = /^\s*(```|~~~)/;
+
+/** Display title of a manuscript file: its name without directory or extension. */
+export function compileFileTitle(path: string): string {
+  const name = path.replace(/\\/g, "/").split("/").at(-1) ?? path;
+  return name.replace(/\.[^.]+$/, "");
+}
+
+/** A new manifest listing `paths` in order, every file included as its own chapter. */
+export function createCompileManifest(
+  paths: readonly string[],
+  frontMatter: CompileFrontMatter,
+): CompileManifestFile {
+  return {
+    version: "1.0.0",
+    frontMatter,
+    items: paths.map((path) => ({ type: "file", path, include: true, chapterBreak: true })),
+  };
+}
+
+/**
+ * Reconcile a saved manifest with the files currently in the project: entries
+ * of deleted files are dropped and new files are appended (included). Parts
+ * and the saved order are kept. A null manifest starts from `defaults`.
+ */
+export function syncCompileManifest(
+  manifest: CompileManifestFile | null,
+  paths: readonly string[],
+  defaults: CompileFrontMatter,
+): CompileManifestFile {
+  if (!manifest) return createCompileManifest(paths, defaults);
+
+  const existing = new Set(paths);
+  const items = manifest.items.filter((item) => item.type === "part" || existing.has(item.path));
+  const listed = new Set(items.flatMap((item) => (item.type === "file" ? [item.path] : [])));
+  for (const path of paths) {
+    if (!listed.has(path)) items.push({ type: "file", path, include: true, chapterBreak: true });
+  }
+  return { ...manifest, items };
+}
+
+/** Move the item at `from` to `to` (indices into the same list). */
+export function moveCompileItem(
+  items: readonly CompileItem[],
+  from: number,
+  to: number,
+): CompileItem[] {
+  const next = [...items];
+  if (from === to || from < 0 || from >= next.length) return next;
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return next;
+}
+
+interface HeadingScan {
+  /** Top-most heading level in the text, or null when it has no headings */
+  minLevel: number | null;
+  /** Level of the heading on the first non-blank line, or null */
+  firstLevel: number | null;
+}
+
+/** Calls `visit` for every line, with `inFence` set inside fenced code blocks. */
+function forEachLine(text: string, visit: (line: string, inFence: boolean) => string): string {
+  let inFence = false;
+  return text
+    .split("\n")
+    .map((line) => {
+      if (FENCE_RE.test(line)) {
+        inFence = !inFence;
+        return visit(line, true);
+      }
+      return visit(line, inFence);
+    })
+    .join("\n");
+}
+
+function scanHeadings(text: string): HeadingScan {
+  const scan: HeadingScan = { minLevel: null, firstLevel: null };
+  let seenContent = false;
+  forEachLine(text, (line, inFence) => {
+    const match = inFence ? null : HEADING_RE.exec(line);
+    if (match) {
+      const level = match[1].length;
+      scan.minLevel = Math.min(scan.minLevel ?? level, level);
+      if (!seenContent) scan.firstLevel = level;
+    }
+    if (line.trim() !== "") seenContent = true;
+    return line;
+  });
+  return scan;
+}
+
+/** Shift every heading so the top-most one lands on `targetLevel` (clamped to 1–6). */
+function shiftHeadings(text: string, minLevel: number, targetLevel: number): string {
+  const delta = targetLevel - minLevel;
+  if (delta === 0) return text;
+  return forEachLine(text, (line, inFence) => {
+    const match = inFence ? null : HEADING_RE.exec(line);
+    if (!match) return line;
+    const level = Math.min(6, Math.max(1, match[1].length + delta));
+    return "#".repeat(level) + match[2];
+  });
+}
+
+/**
+ * Concatenate the included items of `manifest` into one document.
+ *
+ * - A part becomes a `#` heading; chapters then move down to `##`.
+ * - A file with `chapterBreak` starts a chapter: its top-most headings become
+ *   chapter headings, and a file that does not open with one gets its file
+ *   name as the chapter title.
+ * - A file without `chapterBreak` continues the previous chapter; its
+ *   headings are demoted below the chapter level so they do not break pages.
+ *
+ * @param contents - Text of each included file, keyed by path
+ * @throws When an included file is missing from `contents`
+ */
+export function compileProject(
+  manifest: CompileManifestFile,
+  contents: ReadonlyMap<string, string>,
+): ExportSource & { chapterBreakLevel: number } {
+  const included = manifest.items.filter((item) => item.include);
+  const chapterLevel = included.some((item) => item.type === "part") ? 2 : 1;
+  const chapterMark = "#".repeat(chapterLevel);
+  const { title, author, titlePage } = manifest.frontMatter;
+  const blocks: string[] = [];
+
+  if (titlePage && title.trim()) {
+    blocks.push(author.trim() ? `# ${title.trim()}\n\n${author.trim()}` : `# ${title.trim()}`);
+  }
+
+  for (const item of included) {
+    if (item.type === "part") {
+      blocks.push(`# ${item.title.trim() || "無題の部"}`);
+      continue;
+    }
+    const text = contents.get(item.path);
+    if (text === undefined) {
+      throw new Error(`${item.path} を読み込めませんでした`);
+    }
+    const body = text.trim();
+    if (!body) continue;
+
+    const { minLevel, firstLevel } = scanHeadings(body);
+    if (item.chapterBreak) {
+      const shifted = minLevel === null ? body : shiftHeadings(body, minLevel, chapterLevel);
+      blocks.push(
+        minLevel !== null && firstLevel === minLevel
+          ? shifted
+          : `${chapterMark} ${compileFileTitle(item.path)}\n\n${shifted}`,
+      );
+    } else {
+      blocks.push(minLevel === null ? body : shiftHeadings(body, minLevel, chapterLevel + 1));
+    }
+  }
+
+  // MDI parsing also reads plain Markdown, so one .mdi chapter makes the whole book .mdi
+  // (as ".md" its ruby, 縦中横 and other MDI syntax would be dropped).
+  const anyMdi = included.some((item) => item.type === "file" && item.path.endsWith(".mdi"));
+  const fileType: SupportedFileExtension = anyMdi ? ".mdi" : ".md";
+  return {
+    content: blocks.join("\n\n"),
+    metadata: { title: title.trim(), author: author.trim() || undefined, language: "ja" },
+    fileType,
+    chapterBreakLevel: chapterLevel,
+  };
+}
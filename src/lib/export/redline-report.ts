@@ -0,0 +1,113 @@
+/**
+ * 赤字レポート: a standalone HTML document of a paragraph diff, for handing
+ * revisions to an editor. Changes are marked in red the way corrections are
+ * written on a proof: deletions struck through, insertions underlined, and
+ * each changed paragraph labelled in the margin.
+ *
+ * All document text is escaped; the report contains no script.
+ */
+
+import { escapeHtml } from "./mdi-to-html";
+
+import type { DiffChunk, ParagraphDiffRow, ParagraphDiffStats } from "@/lib/services/diff-service";
+
+export interface RedlineReportOptions {
+  /** Name of the compared document */
+  title: string;
+  /** Label of the old version (e.g. snapshot time) */
+  oldLabel: string;
+  /** Label of the new version */
+  newLabel: string;
+  rows: readonly ParagraphDiffRow[];
+  stats: ParagraphDiffStats;
+  /** When the report was made (Unix ms) */
+  generatedAt: number;
+}
+
+const ROW_LABELS: Record<ParagraphDiffRow["kind"], string> = {
+  unchanged: "",
+  added: "追加",
+  removed: "削除",
+  modified: "修正",
+  "moved-from": "移動元",
+  "moved-to": "移動先",
+};
+
+const REDLINE_STYLESHEET = `
+body { margin: 0; padding: 32px; font-family: "Noto Serif JP", "Hiragino Mincho ProN", "Yu Mincho", serif; color: #1a1a1a; background: #fff; line-height: 1.9; }
+header { border-bottom: 1px solid #ccc; margin-bottom: 24px; padding-bottom: 12px; }
+h1 { font-size: 18px; margin: 0 0 8px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 12px; margin: 0; font-size: 13px; }
+dt { color: #666; }
+dd { margin: 0; }
+.summary { margin-top: 8px; font-size: 13px; color: #c00; }
+.row { display: grid; grid-template-columns: 4.5em 1fr; gap: 12px; margin: 0 0 0.4em; }
+.mark { font-size: 11px; color: #c00; text-align: right; padding-top: 0.35em; white-space: nowrap; }
+.text { margin: 0; text-indent: 0; }
+.unchanged .text { color: #444; }
+del { color: #c00; text-decoration: line-through; text-decoration-color: #c00; }
+ins { color: #c00; text-decoration: underline; text-decoration-color: #c00; }
+.removed .text, .moved-from .text { color: #c00; text-decoration: line-through; }
+.added .text, .moved-to .text { color: #c00; text-decoration: underline; }
+@media print { body { padding: 0; } }
+`;
+
+function renderChunks(chunks: readonly DiffChunk[]): string {
+  return chunks
+    .map((chunk) => {
+      const text = escapeHtml(chunk.value);
+      if (chunk.type === "added") return `<ins>${text}</ins>`;
+      if (chunk.type === "removed") return `<del>${text}</del>`;
+      return text;
+    })
+    .join("");
+}
+
+function renderRow(row: ParagraphDiffRow): string {
+  const text =
+    row.kind === "modified" && row.chunks
+      ? renderChunks(row.chunks)
+      : escapeHtml(row.newText ?? row.oldText ?? "");
+  const label =
+    row.moveId !== undefined ? `${ROW_LABELS[row.kind]} ${row.moveId + 1}` : ROW_LABELS[row.kind];
+  return `<div class="row ${row.kind}"><span class="mark">${escapeHtml(label)}</span><p class="text">${text}</p></div>`;
+}
+
+function formatDateTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("ja-JP");
+}
+
+/** Build the HTML document of a 赤字レポート. */
+export function buildRedlineReportHtml(options: RedlineReportOptions): string {
+  const { title, oldLabel, newLabel, rows, stats, generatedAt } = options;
+  const summary = [
+    `追加 ${stats.addedChars.toLocaleString()} 文字`,
+    `削除 ${stats.removedChars.toLocaleString()} 文字`,
+    `修正 ${stats.modifiedParagraphs.toLocaleString()} 段落`,
+    `移動 ${stats.movedParagraphs.toLocaleString()} 段落`,
+  ].join("・");
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`赤字レポート — ${title}`)}</title>
+<style>${REDLINE_STYLESHEET}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<dl>
+<dt>旧版</dt><dd>${escapeHtml(oldLabel)}</dd>
+<dt>新版</dt><dd>${escapeHtml(newLabel)}</dd>
+<dt>作成日時</dt><dd>${escapeHtml(formatDateTime(generatedAt))}</dd>
+</dl>
+<p class="summary">${escapeHtml(summary)}</p>
+</header>
+<main>
+${rows.map(renderRow).join("\n")}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Image export of on-screen SVG drawings (e.g. the 人物関係図).
+ *
+ * The SVG must carry its own colours (attributes or inline styles): CSS
+ * classes and theme variables of the app do not travel with the file.
+ */
+
+/** Region of the drawing to export, in SVG user units. */
+export interface SvgExportBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Serialize an SVG element as a standalone SVG document cropped to `box`.
+ *
+ * @param svg - Element to serialize (it is cloned, not modified)
+ * @param box - Region to export; also the size of the image
+ */
+export function serializeSvg(svg: SVGSVGElement, box: SvgExportBox): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("viewBox", `${box.x} ${box.y} ${box.width} ${box.height}`);
+  clone.setAttribute("width", String(box.width));
+  clone.setAttribute("height", String(box.height));
+  clone.removeAttribute("class");
+  clone.removeAttribute("style");
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+/**
+ * Render SVG markup to a PNG blob.
+ *
+ * @param svgText - Output of {@link serializeSvg}
+ * @param width - Width of the SVG, in CSS pixels
+ * @param height - Height of the SVG, in CSS pixels
+ * @param scale - Pixel ratio of the PNG (2 keeps text sharp on HiDPI screens)
+ */
+export async function svgToPngBlob(
+  svgText: string,
+  width: number,
+  height: number,
+  scale = 2,
+): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svgText], { type: "image/svg+xml" }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("SVG を画像として読み込めませんでした"));
+      img.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(width * scale);
+    canvas.height = Math.ceil(height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available");
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("PNG の生成に失敗しました"))),
+        "image/png",
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -1,9 +1,12 @@
 /**
  * TXT exporter for MDI content
  *
- * Converts MDI markdown to plain text with two modes:
+ * Converts MDI markdown to plain text with three modes:
  * - Plain: strips all MDI/markdown markup, no ruby
  * - With ruby: ruby text placed in fullwidth parentheses（）
+ * - Aozora Bunko: ruby / tcy / headings written in 青空文庫 notation
+ * - Web-novel platforms: ruby etc. in the posting site's notation, optionally
+ *   split per chapter (profiles in `web-novel-profiles.ts`)
  *
  * The actual transformation is owned by the single MDI entry API
  * (`MdiDocument.toExportText`, issue #1449); this module keeps the
@@ -12,6 +15,8 @@
 
 import { MdiDocument } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
 import { fullwidthIndentPrefix } from "./fullwidth-indent";
+import { WEB_NOVEL_PROFILES, splitMdiByChapter } from "./web-novel-profiles";
+import type { WebNovelProfileId } from "./web-novel-profiles";
 
 /** Options controlling literal full-width-space (U+3000) 字下げ for TXT export. */
 export interface TxtIndentOptions {
@@ -21,6 +26,26 @@ export interface TxtIndentOptions {
   indentCount: number;
 }
 
+/** Options for the web-novel platform export. */
+export interface WebNovelExportOptions {
+  profile: WebNovelProfileId;
+  /** When true, emit one text per top-level chapter instead of one text. */
+  splitByChapter: boolean;
+}
+
+/** Options chosen in the TXT export dialog. */
+export interface TxtExportOptions extends TxtIndentOptions {
+  /** Present only for the "web-novel" format. */
+  webNovel?: WebNovelExportOptions;
+}
+
+/** One converted chapter of a chapter-split web-novel export. */
+export interface WebNovelChapterText {
+  /** Heading text, or "" for the text before the first heading. */
+  title: string;
+  text: string;
+}
+
 /**
  * Prepend `count` full-width spaces (U+3000) to each non-empty line.
  * Blank lines are preserved as-is so paragraph spacing is not disturbed.
@@ -90,3 +115,65 @@ export function mdiToRubyText(
     indent,
   );
 }
+
+/**
+ * Convert MDI markdown to Aozora Bunko (青空文庫) notation.
+ * Example: {漢字|かんじ} → ｜漢字《かんじ》
+ *
+ * @param content - Milkdown/ProseMirror serializer output (`.mdi`) or raw
+ *   authored text (non-`.mdi`)
+ * @param fileType - Active document file extension. See {@link mdiToPlainText}.
+ */
+export function mdiToAozoraText(
+  content: string,
+  fileType: string = ".mdi",
+  indent?: TxtIndentOptions,
+): string {
+  return applyFullwidthIndent(buildExportDocument(content, fileType).toAozoraText(), indent);
+}
+
+/**
+ * Convert MDI markdown to a web-novel platform's notation.
+ * Example (なろう / カクヨム): {漢字|かんじ} → ｜漢字《かんじ》
+ *
+ * @param content - Milkdown/ProseMirror serializer output (`.mdi`) or raw
+ *   authored text (non-`.mdi`)
+ * @param profile - Target platform
+ * @param fileType - Active document file extension. See {@link mdiToPlainText}.
+ */
+export function mdiToWebNovelText(
+  content: string,
+  profile: WebNovelProfileId,
+  fileType: string = ".mdi",
+  indent?: TxtIndentOptions,
+): string {
+  const { dialect } = WEB_NOVEL_PROFILES[profile];
+  return applyFullwidthIndent(
+    buildExportDocument(content, fileType).toDialectText(dialect),
+    indent,
+  );
+}
+
+/**
+ * Like {@link mdiToWebNovelText}, but split per top-level chapter (see
+ * `splitMdiByChapter`) so each chapter can be posted as its own episode.
+ * Chapters whose converted text is empty are dropped.
+ */
+export function mdiToWebNovelChapters(
+  content: string,
+  profile: WebNovelProfileId,
+  fileType: string = ".mdi",
+  indent?: TxtIndentOptions,
+): WebNovelChapterText[] {
+  const { dialect } = WEB_NOVEL_PROFILES[profile];
+  const raw = buildExportDocument(content, fileType).toRawText();
+  return splitMdiByChapter(raw)
+    .map((part) => ({
+      title: part.title,
+      text: applyFullwidthIndent(
+        MdiDocument.fromRawText(part.content).toDialectText(dialect),
+        indent,
+      ),
+    }))
+    .filter((chapter) => chapter.text.length > 0);
+}
@@ -2,6 +2,9 @@
  * Shared types for export module
  */
 
+import type { SupportedFileExtension } from "@/lib/project/project-types";
+import type { ManuscriptGridId } from "./manuscript-paper";
+
 export interface ExportMetadata {
   title: string;
   author?: string;
@@ -39,9 +42,31 @@ export interface PdfGenerationOptions {
    * ".mdi"; ".md"/".txt" preserve authored `\[\[blank]]` literals. Absent → ".mdi".
    */
   fileType?: string;
+  /** Page break before headings at or above this level (see `ExportSource`). */
+  chapterBreakLevel?: number;
+  /** 原稿用紙 preset: lay the text out on this grid instead of the typesetting above. */
+  manuscriptGrid?: ManuscriptGridId;
 }
 
-export type ExportFormat = "pdf" | "epub" | "docx" | "txt" | "txt-ruby";
+/**
+ * The document an export dialog hands to its export callbacks: the active tab,
+ * or a whole project compiled by `project-compile.ts`.
+ */
+export interface ExportSource {
+  content: string;
+  metadata: ExportMetadata;
+  fileType: SupportedFileExtension;
+  /**
+   * Parts and chapters are headings at this level or above; exporters start a
+   * new page before each of them. Absent → no forced page breaks.
+   */
+  chapterBreakLevel?: number;
+}
+
+export type ExportFormat = "pdf" | "epub" | "docx" | "txt" | "txt-ruby" | "aozora" | "web-novel";
+
+/** Export formats produced client-side as plain text (see `txt-exporter.ts`). */
+export type TxtExportFormat = Extract<ExportFormat, "txt" | "txt-ruby" | "aozora" | "web-novel">;
 
 export interface Chapter {
   title: string;
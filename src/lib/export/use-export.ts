@@ -1,15 +1,23 @@
 "use client";
 
 import { useCallback, useEffect } from "react";
+import { strToU8, zipSync } from "fflate";
 import { isElectronRenderer } from "@/lib/utils/runtime-env";
 import { notificationManager } from "@/lib/services/notification-manager";
 import { saveBlobFile } from "./save-blob-file";
-import { mdiToPlainText, mdiToRubyText } from "./txt-exporter";
-import type { TxtIndentOptions } from "./txt-exporter";
+import {
+  mdiToAozoraText,
+  mdiToPlainText,
+  mdiToRubyText,
+  mdiToWebNovelChapters,
+  mdiToWebNovelText,
+} from "./txt-exporter";
+import type { TxtExportOptions, WebNovelExportOptions } from "./txt-exporter";
+import { WEB_NOVEL_PROFILES } from "./web-novel-profiles";
 import { openWebPrintPreview } from "./web-print-preview";
 import { loadExportSettings, toPdfExportSettings } from "./export-settings";
 import type { SupportedFileExtension } from "@/lib/project/project-types";
-import type { ExportFormat, ExportMetadata } from "./types";
+import type { ExportFormat, ExportMetadata, TxtExportFormat } from "./types";
 
 interface UseExportParams {
   /** Returns the current editor content as markdown */
@@ -42,14 +50,16 @@ interface UseExportParams {
    * When provided, TXT / TXT(ruby) export first asks the user for 字下げ
    * (full-width-space) options via a dialog. Resolves with the chosen options,
    * or `null` if the user cancelled (export is then aborted). When omitted,
-   * TXT export runs directly with no indentation (legacy behavior).
+   * TXT export runs directly with no indentation (legacy behavior), and the
+   * web-novel export uses the last saved platform settings.
    */
-  onRequestTxtExportOptions?: (format: "txt" | "txt-ruby") => Promise<TxtIndentOptions | null>;
+  onRequestTxtExportOptions?: (format: TxtExportFormat) => Promise<TxtExportOptions | null>;
 }
 
 /**
  * Hook that provides export functionality and registers Electron menu handlers.
- * Handles PDF, EPUB, DOCX, TXT export with progress notifications.
+ * Handles PDF, EPUB, DOCX, TXT (plain / ruby / 青空文庫 / Web小説) export with progress
+ * notifications.
  */
 export function useExport({
   getContent,
@@ -91,14 +101,21 @@ export function useExport({
         docx: "DOCX",
         txt: "テキスト",
         "txt-ruby": "テキスト（ルビ付き）",
+        aozora: "青空文庫形式",
+        "web-novel": "Web小説形式",
       };
       const label = formatLabels[format];
 
       // TXT exports are client-side (no Electron IPC needed)
-      if (format === "txt" || format === "txt-ruby") {
+      if (
+        format === "txt" ||
+        format === "txt-ruby" ||
+        format === "aozora" ||
+        format === "web-novel"
+      ) {
         // Ask the user whether to apply full-width-space 字下げ. A null result
         // means the dialog was cancelled — abort the export silently.
-        let indentOptions: TxtIndentOptions | undefined;
+        let indentOptions: TxtExportOptions | undefined;
         if (onRequestTxtExportOptions) {
           const chosen = await onRequestTxtExportOptions(format);
           if (chosen === null) return;
@@ -110,13 +127,46 @@ export function useExport({
         });
 
         try {
-          const converted =
-            format === "txt"
-              ? mdiToPlainText(content, fileType, indentOptions)
-              : mdiToRubyText(content, fileType, indentOptions);
-
           const baseName = title.replace(/\.(mdi|md|txt)$/i, "");
-          const suffix = format === "txt-ruby" ? "_ruby" : "";
+
+          if (format === "web-novel") {
+            const webNovel: WebNovelExportOptions = indentOptions?.webNovel ?? {
+              profile: (await loadExportSettings()).txtWebNovelProfile,
+              splitByChapter: false,
+            };
+            const { blob, suggestedName } = buildWebNovelExport(
+              content,
+              fileType,
+              baseName,
+              webNovel,
+              indentOptions,
+            );
+            const saved = await saveBlobFile(
+              blob,
+              suggestedName,
+              isElectron,
+              webNovel.splitByChapter ? ".zip" : ".txt",
+            );
+            notificationManager.dismiss(progressId);
+            if (saved) {
+              notificationManager.success(`${label}をエクスポートしました`);
+            }
+            return;
+          }
+
+          const converters = {
+            txt: mdiToPlainText,
+            "txt-ruby": mdiToRubyText,
+            aozora: mdiToAozoraText,
+          } as const;
+          const converted = converters[format](content, fileType, indentOptions);
+
+          const suffixes: Record<Exclude<TxtExportFormat, "web-novel">, string> = {
+            txt: "",
+            "txt-ruby": "_ruby",
+            aozora: "_aozora",
+          };
+          const suffix = suffixes[format];
           const suggestedName = `${baseName}${suffix}.txt`;
 
           const blob = new Blob([converted], { type: "text/plain;charset=utf-8" });
@@ -230,6 +280,12 @@ export function useExport({
     if (window.electronAPI.onMenuExportTxtRuby) {
       cleanups.push(window.electronAPI.onMenuExportTxtRuby(() => void exportAs("txt-ruby")));
     }
+    if (window.electronAPI.onMenuExportAozora) {
+      cleanups.push(window.electronAPI.onMenuExportAozora(() => void exportAs("aozora")));
+    }
+    if (window.electronAPI.onMenuExportWebNovel) {
+      cleanups.push(window.electronAPI.onMenuExportWebNovel(() => void exportAs("web-novel")));
+    }
     if (window.electronAPI.onMenuExportPDF) {
       cleanups.push(window.electronAPI.onMenuExportPDF(() => void exportAs("pdf")));
     }
@@ -253,6 +309,46 @@ export function useExport({
   return { exportAs, printDocument };
 }
 
+/**
+ * Build the web-novel export payload: a single `.txt`, or — when splitting per
+ * chapter — a `.zip` holding one numbered `.txt` per chapter so each can be
+ * pasted as its own episode.
+ */
+function buildWebNovelExport(
+  content: string,
+  fileType: string,
+  baseName: string,
+  options: WebNovelExportOptions,
+  indent?: TxtExportOptions,
+): { blob: Blob; suggestedName: string } {
+  const { fileSuffix } = WEB_NOVEL_PROFILES[options.profile];
+  if (!options.splitByChapter) {
+    const text = mdiToWebNovelText(content, options.profile, fileType, indent);
+    return {
+      blob: new Blob([text], { type: "text/plain;charset=utf-8" }),
+      suggestedName: `${baseName}_${fileSuffix}.txt`,
+    };
+  }
+
+  const chapters = mdiToWebNovelChapters(content, options.profile, fileType, indent);
+  const width = Math.max(2, String(chapters.length).length);
+  const files: Record<string, Uint8Array> = {};
+  chapters.forEach((chapter, i) => {
+    const number = String(i + 1).padStart(width, "0");
+    // Strip characters that are invalid in file names on Windows / macOS.
+    const safeTitle = chapter.title.replace(/[\\/:*?"<>|]/g, "_").trim();
+    files[safeTitle ? `${number}_${safeTitle}.txt` : `${number}.txt`] = strToU8(chapter.text);
+  });
+  const zipped = zipSync(files);
+  // Copy into a plain ArrayBuffer to satisfy Blob constructor type constraints.
+  const arrayBuffer = new ArrayBuffer(zipped.byteLength);
+  new Uint8Array(arrayBuffer).set(zipped);
+  return {
+    blob: new Blob([arrayBuffer], { type: "application/zip" }),
+    suggestedName: `${baseName}_${fileSuffix}.zip`,
+  };
+}
+
 /**
  * Browser-side export for PDF, EPUB, DOCX.
  *
@@ -0,0 +1,116 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { getCompileManifestService } from "@/lib/services/compile-manifest-service";
+import { compileProject, syncCompileManifest } from "./project-compile";
+import type { CompileManifestFile } from "@/lib/project/project-types";
+import type { ExportSource } from "./types";
+
+interface CompiledState {
+  manifest: CompileManifestFile;
+  source: ExportSource;
+}
+
+/**
+ * Loads the project's compile manifest (synced with the files on disk) and
+ * keeps the compiled document up to date with every edit. Edits are saved to
+ * .illusions/compile.json right away.
+ *
+ * @param enabled - False until the "プロジェクト全体" scope is chosen
+ * @param title - Default book title for a project without a manifest
+ * @param author - Default author for a project without a manifest
+ * @param unsavedContents - Live text of open tabs with unsaved edits, keyed by
+ *   project-relative path; used in place of the file on disk
+ */
+export function useProjectCompile(
+  enabled: boolean,
+  title: string,
+  author: string,
+  unsavedContents: ReadonlyMap<string, string>,
+): {
+  manifest: CompileManifestFile | null;
+  /** The compiled document for the current manifest; null while compiling */
+  source: ExportSource | null;
+  /** Included files whose unsaved tab content goes into the compiled document */
+  unsavedPaths: string[];
+  error: string | null;
+  update: (next: CompileManifestFile) => void;
+} {
+  const [manifest, setManifest] = useState<CompileManifestFile | null>(null);
+  const [compiled, setCompiled] = useState<CompiledState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  /** Manuscript text read so far; files are read once per dialog session. */
+  const contentsRef = useRef(new Map<string, string>());
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    const service = getCompileManifestService();
+    void Promise.all([service.load(), service.listManuscriptPaths()])
+      .then(([saved, paths]) => {
+        if (cancelled) return;
+        setManifest(syncCompileManifest(saved, paths, { title, author, titlePage: false }));
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        console.error("[useProjectCompile] Failed to load compile manifest:", err);
+        setError(err instanceof Error ? err.message : "書き出し設定を読み込めませんでした");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, title, author]);
+
+  useEffect(() => {
+    if (!manifest) return;
+    let cancelled = false;
+    const contents = contentsRef.current;
+    const unread = manifest.items.flatMap((item) =>
+      item.type === "file" && item.include && !contents.has(item.path) ? [item.path] : [],
+    );
+    void getCompileManifestService()
+      .readManuscripts(unread)
+      .then((read) => {
+        read.forEach((text, path) => contents.set(path, text));
+        if (cancelled) return;
+        const merged = new Map(contents);
+        unsavedContents.forEach((text, path) => merged.set(path, text));
+        setCompiled({ manifest, source: compileProject(manifest, merged) });
+        setError(null);
+      })
+      .catch((err: unknown) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "原稿を読み込めませんでした");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest, unsavedContents]);
+
+  const update = useCallback((next: CompileManifestFile) => {
+    setManifest(next);
+    void getCompileManifestService()
+      .save(next)
+      .catch((err: unknown) => {
+        console.error("[useProjectCompile] Failed to save compile manifest:", err);
+        setError("書き出し設定を保存できませんでした");
+      });
+  }, []);
+
+  const unsavedPaths = useMemo(
+    () =>
+      manifest?.items.flatMap((item) =>
+        item.type === "file" && item.include && unsavedContents.has(item.path) ? [item.path] : [],
+      ) ?? [],
+    [manifest, unsavedContents],
+  );
+
+  return {
+    manifest,
+    source: compiled && compiled.manifest === manifest ? compiled.source : null,
+    unsavedPaths,
+    error,
+    update,
+  };
+}
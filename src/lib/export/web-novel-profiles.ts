@@ -0,0 +1,143 @@
+/**
+ * Web-novel platform profiles for plain-text export
+ *
+ * Each platform (小説家になろう / カクヨム / pixiv) has its own ruby notation
+ * and its own set of characters that are misread as markup when pasted into
+ * the posting form. A profile bundles the MDI → platform dialect
+ * (`MdiTextDialect`) with the metadata the export UI needs.
+ *
+ * Notation references:
+ * - なろう:   ｜漢字《かんじ》, 漢字(かな) is auto-ruby, ｜《 prints 《 literally
+ * - カクヨム: ｜漢字《かんじ》, 《《傍点》》, ｜《 prints 《 literally
+ * - pixiv:    [[rb:漢字 > かんじ]], [chapter:見出し], [newpage]
+ *
+ * Only カクヨム has a native 傍点 notation; on the other sites the usual
+ * workaround is a per-character ruby of ・, which is what we emit there.
+ */
+
+import type { MdiTextDialect } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
+import { parseMarkdownChapters } from "@/lib/utils";
+
+export type WebNovelProfileId = "narou" | "kakuyomu" | "pixiv";
+
+export interface WebNovelProfile {
+  id: WebNovelProfileId;
+  /** Platform name shown in the export dialog. */
+  label: string;
+  /** File-name suffix (`<title>_<suffix>.txt`). */
+  fileSuffix: string;
+  dialect: MdiTextDialect;
+}
+
+/** Explicit ruby shared by なろう and カクヨム: ｜base《ruby》 */
+function pipeRuby(base: string, ruby: string): string {
+  return `｜${base}《${ruby}》`;
+}
+
+/** 傍点 emulated as one ・ ruby per character (surrogate-pair safe). */
+function perCharacterDotRuby(
+  ruby: (base: string, text: string) => string,
+): (text: string) => string {
+  return (text: string): string => [...text].map((char) => ruby(char, "・")).join("");
+}
+
+/** A literal 《 would open ruby on both sites; a preceding ｜ prints it as-is. */
+function escapeDoubleAngleBracket(text: string): string {
+  return text.replace(/《/g, "｜《");
+}
+
+/**
+ * なろう turns `漢字(かな)` / `漢字（かな）` into ruby. A ｜ placed before the
+ * opening parenthesis suppresses the conversion.
+ */
+const NAROU_PAREN_RUBY_RE =
+  /([々\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF])([(（][\u3041-\u3096\u30A1-\u30FAー・]{1,10}[)）])/g;
+
+function pixivRuby(base: string, ruby: string): string {
+  return `[[rb:${base} > ${ruby}]]`;
+}
+
+/** pixiv tags that a literal `[` would start when followed by this text. */
+const PIXIV_TAG_RE = /\[(?=newpage\]|chapter:|pixivimage:|jump:|\[(?:rb|jumpuri):)/g;
+
+export const WEB_NOVEL_PROFILES: Readonly<Record<WebNovelProfileId, WebNovelProfile>> = {
+  narou: {
+    id: "narou",
+    label: "小説家になろう",
+    fileSuffix: "narou",
+    dialect: {
+      ruby: pipeRuby,
+      bouten: perCharacterDotRuby(pipeRuby),
+      escape: (text) => escapeDoubleAngleBracket(text).replace(NAROU_PAREN_RUBY_RE, "$1｜$2"),
+    },
+  },
+  kakuyomu: {
+    id: "kakuyomu",
+    label: "カクヨム",
+    fileSuffix: "kakuyomu",
+    dialect: {
+      ruby: pipeRuby,
+      bouten: (text) => `《《${text}》》`,
+      escape: escapeDoubleAngleBracket,
+    },
+  },
+  pixiv: {
+    id: "pixiv",
+    label: "pixiv",
+    fileSuffix: "pixiv",
+    dialect: {
+      ruby: pixivRuby,
+      bouten: perCharacterDotRuby(pixivRuby),
+      heading: (title) => `[chapter:${title}]`,
+      sceneBreak: "[newpage]",
+      // pixiv has no escape syntax; a full-width bracket keeps the text readable.
+      escape: (text) => text.replace(PIXIV_TAG_RE, "［"),
+    },
+  },
+};
+
+/** Display order for the export dialog. */
+export const WEB_NOVEL_PROFILE_IDS: readonly WebNovelProfileId[] = ["narou", "kakuyomu", "pixiv"];
+
+export function isWebNovelProfileId(value: unknown): value is WebNovelProfileId {
+  return typeof value === "string" && (WEB_NOVEL_PROFILE_IDS as readonly string[]).includes(value);
+}
+
+/** One posting unit of a chapter-split export. */
+export interface MdiChapterPart {
+  /** Heading text, or "" for the text before the first heading. */
+  title: string;
+  /** MDI source of the part, without its own heading line. */
+  content: string;
+}
+
+/**
+ * Split MDI source into one part per chapter, using the same headings the
+ * outline panel shows (`parseMarkdownChapters`, as in `useChapters`).
+ *
+ * Only the top-most heading level present splits; deeper headings stay inside
+ * their chapter. The splitting heading itself is dropped from the body since
+ * the platforms take the episode title in a separate field. Text before the
+ * first heading becomes an untitled part when it is not blank.
+ */
+export function splitMdiByChapter(content: string): MdiChapterPart[] {
+  const chapters = parseMarkdownChapters(content);
+  if (chapters.length === 0) return [{ title: "", content }];
+
+  const topLevel = Math.min(...chapters.map((ch) => ch.level));
+  const splitters = chapters.filter((ch) => ch.level === topLevel);
+  const lines = content.split("\n");
+  const parts: MdiChapterPart[] = [];
+
+  const preamble = lines.slice(0, splitters[0].lineNumber).join("\n");
+  if (preamble.trim()) parts.push({ title: "", content: preamble });
+
+  splitters.forEach((chapter, i) => {
+    const end = i + 1 < splitters.length ? splitters[i + 1].lineNumber : lines.length;
+    parts.push({
+      title: chapter.title,
+      content: lines.slice(chapter.lineNumber + 1, end).join("\n"),
+    });
+  });
+  return parts;
+}
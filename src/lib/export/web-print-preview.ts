@@ -1,6 +1,7 @@
 import { mdiToHtml } from "./mdi-to-html";
 import { calculateTypesetting } from "./pdf-export-settings";
 import { fullwidthIndentCount } from "./fullwidth-indent";
+import { manuscriptPaperToHtml } from "./manuscript-paper";
 
 import type { ExportMetadata } from "./types";
 import type { PdfExportSettings } from "./pdf-export-settings";
@@ -23,6 +24,7 @@ export async function openWebPrintPreview(
   metadata: ExportMetadata,
   settings: PdfExportSettings,
   fileType?: string,
+  chapterBreakLevel?: number,
 ): Promise<boolean> {
   // MUST be the first statement — synchronous, within user gesture
   const printWindow = window.open("", "_blank");
@@ -46,30 +48,44 @@ export async function openWebPrintPreview(
     const fullwidthSpaceCount = settings.fullwidthSpaceIndent
       ? fullwidthIndentCount(settings.textIndent)
       : 0;
-    const html = mdiToHtml(content, {
-      metadata,
-      verticalWriting: settings.verticalWriting,
-      typesetting: {
-        fontFamily: settings.fontFamily, // Already a CSS string — no reverse lookup
-        fontSizeMm,
-        lineHeightRatio,
-        textIndentEm: settings.fullwidthSpaceIndent ? 0 : settings.textIndent,
-        margins: settings.margins,
-        pageSize: settings.pageSize,
-        landscape: settings.landscape,
-      },
-      fileType,
-      fullwidthSpaceIndentCount: fullwidthSpaceCount,
-      // Embed page numbers via CSS @page margin boxes so browser print also
-      // renders page numbers consistently with Electron print.
-      pageNumbers: settings.showPageNumbers
-        ? {
-            show: true,
-            format: settings.pageNumberFormat,
-            position: settings.pageNumberPosition,
-          }
-        : undefined,
-    });
+    // Embed page numbers via CSS @page margin boxes so browser print also
+    // renders page numbers consistently with Electron print.
+    const pageNumbers = settings.showPageNumbers
+      ? {
+          show: true,
+          format: settings.pageNumberFormat,
+          position: settings.pageNumberPosition,
+        }
+      : undefined;
+    const html = settings.manuscriptGrid
+      ? manuscriptPaperToHtml(content, {
+          metadata,
+          grid: settings.manuscriptGrid,
+          verticalWriting: settings.verticalWriting,
+          pageSize: settings.pageSize,
+          landscape: settings.landscape,
+          margins: settings.margins,
+          fontFamily: settings.fontFamily,
+          fileType,
+          pageNumbers,
+        })
+      : mdiToHtml(content, {
+          metadata,
+          verticalWriting: settings.verticalWriting,
+          typesetting: {
+            fontFamily: settings.fontFamily, // Already a CSS string — no reverse lookup
+            fontSizeMm,
+            lineHeightRatio,
+            textIndentEm: settings.fullwidthSpaceIndent ? 0 : settings.textIndent,
+            margins: settings.margins,
+            pageSize: settings.pageSize,
+            landscape: settings.landscape,
+            chapterBreakLevel,
+          },
+          fileType,
+          fullwidthSpaceIndentCount: fullwidthSpaceCount,
+          pageNumbers,
+        });
 
     printWindow.document.open();
     printWindow.document.write(html);
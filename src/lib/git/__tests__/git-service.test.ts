@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildDecorationMap,
+  collectChangedDirectories,
+  countStaged,
+  describeStatusEntry,
+  gitFailureMessage,
+  listUnstagedPaths,
+} from "../git-service";
+
+import type { GitStatusEntry } from "../git-service";
+
+const entries: GitStatusEntry[] = [
+  { path: "本文.mdi", index: " ", worktree: "M" },
+  { path: "章/第一話.mdi", index: "M", worktree: "M" },
+  { path: "章/下書き/メモ.txt", index: "?", worktree: "?" },
+  { path: "新.mdi", origPath: "旧.mdi", index: "R", worktree: " " },
+  { path: "衝突.mdi", index: "U", worktree: "U" },
+];
+
+describe("describeStatusEntry", () => {
+  it("classifies porcelain status letters", () => {
+    expect(describeStatusEntry({ path: "a", index: " ", worktree: "M" })).toEqual({
+      state: "modified",
+      letter: "M",
+      label: "変更あり",
+      staged: false,
+      unstaged: true,
+    });
+    expect(describeStatusEntry({ path: "a", index: "A", worktree: " " })).toMatchObject({
+      state: "added",
+      staged: true,
+      unstaged: false,
+    });
+    expect(describeStatusEntry({ path: "a", index: " ", worktree: "D" }).state).toBe("deleted");
+    expect(describeStatusEntry({ path: "a", index: "?", worktree: "?" })).toMatchObject({
+      state: "untracked",
+      letter: "U",
+      staged: false,
+      unstaged: true,
+    });
+  });
+
+  it("treats unmerged pairs as conflicts", () => {
+    expect(describeStatusEntry({ path: "a", index: "U", worktree: "U" }).state).toBe("conflict");
+    expect(describeStatusEntry({ path: "a", index: "A", worktree: "A" }).state).toBe("conflict");
+    expect(describeStatusEntry({ path: "a", index: "D", worktree: "D" }).state).toBe("conflict");
+  });
+});
+
+describe("status summaries", () => {
+  it("keys decorations by path", () => {
+    const map = buildDecorationMap(entries);
+    expect(map.get("新.mdi")?.state).toBe("renamed");
+    expect(map.get("章/第一話.mdi")).toMatchObject({ staged: true, unstaged: true });
+    expect(map.has("旧.mdi")).toBe(false);
+  });
+
+  it("collects every ancestor folder of a changed file", () => {
+    expect([...collectChangedDirectories(entries)].sort()).toEqual(["章", "章/下書き"]);
+  });
+
+  it("counts staged entries and lists unstaged paths", () => {
+    expect(countStaged(entries)).toBe(3);
+    expect(listUnstagedPaths(entries)).toEqual([
+      "本文.mdi",
+      "章/第一話.mdi",
+      "章/下書き/メモ.txt",
+      "衝突.mdi",
+    ]);
+  });
+});
+
+describe("gitFailureMessage", () => {
+  it("uses fixed wording for setup problems and git's output otherwise", () => {
+    expect(gitFailureMessage({ ok: false, reason: "not-repo", message: "x" })).toBe(
+      "このプロジェクトは git リポジトリではありません",
+    );
+    expect(gitFailureMessage({ ok: false, reason: "failed", message: "fatal: boom" })).toBe(
+      "fatal: boom",
+    );
+    expect(gitFailureMessage({ ok: false, reason: "failed", message: "" })).toBe(
+      "git の操作に失敗しました",
+    );
+  });
+});
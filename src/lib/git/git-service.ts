@@ -0,0 +1,143 @@
+/**
+ * Renderer side of the git integration: access to the preload bridge and the
+ * pure helpers that turn `git status` entries into Explorer decorations.
+ *
+ * Git runs only in the desktop app; getGitApi() returns null in the browser,
+ * and every bridge call resolves with `ok: false` when git is not installed or
+ * the project folder is not a repository.
+ *
+ * プロジェクトフォルダの git 連携（状態表示・ステージ・コミット・履歴）。
+ */
+
+import type { GitFailure, GitStatusEntry } from "./git-types";
+
+export type {
+  GitCommitInfo,
+  GitFailure,
+  GitFailureReason,
+  GitFileAtRevision,
+  GitResult,
+  GitStatus,
+  GitStatusEntry,
+} from "./git-types";
+
+export type GitApi = NonNullable<ElectronAPI["git"]>;
+
+/** The git bridge, or null outside the desktop app. */
+export function getGitApi(): GitApi | null {
+  if (typeof window === "undefined") return null;
+  return window.electronAPI?.git ?? null;
+}
+
+/** Explorer-facing state of a changed file. */
+export type GitFileState = "modified" | "added" | "deleted" | "renamed" | "untracked" | "conflict";
+
+export interface GitFileDecoration {
+  state: GitFileState;
+  /** Badge letter shown next to the file name */
+  letter: string;
+  /** Japanese description for tooltips */
+  label: string;
+  /** Has changes in the index (will be part of the next commit) */
+  staged: boolean;
+  /** Has changes not yet staged (including untracked files) */
+  unstaged: boolean;
+}
+
+const STATE_BADGES: Record<GitFileState, { letter: string; label: string }> = {
+  modified: { letter: "M", label: "変更あり" },
+  added: { letter: "A", label: "追加" },
+  deleted: { letter: "D", label: "削除" },
+  renamed: { letter: "R", label: "名前変更" },
+  untracked: { letter: "U", label: "未追跡" },
+  conflict: { letter: "C", label: "競合" },
+};
+
+function isConflict({ index, worktree }: GitStatusEntry): boolean {
+  return (
+    index === "U" ||
+    worktree === "U" ||
+    (index === "A" && worktree === "A") ||
+    (index === "D" && worktree === "D")
+  );
+}
+
+function classify(entry: GitStatusEntry): GitFileState {
+  if (isConflict(entry)) return "conflict";
+  if (entry.index === "?") return "untracked";
+  if (entry.index === "R" || entry.index === "C") return "renamed";
+  if (entry.index === "A") return "added";
+  if (entry.index === "D" || entry.worktree === "D") return "deleted";
+  return "modified";
+}
+
+/** Decoration for one `git status` entry. */
+export function describeStatusEntry(entry: GitStatusEntry): GitFileDecoration {
+  const state = classify(entry);
+  const untracked = state === "untracked";
+  return {
+    state,
+    ...STATE_BADGES[state],
+    staged: !untracked && entry.index !== " ",
+    unstaged: untracked || entry.worktree !== " ",
+  };
+}
+
+/** Decorations keyed by project-relative path. */
+export function buildDecorationMap(
+  entries: readonly GitStatusEntry[],
+): Map<string, GitFileDecoration> {
+  return new Map(entries.map((entry) => [entry.path, describeStatusEntry(entry)]));
+}
+
+/**
+ * Project-relative folders ("" for the project root excluded) that contain at
+ * least one changed file, so collapsed folders can show a change marker.
+ */
+export function collectChangedDirectories(entries: readonly GitStatusEntry[]): Set<string> {
+  const dirs = new Set<string>();
+  for (const entry of entries) {
+    const segments = entry.path.split("/");
+    for (let i = 1; i < segments.length; i++) {
+      dirs.add(segments.slice(0, i).join("/"));
+    }
+  }
+  return dirs;
+}
+
+/** Number of entries that would go into the next commit. */
+export function countStaged(entries: readonly GitStatusEntry[]): number {
+  return entries.filter((entry) => describeStatusEntry(entry).staged).length;
+}
+
+/** Paths with changes not yet staged. */
+export function listUnstagedPaths(entries: readonly GitStatusEntry[]): string[] {
+  return entries.filter((entry) => describeStatusEntry(entry).unstaged).map((entry) => entry.path);
+}
+
+/** User-facing message for a failed git request. */
+export function gitFailureMessage(failure: GitFailure): string {
+  switch (failure.reason) {
+    case "git-missing":
+      return failure.message || "git が見つかりません。git をインストールしてください。";
+    case "not-repo":
+      return "このプロジェクトは git リポジトリではありません";
+    case "no-root":
+      return "プロジェクトが開かれていません";
+    default:
+      return failure.message || "git の操作に失敗しました";
+  }
+}
+
+/** Commit date for lists, e.g. "2026/10/19 14:05". */
+export function formatCommitDate(isoDate: string): string {
+  const date = new Date(isoDate);
+  if (Number.isNaN(date.getTime())) return isoDate;
+  return date.toLocaleString("ja-JP", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,61 @@
+/**
+ * Git versioning types shared by the preload bridge (types/electron.d.ts)
+ * and the renderer git service. Paths are relative to the project folder.
+ */
+
+/** Why a git request could not be answered. */
+export type GitFailureReason =
+  /** git is not installed, or unavailable in this build */
+  | "git-missing"
+  /** The project folder is not inside a git work tree */
+  | "not-repo"
+  /** No project folder is open in this window */
+  | "no-root"
+  /** The file does not exist at the requested revision */
+  | "not-in-revision"
+  /** A path, revision or message was rejected before running git */
+  | "invalid-argument"
+  /** git ran and failed; the message is git's own output */
+  | "failed";
+
+export interface GitFailure {
+  ok: false;
+  reason: GitFailureReason;
+  message: string;
+}
+
+export type GitResult<T extends object = object> = ({ ok: true } & T) | GitFailure;
+
+/**
+ * One changed path, as in `git status --porcelain`.
+ * `index` / `worktree` are the X / Y status letters (" " = unchanged, "?" = untracked).
+ */
+export interface GitStatusEntry {
+  path: string;
+  /** Source path of a staged rename or copy */
+  origPath?: string;
+  index: string;
+  worktree: string;
+}
+
+export interface GitStatus {
+  /** Current branch, or null when HEAD is detached */
+  branch: string | null;
+  /** False until the first commit */
+  hasHead: boolean;
+  entries: GitStatusEntry[];
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  /** Author date, ISO 8601 */
+  date: string;
+  subject: string;
+}
+
+export interface GitFileAtRevision {
+  content: string;
+  commit: GitCommitInfo | null;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { executeCommand, hasCommandHandler, registerCommandHandlers } from "../command-bus";
+
+describe("command bus", () => {
+  it("runs a registered handler and reports missing ones", () => {
+    const save = vi.fn();
+    const unregister = registerCommandHandlers({ "file.save": save }, "primary");
+
+    expect(executeCommand("file.save")).toBe(true);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(executeCommand("format.ruby")).toBe(false);
+
+    unregister();
+    expect(hasCommandHandler("file.save")).toBe(false);
+  });
+
+  it("prefers primary handlers over fallbacks", () => {
+    const primary = vi.fn();
+    const fallback = vi.fn();
+    const unregisterFallback = registerCommandHandlers({ "edit.undo": fallback }, "fallback");
+    expect(executeCommand("edit.undo")).toBe(true);
+    expect(fallback).toHaveBeenCalledTimes(1);
+
+    const unregisterPrimary = registerCommandHandlers({ "edit.undo": primary }, "primary");
+    executeCommand("edit.undo");
+    expect(primary).toHaveBeenCalledTimes(1);
+    expect(fallback).toHaveBeenCalledTimes(1);
+
+    unregisterPrimary();
+    unregisterFallback();
+  });
+
+  it("uses the most recent registration when several provide a command", () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const unregisterFirst = registerCommandHandlers({ "nav.search": first }, "primary");
+    const unregisterSecond = registerCommandHandlers({ "nav.search": second }, "primary");
+
+    executeCommand("nav.search");
+    expect(second).toHaveBeenCalledTimes(1);
+
+    unregisterSecond();
+    executeCommand("nav.search");
+    expect(first).toHaveBeenCalledTimes(1);
+    unregisterFirst();
+  });
+});
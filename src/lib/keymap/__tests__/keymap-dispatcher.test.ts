@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { registerCommandHandlers } from "../command-bus";
+import {
+  attachKeymapDispatcher,
+  getPendingChord,
+  resolveStroke,
+  subscribePendingChord,
+} from "../keymap-dispatcher";
+
+import type { CommandId } from "../command-ids";
+import type { KeyBinding } from "../keymap-types";
+
+const BINDINGS: Partial<Record<CommandId, KeyBinding | null>> = {
+  "file.save": { modifiers: ["Ctrl"], key: "s" },
+  "format.ruby": { modifiers: ["Ctrl"], key: "k", chord: [{ modifiers: ["Ctrl"], key: "r" }] },
+  "format.tcy": { modifiers: ["Ctrl"], key: "k" },
+  "view.compactMode": { modifiers: ["Ctrl"], key: "k", chord: [{ modifiers: [], key: "z" }] },
+};
+
+function key(key: string, ctrlKey = false): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key, ctrlKey, bubbles: true, cancelable: true });
+}
+
+const always = (): boolean => true;
+
+describe("resolveStroke", () => {
+  it("runs single-stroke bindings and lets other keys through", () => {
+    expect(resolveStroke([], key("s", true), BINDINGS, always)).toEqual({
+      type: "command",
+      id: "file.save",
+    });
+    expect(resolveStroke([], key("q", true), BINDINGS, always)).toEqual({ type: "none" });
+  });
+
+  it("prefers starting a chord over a single-stroke binding on the same key", () => {
+    const first = resolveStroke([], key("k", true), BINDINGS, always);
+    expect(first).toEqual({ type: "pending", strokes: [{ modifiers: ["Ctrl"], key: "k" }] });
+    if (first.type !== "pending") return;
+
+    expect(resolveStroke(first.strokes, key("r", true), BINDINGS, always)).toEqual({
+      type: "command",
+      id: "format.ruby",
+    });
+    expect(resolveStroke(first.strokes, key("z"), BINDINGS, always)).toEqual({
+      type: "command",
+      id: "view.compactMode",
+    });
+    expect(resolveStroke(first.strokes, key("x"), BINDINGS, always)).toEqual({
+      type: "cancelled",
+    });
+    expect(resolveStroke(first.strokes, key("Control", true), BINDINGS, always)).toEqual({
+      type: "none",
+    });
+  });
+
+  it("falls back to the single-stroke binding when no chord is available", () => {
+    const onlyTcy = (id: CommandId): boolean => id === "format.tcy";
+    expect(resolveStroke([], key("k", true), BINDINGS, onlyTcy)).toEqual({
+      type: "command",
+      id: "format.tcy",
+    });
+  });
+});
+
+describe("attachKeymapDispatcher", () => {
+  const cleanups: Array<() => void> = [];
+  afterEach(() => {
+    while (cleanups.length > 0) cleanups.pop()?.();
+  });
+
+  it("runs a chord through fallback handlers and publishes the pending strokes", () => {
+    const ruby = vi.fn();
+    const editorKeydown = vi.fn();
+    const pendingChanges = vi.fn();
+    cleanups.push(registerCommandHandlers({ "format.ruby": ruby }, "fallback"));
+    cleanups.push(attachKeymapDispatcher(BINDINGS));
+    cleanups.push(subscribePendingChord(pendingChanges));
+    document.body.addEventListener("keydown", editorKeydown);
+    cleanups.push(() => document.body.removeEventListener("keydown", editorKeydown));
+
+    const first = key("k", true);
+    document.body.dispatchEvent(first);
+    expect(first.defaultPrevented).toBe(true);
+    expect(getPendingChord()).toHaveLength(1);
+
+    document.body.dispatchEvent(key("r", true));
+    expect(ruby).toHaveBeenCalledTimes(1);
+    expect(getPendingChord()).toHaveLength(0);
+    expect(pendingChanges).toHaveBeenCalledTimes(2);
+    // The follow-up stroke never reached the focused element
+    expect(editorKeydown).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not run fallbacks for single-stroke bindings", () => {
+    const save = vi.fn();
+    cleanups.push(registerCommandHandlers({ "file.save": save }, "fallback"));
+    cleanups.push(attachKeymapDispatcher(BINDINGS));
+
+    const event = key("s", true);
+    window.dispatchEvent(event);
+    expect(save).not.toHaveBeenCalled();
+    expect(event.defaultPrevented).toBe(false);
+
+    cleanups.push(registerCommandHandlers({ "file.save": save }, "primary"));
+    window.dispatchEvent(key("s", true));
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a pending chord on Escape without running anything", () => {
+    const tcy = vi.fn();
+    const ruby = vi.fn();
+    cleanups.push(registerCommandHandlers({ "format.tcy": tcy, "format.ruby": ruby }, "primary"));
+    cleanups.push(attachKeymapDispatcher(BINDINGS));
+
+    window.dispatchEvent(key("k", true));
+    expect(getPendingChord()).toHaveLength(1);
+    const escape = key("Escape");
+    window.dispatchEvent(escape);
+    expect(escape.defaultPrevented).toBe(true);
+    expect(getPendingChord()).toHaveLength(0);
+    expect(tcy).not.toHaveBeenCalled();
+    expect(ruby).not.toHaveBeenCalled();
+  });
+});
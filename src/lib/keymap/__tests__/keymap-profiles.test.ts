@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  BUILTIN_KEYMAP_PROFILES,
+  KEYMAP_PROFILE_FORMAT,
+  parseKeymapProfile,
+  serializeKeymapProfile,
+} from "../keymap-profiles";
+import { SHORTCUT_REGISTRY } from "../shortcut-registry";
+import { findBindingConflicts, isReservedBinding } from "../keymap-utils";
+
+import type { CommandId } from "../command-ids";
+import type { KeyBinding, KeymapProfile } from "../keymap-types";
+
+function defaultBindings(): Record<CommandId, KeyBinding | null> {
+  const result = {} as Record<CommandId, KeyBinding | null>;
+  for (const entry of Object.values(SHORTCUT_REGISTRY)) result[entry.id] = entry.defaultBinding;
+  return result;
+}
+
+describe("built-in keymap profiles", () => {
+  it.each(BUILTIN_KEYMAP_PROFILES.map((p) => [p.name, p] as const))(
+    "%s adds no conflicts or reserved keys",
+    (_name, profile) => {
+      const before = new Set(findBindingConflicts(defaultBindings()).keys());
+      const merged = { ...defaultBindings(), ...profile.overrides };
+      const added = [...findBindingConflicts(merged).keys()].filter((id) => !before.has(id));
+      expect(added).toEqual([]);
+      for (const binding of Object.values(profile.overrides)) {
+        if (binding) expect(isReservedBinding(binding)).toBe(false);
+      }
+    },
+  );
+});
+
+describe("keymap profile files", () => {
+  const profile: KeymapProfile = {
+    id: "x",
+    name: "自作",
+    description: "テスト用",
+    overrides: {
+      "file.save": { modifiers: ["Ctrl"], key: "x", chord: [{ modifiers: ["Ctrl"], key: "s" }] },
+      "file.print": null,
+    },
+  };
+
+  it("round-trips through JSON", () => {
+    const json = JSON.parse(serializeKeymapProfile(profile)) as Record<string, unknown>;
+    expect(json.format).toBe(KEYMAP_PROFILE_FORMAT);
+    expect(parseKeymapProfile(json, "new-id")).toEqual({ ...profile, id: "new-id" });
+  });
+
+  it("skips unknown commands and rejects malformed bindings", () => {
+    const base = JSON.parse(serializeKeymapProfile(profile)) as { bindings: object };
+    const withUnknown = { ...base, bindings: { ...base.bindings, "future.command": null } };
+    expect(parseKeymapProfile(withUnknown, "a")?.overrides).toEqual(profile.overrides);
+
+    const badModifier = {
+      ...base,
+      bindings: { "file.save": { modifiers: ["Hyper"], key: "s" } },
+    };
+    expect(parseKeymapProfile(badModifier, "a")).toBe(null);
+
+    const tooLong = {
+      ...base,
+      bindings: {
+        "file.save": {
+          modifiers: ["Ctrl"],
+          key: "x",
+          chord: [
+            { modifiers: [], key: "a" },
+            { modifiers: [], key: "b" },
+            { modifiers: [], key: "c" },
+          ],
+        },
+      },
+    };
+    expect(parseKeymapProfile(tooLong, "a")).toBe(null);
+    expect(parseKeymapProfile({ ...base, format: "other" }, "a")).toBe(null);
+  });
+});
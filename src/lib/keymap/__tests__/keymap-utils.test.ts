@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  bindingsMatch,
+  bindingsOverlap,
+  findBindingConflicts,
+  formatBinding,
+  isReservedBinding,
+  matchesEvent,
+  toElectronAccelerator,
+  toWebMenuAccelerator,
+} from "../keymap-utils";
+import { isMacOS } from "@/lib/utils/runtime-env";
+
+import type { KeyBinding } from "../keymap-types";
+
+const CTRL_K_CTRL_R: KeyBinding = {
+  modifiers: ["Ctrl"],
+  key: "k",
+  chord: [{ modifiers: ["Ctrl"], key: "r" }],
+};
+
+describe("chord bindings", () => {
+  it("formats and converts strokes separated by a space", () => {
+    expect(formatBinding(CTRL_K_CTRL_R)).toBe(isMacOS() ? "⌃K ⌃R" : "Ctrl+K Ctrl+R");
+    expect(toWebMenuAccelerator(CTRL_K_CTRL_R)).toBe("Ctrl+K Ctrl+R");
+  });
+
+  it("has no Electron accelerator and never matches a lone event", () => {
+    expect(toElectronAccelerator(CTRL_K_CTRL_R)).toBeUndefined();
+    const event = new KeyboardEvent("keydown", { key: "k", ctrlKey: true });
+    expect(matchesEvent(CTRL_K_CTRL_R, event)).toBe(false);
+    expect(matchesEvent({ modifiers: ["Ctrl"], key: "k" }, event)).toBe(true);
+  });
+
+  it("is reserved when its first stroke is", () => {
+    const reload: KeyBinding = {
+      modifiers: ["CmdOrCtrl"],
+      key: "r",
+      chord: [{ modifiers: [], key: "x" }],
+    };
+    expect(isReservedBinding(reload)).toBe(true);
+    expect(isReservedBinding(CTRL_K_CTRL_R)).toBe(false);
+  });
+});
+
+describe("bindingsOverlap", () => {
+  it("distinguishes exact matches from chord prefixes", () => {
+    expect(bindingsOverlap(CTRL_K_CTRL_R, { ...CTRL_K_CTRL_R })).toBe("exact");
+    expect(bindingsOverlap({ modifiers: ["Ctrl"], key: "k" }, CTRL_K_CTRL_R)).toBe("prefix");
+    expect(
+      bindingsOverlap(CTRL_K_CTRL_R, {
+        modifiers: ["Ctrl"],
+        key: "k",
+        chord: [{ modifiers: ["Ctrl"], key: "s" }],
+      }),
+    ).toBe(null);
+    expect(bindingsOverlap(CTRL_K_CTRL_R, null)).toBe(null);
+  });
+
+  it("resolves CmdOrCtrl for the current platform", () => {
+    const cmdOrCtrlK: KeyBinding = { modifiers: ["CmdOrCtrl"], key: "K" };
+    const ctrlK: KeyBinding = { modifiers: ["Ctrl"], key: "k" };
+    expect(bindingsMatch(cmdOrCtrlK, ctrlK)).toBe(!isMacOS());
+  });
+});
+
+describe("findBindingConflicts", () => {
+  it("reports both sides of every collision", () => {
+    const conflicts = findBindingConflicts({
+      "format.ruby": CTRL_K_CTRL_R,
+      "format.tcy": { modifiers: ["Ctrl"], key: "k" },
+      "file.save": { modifiers: ["CmdOrCtrl"], key: "s" },
+      "file.saveAs": null,
+    });
+    expect(conflicts.get("format.ruby")).toEqual([{ id: "format.tcy", overlap: "prefix" }]);
+    expect(conflicts.get("format.tcy")).toEqual([{ id: "format.ruby", overlap: "prefix" }]);
+    expect(conflicts.has("file.save")).toBe(false);
+  });
+});
@@ -0,0 +1,89 @@
+import { useEffect } from "react";
+
+import type { CommandId } from "./command-ids";
+
+/**
+ * Command handlers that can be run by id rather than by a key event, so the
+ * command palette can execute anything in the keymap registry.
+ *
+ * - "primary" handlers are the ones bound to keys (registered by useKeymapListener)
+ * - "fallback" handlers cover commands whose shortcut is owned by someone
+ *   else (the native Electron menu, the browser) and so have no key handler.
+ *   Chord bindings reach them too, since no native accelerator can express a chord.
+ */
+export type CommandHandlerTier = "primary" | "fallback";
+
+type HandlerMap = Partial<Record<CommandId, () => void>>;
+
+const ALL_TIERS: readonly CommandHandlerTier[] = ["primary", "fallback"];
+
+const registrations: Record<CommandHandlerTier, Set<HandlerMap>> = {
+  primary: new Set(),
+  fallback: new Set(),
+};
+
+/**
+ * Register a handler map. The most recently registered map wins when several
+ * provide the same command.
+ *
+ * @returns A function that removes the registration
+ */
+export function registerCommandHandlers(
+  handlers: HandlerMap,
+  tier: CommandHandlerTier,
+): () => void {
+  registrations[tier].add(handlers);
+  return () => {
+    registrations[tier].delete(handlers);
+  };
+}
+
+function findHandler(id: CommandId, tier: CommandHandlerTier): (() => void) | undefined {
+  const maps = Array.from(registrations[tier]).reverse();
+  for (const map of maps) {
+    const handler = map[id];
+    if (handler) return handler;
+  }
+  return undefined;
+}
+
+function findFirstHandler(
+  id: CommandId,
+  tiers: readonly CommandHandlerTier[],
+): (() => void) | undefined {
+  for (const tier of tiers) {
+    const handler = findHandler(id, tier);
+    if (handler) return handler;
+  }
+  return undefined;
+}
+
+/** Whether some registered handler in the given tiers can currently run the command. */
+export function hasCommandHandler(
+  id: CommandId,
+  tiers: readonly CommandHandlerTier[] = ALL_TIERS,
+): boolean {
+  return findFirstHandler(id, tiers) !== undefined;
+}
+
+/**
+ * Run a command by id: a primary handler if one is registered, otherwise a
+ * fallback handler. Pass `tiers` to restrict the lookup.
+ *
+ * @returns false when no handler is available (e.g. an editor-only command
+ *   while a terminal tab is active)
+ */
+export function executeCommand(
+  id: CommandId,
+  tiers: readonly CommandHandlerTier[] = ALL_TIERS,
+): boolean {
+  const handler = findFirstHandler(id, tiers);
+  if (!handler) return false;
+  handler();
+  return true;
+}
+
+/** Register handlers on the command bus for the lifetime of the component. */
+export function useCommandHandlers(handlers: HandlerMap, tier: CommandHandlerTier): void {
+  useEffect(() => registerCommandHandlers(handlers, tier), [handlers, tier]);
+}
@@ -34,6 +34,7 @@ export const ALL_COMMAND_IDS = [
   "nav.tab9",
   "nav.settings",
   "nav.search",
+  "nav.commandPalette",
   "panel.explorer",
   "panel.files",
   "panel.search",
@@ -43,6 +44,7 @@ export const ALL_COMMAND_IDS = [
   "inspector.corrections",
   "inspector.stats",
   "inspector.history",
+  "inspector.ai",
   // "panel.outline", // TODO: Outline feature — planned for v1.3.0
   "format.ruby",
   "format.tcy",
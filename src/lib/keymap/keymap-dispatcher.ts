@@ -0,0 +1,200 @@
+/**
+ * Window-level keydown dispatcher for the keymap.
+ *
+ * One listener serves every useKeymapListener caller: it matches key events
+ * against the effective bindings and runs the command through the command
+ * bus. Chord bindings ("Ctrl+K Ctrl+R") are matched stroke by stroke; while a
+ * chord is incomplete its strokes are published as the pending chord so the
+ * UI can show an indicator.
+ *
+ * - A single-stroke binding runs only a primary (key) handler, as before
+ * - A completed chord also runs fallback handlers (menu actions), because
+ *   native menu accelerators cannot express chords
+ * - A chord prefix wins over a single-stroke binding on the same key
+ * - While a chord is pending, the next stroke is taken in the capture phase
+ *   so it never reaches the editor; a stroke that continues no chord (or
+ *   Escape) cancels it
+ */
+
+import { ALL_COMMAND_IDS } from "./command-ids";
+import { executeCommand, hasCommandHandler } from "./command-bus";
+import {
+  bindingStrokes,
+  isChordBinding,
+  isScopeActive,
+  matchesStroke,
+  strokesMatch,
+} from "./keymap-utils";
+import { SHORTCUT_REGISTRY } from "./shortcut-registry";
+
+import type { CommandHandlerTier } from "./command-bus";
+import type { CommandId } from "./command-ids";
+import type { KeyBinding, KeyStroke } from "./keymap-types";
+
+type Bindings = Partial<Record<CommandId, KeyBinding | null>>;
+
+/** What a key event means, given the strokes typed so far. */
+export type StrokeResolution =
+  /** Not a shortcut (or a bare modifier key): let the event through */
+  | { type: "none" }
+  /** Began or continued a chord */
+  | { type: "pending"; strokes: KeyStroke[] }
+  /** Completed a binding */
+  | { type: "command"; id: CommandId }
+  /** Broke off a pending chord */
+  | { type: "cancelled" };
+
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Shift", "Alt"]);
+
+const NO_STROKES: KeyStroke[] = [];
+
+/** Handler tiers a binding may run: chords also reach menu fallbacks. */
+function handlerTiers(binding: KeyBinding): CommandHandlerTier[] {
+  return isChordBinding(binding) ? ["primary", "fallback"] : ["primary"];
+}
+
+function isCommandAvailable(id: CommandId, binding: KeyBinding): boolean {
+  if (!isScopeActive(SHORTCUT_REGISTRY[id].scope)) return false;
+  return hasCommandHandler(id, handlerTiers(binding));
+}
+
+/**
+ * Resolves one key event against the bindings.
+ *
+ * @param pending - Strokes of the chord typed so far (empty when none)
+ * @param isAvailable - Whether a command can run now; commands that cannot
+ *   are ignored so their keys fall through to the browser and editor
+ */
+export function resolveStroke(
+  pending: readonly KeyStroke[],
+  event: KeyboardEvent,
+  bindings: Bindings,
+  isAvailable: (id: CommandId, binding: KeyBinding) => boolean = isCommandAvailable,
+): StrokeResolution {
+  if (MODIFIER_KEYS.has(event.key)) return { type: "none" };
+
+  const depth = pending.length;
+  let completed: CommandId | null = null;
+  let continued: KeyStroke | null = null;
+
+  for (const id of ALL_COMMAND_IDS) {
+    const binding = bindings[id];
+    if (!binding) continue;
+    const strokes = bindingStrokes(binding);
+    const next = strokes[depth];
+    if (!next) continue;
+    if (!pending.every((stroke, i) => strokesMatch(stroke, strokes[i]!))) continue;
+    if (!matchesStroke(next, event) || !isAvailable(id, binding)) continue;
+
+    if (strokes.length === depth + 1) {
+      completed ??= id;
+    } else {
+      continued ??= next;
+    }
+  }
+
+  if (continued) return { type: "pending", strokes: [...pending, continued] };
+  if (completed) return { type: "command", id: completed };
+  return depth > 0 ? { type: "cancelled" } : { type: "none" };
+}
+
+// ---------------------------------------------------------------------------
+// Pending chord (observable for the indicator)
+// ---------------------------------------------------------------------------
+
+let pendingStrokes: KeyStroke[] = NO_STROKES;
+const pendingListeners = new Set<() => void>();
+
+function setPendingStrokes(strokes: KeyStroke[]): void {
+  if (strokes === pendingStrokes) return;
+  pendingStrokes = strokes;
+  for (const listener of pendingListeners) listener();
+}
+
+/** Strokes of the chord being typed; empty when no chord is pending. */
+export function getPendingChord(): readonly KeyStroke[] {
+  return pendingStrokes;
+}
+
+/** Subscribe to pending-chord changes (useSyncExternalStore compatible). */
+export function subscribePendingChord(listener: () => void): () => void {
+  pendingListeners.add(listener);
+  return () => {
+    pendingListeners.delete(listener);
+  };
+}
+
+/** Abandon the pending chord, if any. */
+export function clearPendingChord(): void {
+  setPendingStrokes(NO_STROKES);
+}
+
+// ---------------------------------------------------------------------------
+// Window listener
+// ---------------------------------------------------------------------------
+
+/** Bindings of each attached caller; the most recent one is used. */
+const attachedBindings: Bindings[] = [];
+
+function dispatch(event: KeyboardEvent): boolean {
+  const bindings = attachedBindings[attachedBindings.length - 1];
+  if (!bindings) return false;
+
+  const result = resolveStroke(pendingStrokes, event, bindings);
+  switch (result.type) {
+    case "none":
+      return false;
+    case "pending":
+      setPendingStrokes(result.strokes);
+      break;
+    case "cancelled":
+      clearPendingChord();
+      break;
+    case "command": {
+      clearPendingChord();
+      const binding = bindings[result.id];
+      if (binding) executeCommand(result.id, handlerTiers(binding));
+      break;
+    }
+  }
+  event.preventDefault();
+  return true;
+}
+
+/** Follow-up chord strokes: handled before the event reaches the editor. */
+function handleCaptureKeyDown(event: KeyboardEvent): void {
+  if (pendingStrokes.length === 0) return;
+  if (dispatch(event)) event.stopPropagation();
+}
+
+/** First strokes: handled after the focused element has seen the event. */
+function handleKeyDown(event: KeyboardEvent): void {
+  if (pendingStrokes.length > 0) return;
+  dispatch(event);
+}
+
+/**
+ * Start dispatching key events with the given bindings.
+ * The window listeners are shared and stay installed while any caller is attached.
+ *
+ * @returns A function that detaches the caller
+ */
+export function attachKeymapDispatcher(bindings: Bindings): () => void {
+  if (attachedBindings.length === 0) {
+    window.addEventListener("keydown", handleCaptureKeyDown, true);
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("blur", clearPendingChord);
+  }
+  attachedBindings.push(bindings);
+
+  return () => {
+    const index = attachedBindings.lastIndexOf(bindings);
+    if (index !== -1) attachedBindings.splice(index, 1);
+    if (attachedBindings.length === 0) {
+      window.removeEventListener("keydown", handleCaptureKeyDown, true);
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("blur", clearPendingChord);
+      clearPendingChord();
+    }
+  };
+}
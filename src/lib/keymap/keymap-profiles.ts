@@ -0,0 +1,161 @@
+/**
+ * Keymap profiles: named sets of overrides that replace the user's overrides
+ * when applied. Built-in profiles ship with the app; others are imported from
+ * (and exported to) JSON files.
+ *
+ * File format:
+ * { "format": "illusions-keymap-profile", "version": 1, "name": "...",
+ *   "description": "...", "bindings": { "<commandId>": KeyBinding | null } }
+ */
+
+import { ALL_COMMAND_IDS } from "./command-ids";
+
+import type { CommandId } from "./command-ids";
+import type { KeyBinding, KeyStroke, KeymapOverrides, KeymapProfile } from "./keymap-types";
+
+export const KEYMAP_PROFILE_FORMAT = "illusions-keymap-profile";
+export const KEYMAP_PROFILE_VERSION = 1;
+
+/** Longest chord accepted, in strokes */
+export const MAX_CHORD_STROKES = 3;
+
+/** Id of the profile that restores the registry defaults */
+export const DEFAULT_KEYMAP_PROFILE_ID = "default";
+
+const MODIFIERS: ReadonlySet<string> = new Set(["CmdOrCtrl", "Shift", "Alt", "Ctrl"]);
+const COMMAND_IDS: ReadonlySet<string> = new Set(ALL_COMMAND_IDS);
+
+function stroke(modifiers: KeyStroke["modifiers"], key: string): KeyStroke {
+  return { modifiers, key };
+}
+
+function chord(first: KeyStroke, ...rest: KeyStroke[]): KeyBinding {
+  return { ...first, chord: rest };
+}
+
+/** Profiles shipped with the app. */
+export const BUILTIN_KEYMAP_PROFILES: readonly KeymapProfile[] = [
+  {
+    id: DEFAULT_KEYMAP_PROFILE_ID,
+    name: "標準",
+    description: "illusions の既定のキー配置",
+    overrides: {},
+    builtin: true,
+  },
+  {
+    id: "vscode",
+    name: "VS Code",
+    description: "Visual Studio Code の配置に寄せたもの（Ctrl+K に続くコードを含む）",
+    overrides: {
+      "panel.explorer": stroke(["CmdOrCtrl", "Shift"], "e"),
+      "panel.search": stroke(["CmdOrCtrl", "Shift"], "f"),
+      "terminal.new": stroke(["Ctrl", "Shift"], "`"),
+      "view.splitDown": chord(stroke(["CmdOrCtrl"], "k"), stroke(["CmdOrCtrl"], "\\")),
+      "view.compactMode": chord(stroke(["CmdOrCtrl"], "k"), stroke([], "z")),
+      "view.toggleWritingMode": chord(stroke(["CmdOrCtrl"], "k"), stroke([], "v")),
+    },
+    builtin: true,
+  },
+  {
+    id: "ichitaro",
+    name: "一太郎風",
+    description: "書式や表示の切り替えをファンクションキーに割り当てた、一太郎に近い操作感の近似",
+    overrides: {
+      "nav.search": stroke([], "F3"),
+      "inspector.corrections": stroke([], "F4"),
+      "format.ruby": stroke([], "F7"),
+      "format.tcy": stroke([], "F8"),
+      "view.toggleWritingMode": stroke([], "F9"),
+    },
+    builtin: true,
+  },
+  {
+    id: "emacs",
+    name: "Emacs",
+    description:
+      "Ctrl+X に続くコードでファイルと分割を操作する配置（Ctrl+X の切り取りはメニューから）",
+    overrides: {
+      "file.save": chord(stroke(["Ctrl"], "x"), stroke(["Ctrl"], "s")),
+      "file.saveAs": chord(stroke(["Ctrl"], "x"), stroke(["Ctrl"], "w")),
+      "file.open": chord(stroke(["Ctrl"], "x"), stroke(["Ctrl"], "f")),
+      "file.closeTab": chord(stroke(["Ctrl"], "x"), stroke([], "k")),
+      "view.splitDown": chord(stroke(["Ctrl"], "x"), stroke([], "2")),
+      "view.splitRight": chord(stroke(["Ctrl"], "x"), stroke([], "3")),
+      "nav.nextTab": chord(stroke(["Ctrl"], "x"), stroke([], "ArrowRight")),
+      "nav.prevTab": chord(stroke(["Ctrl"], "x"), stroke([], "ArrowLeft")),
+      "nav.search": stroke(["Ctrl"], "s"),
+    },
+    builtin: true,
+  },
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseStroke(raw: unknown): KeyStroke | null {
+  if (!isRecord(raw)) return null;
+  const { modifiers, key } = raw;
+  if (typeof key !== "string" || key === "") return null;
+  if (!Array.isArray(modifiers)) return null;
+  if (!modifiers.every((m): m is KeyStroke["modifiers"][number] => MODIFIERS.has(m as string))) {
+    return null;
+  }
+  return { modifiers, key };
+}
+
+/** Validate one binding (null = unbound). Returns undefined when malformed. */
+function parseBinding(raw: unknown): KeyBinding | null | undefined {
+  if (raw === null) return null;
+  const first = parseStroke(raw);
+  if (!first || !isRecord(raw)) return undefined;
+  if (raw.chord === undefined) return first;
+  if (!Array.isArray(raw.chord) || raw.chord.length >= MAX_CHORD_STROKES) return undefined;
+  const rest: KeyStroke[] = [];
+  for (const rawStroke of raw.chord) {
+    const next = parseStroke(rawStroke);
+    if (!next) return undefined;
+    rest.push(next);
+  }
+  return rest.length > 0 ? { ...first, chord: rest } : first;
+}
+
+/**
+ * Validate a profile read from a file. Bindings for commands this version
+ * does not know are skipped; a malformed binding rejects the whole profile.
+ *
+ * @param id - Id to give the profile (files carry only a name)
+ */
+export function parseKeymapProfile(raw: unknown, id: string): KeymapProfile | null {
+  if (!isRecord(raw)) return null;
+  if (raw.format !== KEYMAP_PROFILE_FORMAT || raw.version !== KEYMAP_PROFILE_VERSION) return null;
+  const { name, description, bindings } = raw;
+  if (typeof name !== "string" || name.trim() === "") return null;
+  if (description !== undefined && typeof description !== "string") return null;
+  if (!isRecord(bindings)) return null;
+
+  const overrides: KeymapOverrides = {};
+  for (const [commandId, rawBinding] of Object.entries(bindings)) {
+    if (!COMMAND_IDS.has(commandId)) continue;
+    const binding = parseBinding(rawBinding);
+    if (binding === undefined) return null;
+    overrides[commandId as CommandId] = binding;
+  }
+
+  return { id, name: name.trim(), ...(description && { description }), overrides };
+}
+
+/** Serialize a profile to the JSON file format. */
+export function serializeKeymapProfile(profile: KeymapProfile): string {
+  return JSON.stringify(
+    {
+      format: KEYMAP_PROFILE_FORMAT,
+      version: KEYMAP_PROFILE_VERSION,
+      name: profile.name,
+      ...(profile.description && { description: profile.description }),
+      bindings: profile.overrides,
+    },
+    null,
+    2,
+  );
+}
@@ -1,6 +1,6 @@
 import { getStorageService } from "@/lib/storage/storage-service";
 import { persistAppState } from "@/lib/storage/app-state-manager";
-import type { KeymapOverrides } from "./keymap-types";
+import type { KeymapOverrides, KeymapProfile } from "./keymap-types";
 
 /**
  * Persists user keymap overrides via StorageService.
@@ -19,3 +19,37 @@ export async function loadKeymapOverrides(): Promise<KeymapOverrides> {
   const appState = await storage.loadAppState();
   return appState?.keymapOverrides ?? {};
 }
+
+/**
+ * Persists imported keymap profiles and the id of the last applied profile.
+ * Built-in profiles are not stored.
+ */
+export async function saveKeymapProfiles(
+  profiles: KeymapProfile[],
+  activeProfileId: string | null,
+): Promise<void> {
+  await persistAppState({
+    keymapProfiles: profiles.map(({ id, name, description, overrides }) => ({
+      id,
+      name,
+      ...(description && { description }),
+      overrides,
+    })),
+    activeKeymapProfileId: activeProfileId ?? undefined,
+  });
+}
+
+/**
+ * Loads imported keymap profiles and the id of the last applied profile.
+ */
+export async function loadKeymapProfiles(): Promise<{
+  profiles: KeymapProfile[];
+  activeProfileId: string | null;
+}> {
+  const storage = getStorageService();
+  const appState = await storage.loadAppState();
+  return {
+    profiles: appState?.keymapProfiles ?? [],
+    activeProfileId: appState?.activeKeymapProfileId ?? null,
+  };
+}
@@ -1,14 +1,24 @@
 import type { CommandId } from "./command-ids";
 
 /**
- * A key binding consisting of modifier keys and a primary key.
+ * A single key press: modifier keys and a primary key.
  * Uses Electron-compatible modifier names.
  */
-export interface KeyBinding {
+export interface KeyStroke {
   modifiers: Array<"CmdOrCtrl" | "Shift" | "Alt" | "Ctrl">;
   key: string;
 }
 
+/**
+ * A key binding: one key stroke, optionally followed by further strokes that
+ * make it a chord (e.g. "Ctrl+K Ctrl+R" is `{ modifiers: ["Ctrl"], key: "k",
+ * chord: [{ modifiers: ["Ctrl"], key: "r" }] }`).
+ */
+export interface KeyBinding extends KeyStroke {
+  /** Follow-up strokes; absent or empty for a single-stroke binding */
+  chord?: KeyStroke[];
+}
+
 /**
  * Category for grouping shortcuts in the settings UI.
  */
@@ -32,3 +42,17 @@ export interface ShortcutEntry {
  * A null value means the shortcut is intentionally unbound.
  */
 export type KeymapOverrides = Partial<Record<CommandId, KeyBinding | null>>;
+
+/**
+ * A named set of overrides that replaces the user's overrides when applied.
+ */
+export interface KeymapProfile {
+  id: string;
+  /** Display name */
+  name: string;
+  /** Short Japanese description shown in the settings UI */
+  description?: string;
+  overrides: KeymapOverrides;
+  /** Built-in profiles cannot be deleted */
+  builtin?: boolean;
+}
@@ -1,17 +1,43 @@
-import type { KeyBinding } from "./keymap-types";
+import type { CommandId } from "./command-ids";
+import type { KeyBinding, KeyStroke } from "./keymap-types";
 import { isMacOS, isElectronRenderer } from "@/lib/utils/runtime-env";
 
+/**
+ * Returns the strokes of a binding in order: the binding itself, then its chord.
+ */
+export function bindingStrokes(binding: KeyBinding): KeyStroke[] {
+  return [{ modifiers: binding.modifiers, key: binding.key }, ...(binding.chord ?? [])];
+}
+
+/**
+ * Returns true if the binding needs more than one stroke.
+ */
+export function isChordBinding(binding: KeyBinding | null): boolean {
+  return (binding?.chord?.length ?? 0) > 0;
+}
+
 /**
  * Returns the platform-specific display string for a key binding.
  * e.g. { modifiers: ["CmdOrCtrl", "Shift"], key: "s" } -> "Cmd+Shift+S" (macOS) / "Ctrl+Shift+S" (Win/Linux)
+ * Chord strokes are separated by a space: "Ctrl+K Ctrl+R".
  */
 export function formatBinding(binding: KeyBinding | null): string {
   if (!binding) return "未設定";
+  return formatStrokes(bindingStrokes(binding));
+}
 
+/**
+ * Returns the display string for a sequence of strokes (e.g. a pending chord).
+ */
+export function formatStrokes(strokes: readonly KeyStroke[]): string {
   const isMac = isMacOS();
+  return strokes.map((stroke) => formatStroke(stroke, isMac)).join(" ");
+}
+
+function formatStroke(stroke: KeyStroke, isMac: boolean): string {
   const parts: string[] = [];
 
-  for (const mod of binding.modifiers) {
+  for (const mod of stroke.modifiers) {
     if (mod === "CmdOrCtrl") {
       parts.push(isMac ? "\u2318" : "Ctrl");
     } else if (mod === "Shift") {
@@ -23,7 +49,7 @@ export function formatBinding(binding: KeyBinding | null): string {
     }
   }
 
-  const keyDisplay = formatKey(binding.key, isMac);
+  const keyDisplay = formatKey(stroke.key, isMac);
   if (isMac) {
     return parts.join("") + keyDisplay;
   }
@@ -50,15 +76,23 @@ function formatKey(key: string, isMac: boolean): string {
 }
 
 /**
- * Checks whether a keyboard event matches the given binding.
- * Handles CmdOrCtrl as either Cmd (macOS) or Ctrl (Win/Linux).
+ * Checks whether a keyboard event matches a single-stroke binding.
+ * Chord bindings never match a lone event; the keymap dispatcher feeds
+ * them stroke by stroke via matchesStroke().
  */
 export function matchesEvent(binding: KeyBinding | null, event: KeyboardEvent): boolean {
-  if (!binding) return false;
+  if (!binding || isChordBinding(binding)) return false;
+  return matchesStroke(binding, event);
+}
 
+/**
+ * Checks whether a keyboard event matches the given stroke.
+ * Handles CmdOrCtrl as either Cmd (macOS) or Ctrl (Win/Linux).
+ */
+export function matchesStroke(stroke: KeyStroke, event: KeyboardEvent): boolean {
   const isMac = isMacOS();
 
-  for (const mod of binding.modifiers) {
+  for (const mod of stroke.modifiers) {
     if (mod === "CmdOrCtrl") {
       const required = isMac ? event.metaKey : event.ctrlKey;
       if (!required) return false;
@@ -72,8 +106,8 @@ export function matchesEvent(binding: KeyBinding | null, event: KeyboardEvent):
   }
 
   // Ensure modifiers NOT in binding are not pressed
-  const hasCmdOrCtrl = binding.modifiers.includes("CmdOrCtrl");
-  const hasCtrl = binding.modifiers.includes("Ctrl");
+  const hasCmdOrCtrl = stroke.modifiers.includes("CmdOrCtrl");
+  const hasCtrl = stroke.modifiers.includes("Ctrl");
 
   if (!hasCmdOrCtrl && !hasCtrl) {
     // Neither CmdOrCtrl nor Ctrl required: both must be absent
@@ -84,22 +118,23 @@ export function matchesEvent(binding: KeyBinding | null, event: KeyboardEvent):
     if (!isMac && event.metaKey) return false;
   }
 
-  if (!binding.modifiers.includes("Shift") && event.shiftKey) return false;
-  if (!binding.modifiers.includes("Alt") && event.altKey) return false;
+  if (!stroke.modifiers.includes("Shift") && event.shiftKey) return false;
+  if (!stroke.modifiers.includes("Alt") && event.altKey) return false;
 
   // Normalize the event key for comparison
   const eventKey = event.key.toLowerCase();
-  const bindingKey = binding.key.toLowerCase();
+  const strokeKey = stroke.key.toLowerCase();
 
-  return eventKey === bindingKey;
+  return eventKey === strokeKey;
 }
 
 /**
  * Converts a KeyBinding to an Electron menu accelerator string.
  * e.g. { modifiers: ["CmdOrCtrl", "Shift"], key: "s" } -> "CmdOrCtrl+Shift+S"
+ * Returns undefined for chords, which Electron accelerators cannot express.
  */
 export function toElectronAccelerator(binding: KeyBinding | null): string | undefined {
-  if (!binding) return undefined;
+  if (!binding || isChordBinding(binding)) return undefined;
 
   const parts: string[] = [...binding.modifiers];
 
@@ -135,27 +170,97 @@ export function toElectronAccelerator(binding: KeyBinding | null): string | unde
  */
 export function toWebMenuAccelerator(binding: KeyBinding | null): string | undefined {
   if (!binding) return undefined;
-  const mods = binding.modifiers.map((m) => (m === "CmdOrCtrl" ? "Ctrl" : m));
-  const key = binding.key === "+" ? "+" : binding.key.toUpperCase();
-  return [...mods, key].join("+");
+  return bindingStrokes(binding)
+    .map((stroke) => {
+      const mods = stroke.modifiers.map((m) => (m === "CmdOrCtrl" ? "Ctrl" : m));
+      const key = stroke.key === "+" ? "+" : stroke.key.toUpperCase();
+      return [...mods, key].join("+");
+    })
+    .join(" ");
 }
 
 /**
- * Compares two KeyBindings for equality (normalized modifiers + lowercase key).
+ * Compares two strokes as the current platform sees them: lowercase key, and
+ * CmdOrCtrl resolved to Cmd (macOS) or Ctrl (Win/Linux), so "CmdOrCtrl+K"
+ * and "Ctrl+K" collide everywhere except macOS.
  */
-export function bindingsMatch(a: KeyBinding | null, b: KeyBinding | null): boolean {
-  if (!a || !b) return false;
+export function strokesMatch(a: KeyStroke, b: KeyStroke): boolean {
   if (a.key.toLowerCase() !== b.key.toLowerCase()) return false;
-  const aMods = [...a.modifiers].sort();
-  const bMods = [...b.modifiers].sort();
+  const aMods = normalizeModifiers(a.modifiers);
+  const bMods = normalizeModifiers(b.modifiers);
   if (aMods.length !== bMods.length) return false;
   return aMods.every((m, i) => m === bMods[i]);
 }
 
+function normalizeModifiers(modifiers: KeyStroke["modifiers"]): string[] {
+  const isMac = isMacOS();
+  const resolved = modifiers.map((m) => (m === "CmdOrCtrl" ? (isMac ? "Cmd" : "Ctrl") : m));
+  return Array.from(new Set(resolved)).sort();
+}
+
+/**
+ * Compares two KeyBindings for equality: same number of strokes, each stroke
+ * matching per strokesMatch().
+ */
+export function bindingsMatch(a: KeyBinding | null, b: KeyBinding | null): boolean {
+  if (!a || !b) return false;
+  const aStrokes = bindingStrokes(a);
+  const bStrokes = bindingStrokes(b);
+  if (aStrokes.length !== bStrokes.length) return false;
+  return aStrokes.every((stroke, i) => strokesMatch(stroke, bStrokes[i]!));
+}
+
+/**
+ * How two bindings collide:
+ * - "exact": identical stroke sequences
+ * - "prefix": one binding's strokes begin the other's (e.g. "Ctrl+K" and
+ *   "Ctrl+K Ctrl+R"), so one of them can never be typed
+ */
+export type BindingOverlap = "exact" | "prefix";
+
+/**
+ * Returns how two bindings collide, or null if they can both be typed.
+ */
+export function bindingsOverlap(a: KeyBinding | null, b: KeyBinding | null): BindingOverlap | null {
+  if (!a || !b) return null;
+  const aStrokes = bindingStrokes(a);
+  const bStrokes = bindingStrokes(b);
+  const shared = Math.min(aStrokes.length, bStrokes.length);
+  for (let i = 0; i < shared; i++) {
+    if (!strokesMatch(aStrokes[i]!, bStrokes[i]!)) return null;
+  }
+  return aStrokes.length === bStrokes.length ? "exact" : "prefix";
+}
+
+/**
+ * Finds every pair of commands whose bindings collide.
+ *
+ * @returns For each conflicting command, the commands it collides with
+ */
+export function findBindingConflicts(
+  bindings: Partial<Record<CommandId, KeyBinding | null>>,
+): Map<CommandId, Array<{ id: CommandId; overlap: BindingOverlap }>> {
+  const conflicts = new Map<CommandId, Array<{ id: CommandId; overlap: BindingOverlap }>>();
+  const entries = (Object.entries(bindings) as Array<[CommandId, KeyBinding | null]>).filter(
+    ([, binding]) => binding !== null,
+  );
+  for (let i = 0; i < entries.length; i++) {
+    for (let j = i + 1; j < entries.length; j++) {
+      const [aId, aBinding] = entries[i]!;
+      const [bId, bBinding] = entries[j]!;
+      const overlap = bindingsOverlap(aBinding, bBinding);
+      if (!overlap) continue;
+      conflicts.set(aId, [...(conflicts.get(aId) ?? []), { id: bId, overlap }]);
+      conflicts.set(bId, [...(conflicts.get(bId) ?? []), { id: aId, overlap }]);
+    }
+  }
+  return conflicts;
+}
+
 /**
  * Browser/OS reserved key combinations that should not be overridden.
  */
-const RESERVED_BINDINGS: Array<{ modifiers: KeyBinding["modifiers"]; key: string }> = [
+const RESERVED_BINDINGS: KeyStroke[] = [
   { modifiers: ["CmdOrCtrl"], key: "r" },
   { modifiers: ["CmdOrCtrl", "Shift"], key: "r" },
   { modifiers: ["CmdOrCtrl"], key: "l" },
@@ -172,11 +277,10 @@ const RESERVED_BINDINGS: Array<{ modifiers: KeyBinding["modifiers"]; key: string
 
 /**
  * Returns true if the binding conflicts with a browser/OS reserved shortcut.
+ * Only the first stroke matters: the browser acts on it before a chord can continue.
  */
 export function isReservedBinding(binding: KeyBinding): boolean {
-  return RESERVED_BINDINGS.some((reserved) =>
-    bindingsMatch(binding, { modifiers: reserved.modifiers, key: reserved.key }),
-  );
+  return RESERVED_BINDINGS.some((reserved) => strokesMatch(binding, reserved));
 }
 
 /**
@@ -194,12 +298,12 @@ export function isScopeActive(scope: "all" | "electron-only" | "web-only" | unde
  * Builds a KeyBinding from a keyboard event.
  * Used by the KeybindingInput recording component.
  */
-export function buildBindingFromEvent(event: KeyboardEvent): KeyBinding | null {
+export function buildBindingFromEvent(event: KeyboardEvent): KeyStroke | null {
   const modifierKeys = new Set(["Control", "Meta", "Shift", "Alt"]);
   if (modifierKeys.has(event.key)) return null;
 
   const isMac = isMacOS();
-  const modifiers: KeyBinding["modifiers"] = [];
+  const modifiers: KeyStroke["modifiers"] = [];
 
   if (isMac ? event.metaKey : event.ctrlKey) modifiers.push("CmdOrCtrl");
   if (!isMac && event.metaKey) {
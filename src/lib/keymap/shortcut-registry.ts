@@ -230,6 +230,13 @@ export const SHORTCUT_REGISTRY: Record<CommandId, ShortcutEntry> = {
     defaultBinding: { modifiers: ["CmdOrCtrl"], key: "f" },
     scope: "all",
   },
+  "nav.commandPalette": {
+    id: "nav.commandPalette",
+    label: "コマンドパレット",
+    category: "nav",
+    defaultBinding: { modifiers: ["CmdOrCtrl", "Shift"], key: "p" },
+    scope: "all",
+  },
 
   // -- Panel toggles ---------------------------------------------------------
   "panel.explorer": {
@@ -295,6 +302,13 @@ export const SHORTCUT_REGISTRY: Record<CommandId, ShortcutEntry> = {
     defaultBinding: { modifiers: ["Ctrl", "Shift"], key: "h" },
     scope: "all",
   },
+  "inspector.ai": {
+    id: "inspector.ai",
+    label: "AI アシスタントを表示",
+    category: "panel",
+    defaultBinding: { modifiers: ["Ctrl", "Shift"], key: "a" },
+    scope: "all",
+  },
   // TODO: Outline feature — planned for v1.3.0
   // "panel.outline": {
   //   id: "panel.outline",
@@ -2,12 +2,15 @@ import { useEffect } from "react";
 
 import type { CommandId } from "./command-ids";
 import type { EffectiveBindings } from "@/contexts/KeymapContext";
-import { matchesEvent, isScopeActive } from "./keymap-utils";
-import { SHORTCUT_REGISTRY } from "./shortcut-registry";
+import { useCommandHandlers } from "./command-bus";
+import { attachKeymapDispatcher } from "./keymap-dispatcher";
 
 /**
- * Listens for keyboard events and dispatches to command handlers.
+ * Registers command handlers and dispatches matching keyboard events to them.
  * Replaces the manual if-chain in use-keyboard-shortcuts.ts.
+ * The handlers are registered on the command bus, which the shared keymap
+ * dispatcher (and the command palette) run them through; chord bindings are
+ * resolved there too.
  *
  * @param handlers - Map of CommandId to handler function
  * @param effectiveBindings - Merged bindings from KeymapContext (defaults + user overrides)
@@ -16,26 +19,7 @@ export function useKeymapListener(
   handlers: Partial<Record<CommandId, () => void>>,
   effectiveBindings: EffectiveBindings,
 ): void {
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      for (const [commandId, handler] of Object.entries(handlers) as Array<
-        [CommandId, (() => void) | undefined]
-      >) {
-        if (!handler) continue;
+  useCommandHandlers(handlers, "primary");
 
-        const entry = SHORTCUT_REGISTRY[commandId];
-        if (entry && !isScopeActive(entry.scope)) continue;
-
-        const binding = effectiveBindings[commandId];
-        if (matchesEvent(binding, event)) {
-          event.preventDefault();
-          handler();
-          return;
-        }
-      }
-    };
-
-    window.addEventListener("keydown", handleKeyDown);
-    return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [handlers, effectiveBindings]);
+  useEffect(() => attachKeymapDispatcher(effectiveBindings), [effectiveBindings]);
 }
@@ -0,0 +1,167 @@
+/**
+ * Tests for the L3 AI lint validator.
+ *
+ * Locks:
+ * - Nothing is sent when the AI client is not configured.
+ * - Only pending issues are sent, one request per paragraph, and verdicts are
+ *   cached by paragraph text (issues the model omits are not re-sent).
+ * - applyVerdicts attaches the reasoning, and demotes or hides false positives.
+ * - An aborted signal stops the pass.
+ * - A failed request is not retried for that paragraph until its back-off ends.
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { LintIssue } from "@/lib/linting/types";
+import type { LintValidationResult } from "@/lib/ai/types";
+
+const validateLintIssues =
+  vi.fn<
+    (text: string, issues: LintIssue[], signal?: AbortSignal) => Promise<LintValidationResult[]>
+  >();
+let configured = true;
+
+vi.mock("@/lib/ai/ai-client", () => ({
+  getAiClient: () => ({
+    isConfigured: () => configured,
+    validateLintIssues: (text: string, issues: LintIssue[], signal?: AbortSignal) =>
+      validateLintIssues(text, issues, signal),
+  }),
+}));
+
+import { AiLintValidator } from "../ai-lint-validator";
+
+function issue(ruleId: string, from: number, to: number): LintIssue {
+  return { ruleId, severity: "warning", message: ruleId, messageJa: ruleId, from, to };
+}
+
+const TEXT = "彼は走った。彼は走った。";
+const A = issue("rule-a", 0, 1);
+const B = issue("rule-b", 6, 7);
+
+describe("AiLintValidator", () => {
+  beforeEach(() => {
+    configured = true;
+    validateLintIssues.mockReset();
+  });
+
+  it("does nothing when the AI client is not configured", async () => {
+    configured = false;
+    const validator = new AiLintValidator();
+
+    const stored = await validator.validate(
+      [{ text: TEXT, issues: [A] }],
+      new AbortController().signal,
+    );
+
+    expect(stored).toBe(false);
+    expect(validateLintIssues).not.toHaveBeenCalled();
+    expect(validator.hasPending(TEXT, [A])).toBe(true);
+  });
+
+  it("sends pending issues per paragraph and caches the verdicts", async () => {
+    validateLintIssues.mockResolvedValue([
+      { issueIndex: 0, issueRuleId: "rule-a", isGenuine: true, reasoning: "妥当" },
+    ]);
+    const validator = new AiLintValidator();
+    const signal = new AbortController().signal;
+
+    expect(await validator.validate([{ text: TEXT, issues: [A, B] }], signal)).toBe(true);
+    expect(validateLintIssues).toHaveBeenCalledWith(TEXT, [A, B], signal);
+
+    // B had no verdict in the answer but is not re-sent
+    expect(validator.hasPending(TEXT, [A, B])).toBe(false);
+    expect(await validator.validate([{ text: TEXT, issues: [A, B] }], signal)).toBe(false);
+    expect(validateLintIssues).toHaveBeenCalledTimes(1);
+
+    expect(validator.applyVerdicts(TEXT, [A, B])).toEqual([
+      { ...A, validation: { isGenuine: true, reasoning: "妥当" } },
+      B,
+    ]);
+  });
+
+  it("only sends issues that are new to the paragraph", async () => {
+    validateLintIssues.mockResolvedValue([]);
+    const validator = new AiLintValidator();
+    const signal = new AbortController().signal;
+
+    await validator.validate([{ text: TEXT, issues: [A] }], signal);
+    await validator.validate([{ text: TEXT, issues: [A, B] }], signal);
+
+    expect(validateLintIssues).toHaveBeenLastCalledWith(TEXT, [B], signal);
+  });
+
+  it("demotes false positives to info, or hides them", async () => {
+    validateLintIssues.mockResolvedValue([
+      { issueIndex: 1, issueRuleId: "rule-b", isGenuine: false, reasoning: "意図的な反復" },
+    ]);
+    const validator = new AiLintValidator("demote");
+    await validator.validate([{ text: TEXT, issues: [A, B] }], new AbortController().signal);
+
+    expect(validator.applyVerdicts(TEXT, [A, B])).toEqual([
+      A,
+      { ...B, severity: "info", validation: { isGenuine: false, reasoning: "意図的な反復" } },
+    ]);
+
+    validator.setFalsePositiveAction("hide");
+    expect(validator.applyVerdicts(TEXT, [A, B])).toEqual([A]);
+  });
+
+  it("stops without caching once the signal aborts", async () => {
+    const controller = new AbortController();
+    validateLintIssues.mockImplementation(async () => {
+      controller.abort();
+      return [];
+    });
+    const validator = new AiLintValidator();
+
+    const stored = await validator.validate(
+      [
+        { text: TEXT, issues: [A] },
+        { text: "別の段落。", issues: [issue("rule-a", 0, 2)] },
+      ],
+      controller.signal,
+    );
+
+    expect(stored).toBe(false);
+    expect(validateLintIssues).toHaveBeenCalledTimes(1);
+    expect(validator.hasPending(TEXT, [A])).toBe(true);
+  });
+
+  it("backs off a paragraph whose request failed instead of re-sending it", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      validateLintIssues.mockRejectedValueOnce(new Error("503")).mockResolvedValue([]);
+      const validator = new AiLintValidator();
+      const other = { text: "別の段落。", issues: [issue("rule-a", 0, 2)] };
+      const signal = new AbortController().signal;
+
+      expect(await validator.validate([{ text: TEXT, issues: [A] }, other], signal)).toBe(true);
+      expect(validateLintIssues).toHaveBeenCalledTimes(2);
+      expect(validator.hasPending(TEXT, [A])).toBe(false);
+
+      // Still backing off: the next pass sends nothing
+      expect(await validator.validate([{ text: TEXT, issues: [A] }], signal)).toBe(false);
+      expect(validateLintIssues).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(30_000);
+      expect(validator.hasPending(TEXT, [A])).toBe(true);
+      await validator.validate([{ text: TEXT, issues: [A] }], signal);
+      expect(validateLintIssues).toHaveBeenCalledTimes(3);
+      expect(validator.hasPending(TEXT, [A])).toBe(false);
+    } finally {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    }
+  });
+
+  it("clear() drops cached verdicts", async () => {
+    validateLintIssues.mockResolvedValue([]);
+    const validator = new AiLintValidator();
+    await validator.validate([{ text: TEXT, issues: [A] }], new AbortController().signal);
+
+    validator.clear();
+
+    expect(validator.hasPending(TEXT, [A])).toBe(true);
+  });
+});
@@ -10,6 +10,8 @@
  * - The built-in user-dictionary source reads from the right storage key for
  *   project vs standalone mode (standalone uses filePath, falling back to
  *   fileName).
+ * - The built-in glossary source contributes terms and allowed variants in
+ *   project mode only.
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
@@ -27,6 +29,13 @@ vi.mock("@/lib/services/user-dictionary-service", () => ({
   subscribeUserDictionaryChange: () => () => {},
 }));
 
+const loadGlossaryEntries = vi.fn();
+
+vi.mock("@/lib/services/glossary-service", () => ({
+  getGlossaryService: () => ({ loadEntries: loadGlossaryEntries }),
+  subscribeGlossaryChange: () => () => {},
+}));
+
 import {
   applyKnownTermsToSnapshot,
   collectKnownTerms,
@@ -121,8 +130,10 @@ describe("collectKnownTerms", () => {
   beforeEach(() => {
     loadEntries.mockReset();
     loadEntriesStandalone.mockReset();
+    loadGlossaryEntries.mockReset();
     loadEntries.mockResolvedValue([]);
     loadEntriesStandalone.mockResolvedValue([]);
+    loadGlossaryEntries.mockResolvedValue([]);
   });
 
   afterEach(() => {
@@ -191,4 +202,20 @@ describe("collectKnownTerms", () => {
     await collectKnownTerms({ editorMode: mode });
     expect(loadEntriesStandalone).toHaveBeenCalledWith("a.txt");
   });
+
+  it("glossary source contributes terms and variants in project mode only", async () => {
+    loadGlossaryEntries.mockResolvedValue([
+      { id: "1", term: "魔導士", definition: "", variants: ["魔導師"] },
+    ]);
+    const project = { type: "project", projectId: "p1" } as EditorMode;
+    const terms = await collectKnownTerms({ editorMode: project });
+    expect(terms.has("魔導士")).toBe(true);
+    expect(terms.has("魔導師")).toBe(true);
+
+    loadGlossaryEntries.mockClear();
+    await collectKnownTerms({
+      editorMode: { type: "standalone", fileName: "a.txt" } as EditorMode,
+    });
+    expect(loadGlossaryEntries).not.toHaveBeenCalled();
+  });
 });
@@ -13,9 +13,9 @@ describe("buildModeRuleConfigs — applicableModes wiring (校正モード自動
   });
 
   it("enables exactly the rules whose applicableModes include the mode (strict membership)", () => {
-    // LINT_RULES_META is currently empty (all rules migrated to external rulesets).
-    // This test remains as the generic invariant: for any rule that IS in META,
-    // buildModeRuleConfigs must honour its applicableModes.
+    // LINT_RULES_META only lists the built-in novel pack (everything else lives
+    // in external rulesets). For any rule that IS in META, buildModeRuleConfigs
+    // must honour its applicableModes.
     for (const mode of CORRECTION_MODE_IDS) {
       const configs = buildModeRuleConfigs(mode);
       for (const meta of LINT_RULES_META) {
@@ -52,8 +52,8 @@ describe("buildModeRuleConfigs — applicableModes wiring (校正モード自動
 describe("buildModeRuleConfigs — regression vs legacy presets", () => {
   // The applicableModes values were derived from the existing presets, so the
   // new mechanism must reproduce the exact enabled-set each mode had before.
-  // With LINT_RULES_META empty (all rules migrated to external rulesets), this
-  // test confirms the invariant holds generically for whatever rules remain.
+  // LINT_RULES_META now only holds the built-in novel pack, whose preset
+  // configs are derived from the same applicableModes.
   it("matches the legacy preset enabled-set for every mode and rule", () => {
     for (const mode of CORRECTION_MODE_IDS) {
       const configs = buildModeRuleConfigs(mode);
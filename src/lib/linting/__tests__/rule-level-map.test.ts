@@ -6,20 +6,17 @@ describe("getRuleLevelMap", () => {
   test("covers every rule produced by the factories", () => {
     const rules = createJsonDrivenRules();
     const levels = getRuleLevelMap();
-    // The map may grow beyond the JSON-driven factories once hand-written
-    // (e.g. L2 morphological) rules are re-added via getAllRules().
+    // The map also covers the hand-written L2 rules returned by getAllRules().
     expect(levels.size).toBeGreaterThanOrEqual(rules.length);
     for (const rule of rules) {
       expect(levels.get(rule.id)).toBe(rule.level);
     }
   });
 
-  test("every settings metadata entry has a known level (invariant holds trivially when META is empty)", () => {
+  test("every settings metadata entry has a known level", () => {
     const levels = getRuleLevelMap();
-    // LINT_RULES_META is currently empty (all rules migrated to external rulesets).
-    // The invariant: every META entry must appear in the level map.
-    // With an empty META this vacuously passes; it will catch regressions if
-    // built-in rules are re-added without a corresponding registry entry.
+    // LINT_RULES_META lists the built-in novel pack; every entry must be backed
+    // by a registered rule instance.
     const missing = LINT_RULES_META.filter((m) => !levels.has(m.id)).map((m) => m.id);
     expect(missing).toEqual([]);
   });
@@ -0,0 +1,159 @@
+/**
+ * L3 lint validation — asks the configured AI client whether L1/L2 issues are
+ * genuine, so editors see fewer false alarms.
+ *
+ * The decoration plugin drives this through {@link LintIssueValidator}: it
+ * applies cached verdicts while building decorations, then calls `validate`
+ * for paragraphs that still have issues without one. Requests go out one
+ * paragraph at a time (the paragraph text is the model's context) with only
+ * that paragraph's pending issues, and at most {@link MAX_PARAGRAPHS_PER_PASS}
+ * paragraphs per pass; the plugin rebuilds after each pass, which picks up the
+ * next batch until nothing is pending.
+ *
+ * Verdicts are cached by paragraph text (hashed) and keyed within a paragraph
+ * by rule and paragraph-relative range, so an edit elsewhere in the document
+ * never re-sends an unchanged paragraph. Issues the model leaves out of its
+ * answer are recorded as "no verdict" so they are not re-sent either.
+ * A paragraph whose request failed is not pending again until its back-off
+ * delay has passed (doubling per consecutive failure), so an API outage does
+ * not re-send every paragraph on each keystroke.
+ *
+ * Opt-in: nothing is sent unless the user enables AI validation and the AI
+ * client is configured (see use-ai-lint-validation).
+ */
+import { getAiClient } from "@/lib/ai/ai-client";
+import { hashString } from "@/shared/lib/hash-string";
+import { LRUCache } from "@/shared/lib/lru-cache";
+import type { LintValidationResult } from "@/lib/ai/types";
+
+import type { LintIssue, LintIssueValidation, LintIssueValidator } from "./types";
+
+/** What happens to an issue the model judged a false positive. */
+export type FalsePositiveAction = "demote" | "hide";
+
+/** Paragraphs sent per validation pass (one request each). */
+const MAX_PARAGRAPHS_PER_PASS = 8;
+
+/** Paragraphs whose verdicts are kept. */
+const VERDICT_CACHE_SIZE = 500;
+
+/** Delay before a paragraph whose request failed is sent again; doubles per failure. */
+const FAILURE_BACKOFF_MS = 30_000;
+const MAX_FAILURE_BACKOFF_MS = 10 * 60_000;
+
+/** Consecutive failed requests for a paragraph and when it may be retried. */
+interface FailureRecord {
+  count: number;
+  retryAt: number;
+}
+
+/** Issue key → verdict, or null when the model returned none for it. */
+type ParagraphVerdicts = Map<string, LintIssueValidation | null>;
+
+function issueKey(issue: LintIssue): string {
+  return `${issue.ruleId}:${issue.from}:${issue.to}`;
+}
+
+export class AiLintValidator implements LintIssueValidator {
+  private readonly verdicts = new LRUCache<string, ParagraphVerdicts>(VERDICT_CACHE_SIZE, {
+    hashFn: hashString,
+  });
+  private readonly failures = new LRUCache<string, FailureRecord>(VERDICT_CACHE_SIZE, {
+    hashFn: hashString,
+  });
+  private falsePositiveAction: FalsePositiveAction;
+
+  constructor(falsePositiveAction: FalsePositiveAction = "demote") {
+    this.falsePositiveAction = falsePositiveAction;
+  }
+
+  /** Change how false positives are shown; cached verdicts are kept. */
+  setFalsePositiveAction(action: FalsePositiveAction): void {
+    this.falsePositiveAction = action;
+  }
+
+  /** Drop every cached verdict (e.g. after switching models). */
+  clear(): void {
+    this.verdicts.clear();
+    this.failures.clear();
+  }
+
+  applyVerdicts(paragraphText: string, issues: ReadonlyArray<LintIssue>): LintIssue[] {
+    const verdicts = this.verdicts.get(paragraphText);
+    if (!verdicts) return [...issues];
+
+    const result: LintIssue[] = [];
+    for (const issue of issues) {
+      const validation = verdicts.get(issueKey(issue));
+      if (!validation) {
+        result.push(issue);
+      } else if (validation.isGenuine) {
+        result.push({ ...issue, validation });
+      } else if (this.falsePositiveAction === "demote") {
+        result.push({ ...issue, severity: "info", validation });
+      }
+    }
+    return result;
+  }
+
+  hasPending(paragraphText: string, issues: ReadonlyArray<LintIssue>): boolean {
+    if (issues.length === 0 || this.isBackingOff(paragraphText)) return false;
+    const verdicts = this.verdicts.get(paragraphText);
+    return !verdicts || issues.some((issue) => !verdicts.has(issueKey(issue)));
+  }
+
+  async validate(
+    paragraphs: ReadonlyArray<{ text: string; issues: ReadonlyArray<LintIssue> }>,
+    signal: AbortSignal,
+  ): Promise<boolean> {
+    const client = getAiClient("lint-validation");
+    if (!client.isConfigured()) return false;
+
+    const batch = paragraphs
+      .filter((p) => this.hasPending(p.text, p.issues))
+      .slice(0, MAX_PARAGRAPHS_PER_PASS);
+
+    let stored = false;
+    for (const paragraph of batch) {
+      if (signal.aborted) return stored;
+      const known = this.verdicts.get(paragraph.text);
+      const pending = paragraph.issues.filter((issue) => !known?.has(issueKey(issue)));
+      if (pending.length === 0) continue;
+
+      let results: LintValidationResult[];
+      try {
+        results = await client.validateLintIssues(paragraph.text, pending, signal);
+      } catch (err) {
+        if (signal.aborted) return stored;
+        this.recordFailure(paragraph.text);
+        console.warn("[AiLintValidator] Validation request failed:", err);
+        continue;
+      }
+      if (signal.aborted) return stored;
+      this.failures.delete(paragraph.text);
+
+      const verdicts: ParagraphVerdicts = this.verdicts.get(paragraph.text) ?? new Map();
+      for (const issue of pending) verdicts.set(issueKey(issue), null);
+      for (const r of results) {
+        verdicts.set(issueKey(pending[r.issueIndex]), {
+          isGenuine: r.isGenuine,
+          reasoning: r.reasoning,
+        });
+      }
+      this.verdicts.set(paragraph.text, verdicts);
+      stored = true;
+    }
+    return stored;
+  }
+
+  private isBackingOff(paragraphText: string): boolean {
+    const failure = this.failures.get(paragraphText);
+    return failure !== undefined && Date.now() < failure.retryAt;
+  }
+
+  private recordFailure(paragraphText: string): void {
+    const count = (this.failures.get(paragraphText)?.count ?? 0) + 1;
+    const delay = Math.min(FAILURE_BACKOFF_MS * 2 ** (count - 1), MAX_FAILURE_BACKOFF_MS);
+    this.failures.set(paragraphText, { count, retryAt: Date.now() + delay });
+  }
+}
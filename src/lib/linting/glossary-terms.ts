@@ -0,0 +1,39 @@
+/**
+ * Project glossary (用語集) as seen by the lint pipeline and the editor.
+ *
+ * Like {@link ./preferred-spellings}, the glossary rule
+ * (`novel-glossary-variant`) runs synchronously and cannot read
+ * `.illusions/glossary.json` itself: the editor page loads the glossary (see
+ * use-glossary) and publishes it here. The editor's term highlighting
+ * (glossary-highlight-plugin) lives in every open pane, so it subscribes to
+ * publishes instead of being handed the list through props.
+ */
+import type { GlossaryEntry } from "@/lib/project/project-types";
+
+let current: ReadonlyArray<GlossaryEntry> = [];
+const listeners = new Set<() => void>();
+
+/** Replace the published glossary (pass `[]` when no project is open). */
+export function setGlossaryEntries(entries: ReadonlyArray<GlossaryEntry>): void {
+  current = entries;
+  for (const listener of listeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn("[glossary-terms] listener failed:", err);
+    }
+  }
+}
+
+/** The glossary published by the editor page; empty until a project loads one. */
+export function getGlossaryEntries(): ReadonlyArray<GlossaryEntry> {
+  return current;
+}
+
+/** Subscribe to publishes. Returns an unsubscribe function. */
+export function subscribeGlossaryEntries(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
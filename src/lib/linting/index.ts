@@ -4,6 +4,9 @@ export type {
   RuleLevel,
   Severity,
   LintIssue,
+  LintIssueGroup,
+  LintIssueValidation,
+  LintIssueValidator,
   LintRule,
   LintRuleConfig,
   LintReference,
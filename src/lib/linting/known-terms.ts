@@ -12,7 +12,8 @@
  *   out-of-dict-style rule.
  *
  * Two requirements, one mechanism:
- *   1. User dictionary words (built-in source, below).
+ *   1. User dictionary words and project glossary terms (built-in sources,
+ *      below).
  *   2. Words registered in ANOTHER dictionary ruleset. This is the generic
  *      extension point: a future dictionary ruleset registers its own source via
  *      {@link registerKnownTermsSource} and its vocabulary is unioned in.
@@ -32,6 +33,7 @@
 import type { DictLookup } from "@/lib/dict/dict-types";
 import type { EditorMode } from "@/lib/project/project-types";
 import { isProjectMode, isStandaloneMode } from "@/lib/project/project-types";
+import { getGlossaryService } from "@/lib/services/glossary-service";
 import { getUserDictionaryService } from "@/lib/services/user-dictionary-service";
 
 /** Context handed to every {@link KnownTermsSource} when collecting terms. */
@@ -131,3 +133,16 @@ const userDictionarySource: KnownTermsSource = async ({ editorMode }) => {
 };
 
 registerKnownTermsSource("user-dictionary", userDictionarySource);
+
+/**
+ * Built-in source: the project glossary (用語集). Every spelling the author
+ * accepts — the term and its allowed variants — is a known word. Standalone
+ * files have no glossary.
+ */
+const glossarySource: KnownTermsSource = async ({ editorMode }) => {
+  if (!isProjectMode(editorMode)) return [];
+  const entries = await getGlossaryService().loadEntries();
+  return entries.flatMap((e) => [e.term, ...e.variants]);
+};
+
+registerKnownTermsSource("glossary", glossarySource);
@@ -1,5 +1,6 @@
 import type { Severity } from "./types";
 import type { CorrectionModeId, GuidelineId } from "./correction-config";
+import { NOVEL_RULES_META } from "./rules/novel-rules-meta";
 
 /** Static metadata for lint rules displayed in settings and inspector */
 export interface LintRuleMeta {
@@ -18,9 +19,16 @@ export interface LintRuleMeta {
   applicableModes: CorrectionModeId[];
 }
 
-// All built-in JTF rules have been migrated to an external ruleset repo.
-// This array is intentionally empty; rules are loaded via the external ruleset loader.
-export const LINT_RULES_META: LintRuleMeta[] = [];
+// All built-in JTF rules have been migrated to an external ruleset repo and are
+// loaded via the external ruleset loader. Only the built-in novel-prose (L2)
+// pack from `./rules` remains here.
+export const LINT_RULES_META: LintRuleMeta[] = NOVEL_RULES_META.map((meta) => ({
+  id: meta.ruleId,
+  nameJa: meta.nameJa,
+  descriptionJa: meta.descriptionJa,
+  supportsSkipDialogue: meta.supportsSkipDialogue,
+  applicableModes: [...meta.applicableModes],
+}));
 
 /** Category grouping for rule display */
 export interface LintRuleCategory {
@@ -37,8 +45,15 @@ export interface LintRuleCategory {
   rules: string[];
 }
 
-// All built-in categories have been migrated to external ruleset repos.
-export const LINT_RULE_CATEGORIES: LintRuleCategory[] = [];
+// All other built-in categories have been migrated to external ruleset repos.
+export const LINT_RULE_CATEGORIES: LintRuleCategory[] = [
+  {
+    id: "builtin-novel",
+    nameJa: "小説の文章（内蔵）",
+    publisherJa: "illusions",
+    rules: NOVEL_RULES_META.map((meta) => meta.ruleId),
+  },
+];
 
 /** Per-rule config shape used in presets and settings */
 export interface LintRulePresetConfig {
@@ -48,7 +63,18 @@ export interface LintRulePresetConfig {
 }
 
 /** Default configs per rule -- used as standard mode */
-export const LINT_DEFAULT_CONFIGS: Record<string, LintRulePresetConfig> = {};
+export const LINT_DEFAULT_CONFIGS: Record<string, LintRulePresetConfig> = Object.fromEntries(
+  NOVEL_RULES_META.map((meta): [string, LintRulePresetConfig] => [
+    meta.ruleId,
+    {
+      enabled: meta.defaultConfig.enabled,
+      severity: meta.defaultConfig.severity,
+      ...(meta.defaultConfig.skipDialogue !== undefined
+        ? { skipDialogue: meta.defaultConfig.skipDialogue }
+        : {}),
+    },
+  ]),
+);
 
 /** Preset configuration for one-shot application */
 export interface LintPreset {
@@ -56,22 +82,36 @@ export interface LintPreset {
   configs: Record<string, LintRulePresetConfig>;
 }
 
+/**
+ * Preset configs for the built-in novel pack: each rule is enabled exactly when
+ * `mode` (a representative mode of the preset) is in its applicableModes, so the
+ * presets and {@link buildModeRuleConfigs} agree.
+ */
+function novelPackPresetConfigs(mode: CorrectionModeId): Record<string, LintRulePresetConfig> {
+  return Object.fromEntries(
+    NOVEL_RULES_META.map((meta): [string, LintRulePresetConfig] => [
+      meta.ruleId,
+      { ...LINT_DEFAULT_CONFIGS[meta.ruleId], enabled: meta.applicableModes.includes(mode) },
+    ]),
+  );
+}
+
 export const LINT_PRESETS: Record<string, LintPreset> = {
   relaxed: {
     nameJa: "寛容モード",
-    configs: {},
+    configs: novelPackPresetConfigs("sns"),
   },
   standard: {
     nameJa: "標準モード",
-    configs: { ...LINT_DEFAULT_CONFIGS },
+    configs: { ...LINT_DEFAULT_CONFIGS, ...novelPackPresetConfigs("blog") },
   },
   strict: {
     nameJa: "厳密モード",
-    configs: {},
+    configs: novelPackPresetConfigs("official"),
   },
   novel: {
     nameJa: "小説モード",
-    configs: {},
+    configs: novelPackPresetConfigs("novel"),
   },
 };
 
@@ -89,8 +129,8 @@ import { MODE_TO_PRESET } from "./correction-modes";
  * severity comes from the mode's preset (or the default config as a fallback).
  * This is the single source applied on mode switch by every call site.
  *
- * With an empty LINT_RULES_META (all rules now come from external rulesets),
- * this function returns an empty object.
+ * LINT_RULES_META only lists the built-in novel pack (everything else comes
+ * from external rulesets), so the result covers just those rules.
  */
 export function buildModeRuleConfigs(
   modeId: CorrectionModeId,
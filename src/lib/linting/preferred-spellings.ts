@@ -0,0 +1,23 @@
+/**
+ * Project preferred-spelling table as seen by the lint pipeline.
+ *
+ * The 表記ゆれ rule (`novel-notation-variant`) runs synchronously on the main
+ * thread, so it cannot read `.illusions/preferred-spellings.json` itself. The
+ * editor page loads the table (see use-preferred-spellings) and publishes it
+ * here; the rule reads the current snapshot on every pass. Like
+ * {@link ./known-terms}, this is application state, not rule config: it
+ * belongs to the open project rather than to the user's settings.
+ */
+import type { PreferredSpelling } from "@/lib/project/project-types";
+
+let current: ReadonlyArray<PreferredSpelling> = [];
+
+/** Replace the published table (pass `[]` when no project is open). */
+export function setPreferredSpellings(entries: ReadonlyArray<PreferredSpelling>): void {
+  current = entries;
+}
+
+/** The table published by the editor page; empty until a project loads one. */
+export function getPreferredSpellings(): ReadonlyArray<PreferredSpelling> {
+  return current;
+}
@@ -1,22 +1,22 @@
 import type { LintRule, RuleLevel } from "@/lib/linting/types";
+import { createNovelRules } from "@/lib/linting/rules";
 
 /**
  * Return all hand-written rule instances (morphological L2 rules and other
  * non-JSON-driven rules).
  *
- * Currently empty: the hand-written L2 (kuromoji) rules were removed when dev
- * was re-aligned to the v1.2.7 rollback baseline — they were NOT migrated to
- * the JSON-driven factories, which cover L1 (regex) rules only.
+ * Currently the built-in novel-prose pack (`src/lib/linting/rules`): ら抜き,
+ * い抜き, さ入れ, 二重敬語, 助詞の重複 and 文末「た」の連続.
  *
- * This is a live registration point, not dead code: `RuleRunnerProxy`
+ * This is a live registration point: `RuleRunnerProxy`
  * (packages/milkdown-plugin-japanese-novel/linting-plugin/worker/rule-runner-proxy.ts)
  * registers any morphological rules returned here onto its main-thread
- * RuleRunner. Re-add future L2 rules HERE — not in the JSON-driven factories —
+ * RuleRunner. Add future L2 rules HERE — not in the JSON-driven factories —
  * so they run on the main thread, where kuromoji tokenization is available
  * (it is not available inside the lint worker).
  */
 export function getAllRules(): LintRule[] {
-  return [];
+  return createNovelRules();
 }
 
 /**
@@ -0,0 +1,316 @@
+/**
+ * Built-in novel (L2) rule pack, run against the real IPADIC dictionary shipped
+ * with the `kuromoji` package (the source of `public/dict`) — the rules depend
+ * on its exact segmentation.
+ *
+ * Each rule's docs examples double as golden tests, as for external rulesets:
+ * the positive example must yield 0 issues and the negative example >= 1.
+ * Rules reading project state get the fixture their examples assume
+ * (`novel-glossary-variant`: the term 魔導士).
+ */
+import { describe, it, expect, beforeAll, afterEach } from "vitest";
+import path from "path";
+
+import { nlpProcessor } from "@/lib/nlp-backend/nlp-processor";
+import type { Token } from "@/lib/nlp-client/types";
+import { isMorphologicalDocumentLintRule, isMorphologicalLintRule } from "../../types";
+import type { LintIssue, LintRule, LintRuleConfig } from "../../types";
+import { setGlossaryEntries } from "../../glossary-terms";
+import { setPreferredSpellings } from "../../preferred-spellings";
+import type { GlossaryEntry } from "@/lib/project/project-types";
+import { NOVEL_RULES_META, createNovelRules } from "..";
+
+const DIC_PATH = path.join(process.cwd(), "node_modules/kuromoji/dict");
+
+const GLOSSARY_FIXTURE: GlossaryEntry[] = [
+  { id: "madoushi", term: "魔導士", reading: "まどうし", definition: "", variants: [] },
+];
+
+beforeAll(async () => {
+  if (!nlpProcessor.isInitialized()) {
+    await nlpProcessor.init(DIC_PATH);
+  }
+  setGlossaryEntries(GLOSSARY_FIXTURE);
+}, 30000);
+
+const RULES = new Map(createNovelRules().map((rule) => [rule.id, rule]));
+
+function getRule(id: string): LintRule {
+  const rule = RULES.get(id);
+  if (!rule) throw new Error(`rule ${id} not registered`);
+  return rule;
+}
+
+/** Lint each paragraph (split on newlines) with the rule's default config plus overrides. */
+async function lint(
+  ruleId: string,
+  text: string,
+  overrides: Partial<LintRuleConfig> = {},
+): Promise<LintIssue[]> {
+  const rule = getRule(ruleId);
+  const config = { ...rule.defaultConfig, ...overrides };
+  const paragraphs: Array<{ text: string; index: number; tokens: Token[] }> = [];
+  for (const [index, line] of text.split("\n").entries()) {
+    paragraphs.push({ text: line, index, tokens: await nlpProcessor.tokenize(line) });
+  }
+  if (isMorphologicalDocumentLintRule(rule)) {
+    return rule.lintDocumentWithTokens(paragraphs, config).flatMap((r) => r.issues);
+  }
+  if (isMorphologicalLintRule(rule)) {
+    return paragraphs.flatMap((p) => rule.lintWithTokens(p.text, p.tokens, config));
+  }
+  throw new Error(`rule ${ruleId} is not morphological`);
+}
+
+describe("novel rule pack — registration", () => {
+  it("instantiates one L2 rule per metadata entry", () => {
+    expect([...RULES.keys()]).toEqual(NOVEL_RULES_META.map((m) => m.ruleId));
+    for (const meta of NOVEL_RULES_META) {
+      const rule = getRule(meta.ruleId);
+      expect(rule.level).toBe("L2");
+      expect(rule.engine).toBe("morphological");
+      expect(rule.nameJa).toBe(meta.nameJa);
+    }
+  });
+});
+
+describe.each(NOVEL_RULES_META.map((meta) => [meta.ruleId, meta.docs] as const))(
+  "golden examples: %s",
+  (ruleId, docs) => {
+    it("positive example yields no issues", async () => {
+      expect(await lint(ruleId, docs.positiveExample)).toEqual([]);
+    });
+
+    it("negative example yields at least one issue", async () => {
+      const issues = await lint(ruleId, docs.negativeExample);
+      expect(issues.length).toBeGreaterThanOrEqual(1);
+      for (const issue of issues) {
+        expect(issue.ruleId).toBe(ruleId);
+        expect(docs.negativeExample.slice(issue.from, issue.to)).toBe(issue.originalText);
+      }
+    });
+  },
+);
+
+describe("novel-ra-nuki", () => {
+  it("inserts ら for split and fused forms", async () => {
+    const issues = await lint("novel-ra-nuki", "今日は来れるし、花も見れる。服は着れる。");
+    expect(issues.map((i) => [i.originalText, i.fix?.replacement])).toEqual([
+      ["来れる", "来られる"],
+      ["見れる", "見られる"],
+      ["着れる", "着られる"],
+    ]);
+  });
+
+  it("does not flag godan potentials or passives", async () => {
+    expect(await lint("novel-ra-nuki", "手紙が書ける。先生に叱られる。")).toEqual([]);
+  });
+
+  it("skips dialogue by default and checks it when disabled", async () => {
+    const text = "「もう寝れるよ」と彼は言った。";
+    expect(await lint("novel-ra-nuki", text)).toEqual([]);
+    expect(await lint("novel-ra-nuki", text, { skipDialogue: false })).toHaveLength(1);
+  });
+});
+
+describe("novel-i-nuki", () => {
+  it("restores い in てる / でた", async () => {
+    const issues = await lint("novel-i-nuki", "本を読んでる。雨が降ってた。");
+    expect(issues.map((i) => i.fix?.replacement)).toEqual(["でいる", "てい"]);
+  });
+});
+
+describe("novel-sa-ire", () => {
+  it("drops the superfluous さ", async () => {
+    const [issue] = await lint("novel-sa-ire", "この本を読まさせてください。");
+    expect(issue.originalText).toBe("読まさせ");
+    expect(issue.fix?.replacement).toBe("読ませ");
+  });
+
+  it("accepts the correct causative of ichidan and suru verbs", async () => {
+    expect(await lint("novel-sa-ire", "野菜を食べさせる。練習をさせる。")).toEqual([]);
+  });
+});
+
+describe("novel-double-honorific", () => {
+  it("flags お〜になられる and お + respect verb + になる", async () => {
+    const issues = await lint(
+      "novel-double-honorific",
+      "社長がお帰りになられた。お召し上がりになる。",
+    );
+    expect(issues.map((i) => i.originalText)).toEqual(["お帰りになられ", "お召し上がりになる"]);
+  });
+
+  it("accepts single honorifics and plain passives", async () => {
+    expect(await lint("novel-double-honorific", "社長がお帰りになった。彼が読まれた。")).toEqual(
+      [],
+    );
+  });
+});
+
+describe("novel-doubled-particle", () => {
+  it("fixes a directly repeated particle", async () => {
+    const [issue] = await lint("novel-doubled-particle", "これは私のの本だ。");
+    expect(issue.originalText).toBe("のの");
+    expect(issue.fix?.replacement).toBe("の");
+  });
+
+  it("flags a chain of three adnominal の", async () => {
+    const issues = await lint("novel-doubled-particle", "東京の大学の先生の話を聞く。");
+    expect(issues.map((i) => i.originalText)).toEqual(["の大学の先生の"]);
+  });
+
+  it("checks each sentence separately", async () => {
+    expect(await lint("novel-doubled-particle", "彼が来た。私が見た。")).toEqual([]);
+  });
+
+  it("honors the particles option", async () => {
+    const text = "今日は天気は良い。";
+    expect(await lint("novel-doubled-particle", text)).toHaveLength(1);
+    expect(await lint("novel-doubled-particle", text, { options: { particles: ["が"] } })).toEqual(
+      [],
+    );
+  });
+});
+
+describe("novel-repeated-ta-ending", () => {
+  it("follows the run across paragraphs and reports every sentence past the threshold", async () => {
+    const issues = await lint(
+      "novel-repeated-ta-ending",
+      "彼は歩いた。\n空が青かった。\n風が吹いた。\n鳥が鳴いた。",
+    );
+    expect(issues.map((i) => i.originalText)).toEqual(["吹いた", "鳴いた"]);
+  });
+
+  it("a dialogue-only paragraph breaks the run", async () => {
+    expect(
+      await lint(
+        "novel-repeated-ta-ending",
+        "彼は歩いた。空が青かった。\n「おはよう」\n風が吹いた。",
+      ),
+    ).toEqual([]);
+  });
+
+  it("counts dialogue sentences only when skipDialogue is off", async () => {
+    const text = "「歩いた。」\n「笑った。」\n「跳んだ。」";
+    expect(await lint("novel-repeated-ta-ending", text)).toEqual([]);
+    expect(
+      (await lint("novel-repeated-ta-ending", text, { skipDialogue: false })).map(
+        (i) => i.originalText,
+      ),
+    ).toEqual(["跳んだ"]);
+  });
+
+  it("honors the threshold option", async () => {
+    expect(
+      await lint("novel-repeated-ta-ending", "彼は歩いた。空が青かった。", {
+        options: { threshold: 2 },
+      }),
+    ).toHaveLength(1);
+  });
+});
+
+describe("novel-notation-variant", () => {
+  afterEach(() => setPreferredSpellings([]));
+
+  it("flags minority spellings across paragraphs with a fix to the majority", async () => {
+    const issues = await lint(
+      "novel-notation-variant",
+      "泳ぐことが出来る。\n走ることもできる。\n歌うことはできた。\n子供が笑う。子どもが歌う。",
+    );
+    expect(issues.map((i) => [i.originalText, i.fix?.replacement])).toEqual([
+      ["出来る", "できる"],
+      ["子ども", "子供"],
+    ]);
+  });
+
+  it("keeps the conjugated ending when respelling", async () => {
+    const [issue] = await lint("novel-notation-variant", "できる。できる。出来た。");
+    expect(issue.originalText).toBe("出来");
+    expect(issue.fix?.replacement).toBe("でき");
+  });
+
+  it("folds katakana variants such as ヴァ / バ", async () => {
+    const [issue] = await lint(
+      "novel-notation-variant",
+      "バイオリンを弾く。バイオリンが鳴る。ヴァイオリンを置く。",
+    );
+    expect(issue.originalText).toBe("ヴァイオリン");
+    expect(issue.fix?.replacement).toBe("バイオリン");
+  });
+
+  it("groups the issues of one cluster", async () => {
+    const issues = await lint(
+      "novel-notation-variant",
+      "子ども。子ども。子供。子供の声。\n子ども。",
+    );
+    expect(issues).toHaveLength(2);
+    expect(new Set(issues.map((i) => i.group?.id)).size).toBe(1);
+    expect(issues[0].group?.labelJa).toBe("子ども／子供");
+    expect(issues[0].group?.spellings).toEqual(["子ども", "子供"]);
+    expect(issues[0].group?.preferred).toBeUndefined();
+  });
+
+  it("does not mix up homophones written with different kanji", async () => {
+    expect(await lint("novel-notation-variant", "橋を渡る。箸を置く。紙と神。かみ。")).toEqual([]);
+  });
+
+  it("honours the project preferred-spelling table", async () => {
+    setPreferredSpellings([{ preferred: "子ども", variants: ["子供"] }]);
+    const issues = await lint("novel-notation-variant", "子供が笑う。子供が歌う。");
+    expect(issues.map((i) => i.fix?.replacement)).toEqual(["子ども", "子ども"]);
+    expect(issues[0].messageJa).toContain("優先表記");
+    expect(issues[0].group?.preferred).toBe("子ども");
+  });
+});
+
+describe("novel-glossary-variant", () => {
+  afterEach(() => setGlossaryEntries(GLOSSARY_FIXTURE));
+
+  it("respells other spellings with the same reading as the term", async () => {
+    const issues = await lint(
+      "novel-glossary-variant",
+      "魔導士が来た。\n魔道士が去った。まどうしは笑った。",
+    );
+    expect(issues.map((i) => [i.originalText, i.fix?.replacement])).toEqual([
+      ["魔道士", "魔導士"],
+      ["まどうし", "魔導士"],
+    ]);
+    expect(new Set(issues.map((i) => i.group?.id))).toEqual(
+      new Set(["novel-glossary-variant:madoushi"]),
+    );
+  });
+
+  it("learns the reading of the term from the document", async () => {
+    // No reading given: 精霊術士 is read セイレイ・ジュツ・シ where it occurs.
+    setGlossaryEntries([{ id: "s", term: "精霊術士", definition: "", variants: [] }]);
+    const issues = await lint("novel-glossary-variant", "精霊術士が来た。精霊術師が来た。");
+    expect(issues.map((i) => i.originalText)).toEqual(["精霊術師"]);
+  });
+
+  it("accepts the allowed variants", async () => {
+    setGlossaryEntries([{ ...GLOSSARY_FIXTURE[0], variants: ["魔道士"] }]);
+    expect(await lint("novel-glossary-variant", "魔道士が去った。")).toEqual([]);
+  });
+
+  it("leaves homophones and other scripts of kana terms alone", async () => {
+    setGlossaryEntries([
+      { id: "a", term: "アルカナ", definition: "", variants: [] },
+      { id: "k", term: "神", reading: "かみ", definition: "", variants: [] },
+    ]);
+    expect(await lint("novel-glossary-variant", "ここにあるかな。紙を折る。")).toEqual([]);
+  });
+
+  it("skips a reading shared by two terms", async () => {
+    setGlossaryEntries([
+      GLOSSARY_FIXTURE[0],
+      { id: "other", term: "窓牛", reading: "まどうし", definition: "", variants: [] },
+    ]);
+    expect(await lint("novel-glossary-variant", "魔道士が去った。")).toEqual([]);
+  });
+
+  it("reports nothing without a glossary", async () => {
+    setGlossaryEntries([]);
+    expect(await lint("novel-glossary-variant", "魔道士が去った。")).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import type { Token } from "@/lib/nlp-client/types";
+
+import { AbstractMorphologicalLintRule } from "../base-rule";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, isVerb } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-double-honorific");
+
+/** Verbs that are already 尊敬語 on their own (basic form). */
+const RESPECT_VERBS = new Set([
+  "おっしゃる",
+  "仰る",
+  "いらっしゃる",
+  "召し上がる",
+  "召しあがる",
+  "なさる",
+  "くださる",
+  "下さる",
+]);
+
+/**
+ * 未然形 surfaces of respect verbs that IPADIC mis-lemmatizes before 「られる」
+ * (なさられる → なす, くださられる → くだす).
+ */
+const RESPECT_STEM_SURFACES = new Set(["なさ", "くださ", "下さ"]);
+
+const HONORIFIC_PREFIXES = new Set(["お", "ご", "御"]);
+
+function isRespectVerb(token: Token): boolean {
+  return RESPECT_VERBS.has(token.basic_form ?? "") || RESPECT_STEM_SURFACES.has(token.surface);
+}
+
+/** お/ご-prefixed noun: 「お越し」 as one token, or 接頭詞「お」+「帰り」. */
+function honorificNounStart(tokens: ReadonlyArray<Token>, i: number): number | null {
+  const noun = tokens[i];
+  if (!noun || noun.pos !== "名詞") return null;
+  if (HONORIFIC_PREFIXES.has(noun.surface.slice(0, 1)) && noun.surface.length > 1) {
+    return noun.start;
+  }
+  const prefix = tokens[i - 1];
+  if (prefix?.pos === "接頭詞" && HONORIFIC_PREFIXES.has(prefix.surface)) return prefix.start;
+  return null;
+}
+
+/** Whether `token` is the passive/honorific suffix 「れる」/「られる」. */
+function isRareruSuffix(token: Token): boolean {
+  return isVerb(token, "接尾") && (token.basic_form === "れる" || token.basic_form === "られる");
+}
+
+/**
+ * 二重敬語: a form already honorific stacked with a second honorific device.
+ *
+ * - respect verb + 「れる・られる」 (おっしゃられる, 召し上がられた)
+ * - 「お〜になる」 + 「れる」 (お帰りになられた, ご覧になられる)
+ * - 「お」 + respect verb + 「になる」 (お召し上がりになる)
+ *
+ * Choosing between the two honorific devices depends on the sentence, so no
+ * automatic fix is offered.
+ */
+export class DoubleHonorificRule extends AbstractMorphologicalLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintWithTokens(text: string, tokens: ReadonlyArray<Token>, config: LintRuleConfig): LintIssue[] {
+    if (!config.enabled) return [];
+    const inDialogue = config.skipDialogue ? createDialogueFilter(text) : () => false;
+    const issues: LintIssue[] = [];
+
+    for (let i = 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      const from = this.matchStart(tokens, i);
+      if (from === null || inDialogue(token)) continue;
+      const original = text.slice(from, token.end);
+      issues.push({
+        ruleId: this.id,
+        severity: config.severity,
+        message: `Double honorific: "${original}" stacks two honorific forms`,
+        messageJa: `二重敬語です。「${original}」は尊敬表現が重なっています`,
+        from,
+        to: token.end,
+        originalText: original,
+      });
+    }
+    return issues;
+  }
+
+  /** Start offset of a double honorific ending at `tokens[i]`, or null. */
+  private matchStart(tokens: ReadonlyArray<Token>, i: number): number | null {
+    const token = tokens[i];
+    const prev = tokens[i - 1];
+
+    if (isRareruSuffix(token) && isVerb(prev, "自立") && prev.conjugation_form === "未然形") {
+      if (isRespectVerb(prev)) return prev.start;
+      // お〜になる + れる
+      if (prev.basic_form === "なる" && tokens[i - 2]?.surface === "に") {
+        return honorificNounStart(tokens, i - 3);
+      }
+      return null;
+    }
+
+    // お + respect verb + になる
+    if (isVerb(token, "自立") && token.basic_form === "なる" && prev?.surface === "に") {
+      const verb = tokens[i - 2];
+      const prefix = tokens[i - 3];
+      if (
+        isVerb(verb, "自立") &&
+        RESPECT_VERBS.has(verb.basic_form ?? "") &&
+        prefix?.pos === "接頭詞" &&
+        HONORIFIC_PREFIXES.has(prefix.surface)
+      ) {
+        return prefix.start;
+      }
+    }
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+import type { Token } from "@/lib/nlp-client/types";
+
+import { AbstractMorphologicalLintRule } from "../base-rule";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, splitSentences } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-doubled-particle");
+
+const DEFAULT_PARTICLES = ["が", "を", "は"];
+const DEFAULT_MAX_NO_CHAIN = 2;
+
+/** POS detail each checked particle must carry (excludes e.g. 接続助詞「が」). */
+const PARTICLE_DETAIL: Readonly<Record<string, string>> = {
+  が: "格助詞",
+  を: "格助詞",
+  に: "格助詞",
+  で: "格助詞",
+  へ: "格助詞",
+  と: "格助詞",
+  は: "係助詞",
+  も: "係助詞",
+};
+
+function isParticle(token: Token | undefined): token is Token {
+  return token?.pos === "助詞";
+}
+
+function isAdnominalNo(token: Token): boolean {
+  return isParticle(token) && token.surface === "の" && token.pos_detail_1 === "連体化";
+}
+
+function readOptions(config: LintRuleConfig): { particles: string[]; maxNoChain: number } {
+  const particles = config.options?.particles;
+  const maxNoChain = config.options?.maxNoChain;
+  return {
+    particles:
+      Array.isArray(particles) && particles.every((p) => typeof p === "string")
+        ? particles
+        : DEFAULT_PARTICLES,
+    maxNoChain:
+      typeof maxNoChain === "number" && maxNoChain >= 1 ? maxNoChain : DEFAULT_MAX_NO_CHAIN,
+  };
+}
+
+/**
+ * 同じ助詞の連続, checked per sentence:
+ *
+ * - the same particle twice in a row (「のの」「がが」) — a typo, fixed by dropping one
+ * - a checked particle (が・を・は by default) used twice in one sentence
+ * - a chain of more than `maxNoChain` adnominal 「の」 linking nouns (AのBのCのD)
+ */
+export class DoubledParticleRule extends AbstractMorphologicalLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintWithTokens(text: string, tokens: ReadonlyArray<Token>, config: LintRuleConfig): LintIssue[] {
+    if (!config.enabled) return [];
+    const inDialogue = config.skipDialogue ? createDialogueFilter(text) : () => false;
+    const { particles, maxNoChain } = readOptions(config);
+    const issues: LintIssue[] = [];
+
+    for (const sentence of splitSentences(tokens)) {
+      const checked = sentence.filter((t) => !inDialogue(t));
+      issues.push(...this.lintAdjacent(checked, config));
+      issues.push(...this.lintRepeated(checked, particles, config));
+      issues.push(...this.lintNoChain(text, checked, maxNoChain, config));
+    }
+    return issues.sort((a, b) => a.from - b.from);
+  }
+
+  private lintAdjacent(sentence: ReadonlyArray<Token>, config: LintRuleConfig): LintIssue[] {
+    const issues: LintIssue[] = [];
+    for (let i = 1; i < sentence.length; i++) {
+      const prev = sentence[i - 1];
+      const token = sentence[i];
+      if (!isParticle(prev) || !isParticle(token)) continue;
+      if (prev.surface !== token.surface || prev.end !== token.start) continue;
+      const original = `${prev.surface}${token.surface}`;
+      issues.push({
+        ruleId: this.id,
+        severity: config.severity,
+        message: `Particle "${token.surface}" is duplicated`,
+        messageJa: `助詞「${token.surface}」が重複しています（「${original}」）`,
+        from: prev.start,
+        to: token.end,
+        originalText: original,
+        fix: {
+          label: `Replace with "${token.surface}"`,
+          labelJa: `「${token.surface}」に置換`,
+          replacement: token.surface,
+        },
+      });
+    }
+    return issues;
+  }
+
+  private lintRepeated(
+    sentence: ReadonlyArray<Token>,
+    particles: ReadonlyArray<string>,
+    config: LintRuleConfig,
+  ): LintIssue[] {
+    const issues: LintIssue[] = [];
+    const seen = new Map<string, Token>();
+    for (const token of sentence) {
+      if (!isParticle(token) || !particles.includes(token.surface)) continue;
+      const detail = PARTICLE_DETAIL[token.surface];
+      if (detail !== undefined && token.pos_detail_1 !== detail) continue;
+
+      const first = seen.get(token.surface);
+      if (!first) {
+        seen.set(token.surface, token);
+        continue;
+      }
+      // Directly adjacent duplicates are reported by lintAdjacent.
+      if (first.end === token.start) continue;
+      issues.push({
+        ruleId: this.id,
+        severity: config.severity,
+        message: `Particle "${token.surface}" appears more than once in this sentence`,
+        messageJa: `一文の中で助詞「${token.surface}」が重複しています`,
+        from: token.start,
+        to: token.end,
+        originalText: token.surface,
+      });
+    }
+    return issues;
+  }
+
+  private lintNoChain(
+    text: string,
+    sentence: ReadonlyArray<Token>,
+    maxNoChain: number,
+    config: LintRuleConfig,
+  ): LintIssue[] {
+    const issues: LintIssue[] = [];
+    let chain: Token[] = [];
+
+    const flush = (): void => {
+      if (chain.length > maxNoChain) {
+        const from = chain[0].start;
+        const to = chain[chain.length - 1].end;
+        issues.push({
+          ruleId: this.id,
+          severity: config.severity,
+          message: `${chain.length} adnominal "no" particles in a row`,
+          messageJa: `「の」が${chain.length}回続いています`,
+          from,
+          to,
+          originalText: text.slice(from, to),
+        });
+      }
+      chain = [];
+    };
+
+    let lastIndex = -1;
+    sentence.forEach((token, i) => {
+      if (!isAdnominalNo(token)) return;
+      if (chain.length > 0) {
+        // Only nouns may sit between two linked 「の」.
+        const between = sentence.slice(lastIndex + 1, i);
+        if (between.length === 0 || !between.every((t) => t.pos === "名詞")) flush();
+      }
+      chain.push(token);
+      lastIndex = i;
+    });
+    flush();
+    return issues;
+  }
+}
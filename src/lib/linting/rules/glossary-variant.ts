@@ -0,0 +1,227 @@
+import type { Token } from "@/lib/nlp-client/types";
+import { isAllKana, toKatakana } from "@/lib/dict/kana";
+import type { GlossaryEntry } from "@/lib/project/project-types";
+
+import { AbstractMorphologicalDocumentLintRule } from "../base-rule";
+import { getGlossaryEntries } from "../glossary-terms";
+import { nfkc } from "../toolkit/nfkc";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, readingKey } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-glossary-variant");
+
+/** Longest run of tokens read as one term (coined words split into many pieces). */
+const MAX_SPAN_TOKENS = 6;
+
+/** Readings shorter than this are too common to be told apart from other words. */
+const MIN_KEY_LENGTH = 2;
+
+/** An all-kana spelling needs this long a reading to count as the term. */
+const MIN_KANA_KEY_LENGTH = 3;
+
+const HIRAGANA = /^[ぁ-ゖ]$/;
+
+/** A term never starts with these. */
+const NON_INITIAL_POS = new Set(["助詞", "助動詞"]);
+
+interface Paragraph {
+  text: string;
+  index: number;
+  tokens: ReadonlyArray<Token>;
+}
+
+interface Span {
+  from: number;
+  to: number;
+  /** Number of tokens covered */
+  length: number;
+  surface: string;
+  key: string;
+}
+
+interface IndexedEntry {
+  entry: GlossaryEntry;
+  /** Approved spellings (term + variants), NFKC-normalized */
+  approved: Set<string>;
+  /** Characters of the approved spellings except hiragana, for the shared-character test */
+  letters: Set<string>;
+  /** Whether the term or a variant is written in kana only */
+  hasKanaSpelling: boolean;
+}
+
+function tokenReading(token: Token): string | null {
+  if (token.reading && token.reading !== "*") return token.reading;
+  return isAllKana(token.surface) ? toKatakana(token.surface) : null;
+}
+
+/**
+ * Contiguous token spans starting at `start`, longest first. A span stops at
+ * punctuation, a gap in the text or a token without a reading.
+ */
+function spansAt(paragraph: Paragraph, start: number): Span[] {
+  const { tokens, text } = paragraph;
+  const first = tokens[start];
+  if (NON_INITIAL_POS.has(first.pos)) return [];
+  const spans: Span[] = [];
+  let reading = "";
+  for (let i = start; i < tokens.length && i - start < MAX_SPAN_TOKENS; i++) {
+    const token = tokens[i];
+    if (token.pos === "記号") break;
+    if (i > start && tokens[i - 1].end !== token.start) break;
+    const part = tokenReading(token);
+    if (part === null) break;
+    reading += part;
+    spans.push({
+      from: first.start,
+      to: token.end,
+      length: i - start + 1,
+      surface: text.slice(first.start, token.end),
+      key: readingKey(reading),
+    });
+  }
+  return spans.reverse();
+}
+
+function indexEntries(entries: ReadonlyArray<GlossaryEntry>): IndexedEntry[] {
+  return entries
+    .filter((entry) => entry.term.length > 0)
+    .map((entry) => {
+      const approved = new Set([entry.term, ...entry.variants].map((s) => nfkc(s)));
+      const letters = new Set(
+        [...approved].flatMap((s) => [...s]).filter((ch) => !HIRAGANA.test(ch)),
+      );
+      const hasKanaSpelling = [...approved].some((s) => isAllKana(s));
+      return { entry, approved, letters, hasKanaSpelling };
+    });
+}
+
+/**
+ * Reading keys of every entry: the entry's own reading, its kana spellings and
+ * the readings of approved spellings found in the document (a term entered
+ * without a reading, such as 精霊術士, learns セイレイジュツシ where it occurs
+ * and then catches 精霊術師). A key claimed by two entries is dropped — the rule would
+ * not know which term the writer meant.
+ */
+function buildKeyIndex(
+  indexed: ReadonlyArray<IndexedEntry>,
+  paragraphs: ReadonlyArray<Paragraph>,
+): Map<string, IndexedEntry> {
+  const claims = new Map<string, Set<IndexedEntry>>();
+  const claim = (key: string, item: IndexedEntry): void => {
+    if (key.length < MIN_KEY_LENGTH) return;
+    const set = claims.get(key) ?? new Set();
+    set.add(item);
+    claims.set(key, set);
+  };
+
+  for (const item of indexed) {
+    if (item.entry.reading) claim(readingKey(toKatakana(nfkc(item.entry.reading))), item);
+    for (const spelling of item.approved) {
+      if (isAllKana(spelling)) claim(readingKey(toKatakana(spelling)), item);
+    }
+  }
+  for (const paragraph of paragraphs) {
+    for (let i = 0; i < paragraph.tokens.length; i++) {
+      for (const span of spansAt(paragraph, i)) {
+        const spelling = nfkc(span.surface);
+        for (const item of indexed) {
+          if (item.approved.has(spelling)) claim(span.key, item);
+        }
+      }
+    }
+  }
+
+  const index = new Map<string, IndexedEntry>();
+  for (const [key, items] of claims) {
+    if (items.size === 1) index.set(key, [...items][0]);
+  }
+  return index;
+}
+
+/**
+ * Whether `surface` plausibly spells the term rather than a homophone: it
+ * shares a kanji or katakana with an approved spelling (魔道士 / 魔導士,
+ * バルキリー / ヴァルキリー), or it spells a kanji-only term in kana and is long
+ * enough not to be another word by chance (まどうし). Shared hiragana prove
+ * nothing: 「あるかな」 is not the term アルカナ.
+ */
+function looksLikeTerm(surface: string, key: string, item: IndexedEntry): boolean {
+  if ([...surface].some((ch) => !HIRAGANA.test(ch) && item.letters.has(ch))) return true;
+  return !item.hasKanaSpelling && isAllKana(surface) && key.length >= MIN_KANA_KEY_LENGTH;
+}
+
+/**
+ * 用語集の表記ゆれ: a glossary term written in a spelling the project glossary
+ * (.illusions/glossary.json) does not list (魔導士 written 魔道士 or まどうし).
+ *
+ * Runs of up to {@link MAX_SPAN_TOKENS} tokens are read as one word and
+ * matched by folded reading against the glossary (see {@link buildKeyIndex}),
+ * longest run first. A match is reported when its spelling is neither the term
+ * nor an allowed variant and it looks like the term (see
+ * {@link looksLikeTerm}); the fix respells it as the term. Without a glossary
+ * the rule reports nothing. Issues of one term share a `group`.
+ */
+export class GlossaryVariantRule extends AbstractMorphologicalDocumentLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintDocumentWithTokens(
+    paragraphs: ReadonlyArray<Paragraph>,
+    config: LintRuleConfig,
+  ): Array<{ paragraphIndex: number; issues: LintIssue[] }> {
+    if (!config.enabled) return [];
+    const indexed = indexEntries(getGlossaryEntries());
+    if (indexed.length === 0) return [];
+    const keyIndex = buildKeyIndex(indexed, paragraphs);
+
+    const results: Array<{ paragraphIndex: number; issues: LintIssue[] }> = [];
+    for (const paragraph of paragraphs) {
+      const inDialogue = config.skipDialogue ? createDialogueFilter(paragraph.text) : () => false;
+      const issues: LintIssue[] = [];
+      let i = 0;
+      while (i < paragraph.tokens.length) {
+        let consumed = 1;
+        for (const span of spansAt(paragraph, i)) {
+          const item = keyIndex.get(span.key);
+          if (!item) continue;
+          if (item.approved.has(nfkc(span.surface))) {
+            consumed = span.length;
+            break;
+          }
+          if (!looksLikeTerm(span.surface, span.key, item)) continue;
+          consumed = span.length;
+          if (!inDialogue(paragraph.tokens[i])) issues.push(this.issueFor(span, item, config));
+          break;
+        }
+        i += consumed;
+      }
+      if (issues.length > 0) results.push({ paragraphIndex: paragraph.index, issues });
+    }
+    return results;
+  }
+
+  private issueFor(span: Span, item: IndexedEntry, config: LintRuleConfig): LintIssue {
+    const { term } = item.entry;
+    return {
+      ruleId: this.id,
+      severity: config.severity,
+      message: `"${span.surface}" is not an approved spelling of the glossary term "${term}"`,
+      messageJa: `用語集の表記: 「${span.surface}」は用語「${term}」の登録されていない表記です`,
+      from: span.from,
+      to: span.to,
+      originalText: span.surface,
+      group: { id: `${this.id}:${item.entry.id}`, labelJa: `${term}（用語集）` },
+      fix: {
+        label: `Replace with "${term}"`,
+        labelJa: `「${term}」に統一`,
+        replacement: term,
+      },
+    };
+  }
+}
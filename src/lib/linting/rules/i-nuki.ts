@@ -0,0 +1,55 @@
+import type { Token } from "@/lib/nlp-client/types";
+
+import { AbstractMorphologicalLintRule } from "../base-rule";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, isVerb } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-i-nuki");
+
+/** IPADIC lists the contracted auxiliaries as 非自立 verbs of their own. */
+const I_NUKI_FORMS = new Set(["てる", "でる"]);
+
+/**
+ * い抜き言葉: the contracted 「てる」/「でる」 (してる, 読んでた) after a verb,
+ * fixed by restoring 「い」 (している, 読んでいた).
+ */
+export class INukiRule extends AbstractMorphologicalLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintWithTokens(text: string, tokens: ReadonlyArray<Token>, config: LintRuleConfig): LintIssue[] {
+    if (!config.enabled) return [];
+    const inDialogue = config.skipDialogue ? createDialogueFilter(text) : () => false;
+    const issues: LintIssue[] = [];
+
+    for (let i = 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!isVerb(token, "非自立") || !I_NUKI_FORMS.has(token.basic_form ?? "")) continue;
+      if (!isVerb(tokens[i - 1]) || inDialogue(token)) continue;
+
+      const original = token.surface;
+      const replacement = `${original.slice(0, 1)}い${original.slice(1)}`;
+      issues.push({
+        ruleId: this.id,
+        severity: config.severity,
+        message: `"I-nuki" contraction: use "${replacement}" instead of "${original}"`,
+        messageJa: `い抜き言葉です。「${original}」は「${replacement}」とするのが標準的です`,
+        from: token.start,
+        to: token.end,
+        originalText: original,
+        fix: {
+          label: `Replace with "${replacement}"`,
+          labelJa: `「${replacement}」に置換`,
+          replacement,
+        },
+      });
+    }
+    return issues;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Built-in novel-prose rule pack (L2, kuromoji tokens).
+ *
+ * Registered through `getAllRules()` so `RuleRunnerProxy` hosts them on the
+ * main thread, where tokenization is available.
+ */
+import type { LintRule } from "../types";
+
+import { DoubleHonorificRule } from "./double-honorific";
+import { DoubledParticleRule } from "./doubled-particle";
+import { GlossaryVariantRule } from "./glossary-variant";
+import { INukiRule } from "./i-nuki";
+import { NotationVariantRule } from "./notation-variant";
+import { RaNukiRule } from "./ra-nuki";
+import { RepeatedTaEndingRule } from "./repeated-ta-ending";
+import { SaIreRule } from "./sa-ire";
+
+export { NOVEL_RULES_META, getNovelRuleMeta } from "./novel-rules-meta";
+export type { NovelRuleMeta } from "./novel-rules-meta";
+export {
+  DoubleHonorificRule,
+  DoubledParticleRule,
+  GlossaryVariantRule,
+  INukiRule,
+  NotationVariantRule,
+  RaNukiRule,
+  RepeatedTaEndingRule,
+  SaIreRule,
+};
+
+/** Fresh instances of every built-in novel rule, in NOVEL_RULES_META order. */
+export function createNovelRules(): LintRule[] {
+  return [
+    new RaNukiRule(),
+    new INukiRule(),
+    new SaIreRule(),
+    new DoubleHonorificRule(),
+    new DoubledParticleRule(),
+    new RepeatedTaEndingRule(),
+    new NotationVariantRule(),
+    new GlossaryVariantRule(),
+  ];
+}
@@ -0,0 +1,294 @@
+import type { Token } from "@/lib/nlp-client/types";
+import { isAllKana, toKatakana } from "@/lib/dict/kana";
+import type { PreferredSpelling } from "@/lib/project/project-types";
+
+import { AbstractMorphologicalDocumentLintRule } from "../base-rule";
+import { getPreferredSpellings } from "../preferred-spellings";
+import { nfkc } from "../toolkit/nfkc";
+import type { LintIssue, LintIssueGroup, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, readingKey } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-notation-variant");
+
+/** Noun subcategories that are never notation variants of one another. */
+const EXCLUDED_NOUN_DETAILS = new Set(["数", "非自立", "接尾", "固有名詞", "特殊"]);
+
+const KANJI = /[㐀-鿿豈-﫿々〆]/g;
+
+interface Occurrence {
+  paragraphIndex: number;
+  token: Token;
+}
+
+interface Cluster {
+  key: string;
+  /** Occurrences keyed by spelling (NFKC-normalized base form), in order of first use */
+  spellings: Map<string, Occurrence[]>;
+  /** Spelling from the project table, when the cluster comes from it */
+  preferred?: string;
+}
+
+function isCandidate(token: Token): boolean {
+  switch (token.pos) {
+    case "名詞":
+      return !EXCLUDED_NOUN_DETAILS.has(token.pos_detail_1 ?? "");
+    case "動詞":
+    case "形容詞":
+      return token.pos_detail_1 === "自立";
+    case "副詞":
+      return true;
+    default:
+      return false;
+  }
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+/**
+ * Reading of the token's base form. IPADIC only reads the surface, so the
+ * conjugated kana tail is swapped for the base form's (出来 デキ → 出来る デキル).
+ * Unknown all-kana words are read as written.
+ */
+function lemmaReading(token: Token, lemma: string): string | null {
+  const reading = token.reading && token.reading !== "*" ? token.reading : null;
+  if (!reading) return isAllKana(lemma) ? toKatakana(lemma) : null;
+  if (token.surface === lemma) return reading;
+
+  const prefix = commonPrefixLength(token.surface, lemma);
+  const surfaceTail = token.surface.slice(prefix);
+  const lemmaTail = lemma.slice(prefix);
+  if ((surfaceTail && !isAllKana(surfaceTail)) || (lemmaTail && !isAllKana(lemmaTail))) {
+    return null;
+  }
+  const readTail = toKatakana(surfaceTail);
+  if (!reading.endsWith(readTail)) return null;
+  return reading.slice(0, reading.length - readTail.length) + toKatakana(lemmaTail);
+}
+
+function kanjiSkeleton(spelling: string): string {
+  return (spelling.match(KANJI) ?? []).join("");
+}
+
+function isSubsequence(short: string, long: string): boolean {
+  let i = 0;
+  for (const ch of long) {
+    if (i < short.length && short[i] === ch) i++;
+  }
+  return i === short.length;
+}
+
+/**
+ * Split same-reading spellings into variant clusters. Two kanji spellings are
+ * variants when one's kanji are a subsequence of the other's (子供 / 子ども,
+ * 押さえる / 押える); otherwise they are homophones (橋 / 箸). A kana-only
+ * spelling joins only an unambiguous cluster: 「かみ」 beside both 紙 and 神 is
+ * left alone.
+ */
+function splitByKanji(spellings: ReadonlyArray<string>): string[][] {
+  const kana = spellings.filter((s) => kanjiSkeleton(s) === "");
+  const families: string[][] = [];
+  for (const spelling of spellings) {
+    const skeleton = kanjiSkeleton(spelling);
+    if (skeleton === "") continue;
+    const related = families.filter((family) =>
+      family.some((other) => {
+        const otherSkeleton = kanjiSkeleton(other);
+        return isSubsequence(skeleton, otherSkeleton) || isSubsequence(otherSkeleton, skeleton);
+      }),
+    );
+    const merged = [...related.flat(), spelling];
+    for (const family of related) families.splice(families.indexOf(family), 1);
+    families.push(merged);
+  }
+  if (families.length === 0) return [kana];
+  if (families.length === 1) families[0].push(...kana);
+  return families;
+}
+
+/**
+ * Respell a token from `lemma` to `target`, keeping its conjugated tail
+ * (出来 + 出来る → できる gives でき). Null when the endings do not line up.
+ */
+function respell(surface: string, lemma: string, target: string): string | null {
+  if (surface === lemma) return target;
+  const prefix = commonPrefixLength(surface, lemma);
+  const lemmaTail = lemma.slice(prefix);
+  if (!target.endsWith(lemmaTail)) return null;
+  return target.slice(0, target.length - lemmaTail.length) + surface.slice(prefix);
+}
+
+/** Map every spelling in the project table to its entry's preferred form. */
+function buildPreferredIndex(entries: ReadonlyArray<PreferredSpelling>): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const entry of entries) {
+    const preferred = nfkc(entry.preferred);
+    index.set(preferred, preferred);
+    for (const variant of entry.variants) index.set(nfkc(variant), preferred);
+  }
+  return index;
+}
+
+/**
+ * 表記ゆれ: one word written several ways in the same document (出来る／できる,
+ * 子供／子ども, ヴァイオリン／バイオリン).
+ *
+ * Content words are bucketed across all paragraphs by part of speech and the
+ * folded reading of their base form, then split into variant clusters by their
+ * kanji (see {@link splitByKanji}). Every occurrence of a minority spelling is
+ * reported with a fix to the majority one (ties go to the spelling seen first).
+ * Spellings listed in the project's preferred-spelling table
+ * (.illusions/preferred-spellings.json) are always unified on the table's form,
+ * even when the document uses only a variant. Issues carry a `group` so the
+ * corrections panel lists each cluster together.
+ */
+export class NotationVariantRule extends AbstractMorphologicalDocumentLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintDocumentWithTokens(
+    paragraphs: ReadonlyArray<{
+      text: string;
+      index: number;
+      tokens: ReadonlyArray<Token>;
+    }>,
+    config: LintRuleConfig,
+  ): Array<{ paragraphIndex: number; issues: LintIssue[] }> {
+    if (!config.enabled) return [];
+    const preferredIndex = buildPreferredIndex(getPreferredSpellings());
+    const buckets = new Map<string, Map<string, Occurrence[]>>();
+
+    for (const paragraph of paragraphs) {
+      const inDialogue = config.skipDialogue ? createDialogueFilter(paragraph.text) : () => false;
+      for (const token of paragraph.tokens) {
+        if (!isCandidate(token) || inDialogue(token)) continue;
+        const lemma = token.basic_form && token.basic_form !== "*" ? token.basic_form : null;
+        if (!lemma) continue;
+        const spelling = nfkc(lemma);
+
+        const preferred = preferredIndex.get(spelling);
+        let key: string;
+        if (preferred !== undefined) {
+          key = `preferred:${preferred}`;
+        } else {
+          if (spelling.length < 2 && isAllKana(spelling)) continue;
+          const reading = lemmaReading(token, lemma);
+          if (!reading) continue;
+          key = `${token.pos}:${readingKey(reading)}`;
+        }
+
+        let bucket = buckets.get(key);
+        if (!bucket) {
+          bucket = new Map();
+          buckets.set(key, bucket);
+        }
+        const list = bucket.get(spelling) ?? [];
+        list.push({ paragraphIndex: paragraph.index, token });
+        bucket.set(spelling, list);
+      }
+    }
+
+    const byParagraph = new Map<number, LintIssue[]>();
+    for (const cluster of this.collectClusters(buckets)) {
+      for (const issue of this.lintCluster(cluster, config)) {
+        const list = byParagraph.get(issue.paragraphIndex) ?? [];
+        list.push(issue.issue);
+        byParagraph.set(issue.paragraphIndex, list);
+      }
+    }
+
+    return [...byParagraph.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([paragraphIndex, issues]) => ({
+        paragraphIndex,
+        issues: issues.sort((a, b) => a.from - b.from),
+      }));
+  }
+
+  private collectClusters(buckets: Map<string, Map<string, Occurrence[]>>): Cluster[] {
+    const clusters: Cluster[] = [];
+    for (const [key, bucket] of buckets) {
+      if (key.startsWith("preferred:")) {
+        clusters.push({ key, spellings: bucket, preferred: key.slice("preferred:".length) });
+        continue;
+      }
+      if (bucket.size < 2) continue;
+      splitByKanji([...bucket.keys()]).forEach((spellings, i) => {
+        if (spellings.length < 2) return;
+        clusters.push({
+          key: `${key}#${i}`,
+          spellings: new Map([...bucket].filter(([s]) => spellings.includes(s))),
+        });
+      });
+    }
+    return clusters;
+  }
+
+  private lintCluster(
+    cluster: Cluster,
+    config: LintRuleConfig,
+  ): Array<{ paragraphIndex: number; issue: LintIssue }> {
+    const target = cluster.preferred ?? this.majoritySpelling(cluster.spellings);
+    const targetCount = cluster.spellings.get(target)?.length ?? 0;
+    const spellings = [target, ...[...cluster.spellings.keys()].filter((s) => s !== target)];
+    const group: LintIssueGroup = {
+      id: `${this.id}:${cluster.key}`,
+      labelJa: spellings.join("／"),
+      spellings,
+      preferred: cluster.preferred,
+    };
+
+    const results: Array<{ paragraphIndex: number; issue: LintIssue }> = [];
+    for (const [spelling, occurrences] of cluster.spellings) {
+      if (spelling === target) continue;
+      for (const { paragraphIndex, token } of occurrences) {
+        const replacement = respell(token.surface, token.basic_form ?? spelling, target);
+        const issue: LintIssue = {
+          ruleId: this.id,
+          severity: config.severity,
+          message: cluster.preferred
+            ? `The project prefers "${target}" over "${spelling}"`
+            : `Inconsistent notation: "${spelling}" (${occurrences.length}) vs. "${target}" (${targetCount})`,
+          messageJa: cluster.preferred
+            ? `表記ゆれ: プロジェクトの優先表記は「${target}」です（「${spelling}」）`
+            : `表記ゆれ: 「${spelling}」（${occurrences.length}件）と「${target}」（${targetCount}件）が混在しています`,
+          from: token.start,
+          to: token.end,
+          originalText: token.surface,
+          group,
+        };
+        if (replacement !== null && replacement !== token.surface) {
+          issue.fix = {
+            label: `Replace with "${replacement}"`,
+            labelJa: `「${replacement}」に統一`,
+            replacement,
+          };
+        }
+        results.push({ paragraphIndex, issue });
+      }
+    }
+    return results;
+  }
+
+  /** Most frequent spelling; ties go to the one seen first (Map order). */
+  private majoritySpelling(spellings: Map<string, Occurrence[]>): string {
+    let best = "";
+    let bestCount = 0;
+    for (const [spelling, occurrences] of spellings) {
+      if (occurrences.length > bestCount) {
+        best = spelling;
+        bestCount = occurrences.length;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Plain-data metadata for the built-in novel-prose (L2) rule pack.
+ *
+ * Shaped like an external ruleset's per-rule manifest entry
+ * ({@link RulesetRuleMeta}) so the same golden-example tests and settings UI
+ * apply, plus the English name/description the rule instances need. Kept
+ * code-free so `lint-presets` can list the rules without instantiating them.
+ */
+import type { RulesetRuleMeta } from "../sdk/ruleset-types";
+
+export interface NovelRuleMeta extends RulesetRuleMeta {
+  name: string;
+  description: string;
+}
+
+export const NOVEL_RULES_META: readonly NovelRuleMeta[] = [
+  {
+    ruleId: "novel-ra-nuki",
+    name: "Ra-nuki words",
+    nameJa: "ら抜き言葉",
+    description: "Detects potential forms of ichidan / kuru verbs missing ra (見れる → 見られる)",
+    descriptionJa: "一段動詞・カ変動詞の可能形から「ら」が抜けた形（見れる・来れる）を検出します",
+    level: "L2",
+    defaultConfig: { enabled: true, severity: "warning", skipDialogue: true },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "academic"],
+    docs: {
+      positiveExample: "朝早く起きられる人がうらやましい。",
+      negativeExample: "朝早く起きれる人がうらやましい。",
+      sourceReference: "文化庁「国語に関する世論調査」（ら抜き言葉）",
+    },
+  },
+  {
+    ruleId: "novel-i-nuki",
+    name: "I-nuki words",
+    nameJa: "い抜き言葉",
+    description: "Detects the colloquial -teru / -deru contraction of -te iru",
+    descriptionJa: "「〜ている」の「い」が抜けた口語形（してる・読んでる）を検出します",
+    level: "L2",
+    defaultConfig: { enabled: true, severity: "info", skipDialogue: true },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "academic"],
+    docs: {
+      positiveExample: "彼は窓の外を眺めている。",
+      negativeExample: "彼は窓の外を眺めてる。",
+      sourceReference: "文化庁「国語に関する世論調査」（い抜き言葉）",
+    },
+  },
+  {
+    ruleId: "novel-sa-ire",
+    name: "Sa-ire words",
+    nameJa: "さ入れ言葉",
+    description: "Detects a superfluous sa in causatives of godan verbs (読まさせる → 読ませる)",
+    descriptionJa: "五段動詞の使役に不要な「さ」が入った形（読まさせる・休まさせる）を検出します",
+    level: "L2",
+    defaultConfig: { enabled: true, severity: "warning", skipDialogue: true },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "blog", "academic"],
+    docs: {
+      positiveExample: "本日は休ませていただきます。",
+      negativeExample: "本日は休まさせていただきます。",
+      sourceReference: "文化庁「国語に関する世論調査」（さ入れ言葉）",
+    },
+  },
+  {
+    ruleId: "novel-double-honorific",
+    name: "Double honorifics",
+    nameJa: "二重敬語",
+    description: "Detects honorific verbs stacked with another honorific form",
+    descriptionJa:
+      "尊敬語に尊敬の「れる・られる」や「お〜になる」を重ねた形（おっしゃられる・お読みになられる）を検出します",
+    level: "L2",
+    defaultConfig: { enabled: true, severity: "warning", skipDialogue: false },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "blog", "academic"],
+    docs: {
+      positiveExample: "先生がそうおっしゃった。",
+      negativeExample: "先生がそうおっしゃられた。",
+      sourceReference: "文化審議会答申『敬語の指針』(2007)（二重敬語）",
+    },
+  },
+  {
+    ruleId: "novel-doubled-particle",
+    name: "Doubled particles",
+    nameJa: "同じ助詞の連続",
+    description: "Detects the same particle repeated within one sentence (が…が, の…の…の)",
+    descriptionJa:
+      "一文の中で同じ助詞が重なる箇所（「が」「を」「は」の重複、「の」の三連続、「のの」などの重複）を検出します",
+    level: "L2",
+    defaultConfig: {
+      enabled: true,
+      severity: "info",
+      skipDialogue: true,
+      options: { particles: ["が", "を", "は"], maxNoChain: 2 },
+    },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "academic"],
+    docs: {
+      positiveExample: "彼は私の好きな歌を歌った。",
+      negativeExample: "彼が私が好きな歌を歌った。",
+      sourceReference: "本多勝一『日本語の作文技術』（助詞の重複）",
+    },
+  },
+  {
+    ruleId: "novel-repeated-ta-ending",
+    name: "Repeated -ta sentence endings",
+    nameJa: "文末表現の連続",
+    description: "Detects consecutive narrative sentences that all end in -ta",
+    descriptionJa: "地の文で「〜た。」で終わる文が続く箇所（既定は三文以上）を検出します",
+    level: "L2",
+    defaultConfig: {
+      enabled: true,
+      severity: "info",
+      skipDialogue: true,
+      options: { threshold: 3 },
+    },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel"],
+    docs: {
+      positiveExample: "彼は歩いた。空が青い。風が吹いた。",
+      negativeExample: "彼は歩いた。空が青かった。風が吹いた。",
+      sourceReference: "文章表現の一般的な推敲指針（文末の単調さ）",
+    },
+  },
+  {
+    ruleId: "novel-notation-variant",
+    name: "Inconsistent notation",
+    nameJa: "表記ゆれ",
+    description:
+      "Detects one word written several ways across the document and suggests the majority or project-preferred spelling",
+    descriptionJa:
+      "同じ語の表記が文書内で混在している箇所（出来る／できる、子供／子ども）を検出し、多数派またはプロジェクトの優先表記への統一を提案します",
+    level: "L2",
+    defaultConfig: { enabled: true, severity: "info", skipDialogue: false },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "blog", "academic"],
+    docs: {
+      positiveExample: "子どもが笑った。子どもたちは泳ぐことができる。",
+      negativeExample: "子どもが笑った。子どもたちは歌った。子供は泳ぐことができる。",
+      sourceReference: "文化庁「公用文作成の考え方」（表記の統一）",
+    },
+  },
+  {
+    ruleId: "novel-glossary-variant",
+    name: "Glossary spelling",
+    nameJa: "用語集の表記",
+    description:
+      "Detects glossary terms written in a spelling the project glossary does not allow (examples assume the glossary term 魔導士 / まどうし)",
+    descriptionJa:
+      "プロジェクトの用語集に登録された用語が、許容されていない表記で書かれている箇所（魔導士 → 魔道士、まどうし）を検出し、用語の表記への統一を提案します（例は用語「魔導士（まどうし）」の登録を前提とします）",
+    level: "L2",
+    defaultConfig: { enabled: true, severity: "warning", skipDialogue: false },
+    supportsSkipDialogue: true,
+    applicableModes: ["novel", "official", "blog", "academic"],
+    docs: {
+      positiveExample: "魔導士が杖を振った。",
+      negativeExample: "魔道士が杖を振った。",
+      sourceReference: "プロジェクトの用語集（.illusions/glossary.json）",
+    },
+  },
+];
+
+/** Look up a built-in novel rule's metadata. Throws on an unknown id (programming error). */
+export function getNovelRuleMeta(ruleId: string): NovelRuleMeta {
+  const meta = NOVEL_RULES_META.find((m) => m.ruleId === ruleId);
+  if (!meta) throw new Error(`Unknown built-in novel rule: ${ruleId}`);
+  return meta;
+}
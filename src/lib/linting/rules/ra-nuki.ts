@@ -0,0 +1,89 @@
+import type { Token } from "@/lib/nlp-client/types";
+
+import { AbstractMorphologicalLintRule } from "../base-rule";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, isVerb } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-ra-nuki");
+
+/**
+ * Potential forms that IPADIC lists as a single verb instead of
+ * 未然形 + 接尾「れる」 (kuromoji.js#28).
+ */
+const FUSED_RA_NUKI = new Set(["見れる", "来れる", "これる"]);
+
+/** Whether `verb` can take 「られる」 (一段 or カ変). */
+function takesRareru(verb: Token): boolean {
+  const type = verb.conjugation_type ?? "";
+  return type === "一段" || type.startsWith("カ変");
+}
+
+/**
+ * ら抜き言葉: 一段 / カ変 verb 未然形 followed by the suffix 「れる」
+ * (食べれる, 起きれる), plus the forms IPADIC fuses into one token (見れる, 来れる).
+ */
+export class RaNukiRule extends AbstractMorphologicalLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintWithTokens(text: string, tokens: ReadonlyArray<Token>, config: LintRuleConfig): LintIssue[] {
+    if (!config.enabled) return [];
+    const inDialogue = config.skipDialogue ? createDialogueFilter(text) : () => false;
+    const issues: LintIssue[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (inDialogue(token)) continue;
+
+      if (isVerb(token, "接尾") && token.basic_form === "れる") {
+        const stem = tokens[i - 1];
+        if (
+          !isVerb(stem, "自立") ||
+          stem.conjugation_form !== "未然形" ||
+          !takesRareru(stem) ||
+          stem.end !== token.start
+        ) {
+          continue;
+        }
+        const original = text.slice(stem.start, token.end);
+        const replacement = `${stem.surface}ら${token.surface}`;
+        issues.push(this.issue(stem.start, token.end, original, replacement, config));
+      } else if (isVerb(token, "自立") && FUSED_RA_NUKI.has(token.basic_form ?? "")) {
+        const idx = token.surface.indexOf("れ");
+        if (idx < 0) continue;
+        const replacement = `${token.surface.slice(0, idx)}ら${token.surface.slice(idx)}`;
+        issues.push(this.issue(token.start, token.end, token.surface, replacement, config));
+      }
+    }
+    return issues;
+  }
+
+  private issue(
+    from: number,
+    to: number,
+    original: string,
+    replacement: string,
+    config: LintRuleConfig,
+  ): LintIssue {
+    return {
+      ruleId: this.id,
+      severity: config.severity,
+      message: `"Ra-nuki" word: use "${replacement}" instead of "${original}"`,
+      messageJa: `ら抜き言葉です。「${original}」は「${replacement}」とするのが標準的です`,
+      from,
+      to,
+      originalText: original,
+      fix: {
+        label: `Replace with "${replacement}"`,
+        labelJa: `「${replacement}」に置換`,
+        replacement,
+      },
+    };
+  }
+}
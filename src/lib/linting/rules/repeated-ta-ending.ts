@@ -0,0 +1,102 @@
+import type { Token } from "@/lib/nlp-client/types";
+
+import { AbstractMorphologicalDocumentLintRule } from "../base-rule";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, splitSentences } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-repeated-ta-ending");
+
+const DEFAULT_THRESHOLD = 3;
+
+function readThreshold(config: LintRuleConfig): number {
+  const threshold = config.options?.threshold;
+  return typeof threshold === "number" && threshold >= 2 ? threshold : DEFAULT_THRESHOLD;
+}
+
+/** Index of the sentence's last non-symbol token, or -1. */
+function lastContentIndex(sentence: ReadonlyArray<Token>): number {
+  for (let i = sentence.length - 1; i >= 0; i--) {
+    if (sentence[i].pos !== "記号") return i;
+  }
+  return -1;
+}
+
+/** Past auxiliary 「た」, or 「だ」 after a 撥音便 verb stem (跳んだ, 読んだ). */
+function isPastEnding(sentence: ReadonlyArray<Token>, index: number): boolean {
+  const token = sentence[index];
+  if (token.pos !== "助動詞") return false;
+  if (token.basic_form === "た") return true;
+  return token.basic_form === "だ" && index > 0 && sentence[index - 1].pos === "動詞";
+}
+
+/**
+ * 文末表現の連続: `threshold` (default 3) or more narrative sentences in a row
+ * ending in the past auxiliary 「た」(「だ」 after 撥音便 included).
+ *
+ * Sentences are followed across paragraphs, since novels often give each
+ * sentence its own paragraph. With `skipDialogue` (the default) dialogue is
+ * not narration: it is skipped, and a paragraph made only of dialogue breaks
+ * the run. Blank paragraphs are ignored.
+ * Every sentence from the `threshold`-th one on is reported at its ending.
+ */
+export class RepeatedTaEndingRule extends AbstractMorphologicalDocumentLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintDocumentWithTokens(
+    paragraphs: ReadonlyArray<{
+      text: string;
+      index: number;
+      tokens: ReadonlyArray<Token>;
+    }>,
+    config: LintRuleConfig,
+  ): Array<{ paragraphIndex: number; issues: LintIssue[] }> {
+    if (!config.enabled) return [];
+    const threshold = readThreshold(config);
+    const results: Array<{ paragraphIndex: number; issues: LintIssue[] }> = [];
+    let run = 0;
+
+    for (const paragraph of paragraphs) {
+      if (paragraph.text.trim() === "") continue;
+      const inDialogue = config.skipDialogue ? createDialogueFilter(paragraph.text) : () => false;
+      const narration = paragraph.tokens.filter((t) => !inDialogue(t));
+      if (narration.length === 0) {
+        run = 0;
+        continue;
+      }
+
+      const issues: LintIssue[] = [];
+      for (const sentence of splitSentences(narration)) {
+        const last = lastContentIndex(sentence);
+        if (last < 0) continue;
+        const ending = sentence[last];
+        if (!isPastEnding(sentence, last)) {
+          run = 0;
+          continue;
+        }
+        run++;
+        if (run < threshold) continue;
+
+        const from = last > 0 ? sentence[last - 1].start : ending.start;
+        const original = paragraph.text.slice(from, ending.end);
+        issues.push({
+          ruleId: this.id,
+          severity: config.severity,
+          message: `${run} sentences in a row end with "-ta"`,
+          messageJa: `「た」で終わる文が${run}文続いています。文末表現に変化をつけることを検討してください`,
+          from,
+          to: ending.end,
+          originalText: original,
+        });
+      }
+      if (issues.length > 0) results.push({ paragraphIndex: paragraph.index, issues });
+    }
+    return results;
+  }
+}
@@ -0,0 +1,62 @@
+import type { Token } from "@/lib/nlp-client/types";
+
+import { AbstractMorphologicalLintRule } from "../base-rule";
+import type { LintIssue, LintRuleConfig } from "../types";
+import { getNovelRuleMeta } from "./novel-rules-meta";
+import { createDialogueFilter, isVerb } from "./token-helpers";
+
+const META = getNovelRuleMeta("novel-sa-ire");
+
+/**
+ * さ入れ言葉: a 五段 verb 未然形 followed by the causative suffix 「させる」
+ * (読まさせる, 休まさせて). 五段 verbs take 「せる」, so the fix drops 「さ」.
+ */
+export class SaIreRule extends AbstractMorphologicalLintRule {
+  readonly id = META.ruleId;
+  readonly name = META.name;
+  readonly nameJa = META.nameJa;
+  readonly description = META.description;
+  readonly descriptionJa = META.descriptionJa;
+  readonly level = META.level;
+  readonly defaultConfig = META.defaultConfig;
+
+  lintWithTokens(text: string, tokens: ReadonlyArray<Token>, config: LintRuleConfig): LintIssue[] {
+    if (!config.enabled) return [];
+    const inDialogue = config.skipDialogue ? createDialogueFilter(text) : () => false;
+    const issues: LintIssue[] = [];
+
+    for (let i = 1; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!isVerb(token, "接尾") || token.basic_form !== "させる") continue;
+      const stem = tokens[i - 1];
+      if (
+        !isVerb(stem, "自立") ||
+        stem.conjugation_form !== "未然形" ||
+        !(stem.conjugation_type ?? "").startsWith("五段") ||
+        !token.surface.startsWith("さ") ||
+        stem.end !== token.start ||
+        inDialogue(token)
+      ) {
+        continue;
+      }
+
+      const original = text.slice(stem.start, token.end);
+      const replacement = `${stem.surface}${token.surface.slice(1)}`;
+      issues.push({
+        ruleId: this.id,
+        severity: config.severity,
+        message: `"Sa-ire" word: use "${replacement}" instead of "${original}"`,
+        messageJa: `さ入れ言葉です。「${original}」は「${replacement}」とするのが標準的です`,
+        from: stem.start,
+        to: token.end,
+        originalText: original,
+        fix: {
+          label: `Replace with "${replacement}"`,
+          labelJa: `「${replacement}」に置換`,
+          replacement,
+        },
+      });
+    }
+    return issues;
+  }
+}
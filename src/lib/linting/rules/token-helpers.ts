@@ -0,0 +1,98 @@
+/**
+ * Shared token helpers for the built-in novel (L2) rules.
+ *
+ * Tokens carry kuromoji (IPADIC) POS data with offsets in the paragraph text,
+ * so every helper here works on `[start, end)` spans of that text.
+ */
+import type { Token } from "@/lib/nlp-client/types";
+
+import { applyCharMap, charMap } from "../toolkit/char-map";
+import { nfkc } from "../toolkit/nfkc";
+
+/** Katakana folded before readings are compared (外来語表記・旧仮名のゆれ). */
+const KATAKANA_FOLD = new Map([
+  ["ヴ", "ブ"],
+  ["ヵ", "カ"],
+  ["ヶ", "ケ"],
+  ["ヰ", "イ"],
+  ["ヱ", "エ"],
+  ["ヂ", "ジ"],
+  ["ヅ", "ズ"],
+]);
+
+/** ヴ + small vowel → バ行 (ヴァイオリン ≒ バイオリン). */
+const foldVuVowel = charMap(
+  new Map([
+    ["ァ", "バ"],
+    ["ィ", "ビ"],
+    ["ェ", "ベ"],
+    ["ォ", "ボ"],
+  ]),
+);
+
+const DIALOGUE_OPEN = new Set(["「", "『"]);
+const DIALOGUE_CLOSE = new Set(["」", "』"]);
+
+/** Sentence-final punctuation. A closing bracket alone does not end a sentence. */
+const SENTENCE_END = new Set(["。", "！", "？", "!", "?"]);
+
+/**
+ * Spans of dialogue (「…」 / 『…』, nesting-aware) in `text`, brackets included.
+ * An unclosed bracket extends to the end of the text.
+ */
+export function findDialogueRanges(text: string): Array<{ from: number; to: number }> {
+  const ranges: Array<{ from: number; to: number }> = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (DIALOGUE_OPEN.has(ch)) {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (DIALOGUE_CLOSE.has(ch) && depth > 0) {
+      depth--;
+      if (depth === 0) ranges.push({ from: start, to: i + 1 });
+    }
+  }
+  if (depth > 0) ranges.push({ from: start, to: text.length });
+  return ranges;
+}
+
+/** Build a predicate telling whether a token lies inside dialogue. */
+export function createDialogueFilter(text: string): (token: Token) => boolean {
+  const ranges = findDialogueRanges(text);
+  return (token) => ranges.some((r) => token.start >= r.from && token.start < r.to);
+}
+
+/**
+ * Split a paragraph's tokens into sentences at 。！？. The punctuation token
+ * stays with the sentence it ends; a trailing unterminated run is a sentence too.
+ */
+export function splitSentences(tokens: ReadonlyArray<Token>): Token[][] {
+  const sentences: Token[][] = [];
+  let current: Token[] = [];
+  for (const token of tokens) {
+    current.push(token);
+    if (SENTENCE_END.has(token.surface)) {
+      sentences.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) sentences.push(current);
+  return sentences;
+}
+
+/** Whether `token` is a verb with the given POS detail (自立 / 接尾 / 非自立). */
+export function isVerb(token: Token | undefined, detail?: string): token is Token {
+  if (!token || token.pos !== "動詞") return false;
+  return detail === undefined || token.pos_detail_1 === detail;
+}
+
+/** Comparison key for a katakana reading: NFKC, folded variants, no final 長音. */
+export function readingKey(reading: string): string {
+  const folded = applyCharMap(
+    KATAKANA_FOLD,
+    nfkc(reading).replace(/ヴ([ァィェォ])/g, (_, vowel: string) => foldVuVowel(vowel)),
+  );
+  return folded.length > 2 && folded.endsWith("ー") ? folded.slice(0, -1) : folded;
+}
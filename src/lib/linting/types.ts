@@ -32,6 +32,21 @@ export interface LintReference {
   url?: string;
 }
 
+/**
+ * A cluster of related issues (e.g. the spellings of one 表記ゆれ variant set).
+ * Issues sharing an `id` are listed together in the corrections panel.
+ */
+export interface LintIssueGroup {
+  /** Stable within one lint pass; unique across rules */
+  id: string;
+  /** Japanese label for the cluster header, e.g. "子ども／子供" */
+  labelJa: string;
+  /** Alternative spellings of one word, the suggested one first (表記ゆれ) */
+  spellings?: string[];
+  /** Spelling fixed by the project's preferred-spelling table, if any */
+  preferred?: string;
+}
+
 export interface LintIssue {
   ruleId: string;
   severity: Severity;
@@ -52,6 +67,41 @@ export interface LintIssue {
     labelJa: string;
     replacement: string;
   };
+  /** Cluster this issue belongs to, when the rule reports related issues together */
+  group?: LintIssueGroup;
+  /** L3 verdict from the LLM validation pass, when one has been returned */
+  validation?: LintIssueValidation;
+}
+
+/** LLM verdict on a detected issue (L3). */
+export interface LintIssueValidation {
+  /** False when the model judged the issue a false positive */
+  isGenuine: boolean;
+  /** Model's explanation, shown in the inspector */
+  reasoning: string;
+}
+
+/**
+ * Post-detection pass that asks a model whether L1/L2 issues are genuine (L3).
+ *
+ * The decoration plugin calls `applyVerdicts` while building decorations and,
+ * once they are dispatched, `validate` for paragraphs with pending issues.
+ * Verdicts are cached by the implementation, so a rebuild is all it takes to
+ * show them.
+ */
+export interface LintIssueValidator {
+  /** Attach cached verdicts; false positives are demoted or dropped. */
+  applyVerdicts(paragraphText: string, issues: ReadonlyArray<LintIssue>): LintIssue[];
+  /** Whether any of the paragraph's issues still lacks a verdict. */
+  hasPending(paragraphText: string, issues: ReadonlyArray<LintIssue>): boolean;
+  /**
+   * Fetch verdicts for pending issues. Resolves true when new verdicts were
+   * cached (the plugin then rebuilds); stops early once `signal` aborts.
+   */
+  validate(
+    paragraphs: ReadonlyArray<{ text: string; issues: ReadonlyArray<LintIssue> }>,
+    signal: AbortSignal,
+  ): Promise<boolean>;
 }
 
 export interface LintRuleConfig {
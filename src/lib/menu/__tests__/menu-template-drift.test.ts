@@ -319,6 +319,24 @@ describe("shared menu template drift prevention", () => {
     expect(save?.accelerator).toBeUndefined();
   });
 
+  it("a chord override leaves the item without a native accelerator", () => {
+    electronMenu.setKeymapOverrides(
+      {
+        "file.save": {
+          modifiers: ["Ctrl"],
+          key: "x",
+          chord: [{ modifiers: ["Ctrl"], key: "s" }],
+        },
+      },
+      2,
+    );
+    electronMenu.setActiveWindowId(2);
+    const native = electronMenu.buildApplicationMenu([], "win32");
+    const fileSection = native.find((s) => s.label === "ファイル");
+    const save = fileSection?.submenu?.find((i) => i.label === "保存");
+    expect(save?.accelerator).toBeUndefined();
+  });
+
   it("Settings uses its nav.settings keymap binding", () => {
     electronMenu.setKeymapOverrides(
       { "nav.settings": { modifiers: ["CmdOrCtrl", "Shift"], key: "s" } },
@@ -379,6 +397,7 @@ describe("WEB_MENU_STRUCTURE", () => {
           { label: "プロジェクトを開く", action: "open-project" },
           { type: "separator" },
           { label: "ファイルを開く...", accelerator: "Ctrl+O", action: "open-file" },
+          { label: "青空文庫形式のテキストを読み込む...", action: "import-aozora" },
           { label: "保存", accelerator: "Ctrl+S", action: "save-file" },
           { label: "別名で保存...", accelerator: "Shift+Ctrl+S", action: "save-as" },
           { type: "separator" },
@@ -392,6 +411,8 @@ describe("WEB_MENU_STRUCTURE", () => {
             submenu: [
               { label: "テキスト（プレーン）としてエクスポート...", action: "export-txt" },
               { label: "テキスト（ルビ付き）としてエクスポート...", action: "export-txt-ruby" },
+              { label: "青空文庫形式としてエクスポート...", action: "export-aozora" },
+              { label: "Web小説サイト向けにエクスポート...", action: "export-web-novel" },
               { type: "separator" },
               { label: "PDF としてエクスポート...", action: "export-pdf" },
               { label: "EPUB としてエクスポート...", action: "export-epub" },
@@ -91,6 +91,21 @@ export const ACTION_TO_COMMAND_ID: Partial<Record<string, CommandId>> = (() => {
   return map;
 })();
 
+/**
+ * Maps CommandIds to the menu action that performs them, for commands that
+ * have a menu item. Lets the command palette run menu-owned commands (undo,
+ * zoom, …) through the same handler as the Web menu bar.
+ */
+export const COMMAND_ID_TO_MENU_ACTION: Partial<Record<CommandId, string>> = (() => {
+  const map: Partial<Record<CommandId, string>> = {};
+  forEachTemplateItem((item) => {
+    if (item.id && item.commandId && !map[item.commandId]) {
+      map[item.commandId] = item.id;
+    }
+  });
+  return map;
+})();
+
 /**
  * Format accelerator for display
  * Mac: Shows ⌘, ⇧, ⌥
@@ -76,6 +76,11 @@ const MENU_TEMPLATE = [
         webAccelerator: "Ctrl+O",
         electronChannel: "menu-open-triggered",
       },
+      {
+        id: "import-aozora",
+        label: "青空文庫形式のテキストを読み込む...",
+        electronChannel: "menu-import-aozora",
+      },
       {
         id: "save-file",
         label: "保存",
@@ -125,6 +130,18 @@ const MENU_TEMPLATE = [
             requiresActiveEditor: true,
             electronChannel: "menu-export-txt-ruby",
           },
+          {
+            id: "export-aozora",
+            label: "青空文庫形式としてエクスポート...",
+            requiresActiveEditor: true,
+            electronChannel: "menu-export-aozora",
+          },
+          {
+            id: "export-web-novel",
+            label: "Web小説サイト向けにエクスポート...",
+            requiresActiveEditor: true,
+            electronChannel: "menu-export-web-novel",
+          },
           SEPARATOR,
           {
             id: "export-pdf",
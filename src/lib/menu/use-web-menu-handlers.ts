@@ -4,6 +4,7 @@ import { useCallback } from "react";
 import type { EditorView } from "@milkdown/prose/view";
 import { dispatchIfEditorViewAlive } from "@/shared/lib/editor-view-safety";
 import type { BugReportCategory } from "@/lib/bug-report/bug-report-types";
+import type { ExportFormat } from "@/lib/export/types";
 
 interface UseWebMenuHandlersProps {
   onNew: () => void;
@@ -15,7 +16,9 @@ interface UseWebMenuHandlersProps {
   onCloseWindow?: () => void;
   onToggleCompactMode?: () => void;
   onToggleWritingMode?: () => void;
-  onExport?: (format: "pdf" | "epub" | "docx" | "txt" | "txt-ruby") => void;
+  onExport?: (format: ExportFormat) => void;
+  /** Handler for importing a 青空文庫 text into a new untitled tab */
+  onImportAozora?: () => void;
   onPrint?: () => void;
   editorView?: EditorView | null;
   fontScale?: number;
@@ -48,6 +51,7 @@ export function useWebMenuHandlers({
   onToggleCompactMode,
   onToggleWritingMode,
   onExport,
+  onImportAozora,
   onPrint,
   editorView,
   fontScale = 100,
@@ -80,6 +84,9 @@ export function useWebMenuHandlers({
         case "open-project":
           onOpenProject?.();
           break;
+        case "import-aozora":
+          onImportAozora?.();
+          break;
         case "open-recent-project":
           // No-op: the parent item itself is not clickable; submenu items handle it
           break;
@@ -108,6 +115,12 @@ export function useWebMenuHandlers({
         case "export-txt-ruby":
           if (isEditorTabActive) onExport?.("txt-ruby");
           break;
+        case "export-aozora":
+          if (isEditorTabActive) onExport?.("aozora");
+          break;
+        case "export-web-novel":
+          if (isEditorTabActive) onExport?.("web-novel");
+          break;
         case "export-pdf":
           if (isEditorTabActive) onExport?.("pdf");
           break;
@@ -285,6 +298,7 @@ export function useWebMenuHandlers({
       onToggleCompactMode,
       onToggleWritingMode,
       onExport,
+      onImportAozora,
       onPrint,
       editorView,
       fontScale,
@@ -0,0 +1,212 @@
+/**
+ * Tests for CharacterService.
+ *
+ * Covers:
+ * - Project mode: load from / save to .illusions/characters.json
+ * - One-time migration of the AppState buckets (per project, legacy flat array,
+ *   "__standalone__" for standalone files)
+ * - Upgrade of the free-text 関係性 to relationship edges
+ * - Relationship graph layout in .illusions/relationship-graph.json
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AppState } from "@/lib/storage/storage-types";
+import type { Character } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS), storage-service and app-state-manager
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+const storageItems = new Map<string, string>();
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: async (key: string) => storageItems.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      storageItems.set(key, value);
+    },
+  }),
+}));
+
+let appState: AppState | null = null;
+const mockPersistAppState = vi.fn(async (updates: Partial<AppState>) => {
+  appState = { ...appState, ...updates };
+});
+
+vi.mock("@/lib/storage/app-state-manager", () => ({
+  fetchAppState: async () => appState,
+  persistAppState: (updates: Partial<AppState>) => mockPersistAppState(updates),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import { getCharacterService } from "@/lib/project/character-service";
+
+function character(name: string): Character {
+  return {
+    id: `id-${name}`,
+    name,
+    aliases: [],
+    description: "",
+    appearance: "",
+    personality: "",
+    relationships: [],
+  };
+}
+
+/** A character as stored in AppState, where 関係性 was free text. */
+function legacy(name: string, relationships = "") {
+  return { ...character(name), relationships };
+}
+
+function lastWritten(): { version: string; characters: Character[] } {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]);
+}
+
+describe("CharacterService — project mode", () => {
+  const svc = getCharacterService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+    mockPersistAppState.mockClear();
+    appState = null;
+  });
+
+  it("characters.json があればそれを返し、AppState には触れない", async () => {
+    mockFileExists.mockResolvedValue(true);
+    mockFileRead.mockResolvedValue(
+      JSON.stringify({ version: "1.0.0", characters: [character("葵")] }),
+    );
+    appState = { charactersByProject: { p1: [legacy("旧")] } };
+
+    expect(await svc.loadCharacters("p1")).toEqual([character("葵")]);
+    expect(mockFileWrite).not.toHaveBeenCalled();
+    expect(mockPersistAppState).not.toHaveBeenCalled();
+  });
+
+  it("ファイルが無ければプロジェクトの AppState バケットを移行して削除する", async () => {
+    mockFileExists.mockResolvedValue(false);
+    appState = {
+      charactersByProject: { p1: [legacy("葵")], p2: [legacy("蓮")] },
+    };
+
+    expect(await svc.loadCharacters("p1")).toEqual([character("葵")]);
+    expect(lastWritten()).toEqual({ version: "1.0.0", characters: [character("葵")] });
+    expect(appState?.charactersByProject).toEqual({ p2: [legacy("蓮")] });
+  });
+
+  it("バケットが無ければ旧来の共有リストを移行する", async () => {
+    mockFileExists.mockResolvedValue(false);
+    appState = { characters: [legacy("葵")] };
+
+    expect(await svc.loadCharacters("p1")).toEqual([character("葵")]);
+    expect(appState?.characters).toBeUndefined();
+  });
+
+  it("移行するものが無ければ何も書かない", async () => {
+    mockFileExists.mockResolvedValue(false);
+
+    expect(await svc.loadCharacters("p1")).toEqual([]);
+    expect(mockFileWrite).not.toHaveBeenCalled();
+    expect(mockPersistAppState).not.toHaveBeenCalled();
+  });
+
+  it("壊れた JSON は例外にして上書きを防ぐ", async () => {
+    mockFileExists.mockResolvedValue(true);
+    mockFileRead.mockResolvedValue("{");
+
+    await expect(svc.loadCharacters("p1")).rejects.toThrow();
+    expect(mockPersistAppState).not.toHaveBeenCalled();
+  });
+
+  it("追加項目ごと保存する", async () => {
+    const sheet: Character = {
+      ...character("葵"),
+      firstAppearance: "第一章",
+      tags: ["主人公"],
+      customFields: [{ id: "f1", label: "年齢", value: "17" }],
+    };
+    await svc.saveCharacters([sheet]);
+    expect(lastWritten()).toEqual({ version: "1.0.0", characters: [sheet] });
+  });
+
+  it("自由記述の関係性は関係性メモへ移し、関係の一覧は空にする", async () => {
+    mockFileExists.mockResolvedValue(true);
+    mockFileRead.mockResolvedValue(
+      JSON.stringify({
+        version: "1.0.0",
+        characters: [legacy("葵", "蓮の幼なじみ"), legacy("蓮")],
+      }),
+    );
+
+    expect(await svc.loadCharacters("p1")).toEqual([
+      { ...character("葵"), relationshipNotes: "蓮の幼なじみ" },
+      character("蓮"),
+    ]);
+  });
+
+  it("関係と人物関係図の配置をそれぞれのファイルに保存する", async () => {
+    const sheet: Character = {
+      ...character("葵"),
+      relationships: [{ id: "e1", targetId: "id-蓮", label: "幼なじみ", direction: "mutual" }],
+    };
+    await svc.saveCharacters([sheet]);
+    expect(lastWritten().characters).toEqual([sheet]);
+
+    await svc.saveGraphNodes([{ characterId: "id-葵", x: 10, y: 20 }]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenLastCalledWith("relationship-graph.json", {
+      create: true,
+    });
+    expect(JSON.parse(mockFileWrite.mock.calls[1][0])).toEqual({
+      version: "1.0.0",
+      nodes: [{ characterId: "id-葵", x: 10, y: 20 }],
+    });
+  });
+});
+
+describe("CharacterService — standalone mode", () => {
+  const svc = getCharacterService();
+
+  beforeEach(() => {
+    storageItems.clear();
+    appState = null;
+  });
+
+  it("__standalone__ バケットは最初に開いたファイルへ移行する", async () => {
+    appState = { charactersByProject: { __standalone__: [legacy("葵")] } };
+
+    expect(await svc.loadCharactersStandalone("/novels/a.mdi")).toEqual([character("葵")]);
+    expect(await svc.loadCharactersStandalone("/novels/b.mdi")).toEqual([]);
+    expect(await svc.loadCharactersStandalone("/novels/a.mdi")).toEqual([character("葵")]);
+  });
+});
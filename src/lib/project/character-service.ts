@@ -0,0 +1,283 @@
+/**
+ * Character sheet service.
+ * Stores the 登場人物 panel's characters with the manuscript so they travel
+ * with the project directory and are versioned alongside it.
+ *
+ * 登場人物データの管理サービス。
+ * プロジェクトモード: .illusions/characters.json
+ * スタンドアロンモード: StorageService (ファイルパスごと)
+ *
+ * Node positions of the relationship graph are kept next to them in
+ * .illusions/relationship-graph.json; the edges are the characters'
+ * `relationships`.
+ *
+ * Characters used to live in AppState (`charactersByProject[projectId]`, and
+ * before that the flat `characters` array). The first load of a project or
+ * standalone file that has no characters yet moves the matching AppState
+ * bucket into the new location and removes it from AppState, so the
+ * migration runs once.
+ */
+
+import { PersistedJsonListStore } from "../services/persisted-json-list";
+import { fetchAppState, persistAppState } from "../storage/app-state-manager";
+import { isProjectMode, isStandaloneMode } from "./project-types";
+import type {
+  Character,
+  CharacterRelationship,
+  CharactersFile,
+  EditorMode,
+  RelationshipGraphFile,
+  RelationshipGraphNode,
+} from "./project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const CHARACTERS_FILENAME = "characters.json";
+const STANDALONE_STORAGE_PREFIX = "illusions-characters:";
+const GRAPH_FILENAME = "relationship-graph.json";
+const GRAPH_STANDALONE_STORAGE_PREFIX = "illusions-relationship-graph:";
+/** AppState bucket the old panel used when no project was open. */
+const LEGACY_STANDALONE_BUCKET = "__standalone__";
+
+// -----------------------------------------------------------------------
+// Change notification
+// -----------------------------------------------------------------------
+
+/**
+ * Listener notified after any successful save, so views derived from the
+ * character sheets (e.g. the mention map) refresh without a reload. `origin`
+ * is the tag the saving view passed, letting it ignore its own saves.
+ */
+type CharacterChangeListener = (origin: string | undefined) => void;
+
+const changeListeners = new Set<CharacterChangeListener>();
+
+/** Subscribe to character sheet saves. Returns an unsubscribe function. */
+export function subscribeCharacterChange(listener: CharacterChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifyCharacterChange(origin: string | undefined): void {
+  for (const listener of changeListeners) {
+    try {
+      listener(origin);
+    } catch (err) {
+      console.warn("[characters] change listener failed:", err);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------
+// Legacy format
+// -----------------------------------------------------------------------
+
+/** A character as stored before relationships became edges (関係性 was free text). */
+type StoredCharacter = Omit<Character, "relationships"> & {
+  relationships?: string | CharacterRelationship[];
+};
+
+/** Upgrade a stored character: free-text 関係性 moves to `relationshipNotes`. */
+export function normalizeCharacter(stored: StoredCharacter): Character {
+  const { relationships, ...rest } = stored;
+  if (Array.isArray(relationships)) return { ...rest, relationships };
+  const notes = relationships?.trim() ? relationships : rest.relationshipNotes;
+  return notes
+    ? { ...rest, relationships: [], relationshipNotes: notes }
+    : { ...rest, relationships: [] };
+}
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class CharacterService {
+  private readonly store: PersistedJsonListStore<Character>;
+  private readonly graphStore: PersistedJsonListStore<RelationshipGraphNode>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<Character>({
+      filename: CHARACTERS_FILENAME,
+      standaloneKeyPrefix: STANDALONE_STORAGE_PREFIX,
+      toEnvelope: (characters): CharactersFile => ({
+        version: "1.0.0",
+        characters,
+      }),
+      fromEnvelope: (envelope): Character[] =>
+        ((envelope as { characters?: StoredCharacter[] }).characters ?? []).map(normalizeCharacter),
+    });
+    this.graphStore = new PersistedJsonListStore<RelationshipGraphNode>({
+      filename: GRAPH_FILENAME,
+      standaloneKeyPrefix: GRAPH_STANDALONE_STORAGE_PREFIX,
+      toEnvelope: (nodes): RelationshipGraphFile => ({
+        version: "1.0.0",
+        nodes,
+      }),
+      fromEnvelope: (envelope): RelationshipGraphNode[] =>
+        (envelope as RelationshipGraphFile).nodes ?? [],
+    });
+  }
+
+  // -------------------------------------------------------------------
+  // Project mode
+  // -------------------------------------------------------------------
+
+  /**
+   * Load the characters from .illusions/characters.json, migrating the
+   * project's AppState bucket on first use.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadCharacters(projectId: string): Promise<Character[]> {
+    const characters = await this.store.loadProject();
+    if (characters.length > 0) return characters;
+
+    const migrated = await takeAppStateCharacters(projectId);
+    if (migrated.length > 0) await this.store.saveProject(migrated);
+    return migrated;
+  }
+
+  /**
+   * Save the characters to .illusions/characters.json.
+   * @param origin - Tag passed on to change listeners
+   */
+  async saveCharacters(characters: Character[], origin?: string): Promise<void> {
+    await this.store.saveProject(characters);
+    notifyCharacterChange(origin);
+  }
+
+  /** Load the graph node positions from .illusions/relationship-graph.json. */
+  async loadGraphNodes(): Promise<RelationshipGraphNode[]> {
+    return this.graphStore.loadProject();
+  }
+
+  /** Save the graph node positions to .illusions/relationship-graph.json. */
+  async saveGraphNodes(nodes: RelationshipGraphNode[]): Promise<void> {
+    await this.graphStore.saveProject(nodes);
+  }
+
+  // -------------------------------------------------------------------
+  // Standalone mode
+  // -------------------------------------------------------------------
+
+  /**
+   * Load the characters of a standalone file. The old shared standalone
+   * bucket is migrated into the first file opened without characters.
+   */
+  async loadCharactersStandalone(filePath: string): Promise<Character[]> {
+    const characters = await this.store.loadStandalone(filePath);
+    if (characters.length > 0) return characters;
+
+    const migrated = await takeAppStateCharacters(LEGACY_STANDALONE_BUCKET);
+    if (migrated.length > 0) await this.store.saveStandalone(filePath, migrated);
+    return migrated;
+  }
+
+  /** Save the characters of a standalone file. */
+  async saveCharactersStandalone(
+    filePath: string,
+    characters: Character[],
+    origin?: string,
+  ): Promise<void> {
+    await this.store.saveStandalone(filePath, characters);
+    notifyCharacterChange(origin);
+  }
+
+  /** Load the graph node positions of a standalone file. */
+  async loadGraphNodesStandalone(filePath: string): Promise<RelationshipGraphNode[]> {
+    return this.graphStore.loadStandalone(filePath);
+  }
+
+  /** Save the graph node positions of a standalone file. */
+  async saveGraphNodesStandalone(filePath: string, nodes: RelationshipGraphNode[]): Promise<void> {
+    await this.graphStore.saveStandalone(filePath, nodes);
+  }
+}
+
+/**
+ * Remove and return the AppState characters for `bucket`, falling back to
+ * the legacy flat array (which predates per-project buckets). Both are
+ * cleared so the migration never repeats.
+ */
+async function takeAppStateCharacters(bucket: string): Promise<Character[]> {
+  const appState = await fetchAppState();
+  const perBucket = appState?.charactersByProject?.[bucket];
+  const characters = perBucket && perBucket.length > 0 ? perBucket : (appState?.characters ?? []);
+  if (characters.length === 0) return [];
+
+  const { [bucket]: _migrated, ...remaining } = appState?.charactersByProject ?? {};
+  await persistAppState({ charactersByProject: remaining, characters: undefined });
+  return characters.map(normalizeCharacter);
+}
+
+/**
+ * Characters of the open project or standalone file (standalone files are
+ * keyed by full path on Electron, file name on Web). Empty when nothing is open.
+ */
+export async function loadCharactersForMode(editorMode: EditorMode): Promise<Character[]> {
+  const service = getCharacterService();
+  if (isProjectMode(editorMode)) return service.loadCharacters(editorMode.projectId);
+  if (isStandaloneMode(editorMode)) {
+    return service.loadCharactersStandalone(editorMode.filePath ?? editorMode.fileName);
+  }
+  return [];
+}
+
+/** Save the characters of the open project or standalone file (no-op when nothing is open). */
+export async function saveCharactersForMode(
+  editorMode: EditorMode,
+  characters: Character[],
+  origin?: string,
+): Promise<void> {
+  const service = getCharacterService();
+  if (isProjectMode(editorMode)) {
+    await service.saveCharacters(characters, origin);
+  } else if (isStandaloneMode(editorMode)) {
+    await service.saveCharactersStandalone(
+      editorMode.filePath ?? editorMode.fileName,
+      characters,
+      origin,
+    );
+  }
+}
+
+/** Relationship graph node positions of the open project or standalone file. */
+export async function loadGraphNodesForMode(
+  editorMode: EditorMode,
+): Promise<RelationshipGraphNode[]> {
+  const service = getCharacterService();
+  if (isProjectMode(editorMode)) return service.loadGraphNodes();
+  if (isStandaloneMode(editorMode)) {
+    return service.loadGraphNodesStandalone(editorMode.filePath ?? editorMode.fileName);
+  }
+  return [];
+}
+
+/** Save the relationship graph node positions (no-op when nothing is open). */
+export async function saveGraphNodesForMode(
+  editorMode: EditorMode,
+  nodes: RelationshipGraphNode[],
+): Promise<void> {
+  const service = getCharacterService();
+  if (isProjectMode(editorMode)) {
+    await service.saveGraphNodes(nodes);
+  } else if (isStandaloneMode(editorMode)) {
+    await service.saveGraphNodesStandalone(editorMode.filePath ?? editorMode.fileName, nodes);
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: CharacterService | null = null;
+
+export function getCharacterService(): CharacterService {
+  if (!instance) {
+    instance = new CharacterService();
+  }
+  return instance;
+}
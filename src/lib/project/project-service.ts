@@ -9,7 +9,7 @@ import { getProjectFileService } from "../services/project-file-service";
 import { getProjectManager } from "./project-manager";
 import { isElectronRenderer } from "../utils/runtime-env";
 import { getDefaultEditorSettings, getDefaultWorkspaceState } from "./project-types";
-import { readTextWithEncoding } from "@/shared/lib/text-codec";
+import { readJapaneseTextWithFallback, readTextWithEncoding } from "@/shared/lib/text-codec";
 import { ensureProjectFiles } from "../editor-page/project-file-utils";
 import { notificationManager } from "../services/notification-manager";
 
@@ -416,6 +416,40 @@ export class ProjectService {
     return standalone;
   }
 
+  /**
+   * Pick a plain-text file to import (e.g. a 青空文庫 text) and decode it.
+   * インポート用のテキストファイルを選択して読み込む。
+   *
+   * Unlike {@link openStandaloneFile} the file is not opened for editing, so
+   * Shift_JIS is accepted in addition to UTF-8 and nothing is cached for
+   * write-back.
+   *
+   * @returns The picked file name and its decoded (LF-normalized) text
+   * @throws Error if file picker is not supported or the user cancelled
+   */
+  async pickImportTextFile(): Promise<{ fileName: string; text: string }> {
+    const vfsWithOpenFile = this.vfs as unknown as {
+      openFile?: (opts?: { fileTypes?: string[] }) => Promise<{
+        path: string;
+        name: string;
+        buf: Uint8Array;
+      } | null>;
+    };
+
+    if (typeof vfsWithOpenFile.openFile !== "function") {
+      throw new Error("ファイルを開く機能がこの環境でサポートされていません。");
+    }
+
+    const result = await vfsWithOpenFile.openFile({ fileTypes: ["txt"] });
+    if (!result) {
+      // User cancelled
+      throw new Error("ファイルの選択がキャンセルされました。");
+    }
+
+    const { text } = readJapaneseTextWithFallback(new Uint8Array(result.buf));
+    return { fileName: result.name, text };
+  }
+
   /**
    * Validate that a directory has a valid project structure.
    * ディレクトリが有効なプロジェクト構造を持つか検証する。
@@ -190,6 +190,318 @@ export interface UserDictionaryFile {
   entries: UserDictionaryEntry[];
 }
 
+/**
+ * A project-wide preferred spelling (表記統一) for the 表記ゆれ rule.
+ * Spellings are compared by their dictionary (base) form.
+ * 表記ゆれの優先表記1件分。
+ */
+export interface PreferredSpelling {
+  /** Spelling to unify on (e.g. "子ども") */
+  preferred: string;
+  /** Spellings to rewrite to `preferred` (e.g. ["子供", "こども"]) */
+  variants: string[];
+}
+
+/**
+ * File format for .illusions/preferred-spellings.json
+ * 優先表記テーブルのファイルフォーマット。
+ */
+export interface PreferredSpellingsFile {
+  version: "1.0.0";
+  entries: PreferredSpelling[];
+}
+
+/**
+ * A world-building term of the project glossary (用語集).
+ * 用語集の1件分。
+ */
+export interface GlossaryEntry {
+  /** Unique identifier */
+  id: string;
+  /** Canonical spelling (見出し語, e.g. "魔導士") */
+  term: string;
+  /** Reading in hiragana (読み, e.g. "まどうし") */
+  reading?: string;
+  /** Free-form category (分類, e.g. "人名", "地名", "魔法") */
+  category?: string;
+  /** Definition (説明) */
+  definition: string;
+  /** Other spellings the author accepts besides `term` (許容する異表記) */
+  variants: string[];
+}
+
+/**
+ * File format for .illusions/glossary.json
+ * 用語集のファイルフォーマット。
+ */
+export interface GlossaryFile {
+  version: "1.0.0";
+  entries: GlossaryEntry[];
+}
+
+/**
+ * One message of the AI assistant conversation.
+ * AI アシスタントとの会話の1件分。
+ */
+export interface AiChatEntry {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  /** Unix timestamp (ms) */
+  createdAt: number;
+  /** Labels of the manuscript material attached to a question */
+  attachments?: string[];
+  /** The reply was cancelled or failed before it finished */
+  interrupted?: boolean;
+}
+
+/**
+ * File format for .illusions/ai-chat.json
+ * AI アシスタントの会話履歴のファイルフォーマット。
+ */
+export interface AiChatHistoryFile {
+  version: "1.0.0";
+  entries: AiChatEntry[];
+}
+
+/**
+ * A user-defined field on a character sheet (e.g. 年齢, 所属).
+ * 登場人物のカスタム項目。
+ */
+export interface CharacterCustomField {
+  id: string;
+  label: string;
+  value: string;
+}
+
+/**
+ * Direction of a relationship edge: from the owning character to the target
+ * ("forward", e.g. 片想い), both ways ("mutual") or undirected ("none").
+ */
+export type RelationshipDirection = "forward" | "mutual" | "none";
+
+/**
+ * A relationship from one character to another, stored on the source character.
+ * 登場人物どうしの関係1件分。
+ */
+export interface CharacterRelationship {
+  id: string;
+  /** Id of the related character */
+  targetId: string;
+  /** Relation label (e.g. 幼なじみ, 師弟) */
+  label: string;
+  direction: RelationshipDirection;
+  note?: string;
+}
+
+/**
+ * A character sheet.
+ * 登場人物1人分。
+ */
+export interface Character {
+  id: string;
+  name: string;
+  aliases: string[];
+  description: string;
+  appearance: string;
+  personality: string;
+  relationships: CharacterRelationship[];
+  /** Free-text notes on relationships (the pre-graph 関係性 field is kept here) */
+  relationshipNotes?: string;
+  /** Portrait as an image data URL, downscaled on import to keep characters.json small */
+  portrait?: string;
+  /** Where the character first appears (e.g. "第一章 駅のホーム") */
+  firstAppearance?: string;
+  tags?: string[];
+  customFields?: CharacterCustomField[];
+}
+
+/**
+ * File format for .illusions/characters.json
+ * 登場人物のファイルフォーマット。
+ */
+export interface CharactersFile {
+  version: "1.0.0";
+  characters: Character[];
+}
+
+/**
+ * Position of a character node in the relationship graph.
+ * 人物関係図上のノード位置。
+ */
+export interface RelationshipGraphNode {
+  characterId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * File format for .illusions/relationship-graph.json
+ * 人物関係図のレイアウトのファイルフォーマット。
+ */
+export interface RelationshipGraphFile {
+  version: "1.0.0";
+  nodes: RelationshipGraphNode[];
+}
+
+/**
+ * A manuscript file in the compile order.
+ * 書き出し（コンパイル）対象の原稿ファイル1件分。
+ */
+export interface CompileFileItem {
+  type: "file";
+  /** Path relative to the project root */
+  path: string;
+  include: boolean;
+  /** Start a new chapter (and page) at this file; false continues the previous chapter */
+  chapterBreak: boolean;
+}
+
+/**
+ * A part (部) heading placed between files in the compile order.
+ * 部の見出し。
+ */
+export interface CompilePartItem {
+  type: "part";
+  id: string;
+  title: string;
+  include: boolean;
+}
+
+export type CompileItem = CompileFileItem | CompilePartItem;
+
+/**
+ * Front matter of the compiled book.
+ * 書き出す本の前付け（書名・著者名・扉）。
+ */
+export interface CompileFrontMatter {
+  title: string;
+  author: string;
+  /** Put a title page (書名・著者名) before the first chapter */
+  titlePage: boolean;
+}
+
+/**
+ * File format for .illusions/compile.json
+ * プロジェクト全体の書き出し設定のファイルフォーマット。
+ */
+export interface CompileManifestFile {
+  version: "1.0.0";
+  frontMatter: CompileFrontMatter;
+  items: CompileItem[];
+}
+
+/** Progress of a scene (構想 → 執筆中 → 推敲中 → 完成). */
+export type SceneStatus = "idea" | "draft" | "revised" | "done";
+
+/**
+ * A scene on the plot board.
+ * シーンボードのシーン1件分。
+ */
+export interface Scene {
+  /** Unique identifier */
+  id: string;
+  title: string;
+  /** Id of the POV (視点) character in characters.json */
+  povCharacterId?: string;
+  /** In-world date/time as written by the author (作中日時, e.g. "帝国暦312年4月3日 夜") */
+  storyTime?: string;
+  /** Location (場所) */
+  location?: string;
+  status: SceneStatus;
+  /** Manuscript file the scene is written in, relative to the project root */
+  filePath?: string;
+  /** Anchor id of the scene's heading in that file (see generateHeadingId) */
+  headingAnchor?: string;
+  /** Free-form tags; "回想" / "flashback" exempts the scene from chronology checks */
+  tags: string[];
+  /** Synopsis (あらすじ) */
+  summary?: string;
+}
+
+/**
+ * File format for .illusions/scenes.json
+ * シーンボードのファイルフォーマット（配列順がシーンの順序）。
+ */
+export interface ScenesFile {
+  version: "1.0.0";
+  scenes: Scene[];
+}
+
+/** Unit of a writing goal: visible characters or 原稿用紙 pages. */
+export type WritingGoalUnit = "chars" | "pages";
+
+/**
+ * A writing target (執筆目標): the size of the whole project, optionally by a
+ * deadline, or the amount to write each day. At most one goal per scope.
+ */
+export interface WritingGoal {
+  scope: "project" | "daily";
+  unit: WritingGoalUnit;
+  target: number;
+  /** Deadline as a local date "YYYY-MM-DD" (project goals only) */
+  deadline?: string;
+}
+
+/**
+ * File format for .illusions/goals.json
+ * 執筆目標のファイルフォーマット。
+ */
+export interface WritingGoalsFile {
+  version: "1.0.0";
+  goals: WritingGoal[];
+}
+
+/**
+ * A writing session: a run of edits without a long pause.
+ * 執筆セッション1件分（長い中断のない編集のまとまり）。
+ */
+export interface WritingSession {
+  id: string;
+  /** Unix timestamps (ms) of the first and last edit */
+  start: number;
+  end: number;
+  /** Visible characters typed and deleted */
+  added: number;
+  deleted: number;
+}
+
+/**
+ * File format for .illusions/sessions.json
+ * 執筆セッションログのファイルフォーマット。
+ */
+export interface WritingSessionsFile {
+  version: "1.0.0";
+  sessions: WritingSession[];
+}
+
+/**
+ * Text metrics of one history snapshot, cached for the statistics dashboard.
+ * 統計ダッシュボード用の、履歴スナップショット1件分の指標。
+ */
+export interface SnapshotMetrics {
+  snapshotId: string;
+  /** Visible characters and 原稿用紙 pages */
+  chars: number;
+  pages: number;
+  /** Surface readability score (0–100) */
+  readability: number;
+  /** Visible characters inside 「」『』 */
+  dialogueChars: number;
+  /** Guiraud index of the kanji and katakana words */
+  vocabularyRichness: number;
+}
+
+/**
+ * File format for .illusions/stats-cache.json
+ * 統計キャッシュのファイルフォーマット。`metricsVersion` が変わると破棄される。
+ */
+export interface StatsCacheFile {
+  version: "1.0.0";
+  metricsVersion: number;
+  entries: SnapshotMetrics[];
+}
+
 /** Type guard for project mode */
 export function isProjectMode(mode: EditorMode): mode is ProjectMode {
   return mode?.type === "project";
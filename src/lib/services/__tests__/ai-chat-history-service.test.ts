@@ -0,0 +1,109 @@
+/**
+ * Tests for AiChatHistoryService.
+ *
+ * Covers:
+ * - Project mode (VFS): load (missing file / content), save, clear
+ * - Only the newest MAX_AI_CHAT_ENTRIES messages are kept
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { AiChatEntry } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import {
+  getAiChatHistoryService,
+  MAX_AI_CHAT_ENTRIES,
+} from "@/lib/services/ai-chat-history-service";
+
+function entry(i: number): AiChatEntry {
+  return {
+    id: `id-${i}`,
+    role: i % 2 === 0 ? "user" : "assistant",
+    content: `message ${i}`,
+    createdAt: i,
+  };
+}
+
+function lastWritten(): { version: string; entries: AiChatEntry[] } {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]);
+}
+
+describe("AiChatHistoryService — project mode (VFS)", () => {
+  const svc = getAiChatHistoryService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+    mockIllusionsDir.getFileHandle.mockClear();
+  });
+
+  it("loadEntries returns empty array when the file does not exist", async () => {
+    mockFileExists.mockResolvedValue(false);
+    expect(await svc.loadEntries()).toEqual([]);
+    expect(mockFileRead).not.toHaveBeenCalled();
+  });
+
+  it("loadEntries reads .illusions/ai-chat.json", async () => {
+    mockFileExists.mockResolvedValue(true);
+    mockFileRead.mockResolvedValue(JSON.stringify({ version: "1.0.0", entries: [entry(0)] }));
+
+    expect(await svc.loadEntries()).toEqual([entry(0)]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("ai-chat.json");
+  });
+
+  it("saveEntries writes a versioned envelope with the newest messages only", async () => {
+    const entries = Array.from({ length: MAX_AI_CHAT_ENTRIES + 5 }, (_, i) => entry(i));
+    await svc.saveEntries(entries);
+
+    const written = lastWritten();
+    expect(written.version).toBe("1.0.0");
+    expect(written.entries).toHaveLength(MAX_AI_CHAT_ENTRIES);
+    expect(written.entries[0].id).toBe("id-5");
+  });
+
+  it("clear writes an empty conversation", async () => {
+    await svc.clear();
+    expect(lastWritten().entries).toEqual([]);
+  });
+});
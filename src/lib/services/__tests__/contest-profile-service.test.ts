@@ -0,0 +1,120 @@
+/**
+ * Tests for ContestProfileService.
+ *
+ * Covers:
+ * - Project mode (VFS): load (missing file / malformed profiles), addProfiles, removeProfile
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { ContestProfile } from "@/lib/export/contest-profiles";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import { getContestProfileService } from "@/lib/services/contest-profile-service";
+
+function profile(id: string, label = id): ContestProfile {
+  return {
+    id,
+    label,
+    layout: {
+      pageSize: "A4",
+      landscape: true,
+      verticalWriting: true,
+      charsPerLine: 40,
+      linesPerPage: 30,
+    },
+    length: { unit: "manuscript", max: 100 },
+    sections: [],
+  };
+}
+
+function setupFile(profiles: unknown[] | null): void {
+  mockFileExists.mockResolvedValue(profiles !== null);
+  mockFileRead.mockResolvedValue(JSON.stringify({ version: "1.0.0", profiles: profiles ?? [] }));
+}
+
+function lastWritten(): ContestProfile[] {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]).profiles;
+}
+
+describe("ContestProfileService — project mode (VFS)", () => {
+  const svc = getContestProfileService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+  });
+
+  it("loadProfiles returns empty array when the file does not exist", async () => {
+    setupFile(null);
+    expect(await svc.loadProfiles()).toEqual([]);
+    expect(mockFileRead).not.toHaveBeenCalled();
+  });
+
+  it("loadProfiles skips malformed profiles", async () => {
+    setupFile([profile("a"), { id: "broken", label: "壊れた" }]);
+    expect(await svc.loadProfiles()).toEqual([profile("a")]);
+  });
+
+  it("addProfiles replaces profiles with the same id", async () => {
+    setupFile([profile("a"), profile("b")]);
+    const result = await svc.addProfiles([profile("b", "更新"), profile("c")]);
+    expect(result.map((p) => [p.id, p.label])).toEqual([
+      ["a", "a"],
+      ["b", "更新"],
+      ["c", "c"],
+    ]);
+    expect(lastWritten()).toEqual(result);
+  });
+
+  it("removeProfile drops the profile and skips the write when absent", async () => {
+    setupFile([profile("a"), profile("b")]);
+    expect(await svc.removeProfile("a")).toEqual([profile("b")]);
+    expect(lastWritten()).toEqual([profile("b")]);
+
+    mockFileWrite.mockClear();
+    setupFile([profile("b")]);
+    await svc.removeProfile("zzz");
+    expect(mockFileWrite).not.toHaveBeenCalled();
+  });
+});
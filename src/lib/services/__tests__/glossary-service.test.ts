@@ -0,0 +1,113 @@
+/**
+ * Tests for GlossaryService.
+ *
+ * Covers:
+ * - Project mode (VFS): load (missing file / content), upsertEntry, removeEntry
+ * - Domain rules: entries replaced by id, variants cleaned, sorted by reading
+ * - Change notification after writes
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { GlossaryEntry } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import { getGlossaryService, subscribeGlossaryChange } from "@/lib/services/glossary-service";
+
+function setupFile(entries: GlossaryEntry[] | null): void {
+  mockFileExists.mockResolvedValue(entries !== null);
+  mockFileRead.mockResolvedValue(JSON.stringify({ version: "1.0.0", entries: entries ?? [] }));
+}
+
+function lastWritten(): GlossaryEntry[] {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]).entries;
+}
+
+function entry(id: string, term: string, reading?: string, variants: string[] = []): GlossaryEntry {
+  return { id, term, reading, definition: "", variants };
+}
+
+describe("GlossaryService — project mode (VFS)", () => {
+  const svc = getGlossaryService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+  });
+
+  it("loadEntries returns empty array when the file does not exist", async () => {
+    setupFile(null);
+    expect(await svc.loadEntries()).toEqual([]);
+    expect(mockFileRead).not.toHaveBeenCalled();
+  });
+
+  it("loadEntries returns entries from .illusions/glossary.json", async () => {
+    setupFile([entry("1", "魔導士", "まどうし", ["魔導師"])]);
+    expect(await svc.loadEntries()).toEqual([entry("1", "魔導士", "まどうし", ["魔導師"])]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("glossary.json");
+  });
+
+  it("upsertEntry replaces by id, cleans variants and sorts by reading", async () => {
+    setupFile([entry("1", "魔導士", "まどうし"), entry("2", "王都", "おうと")]);
+    await svc.upsertEntry(entry("1", " 魔導士 ", "まどうし", ["魔導師", "", "魔導士", "魔導師"]));
+    expect(lastWritten()).toEqual([
+      entry("2", "王都", "おうと"),
+      entry("1", "魔導士", "まどうし", ["魔導師"]),
+    ]);
+
+    await svc.upsertEntry(entry("3", "アルカナ"));
+    expect(lastWritten().map((e) => e.id)).toEqual(["3", "2", "1"]);
+  });
+
+  it("removeEntry drops the entry and notifies subscribers", async () => {
+    setupFile([entry("1", "魔導士", "まどうし")]);
+    const listener = vi.fn();
+    const unsubscribe = subscribeGlossaryChange(listener);
+
+    await svc.removeEntry("1");
+
+    expect(lastWritten()).toEqual([]);
+    expect(listener).toHaveBeenCalledOnce();
+    unsubscribe();
+  });
+});
@@ -4,7 +4,9 @@
  * Coverage targets:
  * - shouldCreateSnapshot: throttle for "auto", bypass for all non-auto types
  * - shouldPrune: retention window, permanent types never pruned
- * - getPruneSet: count-based + time-based, ordering, permanent preservation
+ * - getPruneSet: count-based + time-based, ordering, permanent preservation,
+ *   branch bases and branch heads preserved
+ * - Draft branches: getBranchHead, getMergeBase, validateBranchName
  * - Utility: formatTimestamp, calculateChecksum, calculateByteSize,
  *             isAutoSnapshotFilename, getSnapshotSourceKey, getSnapshotDisplayName,
  *             makeSnapshotStorageLabel, createDefaultHistoryIndex
@@ -24,12 +26,20 @@ import {
   getSnapshotDisplayName,
   makeSnapshotStorageLabel,
   createDefaultHistoryIndex,
+  getBranchHead,
+  getMergeBase,
+  validateBranchName,
   AUTO_SNAPSHOT_INTERVAL_MS,
   MAX_SNAPSHOTS,
   RETENTION_DAYS,
 } from "@/lib/services/history-policy";
 
-import type { SnapshotEntry, HistoryIndex, SnapshotType } from "@/lib/services/history-policy";
+import type {
+  DraftBranch,
+  SnapshotEntry,
+  HistoryIndex,
+  SnapshotType,
+} from "@/lib/services/history-policy";
 
 // -----------------------------------------------------------------------
 // Helpers
@@ -188,7 +198,14 @@ describe("shouldPrune", () => {
   });
 
   describe("permanent types — never pruned regardless of age", () => {
-    const permanentTypes: SnapshotType[] = ["manual", "milestone", "pre-close", "restore-point"];
+    const permanentTypes: SnapshotType[] = [
+      "manual",
+      "milestone",
+      "pre-close",
+      "restore-point",
+      "branch-fork",
+      "branch-switch",
+    ];
     const veryOldTimestamp = 0; // epoch — definitely outside retention
 
     for (const type of permanentTypes) {
@@ -284,7 +301,14 @@ describe("getPruneSet", () => {
   });
 
   describe("permanent types never in prune set", () => {
-    const permanentTypes: SnapshotType[] = ["manual", "milestone", "pre-close", "restore-point"];
+    const permanentTypes: SnapshotType[] = [
+      "manual",
+      "milestone",
+      "pre-close",
+      "restore-point",
+      "branch-fork",
+      "branch-switch",
+    ];
 
     it("does not prune permanent types even when exceeding maxSnapshots", () => {
       const now = Date.now();
@@ -353,6 +377,143 @@ describe("getPruneSet", () => {
     expect(types.has("pre-close")).toBe(false);
     expect(types.has("restore-point")).toBe(false);
   });
+
+  describe("draft branches", () => {
+    function makeBranch(overrides: Partial<DraftBranch> = {}): DraftBranch {
+      return {
+        id: "branch-1",
+        sourcePath: "test.mdi",
+        name: "別の結末",
+        baseSnapshotId: "base",
+        createdAt: 0,
+        ...overrides,
+      };
+    }
+
+    it("never prunes the snapshot a branch was forked from", () => {
+      const now = Date.now();
+      const base = makeEntry({ id: "base", type: "auto", timestamp: 0 });
+      const newer = makeEntry({ type: "auto", timestamp: now });
+      const index = makeIndex([newer, base], {
+        retentionDays: 0,
+        branches: [makeBranch()],
+      });
+      const prunedIds = getPruneSet(index, now + 1).map((e) => e.id);
+      expect(prunedIds).not.toContain("base");
+      expect(prunedIds).not.toContain(newer.id);
+    });
+
+    it("keeps the newest snapshot of each line of a branched document", () => {
+      const now = Date.now();
+      const mainOld = makeEntry({ type: "auto", timestamp: 1 });
+      const mainHead = makeEntry({ type: "auto", timestamp: 2 });
+      const branchOld = makeEntry({ type: "auto", timestamp: 3, branchId: "branch-1" });
+      const branchHead = makeEntry({ type: "auto", timestamp: 4, branchId: "branch-1" });
+      const index = makeIndex([branchHead, branchOld, mainHead, mainOld], {
+        maxSnapshots: 0,
+        retentionDays: 0,
+        branches: [makeBranch({ baseSnapshotId: "elsewhere" })],
+      });
+      const prunedIds = new Set(getPruneSet(index, now).map((e) => e.id));
+      expect(prunedIds).toEqual(new Set([mainOld.id, branchOld.id]));
+    });
+
+    it("does not protect heads of documents without branches", () => {
+      const now = Date.now();
+      const other = makeEntry({ sourcePath: "other.mdi", type: "auto", timestamp: 0 });
+      const index = makeIndex([other], { retentionDays: 0, branches: [makeBranch()] });
+      expect(getPruneSet(index, now).map((e) => e.id)).toEqual([other.id]);
+    });
+  });
+});
+
+// -----------------------------------------------------------------------
+// Draft branches
+// -----------------------------------------------------------------------
+
+describe("getBranchHead", () => {
+  const entries = [
+    makeEntry({ id: "main-1", timestamp: 1 }),
+    makeEntry({ id: "main-2", timestamp: 3 }),
+    makeEntry({ id: "b-1", timestamp: 2, branchId: "b" }),
+    makeEntry({ id: "b-2", timestamp: 4, branchId: "b" }),
+    makeEntry({ id: "other", timestamp: 5, sourcePath: "other.mdi" }),
+  ];
+
+  it("returns the newest main-line snapshot for null", () => {
+    expect(getBranchHead(entries, "test.mdi", null)?.id).toBe("main-2");
+  });
+
+  it("returns the newest snapshot of a branch", () => {
+    expect(getBranchHead(entries, "test.mdi", "b")?.id).toBe("b-2");
+  });
+
+  it("returns undefined when the line has no snapshots", () => {
+    expect(getBranchHead(entries, "test.mdi", "missing")).toBeUndefined();
+  });
+});
+
+describe("getMergeBase", () => {
+  function branch(id: string, baseSnapshotId: string): DraftBranch {
+    return { id, sourcePath: "test.mdi", name: id, baseSnapshotId, createdAt: 0 };
+  }
+
+  // main: m1 ─ m2 ─ m3
+  //        └ a: a1 ─ a2      (forked at m1)
+  //              └ c: c1     (forked at a1)
+  //             └ b: b1      (forked at m2)
+  const entries = [
+    makeEntry({ id: "m1", timestamp: 1 }),
+    makeEntry({ id: "m2", timestamp: 3 }),
+    makeEntry({ id: "m3", timestamp: 6 }),
+    makeEntry({ id: "a1", timestamp: 2, branchId: "a" }),
+    makeEntry({ id: "a2", timestamp: 5, branchId: "a" }),
+    makeEntry({ id: "b1", timestamp: 4, branchId: "b" }),
+    makeEntry({ id: "c1", timestamp: 7, branchId: "c" }),
+  ];
+  const branches = [branch("a", "m1"), branch("b", "m2"), branch("c", "a1")];
+
+  it("uses the fork point between a branch and the line it was forked from", () => {
+    expect(getMergeBase(entries, branches, null, "a")?.id).toBe("m1");
+    expect(getMergeBase(entries, branches, "a", null)?.id).toBe("m1");
+    expect(getMergeBase(entries, branches, "a", "c")?.id).toBe("a1");
+  });
+
+  it("uses the older fork point for sibling branches", () => {
+    expect(getMergeBase(entries, branches, "a", "b")?.id).toBe("m1");
+    expect(getMergeBase(entries, branches, "b", "a")?.id).toBe("m1");
+  });
+
+  it("walks nested branches up to the shared line", () => {
+    expect(getMergeBase(entries, branches, null, "c")?.id).toBe("m1");
+    expect(getMergeBase(entries, branches, "b", "c")?.id).toBe("m1");
+  });
+
+  it("returns undefined when the chains never meet or the lines are the same", () => {
+    const orphaned = [branch("b", "m2"), branch("c", "a1")];
+    expect(getMergeBase(entries, orphaned, "b", "c")).toBeUndefined();
+    expect(getMergeBase(entries, branches, "a", "a")).toBeUndefined();
+  });
+});
+
+describe("validateBranchName", () => {
+  it("accepts a new name", () => {
+    expect(validateBranchName("  別の結末 ", ["第二稿"])).toBeNull();
+  });
+
+  it("rejects empty names", () => {
+    expect(validateBranchName("   ", [])).not.toBeNull();
+  });
+
+  it("rejects names longer than 40 characters", () => {
+    expect(validateBranchName("あ".repeat(41), [])).not.toBeNull();
+    expect(validateBranchName("あ".repeat(40), [])).toBeNull();
+  });
+
+  it("rejects the main line's name and duplicates", () => {
+    expect(validateBranchName("本線", [])).not.toBeNull();
+    expect(validateBranchName("第二稿 ", ["第二稿"])).not.toBeNull();
+  });
 });
 
 // -----------------------------------------------------------------------
@@ -16,6 +16,7 @@
  * - getBookmarks / toggleBookmark: round-trip
  * - onSnapshotCreated: listener called on new snapshot
  * - pruneOldSnapshots: removes old auto entries, keeps permanent ones
+ * - Draft branches: create / switch / head content / delete
  * - Singleton: getHistoryService / resetHistoryService
  */
 
@@ -913,4 +914,162 @@ describe("HistoryService", () => {
       expect(no[0].sourcePath).toBe("notes/intro.mdi");
     });
   });
+
+  // -----------------------------------------------------------------------
+  // Draft branches
+  // -----------------------------------------------------------------------
+
+  describe("draft branches", () => {
+    const SOURCE = "chapters/ending.mdi";
+
+    async function seedMainLine(content: string): Promise<SnapshotEntry> {
+      const entry = await service.createSnapshot({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        content,
+        type: "manual",
+      });
+      return entry!;
+    }
+
+    it("createBranch forks from a snapshot and makes the branch active", async () => {
+      const base = await seedMainLine("元の結末");
+
+      const { branch, content } = await service.createBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        name: " 別の結末 ",
+        fromSnapshotId: base.id,
+        currentContent: "元の結末に加筆",
+      });
+
+      expect(content).toBe("元の結末");
+      expect(branch.name).toBe("別の結末");
+      expect(branch.baseSnapshotId).toBe(base.id);
+
+      const { branches, activeBranchId } = await service.getBranches(SOURCE);
+      expect(branches.map((b) => b.id)).toEqual([branch.id]);
+      expect(activeBranchId).toBe(branch.id);
+
+      // The unsaved edit stays on the main line; the fork starts the branch
+      expect(await service.getBranchHeadContent(SOURCE, null)).toBe("元の結末に加筆");
+      expect(await service.getBranchHeadContent(SOURCE, branch.id)).toBe("元の結末");
+    });
+
+    it("createBranch rejects duplicate names", async () => {
+      const base = await seedMainLine("本文");
+      const options = {
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        name: "第二稿",
+        fromSnapshotId: base.id,
+        currentContent: "本文",
+      };
+      await service.createBranch(options);
+      await expect(service.createBranch(options)).rejects.toThrow();
+    });
+
+    it("snapshots taken on a branch are tagged with it", async () => {
+      const base = await seedMainLine("本文");
+      const { branch } = await service.createBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        name: "別案",
+        fromSnapshotId: base.id,
+        currentContent: "本文",
+      });
+
+      const entry = await service.createSnapshot({
+        sourcePath: SOURCE,
+        content: "別案の本文",
+        type: "manual",
+      });
+      expect(entry!.branchId).toBe(branch.id);
+    });
+
+    it("switchBranch saves the current content and loads the target head", async () => {
+      const base = await seedMainLine("本文");
+      const { branch } = await service.createBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        name: "別案",
+        fromSnapshotId: base.id,
+        currentContent: "本文",
+      });
+
+      const toMain = await service.switchBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        branchId: null,
+        currentContent: "別案で書き直した本文",
+      });
+      expect(toMain).toEqual({ success: true, content: "本文" });
+      expect((await service.getBranches(SOURCE)).activeBranchId).toBeNull();
+
+      const back = await service.switchBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        branchId: branch.id,
+        currentContent: "本文",
+      });
+      expect(back).toEqual({ success: true, content: "別案で書き直した本文" });
+    });
+
+    it("switchBranch does not save a snapshot when the content is unchanged", async () => {
+      const base = await seedMainLine("本文");
+      await service.createBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        name: "別案",
+        fromSnapshotId: base.id,
+        currentContent: "本文",
+      });
+
+      const before = (await service.getSnapshots(SOURCE)).length;
+      await service.switchBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        branchId: null,
+        currentContent: "本文",
+      });
+      expect(await service.getSnapshots(SOURCE)).toHaveLength(before);
+    });
+
+    it("switchBranch fails for an unknown branch", async () => {
+      await seedMainLine("本文");
+      const result = await service.switchBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        branchId: "missing",
+        currentContent: "本文",
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it("deleteBranch removes the branch and its snapshots but refuses the active one", async () => {
+      const base = await seedMainLine("本文");
+      const { branch } = await service.createBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        name: "別案",
+        fromSnapshotId: base.id,
+        currentContent: "本文",
+      });
+
+      await expect(service.deleteBranch(branch.id)).rejects.toThrow();
+
+      await service.switchBranch({
+        sourcePath: SOURCE,
+        displayName: "ending.mdi",
+        branchId: null,
+        currentContent: "本文",
+      });
+      await service.deleteBranch(branch.id);
+
+      expect((await service.getBranches(SOURCE)).branches).toEqual([]);
+      const remaining = await service.getSnapshots(SOURCE);
+      expect(remaining.some((s) => s.branchId === branch.id)).toBe(false);
+      expect(remaining.map((s) => s.id)).toContain(base.id);
+    });
+  });
 });
@@ -0,0 +1,159 @@
+/**
+ * Tests for the paragraph diff used by the snapshot compare tab.
+ *
+ * Covers:
+ *   - diffParagraphs(): unchanged, added, removed, modified and moved paragraphs
+ *   - splitAtTokens() / computeTokenDiff(): word (kuromoji token) granularity
+ *   - applyWordGranularity(): refines only modified rows
+ *   - getParagraphDiffStats() and findChangeStarts()
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  applyWordGranularity,
+  computeTokenDiff,
+  diffParagraphs,
+  findChangeStarts,
+  getParagraphDiffStats,
+  splitAtTokens,
+} from "@/lib/services/diff-service";
+
+const kinds = (text1: string, text2: string) => diffParagraphs(text1, text2).map((r) => r.kind);
+
+describe("diffParagraphs", () => {
+  it("reports every paragraph unchanged for identical texts", () => {
+    expect(kinds("一段落目。\n二段落目。", "一段落目。\n二段落目。")).toEqual([
+      "unchanged",
+      "unchanged",
+    ]);
+  });
+
+  it("ignores blank lines and HTML line breaks", () => {
+    expect(kinds("一段落目。\n\n二段落目。", "一段落目。<br>二段落目。")).toEqual([
+      "unchanged",
+      "unchanged",
+    ]);
+  });
+
+  it("reports added and removed paragraphs", () => {
+    const rows = diffParagraphs(
+      "吾輩は猫である。\n名前はまだ無い。",
+      "吾輩は猫である。\nどこで生れたかとんと見当がつかぬ。",
+    );
+    // The replaced paragraph shares nothing with the new one, so it is not "modified"
+    expect(rows.map((r) => r.kind)).toEqual(["unchanged", "removed", "added"]);
+    expect(rows[1].oldText).toBe("名前はまだ無い。");
+    expect(rows[2].newText).toBe("どこで生れたかとんと見当がつかぬ。");
+  });
+
+  it("pairs a similar removed and added paragraph as modified with inline chunks", () => {
+    const rows = diffParagraphs("彼は静かに扉を開けた。", "彼はそっと扉を開けた。");
+    expect(rows).toHaveLength(1);
+    expect(rows[0].kind).toBe("modified");
+    const chunks = rows[0].chunks ?? [];
+    expect(
+      chunks
+        .filter((c) => c.type !== "added")
+        .map((c) => c.value)
+        .join(""),
+    ).toBe("彼は静かに扉を開けた。");
+    expect(
+      chunks
+        .filter((c) => c.type !== "removed")
+        .map((c) => c.value)
+        .join(""),
+    ).toBe("彼はそっと扉を開けた。");
+  });
+
+  it("detects a paragraph moved to another place", () => {
+    const before = [
+      "朝が来た。",
+      "雨が降っていた。",
+      "彼女は傘を持って家を出た。",
+      "駅までは遠い。",
+    ].join("\n");
+    const after = [
+      "朝が来た。",
+      "駅までは遠い。",
+      "雨が降っていた。",
+      "彼女は傘を持って家を出た。",
+    ].join("\n");
+    const rows = diffParagraphs(before, after);
+
+    const from = rows.find((r) => r.kind === "moved-from");
+    const to = rows.find((r) => r.kind === "moved-to");
+    expect(from?.oldText).toBe(to?.newText);
+    expect(from?.moveId).toBe(to?.moveId);
+    expect(rows.some((r) => r.kind === "added" || r.kind === "removed")).toBe(false);
+  });
+
+  it("does not report very short paragraphs as moved", () => {
+    const rows = diffParagraphs(
+      "「はい」\n長い段落がここにあります。",
+      "長い段落がここにあります。\n「はい」",
+    );
+    expect(rows.some((r) => r.kind === "moved-from" || r.kind === "moved-to")).toBe(false);
+  });
+});
+
+describe("word granularity", () => {
+  it("splitAtTokens keeps text the tokenizer skipped", () => {
+    const pieces = splitAtTokens("猫 が 鳴く", [
+      { start: 0, end: 1 },
+      { start: 2, end: 3 },
+      { start: 4, end: 6 },
+    ]);
+    expect(pieces).toEqual(["猫", " ", "が", " ", "鳴く"]);
+  });
+
+  it("computeTokenDiff replaces changed tokens as a whole", () => {
+    const chunks = computeTokenDiff(["彼", "は", "走っ", "た"], ["彼", "は", "歩い", "た"]);
+    expect(chunks).toEqual([
+      { type: "unchanged", value: "彼は" },
+      { type: "removed", value: "走っ" },
+      { type: "added", value: "歩い" },
+      { type: "unchanged", value: "た" },
+    ]);
+  });
+
+  it("applyWordGranularity re-diffs only modified rows", async () => {
+    const rows = diffParagraphs("同じ段落。\n彼は走った。", "同じ段落。\n彼は歩いた。");
+    const tokenized: string[] = [];
+    const refined = await applyWordGranularity(rows, async (text) => {
+      tokenized.push(text);
+      return text === "彼は走った。"
+        ? ["彼", "は", "走っ", "た", "。"]
+        : ["彼", "は", "歩い", "た", "。"];
+    });
+
+    expect(tokenized).toEqual(["彼は走った。", "彼は歩いた。"]);
+    expect(refined[0]).toBe(rows[0]);
+    expect(refined[1].chunks).toContainEqual({ type: "removed", value: "走っ" });
+    expect(refined[1].chunks).toContainEqual({ type: "added", value: "歩い" });
+  });
+});
+
+describe("getParagraphDiffStats / findChangeStarts", () => {
+  it("counts characters, modified and moved paragraphs", () => {
+    const rows = diffParagraphs(
+      "移動する段落です。\n残る段落。\n消える段落",
+      "残る段落。\n移動する段落です。\n足した",
+    );
+    const stats = getParagraphDiffStats(rows);
+    expect(stats.movedParagraphs).toBe(1);
+    expect(stats.removedChars).toBe("消える段落".length);
+    expect(stats.addedChars).toBe("足した".length);
+  });
+
+  it("groups consecutive changed rows into one change", () => {
+    const rows = diffParagraphs(
+      "一。\n二。\n三。\n四。",
+      "一。\n二を変えた。\nさらに追加。\n三。\n四を変更。",
+    );
+    const starts = findChangeStarts(rows);
+    expect(starts).toHaveLength(2);
+    expect(rows[starts[0]].kind).not.toBe("unchanged");
+    expect(rows[starts[0] - 1].kind).toBe("unchanged");
+  });
+});
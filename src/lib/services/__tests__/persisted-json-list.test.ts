@@ -5,7 +5,7 @@
  * Covers:
  * - Exact serialized output (byte-compat): project mode pretty JSON with
  *   version-first envelope, standalone mode compact JSON
- * - Standalone storage key prefixes unchanged
+ * - Standalone storage key prefixes unchanged; project-only stores omit one
  * - Mutation semantics: null from the mutation callback skips the save
  * - Mutex: concurrent mutations are serialized (no lost updates)
  * - isFileNotFoundError helper
@@ -239,6 +239,17 @@ describe("PersistedJsonListStore — mutation semantics", () => {
     expect(await store.loadStandalone("/f.mdi")).toEqual([{ key: "a", value: 1 }]);
   });
 
+  it("a store without a standalone key prefix is project-only", async () => {
+    const store = new PersistedJsonListStore<TestItem>({
+      filename: "project-only.json",
+      toEnvelope: (items): TestEnvelope => ({ version: "1.0.0", items }),
+      fromEnvelope: (envelope): TestItem[] => (envelope as TestEnvelope).items ?? [],
+    });
+
+    await expect(store.saveStandalone("/f.mdi", [])).rejects.toThrow("project mode only");
+    expect(mockStorage.setItem).not.toHaveBeenCalled();
+  });
+
   it("loadProject returns empty array when exists() is false (Electron missing file)", async () => {
     setupVFSWritable();
     mockFileExists.mockResolvedValue(false);
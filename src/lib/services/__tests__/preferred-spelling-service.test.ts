@@ -0,0 +1,118 @@
+/**
+ * Tests for PreferredSpellingService.
+ *
+ * Covers:
+ * - Project mode (VFS): load (missing file / content), setPreferred, removePreferred
+ * - Domain rules: one entry per preferred spelling, a variant belongs to one entry
+ * - Change notification after writes
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { PreferredSpelling } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import {
+  getPreferredSpellingService,
+  subscribePreferredSpellingsChange,
+} from "@/lib/services/preferred-spelling-service";
+
+function setupFile(entries: PreferredSpelling[] | null): void {
+  mockFileExists.mockResolvedValue(entries !== null);
+  mockFileRead.mockResolvedValue(JSON.stringify({ version: "1.0.0", entries: entries ?? [] }));
+}
+
+function lastWritten(): PreferredSpelling[] {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]).entries;
+}
+
+describe("PreferredSpellingService — project mode (VFS)", () => {
+  const svc = getPreferredSpellingService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+  });
+
+  it("loadEntries returns empty array when the file does not exist", async () => {
+    setupFile(null);
+    expect(await svc.loadEntries()).toEqual([]);
+    expect(mockFileRead).not.toHaveBeenCalled();
+  });
+
+  it("loadEntries returns entries from .illusions/preferred-spellings.json", async () => {
+    setupFile([{ preferred: "子ども", variants: ["子供"] }]);
+    expect(await svc.loadEntries()).toEqual([{ preferred: "子ども", variants: ["子供"] }]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("preferred-spellings.json");
+  });
+
+  it("setPreferred replaces the entry for the same preferred spelling", async () => {
+    setupFile([{ preferred: "子ども", variants: ["子供"] }]);
+    await svc.setPreferred({ preferred: "子ども", variants: ["子供", "こども", "子ども"] });
+    expect(lastWritten()).toEqual([{ preferred: "子ども", variants: ["子供", "こども"] }]);
+  });
+
+  it("setPreferred moves a variant out of any other entry", async () => {
+    setupFile([
+      { preferred: "できる", variants: ["出来る"] },
+      { preferred: "子供", variants: ["子ども"] },
+    ]);
+    await svc.setPreferred({ preferred: "子ども", variants: ["子供"] });
+    expect(lastWritten()).toEqual([
+      { preferred: "できる", variants: ["出来る"] },
+      { preferred: "子ども", variants: ["子供"] },
+    ]);
+  });
+
+  it("removePreferred drops the entry and notifies subscribers", async () => {
+    setupFile([{ preferred: "子ども", variants: ["子供"] }]);
+    const listener = vi.fn();
+    const unsubscribe = subscribePreferredSpellingsChange(listener);
+
+    await svc.removePreferred("子ども");
+
+    expect(lastWritten()).toEqual([]);
+    expect(listener).toHaveBeenCalledOnce();
+    unsubscribe();
+  });
+});
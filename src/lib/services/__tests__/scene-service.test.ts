@@ -0,0 +1,124 @@
+/**
+ * Tests for SceneService.
+ *
+ * Covers:
+ * - Project mode (VFS): load (missing file / defaults), upsertScene, appendScenes, removeScene
+ * - Domain rules: scenes replaced in place, new scenes appended, fields cleaned
+ * - Change notification after writes
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { Scene } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import { getSceneService, subscribeSceneChange } from "@/lib/services/scene-service";
+
+function setupFile(scenes: Scene[] | null): void {
+  mockFileExists.mockResolvedValue(scenes !== null);
+  mockFileRead.mockResolvedValue(JSON.stringify({ version: "1.0.0", scenes: scenes ?? [] }));
+}
+
+function lastWritten(): Scene[] {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0]).scenes;
+}
+
+function scene(id: string, title: string, extra: Partial<Scene> = {}): Scene {
+  return { id, title, status: "idea", tags: [], ...extra };
+}
+
+describe("SceneService — project mode (VFS)", () => {
+  const svc = getSceneService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+  });
+
+  it("loadScenes returns empty array when the file does not exist", async () => {
+    setupFile(null);
+    expect(await svc.loadScenes()).toEqual([]);
+    expect(mockFileRead).not.toHaveBeenCalled();
+  });
+
+  it("loadScenes reads .illusions/scenes.json and fills missing status and tags", async () => {
+    mockFileExists.mockResolvedValue(true);
+    mockFileRead.mockResolvedValue(
+      JSON.stringify({ version: "1.0.0", scenes: [{ id: "1", title: "出立" }] }),
+    );
+    expect(await svc.loadScenes()).toEqual([scene("1", "出立")]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("scenes.json");
+  });
+
+  it("upsertScene replaces in place, appends new scenes and cleans fields", async () => {
+    setupFile([scene("1", "出立"), scene("2", "峠")]);
+    await svc.upsertScene(
+      scene("1", " 旅立ち ", { storyTime: " ", location: " 王都 ", tags: ["回想", "", "回想"] }),
+    );
+    expect(lastWritten()).toEqual([
+      scene("1", "旅立ち", { location: "王都", tags: ["回想"] }),
+      scene("2", "峠"),
+    ]);
+
+    await svc.upsertScene(scene("3", "再会"));
+    expect(lastWritten().map((s) => s.id)).toEqual(["1", "2", "3"]);
+  });
+
+  it("appendScenes skips ids that already exist", async () => {
+    setupFile([scene("1", "出立")]);
+    await svc.appendScenes([scene("1", "重複"), scene("2", "峠")]);
+    expect(lastWritten()).toEqual([scene("1", "出立"), scene("2", "峠")]);
+  });
+
+  it("removeScene drops the scene and notifies subscribers", async () => {
+    setupFile([scene("1", "出立")]);
+    const listener = vi.fn();
+    const unsubscribe = subscribeSceneChange(listener);
+
+    await svc.removeScene("1");
+
+    expect(lastWritten()).toEqual([]);
+    expect(listener).toHaveBeenCalledOnce();
+    unsubscribe();
+  });
+});
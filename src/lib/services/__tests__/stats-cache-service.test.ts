@@ -0,0 +1,113 @@
+/**
+ * Tests for StatsCacheService.
+ *
+ * Covers:
+ * - Project mode (VFS): load, update
+ * - Cache rules: entries of another metrics version are ignored, entries of
+ *   pruned snapshots are dropped, unchanged caches are not rewritten
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { SnapshotMetrics } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import { getStatsCacheService, STATS_METRICS_VERSION } from "@/lib/services/stats-cache-service";
+
+function setupFile(envelope: object | null): void {
+  mockFileExists.mockResolvedValue(envelope !== null);
+  mockFileRead.mockResolvedValue(JSON.stringify(envelope ?? {}));
+}
+
+function metrics(snapshotId: string, chars = 100): SnapshotMetrics {
+  return {
+    snapshotId,
+    chars,
+    pages: 1,
+    readability: 70,
+    dialogueChars: 20,
+    vocabularyRichness: 3.5,
+  };
+}
+
+describe("StatsCacheService — project mode (VFS)", () => {
+  const svc = getStatsCacheService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+  });
+
+  it("load returns the entries keyed by snapshot id", async () => {
+    setupFile({ version: "1.0.0", metricsVersion: STATS_METRICS_VERSION, entries: [metrics("a")] });
+    const cache = await svc.load();
+    expect([...cache.keys()]).toEqual(["a"]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("stats-cache.json");
+  });
+
+  it("load ignores entries of another metrics version and unreadable files", async () => {
+    setupFile({ version: "1.0.0", metricsVersion: 0, entries: [metrics("a")] });
+    expect((await svc.load()).size).toBe(0);
+
+    mockFileExists.mockResolvedValue(true);
+    mockFileRead.mockResolvedValue("{ broken");
+    expect((await svc.load()).size).toBe(0);
+  });
+
+  it("update adds new entries and drops those of pruned snapshots", async () => {
+    setupFile({
+      version: "1.0.0",
+      metricsVersion: STATS_METRICS_VERSION,
+      entries: [metrics("a"), metrics("pruned")],
+    });
+    await svc.update([metrics("b", 200)], new Set(["a", "b"]));
+    const written = JSON.parse(mockFileWrite.mock.calls[0][0]);
+    expect(written.metricsVersion).toBe(STATS_METRICS_VERSION);
+    expect(written.entries).toEqual([metrics("a"), metrics("b", 200)]);
+  });
+
+  it("update skips the write when nothing changed", async () => {
+    setupFile({ version: "1.0.0", metricsVersion: STATS_METRICS_VERSION, entries: [metrics("a")] });
+    await svc.update([], new Set(["a"]));
+    expect(mockFileWrite).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Tests for three-way-merge.ts: paragraph-level merge of two versions
+ * against their common ancestor.
+ */
+
+import { describe, it, expect } from "vitest";
+
+import {
+  mergeThreeWay,
+  resolveMerge,
+  defaultMergeChoice,
+  isMergeChoiceHunk,
+} from "@/lib/services/three-way-merge";
+
+import type { MergeChoice } from "@/lib/services/three-way-merge";
+
+const BASE = ["一段落目。", "二段落目。", "三段落目。", "四段落目。"].join("\n");
+
+function lines(...paragraphs: string[]): string {
+  return paragraphs.join("\n");
+}
+
+describe("mergeThreeWay", () => {
+  it("returns a single unchanged hunk when nothing changed", () => {
+    const hunks = mergeThreeWay(BASE, BASE, BASE);
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0]?.kind).toBe("unchanged");
+  });
+
+  it("classifies changes made on one side only", () => {
+    const ours = lines("一段落目（改）。", "二段落目。", "三段落目。", "四段落目。");
+    const theirs = lines("一段落目。", "二段落目。", "三段落目。", "四段落目（別案）。");
+    const kinds = mergeThreeWay(BASE, ours, theirs).map((h) => h.kind);
+    expect(kinds).toEqual(["ours", "unchanged", "theirs"]);
+  });
+
+  it("merges changes to adjacent paragraphs without a conflict", () => {
+    const ours = lines("一段落目。", "二段落目（改）。", "三段落目。", "四段落目。");
+    const theirs = lines("一段落目。", "二段落目。", "三段落目（別案）。", "四段落目。");
+    const hunks = mergeThreeWay(BASE, ours, theirs);
+    expect(hunks.some((h) => h.kind === "conflict")).toBe(false);
+    expect(resolveMerge(hunks, new Map())).toBe(
+      lines("一段落目。", "二段落目（改）。", "三段落目（別案）。", "四段落目。"),
+    );
+  });
+
+  it("reports a conflict when both sides change the same paragraph differently", () => {
+    const ours = lines("一段落目。", "二段落目（改）。", "三段落目。", "四段落目。");
+    const theirs = lines("一段落目。", "二段落目（別案）。", "三段落目。", "四段落目。");
+    const conflict = mergeThreeWay(BASE, ours, theirs).find((h) => h.kind === "conflict");
+    expect(conflict).toEqual({
+      kind: "conflict",
+      base: ["二段落目。"],
+      ours: ["二段落目（改）。"],
+      theirs: ["二段落目（別案）。"],
+    });
+  });
+
+  it("treats identical changes on both sides as the same change", () => {
+    const changed = lines("一段落目。", "二段落目（改）。", "三段落目。", "四段落目。");
+    const hunks = mergeThreeWay(BASE, changed, changed);
+    expect(hunks.map((h) => h.kind)).toContain("same");
+    expect(hunks.some(isMergeChoiceHunk)).toBe(false);
+  });
+
+  it("reports insertions at the same point as a conflict", () => {
+    const ours = lines("一段落目。", "挿入A。", "二段落目。", "三段落目。", "四段落目。");
+    const theirs = lines("一段落目。", "挿入B。", "二段落目。", "三段落目。", "四段落目。");
+    const conflict = mergeThreeWay(BASE, ours, theirs).find((h) => h.kind === "conflict");
+    expect(conflict?.ours).toEqual(["挿入A。"]);
+    expect(conflict?.theirs).toEqual(["挿入B。"]);
+  });
+
+  it("joins every hunk's side back into that side's document", () => {
+    const ours = lines("一段落目（改）。", "三段落目。", "四段落目。", "五段落目。");
+    const theirs = lines("序。", "一段落目。", "二段落目（別案）。", "四段落目。");
+    const hunks = mergeThreeWay(BASE, ours, theirs);
+    expect(hunks.flatMap((h) => h.base).join("\n")).toBe(BASE);
+    expect(hunks.flatMap((h) => h.ours).join("\n")).toBe(ours);
+    expect(hunks.flatMap((h) => h.theirs).join("\n")).toBe(theirs);
+  });
+});
+
+describe("resolveMerge", () => {
+  const ours = lines("一段落目。", "二段落目（改）。", "三段落目。", "四段落目（改）。");
+  const theirs = lines("一段落目。", "二段落目（別案）。", "三段落目。", "四段落目。");
+  const hunks = mergeThreeWay(BASE, ours, theirs);
+  const conflictIndex = hunks.findIndex((h) => h.kind === "conflict");
+
+  it("keeps the current version by default", () => {
+    expect(defaultMergeChoice(hunks[conflictIndex]!)).toBe("ours");
+    expect(resolveMerge(hunks, new Map())).toBe(ours);
+  });
+
+  it("applies per-hunk choices", () => {
+    const oursIndex = hunks.findIndex((h) => h.kind === "ours");
+    const choices = new Map<number, MergeChoice>([
+      [conflictIndex, "theirs"],
+      [oursIndex, "theirs"],
+    ]);
+    expect(resolveMerge(hunks, choices)).toBe(theirs);
+  });
+
+  it("keeps both versions in order for 'both'", () => {
+    const choices = new Map<number, MergeChoice>([[conflictIndex, "both"]]);
+    expect(resolveMerge(hunks, choices)).toBe(
+      lines(
+        "一段落目。",
+        "二段落目（改）。",
+        "二段落目（別案）。",
+        "三段落目。",
+        "四段落目（改）。",
+      ),
+    );
+  });
+});
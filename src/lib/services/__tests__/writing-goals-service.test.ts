@@ -0,0 +1,131 @@
+/**
+ * Tests for WritingGoalsService.
+ *
+ * Covers:
+ * - Project mode (VFS): loadGoals, setGoal, removeGoal, recordSession
+ * - Domain rules: one goal per scope, daily goals without deadline,
+ *   sessions replaced by id and pruned by age
+ * - Change notification after goal writes
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { WritingGoal, WritingSession } from "@/lib/project/project-types";
+
+// ---------------------------------------------------------------------------
+// Mock project-file-service (VFS) and storage-service
+// ---------------------------------------------------------------------------
+
+let mockFileRead = vi.fn<() => Promise<string>>();
+let mockFileWrite = vi.fn<(content: string) => Promise<void>>();
+let mockFileExists = vi.fn<() => Promise<boolean>>();
+
+const mockFileHandle = {
+  exists: () => mockFileExists(),
+  read: () => mockFileRead(),
+  write: (content: string) => mockFileWrite(content),
+};
+
+const mockIllusionsDir = {
+  getFileHandle: vi.fn(async () => mockFileHandle),
+};
+
+const mockRootHandle = {
+  getDirectoryHandle: vi.fn(async () => mockIllusionsDir),
+};
+
+vi.mock("@/lib/services/project-file-service", () => ({
+  getProjectFileService: () => ({
+    getDirectoryHandle: async () => mockRootHandle,
+    isRootOpen: () => true,
+  }),
+}));
+
+vi.mock("@/lib/storage/storage-service", () => ({
+  getStorageService: () => ({
+    getItem: vi.fn(async () => null),
+    setItem: vi.fn(async () => undefined),
+  }),
+}));
+
+// ---------------------------------------------------------------------------
+// Import the SUT after mocks are set up
+// ---------------------------------------------------------------------------
+
+import {
+  getWritingGoalsService,
+  subscribeWritingGoalsChange,
+} from "@/lib/services/writing-goals-service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function setupFile(envelope: object | null): void {
+  mockFileExists.mockResolvedValue(envelope !== null);
+  mockFileRead.mockResolvedValue(JSON.stringify(envelope ?? {}));
+}
+
+function lastWritten<T>(key: string): T[] {
+  const calls = mockFileWrite.mock.calls;
+  return JSON.parse(calls[calls.length - 1][0])[key];
+}
+
+function session(id: string, start: number, added = 10): WritingSession {
+  return { id, start, end: start + 60_000, added, deleted: 0 };
+}
+
+describe("WritingGoalsService — project mode (VFS)", () => {
+  const svc = getWritingGoalsService();
+
+  beforeEach(() => {
+    mockFileRead = vi.fn();
+    mockFileWrite = vi.fn<(content: string) => Promise<void>>().mockResolvedValue(undefined);
+    mockFileExists = vi.fn();
+  });
+
+  it("loadGoals returns empty array when the file does not exist", async () => {
+    setupFile(null);
+    expect(await svc.loadGoals()).toEqual([]);
+    expect(mockFileRead).not.toHaveBeenCalled();
+  });
+
+  it("setGoal replaces the goal of the same scope and notifies subscribers", async () => {
+    const project: WritingGoal = { scope: "project", unit: "chars", target: 100000 };
+    setupFile({ version: "1.0.0", goals: [project] });
+    const listener = vi.fn();
+    const unsubscribe = subscribeWritingGoalsChange(listener);
+
+    await svc.setGoal({ scope: "project", unit: "pages", target: 300.4, deadline: "2026-12-31" });
+    expect(lastWritten<WritingGoal>("goals")).toEqual([
+      { scope: "project", unit: "pages", target: 300, deadline: "2026-12-31" },
+    ]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("goals.json", { create: true });
+    expect(listener).toHaveBeenCalledOnce();
+    unsubscribe();
+  });
+
+  it("setGoal drops the deadline of a daily goal; removeGoal removes one scope", async () => {
+    const project: WritingGoal = { scope: "project", unit: "chars", target: 100000 };
+    setupFile({ version: "1.0.0", goals: [project] });
+    await svc.setGoal({ scope: "daily", unit: "chars", target: 2000, deadline: "2026-12-31" });
+    expect(lastWritten<WritingGoal>("goals")).toEqual([
+      project,
+      { scope: "daily", unit: "chars", target: 2000 },
+    ]);
+
+    await svc.removeGoal("project");
+    expect(lastWritten<WritingGoal>("goals")).toEqual([]);
+  });
+
+  it("recordSession updates a running session by id and prunes old sessions", async () => {
+    const now = Date.UTC(2026, 9, 19);
+    setupFile({
+      version: "1.0.0",
+      sessions: [session("old", now - 500 * DAY_MS), session("a", now - DAY_MS), session("b", now)],
+    });
+    await svc.recordSession({ ...session("b", now), end: now + 120_000, added: 50 });
+    expect(lastWritten<WritingSession>("sessions")).toEqual([
+      session("a", now - DAY_MS),
+      { id: "b", start: now, end: now + 120_000, added: 50, deleted: 0 },
+    ]);
+    expect(mockIllusionsDir.getFileHandle).toHaveBeenCalledWith("sessions.json", { create: true });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * AI assistant chat history service.
+ * Persists the conversation of the Inspector "AI" tab to .illusions/ai-chat.json
+ * (project mode only — standalone files keep the conversation in memory).
+ *
+ * AI アシスタントの会話履歴の管理サービス。
+ * プロジェクトモード: .illusions/ai-chat.json
+ *
+ * Persistence is delegated to the shared PersistedJsonListStore.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import type { AiChatEntry, AiChatHistoryFile } from "../project/project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const AI_CHAT_FILENAME = "ai-chat.json";
+/** Older messages are dropped beyond this many, keeping the file small. */
+export const MAX_AI_CHAT_ENTRIES = 200;
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class AiChatHistoryService {
+  private readonly store: PersistedJsonListStore<AiChatEntry>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<AiChatEntry>({
+      filename: AI_CHAT_FILENAME,
+      toEnvelope: (entries): AiChatHistoryFile => ({
+        version: "1.0.0",
+        entries,
+      }),
+      fromEnvelope: (envelope): AiChatEntry[] => (envelope as AiChatHistoryFile).entries ?? [],
+    });
+  }
+
+  /**
+   * Load the conversation from .illusions/ai-chat.json.
+   * Returns empty array if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadEntries(): Promise<AiChatEntry[]> {
+    return this.store.loadProject();
+  }
+
+  /**
+   * Save the conversation to .illusions/ai-chat.json, keeping the newest
+   * MAX_AI_CHAT_ENTRIES messages.
+   */
+  async saveEntries(entries: AiChatEntry[]): Promise<void> {
+    await this.store.saveProject(entries.slice(-MAX_AI_CHAT_ENTRIES));
+  }
+
+  /** Remove every message of the conversation. */
+  async clear(): Promise<void> {
+    await this.store.saveProject([]);
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: AiChatHistoryService | null = null;
+
+export function getAiChatHistoryService(): AiChatHistoryService {
+  if (!instance) {
+    instance = new AiChatHistoryService();
+  }
+  return instance;
+}
@@ -0,0 +1,107 @@
+/**
+ * Compile manifest service.
+ * Persists the "プロジェクト全体" export settings (file order, parts, chapter
+ * breaks, front matter) to .illusions/compile.json and reads the manuscript
+ * files they refer to. Project mode only.
+ *
+ * プロジェクト全体の書き出し設定の管理サービス。
+ * プロジェクトモード: .illusions/compile.json
+ */
+
+import { getProjectFileService } from "./project-file-service";
+import { isFileNotFoundError } from "./persisted-json-list";
+import type { CompileManifestFile } from "../project/project-types";
+import type { VirtualFileSystem } from "../vfs/types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const COMPILE_MANIFEST_FILENAME = "compile.json";
+const MANUSCRIPT_EXTENSIONS: readonly string[] = [".mdi", ".md", ".txt"];
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class CompileManifestService {
+  private readonly vfs: VirtualFileSystem;
+
+  constructor() {
+    this.vfs = getProjectFileService();
+  }
+
+  /**
+   * Load .illusions/compile.json.
+   * Returns null if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async load(): Promise<CompileManifestFile | null> {
+    const rootDir = await this.vfs.getDirectoryHandle("");
+    const illusionsDir = await rootDir.getDirectoryHandle(".illusions", { create: true });
+    try {
+      const fileHandle = await illusionsDir.getFileHandle(COMPILE_MANIFEST_FILENAME);
+      // Electron only surfaces a missing file on access (see PersistedJsonListStore).
+      if (!(await fileHandle.exists())) return null;
+      const parsed = JSON.parse(await fileHandle.read()) as CompileManifestFile;
+      return { ...parsed, items: parsed.items ?? [] };
+    } catch (err) {
+      if (isFileNotFoundError(err)) return null;
+      throw err;
+    }
+  }
+
+  /** Save the manifest to .illusions/compile.json as pretty-printed JSON. */
+  async save(manifest: CompileManifestFile): Promise<void> {
+    const rootDir = await this.vfs.getDirectoryHandle("");
+    const illusionsDir = await rootDir.getDirectoryHandle(".illusions", { create: true });
+    const fileHandle = await illusionsDir.getFileHandle(COMPILE_MANIFEST_FILENAME, {
+      create: true,
+    });
+    await fileHandle.write(JSON.stringify(manifest, null, 2));
+  }
+
+  /**
+   * Every manuscript file (.mdi / .md / .txt) in the project, outside hidden
+   * directories, as root-relative paths in natural order ("2章" before "10章").
+   */
+  async listManuscriptPaths(): Promise<string[]> {
+    const paths: string[] = [];
+    const visit = async (directoryPath: string): Promise<void> => {
+      for (const entry of await this.vfs.listDirectory(directoryPath)) {
+        if (entry.name.startsWith(".")) continue;
+        if (entry.kind === "directory") {
+          await visit(entry.path);
+        } else if (MANUSCRIPT_EXTENSIONS.some((ext) => entry.name.toLowerCase().endsWith(ext))) {
+          paths.push(entry.path);
+        }
+      }
+    };
+    await visit("");
+    return paths.sort((left, right) =>
+      left.localeCompare(right, "ja", { numeric: true, sensitivity: "base" }),
+    );
+  }
+
+  /** Read the text of each path, keyed by path. */
+  async readManuscripts(paths: readonly string[]): Promise<Map<string, string>> {
+    const contents = new Map<string, string>();
+    for (const path of paths) {
+      contents.set(path, await this.vfs.readFile(path));
+    }
+    return contents;
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: CompileManifestService | null = null;
+
+export function getCompileManifestService(): CompileManifestService {
+  if (!instance) {
+    instance = new CompileManifestService();
+  }
+  return instance;
+}
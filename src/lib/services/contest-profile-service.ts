@@ -0,0 +1,86 @@
+/**
+ * Contest-profile service.
+ * CRUD operations for .illusions/contest-profiles.json (project mode only —
+ * standalone files use the built-in profiles).
+ *
+ * 応募規定チェックで使うプロジェクト独自の新人賞プロファイルの管理サービス。
+ * プロジェクトモード: .illusions/contest-profiles.json
+ *
+ * The file has the same shape as the built-in library, so it can be written
+ * by hand; malformed profiles in it are skipped when loading.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import { parseContestProfiles } from "../export/contest-profiles";
+import type { ContestProfile, ContestProfilesFile } from "../export/contest-profiles";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const CONTEST_PROFILES_FILENAME = "contest-profiles.json";
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class ContestProfileService {
+  private readonly store: PersistedJsonListStore<ContestProfile>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<ContestProfile>({
+      filename: CONTEST_PROFILES_FILENAME,
+      toEnvelope: (profiles): ContestProfilesFile => ({
+        version: "1.0.0",
+        profiles,
+      }),
+      fromEnvelope: (envelope): ContestProfile[] =>
+        parseContestProfiles((envelope as Partial<ContestProfilesFile>).profiles ?? []),
+    });
+  }
+
+  /**
+   * Load the project's profiles from .illusions/contest-profiles.json.
+   * Returns empty array if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadProfiles(): Promise<ContestProfile[]> {
+    return this.store.loadProject();
+  }
+
+  /**
+   * Add profiles, replacing any with the same id.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async addProfiles(profiles: ContestProfile[]): Promise<ContestProfile[]> {
+    const ids = new Set(profiles.map((p) => p.id));
+    return this.store.mutateProject((current) => [
+      ...current.filter((p) => !ids.has(p.id)),
+      ...profiles,
+    ]);
+  }
+
+  /**
+   * Remove a profile by id.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async removeProfile(id: string): Promise<ContestProfile[]> {
+    return this.store.mutateProject((current) => {
+      const next = current.filter((p) => p.id !== id);
+      return next.length === current.length ? null : next;
+    });
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: ContestProfileService | null = null;
+
+export function getContestProfileService(): ContestProfileService {
+  if (!instance) {
+    instance = new ContestProfileService();
+  }
+  return instance;
+}
@@ -1,11 +1,13 @@
 /**
  * Diff service for comparing text content.
- * Uses character-level diffing optimized for Japanese text.
+ * Uses character-level diffing optimized for Japanese text, plus a
+ * paragraph-level diff (with moved paragraphs) for comparing versions.
  *
- * テキスト比較用のサービス。日本語テキスト向けに文字レベルの差分を提供する。
+ * テキスト比較用のサービス。日本語テキスト向けに文字レベルの差分と、
+ * 段落の移動を検出する段落単位の差分を提供する。
  */
 
-import { diffChars } from "diff";
+import { diffArrays, diffChars } from "diff";
 
 import type { Change } from "diff";
 
@@ -66,7 +68,19 @@ export interface DiffChunk {
  * @returns Array of diff chunks
  */
 export function computeDiff(oldText: string, newText: string): DiffChunk[] {
-  const changes: Change[] = diffChars(stripHtmlForDiff(oldText), stripHtmlForDiff(newText));
+  return computeTextDiff(stripHtmlForDiff(oldText), stripHtmlForDiff(newText));
+}
+
+/**
+ * Character-level diff of plain text, without HTML stripping.
+ * Chunk values concatenate back to the exact inputs, so offsets into
+ * `oldText` can be derived from them (used by the AI rewrite review).
+ *
+ * プレーンテキストの文字レベル差分（HTML 除去なし）。
+ * チャンクを連結すると入力と完全に一致するため、元テキスト上の位置を計算できる。
+ */
+export function computeTextDiff(oldText: string, newText: string): DiffChunk[] {
+  const changes: Change[] = diffChars(oldText, newText);
 
   return changes.map((change) => ({
     type: change.added ? "added" : change.removed ? "removed" : "unchanged",
@@ -104,3 +118,292 @@ export function getDiffStats(chunks: DiffChunk[]): {
 
   return { addedChars, removedChars, unchangedChars };
 }
+
+// ---------------------------------------------------------------------------
+// Word (kuromoji token) granularity
+// ---------------------------------------------------------------------------
+
+/** Unit of the inline diff inside a changed paragraph: 文字 or 語 (kuromoji token) */
+export type DiffGranularity = "char" | "word";
+
+/**
+ * Cut text at token boundaries. Text between tokens (which the tokenizer
+ * skipped) becomes a piece of its own, so the pieces always concatenate
+ * back to `text`.
+ *
+ * トークン境界でテキストを分割する。連結すると必ず元のテキストに戻る。
+ */
+export function splitAtTokens(
+  text: string,
+  tokens: readonly { start: number; end: number }[],
+): string[] {
+  const pieces: string[] = [];
+  let cursor = 0;
+  for (const token of tokens) {
+    if (token.start < cursor || token.end <= token.start || token.end > text.length) continue;
+    if (token.start > cursor) pieces.push(text.slice(cursor, token.start));
+    pieces.push(text.slice(token.start, token.end));
+    cursor = token.end;
+  }
+  if (cursor < text.length) pieces.push(text.slice(cursor));
+  return pieces;
+}
+
+/**
+ * Diff of two token sequences; a changed token is replaced as a whole.
+ * トークン列の差分。変更されたトークンは丸ごと置き換わる。
+ */
+export function computeTokenDiff(
+  oldTokens: readonly string[],
+  newTokens: readonly string[],
+): DiffChunk[] {
+  return diffArrays([...oldTokens], [...newTokens]).map((change) => ({
+    type: change.added ? "added" : change.removed ? "removed" : "unchanged",
+    value: change.value.join(""),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Paragraph diff
+// ---------------------------------------------------------------------------
+
+/**
+ * - `modified`: a paragraph edited in place (see `chunks`)
+ * - `moved-from` / `moved-to`: an unchanged paragraph that changed position;
+ *   the two rows share a `moveId`
+ */
+export type ParagraphDiffKind =
+  "unchanged" | "added" | "removed" | "modified" | "moved-from" | "moved-to";
+
+/** One row of a paragraph diff, in reading order */
+export interface ParagraphDiffRow {
+  kind: ParagraphDiffKind;
+  /** The paragraph in the old text (absent for added and moved-to rows) */
+  oldText?: string;
+  /** The paragraph in the new text (absent for removed and moved-from rows) */
+  newText?: string;
+  /** Inline changes of a modified paragraph */
+  chunks?: DiffChunk[];
+  /** Pairs a moved-from row with its moved-to row */
+  moveId?: number;
+}
+
+/** Paragraphs shorter than this are never reported as moved (「……」, 「はい」) */
+const MIN_MOVED_PARAGRAPH_LENGTH = 5;
+
+/**
+ * Share of unchanged characters from which a removed and an added paragraph
+ * at the same place are shown as one edited paragraph rather than a
+ * replacement.
+ */
+const MODIFIED_SIMILARITY = 0.4;
+
+/** Split text into non-blank paragraphs, after HTML stripping. */
+export function splitParagraphs(text: string): string[] {
+  return stripHtmlForDiff(text)
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+interface ParagraphHunk {
+  removed: string[];
+  added: string[];
+}
+
+function similarity(chunks: DiffChunk[], oldText: string, newText: string): number {
+  const total = oldText.length + newText.length;
+  if (total === 0) return 1;
+  return (2 * getDiffStats(chunks).unchangedChars) / total;
+}
+
+/**
+ * Compare two texts paragraph by paragraph.
+ *
+ * Paragraphs removed in one place and added unchanged in another are reported
+ * as moved. Within each run of changes, the remaining removed and added
+ * paragraphs are paired in order; a pair that is similar enough becomes one
+ * `modified` row with a character-level diff.
+ *
+ * 二つのテキストを段落単位で比較する。別の位置へそのまま移った段落は
+ * 移動として、同じ位置で書き換えられた段落は文字単位の差分付きで報告する。
+ */
+export function diffParagraphs(oldText: string, newText: string): ParagraphDiffRow[] {
+  const segments: (string[] | ParagraphHunk)[] = [];
+  let hunk: ParagraphHunk | null = null;
+  for (const change of diffArrays(splitParagraphs(oldText), splitParagraphs(newText))) {
+    if (!change.added && !change.removed) {
+      segments.push(change.value);
+      hunk = null;
+      continue;
+    }
+    if (!hunk) {
+      hunk = { removed: [], added: [] };
+      segments.push(hunk);
+    }
+    (change.added ? hunk.added : hunk.removed).push(...change.value);
+  }
+
+  const hunks = segments.filter((segment): segment is ParagraphHunk => !Array.isArray(segment));
+
+  // Move detection: pair equal removed and added paragraphs across all hunks
+  const removedMoves = hunks.map((h) => h.removed.map((): number | undefined => undefined));
+  const addedMoves = hunks.map((h) => h.added.map((): number | undefined => undefined));
+  const waitingRemoved = new Map<string, [number, number][]>();
+  hunks.forEach((h, hi) =>
+    h.removed.forEach((text, i) => {
+      if (text.trim().length < MIN_MOVED_PARAGRAPH_LENGTH) return;
+      const list = waitingRemoved.get(text) ?? [];
+      list.push([hi, i]);
+      waitingRemoved.set(text, list);
+    }),
+  );
+  let nextMoveId = 0;
+  hunks.forEach((h, hi) =>
+    h.added.forEach((text, i) => {
+      const from = waitingRemoved.get(text)?.shift();
+      if (!from) return;
+      removedMoves[from[0]][from[1]] = nextMoveId;
+      addedMoves[hi][i] = nextMoveId;
+      nextMoveId++;
+    }),
+  );
+
+  const rows: ParagraphDiffRow[] = [];
+  let hunkIndex = 0;
+  for (const segment of segments) {
+    if (Array.isArray(segment)) {
+      for (const text of segment) rows.push({ kind: "unchanged", oldText: text, newText: text });
+      continue;
+    }
+
+    const removedMoveIds = removedMoves[hunkIndex];
+    const addedMoveIds = addedMoves[hunkIndex];
+    hunkIndex++;
+
+    // Pair the k-th remaining removed paragraph with the k-th remaining added one
+    const removedLeft = segment.removed.flatMap((_, i) =>
+      removedMoveIds[i] === undefined ? [i] : [],
+    );
+    const addedLeft = segment.added.flatMap((_, i) => (addedMoveIds[i] === undefined ? [i] : []));
+    const modifiedRows = new Map<number, ParagraphDiffRow>();
+    const pairedAdded = new Set<number>();
+    for (let k = 0; k < Math.min(removedLeft.length, addedLeft.length); k++) {
+      const oldPara = segment.removed[removedLeft[k]];
+      const newPara = segment.added[addedLeft[k]];
+      const chunks = computeTextDiff(oldPara, newPara);
+      if (similarity(chunks, oldPara, newPara) >= MODIFIED_SIMILARITY) {
+        modifiedRows.set(removedLeft[k], {
+          kind: "modified",
+          oldText: oldPara,
+          newText: newPara,
+          chunks,
+        });
+        pairedAdded.add(addedLeft[k]);
+      }
+    }
+
+    // Old-side rows first, then the new-side rows not already shown
+    segment.removed.forEach((text, i) => {
+      const moveId = removedMoveIds[i];
+      if (moveId !== undefined) {
+        rows.push({ kind: "moved-from", oldText: text, moveId });
+      } else {
+        rows.push(modifiedRows.get(i) ?? { kind: "removed", oldText: text });
+      }
+    });
+    segment.added.forEach((text, i) => {
+      if (pairedAdded.has(i)) return;
+      const moveId = addedMoveIds[i];
+      rows.push(
+        moveId !== undefined
+          ? { kind: "moved-to", newText: text, moveId }
+          : { kind: "added", newText: text },
+      );
+    });
+  }
+
+  return rows;
+}
+
+/**
+ * Refine the modified rows of a paragraph diff to word granularity.
+ *
+ * @param tokenize - Cuts a paragraph into tokens that concatenate back to it
+ *   (see splitAtTokens)
+ */
+export async function applyWordGranularity(
+  rows: readonly ParagraphDiffRow[],
+  tokenize: (text: string) => Promise<string[]>,
+): Promise<ParagraphDiffRow[]> {
+  return Promise.all(
+    rows.map(async (row) => {
+      if (row.kind !== "modified" || row.oldText === undefined || row.newText === undefined) {
+        return row;
+      }
+      const [oldTokens, newTokens] = await Promise.all([
+        tokenize(row.oldText),
+        tokenize(row.newText),
+      ]);
+      return { ...row, chunks: computeTokenDiff(oldTokens, newTokens) };
+    }),
+  );
+}
+
+/** Totals of a paragraph diff */
+export interface ParagraphDiffStats {
+  addedChars: number;
+  removedChars: number;
+  /** Paragraphs edited in place */
+  modifiedParagraphs: number;
+  movedParagraphs: number;
+}
+
+/**
+ * Calculate paragraph diff statistics. Moved paragraphs count as neither
+ * added nor removed characters.
+ * 段落差分の統計情報を計算する。移動した段落は追加・削除に数えない。
+ */
+export function getParagraphDiffStats(rows: readonly ParagraphDiffRow[]): ParagraphDiffStats {
+  const stats: ParagraphDiffStats = {
+    addedChars: 0,
+    removedChars: 0,
+    modifiedParagraphs: 0,
+    movedParagraphs: 0,
+  };
+  for (const row of rows) {
+    switch (row.kind) {
+      case "added":
+        stats.addedChars += row.newText?.length ?? 0;
+        break;
+      case "removed":
+        stats.removedChars += row.oldText?.length ?? 0;
+        break;
+      case "modified": {
+        const { addedChars, removedChars } = getDiffStats(row.chunks ?? []);
+        stats.addedChars += addedChars;
+        stats.removedChars += removedChars;
+        stats.modifiedParagraphs++;
+        break;
+      }
+      case "moved-to":
+        stats.movedParagraphs++;
+        break;
+    }
+  }
+  return stats;
+}
+
+/**
+ * Row indices where each change begins; consecutive changed rows form one
+ * change (the stops of "next change" navigation).
+ * 各変更箇所の先頭行のインデックス。連続する変更行は一つの変更として扱う。
+ */
+export function findChangeStarts(rows: readonly ParagraphDiffRow[]): number[] {
+  const starts: number[] = [];
+  rows.forEach((row, i) => {
+    if (row.kind !== "unchanged" && (i === 0 || rows[i - 1].kind === "unchanged")) {
+      starts.push(i);
+    }
+  });
+  return starts;
+}
@@ -0,0 +1,156 @@
+/**
+ * Glossary service.
+ * CRUD operations for .illusions/glossary.json (project mode only — the
+ * glossary describes the world of a whole project, so standalone files have
+ * none).
+ *
+ * 用語集（世界観の用語・読み・分類・説明・許容表記）の管理サービス。
+ * プロジェクトモード: .illusions/glossary.json
+ *
+ * Persistence is delegated to the shared PersistedJsonListStore; domain
+ * semantics (one entry per id, clean variant lists, sorted by reading) live
+ * here.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import type { GlossaryEntry, GlossaryFile } from "../project/project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const GLOSSARY_FILENAME = "glossary.json";
+
+// -----------------------------------------------------------------------
+// Change notification
+// -----------------------------------------------------------------------
+
+/**
+ * Listeners notified after any successful write to the glossary, so the lint
+ * pipeline and the editor (see use-glossary, use-known-terms) re-read it.
+ */
+const changeListeners = new Set<() => void>();
+
+/** Subscribe to glossary writes. Returns an unsubscribe function. */
+export function subscribeGlossaryChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifyGlossaryChange(): void {
+  for (const listener of changeListeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn("[glossary] change listener failed:", err);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------
+// Domain mutations
+// -----------------------------------------------------------------------
+
+/** Sort key of an entry: its reading when known, so 五十音順 holds for kanji terms. */
+function sortKey(entry: GlossaryEntry): string {
+  return entry.reading || entry.term;
+}
+
+/** Trim the fields and drop empty, duplicate and self-referencing variants. */
+function clean(entry: GlossaryEntry): GlossaryEntry {
+  const term = entry.term.trim();
+  const variants = [...new Set(entry.variants.map((v) => v.trim()))].filter(
+    (v) => v.length > 0 && v !== term,
+  );
+  return {
+    ...entry,
+    term,
+    reading: entry.reading?.trim() || undefined,
+    category: entry.category?.trim() || undefined,
+    variants,
+  };
+}
+
+/** Insert or replace the entry with `entry.id`, keeping the list sorted. */
+function upsert(entries: GlossaryEntry[], entry: GlossaryEntry): GlossaryEntry[] {
+  const next = entries.filter((e) => e.id !== entry.id);
+  next.push(clean(entry));
+  next.sort((a, b) => sortKey(a).localeCompare(sortKey(b), "ja"));
+  return next;
+}
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class GlossaryService {
+  private readonly store: PersistedJsonListStore<GlossaryEntry>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<GlossaryEntry>({
+      filename: GLOSSARY_FILENAME,
+      toEnvelope: (entries): GlossaryFile => ({
+        version: "1.0.0",
+        entries,
+      }),
+      fromEnvelope: (envelope): GlossaryEntry[] =>
+        ((envelope as GlossaryFile).entries ?? []).map((e) => ({
+          ...e,
+          variants: e.variants ?? [],
+        })),
+    });
+  }
+
+  /**
+   * Load the glossary from .illusions/glossary.json.
+   * Returns empty array if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadEntries(): Promise<GlossaryEntry[]> {
+    return this.store.loadProject();
+  }
+
+  /**
+   * Save the glossary to .illusions/glossary.json.
+   * Creates .illusions directory if it does not exist.
+   */
+  async saveEntries(entries: GlossaryEntry[]): Promise<void> {
+    await this.store.saveProject(entries);
+    notifyGlossaryChange();
+  }
+
+  /**
+   * Add an entry, or replace the entry with the same id.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async upsertEntry(entry: GlossaryEntry): Promise<GlossaryEntry[]> {
+    const result = await this.store.mutateProject((entries) => upsert(entries, entry));
+    notifyGlossaryChange();
+    return result;
+  }
+
+  /**
+   * Remove an entry by id.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async removeEntry(id: string): Promise<GlossaryEntry[]> {
+    const result = await this.store.mutateProject((entries) => entries.filter((e) => e.id !== id));
+    notifyGlossaryChange();
+    return result;
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: GlossaryService | null = null;
+
+export function getGlossaryService(): GlossaryService {
+  if (!instance) {
+    instance = new GlossaryService();
+  }
+  return instance;
+}
@@ -21,9 +21,18 @@
  * "pre-close"            — taken before a tab/window close (Wave 2)
  * "pre-external-reload"  — taken before adopting external disk change (Wave 2)
  * "restore-point"        — taken before restoring a previous snapshot (Wave 2)
+ * "branch-fork"          — first snapshot of a draft branch (the content it was forked from)
+ * "branch-switch"        — taken before the editor leaves a draft branch
  */
 export type SnapshotType =
-  "auto" | "manual" | "milestone" | "pre-close" | "pre-external-reload" | "restore-point";
+  | "auto"
+  | "manual"
+  | "milestone"
+  | "pre-close"
+  | "pre-external-reload"
+  | "restore-point"
+  | "branch-fork"
+  | "branch-switch";
 
 /**
  * A single entry in the history index.
@@ -54,6 +63,25 @@ export interface SnapshotEntry {
   checksum: string;
   /** True when the index entry exists but the backing .history file is missing. */
   isMissing?: boolean;
+  /** Draft branch the snapshot belongs to; absent for the main line (本線). */
+  branchId?: string;
+}
+
+/**
+ * A named draft branch (alternate version) of one document.
+ * 文書ごとの名前付き下書きブランチ（別案）。
+ */
+export interface DraftBranch {
+  /** Unique identifier for this branch */
+  id: string;
+  /** Document the branch belongs to (same identity as SnapshotEntry.sourcePath) */
+  sourcePath: string;
+  /** User-facing branch name, unique per document */
+  name: string;
+  /** Snapshot the branch was forked from; merge bases are found by walking these */
+  baseSnapshotId: string;
+  /** Unix timestamp in milliseconds when the branch was created */
+  createdAt: number;
 }
 
 /**
@@ -67,6 +95,10 @@ export interface HistoryIndex {
   maxSnapshots: number;
   /** Number of days to retain non-permanent snapshots */
   retentionDays: number;
+  /** Draft branches of all documents (absent in indexes written before branching) */
+  branches?: DraftBranch[];
+  /** Branch the editor is on, by sourcePath; a missing key means the main line */
+  activeBranches?: Record<string, string>;
 }
 
 /**
@@ -86,6 +118,19 @@ export interface CreateSnapshotOptions {
   label?: string;
 }
 
+/**
+ * Result of switching a document to another draft branch.
+ * ブランチ切り替えの結果。
+ */
+export interface SwitchBranchResult {
+  /** Whether the switch succeeded */
+  success: boolean;
+  /** Content of the target branch head (if successful) */
+  content?: string;
+  /** Error message (if unsuccessful) */
+  error?: string;
+}
+
 /**
  * Result of restoring a snapshot.
  * スナップショット復元の結果。
@@ -114,6 +159,12 @@ export const MAX_SNAPSHOTS = 100;
 /** Default retention period in days for non-permanent snapshots */
 export const RETENTION_DAYS = 90;
 
+/** Display name of the main line (the document outside any draft branch) */
+export const MAIN_BRANCH_NAME = "本線";
+
+/** Maximum length of a draft branch name */
+export const MAX_BRANCH_NAME_LENGTH = 40;
+
 /**
  * Snapshot types that bypass the throttle and are never pruned by retention policy.
  * Milestones also bypass throttle and are never pruned.
@@ -125,6 +176,8 @@ const PERMANENT_TYPES = new Set<SnapshotType>([
   "milestone",
   "pre-close",
   "restore-point",
+  "branch-fork",
+  "branch-switch",
 ]);
 
 /**
@@ -212,10 +265,13 @@ export function shouldPrune(entry: SnapshotEntry, now: number, retentionDays: nu
  * 1. Non-permanent entries exceeding maxSnapshots (oldest first)
  * 2. Non-permanent entries older than retentionDays
  *
- * Permanent types (manual, milestone, pre-close, restore-point) are never included.
+ * Permanent types (manual, milestone, pre-close, restore-point, branch-fork,
+ * branch-switch) are never included. Neither are the snapshots draft branches
+ * depend on: the base each branch was forked from (needed for merges) and the
+ * newest snapshot of every line of a document (needed to switch back to it).
  *
  * インデックスから削除すべきエントリ一覧を返す。
- * 永続種別は含まない。auto / pre-external-reload のみ対象。
+ * 永続種別とブランチの分岐元・各ブランチの最新スナップショットは含まない。
  *
  * @param index - Current history index
  * @param now   - Current time in ms (injectable for testing)
@@ -225,8 +281,12 @@ export function getPruneSet(index: HistoryIndex, now: number = Date.now()): Snap
   const { snapshots, maxSnapshots, retentionDays } = index;
   const retentionMs = retentionDays * 24 * 60 * 60 * 1000;
 
+  const protectedIds = getBranchProtectedIds(index);
+
   // Separate pruneable from permanent
-  const prunable: SnapshotEntry[] = snapshots.filter((s) => !PERMANENT_TYPES.has(s.type));
+  const prunable: SnapshotEntry[] = snapshots.filter(
+    (s) => !PERMANENT_TYPES.has(s.type) && !protectedIds.has(s.id),
+  );
 
   // Sort pruneable by timestamp descending (newest first)
   prunable.sort((a, b) => b.timestamp - a.timestamp);
@@ -249,6 +309,137 @@ export function getPruneSet(index: HistoryIndex, now: number = Date.now()): Snap
   return snapshots.filter((s) => toDelete.has(s.id));
 }
 
+// -----------------------------------------------------------------------
+// Draft branches
+// -----------------------------------------------------------------------
+
+/**
+ * Ids of the snapshots draft branches depend on: every branch base, and the
+ * newest snapshot of each line (main line and branches) of documents that
+ * have branches.
+ *
+ * ブランチが依存するスナップショット（分岐元と各ブランチの最新）の ID。
+ */
+function getBranchProtectedIds(index: HistoryIndex): Set<string> {
+  const branches = index.branches ?? [];
+  const protectedIds = new Set<string>();
+  if (branches.length === 0) return protectedIds;
+
+  const branchedSources = new Set<string>();
+  for (const branch of branches) {
+    protectedIds.add(branch.baseSnapshotId);
+    branchedSources.add(branch.sourcePath);
+  }
+
+  const seenLines = new Set<string>();
+  const newestFirst = [...index.snapshots].sort((a, b) => b.timestamp - a.timestamp);
+  for (const entry of newestFirst) {
+    const sourcePath = getSnapshotSourceKey(entry);
+    if (!branchedSources.has(sourcePath)) continue;
+    const lineKey = `${sourcePath}\u0000${entry.branchId ?? ""}`;
+    if (seenLines.has(lineKey)) continue;
+    seenLines.add(lineKey);
+    protectedIds.add(entry.id);
+  }
+  return protectedIds;
+}
+
+/**
+ * Newest snapshot of a document on one line.
+ *
+ * 文書の指定ブランチ上の最新スナップショットを返す。
+ *
+ * @param snapshots  - Snapshot entries (any order)
+ * @param sourcePath - Document to look at
+ * @param branchId   - Branch id, or null for the main line
+ * @returns The newest matching entry, or undefined when the line has none
+ */
+export function getBranchHead(
+  snapshots: readonly SnapshotEntry[],
+  sourcePath: string,
+  branchId: string | null,
+): SnapshotEntry | undefined {
+  let head: SnapshotEntry | undefined;
+  for (const entry of snapshots) {
+    if (getSnapshotSourceKey(entry) !== sourcePath) continue;
+    if ((entry.branchId ?? null) !== branchId) continue;
+    if (!head || entry.timestamp > head.timestamp) head = entry;
+  }
+  return head;
+}
+
+/**
+ * Merge base of two lines of a document: the newest snapshot both descend
+ * from. Each line is walked up through the fork point of its branch and of
+ * the branches it was forked from until the two chains meet on a line; the
+ * older of the two fork points on that line is the base.
+ *
+ * 2つのブランチの共通の祖先（マージベース）を、分岐元をたどって求める。
+ *
+ * @param snapshots - Snapshot entries (any order)
+ * @param branches  - Draft branches of the document
+ * @param lineA     - Branch id, or null for the main line
+ * @param lineB     - Branch id, or null for the main line
+ * @returns The shared fork point, or undefined when the lines are the same or
+ *   their chains never meet (a fork point or ancestor branch was deleted)
+ */
+export function getMergeBase(
+  snapshots: readonly SnapshotEntry[],
+  branches: readonly DraftBranch[],
+  lineA: string | null,
+  lineB: string | null,
+): SnapshotEntry | undefined {
+  const byId = new Map(snapshots.map((s) => [s.id, s]));
+  // Lines a line descends from, itself first, with the snapshot it left each
+  // of them at (undefined for the line itself).
+  const ancestry = (line: string | null): Map<string | null, SnapshotEntry | undefined> => {
+    const chain = new Map<string | null, SnapshotEntry | undefined>();
+    let current = line;
+    let forkPoint: SnapshotEntry | undefined;
+    while (!chain.has(current)) {
+      chain.set(current, forkPoint);
+      if (current === null) break;
+      const branch = branches.find((b) => b.id === current);
+      forkPoint = branch ? byId.get(branch.baseSnapshotId) : undefined;
+      if (!forkPoint) break;
+      current = forkPoint.branchId ?? null;
+    }
+    return chain;
+  };
+
+  const chainB = ancestry(lineB);
+  for (const [line, forkA] of ancestry(lineA)) {
+    if (!chainB.has(line)) continue;
+    const forkB = chainB.get(line);
+    if (!forkA) return forkB;
+    if (!forkB) return forkA;
+    return forkA.timestamp <= forkB.timestamp ? forkA : forkB;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a draft branch name for a document.
+ * Names are trimmed; they must be non-empty, at most MAX_BRANCH_NAME_LENGTH
+ * characters, not the main line's name, and unique among the document's branches.
+ *
+ * ブランチ名を検証する。問題があればエラーメッセージ、なければ null を返す。
+ *
+ * @param name          - Name as typed by the user
+ * @param existingNames - Names of the document's other branches
+ * @returns An error message for the UI, or null when the name is valid
+ */
+export function validateBranchName(name: string, existingNames: readonly string[]): string | null {
+  const trimmed = name.trim();
+  if (trimmed === "") return "ブランチ名を入力してください";
+  if (trimmed.length > MAX_BRANCH_NAME_LENGTH) {
+    return `ブランチ名は${MAX_BRANCH_NAME_LENGTH}文字以内にしてください`;
+  }
+  if (trimmed === MAIN_BRANCH_NAME) return `「${MAIN_BRANCH_NAME}」は使用できません`;
+  if (existingNames.includes(trimmed)) return "同じ名前のブランチがすでにあります";
+  return null;
+}
+
 // -----------------------------------------------------------------------
 // Utility functions (pure, no IO)
 // -----------------------------------------------------------------------
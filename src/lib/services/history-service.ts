@@ -18,6 +18,8 @@ export type {
   HistoryIndex,
   CreateSnapshotOptions,
   RestoreResult,
+  DraftBranch,
+  SwitchBranchResult,
 } from "./history-policy";
 
 import {
@@ -30,6 +32,9 @@ import {
   getSnapshotSourceKey,
   getSnapshotDisplayName,
   makeSnapshotStorageLabel,
+  getBranchHead,
+  getMergeBase,
+  validateBranchName,
 } from "./history-policy";
 
 import type {
@@ -37,6 +42,8 @@ import type {
   SnapshotEntry,
   CreateSnapshotOptions,
   RestoreResult,
+  DraftBranch,
+  SwitchBranchResult,
 } from "./history-policy";
 
 import { HistoryStore } from "./history-store";
@@ -162,6 +169,12 @@ export class HistoryService {
           }
         }
 
+        // Snapshots belong to the branch the editor is on when they are taken
+        const activeBranchId = lockedIndex.activeBranches?.[sourcePath];
+        if (activeBranchId !== undefined) {
+          entry.branchId = activeBranchId;
+        }
+
         let snapshotWritten = false;
 
         // Write the snapshot file
@@ -457,6 +470,232 @@ export class HistoryService {
     }
   }
 
+  // -----------------------------------------------------------------------
+  // Draft branches
+  // -----------------------------------------------------------------------
+
+  /**
+   * Get the draft branches of a document and the one the editor is on.
+   * 文書の下書きブランチ一覧と、現在のブランチを取得する。
+   *
+   * @param sourcePath - Document to look up
+   * @returns Branches oldest first, and the active branch id (null = main line)
+   */
+  async getBranches(
+    sourcePath: string,
+  ): Promise<{ branches: DraftBranch[]; activeBranchId: string | null }> {
+    const index = await this.store.loadIndex();
+    const branches = (index.branches ?? [])
+      .filter((b) => b.sourcePath === sourcePath)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    return { branches, activeBranchId: index.activeBranches?.[sourcePath] ?? null };
+  }
+
+  /**
+   * Fork a new draft branch from a snapshot and put the editor on it.
+   *
+   * Flow:
+   *   a) Validate the name and read the content of the fork point
+   *   b) Save the current content on the branch being left (branch-switch)
+   *   c) Register the branch and make it active
+   *   d) Take the branch's first snapshot (branch-fork) from the fork point content
+   *
+   * スナップショットから下書きブランチを作成し、編集中のブランチを切り替える。
+   *
+   * @returns The new branch and the content the editor should now show
+   * @throws When the name is invalid or the fork point cannot be read
+   */
+  async createBranch(options: {
+    sourcePath: string;
+    displayName: string;
+    name: string;
+    fromSnapshotId: string;
+    currentContent: string;
+  }): Promise<{ branch: DraftBranch; content: string }> {
+    const { sourcePath, displayName, fromSnapshotId, currentContent } = options;
+    const name = options.name.trim();
+
+    const { branches } = await this.getBranches(sourcePath);
+    const nameError = validateBranchName(
+      name,
+      branches.map((b) => b.name),
+    );
+    if (nameError) {
+      throw new Error(nameError);
+    }
+
+    const forkPoint = await this.restoreSnapshot(fromSnapshotId);
+    if (!forkPoint.success || forkPoint.content === undefined) {
+      throw new Error(forkPoint.error ?? `Snapshot not found: ${fromSnapshotId}`);
+    }
+
+    await this.saveWorkingCopy(sourcePath, displayName, currentContent);
+
+    const branch: DraftBranch = {
+      id: crypto.randomUUID(),
+      sourcePath,
+      name,
+      baseSnapshotId: fromSnapshotId,
+      createdAt: Date.now(),
+    };
+    await this.store.withIndexLock(async () => {
+      const index = await this.store.loadIndex();
+      index.branches = [...(index.branches ?? []), branch];
+      index.activeBranches = { ...index.activeBranches, [sourcePath]: branch.id };
+      await this.store.saveIndex(index);
+    });
+
+    await this.createSnapshot({
+      sourcePath,
+      displayName,
+      content: forkPoint.content,
+      type: "branch-fork",
+      label: name,
+    });
+
+    return { branch, content: forkPoint.content };
+  }
+
+  /**
+   * Put the editor on another line of a document.
+   * The current content is saved on the line being left, then the newest
+   * snapshot of the target line is read back.
+   *
+   * 編集中のブランチを切り替える。離れるブランチに現在の内容を保存してから、
+   * 切り替え先の最新スナップショットを読み込む。
+   *
+   * @param options.branchId - Target branch id, or null for the main line
+   */
+  async switchBranch(options: {
+    sourcePath: string;
+    displayName: string;
+    branchId: string | null;
+    currentContent: string;
+  }): Promise<SwitchBranchResult> {
+    const { sourcePath, displayName, branchId, currentContent } = options;
+    try {
+      const index = await this.store.loadIndex();
+      if (branchId !== null && !index.branches?.some((b) => b.id === branchId)) {
+        return { success: false, error: `Branch not found: ${branchId}` };
+      }
+      const head = getBranchHead(index.snapshots, sourcePath, branchId);
+      if (!head) {
+        return { success: false, error: "切り替え先のブランチに履歴がありません" };
+      }
+      const target = await this.restoreSnapshot(head.id);
+      if (!target.success || target.content === undefined) {
+        return { success: false, error: target.error ?? "切り替え先の内容を読み込めませんでした" };
+      }
+
+      await this.saveWorkingCopy(sourcePath, displayName, currentContent);
+
+      await this.store.withIndexLock(async () => {
+        const lockedIndex = await this.store.loadIndex();
+        const activeBranches = { ...lockedIndex.activeBranches };
+        if (branchId === null) {
+          delete activeBranches[sourcePath];
+        } else {
+          activeBranches[sourcePath] = branchId;
+        }
+        lockedIndex.activeBranches = activeBranches;
+        await this.store.saveIndex(lockedIndex);
+      });
+
+      return { success: true, content: target.content };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to switch branch: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Get the newest content of a line of a document.
+   * 文書の指定ブランチの最新内容を取得する。
+   *
+   * @param branchId - Branch id, or null for the main line
+   * @returns The content, or null when the line has no readable snapshot
+   */
+  async getBranchHeadContent(sourcePath: string, branchId: string | null): Promise<string | null> {
+    const index = await this.store.loadIndex();
+    const head = getBranchHead(index.snapshots, sourcePath, branchId);
+    return head ? this.getSnapshotContent(head.id) : null;
+  }
+
+  /**
+   * Get the content of the merge base of two lines of a document.
+   * 2つのブランチの共通の祖先の内容を取得する。
+   *
+   * @param lineA - Branch id, or null for the main line
+   * @param lineB - Branch id, or null for the main line
+   * @returns The content, or null when the lines share no readable snapshot
+   */
+  async getMergeBaseContent(
+    sourcePath: string,
+    lineA: string | null,
+    lineB: string | null,
+  ): Promise<string | null> {
+    const index = await this.store.loadIndex();
+    const branches = (index.branches ?? []).filter((b) => b.sourcePath === sourcePath);
+    const base = getMergeBase(index.snapshots, branches, lineA, lineB);
+    return base ? this.getSnapshotContent(base.id) : null;
+  }
+
+  /**
+   * Delete a draft branch and its snapshots.
+   * Snapshots other branches were forked from are kept so those branches can
+   * still be merged.
+   *
+   * 下書きブランチとそのスナップショットを削除する。
+   * 他のブランチの分岐元になっているスナップショットは残す。
+   *
+   * @throws When the branch does not exist or the editor is on it
+   */
+  async deleteBranch(branchId: string): Promise<void> {
+    await this.store.withIndexLock(async () => {
+      const index = await this.store.loadIndex();
+      const branches = index.branches ?? [];
+      if (!branches.some((b) => b.id === branchId)) {
+        throw new Error(`Branch not found: ${branchId}`);
+      }
+      if (Object.values(index.activeBranches ?? {}).includes(branchId)) {
+        throw new Error("編集中のブランチは削除できません");
+      }
+
+      const remaining = branches.filter((b) => b.id !== branchId);
+      const keptBases = new Set(remaining.map((b) => b.baseSnapshotId));
+      const toDelete = index.snapshots.filter(
+        (s) => s.branchId === branchId && !keptBases.has(s.id),
+      );
+      for (const entry of toDelete) {
+        await this.store.deleteSnapshotFile(entry.sourcePath, entry.filename);
+      }
+      const deleteIds = new Set(toDelete.map((s) => s.id));
+      index.snapshots = index.snapshots.filter((s) => !deleteIds.has(s.id));
+      index.branches = remaining;
+      await this.store.saveIndex(index);
+    });
+  }
+
+  /**
+   * Save the editor content on the active line before leaving it, unless the
+   * line's newest snapshot already holds exactly that content.
+   */
+  private async saveWorkingCopy(
+    sourcePath: string,
+    displayName: string,
+    content: string,
+  ): Promise<void> {
+    const index = await this.store.loadIndex();
+    const activeBranchId = index.activeBranches?.[sourcePath] ?? null;
+    const head = getBranchHead(index.snapshots, sourcePath, activeBranchId);
+    if (head && head.checksum === (await calculateChecksum(content))) {
+      return;
+    }
+    await this.createSnapshot({ sourcePath, displayName, content, type: "branch-switch" });
+  }
+
   // -----------------------------------------------------------------------
   // pruneOldSnapshots (retained for direct callers if any)
   // -----------------------------------------------------------------------
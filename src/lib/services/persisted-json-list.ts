@@ -39,8 +39,11 @@ export type PersistedListMutation<TItem> = (items: TItem[]) => TItem[] | null;
 export interface PersistedJsonListConfig<TItem> {
   /** File name under .illusions/ in project mode (e.g. "user-dictionary.json"). */
   filename: string;
-  /** Storage key prefix in standalone mode (e.g. "illusions-user-dictionary:"). */
-  standaloneKeyPrefix: string;
+  /**
+   * Storage key prefix in standalone mode (e.g. "illusions-user-dictionary:").
+   * Omit for project-only lists; the standalone methods then throw.
+   */
+  standaloneKeyPrefix?: string;
   /**
    * Build the versioned JSON envelope from the item list.
    * Property insertion order is preserved in the serialized output, so the
@@ -164,10 +167,19 @@ export class PersistedJsonListStore<TItem> {
    * Normalizes path separators so keys are consistent across platforms.
    */
   private buildStandaloneKey(filePath: string): string {
+    const prefix = this.requireStandaloneKeyPrefix();
     // Normalize backslashes to forward slashes and strip leading slash
     // so keys are deterministic regardless of platform separator.
     const normalized = filePath.replace(/\\/g, "/").replace(/^\//, "");
-    return this.config.standaloneKeyPrefix + normalized;
+    return prefix + normalized;
+  }
+
+  private requireStandaloneKeyPrefix(): string {
+    const prefix = this.config.standaloneKeyPrefix;
+    if (prefix === undefined) {
+      throw new Error(`${this.config.filename} is stored in project mode only`);
+    }
+    return prefix;
   }
 
   /**
@@ -203,7 +215,7 @@ export class PersistedJsonListStore<TItem> {
    * (i.e. across ALL files). Used for a global reset.
    */
   async clearAllStandalone(): Promise<void> {
-    const keys = await this.storage.getKeysByPrefix(this.config.standaloneKeyPrefix);
+    const keys = await this.storage.getKeysByPrefix(this.requireStandaloneKeyPrefix());
     await Promise.all(keys.map((key) => this.storage.removeItem(key)));
   }
 
@@ -0,0 +1,142 @@
+/**
+ * Preferred-spelling service.
+ * CRUD operations for .illusions/preferred-spellings.json (project mode only —
+ * the table describes a whole manuscript, so standalone files have none).
+ *
+ * 表記ゆれルールが参照する優先表記テーブルの管理サービス。
+ * プロジェクトモード: .illusions/preferred-spellings.json
+ *
+ * Persistence is delegated to the shared PersistedJsonListStore; domain
+ * semantics (one entry per preferred spelling, sorted) live here.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import type { PreferredSpelling, PreferredSpellingsFile } from "../project/project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const PREFERRED_SPELLINGS_FILENAME = "preferred-spellings.json";
+
+// -----------------------------------------------------------------------
+// Change notification
+// -----------------------------------------------------------------------
+
+/**
+ * Listeners notified after any successful write to the table, so the lint
+ * pipeline (see use-preferred-spellings) re-reads it and re-lints.
+ */
+const changeListeners = new Set<() => void>();
+
+/** Subscribe to preferred-spelling writes. Returns an unsubscribe function. */
+export function subscribePreferredSpellingsChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifyPreferredSpellingsChange(): void {
+  for (const listener of changeListeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn("[preferred-spellings] change listener failed:", err);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------
+// Domain mutations
+// -----------------------------------------------------------------------
+
+/**
+ * Insert or replace the entry for `entry.preferred`, keeping the list sorted.
+ * A spelling can only be the variant of one preferred form, so it is removed
+ * from every other entry (entries left without variants are dropped).
+ */
+function upsert(entries: PreferredSpelling[], entry: PreferredSpelling): PreferredSpelling[] {
+  const variants = [...new Set(entry.variants)].filter((v) => v !== entry.preferred);
+  const claimed = new Set([entry.preferred, ...variants]);
+  const next = entries
+    .filter((e) => e.preferred !== entry.preferred && !claimed.has(e.preferred))
+    .map((e) => ({ ...e, variants: e.variants.filter((v) => !claimed.has(v)) }))
+    .filter((e) => e.variants.length > 0);
+  next.push({ preferred: entry.preferred, variants });
+  next.sort((a, b) => a.preferred.localeCompare(b.preferred, "ja"));
+  return next;
+}
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class PreferredSpellingService {
+  private readonly store: PersistedJsonListStore<PreferredSpelling>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<PreferredSpelling>({
+      filename: PREFERRED_SPELLINGS_FILENAME,
+      toEnvelope: (entries): PreferredSpellingsFile => ({
+        version: "1.0.0",
+        entries,
+      }),
+      fromEnvelope: (envelope): PreferredSpelling[] =>
+        (envelope as PreferredSpellingsFile).entries ?? [],
+    });
+  }
+
+  /**
+   * Load the table from .illusions/preferred-spellings.json.
+   * Returns empty array if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadEntries(): Promise<PreferredSpelling[]> {
+    return this.store.loadProject();
+  }
+
+  /**
+   * Save the table to .illusions/preferred-spellings.json.
+   * Creates .illusions directory if it does not exist.
+   */
+  async saveEntries(entries: PreferredSpelling[]): Promise<void> {
+    await this.store.saveProject(entries);
+    notifyPreferredSpellingsChange();
+  }
+
+  /**
+   * Set the variants unified on `entry.preferred`, replacing any previous entry.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async setPreferred(entry: PreferredSpelling): Promise<PreferredSpelling[]> {
+    const result = await this.store.mutateProject((entries) => upsert(entries, entry));
+    notifyPreferredSpellingsChange();
+    return result;
+  }
+
+  /**
+   * Remove the entry for a preferred spelling.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async removePreferred(preferred: string): Promise<PreferredSpelling[]> {
+    const result = await this.store.mutateProject((entries) =>
+      entries.filter((e) => e.preferred !== preferred),
+    );
+    notifyPreferredSpellingsChange();
+    return result;
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: PreferredSpellingService | null = null;
+
+export function getPreferredSpellingService(): PreferredSpellingService {
+  if (!instance) {
+    instance = new PreferredSpellingService();
+  }
+  return instance;
+}
@@ -0,0 +1,164 @@
+/**
+ * Scene service.
+ * CRUD operations for .illusions/scenes.json (project mode only — scenes are
+ * laid out across the files of a project, so standalone files have none).
+ *
+ * シーンボード（シーン・視点人物・作中日時・場所・進捗・リンク先見出し）の管理サービス。
+ * プロジェクトモード: .illusions/scenes.json
+ *
+ * Persistence is delegated to the shared PersistedJsonListStore; domain
+ * semantics (one scene per id, array order is the scene order, clean fields)
+ * live here.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import type { Scene, ScenesFile } from "../project/project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const SCENES_FILENAME = "scenes.json";
+
+// -----------------------------------------------------------------------
+// Change notification
+// -----------------------------------------------------------------------
+
+/** Listeners notified after any successful write to the scene list. */
+const changeListeners = new Set<() => void>();
+
+/** Subscribe to scene writes. Returns an unsubscribe function. */
+export function subscribeSceneChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifySceneChange(): void {
+  for (const listener of changeListeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn("[scenes] change listener failed:", err);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------
+// Domain mutations
+// -----------------------------------------------------------------------
+
+/** Trim the text fields, drop empty optional ones and duplicate tags. */
+function clean(scene: Scene): Scene {
+  return {
+    ...scene,
+    title: scene.title.trim(),
+    povCharacterId: scene.povCharacterId || undefined,
+    storyTime: scene.storyTime?.trim() || undefined,
+    location: scene.location?.trim() || undefined,
+    filePath: scene.filePath || undefined,
+    headingAnchor: scene.headingAnchor || undefined,
+    tags: [...new Set(scene.tags.map((t) => t.trim()))].filter((t) => t.length > 0),
+    summary: scene.summary?.trim() || undefined,
+  };
+}
+
+/** Replace the scene with `scene.id` in place, or append it as the last scene. */
+function upsert(scenes: Scene[], scene: Scene): Scene[] {
+  const cleaned = clean(scene);
+  const index = scenes.findIndex((s) => s.id === scene.id);
+  if (index === -1) return [...scenes, cleaned];
+  const next = [...scenes];
+  next[index] = cleaned;
+  return next;
+}
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class SceneService {
+  private readonly store: PersistedJsonListStore<Scene>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<Scene>({
+      filename: SCENES_FILENAME,
+      toEnvelope: (scenes): ScenesFile => ({
+        version: "1.0.0",
+        scenes,
+      }),
+      fromEnvelope: (envelope): Scene[] =>
+        ((envelope as ScenesFile).scenes ?? []).map((s) => ({
+          ...s,
+          status: s.status ?? "idea",
+          tags: s.tags ?? [],
+        })),
+    });
+  }
+
+  /**
+   * Load the scenes, in board order, from .illusions/scenes.json.
+   * Returns empty array if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadScenes(): Promise<Scene[]> {
+    return this.store.loadProject();
+  }
+
+  /**
+   * Save the whole scene list (used after reordering).
+   * Creates .illusions directory if it does not exist.
+   */
+  async saveScenes(scenes: Scene[]): Promise<void> {
+    await this.store.saveProject(scenes.map(clean));
+    notifySceneChange();
+  }
+
+  /**
+   * Add scenes after the last one, skipping ids that already exist.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async appendScenes(added: Scene[]): Promise<Scene[]> {
+    const result = await this.store.mutateProject((scenes) => {
+      const ids = new Set(scenes.map((s) => s.id));
+      const fresh = added.filter((s) => !ids.has(s.id));
+      return fresh.length > 0 ? [...scenes, ...fresh.map(clean)] : null;
+    });
+    notifySceneChange();
+    return result;
+  }
+
+  /**
+   * Add a scene at the end, or replace the scene with the same id in place.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async upsertScene(scene: Scene): Promise<Scene[]> {
+    const result = await this.store.mutateProject((scenes) => upsert(scenes, scene));
+    notifySceneChange();
+    return result;
+  }
+
+  /**
+   * Remove a scene by id.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async removeScene(id: string): Promise<Scene[]> {
+    const result = await this.store.mutateProject((scenes) => scenes.filter((s) => s.id !== id));
+    notifySceneChange();
+    return result;
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: SceneService | null = null;
+
+export function getSceneService(): SceneService {
+  if (!instance) {
+    instance = new SceneService();
+  }
+  return instance;
+}
@@ -0,0 +1,99 @@
+/**
+ * Statistics cache service.
+ * Caches the text metrics of history snapshots in .illusions/stats-cache.json
+ * so the statistics dashboard does not re-read and re-analyse every snapshot
+ * each time it opens (project mode only).
+ *
+ * 統計ダッシュボード用のスナップショット指標キャッシュ。
+ * プロジェクトモード: .illusions/stats-cache.json
+ *
+ * Snapshots never change, so entries are keyed by snapshot id and only
+ * dropped when their snapshot is pruned from history. Bumping
+ * STATS_METRICS_VERSION discards the cache when the metrics change meaning.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import type { SnapshotMetrics, StatsCacheFile } from "../project/project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const STATS_CACHE_FILENAME = "stats-cache.json";
+
+/** Version of the metric definitions; entries of another version are ignored. */
+export const STATS_METRICS_VERSION = 1;
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class StatsCacheService {
+  private readonly store: PersistedJsonListStore<SnapshotMetrics>;
+
+  constructor() {
+    this.store = new PersistedJsonListStore<SnapshotMetrics>({
+      filename: STATS_CACHE_FILENAME,
+      toEnvelope: (entries): StatsCacheFile => ({
+        version: "1.0.0",
+        metricsVersion: STATS_METRICS_VERSION,
+        entries,
+      }),
+      fromEnvelope: (envelope): SnapshotMetrics[] => {
+        const file = envelope as StatsCacheFile;
+        return file.metricsVersion === STATS_METRICS_VERSION ? (file.entries ?? []) : [];
+      },
+    });
+  }
+
+  /**
+   * Load the cached metrics, keyed by snapshot id.
+   * A missing or unreadable cache is treated as empty: it is rebuilt from history.
+   */
+  async load(): Promise<Map<string, SnapshotMetrics>> {
+    try {
+      const entries = await this.store.loadProject();
+      return new Map(entries.map((entry) => [entry.snapshotId, entry]));
+    } catch (err) {
+      console.warn("[stats-cache] Failed to load, rebuilding:", err);
+      return new Map();
+    }
+  }
+
+  /**
+   * Add newly computed metrics and drop entries whose snapshot no longer
+   * exists. Skips the write when nothing changed; an unreadable cache is
+   * overwritten.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async update(
+    added: readonly SnapshotMetrics[],
+    liveSnapshotIds: ReadonlySet<string>,
+  ): Promise<void> {
+    try {
+      await this.store.mutateProject((entries) => {
+        const kept = entries.filter((entry) => liveSnapshotIds.has(entry.snapshotId));
+        const known = new Set(kept.map((entry) => entry.snapshotId));
+        const fresh = added.filter((entry) => !known.has(entry.snapshotId));
+        if (fresh.length === 0 && kept.length === entries.length) return null;
+        return [...kept, ...fresh];
+      });
+    } catch (err) {
+      console.warn("[stats-cache] Failed to update, overwriting:", err);
+      await this.store.saveProject(added.filter((entry) => liveSnapshotIds.has(entry.snapshotId)));
+    }
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: StatsCacheService | null = null;
+
+export function getStatsCacheService(): StatsCacheService {
+  if (!instance) {
+    instance = new StatsCacheService();
+  }
+  return instance;
+}
@@ -0,0 +1,196 @@
+/**
+ * Three-way merge of document versions, paragraph by paragraph.
+ *
+ * Both sides are diffed against their common ancestor (the snapshot a draft
+ * branch was forked from). Changes that touch different paragraphs merge
+ * cleanly; changes that overlap become conflicts for the user to resolve.
+ * Pure functions — no IO.
+ *
+ * 共通の祖先を基準にした段落単位の3方向マージ。
+ */
+
+import { diffArrays } from "diff";
+
+/**
+ * How a stretch of paragraphs differs between the two sides.
+ * "unchanged" — neither side changed it
+ * "ours"      — only the current version changed it
+ * "theirs"    — only the incoming version changed it
+ * "same"      — both sides made the identical change
+ * "conflict"  — both sides changed it differently
+ */
+export type MergeHunkKind = "unchanged" | "ours" | "theirs" | "same" | "conflict";
+
+/** A stretch of paragraphs as it reads in the ancestor and on each side. */
+export interface MergeHunk {
+  kind: MergeHunkKind;
+  base: string[];
+  ours: string[];
+  theirs: string[];
+}
+
+/**
+ * Which version of a hunk goes into the result.
+ * "both" keeps the current paragraphs followed by the incoming ones.
+ */
+export type MergeChoice = "ours" | "theirs" | "both";
+
+/** One side's replacement of base paragraphs [start, end). */
+interface Edit {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/** Split content into the paragraphs (lines) the merge works on. */
+export function splitMergeLines(content: string): string[] {
+  return content.split("\n");
+}
+
+function computeEdits(base: readonly string[], side: readonly string[]): Edit[] {
+  const edits: Edit[] = [];
+  let basePos = 0;
+  let current: Edit | null = null;
+
+  for (const part of diffArrays(base as string[], side as string[])) {
+    if (!part.added && !part.removed) {
+      if (current) edits.push(current);
+      current = null;
+      basePos += part.value.length;
+      continue;
+    }
+    current ??= { start: basePos, end: basePos, lines: [] };
+    if (part.removed) {
+      basePos += part.value.length;
+      current.end = basePos;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+  if (current) edits.push(current);
+  return edits;
+}
+
+/** Base paragraphs [start, end) with the given edits (all inside the range) applied. */
+function applyEdits(base: readonly string[], start: number, end: number, edits: Edit[]): string[] {
+  const result: string[] = [];
+  let pos = start;
+  for (const edit of edits) {
+    result.push(...base.slice(pos, edit.start), ...edit.lines);
+    pos = edit.end;
+  }
+  result.push(...base.slice(pos, end));
+  return result;
+}
+
+function sameLines(a: readonly string[], b: readonly string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Merge two versions against their common ancestor.
+ * Joining every hunk's chosen side with "\n" reproduces the merged document.
+ *
+ * @param base   - Common ancestor content
+ * @param ours   - Current version (the branch being merged into)
+ * @param theirs - Incoming version (the branch being merged from)
+ * @returns Hunks in document order
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeHunk[] {
+  const baseLines = splitMergeLines(base);
+  const tagged = [
+    ...computeEdits(baseLines, splitMergeLines(ours)).map((edit) => ({ edit, side: "ours" })),
+    ...computeEdits(baseLines, splitMergeLines(theirs)).map((edit) => ({ edit, side: "theirs" })),
+  ].sort((a, b) => a.edit.start - b.edit.start || a.edit.end - b.edit.end);
+
+  const hunks: MergeHunk[] = [];
+  let pos = 0;
+
+  const pushUnchanged = (end: number) => {
+    if (end <= pos) return;
+    const lines = baseLines.slice(pos, end);
+    hunks.push({ kind: "unchanged", base: lines, ours: lines, theirs: lines });
+  };
+
+  let i = 0;
+  while (i < tagged.length) {
+    const first = tagged[i];
+    if (!first) break;
+    let start = first.edit.start;
+    let end = first.edit.end;
+    const oursEdits: Edit[] = [];
+    const theirsEdits: Edit[] = [];
+
+    // Gather every edit that overlaps the cluster. Edits meeting at the same
+    // point count as overlapping: the order of two insertions there is ambiguous.
+    for (; i < tagged.length; i++) {
+      const next = tagged[i];
+      if (!next) break;
+      const { edit } = next;
+      const overlaps =
+        edit.start < end || edit.start === start || (edit.start === edit.end && edit.start === end);
+      if (oursEdits.length + theirsEdits.length > 0 && !overlaps) break;
+      start = Math.min(start, edit.start);
+      end = Math.max(end, edit.end);
+      (next.side === "ours" ? oursEdits : theirsEdits).push(edit);
+    }
+
+    pushUnchanged(start);
+    const baseSlice = baseLines.slice(start, end);
+    const oursSlice = applyEdits(baseLines, start, end, oursEdits);
+    const theirsSlice = applyEdits(baseLines, start, end, theirsEdits);
+
+    let kind: MergeHunkKind;
+    if (theirsEdits.length === 0) {
+      kind = "ours";
+    } else if (oursEdits.length === 0) {
+      kind = "theirs";
+    } else {
+      kind = sameLines(oursSlice, theirsSlice) ? "same" : "conflict";
+    }
+    hunks.push({ kind, base: baseSlice, ours: oursSlice, theirs: theirsSlice });
+    pos = end;
+  }
+  pushUnchanged(baseLines.length);
+
+  return hunks;
+}
+
+/**
+ * The choice a hunk starts with: take each side's own change, and keep the
+ * current version where both sides changed the same paragraphs.
+ */
+export function defaultMergeChoice(hunk: MergeHunk): MergeChoice {
+  return hunk.kind === "theirs" ? "theirs" : "ours";
+}
+
+/**
+ * Whether the user has a meaningful choice to make for a hunk.
+ * 選択が必要な（両側で内容が異なる）ハンクか。
+ */
+export function isMergeChoiceHunk(hunk: MergeHunk): boolean {
+  return hunk.kind === "ours" || hunk.kind === "theirs" || hunk.kind === "conflict";
+}
+
+/**
+ * Build the merged document from hunks and per-hunk choices.
+ *
+ * @param choices - Choice per hunk index; hunks without one use defaultMergeChoice
+ */
+export function resolveMerge(
+  hunks: readonly MergeHunk[],
+  choices: ReadonlyMap<number, MergeChoice>,
+): string {
+  const lines: string[] = [];
+  hunks.forEach((hunk, index) => {
+    const choice = choices.get(index) ?? defaultMergeChoice(hunk);
+    if (choice === "ours" || hunk.kind === "unchanged" || hunk.kind === "same") {
+      lines.push(...hunk.ours);
+    } else if (choice === "theirs") {
+      lines.push(...hunk.theirs);
+    } else {
+      lines.push(...hunk.ours, ...hunk.theirs);
+    }
+  });
+  return lines.join("\n");
+}
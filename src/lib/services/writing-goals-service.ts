@@ -0,0 +1,172 @@
+/**
+ * Writing goals service.
+ * Persists the project's writing targets to .illusions/goals.json and the
+ * writing session log to .illusions/sessions.json (project mode only — the
+ * progress they are measured against comes from the project's history
+ * snapshots).
+ *
+ * 執筆目標と執筆セッションログの管理サービス。
+ * プロジェクトモード: .illusions/goals.json, .illusions/sessions.json
+ *
+ * Persistence is delegated to the shared PersistedJsonListStore; domain
+ * semantics (one goal per scope, sessions replaced by id and pruned to a
+ * bounded log) live here.
+ */
+
+import { PersistedJsonListStore } from "./persisted-json-list";
+import type {
+  WritingGoal,
+  WritingGoalsFile,
+  WritingSession,
+  WritingSessionsFile,
+} from "../project/project-types";
+
+// -----------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------
+
+const GOALS_FILENAME = "goals.json";
+const SESSIONS_FILENAME = "sessions.json";
+
+/** Sessions older than this are dropped from the log. */
+const SESSION_RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+/** Upper bound of the log, newest kept. */
+const MAX_SESSIONS = 5000;
+
+// -----------------------------------------------------------------------
+// Change notification
+// -----------------------------------------------------------------------
+
+/** Listeners notified after any successful write to the goals (not the session log). */
+const changeListeners = new Set<() => void>();
+
+/** Subscribe to goal writes. Returns an unsubscribe function. */
+export function subscribeWritingGoalsChange(listener: () => void): () => void {
+  changeListeners.add(listener);
+  return () => {
+    changeListeners.delete(listener);
+  };
+}
+
+function notifyWritingGoalsChange(): void {
+  for (const listener of changeListeners) {
+    try {
+      listener();
+    } catch (err) {
+      console.warn("[writing-goals] change listener failed:", err);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------
+// Domain mutations
+// -----------------------------------------------------------------------
+
+/** Replace the goal of `goal.scope`; a daily goal never has a deadline. */
+function setGoalInList(goals: WritingGoal[], goal: WritingGoal): WritingGoal[] {
+  const cleaned: WritingGoal = {
+    scope: goal.scope,
+    unit: goal.unit,
+    target: Math.max(1, Math.round(goal.target)),
+    ...(goal.scope === "project" && goal.deadline ? { deadline: goal.deadline } : {}),
+  };
+  return [...goals.filter((g) => g.scope !== goal.scope), cleaned];
+}
+
+/** Replace the session with `session.id` or add it; keep the log bounded and in time order. */
+function recordInLog(sessions: WritingSession[], session: WritingSession): WritingSession[] {
+  const cutoff = session.end - SESSION_RETENTION_MS;
+  const next = sessions.filter((s) => s.id !== session.id && s.end >= cutoff);
+  next.push(session);
+  next.sort((a, b) => a.start - b.start);
+  return next.slice(-MAX_SESSIONS);
+}
+
+// -----------------------------------------------------------------------
+// Service
+// -----------------------------------------------------------------------
+
+class WritingGoalsService {
+  private readonly goalsStore: PersistedJsonListStore<WritingGoal>;
+  private readonly sessionsStore: PersistedJsonListStore<WritingSession>;
+
+  constructor() {
+    this.goalsStore = new PersistedJsonListStore<WritingGoal>({
+      filename: GOALS_FILENAME,
+      toEnvelope: (goals): WritingGoalsFile => ({
+        version: "1.0.0",
+        goals,
+      }),
+      fromEnvelope: (envelope): WritingGoal[] => (envelope as WritingGoalsFile).goals ?? [],
+    });
+    this.sessionsStore = new PersistedJsonListStore<WritingSession>({
+      filename: SESSIONS_FILENAME,
+      toEnvelope: (sessions): WritingSessionsFile => ({
+        version: "1.0.0",
+        sessions,
+      }),
+      fromEnvelope: (envelope): WritingSession[] =>
+        (envelope as WritingSessionsFile).sessions ?? [],
+    });
+  }
+
+  /**
+   * Load the goals from .illusions/goals.json.
+   * Returns empty array if the file does not exist.
+   * Re-throws on JSON corruption or permission errors to prevent data loss.
+   */
+  async loadGoals(): Promise<WritingGoal[]> {
+    return this.goalsStore.loadProject();
+  }
+
+  /**
+   * Set the goal of a scope, replacing the previous one.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async setGoal(goal: WritingGoal): Promise<WritingGoal[]> {
+    const result = await this.goalsStore.mutateProject((goals) => setGoalInList(goals, goal));
+    notifyWritingGoalsChange();
+    return result;
+  }
+
+  /**
+   * Remove the goal of a scope.
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async removeGoal(scope: WritingGoal["scope"]): Promise<WritingGoal[]> {
+    const result = await this.goalsStore.mutateProject((goals) =>
+      goals.filter((g) => g.scope !== scope),
+    );
+    notifyWritingGoalsChange();
+    return result;
+  }
+
+  /**
+   * Load the session log from .illusions/sessions.json, oldest first.
+   * Returns empty array if the file does not exist.
+   */
+  async loadSessions(): Promise<WritingSession[]> {
+    return this.sessionsStore.loadProject();
+  }
+
+  /**
+   * Add a session to the log, or update it while it is still running (same id).
+   * Guarded by the store mutex to prevent concurrent read-modify-write races.
+   */
+  async recordSession(session: WritingSession): Promise<WritingSession[]> {
+    return this.sessionsStore.mutateProject((sessions) => recordInLog(sessions, session));
+  }
+}
+
+// -----------------------------------------------------------------------
+// Singleton
+// -----------------------------------------------------------------------
+
+let instance: WritingGoalsService | null = null;
+
+export function getWritingGoalsService(): WritingGoalsService {
+  if (!instance) {
+    instance = new WritingGoalsService();
+  }
+  return instance;
+}
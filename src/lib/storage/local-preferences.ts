@@ -15,6 +15,7 @@ const KEYS = {
   sidebarTopOrder: `${PREFIX}sidebar-top-order`,
   sidebarBottomOrder: `${PREFIX}sidebar-bottom-order`,
   searchHistory: `${PREFIX}search-history`,
+  recentCommands: `${PREFIX}recent-commands`,
   genjiAnalysisExpanded: `${PREFIX}genji-analysis-expanded`,
 } as const;
 
@@ -146,6 +147,23 @@ export const localPreferences = {
     set(KEYS.searchHistory, JSON.stringify(entries));
   },
 
+  // --- Command palette: recently used item ids (most recent first) ---
+  getRecentCommands(): string[] {
+    const raw = get(KEYS.recentCommands);
+    if (!raw) return [];
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      return Array.isArray(parsed)
+        ? parsed.filter((value): value is string => typeof value === "string")
+        : [];
+    } catch {
+      return [];
+    }
+  },
+  setRecentCommands(ids: readonly string[]): void {
+    set(KEYS.recentCommands, JSON.stringify(ids));
+  },
+
   // --- 語彙統計「辞書データからの分析」セクションの開閉（既定: 展開）---
   getGenjiAnalysisExpanded(): boolean {
     // 未保存 (null) のときは既定で展開。明示的に "0" のときだけ折り畳み。
@@ -5,6 +5,7 @@
 
 import type { CorrectionModeId, GuidelineId } from "@/lib/linting/correction-config";
 import type { Severity } from "@/lib/linting/types";
+import type { AiFeature, AiProviderId } from "@/lib/ai/types";
 import type { TabPersistenceState } from "../tab-manager/tab-types";
 import type { DockviewLayoutState } from "../dockview/types";
 
@@ -39,6 +40,15 @@ export interface ProjectMetadata {
   };
 }
 
+/**
+ * 保存形式のキーバインド（keymap-types の KeyBinding と同じ形）
+ */
+interface StoredKeyBinding {
+  modifiers: string[];
+  key: string;
+  chord?: Array<{ modifiers: string[]; key: string }>;
+}
+
 /**
  * セッションをまたいで保持したいアプリ状態。
  */
@@ -94,16 +104,31 @@ export interface AppState {
    */
   lintingModeConfigVersion?: number;
 
-  // オンラインAI API設定
+  // オンラインAI API設定（aiApiKey / aiBaseUrl / aiModelId は OpenAI 互換プロバイダー）
   aiApiKey?: string;
   aiBaseUrl?: string;
   aiModelId?: string;
+  /** Provider for features without an override */
+  aiProvider?: AiProviderId;
+  /** Per-feature provider overrides */
+  aiFeatureProviders?: Partial<Record<AiFeature, AiProviderId>>;
+  aiAnthropicApiKey?: string;
+  aiAnthropicModelId?: string;
+  aiOllamaBaseUrl?: string;
+  aiOllamaModelId?: string;
+  /** L3: let the AI client validate lint issues (opt-in) */
+  aiLintValidation?: boolean;
+  /** L3: what to do with issues the model judges false positives */
+  aiLintValidationAction?: "demote" | "hide";
 
   // Character extraction settings
   characterExtractionBatchSize?: number;
   characterExtractionConcurrency?: number;
 
-  // Persisted character data (legacy: shared across all projects)
+  /**
+   * @deprecated Legacy character data shared across all projects. Migrated to
+   * .illusions/characters.json (or the standalone store) by character-service.
+   */
   characters?: Array<{
     id: string;
     name: string;
@@ -114,9 +139,11 @@ export interface AppState {
     relationships: string;
   }>;
 
-  // Per-project character data keyed by project ID.
-  // Falls back to `characters` for migration.
-  // "__standalone__" is used when no project is open.
+  /**
+   * @deprecated Per-project character data keyed by project ID ("__standalone__"
+   * when no project was open). Each bucket is moved to the project's
+   * .illusions/characters.json on first load and then removed.
+   */
   charactersByProject?: Record<
     string,
     Array<{
@@ -191,8 +218,17 @@ export interface AppState {
   // Dockview レイアウトの永続化
   dockviewLayout?: DockviewLayoutState;
 
-  // キーマップオーバーライド
-  keymapOverrides?: Record<string, { modifiers: string[]; key: string } | null>;
+  // キーマップオーバーライド（chord は 2 打鍵目以降のキー）
+  keymapOverrides?: Record<string, StoredKeyBinding | null>;
+  /** 読み込んだキーマッププロファイル（組み込みプロファイルは含まない） */
+  keymapProfiles?: Array<{
+    id: string;
+    name: string;
+    description?: string;
+    overrides: Record<string, StoredKeyBinding | null>;
+  }>;
+  /** 最後に適用したキーマッププロファイルの ID */
+  activeKeymapProfileId?: string;
 
   // 辞典設定
   /** 起動時に辞典データの更新を確認する（デフォルト: true） */
@@ -259,6 +259,7 @@ export function useTabManager(options?: {
     activeTabId: tabState.activeTabId,
     newTab: tabState.newTab,
     cloneTab: tabState.cloneTab,
+    openDraftTab: tabState.openDraftTab,
     closeTab: tabState.closeTab,
     switchTab: tabState.switchTab,
     nextTab: tabState.nextTab,
@@ -269,6 +270,11 @@ export function useTabManager(options?: {
     newTerminalTab: tabState.newTerminalTab,
     updateTerminalTab: tabState.updateTerminalTab,
     openDiffTab: tabState.openDiffTab,
+    openCompareTab: tabState.openCompareTab,
+    openRelationshipGraphTab: tabState.openRelationshipGraphTab,
+    openSceneBoardTab: tabState.openSceneBoardTab,
+    openStatsDashboardTab: tabState.openStatsDashboardTab,
+    openManuscriptPaperTab: tabState.openManuscriptPaperTab,
     forceCloseTab: tabState.forceCloseTab,
     updateTab: tabState.updateTab,
     setTabContent: tabState.setTabContent,
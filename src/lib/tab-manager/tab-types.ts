@@ -5,7 +5,8 @@ import type { SupportedFileExtension } from "../project/project-types";
 export type TabId = string;
 
 /** Discriminant literal for each tab variant */
-export type TabKind = "editor" | "terminal" | "diff";
+export type TabKind =
+  "editor" | "terminal" | "diff" | "compare" | "graph" | "scenes" | "dashboard" | "manuscript";
 
 // ---------------------------------------------------------------------------
 // Editor tab
@@ -77,6 +78,69 @@ export interface DiffTabState {
   localContent: string;
   remoteContent: string;
   remoteTimestamp: number;
+  /**
+   * Set when remoteContent is the file at a git revision ("HEAD と比較")
+   * rather than a newer version on disk; holds the revision label shown.
+   */
+  gitRevision?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Compare tab
+// ---------------------------------------------------------------------------
+
+/** Read-only diff between two versions of a document, e.g. two history snapshots */
+export interface CompareTabState {
+  tabKind: "compare";
+  id: TabId;
+  /** Identifies the compared pair; opening the same pair again switches to this tab */
+  compareKey: string;
+  sourceFileName: string;
+  oldLabel: string;
+  newLabel: string;
+  oldContent: string;
+  newContent: string;
+}
+
+// ---------------------------------------------------------------------------
+// Relationship graph tab
+// ---------------------------------------------------------------------------
+
+/** The 人物関係図 of the open project or file (at most one such tab) */
+export interface RelationshipGraphTabState {
+  tabKind: "graph";
+  id: TabId;
+}
+
+// ---------------------------------------------------------------------------
+// Scene board tab
+// ---------------------------------------------------------------------------
+
+/** The シーンボード of the open project (at most one such tab) */
+export interface SceneBoardTabState {
+  tabKind: "scenes";
+  id: TabId;
+}
+
+// ---------------------------------------------------------------------------
+// Statistics dashboard tab
+// ---------------------------------------------------------------------------
+
+/** The 統計ダッシュボード of the open project (at most one such tab) */
+export interface StatsDashboardTabState {
+  tabKind: "dashboard";
+  id: TabId;
+}
+
+// ---------------------------------------------------------------------------
+// Manuscript paper tab
+// ---------------------------------------------------------------------------
+
+/** Read-only 原稿用紙 view of an editor tab (at most one per source tab) */
+export interface ManuscriptPaperTabState {
+  tabKind: "manuscript";
+  id: TabId;
+  sourceTabId: TabId;
 }
 
 // ---------------------------------------------------------------------------
@@ -84,7 +148,15 @@ export interface DiffTabState {
 // ---------------------------------------------------------------------------
 
 /** Discriminated union of all tab variants */
-export type TabState = EditorTabState | TerminalTabState | DiffTabState;
+export type TabState =
+  | EditorTabState
+  | TerminalTabState
+  | DiffTabState
+  | CompareTabState
+  | RelationshipGraphTabState
+  | SceneBoardTabState
+  | StatsDashboardTabState
+  | ManuscriptPaperTabState;
 
 // ---------------------------------------------------------------------------
 // Type guards
@@ -105,6 +177,31 @@ export function isDiffTab(tab: TabState): tab is DiffTabState {
   return tab.tabKind === "diff";
 }
 
+/** Returns true if the tab is a compare tab */
+export function isCompareTab(tab: TabState): tab is CompareTabState {
+  return tab.tabKind === "compare";
+}
+
+/** Returns true if the tab is a relationship graph tab */
+export function isGraphTab(tab: TabState): tab is RelationshipGraphTabState {
+  return tab.tabKind === "graph";
+}
+
+/** Returns true if the tab is a scene board tab */
+export function isSceneBoardTab(tab: TabState): tab is SceneBoardTabState {
+  return tab.tabKind === "scenes";
+}
+
+/** Returns true if the tab is a statistics dashboard tab */
+export function isStatsDashboardTab(tab: TabState): tab is StatsDashboardTabState {
+  return tab.tabKind === "dashboard";
+}
+
+/** Returns true if the tab is a manuscript paper tab */
+export function isManuscriptPaperTab(tab: TabState): tab is ManuscriptPaperTabState {
+  return tab.tabKind === "manuscript";
+}
+
 // ---------------------------------------------------------------------------
 // Serialized / persisted forms (editor tabs only)
 // ---------------------------------------------------------------------------
@@ -4,7 +4,13 @@ import type { MutableRefObject, Dispatch, SetStateAction } from "react";
 import { MdiDocument } from "@/packages/milkdown-plugin-japanese-novel/mdi-document";
 import type { MdiFileDescriptor } from "../project/mdi-file";
 import type { SupportedFileExtension, WorkspaceTab } from "../project/project-types";
-import type { TabId, TabState, EditorTabState, TerminalTabState } from "./tab-types";
+import type {
+  TabId,
+  TabState,
+  EditorTabState,
+  TerminalTabState,
+  CompareTabState,
+} from "./tab-types";
 import type { SaveOutcome } from "./save-executor";
 import type { AffectedTab } from "./tab-path-sync";
 
@@ -67,6 +73,8 @@ export interface UseTabManagerReturn {
    * cannot silently overwrite the original path. See cloneTabState().
    */
   cloneTab: (source: EditorTabState) => void;
+  /** Open `content` in a new untitled, dirty draft tab. See createDraftTab(). */
+  openDraftTab: (content: string, fileType?: SupportedFileExtension) => void;
   closeTab: (tabId: TabId) => void;
   switchTab: (tabId: TabId) => void;
   nextTab: () => void;
@@ -85,13 +93,28 @@ export interface UseTabManagerReturn {
       >
     >,
   ) => void;
+  /**
+   * Open a diff tab against an editor tab. Pass `gitRevision` when the remote
+   * side is a git revision instead of the file on disk.
+   */
   openDiffTab: (
     sourceTabId: TabId,
     sourceFileName: string,
     localContent: string,
     remoteContent: string,
     remoteTimestamp: number,
+    gitRevision?: string,
   ) => void;
+  /** Open a compare tab (two versions of a document), or switch to the one showing the same pair. */
+  openCompareTab: (compare: Omit<CompareTabState, "tabKind" | "id">) => void;
+  /** Open the 人物関係図 tab, or switch to it when it is already open. */
+  openRelationshipGraphTab: () => void;
+  /** Open the シーンボード tab, or switch to it when it is already open. */
+  openSceneBoardTab: () => void;
+  /** Open the 統計ダッシュボード tab, or switch to it when it is already open. */
+  openStatsDashboardTab: () => void;
+  /** Open the 原稿用紙 view of the active editor tab, or switch to it when it is already open. */
+  openManuscriptPaperTab: () => void;
   /**
    * Force-close a tab without dirty check.
    * Used by diff tab conflict resolution to close tabs programmatically.
@@ -280,6 +303,21 @@ export function createNewTab(
   };
 }
 
+/**
+ * Create an untitled draft tab holding converted content (e.g. an imported
+ * 青空文庫 text). Like {@link cloneTabState}, the draft has no save target and
+ * is born dirty so the imported text is never silently discarded.
+ */
+export function createDraftTab(
+  content: string,
+  fileType: SupportedFileExtension = ".mdi",
+): EditorTabState {
+  const draft = createNewTab(content, fileType);
+  draft.isDirty = content.length > 0;
+  draft.lastSavedContent = "";
+  return draft;
+}
+
 /**
  * Produce a TRUE independent draft clone of an editor tab (issue #1874).
  *
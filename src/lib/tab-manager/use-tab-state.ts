@@ -3,9 +3,20 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { MdiFileDescriptor } from "../project/mdi-file";
 import type { SupportedFileExtension } from "../project/project-types";
-import type { TabId, TabState, EditorTabState, TerminalTabState, DiffTabState } from "./tab-types";
+import type {
+  TabId,
+  TabState,
+  EditorTabState,
+  TerminalTabState,
+  DiffTabState,
+  CompareTabState,
+  RelationshipGraphTabState,
+  SceneBoardTabState,
+  StatsDashboardTabState,
+  ManuscriptPaperTabState,
+} from "./tab-types";
 import { isEditorTab } from "./tab-types";
-import { cloneTabState, createNewTab, generateTabId } from "./types";
+import { cloneTabState, createDraftTab, createNewTab, generateTabId } from "./types";
 import type { TabManagerCore } from "./types";
 import { nextTerminalLabel } from "./terminal-label";
 import { useEditorMode } from "@/contexts/EditorModeContext";
@@ -52,6 +63,8 @@ export interface UseTabStateReturn extends TabManagerCore {
    * cannot silently overwrite the original path. See cloneTabState().
    */
   cloneTab: (source: EditorTabState) => void;
+  /** Open `content` in a new untitled, dirty draft tab. See createDraftTab(). */
+  openDraftTab: (content: string, fileType?: SupportedFileExtension) => void;
   /** Open a new terminal tab with placeholder values. Optionally pass a pendingId for spawn correlation. */
   newTerminalTab: (pendingId?: string) => void;
   /** Update a terminal tab's mutable fields (status, exitCode, sessionId, pendingId). */
@@ -71,7 +84,21 @@ export interface UseTabStateReturn extends TabManagerCore {
     localContent: string,
     remoteContent: string,
     remoteTimestamp: number,
+    gitRevision?: string,
   ) => void;
+  /** Open a compare tab, or switch to the one already showing the same `compareKey`. */
+  openCompareTab: (compare: Omit<CompareTabState, "tabKind" | "id">) => void;
+  /** Open the relationship graph tab, or switch to it when it is already open. */
+  openRelationshipGraphTab: () => void;
+  /** Open the scene board tab, or switch to it when it is already open. */
+  openSceneBoardTab: () => void;
+  /** Open the statistics dashboard tab, or switch to it when it is already open. */
+  openStatsDashboardTab: () => void;
+  /**
+   * Open the manuscript paper view of the active editor tab, or switch to it
+   * when it is already open. Does nothing when no editor tab is active.
+   */
+  openManuscriptPaperTab: () => void;
   /** Switch to an existing tab by id. */
   switchTab: (tabId: TabId) => void;
   /** Switch to the next tab. */
@@ -189,6 +216,12 @@ export function useTabState(): UseTabStateReturn {
     setActiveTabId(tab.id);
   }, []);
 
+  const openDraftTab = useCallback((content: string, fileType?: SupportedFileExtension) => {
+    const tab = createDraftTab(content, fileType);
+    setTabs((prev) => [...prev, tab]);
+    setActiveTabId(tab.id);
+  }, []);
+
   const terminalCounterRef = useRef(0);
 
   const newTerminalTab = useCallback((pendingId?: string) => {
@@ -237,12 +270,26 @@ export function useTabState(): UseTabStateReturn {
       localContent: string,
       remoteContent: string,
       remoteTimestamp: number,
+      gitRevision?: string,
     ) => {
       // Prevent duplicate: if a diff tab for this source already exists, switch to it.
       const existing = tabsRef.current.find(
         (t): t is DiffTabState => t.tabKind === "diff" && t.sourceTabId === sourceTabId,
       );
       if (existing) {
+        // A git comparison is only a view: refresh it with the new request
+        // (another revision, or a disk conflict that must take precedence).
+        if (existing.gitRevision !== undefined) {
+          const refreshed: DiffTabState = {
+            ...existing,
+            sourceFileName,
+            localContent,
+            remoteContent,
+            remoteTimestamp,
+            gitRevision,
+          };
+          setTabs((prev) => prev.map((t) => (t.id === existing.id ? refreshed : t)));
+        }
         setActiveTabId(existing.id);
         return;
       }
@@ -255,6 +302,7 @@ export function useTabState(): UseTabStateReturn {
         localContent,
         remoteContent,
         remoteTimestamp,
+        gitRevision,
       };
       setTabs((prev) => [...prev, tab]);
       setActiveTabId(tab.id);
@@ -262,6 +310,81 @@ export function useTabState(): UseTabStateReturn {
     [tabsRef],
   );
 
+  const openCompareTab = useCallback(
+    (compare: Omit<CompareTabState, "tabKind" | "id">) => {
+      const existing = tabsRef.current.find(
+        (t): t is CompareTabState => t.tabKind === "compare" && t.compareKey === compare.compareKey,
+      );
+      if (existing) {
+        setActiveTabId(existing.id);
+        return;
+      }
+
+      const tab: CompareTabState = { tabKind: "compare", id: generateTabId(), ...compare };
+      setTabs((prev) => [...prev, tab]);
+      setActiveTabId(tab.id);
+    },
+    [tabsRef],
+  );
+
+  const openRelationshipGraphTab = useCallback(() => {
+    const existing = tabsRef.current.find((t) => t.tabKind === "graph");
+    if (existing) {
+      setActiveTabId(existing.id);
+      return;
+    }
+
+    const tab: RelationshipGraphTabState = { tabKind: "graph", id: generateTabId() };
+    setTabs((prev) => [...prev, tab]);
+    setActiveTabId(tab.id);
+  }, [tabsRef]);
+
+  const openSceneBoardTab = useCallback(() => {
+    const existing = tabsRef.current.find((t) => t.tabKind === "scenes");
+    if (existing) {
+      setActiveTabId(existing.id);
+      return;
+    }
+
+    const tab: SceneBoardTabState = { tabKind: "scenes", id: generateTabId() };
+    setTabs((prev) => [...prev, tab]);
+    setActiveTabId(tab.id);
+  }, [tabsRef]);
+
+  const openStatsDashboardTab = useCallback(() => {
+    const existing = tabsRef.current.find((t) => t.tabKind === "dashboard");
+    if (existing) {
+      setActiveTabId(existing.id);
+      return;
+    }
+
+    const tab: StatsDashboardTabState = { tabKind: "dashboard", id: generateTabId() };
+    setTabs((prev) => [...prev, tab]);
+    setActiveTabId(tab.id);
+  }, [tabsRef]);
+
+  const openManuscriptPaperTab = useCallback(() => {
+    const source = tabsRef.current.find((t) => t.id === activeTabIdRef.current);
+    if (!source || !isEditorTab(source)) return;
+
+    const existing = tabsRef.current.find(
+      (t): t is ManuscriptPaperTabState =>
+        t.tabKind === "manuscript" && t.sourceTabId === source.id,
+    );
+    if (existing) {
+      setActiveTabId(existing.id);
+      return;
+    }
+
+    const tab: ManuscriptPaperTabState = {
+      tabKind: "manuscript",
+      id: generateTabId(),
+      sourceTabId: source.id,
+    };
+    setTabs((prev) => [...prev, tab]);
+    setActiveTabId(tab.id);
+  }, [tabsRef]);
+
   const switchTab = useCallback((tabId: TabId) => {
     if (tabsRef.current.some((t) => t.id === tabId)) {
       setActiveTabId(tabId);
@@ -408,9 +531,15 @@ export function useTabState(): UseTabStateReturn {
     // Tab CRUD
     newTab,
     cloneTab,
+    openDraftTab,
     newTerminalTab,
     updateTerminalTab,
     openDiffTab,
+    openCompareTab,
+    openRelationshipGraphTab,
+    openSceneBoardTab,
+    openStatsDashboardTab,
+    openManuscriptPaperTab,
     switchTab,
     nextTab: nextTabFn,
     prevTab: prevTabFn,
@@ -1,5 +1,9 @@
 import { describe, it, expect } from "vitest";
-import { readTextWithEncoding, writeTextPreservingEol } from "../text-codec";
+import {
+  readJapaneseTextWithFallback,
+  readTextWithEncoding,
+  writeTextPreservingEol,
+} from "../text-codec";
 
 // ---------------------------------------------------------------------------
 // readTextWithEncoding
@@ -235,3 +239,25 @@ describe("writeTextPreservingEol", () => {
     expect(decoded).toBe(original);
   });
 });
+
+// ---------------------------------------------------------------------------
+// readJapaneseTextWithFallback
+// ---------------------------------------------------------------------------
+
+describe("readJapaneseTextWithFallback", () => {
+  it("decodes UTF-8 text exactly like readTextWithEncoding", () => {
+    const buf = new TextEncoder().encode("｜吾輩《わがはい》\r\n");
+    expect(readJapaneseTextWithFallback(buf)).toEqual(readTextWithEncoding(buf));
+  });
+
+  it("falls back to Shift_JIS for non-UTF-8 bytes", () => {
+    // 吾輩は猫である + CRLF, encoded as Shift_JIS
+    const buf = new Uint8Array([
+      0x8c, 0xe1, 0x94, 0x79, 0x82, 0xcd, 0x94, 0x4c, 0x82, 0xc5, 0x82, 0xa0, 0x82, 0xe9, 0x0d,
+      0x0a,
+    ]);
+    const result = readJapaneseTextWithFallback(buf);
+    expect(result.text).toBe("吾輩は猫である\n");
+    expect(result.eol).toBe("crlf");
+  });
+});
@@ -94,6 +94,11 @@ export class LRUCache<K, V> {
     }
   }
 
+  /** Removes one entry. Returns whether it existed. */
+  delete(key: K): boolean {
+    return this.cache.delete(this.toKey(key));
+  }
+
   /** Removes all entries and resets hit/miss counters. */
   clear(): void {
     this.cache.clear();
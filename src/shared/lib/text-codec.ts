@@ -96,3 +96,31 @@ export function writeTextPreservingEol(text: string, eol: "lf" | "crlf"): Uint8A
   const normalized = eol === "crlf" ? text.replace(/\n/g, "\r\n") : text;
   return new TextEncoder().encode(normalized);
 }
+
+/**
+ * Decode an imported Japanese plain-text file (e.g. a 青空文庫 text), which is
+ * commonly distributed as Shift_JIS rather than UTF-8.
+ *
+ * Tries {@link readTextWithEncoding} first and falls back to Shift_JIS when
+ * the bytes are not valid UTF-8. Unlike the editor open path (#1888) this is
+ * safe: imported text is converted into a new untitled tab and is never
+ * written back over the source file.
+ *
+ * @param buf - Raw file bytes
+ * @returns DecodedText with normalized LF text and detected EOL style
+ * @throws Error if the bytes are neither valid UTF-8 nor valid Shift_JIS
+ */
+export function readJapaneseTextWithFallback(buf: Uint8Array): DecodedText {
+  try {
+    return readTextWithEncoding(buf);
+  } catch {
+    let text: string;
+    try {
+      text = new TextDecoder("shift_jis", { fatal: true }).decode(buf);
+    } catch {
+      throw new Error("UTF-8 または Shift_JIS のテキストとして読み込めませんでした");
+    }
+    const eol: "lf" | "crlf" = /\r\n/.test(text) ? "crlf" : "lf";
+    return { text: text.replace(/\r\n/g, "\n"), eol };
+  }
+}
@@ -12,6 +12,7 @@ import type { KeymapOverrides } from "@/lib/keymap/keymap-types";
 import type { DictEntry, DictDownloadStatus, DictLookup } from "@/lib/dict/dict-types";
 import type { PdfGenerationOptions } from "@/lib/export/types";
 import type { AppRuntimeInfo } from "@/lib/utils/runtime-env";
+import type { GitCommitInfo, GitFileAtRevision, GitResult, GitStatus } from "@/lib/git/git-types";
 
 export {};
 
@@ -76,6 +77,7 @@ declare global {
     onMenuNewTab?: (callback: () => void) => (() => void) | void;
     onMenuOpenSettings?: (callback: () => void) => (() => void) | void;
     onMenuOpenProject?: (callback: () => void) => (() => void) | void;
+    onMenuImportAozora?: (callback: () => void) => (() => void) | void;
     onMenuOpenRecentProject?: (callback: (projectId: string) => void) => (() => void) | void;
     rebuildMenu?: () => Promise<boolean>;
     syncMenuUiState?: (state: {
@@ -127,6 +129,8 @@ declare global {
         // Active tab's file type. The main-process generateDocx un-escapes MDI
         // macros only for ".mdi"; absent/unknown falls back to ".mdi".
         fileType?: import("@/lib/project/project-types").SupportedFileExtension;
+        /** Page break before headings at or above this level (compiled projects). */
+        chapterBreakLevel?: number;
       },
     ) => Promise<string | { success: false; error: string } | null>;
     printDocument?: (
@@ -136,6 +140,8 @@ declare global {
     onMenuPrint?: (callback: () => void) => (() => void) | void;
     onMenuExportTxt?: (callback: () => void) => (() => void) | void;
     onMenuExportTxtRuby?: (callback: () => void) => (() => void) | void;
+    onMenuExportAozora?: (callback: () => void) => (() => void) | void;
+    onMenuExportWebNovel?: (callback: () => void) => (() => void) | void;
     onMenuExportPDF?: (callback: () => void) => (() => void) | void;
     onMenuExportEPUB?: (callback: () => void) => (() => void) | void;
     onMenuExportDOCX?: (callback: () => void) => (() => void) | void;
@@ -508,6 +514,35 @@ declare global {
        */
       onExit: (callback: (payload: { sessionId: string; exitCode: number }) => void) => () => void;
     };
+    /**
+     * Local git versioning of the project folder. Every call runs in the
+     * window's approved project root; paths are relative to it. Failures
+     * (git not installed, not a repository, …) resolve with `ok: false`.
+     */
+    git?: {
+      /** Branch, HEAD presence and changed files of the project folder */
+      status: () => Promise<GitResult<GitStatus>>;
+      /** Stage paths (new, modified or deleted files) */
+      stage: (paths: string[]) => Promise<GitResult>;
+      /** Unstage paths, keeping working tree changes */
+      unstage: (paths: string[]) => Promise<GitResult>;
+      /** Commit the staged changes */
+      commit: (
+        message: string,
+      ) => Promise<GitResult<{ commit: { hash: string; shortHash: string } }>>;
+      /**
+       * Recent commits touching the project folder, newest first.
+       * @param limit - Maximum number of commits (default 50)
+       */
+      log: (limit?: number) => Promise<GitResult<{ commits: GitCommitInfo[] }>>;
+      /** Commits that changed one file, following renames, newest first */
+      fileLog: (path: string, limit?: number) => Promise<GitResult<{ commits: GitCommitInfo[] }>>;
+      /**
+       * A file's content at a revision.
+       * @param revision - "HEAD", "HEAD~N" or a commit hash
+       */
+      show: (revision: string, path: string) => Promise<GitResult<GitFileAtRevision>>;
+    };
   }
 
   interface Window {